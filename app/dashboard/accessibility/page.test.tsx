@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import AccessibilityReportPage from './page';
+import { contentApi, mediaApi, themeApi } from '@/lib/api';
+import type { Theme } from '@/lib/api/themes';
+import type { ContentEntry, ContentType, Media } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentEntries: vi.fn(),
+    getContentTypes: vi.fn(),
+  },
+  mediaApi: {
+    getMedia: vi.fn(),
+  },
+  themeApi: {
+    getActiveTheme: vi.fn(),
+  },
+}));
+
+describe('AccessibilityReportPage', () => {
+  const contentType = {
+    id: 'type-1',
+    name: 'Article',
+    slug: 'article',
+    fields: [
+      { name: 'title', type: 'text', label: 'Title' },
+      { name: 'body', type: 'richtext', label: 'Body' },
+    ],
+  } as ContentType;
+
+  const entries: ContentEntry[] = [
+    {
+      id: 'entry-1',
+      content_type_id: 'type-1',
+      slug: 'launch',
+      status: 'published',
+      data: { title: 'Launch', body: '<h2>Intro</h2><h4>Specs</h4><a href="/buy"></a>' },
+    },
+    {
+      id: 'entry-2',
+      content_type_id: 'type-1',
+      slug: 'about',
+      status: 'draft',
+      data: { title: 'About', body: '<p>All good</p>' },
+    },
+  ];
+
+  const missingAlt = [{ id: 'm1', filename: 'banner.jpg', mime_type: 'image/jpeg', file_size: 100 }] as Media[];
+
+  const theme = {
+    id: 'theme-1',
+    display_name: 'Sunrise',
+    colors: { primary: '#ffcc00', secondary: '#333333', background: '#ffffff', foreground: '#111111' },
+  } as Theme;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(contentApi.getContentEntries).mockResolvedValue({ items: entries, total: 2 });
+    vi.mocked(contentApi.getContentTypes).mockResolvedValue([contentType]);
+    vi.mocked(mediaApi.getMedia).mockResolvedValue({ items: missingAlt, total: 1 });
+    vi.mocked(themeApi.getActiveTheme).mockResolvedValue(theme);
+  });
+
+  it('should list library images without alt text', async () => {
+    render(<AccessibilityReportPage />);
+
+    expect(await screen.findByText('banner.jpg')).toBeInTheDocument();
+    expect(mediaApi.getMedia).toHaveBeenCalledWith(expect.objectContaining({ file_type: 'image', missing_alt: true }));
+  });
+
+  it('should list images without alt text from every page of the library', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) => ({ ...missingAlt[0], id: `m${i}`, filename: `photo-${i}.jpg` }));
+    vi.mocked(mediaApi.getMedia)
+      .mockResolvedValueOnce({ items: firstPage, total: 101, pages: 2 })
+      .mockResolvedValueOnce({ items: missingAlt, total: 101, pages: 2 });
+
+    render(<AccessibilityReportPage />);
+
+    expect(await screen.findByText('banner.jpg')).toBeInTheDocument();
+    expect(mediaApi.getMedia).toHaveBeenLastCalledWith(expect.objectContaining({ missing_alt: true, page: 2 }));
+  });
+
+  it('should list entries with issues by rule', async () => {
+    render(<AccessibilityReportPage />);
+
+    const link = await screen.findByRole('link', { name: 'Launch' });
+    expect(link).toHaveAttribute('href', '/dashboard/content/entry-1');
+    const row = link.closest('tr') as HTMLElement;
+    expect(within(row).getByText('Headings: 1')).toBeInTheDocument();
+    expect(within(row).getByText('Links: 1')).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'About' })).not.toBeInTheDocument();
+  });
+
+  it('should check the contrast of the active theme', async () => {
+    render(<AccessibilityReportPage />);
+
+    expect(await screen.findByText(/Links \(primary on background\)/)).toBeInTheDocument();
+    expect(screen.getAllByText('Sunrise').length).toBeGreaterThan(0);
+  });
+
+  it('should still report content when there is no active theme', async () => {
+    vi.mocked(themeApi.getActiveTheme).mockRejectedValue(new Error('Not found'));
+
+    render(<AccessibilityReportPage />);
+
+    expect(await screen.findByText('No active theme')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Launch' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { contentApi } from '@/lib/api';
+import { A11Y_RULES, A11yIssue, A11yRule, auditEntry, checkThemeContrast } from '@/lib/accessibility';
+import { useAccessibilityAudit } from '@/hooks/use-accessibility-audit';
+import { ContentEntry, ContentType } from '@/types';
+import { AccessibilityChecklist } from '@/components/content/accessibility-checklist';
+import { ResponsiveImage } from '@/components/media/ResponsiveImage';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Entries checked per report; the most recently updated come first
+const ENTRY_LIMIT = 100;
+
+interface EntryReport {
+  entry: ContentEntry;
+  typeName: string;
+  issues: A11yIssue[];
+}
+
+export default function AccessibilityReportPage() {
+  const { missingAlt, missingAltUrls, theme, loading: referenceLoading } = useAccessibilityAudit();
+  const [entries, setEntries] = useState<ContentEntry[]>([]);
+  const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
+  const [entriesLoading, setEntriesLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      contentApi.getContentEntries({ per_page: ENTRY_LIMIT, sort: 'updated_at', order: 'desc' }),
+      contentApi.getContentTypes(),
+    ])
+      .then(([entryPage, types]) => {
+        if (cancelled) return;
+        setEntries(entryPage.items);
+        setContentTypes(types);
+      })
+      .catch((error) => console.error('Failed to load content for the accessibility report:', error))
+      .finally(() => {
+        if (!cancelled) setEntriesLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const loading = referenceLoading || entriesLoading;
+  const themeIssues = theme ? checkThemeContrast(theme.colors) : [];
+
+  const reports: EntryReport[] = entries
+    .map((entry) => {
+      const type = contentTypes.find((t) => t.id === entry.content_type_id) || entry.content_type;
+      return {
+        entry,
+        typeName: type?.name || 'Unknown type',
+        issues: auditEntry({
+          fields: type?.fields || [],
+          data: entry.data || entry.content_data || {},
+          missingAltUrls,
+          background: theme?.colors.background,
+        }),
+      };
+    })
+    .filter((report) => report.issues.length > 0)
+    .sort((a, b) => b.issues.length - a.issues.length);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Accessibility</h1>
+        <p className="text-muted-foreground">
+          Alt text, heading order, link text and colour contrast across your organization
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-muted-foreground">Checking content...</div>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Images Without Alt Text</CardDescription>
+                <CardTitle className="text-3xl">{missingAlt.length}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Entries With Issues</CardDescription>
+                <CardTitle className="text-3xl">{reports.length}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                Of the {entries.length} most recently updated entries
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Theme Contrast Issues</CardDescription>
+                <CardTitle className="text-3xl">{theme ? themeIssues.length : '-'}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {theme ? theme.display_name : 'No active theme'}
+              </CardContent>
+            </Card>
+          </div>
+
+          {theme && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Theme</CardTitle>
+                <CardDescription>
+                  Text and background colours of {theme.display_name}, checked against WCAG AA
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AccessibilityChecklist issues={themeIssues} />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Images Without Alt Text</CardTitle>
+                <CardDescription>Library images that need a description for screen readers</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/dashboard/media">Open Media Library</Link>
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {missingAlt.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every image in the library has alt text.</p>
+              ) : (
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+                  {missingAlt.map((media) => (
+                    <div key={media.id} className="space-y-1">
+                      <ResponsiveImage
+                        src={media.url || media.thumbnail_url}
+                        alt=""
+                        rendition="thumbnail"
+                        className="w-full aspect-square object-cover rounded-md bg-muted"
+                      />
+                      <p className="text-xs truncate" title={media.filename}>{media.filename}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Content</CardTitle>
+              <CardDescription>Entries with accessibility issues, most issues first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {reports.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No issues found in recent entries.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Entry</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Issues</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reports.map(({ entry, typeName, issues }) => {
+                      const data = entry.data || entry.content_data || {};
+                      return (
+                        <TableRow key={entry.id}>
+                          <TableCell>
+                            <Link href={`/dashboard/content/${entry.id}`} className="font-medium hover:underline">
+                              {data.title || data.name || entry.slug}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{typeName}</TableCell>
+                          <TableCell>
+                            <Badge variant={entry.status === 'published' ? 'default' : 'secondary'}>{entry.status}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {(Object.keys(A11Y_RULES) as A11yRule[]).map((rule) => {
+                                const count = issues.filter((issue) => issue.rule === rule).length;
+                                return count > 0 ? (
+                                  <Badge key={rule} variant="outline" title={A11Y_RULES[rule]}>
+                                    {RULE_LABELS[rule]}: {count}
+                                  </Badge>
+                                ) : null;
+                              })}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+const RULE_LABELS: Record<A11yRule, string> = {
+  'image-alt': 'Alt text',
+  'heading-order': 'Headings',
+  'empty-link': 'Links',
+  'color-contrast': 'Contrast',
+};
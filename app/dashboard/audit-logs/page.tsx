@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { auditLogApi } from '@/lib/api';
 import type { AuditLogItem, AuditLogStats } from '@/types';
+import { WORKFLOW_AUDIT_ACTIONS } from '@/lib/workflow';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -149,6 +150,11 @@ export default function AuditLogsPage() {
                   <SelectItem value="delete">Delete</SelectItem>
                   <SelectItem value="login">Login</SelectItem>
                   <SelectItem value="logout">Logout</SelectItem>
+                  {WORKFLOW_AUDIT_ACTIONS.map((action) => (
+                    <SelectItem key={action.value} value={action.value}>
+                      {action.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -1,15 +1,24 @@
 import { render, screen, waitFor } from '@testing-library/react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import userEvent from '@testing-library/user-event';
 import ContentTypeBuilderPage from './page';
 import { contentApi } from '@/lib/api';
+import { toast } from 'sonner';
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
 
 // Mock Next.js navigation
 const mockPush = vi.fn();
+const mockGetParam = vi.fn((): string | null => null); // No edit ID by default
 vi.mock('next/navigation', () => ({
   useRouter: () => ({ push: mockPush }),
   useSearchParams: () => ({
-    get: vi.fn(() => null), // No edit ID by default
+    get: mockGetParam,
   }),
 }));
 
@@ -17,6 +26,9 @@ vi.mock('next/navigation', () => ({
 vi.mock('@/lib/api', () => ({
   contentApi: {
     createContentType: vi.fn(),
+    getContentTypes: vi.fn(),
+    getContentType: vi.fn(),
+    updateContentType: vi.fn(),
   },
 }));
 
@@ -467,6 +479,231 @@ describe('ContentTypeBuilderPage', () => {
     });
   });
 
+  describe('Reference Fields', () => {
+    it('should save allowed target types for reference fields', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.getContentTypes).mockResolvedValue([
+        { id: 't1', name: 'Product', organization_id: '1', created_at: '', updated_at: '' },
+        { id: 't2', name: 'Article', organization_id: '1', created_at: '', updated_at: '' },
+      ]);
+      vi.mocked(contentApi.createContentType).mockResolvedValue({
+        id: '1',
+        name: 'Collection',
+        organization_id: '1',
+        created_at: '2025-11-28T00:00:00Z',
+        updated_at: '2025-11-28T00:00:00Z',
+      });
+
+      render(<ContentTypeBuilderPage />);
+
+      await user.type(screen.getByLabelText('Name *'), 'Collection');
+      await user.click(screen.getByRole('button', { name: /Reference/i }));
+
+      await user.click(await screen.findByLabelText('Product'));
+      await user.click(screen.getByLabelText('Allow multiple entries', { selector: 'input' }));
+      await user.click(screen.getByRole('button', { name: /Save/i }));
+
+      await waitFor(() => {
+        expect(contentApi.createContentType).toHaveBeenCalledWith(
+          expect.objectContaining({
+            fields: [
+              expect.objectContaining({
+                name: 'reference-field',
+                type: 'reference',
+                multiple: true,
+                allowed_content_types: ['t1'],
+              }),
+            ],
+          })
+        );
+      });
+    });
+  });
+
+  describe('Components Fields', () => {
+    it('should save block types for components fields', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.createContentType).mockResolvedValue({
+        id: '1',
+        name: 'Landing Page',
+        organization_id: '1',
+        created_at: '2025-11-28T00:00:00Z',
+        updated_at: '2025-11-28T00:00:00Z',
+      });
+
+      render(<ContentTypeBuilderPage />);
+
+      await user.type(screen.getByLabelText('Name *'), 'Landing Page');
+      await user.click(screen.getByRole('button', { name: /Components/i }));
+      await user.click(screen.getByRole('button', { name: 'Hero' }));
+      await user.click(screen.getByRole('button', { name: /Save/i }));
+
+      await waitFor(() => {
+        expect(contentApi.createContentType).toHaveBeenCalledWith(
+          expect.objectContaining({
+            fields: [
+              expect.objectContaining({
+                type: 'components',
+                blocks: [expect.objectContaining({ key: 'hero', name: 'Hero' })],
+              }),
+            ],
+          })
+        );
+      });
+    });
+
+    it('should require at least one block type', async () => {
+      const user = userEvent.setup();
+      render(<ContentTypeBuilderPage />);
+
+      await user.type(screen.getByLabelText('Name *'), 'Landing Page');
+      await user.click(screen.getByRole('button', { name: /Components/i }));
+      await user.click(screen.getByRole('button', { name: /Save/i }));
+
+      expect(contentApi.createContentType).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Validation Rules', () => {
+    it('should save validation rules under the field validation', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.createContentType).mockResolvedValue({
+        id: '1',
+        name: 'Product',
+        organization_id: '1',
+        created_at: '2025-11-28T00:00:00Z',
+        updated_at: '2025-11-28T00:00:00Z',
+      });
+
+      render(<ContentTypeBuilderPage />);
+
+      await user.type(screen.getByLabelText('Name *'), 'Product');
+      await user.click(screen.getByRole('button', { name: /^📝 Text/i }));
+      await user.type(screen.getByLabelText('Min Length'), '3');
+      await user.type(screen.getByLabelText('Pattern (regex)'), '\\d+');
+      await user.click(screen.getByRole('button', { name: /Save/i }));
+
+      await waitFor(() => {
+        expect(contentApi.createContentType).toHaveBeenCalledWith(
+          expect.objectContaining({
+            fields: [
+              expect.objectContaining({
+                type: 'text',
+                validation: { minLength: 3, pattern: '\\d+' },
+              }),
+            ],
+          })
+        );
+      });
+    });
+
+    it('should reject an invalid pattern', async () => {
+      const user = userEvent.setup();
+      render(<ContentTypeBuilderPage />);
+
+      await user.type(screen.getByLabelText('Name *'), 'Product');
+      await user.click(screen.getByRole('button', { name: /^📝 Text/i }));
+      await user.type(screen.getByLabelText('Pattern (regex)'), '[[');
+      await user.click(screen.getByRole('button', { name: /Save/i }));
+
+      expect(toast.error).toHaveBeenCalledWith('Field "text-field": Invalid pattern "["');
+      expect(contentApi.createContentType).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Conditional Logic', () => {
+    it('should save visibility rules referencing other fields', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.createContentType).mockResolvedValue({
+        id: '1',
+        name: 'Product',
+        organization_id: '1',
+        created_at: '2025-11-28T00:00:00Z',
+        updated_at: '2025-11-28T00:00:00Z',
+      });
+
+      render(<ContentTypeBuilderPage />);
+
+      await user.type(screen.getByLabelText('Name *'), 'Product');
+      await user.click(screen.getByRole('button', { name: /✅ Boolean/i }));
+      await user.click(screen.getByRole('button', { name: 'Close field editor' }));
+      await user.click(screen.getByRole('button', { name: /🔢 Number/i }));
+      await user.click(screen.getAllByRole('button', { name: /Add Condition/i })[0]);
+      await user.type(screen.getByLabelText('Visibility condition 1 value'), 'true');
+      await user.click(screen.getByRole('button', { name: /Save/i }));
+
+      await waitFor(() => {
+        expect(contentApi.createContentType).toHaveBeenCalledWith(
+          expect.objectContaining({
+            fields: [
+              expect.objectContaining({ name: 'boolean-field' }),
+              expect.objectContaining({
+                name: 'number-field',
+                visibility: {
+                  action: 'show',
+                  match: 'all',
+                  conditions: [{ field: 'boolean-field', operator: 'equals', value: 'true' }],
+                },
+                clear_when_hidden: false,
+              }),
+            ],
+          })
+        );
+      });
+    });
+  });
+
+  describe('Schema Migration', () => {
+    const existingType = {
+      id: 'type-1',
+      name: 'Product',
+      api_id: 'product',
+      entry_count: 12,
+      fields: [{ name: 'price', type: 'text', label: 'Price' }],
+      organization_id: '1',
+      created_at: '2025-11-28T00:00:00Z',
+      updated_at: '2025-11-28T00:00:00Z',
+    };
+
+    beforeEach(() => {
+      mockGetParam.mockReturnValue('type-1');
+      vi.mocked(contentApi.getContentType).mockResolvedValue(existingType);
+    });
+
+    afterEach(() => {
+      mockGetParam.mockReturnValue(null);
+    });
+
+    it('should preview a migration before saving renamed fields', async () => {
+      const user = userEvent.setup();
+      render(<ContentTypeBuilderPage />);
+
+      await user.click(await screen.findByText('Key: price'));
+      await user.clear(screen.getByLabelText('Field Key *'));
+      await user.type(screen.getByLabelText('Field Key *'), 'amount');
+      await user.click(screen.getByRole('button', { name: /^Save$/i }));
+
+      expect(await screen.findByText('Migrate Existing Entries')).toBeInTheDocument();
+      expect(screen.getByText(/12 entries use this content type/)).toBeInTheDocument();
+      expect(screen.getByText('Renamed')).toBeInTheDocument();
+      expect(contentApi.updateContentType).not.toHaveBeenCalled();
+    });
+
+    it('should save directly when no fields changed', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.updateContentType).mockResolvedValue(existingType);
+      render(<ContentTypeBuilderPage />);
+
+      await screen.findByText('Key: price');
+      await user.click(screen.getByRole('button', { name: /^Save$/i }));
+
+      await waitFor(() => {
+        expect(contentApi.updateContentType).toHaveBeenCalled();
+      });
+      expect(screen.queryByText('Migrate Existing Entries')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Navigation', () => {
     it('should render cancel button with correct link', () => {
       render(<ContentTypeBuilderPage />);
@@ -6,6 +6,23 @@ import Link from 'next/link';
 import { toast } from 'sonner';
 import { contentApi } from '@/lib/api';
 import { FIELD_TYPES, getFieldTypeDefinition, generateFieldKey } from '@/lib/field-types';
+import { validateWorkflow } from '@/lib/workflow';
+import { validateBlockSchemas } from '@/lib/blocks';
+import { getValidationRules, validateValidationRules, VALIDATION_RULE_KEYS } from '@/lib/validation';
+import { validateFieldConditions } from '@/lib/conditions';
+import { diffFields, FieldMapping } from '@/lib/schema-migration';
+import {
+  ContentBlockSchema,
+  ContentType,
+  ContentTypeField,
+  ContentWorkflow,
+  FieldRule,
+  FieldVisibilityRule,
+} from '@/types';
+import { WorkflowEditor } from '@/components/content/workflow-editor';
+import { BlockSchemaEditor } from '@/components/content/block-schema-editor';
+import { FieldRuleEditor } from '@/components/content/field-rule-editor';
+import { SchemaMigrationDialog } from '@/components/content/schema-migration-dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -13,14 +30,37 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Trash2, GripVertical, Save, X, ArrowLeft } from 'lucide-react';
 
 interface FieldConfig {
   id: string;
   key: string;
+  /** Key the field was saved with, so renames can be migrated */
+  originalKey?: string;
   config: Record<string, unknown>;
 }
 
+// Validation rules are edited as flat field properties but saved under `validation`
+function getValidationConfig(config: Record<string, unknown>): Record<string, unknown> | undefined {
+  const validation: Record<string, unknown> = { ...(config.validation as Record<string, unknown> | undefined) };
+  VALIDATION_RULE_KEYS.forEach((key) => {
+    const value = Array.isArray(config[key]) ? (config[key] as unknown[]).filter(Boolean) : config[key];
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete validation[key];
+    } else {
+      validation[key] = value;
+    }
+  });
+  return Object.keys(validation).length > 0 ? validation : undefined;
+}
+
 export default function ContentTypeBuilderPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -31,11 +71,18 @@ export default function ContentTypeBuilderPage() {
   const [apiName, setApiName] = useState('');
   const [description, setDescription] = useState('');
   const [fields, setFields] = useState<FieldConfig[]>([]);
+  const [workflow, setWorkflow] = useState<ContentWorkflow | undefined>(undefined);
   const [error, setError] = useState<string | null>(null);
   const [selectedField, setSelectedField] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [apiNameManuallyEdited, setApiNameManuallyEdited] = useState(false);
+  const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
+  const [savedFields, setSavedFields] = useState<ContentTypeField[]>([]);
+  const [entryCount, setEntryCount] = useState<number | undefined>(undefined);
+  const [migrationMappings, setMigrationMappings] = useState<FieldMapping[] | null>(null);
+
+  const hasReferenceFields = fields.some((f) => f.config.type === 'reference');
 
   useEffect(() => {
     if (isEdit && editId) {
@@ -43,6 +90,13 @@ export default function ContentTypeBuilderPage() {
     }
   }, [isEdit, editId]);
 
+  // Reference fields need the list of content types they may link to
+  useEffect(() => {
+    if (hasReferenceFields && contentTypes.length === 0) {
+      loadContentTypes();
+    }
+  }, [hasReferenceFields]);
+
   useEffect(() => {
     if (!isEdit && name && !apiNameManuallyEdited) {
       setApiName(generateFieldKey(name));
@@ -56,12 +110,16 @@ export default function ContentTypeBuilderPage() {
       setName(data.name);
       setApiName(data.api_id || '');
       setDescription(data.description || '');
+      setWorkflow(data.workflow);
+      setSavedFields(data.fields || []);
+      setEntryCount(data.entry_count);
       
       // Convert fields array to field configs
       const fieldConfigs: FieldConfig[] = (data.fields || []).map(
         (field, index) => ({
           id: `field-${index}`,
           key: field.name,
+          originalKey: field.name,
           config: {
             type: field.type,
             label: field.label || field.name.replace(/_/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase()),
@@ -70,7 +128,16 @@ export default function ContentTypeBuilderPage() {
             localized: field.localized,
             default: field.default,
             validation: field.validation,
+            ...field.validation,
             help_text: field.help_text,
+            visibility: field.visibility,
+            required_when: field.required_when,
+            clear_when_hidden: field.clear_when_hidden,
+            ...(field.type === 'reference' && {
+              multiple: field.multiple || false,
+              allowed_content_types: field.allowed_content_types || [],
+            }),
+            ...(field.type === 'components' && { blocks: field.blocks || [] }),
           },
         })
       );
@@ -83,6 +150,15 @@ export default function ContentTypeBuilderPage() {
     }
   };
 
+  const loadContentTypes = async () => {
+    try {
+      const data = await contentApi.getContentTypes();
+      setContentTypes(data);
+    } catch (err) {
+      console.error('Failed to load content types:', err);
+    }
+  };
+
   const addField = (type: string) => {
     const fieldType = getFieldTypeDefinition(type);
     if (!fieldType) return;
@@ -178,6 +254,37 @@ export default function ContentTypeBuilderPage() {
         toast.error(`Field "${field.key}" must have a label`);
         return false;
       }
+      const rulesError = validateValidationRules(getValidationRules({ validation: getValidationConfig(field.config) }));
+      if (rulesError) {
+        toast.error(`Field "${field.key}": ${rulesError}`);
+        return false;
+      }
+      const conditionsError = validateFieldConditions(
+        {
+          name: field.key,
+          type: field.config.type as string,
+          visibility: field.config.visibility as FieldVisibilityRule | undefined,
+          required_when: field.config.required_when as FieldRule | undefined,
+        },
+        keys
+      );
+      if (conditionsError) {
+        toast.error(`Field "${field.key}": ${conditionsError}`);
+        return false;
+      }
+      if (field.config.type === 'components') {
+        const blocksError = validateBlockSchemas(field.config.blocks as ContentBlockSchema[] | undefined);
+        if (blocksError) {
+          toast.error(`Field "${field.key}": ${blocksError}`);
+          return false;
+        }
+      }
+    }
+
+    const workflowError = validateWorkflow(workflow);
+    if (workflowError) {
+      toast.error(workflowError);
+      return false;
     }
 
     return true;
@@ -186,19 +293,45 @@ export default function ContentTypeBuilderPage() {
   const handleSave = async () => {
     if (!validateSchema()) return;
 
+    // Existing entries would lose data stored under renamed, retyped or deleted fields
+    if (isEdit && entryCount !== 0) {
+      const mappings = diffFields(
+        savedFields,
+        fields.map((field) => ({ originalKey: field.originalKey, name: field.key, type: field.config.type as string }))
+      );
+      if (mappings.length > 0) {
+        setMigrationMappings(mappings);
+        return;
+      }
+    }
+
+    await saveContentType();
+  };
+
+  const saveContentType = async (): Promise<boolean> => {
     try {
       setIsSaving(true);
 
       // Convert field configs to API fields array
-      const apiFields = fields.map((field) => ({
+      const apiFields: ContentTypeField[] = fields.map((field) => ({
         name: field.key,
         type: field.config.type as string,
         required: field.config.required as boolean || false,
         unique: field.config.unique as boolean || false,
         localized: field.config.localized as boolean || false,
         default: field.config.default,
-        validation: field.config.validation as Record<string, unknown> | undefined,
+        validation: getValidationConfig(field.config),
         help_text: field.config.help_text as string | undefined,
+        visibility: field.config.visibility as FieldVisibilityRule | undefined,
+        required_when: field.config.required_when as FieldRule | undefined,
+        clear_when_hidden: field.config.visibility ? (field.config.clear_when_hidden as boolean) || false : undefined,
+        ...(field.config.type === 'reference' && {
+          multiple: field.config.multiple as boolean || false,
+          allowed_content_types: (field.config.allowed_content_types as string[] | undefined) || [],
+        }),
+        ...(field.config.type === 'components' && {
+          blocks: (field.config.blocks as ContentBlockSchema[] | undefined) || [],
+        }),
       }));
 
       const payload = {
@@ -206,20 +339,25 @@ export default function ContentTypeBuilderPage() {
         api_id: apiName,
         description: description || undefined,
         fields: apiFields,
+        workflow,
       };
 
       if (isEdit && editId) {
         await contentApi.updateContentType(editId, payload);
         toast.success('Content type updated successfully');
+        setSavedFields(apiFields);
+        setFields((prev) => prev.map((field) => ({ ...field, originalKey: field.key })));
       } else {
         await contentApi.createContentType(payload);
         toast.success('Content type created successfully');
         router.push('/dashboard/content-types');
       }
+      return true;
     } catch (err) {
       const error = err as Error & { response?: { data?: { detail?: string } } };
       setError('Failed to create content type: ' + (error.response?.data?.detail || error.message));
       toast.error('Failed to save content type');
+      return false;
     } finally {
       setIsSaving(false);
     }
@@ -229,6 +367,10 @@ export default function ContentTypeBuilderPage() {
   const selectedFieldType = selectedFieldData
     ? getFieldTypeDefinition(selectedFieldData.config.type as string)
     : null;
+  const selectedVisibility = selectedFieldData?.config.visibility as FieldVisibilityRule | undefined;
+  const conditionFields = fields
+    .filter((f) => f.id !== selectedField && f.key)
+    .map((f) => ({ name: f.key, label: String(f.config.label || f.key) }));
 
   if (isLoading) {
     return (
@@ -240,6 +382,22 @@ export default function ContentTypeBuilderPage() {
 
   return (
     <div className="space-y-6">
+      {migrationMappings && editId && (
+        <SchemaMigrationDialog
+          open
+          contentTypeId={editId}
+          contentTypeName={name}
+          entryCount={entryCount}
+          mappings={migrationMappings}
+          addedFields={fields
+            .filter((f) => !f.originalKey)
+            .map((f) => ({ name: f.key, type: f.config.type as string }))}
+          onCancel={() => setMigrationMappings(null)}
+          onSaveSchema={saveContentType}
+          onComplete={() => setMigrationMappings(null)}
+        />
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="bg-destructive/15 text-destructive px-4 py-3 rounded-md">
@@ -406,6 +564,9 @@ export default function ContentTypeBuilderPage() {
               )}
             </CardContent>
           </Card>
+
+          {/* Review Workflow */}
+          <WorkflowEditor workflow={workflow} onChange={setWorkflow} />
         </div>
 
         {/* Right Column - Field Types & Editor */}
@@ -451,6 +612,7 @@ export default function ContentTypeBuilderPage() {
                     variant="ghost"
                     size="sm"
                     onClick={() => setSelectedField(null)}
+                    aria-label="Close field editor"
                   >
                     <X className="h-4 w-4" />
                   </Button>
@@ -524,12 +686,132 @@ export default function ContentTypeBuilderPage() {
                           {prop.label}
                         </Label>
                       </div>
+                    ) : prop.type === 'array' ? (
+                      <>
+                        <Input
+                          id={prop.name}
+                          value={((selectedFieldData.config[prop.name] as string[] | undefined) || []).join(', ')}
+                          onChange={(e) =>
+                            updateFieldConfig(
+                              selectedField,
+                              prop.name,
+                              e.target.value.split(',').map((item) => item.trim())
+                            )
+                          }
+                        />
+                        <p className="text-xs text-muted-foreground">Separate values with commas</p>
+                      </>
+                    ) : prop.type === 'content_types' ? (
+                      <div className="space-y-2">
+                        {contentTypes.map((type) => {
+                          const selected = (selectedFieldData.config[prop.name] as string[] | undefined) || [];
+                          return (
+                            <div key={type.id} className="flex items-center space-x-2">
+                              <input
+                                type="checkbox"
+                                id={`${prop.name}-${type.id}`}
+                                checked={selected.includes(type.id)}
+                                onChange={(e) =>
+                                  updateFieldConfig(
+                                    selectedField,
+                                    prop.name,
+                                    e.target.checked
+                                      ? [...selected, type.id]
+                                      : selected.filter((id) => id !== type.id)
+                                  )
+                                }
+                                className="h-4 w-4"
+                              />
+                              <Label htmlFor={`${prop.name}-${type.id}`} className="font-normal">
+                                {type.name}
+                              </Label>
+                            </div>
+                          );
+                        })}
+                        <p className="text-xs text-muted-foreground">
+                          Leave all unchecked to allow entries of any type
+                        </p>
+                      </div>
+                    ) : prop.type === 'blocks' ? (
+                      <BlockSchemaEditor
+                        key={selectedField}
+                        value={(selectedFieldData.config[prop.name] as ContentBlockSchema[] | undefined) || []}
+                        onChange={(blocks) => updateFieldConfig(selectedField, prop.name, blocks)}
+                      />
                     ) : null}
                   </div>
                 ))}
 
                 <Separator />
 
+                {/* Conditional Logic */}
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Conditional Visibility</Label>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Select
+                        value={selectedVisibility?.action || 'show'}
+                        onValueChange={(action) =>
+                          selectedVisibility &&
+                          updateFieldConfig(selectedField, 'visibility', {
+                            ...selectedVisibility,
+                            action: action as FieldVisibilityRule['action'],
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-24" aria-label="Visibility action">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="show">Show</SelectItem>
+                          <SelectItem value="hide">Hide</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <span className="text-muted-foreground">this field when</span>
+                    </div>
+                    <FieldRuleEditor
+                      label="Visibility"
+                      rule={selectedVisibility}
+                      fields={conditionFields}
+                      onChange={(rule) =>
+                        updateFieldConfig(
+                          selectedField,
+                          'visibility',
+                          rule ? { ...rule, action: selectedVisibility?.action || 'show' } : undefined
+                        )
+                      }
+                    />
+                    {selectedVisibility && (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          id="clear_when_hidden"
+                          checked={!!selectedFieldData.config.clear_when_hidden}
+                          onChange={(e) =>
+                            updateFieldConfig(selectedField, 'clear_when_hidden', e.target.checked)
+                          }
+                          className="h-4 w-4"
+                        />
+                        <Label htmlFor="clear_when_hidden" className="font-normal">
+                          Clear value on save while hidden
+                        </Label>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Required When</Label>
+                    <FieldRuleEditor
+                      label="Required"
+                      rule={selectedFieldData.config.required_when as FieldRule | undefined}
+                      fields={conditionFields}
+                      onChange={(rule) => updateFieldConfig(selectedField, 'required_when', rule)}
+                    />
+                  </div>
+                </div>
+
+                <Separator />
+
                 <Button
                   variant="destructive"
                   className="w-full"
@@ -23,7 +23,9 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Plus, MoreVertical, Eye, Edit, Trash2, AlertCircle } from 'lucide-react';
+import { BundleImportWizard } from '@/components/content/bundle-import-wizard';
+import { useBundleExport } from '@/hooks/use-bundle-export';
+import { Plus, MoreVertical, Eye, Edit, Trash2, AlertCircle, Download, Upload } from 'lucide-react';
 
 export default function ContentTypesPage() {
   const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
@@ -32,6 +34,8 @@ export default function ContentTypesPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [typeToDelete, setTypeToDelete] = useState<{ id: string; name: string } | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const { exportBundle, isExporting } = useBundleExport();
 
   // Filter content types based on search
   const filteredContentTypes = useMemo(() => {
@@ -117,12 +121,26 @@ export default function ContentTypesPage() {
             Define and manage your content models
           </p>
         </div>
-        <Button asChild>
-          <Link href="/dashboard/content-types/builder">
-            <Plus className="h-4 w-4 mr-2" />
-            Create Content Type
-          </Link>
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => exportBundle(filteredContentTypes, { name: 'content-types' })}
+            disabled={isExporting || filteredContentTypes.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? 'Exporting...' : 'Export'}
+          </Button>
+          <Button asChild>
+            <Link href="/dashboard/content-types/builder">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Content Type
+            </Link>
+          </Button>
+        </div>
       </div>
 
       {/* Search */}
@@ -172,6 +190,13 @@ export default function ContentTypesPage() {
                           Edit
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => exportBundle([type], { name: type.api_id || type.name })}
+                        disabled={isExporting}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Export
+                      </DropdownMenuItem>
                       <DropdownMenuItem
                         className="text-destructive"
                         onClick={() => openDeleteDialog(type.id, type.name)}
@@ -249,6 +274,8 @@ export default function ContentTypesPage() {
         </div>
       )}
 
+      <BundleImportWizard open={importOpen} onOpenChange={setImportOpen} onImported={loadContentTypes} />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
@@ -2,7 +2,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import ContentEntryEditorPage from './page';
-import { contentApi, translationApi } from '@/lib/api';
+import { createDefaultWorkflow } from '@/lib/workflow';
+import { createFieldState } from '@/lib/translation-status';
+import { contentApi, mediaApi, themeApi, translationApi } from '@/lib/api';
 import { toast } from 'sonner';
 
 // Mock sonner toast
@@ -31,13 +33,20 @@ vi.mock('@/lib/api', () => ({
     createContentEntry: vi.fn(),
     updateContentEntry: vi.fn(),
     publishContentEntry: vi.fn(),
+    getEntryVersions: vi.fn(),
+    restoreEntryVersion: vi.fn(),
   },
   translationApi: {
     getLocales: vi.fn(),
     getContentTranslations: vi.fn(),
     createOrUpdateTranslation: vi.fn(),
   },
-  mediaApi: {},
+  mediaApi: {
+    getMedia: vi.fn(),
+  },
+  themeApi: {
+    getActiveTheme: vi.fn(),
+  },
 }));
 
 // Mock components
@@ -68,6 +77,15 @@ vi.mock('@/components/media-picker-modal', () => ({
     ) : null,
 }));
 
+const mockWorkflowPublish = vi.fn();
+vi.mock('@/components/content/entry-workflow-card', () => ({
+  EntryWorkflowCard: ({ onBeforePublish }: { onBeforePublish?: () => Promise<boolean> }) => (
+    <div data-testid="entry-workflow-card">
+      <button onClick={async () => mockWorkflowPublish(await onBeforePublish?.())}>Move to Published</button>
+    </div>
+  ),
+}));
+
 describe('ContentEntryEditorPage', () => {
   const mockContentTypes = [
     { id: '550e8400-e29b-41d4-a716-446655440001', name: 'Blog Post', slug: 'blog-post', schema: {}, organization_id: '550e8400-e29b-41d4-a716-446655440001', created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' },
@@ -121,6 +139,8 @@ describe('ContentEntryEditorPage', () => {
     vi.mocked(contentApi.getContentEntry).mockResolvedValue(mockEntry);
     vi.mocked(translationApi.getLocales).mockResolvedValue(mockLocales);
     vi.mocked(translationApi.getContentTranslations).mockResolvedValue([]);
+    vi.mocked(mediaApi.getMedia).mockResolvedValue({ items: [], total: 0, page: 1, page_size: 100, pages: 0 });
+    vi.mocked(themeApi.getActiveTheme).mockRejectedValue(new Error('No active theme'));
   });
 
   describe('Loading State', () => {
@@ -192,6 +212,16 @@ describe('ContentEntryEditorPage', () => {
         expect(screen.queryByRole('button', { name: /Publish/i })).not.toBeInTheDocument();
       });
     });
+
+    it('should not offer scheduling when the content type uses a review workflow', async () => {
+      vi.mocked(contentApi.getContentType).mockResolvedValue({ ...mockContentType, workflow: createDefaultWorkflow() });
+      render(<ContentEntryEditorPage />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('entry-workflow-card')).toBeInTheDocument();
+      });
+      expect(screen.queryByText('Schedule')).not.toBeInTheDocument();
+    });
   });
 
   describe('Create Mode', () => {
@@ -387,6 +417,53 @@ describe('ContentEntryEditorPage', () => {
         expect(inputs.length).toBeGreaterThan(0);
       });
     });
+
+    it('should show values inherited through the fallback chain until overridden', async () => {
+      const user = userEvent.setup();
+      const mexicanSpanish = { ...mockLocales[1], id: '550e8400-e29b-41d4-a716-446655440004', code: 'es-MX', name: 'Spanish (Mexico)' };
+      vi.mocked(translationApi.getLocales).mockResolvedValue([...mockLocales, mexicanSpanish]);
+      vi.mocked(translationApi.getContentTranslations).mockResolvedValue([
+        { id: 't1', content_entry_id: mockEntry.id, locale_id: mockLocales[1].id, translated_data: { title: 'Mi entrada' }, status: 'completed', is_manual: true, version: 1, created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' },
+        { id: 't2', content_entry_id: mockEntry.id, locale_id: mexicanSpanish.id, translated_data: { body: '<p>Contenido</p>' }, status: 'completed', is_manual: true, version: 1, created_at: '2025-01-01T00:00:00Z', updated_at: '2025-01-01T00:00:00Z' },
+      ]);
+      vi.mocked(contentApi.updateContentEntry).mockResolvedValue(mockEntry);
+      render(<ContentEntryEditorPage />);
+
+      await user.click(await screen.findByRole('tab', { name: /Spanish \(Mexico\)/ }));
+
+      expect(screen.getByText(/Fields left empty inherit from/)).toHaveTextContent('Spanish → English');
+      expect(screen.getByLabelText('Title')).toHaveValue('Mi entrada');
+      expect(screen.getByLabelText('Title')).toBeDisabled();
+      expect(screen.getByText('Inherited from Spanish')).toBeInTheDocument();
+      expect(screen.getByLabelText('Excerpt')).toHaveValue('A brief excerpt');
+      expect(screen.getByText('Inherited from English')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Override Excerpt' }));
+      expect(screen.getByLabelText('Excerpt')).toBeEnabled();
+      await user.clear(screen.getByLabelText('Excerpt'));
+      await user.type(screen.getByLabelText('Excerpt'), 'Un resumen');
+      expect(screen.getByRole('button', { name: 'Reset Excerpt to inherited' })).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /Save Draft/i }));
+
+      await waitFor(() => {
+        expect(translationApi.createOrUpdateTranslation).toHaveBeenCalledWith(
+          mockParams.id,
+          'es-MX',
+          { body: '<p>Contenido</p>', excerpt: 'Un resumen' },
+          // Only the edited field is marked translated against the current source
+          { fieldStatus: { excerpt: createFieldState('excerpt', mockEntry.content_data) } }
+        );
+      });
+      expect(translationApi.createOrUpdateTranslation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should link to the translation workspace', async () => {
+      render(<ContentEntryEditorPage />);
+
+      const link = await screen.findByRole('link', { name: /Translation Workspace/ });
+      expect(link).toHaveAttribute('href', `/dashboard/content/${mockParams.id}/translate`);
+    });
   });
 
   describe('Form Interactions', () => {
@@ -673,6 +750,29 @@ describe('ContentEntryEditorPage', () => {
       });
     });
 
+    it('should show the accessibility checklist before publishing', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.getContentEntry).mockResolvedValue({
+        ...mockEntry,
+        content_data: { ...mockEntry.content_data, body: '<h2>Intro</h2><img src="/uploads/chart.png">' },
+      });
+      vi.mocked(contentApi.publishContentEntry).mockResolvedValue({ ...mockEntry, status: 'published' });
+
+      render(<ContentEntryEditorPage />);
+
+      await user.click(await screen.findByRole('button', { name: /Publish/i }));
+
+      const dialog = await screen.findByRole('dialog', { name: 'Accessibility Checklist' });
+      expect(within(dialog).getByText('Body: image chart.png has no alt text')).toBeInTheDocument();
+      expect(contentApi.publishContentEntry).not.toHaveBeenCalled();
+
+      await user.click(within(dialog).getByRole('button', { name: 'Publish Anyway' }));
+
+      await waitFor(() => {
+        expect(contentApi.publishContentEntry).toHaveBeenCalledWith('550e8400-e29b-41d4-a716-446655440001');
+      });
+    });
+
     it('should handle publish error gracefully', async () => {
       const user = userEvent.setup();
       vi.mocked(contentApi.publishContentEntry).mockRejectedValue(
@@ -692,6 +792,187 @@ describe('ContentEntryEditorPage', () => {
         expect(toast.error).toHaveBeenCalledWith(expect.stringContaining('Failed to publish'));
       });
     });
+
+    it('should block publishing when fields are invalid', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.getContentEntry).mockResolvedValue({
+        ...mockEntry,
+        content_data: { ...mockEntry.content_data, title: '' },
+      });
+
+      render(<ContentEntryEditorPage />);
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /Publish/i })).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByRole('button', { name: /Publish/i }));
+
+      await waitFor(() => {
+        expect(toast.error).toHaveBeenCalledWith('Fix the highlighted fields before publishing');
+      });
+      expect(screen.getByText('Title is required')).toBeInTheDocument();
+      expect(contentApi.publishContentEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Review Workflow', () => {
+    const workflowType = { ...mockContentType, workflow: createDefaultWorkflow() };
+
+    it('should block the move into the publishing stage when fields are invalid', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.getContentType).mockResolvedValue(workflowType);
+      vi.mocked(contentApi.getContentEntry).mockResolvedValue({
+        ...mockEntry,
+        workflow_stage: 'approved',
+        content_data: { ...mockEntry.content_data, title: '' },
+      });
+
+      render(<ContentEntryEditorPage />);
+
+      await user.click(await screen.findByRole('button', { name: 'Move to Published' }));
+
+      await waitFor(() => {
+        expect(mockWorkflowPublish).toHaveBeenCalledWith(false);
+      });
+      expect(toast.error).toHaveBeenCalledWith('Fix the highlighted fields before publishing');
+      expect(screen.getByText('Title is required')).toBeInTheDocument();
+    });
+
+    it('should allow the move into the publishing stage when fields are valid', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.getContentType).mockResolvedValue(workflowType);
+
+      render(<ContentEntryEditorPage />);
+
+      await user.click(await screen.findByRole('button', { name: 'Move to Published' }));
+
+      await waitFor(() => {
+        expect(mockWorkflowPublish).toHaveBeenCalledWith(true);
+      });
+    });
+
+    it('should show the accessibility checklist before the move into the publishing stage', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.getContentType).mockResolvedValue(workflowType);
+      vi.mocked(contentApi.getContentEntry).mockResolvedValue({
+        ...mockEntry,
+        workflow_stage: 'approved',
+        content_data: { ...mockEntry.content_data, body: '<h2>Intro</h2><img src="/uploads/chart.png">' },
+      });
+
+      render(<ContentEntryEditorPage />);
+
+      await user.click(await screen.findByRole('button', { name: 'Move to Published' }));
+
+      let dialog = await screen.findByRole('dialog', { name: 'Accessibility Checklist' });
+      expect(within(dialog).getByText('Body: image chart.png has no alt text')).toBeInTheDocument();
+      await user.click(within(dialog).getByRole('button', { name: 'Keep Editing' }));
+      await waitFor(() => {
+        expect(mockWorkflowPublish).toHaveBeenLastCalledWith(false);
+      });
+
+      await user.click(screen.getByRole('button', { name: 'Move to Published' }));
+      dialog = await screen.findByRole('dialog', { name: 'Accessibility Checklist' });
+      await user.click(within(dialog).getByRole('button', { name: 'Publish Anyway' }));
+      await waitFor(() => {
+        expect(mockWorkflowPublish).toHaveBeenLastCalledWith(true);
+      });
+    });
+
+    it('should validate edits to a published entry before saving', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.getContentType).mockResolvedValue(workflowType);
+      vi.mocked(contentApi.getContentEntry).mockResolvedValue({
+        ...mockEntry,
+        status: 'published',
+        workflow_stage: 'published',
+        content_data: { ...mockEntry.content_data, title: '' },
+      });
+
+      render(<ContentEntryEditorPage />);
+
+      await user.click(await screen.findByRole('button', { name: /Save Draft/i }));
+
+      await waitFor(() => {
+        expect(toast.error).toHaveBeenCalledWith('Fix the highlighted fields before publishing');
+      });
+      expect(contentApi.updateContentEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Conditional Fields', () => {
+    it('should show fields when their rule matches and clear them on save while hidden', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.updateContentEntry).mockResolvedValue(mockEntry);
+      vi.mocked(contentApi.getContentType).mockResolvedValue({
+        ...mockContentType,
+        schema: {
+          on_sale: { type: 'boolean', label: 'On Sale' },
+          sale_price: {
+            type: 'number',
+            label: 'Sale Price',
+            clear_when_hidden: true,
+            visibility: {
+              action: 'show',
+              match: 'all',
+              conditions: [{ field: 'on_sale', operator: 'equals', value: 'true' }],
+            },
+          },
+        },
+      });
+      vi.mocked(contentApi.getContentEntry).mockResolvedValue({
+        ...mockEntry,
+        content_data: { on_sale: false, sale_price: 10 },
+        content_type: undefined,
+      });
+
+      render(<ContentEntryEditorPage />);
+
+      const onSale = await screen.findByLabelText('On Sale');
+      expect(screen.queryByLabelText('Sale Price')).not.toBeInTheDocument();
+
+      await user.click(onSale);
+      expect(screen.getByLabelText('Sale Price')).toBeInTheDocument();
+
+      await user.click(onSale);
+      await user.click(screen.getByRole('button', { name: /Save Draft/i }));
+
+      await waitFor(() => {
+        expect(contentApi.updateContentEntry).toHaveBeenCalledWith(
+          '550e8400-e29b-41d4-a716-446655440001',
+          expect.objectContaining({ content_data: { on_sale: false } })
+        );
+      });
+    });
+  });
+
+  describe('Field Validation', () => {
+    it('should show errors inline while typing', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.getContentType).mockResolvedValue({
+        ...mockContentType,
+        schema: {
+          title: { type: 'text', label: 'Title', validation: { minLength: 5, errorMessage: 'Too short' } },
+        },
+      });
+      vi.mocked(contentApi.getContentEntry).mockResolvedValue({
+        ...mockEntry,
+        content_data: {},
+        content_type: undefined,
+      });
+
+      render(<ContentEntryEditorPage />);
+
+      const titleInput = await screen.findByLabelText('Title');
+      expect(screen.queryByText('Too short')).not.toBeInTheDocument();
+
+      await user.type(titleInput, 'abc');
+      expect(screen.getByText('Too short')).toBeInTheDocument();
+
+      await user.type(titleInput, 'de');
+      expect(screen.queryByText('Too short')).not.toBeInTheDocument();
+    });
   });
 
   describe('Error Handling', () => {
@@ -745,4 +1026,45 @@ describe('ContentEntryEditorPage', () => {
       });
     });
   });
+
+  describe('Version History', () => {
+    it('should show history tab for existing entries', async () => {
+      render(<ContentEntryEditorPage />);
+
+      await waitFor(() => {
+        expect(screen.getByRole('tab', { name: /History/i })).toBeInTheDocument();
+      });
+    });
+
+    it('should not show history tab in create mode', () => {
+      mockParams.id = 'new';
+      render(<ContentEntryEditorPage />);
+
+      expect(screen.queryByRole('tab', { name: /History/i })).not.toBeInTheDocument();
+    });
+
+    it('should load versions when history tab is opened', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApi.getEntryVersions).mockResolvedValue([
+        {
+          id: 'v1',
+          content_entry_id: mockEntry.id,
+          version: 1,
+          status: 'draft',
+          data: { title: 'Older Title' },
+          author_name: 'Jane Editor',
+          created_at: '2025-01-01T00:00:00Z',
+        },
+      ]);
+
+      render(<ContentEntryEditorPage />);
+
+      await user.click(await screen.findByRole('tab', { name: /History/i }));
+
+      await waitFor(() => {
+        expect(contentApi.getEntryVersions).toHaveBeenCalledWith(mockEntry.id);
+        expect(screen.getByText('Jane Editor')).toBeInTheDocument();
+      });
+    });
+  });
 });
@@ -1,17 +1,25 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { toast } from 'sonner';
 import { contentApi, translationApi, mediaApi } from '@/lib/api';
 import { resolveMediaUrl } from '@/lib/api/client';
-import { ContentEntry, ContentType, Translation, Locale, Media } from '@/types';
+import {
+  ContentEntry,
+  ContentStatus,
+  ContentType,
+  ContentTypeField,
+  ContentBlockSchema,
+  Translation,
+  Locale,
+  Media,
+} from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -23,20 +31,40 @@ import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import RichTextEditor from '@/components/rich-text-editor';
 import MediaPickerModal from '@/components/media-picker-modal';
-import { MediaGalleryEditor } from '@/components/content/media-gallery-editor';
-import { Globe, Image as ImageIcon, X, Pencil, Eye, ExternalLink } from 'lucide-react';
+import { EntryVersionHistory } from '@/components/content/entry-version-history';
+import { EntryScheduleCard } from '@/components/content/entry-schedule-card';
+import { EntryWorkflowCard } from '@/components/content/entry-workflow-card';
+import { FieldInput } from '@/components/content/field-input';
+import { BlocksFieldEditor } from '@/components/content/blocks-field-editor';
+import { BlockPreview } from '@/components/content/block-preview';
+import { RichTextPreview } from '@/components/content/rich-text-preview';
+import { getBlocks } from '@/lib/blocks';
+import { ReferenceChips } from '@/components/content/reference-chips';
+import { ReferencedByCard } from '@/components/content/referenced-by-card';
+import { AccessibilityChecklist } from '@/components/content/accessibility-checklist';
+import { auditEntry } from '@/lib/accessibility';
+import { isWorkflowEnabled } from '@/lib/workflow';
+import { getValidationRules, isMimeTypeAllowed } from '@/lib/validation';
+import { clearHiddenFields, getFieldStates } from '@/lib/conditions';
+import { getFallbackChain, resolveField } from '@/lib/locale-fallback';
+import { createFieldState, getTranslationLocaleCode, isEmptyValue } from '@/lib/translation-status';
+import { useEntryValidation } from '@/hooks/use-entry-validation';
+import { useAccessibilityAudit } from '@/hooks/use-accessibility-audit';
+import { useI18n } from '@/contexts/i18n-context';
+import { Globe, X, Pencil, Eye, ExternalLink, History, Languages } from 'lucide-react';
 
 export default function ContentEntryEditorPage() {
   const params = useParams();
   const router = useRouter();
+  const { t } = useI18n();
   const id = typeof params?.id === 'string' ? params.id : null;
   const isNew = id === null || params?.id === 'new';
 
@@ -45,7 +73,7 @@ export default function ContentEntryEditorPage() {
   const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
   const [formData, setFormData] = useState<Record<string, any>>({});
   const [slug, setSlug] = useState('');
-  const [status, setStatus] = useState<'draft' | 'published' | 'archived'>('draft');
+  const [status, setStatus] = useState<ContentStatus>('draft');
   const [selectedTypeId, setSelectedTypeId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(!isNew);
   const [isSaving, setIsSaving] = useState(false);
@@ -53,7 +81,10 @@ export default function ContentEntryEditorPage() {
   
   // Translation state
   const [locales, setLocales] = useState<Locale[]>([]);
-  const [translations, setTranslations] = useState<Record<string, Record<string, any>>>({});
+  const [savedTranslations, setSavedTranslations] = useState<Translation[]>([]);
+  const [translationEdits, setTranslationEdits] = useState<Record<string, Record<string, any>>>({});
+  // `${localeCode}.${fieldKey}` of translated fields opened for editing while still empty
+  const [overriddenFields, setOverriddenFields] = useState<string[]>([]);
   const [selectedLocale, setSelectedLocale] = useState<string>('');
   const [activeTab, setActiveTab] = useState<string>('content');
   
@@ -64,6 +95,13 @@ export default function ContentEntryEditorPage() {
   // Preview dialog state
   const [showPreview, setShowPreview] = useState(false);
 
+  // Publishing action waiting for the accessibility checklist to be confirmed
+  const [accessibilityReview, setAccessibilityReview] = useState<'save' | 'publish' | 'confirm' | null>(null);
+  // Settles the workflow transition waiting on the checklist
+  const confirmReviewRef = useRef<((proceed: boolean) => void) | null>(null);
+
+  const hasWorkflow = isWorkflowEnabled(contentType?.workflow);
+
   useEffect(() => {
     loadContentTypes();
     loadLocales();
@@ -116,7 +154,7 @@ export default function ContentEntryEditorPage() {
       // Load translations
       await loadTranslations(id);
     } catch (err: any) {
-      setError('Failed to load content entry');
+      setError(t('editor.load_failed'));
       console.error(err);
     } finally {
       setIsLoading(false);
@@ -126,14 +164,7 @@ export default function ContentEntryEditorPage() {
   const loadTranslations = async (contentId: string) => {
     try {
       const data = await translationApi.getContentTranslations(contentId);
-      const translationsMap: Record<string, Record<string, any>> = {};
-      data.forEach((translation) => {
-        const locale = locales.find((l) => l.id === translation.locale_id);
-        if (locale) {
-          translationsMap[locale.code] = translation.translated_data;
-        }
-      });
-      setTranslations(translationsMap);
+      setSavedTranslations(data);
     } catch (err) {
       console.error('Failed to load translations:', err);
     }
@@ -164,10 +195,17 @@ export default function ContentEntryEditorPage() {
           type: field.type,
           label: field.label || field.name,
           required: field.required,
+          unique: field.unique,
           localized: field.localized,
           default: field.default,
           help_text: field.help_text,
           validation: field.validation,
+          multiple: field.multiple,
+          allowed_content_types: field.allowed_content_types,
+          blocks: field.blocks,
+          visibility: field.visibility,
+          required_when: field.required_when,
+          clear_when_hidden: field.clear_when_hidden,
         };
       });
       return schema;
@@ -188,12 +226,54 @@ export default function ContentEntryEditorPage() {
     }
   };
 
+  const schemaFields: ContentTypeField[] = Object.entries(getFieldsAsSchema(contentType)).map(
+    ([name, config]) => ({ ...config, name })
+  );
+  const fieldStates = getFieldStates(schemaFields, formData);
+  const validation = useEntryValidation({
+    fields: schemaFields,
+    data: formData,
+    contentTypeId: selectedTypeId,
+    entryId: isNew ? null : id,
+  });
+
+  const accessibility = useAccessibilityAudit();
+  const accessibilityIssues = auditEntry({
+    fields: schemaFields,
+    data: formData,
+    missingAltUrls: accessibility.missingAltUrls,
+    background: accessibility.theme?.colors.background,
+  });
+
   const handleFieldChange = (fieldKey: string, value: any) => {
     setFormData((prev) => ({ ...prev, [fieldKey]: value }));
+    validation.touch(fieldKey);
+  };
+
+  // Saved translations with unsaved edits applied, keyed by locale code
+  const translations: Record<string, Record<string, any>> = {};
+  savedTranslations.forEach((translation) => {
+    const code = getTranslationLocaleCode(translation, locales);
+    if (code) translations[code] = translation.translated_data;
+  });
+  Object.entries(translationEdits).forEach(([code, edits]) => {
+    translations[code] = { ...translations[code], ...edits };
+  });
+
+  const defaultLocaleCode = locales.find((l) => l.is_default)?.code ?? '';
+  const getLocaleName = (code: string) => locales.find((l) => l.code === code)?.name || t('editor.default_content');
+
+  // Value an empty translated field shows, from the next locale in its fallback chain
+  const getInheritedValue = (localeCode: string, fieldKey: string) => {
+    const chain = getFallbackChain(localeCode, locales).slice(1);
+    return resolveField(fieldKey, defaultLocaleCode ? chain : [...chain, ''], {
+      ...translations,
+      [defaultLocaleCode]: formData,
+    });
   };
 
   const handleTranslationChange = (localeCode: string, fieldKey: string, value: any) => {
-    setTranslations((prev) => ({
+    setTranslationEdits((prev) => ({
       ...prev,
       [localeCode]: {
         ...(prev[localeCode] || {}),
@@ -202,11 +282,29 @@ export default function ContentEntryEditorPage() {
     }));
   };
 
+  const handleOverride = (localeCode: string, fieldKey: string, value: unknown) => {
+    setOverriddenFields((prev) => [...prev, `${localeCode}.${fieldKey}`]);
+    handleTranslationChange(localeCode, fieldKey, value);
+  };
+
+  const handleResetToInherited = (localeCode: string, fieldKey: string) => {
+    setOverriddenFields((prev) => prev.filter((key) => key !== `${localeCode}.${fieldKey}`));
+    handleTranslationChange(localeCode, fieldKey, '');
+  };
+
   const handleMediaSelect = (media: Media) => {
     // Use primary url field, fallback to public_url or storage_path for backward compatibility
     const mediaUrl = media.url || media.public_url || media.storage_path;
     
     // Handle single media field
+    const fieldConfig = currentMediaField ? getFieldsAsSchema(contentType)[currentMediaField] : null;
+    const allowedMimeTypes = fieldConfig ? getValidationRules(fieldConfig).allowedMimeTypes : undefined;
+    if (!isMimeTypeAllowed(media.mime_type, allowedMimeTypes)) {
+      toast.error(
+        t('editor.media_not_allowed', { field: fieldConfig.label || currentMediaField, types: allowedMimeTypes?.join(', ') })
+      );
+      return;
+    }
     if (currentMediaField) {
       if (activeTab === 'content') {
         handleFieldChange(currentMediaField, mediaUrl);
@@ -234,24 +332,36 @@ export default function ContentEntryEditorPage() {
     }
   };
 
-  const handleSave = async () => {
+  const handleSave = async ({ skipAccessibility = false } = {}) => {
     if (!selectedTypeId) {
-      toast.error('Please select a content type');
+      toast.error(t('editor.select_type_required'));
       return;
     }
 
     if (!slug) {
-      toast.error('Please enter a slug');
+      toast.error(t('editor.slug_required'));
+      return;
+    }
+
+    if (status === 'published' && !(await validation.validateAll())) {
+      toast.error(t('editor.fix_fields'));
+      return;
+    }
+
+    const isPublishing = !hasWorkflow && status === 'published' && entry?.status !== 'published';
+    if (isPublishing && !skipAccessibility && accessibilityIssues.length > 0) {
+      setAccessibilityReview('save');
       return;
     }
 
     try {
       setIsSaving(true);
+      // Status is driven by stage transitions when a review workflow is enabled
       const payload = {
         content_type_id: selectedTypeId,
         slug,
-        status,
-        content_data: formData,
+        ...(hasWorkflow ? {} : { status }),
+        content_data: clearHiddenFields(schemaFields, formData),
       };
 
       let savedId = id;
@@ -263,12 +373,20 @@ export default function ContentEntryEditorPage() {
         await contentApi.updateContentEntry(id, payload);
       }
 
-      // Save translations
-      if (savedId && Object.keys(translations).length > 0) {
-        for (const [localeCode, translationData] of Object.entries(translations)) {
+      // Save edited translations, merged with what was already saved. Edited
+      // fields are marked translated against the source saved above.
+      if (savedId) {
+        for (const localeCode of Object.keys(translationEdits)) {
+          const translationData = translations[localeCode];
           if (Object.keys(translationData).length > 0) {
+            const fieldStatus = Object.fromEntries(
+              Object.keys(translationEdits[localeCode]).map((name) => [
+                name,
+                createFieldState(name, payload.content_data),
+              ])
+            );
             try {
-              await translationApi.createOrUpdateTranslation(savedId, localeCode, translationData);
+              await translationApi.createOrUpdateTranslation(savedId, localeCode, translationData, { fieldStatus });
             } catch (err) {
               console.error(`Failed to save translation for ${localeCode}:`, err);
             }
@@ -276,37 +394,100 @@ export default function ContentEntryEditorPage() {
         }
       }
 
-      toast.success('Content saved successfully');
+      toast.success(t('editor.saved'));
     } catch (err: any) {
-      toast.error('Failed to save: ' + (err.response?.data?.detail || err.message));
+      toast.error(t('editor.save_failed', { error: err.response?.data?.detail || err.message }));
     } finally {
       setIsSaving(false);
     }
   };
 
-  const handlePublish = async () => {
+  const handleVersionRestored = (restored: ContentEntry) => {
+    setEntry(restored);
+    setFormData(restored.data || restored.content_data || {});
+    setSlug(restored.slug);
+    setStatus(restored.status);
+    setActiveTab('content');
+  };
+
+  const handleScheduled = (updated: ContentEntry) => {
+    setEntry(updated);
+    setStatus(updated.status);
+  };
+
+  const handleTransitioned = handleScheduled;
+
+  // Moving into the final workflow stage or scheduling a publish goes through
+  // the same checks as the Publish button
+  const handleBeforePublish = async () => {
+    if (!(await validation.validateAll())) {
+      toast.error(t('editor.fix_fields'));
+      return false;
+    }
+    if (accessibilityIssues.length === 0) return true;
+    return new Promise<boolean>((resolve) => {
+      confirmReviewRef.current = resolve;
+      setAccessibilityReview('confirm');
+    });
+  };
+
+  const closeAccessibilityReview = (proceed: boolean) => {
+    const action = accessibilityReview;
+    setAccessibilityReview(null);
+    if (action === 'confirm') {
+      confirmReviewRef.current?.(proceed);
+      confirmReviewRef.current = null;
+    } else if (proceed && action === 'publish') {
+      handlePublish({ skipAccessibility: true });
+    } else if (proceed) {
+      handleSave({ skipAccessibility: true });
+    }
+  };
+
+  const handlePublish = async ({ skipAccessibility = false } = {}) => {
     if (!id) {
-      toast.error('Please save the content first');
+      toast.error(t('editor.save_first'));
+      return;
+    }
+
+    if (!(await validation.validateAll())) {
+      toast.error(t('editor.fix_fields'));
+      return;
+    }
+
+    if (!skipAccessibility && accessibilityIssues.length > 0) {
+      setAccessibilityReview('publish');
       return;
     }
 
     try {
       await contentApi.publishContentEntry(id);
       setStatus('published');
-      toast.success('Content published successfully');
+      toast.success(t('editor.published'));
     } catch (err: any) {
-      toast.error('Failed to publish: ' + (err.response?.data?.detail || err.message));
+      toast.error(t('editor.publish_failed', { error: err.response?.data?.detail || err.message }));
     }
   };
 
   const renderField = (fieldKey: string, fieldConfig: any, isTranslation = false, localeCode = '') => {
-    const value = isTranslation 
-      ? (translations[localeCode]?.[fieldKey] || '') 
-      : (formData[fieldKey] || '');
+    // Visibility rules are evaluated against the default content
+    if (fieldStates[fieldKey]?.visible === false) return null;
+
+    const inherited = isTranslation ? getInheritedValue(localeCode, fieldKey) : null;
+    const isInherited =
+      !!inherited &&
+      isEmptyValue(translations[localeCode]?.[fieldKey]) &&
+      !overriddenFields.includes(`${localeCode}.${fieldKey}`);
+    const value = isInherited
+      ? inherited.value
+      : isTranslation
+        ? (translations[localeCode]?.[fieldKey] || '')
+        : (formData[fieldKey] || '');
     const fieldType = fieldConfig.type || 'text';
     const label = fieldConfig.label || fieldKey;
-    const required = fieldConfig.required || false;
+    const required = fieldStates[fieldKey]?.required ?? (fieldConfig.required || false);
     const description = fieldConfig.description;
+    const fieldError = isTranslation ? null : validation.errors[fieldKey];
 
     const onChange = (newValue: any) => {
       if (isTranslation) {
@@ -318,129 +499,67 @@ export default function ContentEntryEditorPage() {
 
     return (
       <div key={`${localeCode}-${fieldKey}`} className="space-y-2">
-        <Label htmlFor={`${localeCode}-${fieldKey}`}>
-          {label}
-          {required && !isTranslation && <span className="text-destructive ml-1">*</span>}
-        </Label>
-        {description && <p className="text-xs text-muted-foreground">{description}</p>}
-        
-        {/* Rich Text Editor */}
-        {(fieldType === 'richtext' || fieldType === 'wysiwyg' || fieldType === 'html') ? (
-          <RichTextEditor
-            content={value}
-            onChange={onChange}
-            placeholder={`Enter ${label.toLowerCase()}...`}
-            onImageAdd={() => openMediaPicker(fieldKey)}
-          />
-        ) : /* Image/File Field with Media Picker */
-        (fieldType === 'image' || fieldType === 'file' || fieldType === 'media') ? (
-          <div className="space-y-2">
-            <div className="flex gap-2">
-              <Input
-                id={`${localeCode}-${fieldKey}`}
-                value={value}
-                onChange={(e) => onChange(e.target.value)}
-                placeholder="Image URL or path"
-              />
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor={`${localeCode}-${fieldKey}`}>
+            {label}
+            {required && !isTranslation && <span className="text-destructive ml-1">*</span>}
+          </Label>
+          {inherited &&
+            (isInherited ? (
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {t('editor.inherited_from', { locale: getLocaleName(inherited.locale) })}
+                </span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7"
+                  onClick={() => handleOverride(localeCode, fieldKey, inherited.value)}
+                  aria-label={t('editor.override_field', { field: label })}
+                >
+                  {t('editor.override')}
+                </Button>
+              </div>
+            ) : (
               <Button
                 type="button"
-                variant="outline"
+                variant="ghost"
                 size="sm"
-                onClick={() => openMediaPicker(fieldKey)}
+                className="h-7 text-muted-foreground"
+                onClick={() => handleResetToInherited(localeCode, fieldKey)}
+                aria-label={t('editor.reset_field', { field: label })}
               >
-                <ImageIcon className="h-4 w-4 mr-2" />
-                Browse
+                {t('editor.reset')}
               </Button>
-            </div>
-            {value && fieldType === 'image' && (
-              <img
-                src={resolveMediaUrl(value)}
-                alt={label}
-                className="max-w-xs rounded border"
-              />
-            )}
-          </div>
-        ) : /* Textarea */
-        fieldType === 'textarea' ? (
-          <Textarea
-            id={`${localeCode}-${fieldKey}`}
-            value={value}
-            onChange={(e) => onChange(e.target.value)}
-            rows={4}
-            required={required && !isTranslation}
-          />
-        ) : /* Number */
-        fieldType === 'number' ? (
-          <Input
-            id={`${localeCode}-${fieldKey}`}
-            type="number"
-            value={value}
-            onChange={(e) => onChange(e.target.value)}
-            required={required && !isTranslation}
-          />
-        ) : /* Email */
-        fieldType === 'email' ? (
-          <Input
-            id={`${localeCode}-${fieldKey}`}
-            type="email"
-            value={value}
-            onChange={(e) => onChange(e.target.value)}
-            required={required && !isTranslation}
-          />
-        ) : /* URL */
-        fieldType === 'url' ? (
-          <Input
-            id={`${localeCode}-${fieldKey}`}
-            type="url"
-            value={value}
-            onChange={(e) => onChange(e.target.value)}
-            required={required && !isTranslation}
-          />
-        ) : /* Select */
-        fieldType === 'select' && fieldConfig.options ? (
-          <Select value={value} onValueChange={onChange}>
-            <SelectTrigger>
-              <SelectValue placeholder={`Select ${label}`} />
-            </SelectTrigger>
-            <SelectContent>
-              {fieldConfig.options.map((option: any) => (
-                <SelectItem key={option.value || option} value={option.value || option}>
-                  {option.label || option}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        ) : /* Boolean */
-        fieldType === 'boolean' ? (
-          <div className="flex items-center space-x-2">
-            <input
-              type="checkbox"
+            ))}
+        </div>
+        {description && <p className="text-xs text-muted-foreground">{description}</p>}
+
+        <fieldset disabled={isInherited} className={isInherited ? 'pointer-events-none opacity-60' : undefined}>
+          {fieldType === 'components' ? (
+            <BlocksFieldEditor
               id={`${localeCode}-${fieldKey}`}
-              checked={!!value}
-              onChange={(e) => onChange(e.target.checked)}
-              className="h-4 w-4"
+              value={value}
+              onChange={onChange}
+              blocks={fieldConfig.blocks || []}
+              entryId={id}
             />
-            <Label htmlFor={`${localeCode}-${fieldKey}`} className="font-normal">
-              {label}
-            </Label>
-          </div>
-        ) : /* JSON/Array/Object - Media Gallery or general JSON */
-        (fieldType === 'json' || fieldType === 'array' || fieldType === 'object') ? (
-          <MediaGalleryEditor
-            value={value || []}
-            onChange={onChange}
-            label={label}
-          />
-        ) : /* Default Text Input */
-        (
-          <Input
-            id={`${localeCode}-${fieldKey}`}
-            type="text"
-            value={value}
-            onChange={(e) => onChange(e.target.value)}
-            required={required && !isTranslation}
-          />
-        )}
+          ) : (
+            <FieldInput
+              id={`${localeCode}-${fieldKey}`}
+              fieldType={fieldType}
+              fieldConfig={fieldConfig}
+              label={label}
+              value={value}
+              onChange={onChange}
+              required={required && !isTranslation}
+              onBrowseMedia={() => openMediaPicker(fieldKey)}
+              entryId={id}
+            />
+          )}
+        </fieldset>
+        {fieldError && <p className="text-xs text-destructive">{fieldError}</p>}
       </div>
     );
   };
@@ -448,7 +567,7 @@ export default function ContentEntryEditorPage() {
   if (isLoading) {
     return (
       <div className="flex h-full items-center justify-center">
-        <div className="text-lg">Loading...</div>
+        <div className="text-lg">{t('editor.loading')}</div>
       </div>
     );
   }
@@ -458,7 +577,7 @@ export default function ContentEntryEditorPage() {
       <div className="flex h-full flex-col items-center justify-center gap-4">
         <div className="text-destructive">{error}</div>
         <Button asChild>
-          <Link href="/dashboard/content">Back to Content</Link>
+          <Link href="/dashboard/content">{t('editor.back_to_content')}</Link>
         </Button>
       </div>
     );
@@ -470,34 +589,54 @@ export default function ContentEntryEditorPage() {
         <div>
           <div className="flex items-center gap-2 mb-2">
             <Button variant="ghost" size="sm" asChild>
-              <Link href="/dashboard/content">← Back</Link>
+              <Link href="/dashboard/content">← {t('editor.back')}</Link>
             </Button>
           </div>
           <h1 className="text-3xl font-bold tracking-tight">
-            {isNew ? 'Create Content' : 'Edit Content'}
+            {isNew ? t('editor.create_title') : t('editor.edit_title')}
           </h1>
           <p className="text-muted-foreground">
-            {contentType ? contentType.name : 'Select a content type'}
+            {contentType ? contentType.name : t('editor.select_type')}
           </p>
         </div>
         <div className="flex gap-2">
-          <Button variant="outline" onClick={handleSave} disabled={isSaving}>
-            {isSaving ? 'Saving...' : 'Save Draft'}
+          <Button variant="outline" onClick={() => handleSave()} disabled={isSaving}>
+            {isSaving ? t('editor.saving') : t('editor.save_draft')}
           </Button>
-          {!isNew && status !== 'published' && (
-            <Button onClick={handlePublish}>Publish</Button>
+          {!isNew && !hasWorkflow && status !== 'published' && (
+            <Button onClick={() => handlePublish()}>{t('editor.publish')}</Button>
           )}
         </div>
       </div>
 
+      {accessibilityReview && (
+        <Dialog open onOpenChange={(open) => !open && closeAccessibilityReview(false)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t('editor.a11y.title')}</DialogTitle>
+              <DialogDescription>
+                {t('editor.a11y.description', { count: accessibilityIssues.length })}
+              </DialogDescription>
+            </DialogHeader>
+            <AccessibilityChecklist issues={accessibilityIssues} />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => closeAccessibilityReview(false)}>
+                {t('editor.a11y.keep_editing')}
+              </Button>
+              <Button onClick={() => closeAccessibilityReview(true)}>{t('editor.a11y.publish_anyway')}</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
       <div className="grid gap-6 lg:grid-cols-3">
         <div className="lg:col-span-2 space-y-6">
           {/* Content Type Selection (for new entries) */}
           {isNew && (
             <Card>
               <CardHeader>
-                <CardTitle>Content Type</CardTitle>
-                <CardDescription>Select the type of content you want to create</CardDescription>
+                <CardTitle>{t('editor.type.title')}</CardTitle>
+                <CardDescription>{t('editor.type.description')}</CardDescription>
               </CardHeader>
               <CardContent>
                 <Select
@@ -505,7 +644,7 @@ export default function ContentEntryEditorPage() {
                   onValueChange={(val) => setSelectedTypeId(val)}
                 >
                   <SelectTrigger>
-                    <SelectValue placeholder="Select content type" />
+                    <SelectValue placeholder={t('editor.type.placeholder')} />
                   </SelectTrigger>
                   <SelectContent>
                     {contentTypes.map((type) => (
@@ -523,8 +662,8 @@ export default function ContentEntryEditorPage() {
           {contentType && (
             <Card>
               <CardHeader>
-                <CardTitle>Content</CardTitle>
-                <CardDescription>Fill in the content details and translations</CardDescription>
+                <CardTitle>{t('editor.content.title')}</CardTitle>
+                <CardDescription>{t('editor.content.description')}</CardDescription>
                 {/* Debug info - remove in production */}
                 {process.env.NODE_ENV === 'development' && (
                   <details className="mt-2 text-xs">
@@ -541,14 +680,14 @@ export default function ContentEntryEditorPage() {
                 {/* Show message if no fields */}
                 {Object.keys(getFieldsAsSchema(contentType)).length === 0 && (
                   <div className="text-center py-8 text-muted-foreground">
-                    <p>No fields defined for this content type.</p>
+                    <p>{t('editor.content.no_fields')}</p>
                     <p className="text-xs mt-2">Fields array: {JSON.stringify(contentType.fields?.slice(0, 2))}...</p>
                   </div>
                 )}
                 <Tabs value={activeTab} onValueChange={setActiveTab}>
                   <TabsList className="mb-4">
                     <TabsTrigger value="content">
-                      Default Content
+                      {t('editor.content.default_tab')}
                     </TabsTrigger>
                     {locales.filter(l => !l.is_default).map((locale) => (
                       <TabsTrigger 
@@ -560,6 +699,12 @@ export default function ContentEntryEditorPage() {
                         {locale.name}
                       </TabsTrigger>
                     ))}
+                    {!isNew && id && (
+                      <TabsTrigger value="history">
+                        <History className="h-3 w-3 mr-1" />
+                        {t('editor.content.history_tab')}
+                      </TabsTrigger>
+                    )}
                   </TabsList>
 
                   <TabsContent value="content" className="space-y-4">
@@ -572,8 +717,12 @@ export default function ContentEntryEditorPage() {
                     <TabsContent key={locale.code} value={locale.code} className="space-y-4">
                       <div className="mb-4 p-3 bg-muted rounded-lg">
                         <p className="text-sm text-muted-foreground">
-                          Translate content to <strong>{locale.name}</strong>. 
-                          Fields left empty will fall back to the default content.
+                          {t('editor.content.translate_hint', {
+                            locale: locale.name,
+                            fallback:
+                              getFallbackChain(locale.code, locales).slice(1).map(getLocaleName).join(' → ') ||
+                              t('editor.content.default_fallback'),
+                          })}
                         </p>
                       </div>
                       {Object.entries(getFieldsAsSchema(contentType)).map(([fieldKey, fieldConfig]: [string, any]) =>
@@ -581,6 +730,18 @@ export default function ContentEntryEditorPage() {
                       )}
                     </TabsContent>
                   ))}
+
+                  {!isNew && id && (
+                    <TabsContent value="history">
+                      <EntryVersionHistory
+                        entryId={id}
+                        fields={contentType.fields}
+                        currentData={formData}
+                        currentVersion={entry?.version}
+                        onRestored={handleVersionRestored}
+                      />
+                    </TabsContent>
+                  )}
                 </Tabs>
               </CardContent>
             </Card>
@@ -601,11 +762,11 @@ export default function ContentEntryEditorPage() {
         <div className="space-y-6">
           <Card>
             <CardHeader>
-              <CardTitle>Settings</CardTitle>
+              <CardTitle>{t('editor.settings.title')}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="slug">Slug</Label>
+                <Label htmlFor="slug">{t('editor.settings.slug')}</Label>
                 <div className="flex gap-2">
                   <Input
                     id="slug"
@@ -614,23 +775,29 @@ export default function ContentEntryEditorPage() {
                     placeholder="content-slug"
                   />
                   <Button variant="outline" size="sm" onClick={generateSlug}>
-                    Generate
+                    {t('editor.settings.generate')}
                   </Button>
                 </div>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="status">Status</Label>
-                <Select value={status} onValueChange={(val: any) => setStatus(val)}>
+                <Label htmlFor="status">{t('editor.settings.status')}</Label>
+                <Select value={status} onValueChange={(val: any) => setStatus(val)} disabled={hasWorkflow}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="draft">Draft</SelectItem>
-                    <SelectItem value="published">Published</SelectItem>
-                    <SelectItem value="archived">Archived</SelectItem>
+                    <SelectItem value="draft">{t('content.status.draft')}</SelectItem>
+                    <SelectItem value="scheduled" disabled>
+                      {t('content.status.scheduled')}
+                    </SelectItem>
+                    <SelectItem value="published">{t('content.status.published')}</SelectItem>
+                    <SelectItem value="archived">{t('content.status.archived')}</SelectItem>
                   </SelectContent>
                 </Select>
+                {hasWorkflow && (
+                  <p className="text-xs text-muted-foreground">{t('editor.settings.workflow_managed')}</p>
+                )}
               </div>
 
               {entry && (
@@ -638,16 +805,16 @@ export default function ContentEntryEditorPage() {
                   <div className="pt-4 border-t">
                     <div className="text-sm space-y-2">
                       <div>
-                        <span className="text-muted-foreground">Created:</span>{' '}
-                        {entry.created_at ? new Date(entry.created_at).toLocaleDateString() : 'N/A'}
+                        <span className="text-muted-foreground">{t('editor.settings.created')}</span>{' '}
+                        {entry.created_at ? new Date(entry.created_at).toLocaleDateString() : t('editor.not_available')}
                       </div>
                       <div>
-                        <span className="text-muted-foreground">Updated:</span>{' '}
-                        {entry.updated_at ? new Date(entry.updated_at).toLocaleDateString() : 'N/A'}
+                        <span className="text-muted-foreground">{t('editor.settings.updated')}</span>{' '}
+                        {entry.updated_at ? new Date(entry.updated_at).toLocaleDateString() : t('editor.not_available')}
                       </div>
                       {entry.published_at && (
                         <div>
-                          <span className="text-muted-foreground">Published:</span>{' '}
+                          <span className="text-muted-foreground">{t('editor.settings.published')}</span>{' '}
                           {new Date(entry.published_at).toLocaleDateString()}
                         </div>
                       )}
@@ -658,23 +825,51 @@ export default function ContentEntryEditorPage() {
             </CardContent>
           </Card>
 
+          {!isNew && entry && hasWorkflow && contentType?.workflow && (
+            <EntryWorkflowCard
+              entry={entry}
+              workflow={contentType.workflow}
+              onTransitioned={handleTransitioned}
+              onBeforePublish={handleBeforePublish}
+            />
+          )}
+
+          {contentType && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('editor.accessibility.title')}</CardTitle>
+                <CardDescription>{t('editor.accessibility.description')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AccessibilityChecklist issues={accessibilityIssues} loading={accessibility.loading} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Entries under review publish through their stages, never on a timer */}
+          {!isNew && entry && !hasWorkflow && (
+            <EntryScheduleCard entry={entry} onScheduled={handleScheduled} onBeforePublish={handleBeforePublish} />
+          )}
+
+          {!isNew && id && <ReferencedByCard entryId={id} />}
+
           {!isNew && (
             <Card>
               <CardHeader>
-                <CardTitle>Actions</CardTitle>
+                <CardTitle>{t('editor.actions.title')}</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
                 <Dialog open={showPreview} onOpenChange={setShowPreview}>
                   <DialogTrigger asChild>
                     <Button variant="outline" className="w-full">
                       <Eye className="mr-2 h-4 w-4" />
-                      Preview
+                      {t('editor.actions.preview')}
                     </Button>
                   </DialogTrigger>
                   <DialogContent className="w-[95vw] max-w-[95vw] md:w-[85vw] md:max-w-[85vw] lg:w-[75vw] lg:max-w-[75vw] xl:max-w-6xl h-[85vh] max-h-[85vh] overflow-hidden flex flex-col">
                     <DialogHeader>
                       <DialogTitle className="flex items-center justify-between">
-                        <span>Preview: {formData?.title || slug || 'Content'}</span>
+                        <span>{t('editor.preview.title', { title: formData?.title || slug || t('editor.preview.untitled') })}</span>
                         <div className="flex gap-2">
                           <Button 
                             variant="outline" 
@@ -685,7 +880,7 @@ export default function ContentEntryEditorPage() {
                             }}
                           >
                             <ExternalLink className="mr-2 h-4 w-4" />
-                            Edit
+                            {t('editor.preview.edit')}
                           </Button>
                         </div>
                       </DialogTitle>
@@ -695,32 +890,33 @@ export default function ContentEntryEditorPage() {
                       {/* Metadata Section */}
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-muted/50 rounded-lg">
                         <div>
-                          <p className="text-xs text-muted-foreground">Status</p>
+                          <p className="text-xs text-muted-foreground">{t('editor.settings.status')}</p>
                           <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
                             status === 'published' ? 'bg-green-100 text-green-800' :
                             status === 'draft' ? 'bg-yellow-100 text-yellow-800' :
+                            status === 'scheduled' ? 'bg-blue-100 text-blue-800' :
                             'bg-gray-100 text-gray-800'
                           }`}>
                             {status}
                           </span>
                         </div>
                         <div>
-                          <p className="text-xs text-muted-foreground">Slug</p>
+                          <p className="text-xs text-muted-foreground">{t('editor.settings.slug')}</p>
                           <p className="text-sm font-mono">{slug || '-'}</p>
                         </div>
                         <div>
-                          <p className="text-xs text-muted-foreground">Content Type</p>
+                          <p className="text-xs text-muted-foreground">{t('editor.type.title')}</p>
                           <p className="text-sm">{contentType?.name || '-'}</p>
                         </div>
                         <div>
-                          <p className="text-xs text-muted-foreground">Last Updated</p>
+                          <p className="text-xs text-muted-foreground">{t('editor.preview.last_updated')}</p>
                           <p className="text-sm">{entry?.updated_at ? new Date(entry.updated_at).toLocaleDateString() : '-'}</p>
                         </div>
                       </div>
                       
                       {/* Fields Preview */}
                       <div className="space-y-4">
-                        <h3 className="text-lg font-semibold border-b pb-2">Content Fields</h3>
+                        <h3 className="text-lg font-semibold border-b pb-2">{t('editor.preview.fields')}</h3>
                         {/* Debug section */}
                         <details className="text-xs bg-muted/50 p-2 rounded">
                           <summary className="cursor-pointer">Debug: Field Schema Info</summary>
@@ -755,17 +951,14 @@ export default function ContentEntryEditorPage() {
                                   </div>
                                   <div className="text-sm">
                                     {value === undefined || value === null ? (
-                                      <span className="text-muted-foreground italic">Not set</span>
+                                      <span className="text-muted-foreground italic">{t('editor.preview.not_set')}</span>
                                     ) : value === '' ? (
-                                      <span className="text-muted-foreground italic">Empty</span>
+                                      <span className="text-muted-foreground italic">{t('editor.preview.empty')}</span>
                                     ) : fieldDef.type === 'richtext' || fieldDef.type === 'wysiwyg' || fieldDef.type === 'html' ? (
-                                      <div 
-                                        className="prose prose-sm max-w-none"
-                                        dangerouslySetInnerHTML={{ __html: value }}
-                                      />
+                                      <RichTextPreview html={value} />
                                     ) : fieldDef.type === 'boolean' ? (
                                       <span className={value ? 'text-green-600' : 'text-red-600'}>
-                                        {value ? '✓ Yes' : '✗ No'}
+                                        {value ? `✓ ${t('editor.preview.yes')}` : `✗ ${t('editor.preview.no')}`}
                                       </span>
                                     ) : fieldDef.type === 'image' || fieldDef.type === 'file' || fieldDef.type === 'media' ? (
                                       <div>
@@ -777,6 +970,18 @@ export default function ContentEntryEditorPage() {
                                           </a>
                                         )}
                                       </div>
+                                    ) : fieldDef.type === 'reference' ? (
+                                      <ReferenceChips value={value} />
+                                    ) : fieldDef.type === 'components' ? (
+                                      <div className="space-y-4">
+                                        {getBlocks(value).map((block) => (
+                                          <BlockPreview
+                                            key={block.id}
+                                            block={block}
+                                            schema={fieldDef.blocks?.find((b: ContentBlockSchema) => b.key === block.block)}
+                                          />
+                                        ))}
+                                      </div>
                                     ) : typeof value === 'object' ? (
                                       <pre className="bg-muted p-2 rounded text-xs overflow-auto">
                                         {JSON.stringify(value, null, 2)}
@@ -790,15 +995,24 @@ export default function ContentEntryEditorPage() {
                             })}
                           </div>
                         ) : (
-                          <div className="text-muted-foreground">No fields defined</div>
+                          <div className="text-muted-foreground">{t('editor.preview.no_fields')}</div>
                         )}
                       </div>
                     </div>
                   </DialogContent>
                 </Dialog>
+
+                {locales.some((l) => !l.is_default) && (
+                  <Button variant="outline" className="w-full" asChild>
+                    <Link href={`/dashboard/content/${id}/translate`}>
+                      <Languages className="mr-2 h-4 w-4" />
+                      {t('editor.actions.translate')}
+                    </Link>
+                  </Button>
+                )}
                 
                 <Button variant="destructive" className="w-full">
-                  Delete
+                  {t('editor.actions.delete')}
                 </Button>
               </CardContent>
             </Card>
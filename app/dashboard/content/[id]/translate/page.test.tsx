@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import TranslationWorkspacePage from './page';
+import { contentApi, translationApi } from '@/lib/api';
+import { hashSourceValue } from '@/lib/translation-status';
+import { toast } from 'sonner';
+import type { ContentEntry, ContentType, GlossaryTerm, Locale, Translation, TranslationMemorySegment } from '@/types';
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+    warning: vi.fn(),
+  },
+}));
+
+vi.mock('next/navigation', () => ({
+  useParams: () => ({ id: 'entry-1' }),
+}));
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentEntry: vi.fn(),
+    getContentType: vi.fn(),
+  },
+  translationApi: {
+    getLocales: vi.fn(),
+    getContentTranslations: vi.fn(),
+    createOrUpdateTranslation: vi.fn(),
+    autoTranslate: vi.fn(),
+    getGlossary: vi.fn(),
+    getTranslationMemory: vi.fn(),
+    addTranslationMemory: vi.fn(),
+  },
+}));
+
+vi.mock('@/components/rich-text-editor', () => ({
+  default: ({ content, onChange }: { content: string; onChange: (value: string) => void }) => (
+    <textarea data-testid="rich-text-editor" value={content} onChange={(e) => onChange(e.target.value)} />
+  ),
+}));
+
+vi.mock('@/components/media-picker-modal', () => ({
+  default: () => null,
+}));
+
+describe('TranslationWorkspacePage', () => {
+  const contentType = {
+    id: 'type-1',
+    name: 'Article',
+    slug: 'article',
+    fields: [
+      { name: 'title', type: 'text', label: 'Title', localized: true },
+      { name: 'summary', type: 'textarea', label: 'Summary', localized: true },
+      { name: 'body', type: 'text', label: 'Body', localized: true },
+      { name: 'sku', type: 'text', label: 'SKU' },
+    ],
+  } as ContentType;
+
+  const entry: ContentEntry = {
+    id: 'entry-1',
+    content_type_id: 'type-1',
+    slug: 'launch',
+    status: 'draft',
+    data: { title: 'Launch day', summary: 'New summary', body: 'Body text', sku: 'A-1' },
+  };
+
+  const locales = [
+    { id: 'locale-en', code: 'en', name: 'English', is_default: true, is_enabled: true },
+    { id: 'locale-de', code: 'de', name: 'German', is_default: false, is_enabled: true },
+  ] as Locale[];
+
+  const german: Translation = {
+    id: 't1',
+    content_entry_id: 'entry-1',
+    locale_id: 'locale-de',
+    translated_data: { title: 'Starttag', summary: 'Alte Zusammenfassung' },
+    field_status: {
+      title: { source_hash: hashSourceValue('Launch day'), machine: true, reviewed: false },
+      summary: { source_hash: hashSourceValue('Old summary'), machine: false, reviewed: true },
+    },
+    status: 'completed',
+    is_manual: true,
+    version: 1,
+    created_at: '',
+    updated_at: '',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(contentApi.getContentEntry).mockResolvedValue(entry);
+    vi.mocked(contentApi.getContentType).mockResolvedValue(contentType);
+    vi.mocked(translationApi.getLocales).mockResolvedValue(locales);
+    vi.mocked(translationApi.getContentTranslations).mockResolvedValue([german]);
+    vi.mocked(translationApi.createOrUpdateTranslation).mockResolvedValue(german);
+    vi.mocked(translationApi.getGlossary).mockResolvedValue([]);
+    vi.mocked(translationApi.getTranslationMemory).mockResolvedValue([]);
+    vi.mocked(translationApi.addTranslationMemory).mockResolvedValue([]);
+  });
+
+  const row = (name: string) => document.getElementById(`translate-row-${name}`) as HTMLElement;
+
+  it('should show source and target side by side for localized fields only', async () => {
+    render(<TranslationWorkspacePage />);
+
+    expect(await screen.findByText('English → German')).toBeInTheDocument();
+    expect(within(row('title')).getByText('Launch day')).toBeInTheDocument();
+    expect(screen.getByLabelText('Title (de)')).toHaveValue('Starttag');
+    expect(screen.queryByText('SKU')).not.toBeInTheDocument();
+  });
+
+  it('should show the status of each field', async () => {
+    render(<TranslationWorkspacePage />);
+
+    await screen.findByText('English → German');
+    expect(within(row('title')).getByText('Machine translated')).toBeInTheDocument();
+    expect(within(row('summary')).getByText('Outdated')).toBeInTheDocument();
+    expect(within(row('body')).getByText('Missing')).toBeInTheDocument();
+    expect(screen.getByText('33% complete')).toBeInTheDocument();
+  });
+
+  it('should only list fields that need work when filtered', async () => {
+    const user = userEvent.setup();
+    const summary = { source_hash: hashSourceValue('New summary'), machine: false, reviewed: true };
+    vi.mocked(translationApi.getContentTranslations).mockResolvedValue([
+      { ...german, field_status: { ...german.field_status, summary } },
+    ]);
+    render(<TranslationWorkspacePage />);
+
+    await screen.findByText('English → German');
+    await user.click(screen.getByRole('button', { name: 'Needs Work' }));
+
+    expect(row('title')).toBeInTheDocument();
+    expect(row('body')).toBeInTheDocument();
+    expect(row('summary')).toBeNull();
+  });
+
+  it('should save edited and reviewed fields with their status', async () => {
+    const user = userEvent.setup();
+    render(<TranslationWorkspacePage />);
+
+    await screen.findByText('English → German');
+    await user.type(screen.getByLabelText('Body (de)'), 'Text');
+    await user.click(screen.getByRole('button', { name: 'Mark Title reviewed' }));
+
+    expect(within(row('title')).getByText('Reviewed')).toBeInTheDocument();
+    expect(within(row('body')).getByText('Translated')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /Save Translation/ }));
+
+    await waitFor(() => {
+      expect(translationApi.createOrUpdateTranslation).toHaveBeenCalledWith(
+        'entry-1',
+        'de',
+        { title: 'Starttag', summary: 'Alte Zusammenfassung', body: 'Text' },
+        {
+          fieldStatus: {
+            body: { source_hash: hashSourceValue('Body text'), machine: false, reviewed: false },
+            title: { source_hash: hashSourceValue('Launch day'), machine: false, reviewed: true },
+          },
+        }
+      );
+    });
+    expect(toast.success).toHaveBeenCalledWith('German translation saved');
+    const context = { source_locale: 'en', target_locale: 'de', content_id: 'entry-1' };
+    expect(translationApi.addTranslationMemory).toHaveBeenCalledWith([
+      { ...context, field: 'title', source: 'Launch day', target: 'Starttag' },
+      { ...context, field: 'body', source: 'Body text', target: 'Text' },
+    ]);
+  });
+
+  it('should offer translation memory matches for fields that need work', async () => {
+    const user = userEvent.setup();
+    const segment: TranslationMemorySegment = {
+      id: 'tm-1',
+      source_locale: 'en',
+      target_locale: 'de',
+      source: 'Body text',
+      target: 'Haupttext',
+      created_at: '',
+      updated_at: '',
+    };
+    vi.mocked(translationApi.getTranslationMemory).mockResolvedValue([segment]);
+    render(<TranslationWorkspacePage />);
+
+    await screen.findByText('English → German');
+    await user.click(await within(row('body')).findByRole('button', { name: 'Use 100% match for Body' }));
+
+    expect(translationApi.getTranslationMemory).toHaveBeenCalledWith({ source_locale: 'en', target_locale: 'de' });
+    expect(screen.getByLabelText('Body (de)')).toHaveValue('Haupttext');
+    expect(within(row('body')).queryByText('Translation memory')).not.toBeInTheDocument();
+  });
+
+  it('should apply the glossary to auto-translation and flag terms it breaks', async () => {
+    const user = userEvent.setup();
+    const term: GlossaryTerm = {
+      id: 'g1',
+      term: 'Launch',
+      do_not_translate: true,
+      translations: {},
+      case_sensitive: false,
+      created_at: '',
+      updated_at: '',
+    };
+    vi.mocked(translationApi.getGlossary).mockResolvedValue([term]);
+    vi.mocked(translationApi.getLocales).mockResolvedValue([locales[0], { ...locales[1], auto_translate: true }]);
+    vi.mocked(translationApi.autoTranslate).mockResolvedValue({
+      message: 'ok',
+      translations: [{ ...german, translated_data: { title: 'Launch-Tag' }, is_manual: false, field_status: {} }],
+    });
+    render(<TranslationWorkspacePage />);
+
+    await screen.findByText('English → German');
+    expect(await within(row('title')).findByText('Keep "Launch" untranslated')).toBeInTheDocument();
+    expect(within(row('title')).getByText('Glossary: Launch (keep as is)')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Auto-translate' }));
+
+    await waitFor(() => expect(toast.success).toHaveBeenCalledWith('German machine translation added'));
+    expect(translationApi.autoTranslate).toHaveBeenCalledWith('entry-1', ['de'], [{ source: 'Launch', target: 'Launch' }]);
+    expect(screen.getByLabelText('Title (de)')).toHaveValue('Launch-Tag');
+    expect(within(row('title')).queryByText('Keep "Launch" untranslated')).not.toBeInTheDocument();
+  });
+
+  it('should move between fields with Alt+Arrow keys', async () => {
+    const user = userEvent.setup();
+    render(<TranslationWorkspacePage />);
+
+    await screen.findByText('English → German');
+    await user.keyboard('{Alt>}{ArrowDown}{/Alt}');
+    expect(screen.getByLabelText('Title (de)')).toHaveFocus();
+
+    await user.keyboard('{Alt>}{ArrowDown}{/Alt}');
+    expect(screen.getByLabelText('Summary (de)')).toHaveFocus();
+
+    await user.keyboard('{Alt>}{ArrowUp}{/Alt}{Alt>}{ArrowUp}{/Alt}');
+    expect(screen.getByLabelText('Body (de)')).toHaveFocus();
+  });
+
+  it('should explain when the content type has no localized fields', async () => {
+    vi.mocked(contentApi.getContentType).mockResolvedValue({ ...contentType, fields: [{ name: 'sku', type: 'text' }] });
+    render(<TranslationWorkspacePage />);
+
+    expect(await screen.findByText(/has no localized fields/)).toBeInTheDocument();
+  });
+});
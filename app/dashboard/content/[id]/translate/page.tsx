@@ -0,0 +1,546 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { contentApi, translationApi } from '@/lib/api';
+import {
+  ContentEntry,
+  ContentType,
+  ContentTypeField,
+  GlossaryTerm,
+  Locale,
+  Media,
+  Translation,
+  TranslationFieldState,
+  TranslationMemorySegment,
+} from '@/types';
+import {
+  TRANSLATION_STATUSES,
+  TranslationFieldStatus,
+  countStatuses,
+  createFieldState,
+  getCompletion,
+  getFieldStatus,
+  getLocalizedFields,
+  getTranslationLocaleCode,
+} from '@/lib/translation-status';
+import { findMemoryMatches, getApprovedSegments, toPlainText } from '@/lib/translation-memory';
+import { checkGlossary, findGlossaryTerms, getMachineGlossary, getTermTarget } from '@/lib/translation-glossary';
+import { getValidationRules, isMimeTypeAllowed } from '@/lib/validation';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { useI18n } from '@/contexts/i18n-context';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import MediaPickerModal from '@/components/media-picker-modal';
+import { FieldInput } from '@/components/content/field-input';
+import { BlocksFieldEditor } from '@/components/content/blocks-field-editor';
+import { TranslationStatusBadge } from '@/components/content/translation-status-badge';
+import { RichTextPreview } from '@/components/content/rich-text-preview';
+import { AlertTriangle, ArrowLeft, Check, Languages, Save } from 'lucide-react';
+
+const RICH_TEXT_TYPES = ['richtext', 'wysiwyg', 'html'];
+
+// Statuses that still need a translator's attention
+const NEEDS_WORK: TranslationFieldStatus[] = ['missing', 'outdated', 'machine'];
+
+interface LocaleEdits {
+  data: Record<string, unknown>;
+  fieldStatus: Record<string, TranslationFieldState>;
+}
+
+export default function TranslationWorkspacePage() {
+  const params = useParams();
+  const id = typeof params?.id === 'string' ? params.id : '';
+  const { t } = useI18n();
+
+  const [entry, setEntry] = useState<ContentEntry | null>(null);
+  const [contentType, setContentType] = useState<ContentType | null>(null);
+  const [locales, setLocales] = useState<Locale[]>([]);
+  const [translations, setTranslations] = useState<Translation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const [targetCode, setTargetCode] = useState('');
+  // Unsaved changes per target locale code
+  const [edits, setEdits] = useState<Record<string, LocaleEdits>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [needsWorkOnly, setNeedsWorkOnly] = useState(false);
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [mediaField, setMediaField] = useState<string | null>(null);
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>([]);
+  const [memory, setMemory] = useState<TranslationMemorySegment[]>([]);
+  const [isAutoTranslating, setIsAutoTranslating] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+    Promise.all([
+      contentApi.getContentEntry(id),
+      translationApi.getLocales(),
+      translationApi.getContentTranslations(id),
+    ])
+      .then(async ([entryData, localeData, translationData]) => {
+        const type = entryData.content_type?.fields
+          ? entryData.content_type
+          : await contentApi.getContentType(entryData.content_type_id);
+        if (cancelled) return;
+        setEntry(entryData);
+        setContentType(type);
+        setLocales(localeData);
+        setTranslations(translationData);
+        setTargetCode(localeData.find((locale) => !locale.is_default)?.code || '');
+      })
+      .catch((err) => {
+        console.error('Failed to load translation workspace:', err);
+        if (!cancelled) setLoadFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // The glossary and memory only help; the workspace works without them
+  useEffect(() => {
+    let cancelled = false;
+    translationApi
+      .getGlossary()
+      .then((data) => {
+        if (!cancelled) setGlossary(data);
+      })
+      .catch((err) => console.error('Failed to load glossary:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const sourceLocale = locales.find((locale) => locale.is_default);
+  const sourceCode = sourceLocale?.code;
+
+  useEffect(() => {
+    if (!sourceCode || !targetCode) return;
+    let cancelled = false;
+    translationApi
+      .getTranslationMemory({ source_locale: sourceCode, target_locale: targetCode })
+      .then((data) => {
+        if (!cancelled) setMemory(data);
+      })
+      .catch((err) => console.error('Failed to load translation memory:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceCode, targetCode]);
+
+  const targetLocales = locales.filter((locale) => !locale.is_default);
+  const targetLocale = targetLocales.find((locale) => locale.code === targetCode);
+  const source: Record<string, unknown> = entry?.data || entry?.content_data || {};
+  const fields = getLocalizedFields(contentType?.fields || []);
+
+  const saved = translations.find((tr) => getTranslationLocaleCode(tr, locales) === targetCode);
+  const pending = edits[targetCode];
+  const current = {
+    translated_data: { ...saved?.translated_data, ...pending?.data },
+    field_status: { ...saved?.field_status, ...pending?.fieldStatus },
+    is_manual: saved?.is_manual ?? true,
+  };
+  const isDirty = !!pending && Object.keys(pending.fieldStatus).length > 0;
+
+  const statuses = Object.fromEntries(
+    fields.map((field) => [field.name, getFieldStatus(field.name, source, current)])
+  ) as Record<string, TranslationFieldStatus>;
+  const counts = countStatuses(Object.values(statuses));
+  const visibleFields = needsWorkOnly
+    ? fields.filter((field) => NEEDS_WORK.includes(statuses[field.name]))
+    : fields;
+
+  const updateField = (name: string, value: unknown, state: TranslationFieldState) => {
+    setEdits((prev) => ({
+      ...prev,
+      [targetCode]: {
+        data: value === undefined ? prev[targetCode]?.data || {} : { ...prev[targetCode]?.data, [name]: value },
+        fieldStatus: { ...prev[targetCode]?.fieldStatus, [name]: state },
+      },
+    }));
+  };
+
+  const handleChange = (name: string, value: unknown) => {
+    updateField(name, value, createFieldState(name, source));
+  };
+
+  const handleMarkReviewed = (name: string) => {
+    updateField(name, undefined, createFieldState(name, source, { reviewed: true }));
+  };
+
+  const handleMediaSelect = (media: Media) => {
+    const field = fields.find((f) => f.name === mediaField);
+    const allowedMimeTypes = field ? getValidationRules(field).allowedMimeTypes : undefined;
+    if (field && !isMimeTypeAllowed(media.mime_type, allowedMimeTypes)) {
+      toast.error(
+        t('translate.media_not_allowed', { field: field.label || field.name, types: allowedMimeTypes?.join(', ') })
+      );
+      return;
+    }
+    if (mediaField) handleChange(mediaField, media.url || media.public_url || media.storage_path);
+    setMediaField(null);
+  };
+
+  const handleSave = async () => {
+    if (!pending || !isDirty || isSaving) return;
+    setIsSaving(true);
+    try {
+      const result = await translationApi.createOrUpdateTranslation(
+        id,
+        targetCode,
+        current.translated_data,
+        { fieldStatus: pending.fieldStatus }
+      );
+      setTranslations((prev) => [
+        ...prev.filter((tr) => getTranslationLocaleCode(tr, locales) !== targetCode),
+        { ...result, locale: result.locale || targetLocale },
+      ]);
+      setEdits((prev) => Object.fromEntries(Object.entries(prev).filter(([code]) => code !== targetCode)));
+      toast.success(t('translate.saved', { locale: targetLocale?.name || targetCode }));
+      rememberSegments(current.translated_data, pending.fieldStatus);
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(t('translate.save_failed', { error: error.response?.data?.detail || error.message }));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const rememberSegments = (data: Record<string, unknown>, fieldStatus: Record<string, TranslationFieldState>) => {
+    if (!sourceCode) return;
+    const segments = getApprovedSegments(fields, source, data, fieldStatus, {
+      source_locale: sourceCode,
+      target_locale: targetCode,
+      content_id: id,
+    });
+    if (segments.length === 0) return;
+    translationApi
+      .addTranslationMemory(segments)
+      .then((added) =>
+        setMemory((prev) => [...prev.filter((segment) => !added.some((a) => a.id === segment.id)), ...added])
+      )
+      .catch((err) => console.error('Failed to update translation memory:', err));
+  };
+
+  // Glossary rules the translation of a field breaks
+  const getGlossaryIssues = (name: string, translated: Record<string, unknown>) => {
+    const sourceText = source[name];
+    const targetText = translated[name];
+    if (typeof sourceText !== 'string' || typeof targetText !== 'string' || !targetText) return [];
+    return checkGlossary(sourceText, targetText, glossary, targetCode);
+  };
+
+  const handleAutoTranslate = async () => {
+    if (!targetLocale || isDirty || isAutoTranslating) return;
+    setIsAutoTranslating(true);
+    try {
+      const result = await translationApi.autoTranslate(id, [targetCode], getMachineGlossary(glossary, targetCode));
+      const translated =
+        result.translations.find((tr) => getTranslationLocaleCode(tr, locales) === targetCode) || result.translations[0];
+      if (!translated) {
+        toast.error(result.message || t('translate.nothing_translated'));
+        return;
+      }
+      setTranslations((prev) => [
+        ...prev.filter((tr) => getTranslationLocaleCode(tr, locales) !== targetCode),
+        { ...translated, locale: translated.locale || targetLocale },
+      ]);
+      const flagged = fields.filter((field) => getGlossaryIssues(field.name, translated.translated_data).length > 0);
+      if (flagged.length > 0) {
+        toast.warning(t('translate.glossary_flagged', { count: flagged.length }));
+      } else {
+        toast.success(t('translate.machine_added', { locale: targetLocale.name }));
+      }
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(t('translate.auto_translate_failed', { error: error.response?.data?.detail || error.message }));
+    } finally {
+      setIsAutoTranslating(false);
+    }
+  };
+
+  const focusField = (step: number) => {
+    if (visibleFields.length === 0) return;
+    const index = visibleFields.findIndex((field) => field.name === activeField);
+    const next = visibleFields[index === -1 ? 0 : (index + step + visibleFields.length) % visibleFields.length];
+    const row = document.getElementById(`translate-row-${next.name}`);
+    const input = row?.querySelector<HTMLElement>('input, textarea, [contenteditable="true"]');
+    (input || row)?.focus();
+    setActiveField(next.name);
+  };
+
+  useKeyboardShortcuts([
+    { key: 'ArrowDown', altKey: true, action: () => focusField(1), description: t('translate.shortcut.next') },
+    { key: 'ArrowUp', altKey: true, action: () => focusField(-1), description: t('translate.shortcut.previous') },
+    { key: 's', ctrlKey: true, action: () => handleSave(), description: t('translate.shortcut.save') },
+  ]);
+
+  const renderSource = (field: ContentTypeField) => {
+    const value = source[field.name];
+    if (value === undefined || value === null || value === '') {
+      return <p className="text-sm text-muted-foreground italic">{t('translate.empty')}</p>;
+    }
+    if (RICH_TEXT_TYPES.includes(field.type) && typeof value === 'string') {
+      return <RichTextPreview html={value} />;
+    }
+    if (typeof value === 'string') {
+      return <p className="text-sm whitespace-pre-wrap break-words">{value}</p>;
+    }
+    return <pre className="text-xs font-mono whitespace-pre-wrap break-words">{JSON.stringify(value, null, 2)}</pre>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <div className="text-lg">{t('translate.loading')}</div>
+      </div>
+    );
+  }
+
+  if (loadFailed || !entry) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-4">
+        <div className="text-destructive">{loadFailed ? t('translate.load_failed') : t('translate.not_found')}</div>
+        <Button asChild>
+          <Link href="/dashboard/content">{t('translate.back_to_content')}</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const title = String(source.title || source.name || entry.slug);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href={`/dashboard/content/${id}`} aria-label={t('translate.back_to_entry')}>
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">{t('translate.title', { title })}</h1>
+            <p className="text-muted-foreground">
+              {contentType?.name} • {t('translate.shortcuts_hint')}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {targetLocales.length > 0 && (
+            <Select value={targetCode} onValueChange={setTargetCode}>
+              <SelectTrigger className="w-48" aria-label={t('translate.target_locale')}>
+                <SelectValue placeholder={t('translate.target_locale')} />
+              </SelectTrigger>
+              <SelectContent>
+                {targetLocales.map((locale) => (
+                  <SelectItem key={locale.code} value={locale.code}>
+                    {locale.name}
+                    {edits[locale.code] ? ' •' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {targetLocale?.auto_translate && (
+            <Button
+              variant="outline"
+              onClick={handleAutoTranslate}
+              disabled={isDirty || isAutoTranslating}
+              title={isDirty ? t('translate.save_first') : undefined}
+            >
+              <Languages className="mr-2 h-4 w-4" />
+              {isAutoTranslating ? t('translate.auto_translating') : t('translate.auto_translate')}
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+            <Save className="mr-2 h-4 w-4" />
+            {isSaving ? t('translate.saving') : t('translate.save')}
+          </Button>
+        </div>
+      </div>
+
+      {targetLocales.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {t('translate.no_locales')}{' '}
+            <Link href="/dashboard/organization?tab=translations" className="underline">
+              {t('translate.manage_locales')}
+            </Link>
+          </CardContent>
+        </Card>
+      ) : fields.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {t('translate.no_fields', { type: contentType?.name || t('translate.this_type') })}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>
+                {sourceLocale?.name || t('translate.default_locale')} → {targetLocale?.name}
+              </CardTitle>
+              <CardDescription>{t('translate.complete', { percent: getCompletion(counts) })}</CardDescription>
+              <div className="flex flex-wrap gap-1">
+                {TRANSLATION_STATUSES.filter((status) => counts[status] > 0).map((status) => (
+                  <TranslationStatusBadge key={status} status={status} count={counts[status]} />
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                variant={needsWorkOnly ? 'outline' : 'secondary'}
+                size="sm"
+                onClick={() => setNeedsWorkOnly(false)}
+              >
+                {t('translate.all_fields')}
+              </Button>
+              <Button
+                variant={needsWorkOnly ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setNeedsWorkOnly(true)}
+              >
+                {t('translate.needs_work')}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {visibleFields.length === 0 && (
+              <p className="text-center py-8 text-sm text-muted-foreground">{t('translate.all_done')}</p>
+            )}
+            {visibleFields.map((field) => {
+              const label = field.label || field.name;
+              const status = statuses[field.name];
+              const inputId = `${targetCode}-${field.name}`;
+              const sourceText = typeof source[field.name] === 'string' ? (source[field.name] as string) : '';
+              const terms = sourceText ? findGlossaryTerms(sourceText, glossary) : [];
+              const glossaryIssues = getGlossaryIssues(field.name, current.translated_data);
+              const matches =
+                sourceText && NEEDS_WORK.includes(status)
+                  ? findMemoryMatches(sourceText, memory).filter(
+                      (match) => match.segment.target !== current.translated_data[field.name]
+                    )
+                  : [];
+              return (
+                <div
+                  key={field.name}
+                  id={`translate-row-${field.name}`}
+                  tabIndex={-1}
+                  onFocusCapture={() => setActiveField(field.name)}
+                  className={`grid gap-4 rounded-lg border p-4 md:grid-cols-2 ${
+                    activeField === field.name ? 'ring-2 ring-primary/40' : ''
+                  }`}
+                >
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">{label}</p>
+                    <div className="rounded-md bg-muted/50 p-3">{renderSource(field)}</div>
+                    {terms.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('translate.glossary')}{' '}
+                        {terms
+                          .map((term) => {
+                            const target = getTermTarget(term, targetCode);
+                            if (term.do_not_translate) return t('translate.keep_term', { term: term.term });
+                            return target ? `${term.term} → ${target}` : term.term;
+                          })
+                          .join(' · ')}
+                      </p>
+                    )}
+                    {matches.length > 0 && (
+                      <div className="space-y-1" aria-label={t('translate.memory_for', { field: label })}>
+                        <p className="text-xs font-medium text-muted-foreground">{t('translate.memory')}</p>
+                        {matches.map((match) => (
+                          <div
+                            key={match.segment.id}
+                            className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm"
+                          >
+                            <div className="min-w-0 space-y-1">
+                              <span className="text-xs text-muted-foreground">{t('translate.match', { score: match.score })}</span>
+                              <p className="break-words">{toPlainText(match.segment.target)}</p>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleChange(field.name, match.segment.target)}
+                              aria-label={t('translate.use_match', { score: match.score, field: label })}
+                            >
+                              {t('translate.use')}
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Label htmlFor={inputId}>
+                        {label} ({targetLocale?.code})
+                      </Label>
+                      <div className="flex items-center gap-2">
+                        <TranslationStatusBadge status={status} />
+                        {status !== 'missing' && status !== 'reviewed' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleMarkReviewed(field.name)}
+                            aria-label={t('translate.mark_field_reviewed', { field: label })}
+                          >
+                            <Check className="mr-1 h-3 w-3" />
+                            {t('translate.mark_reviewed')}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {field.type === 'components' ? (
+                      <BlocksFieldEditor
+                        id={inputId}
+                        value={current.translated_data[field.name] || []}
+                        onChange={(value) => handleChange(field.name, value)}
+                        blocks={field.blocks || []}
+                        entryId={id}
+                      />
+                    ) : (
+                      <FieldInput
+                        id={inputId}
+                        fieldType={field.type}
+                        fieldConfig={field}
+                        label={label}
+                        value={current.translated_data[field.name] || ''}
+                        onChange={(value) => handleChange(field.name, value)}
+                        onBrowseMedia={() => setMediaField(field.name)}
+                        entryId={id}
+                      />
+                    )}
+                    {glossaryIssues.length > 0 && (
+                      <ul className="space-y-1 text-xs text-amber-700">
+                        {glossaryIssues.map((issue) => (
+                          <li key={issue} className="flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3 shrink-0" />
+                            {issue}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <MediaPickerModal open={!!mediaField} onClose={() => setMediaField(null)} onSelect={handleMediaSelect} />
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ContentImportPage from './page';
+import { contentApi } from '@/lib/api';
+import { getImportKey, loadImportProgress, saveImportProgress } from '@/lib/entry-import';
+import { ContentEntry } from '@/types';
+
+vi.mock('next/link', () => ({
+  default: ({ children, href }: { children: React.ReactNode; href: string }) => <a href={href}>{children}</a>,
+}));
+
+vi.mock('next/navigation', () => ({
+  useSearchParams: () => ({
+    get: (key: string) => (key === 'content_type_id' ? 'type-1' : null),
+  }),
+}));
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentTypes: vi.fn(),
+    getContentEntries: vi.fn(),
+    createContentEntry: vi.fn(),
+  },
+}));
+
+const CSV = 'Title,Price,Status\n"Hat, Red",12,published\nScarf,free,\nGloves,4,draft\n';
+
+const uploadCsv = async (user: ReturnType<typeof userEvent.setup>, text = CSV) => {
+  const file = new File([text], 'products.csv', { type: 'text/csv' });
+  await user.upload(screen.getByLabelText('CSV file'), file);
+};
+
+describe('ContentImportPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(contentApi.getContentTypes).mockResolvedValue([
+      {
+        id: 'type-1',
+        name: 'Product',
+        api_id: 'product',
+        fields: [
+          { name: 'title', type: 'text', label: 'Title', required: true },
+          { name: 'price', type: 'number', label: 'Price' },
+        ],
+        organization_id: 'org-1',
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+      },
+    ]);
+    vi.mocked(contentApi.getContentEntries).mockResolvedValue({ items: [], total: 0, pages: 1 });
+    vi.mocked(contentApi.createContentEntry).mockResolvedValue({} as ContentEntry);
+  });
+
+  it('should map columns and preview per-row errors', async () => {
+    const user = userEvent.setup();
+    render(<ContentImportPage />);
+    await waitFor(() => expect(contentApi.getContentTypes).toHaveBeenCalled());
+
+    await uploadCsv(user);
+
+    expect(await screen.findByText('Column Mapping')).toBeInTheDocument();
+    expect(screen.getByLabelText('Field for Title')).toHaveTextContent('Title (text)');
+    expect(screen.getByLabelText('Field for Status')).toHaveTextContent('Status');
+    expect(screen.getAllByTestId('import-row')).toHaveLength(3);
+    expect(screen.getByText('hat-red')).toBeInTheDocument();
+    expect(screen.getByText('Price: "free" is not a number')).toBeInTheDocument();
+    expect(screen.getByText(/2 ready, 1 with errors/)).toBeInTheDocument();
+  });
+
+  it('should create valid rows and skip rows with errors', async () => {
+    const user = userEvent.setup();
+    render(<ContentImportPage />);
+    await waitFor(() => expect(contentApi.getContentTypes).toHaveBeenCalled());
+
+    await uploadCsv(user);
+    await user.click(await screen.findByRole('button', { name: 'Import 2 Entries' }));
+
+    expect(await screen.findByText('Import complete')).toBeInTheDocument();
+    expect(contentApi.createContentEntry).toHaveBeenCalledTimes(2);
+    expect(contentApi.createContentEntry).toHaveBeenCalledWith({
+      content_type_id: 'type-1',
+      slug: 'hat-red',
+      status: 'published',
+      data: { title: 'Hat, Red', price: 12 },
+    });
+    expect(loadImportProgress(getImportKey('type-1', 'products.csv', CSV))).toEqual([]);
+  });
+
+  it('should resume an interrupted import with the remaining rows', async () => {
+    saveImportProgress(getImportKey('type-1', 'products.csv', CSV), [0]);
+    const user = userEvent.setup();
+    render(<ContentImportPage />);
+    await waitFor(() => expect(contentApi.getContentTypes).toHaveBeenCalled());
+
+    await uploadCsv(user);
+
+    expect(await screen.findByText(/1 row of this file was imported earlier/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Resume Import' }));
+
+    await waitFor(() => expect(contentApi.createContentEntry).toHaveBeenCalledTimes(1));
+    expect(contentApi.createContentEntry).toHaveBeenCalledWith(expect.objectContaining({ slug: 'gloves' }));
+  });
+
+  it('should keep failed rows for a retry', async () => {
+    vi.mocked(contentApi.createContentEntry)
+      .mockResolvedValueOnce({} as ContentEntry)
+      .mockRejectedValueOnce(new Error('Server error'));
+    const user = userEvent.setup();
+    render(<ContentImportPage />);
+    await waitFor(() => expect(contentApi.getContentTypes).toHaveBeenCalled());
+
+    await uploadCsv(user);
+    await user.click(await screen.findByRole('button', { name: 'Import 2 Entries' }));
+
+    expect(await screen.findByText(/Row 3 \(gloves\): Server error/)).toBeInTheDocument();
+    expect(loadImportProgress(getImportKey('type-1', 'products.csv', CSV))).toEqual([0]);
+    expect(screen.getByRole('button', { name: 'Import 1 Entry' })).toBeInTheDocument();
+  });
+});
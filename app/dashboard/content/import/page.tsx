@@ -0,0 +1,513 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
+import { contentApi } from '@/lib/api';
+import { fetchAllPages } from '@/lib/pagination';
+import { formatDelimitedRow, ParsedTable, parseTable } from '@/lib/csv';
+import {
+  autoMapColumns,
+  buildImportRows,
+  clearImportProgress,
+  ColumnMapping,
+  getImportKey,
+  loadImportProgress,
+  saveImportProgress,
+  SLUG_TARGET,
+  STATUS_TARGET,
+} from '@/lib/entry-import';
+import { isWorkflowEnabled } from '@/lib/workflow';
+import { ContentEntry, ContentType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Upload, FileText, AlertCircle, CheckCircle2, Download, Pause, Play } from 'lucide-react';
+
+const CHUNK_SIZE = 10;
+const PREVIEW_LIMIT = 100;
+const IGNORE_COLUMN = '__ignore__';
+
+type Phase = 'idle' | 'running' | 'paused' | 'done';
+
+interface ImportFailure {
+  index: number;
+  slug: string;
+  error: string;
+}
+
+function loadExistingEntries(contentTypeId: string): Promise<ContentEntry[]> {
+  return fetchAllPages((page, per_page) =>
+    contentApi.getContentEntries({ content_type_id: contentTypeId, page, per_page })
+  );
+}
+
+export default function ContentImportPage() {
+  const searchParams = useSearchParams();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const pauseRef = useRef(false);
+
+  const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
+  const [contentTypeId, setContentTypeId] = useState(searchParams?.get('content_type_id') || '');
+  const [existing, setExisting] = useState<ContentEntry[]>([]);
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [table, setTable] = useState<ParsedTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [imported, setImported] = useState<number[]>([]);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+  const [error, setError] = useState('');
+
+  const contentType = contentTypes.find((type) => type.id === contentTypeId);
+  const fields = useMemo(() => contentType?.fields || [], [contentType]);
+  const requiresReview = isWorkflowEnabled(contentType?.workflow);
+  const importKey = file && contentTypeId ? getImportKey(contentTypeId, file.name, file.text) : null;
+
+  const rows = useMemo(
+    () =>
+      table
+        ? buildImportRows(
+            table,
+            mapping,
+            fields,
+            existing.map((entry) => ({ slug: entry.slug, data: entry.data || entry.content_data || {} })),
+            { requiresReview }
+          )
+        : [],
+    [table, mapping, fields, existing, requiresReview]
+  );
+  // Rows imported by an earlier run now clash with their own entries, so they are left out
+  const invalidCount = rows.filter(
+    (row) => Object.keys(row.errors).length > 0 && !imported.includes(row.index)
+  ).length;
+  const pendingRows = rows.filter((row) => Object.keys(row.errors).length === 0 && !imported.includes(row.index));
+
+  useEffect(() => {
+    contentApi
+      .getContentTypes()
+      .then((data) => setContentTypes(Array.isArray(data) ? data : []))
+      .catch((err) => {
+        console.error('Failed to load content types:', err);
+        setError('Failed to load content types');
+      });
+  }, []);
+
+  // Existing entries let the preview flag duplicate slugs and unique values
+  useEffect(() => {
+    if (!contentTypeId) return;
+    let cancelled = false;
+    loadExistingEntries(contentTypeId)
+      .then((entries) => !cancelled && setExisting(entries))
+      .catch((err) => {
+        // The API rejects duplicates as well, so the preview can go ahead without them
+        console.error('Failed to load existing entries:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [contentTypeId]);
+
+  // Start from a fresh mapping whenever the file or the target type changes
+  const prepare = (nextTable: ParsedTable | null, typeId: string, nextFile: { name: string; text: string } | null) => {
+    const type = contentTypes.find((t) => t.id === typeId);
+    setMapping(nextTable ? autoMapColumns(nextTable.headers, type?.fields || []) : {});
+    setImported(nextFile && typeId ? loadImportProgress(getImportKey(typeId, nextFile.name, nextFile.text)) : []);
+    setFailures([]);
+    setPhase('idle');
+  };
+
+  const handleTypeChange = (typeId: string) => {
+    setContentTypeId(typeId);
+    setExisting([]);
+    prepare(table, typeId, file);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setError('');
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      const parsed = parseTable(text);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setError('The file must have a header row and at least one data row');
+        return;
+      }
+      const nextFile = { name: selected.name, text };
+      setFile(nextFile);
+      setTable(parsed);
+      prepare(parsed, contentTypeId, nextFile);
+    };
+    reader.onerror = () => setError('Failed to read file');
+    reader.readAsText(selected);
+  };
+
+  const handleMappingChange = (header: string, target: string) => {
+    setMapping((prev) => ({ ...prev, [header]: target === IGNORE_COLUMN ? null : target }));
+  };
+
+  const handleStartOver = () => {
+    if (importKey) clearImportProgress(importKey);
+    setImported([]);
+    setFailures([]);
+    setPhase('idle');
+  };
+
+  const runImport = async () => {
+    if (!contentTypeId || !importKey || pendingRows.length === 0) return;
+    pauseRef.current = false;
+    setPhase('running');
+    setFailures([]);
+    setProgress({ done: 0, total: pendingRows.length });
+
+    const completed = [...imported];
+    const failed: ImportFailure[] = [];
+    for (let i = 0; i < pendingRows.length; i += CHUNK_SIZE) {
+      if (pauseRef.current) {
+        setFailures(failed);
+        setPhase('paused');
+        return;
+      }
+      await Promise.all(
+        pendingRows.slice(i, i + CHUNK_SIZE).map(async (row) => {
+          try {
+            await contentApi.createContentEntry({
+              content_type_id: contentTypeId,
+              slug: row.slug,
+              status: row.status,
+              data: row.data,
+            });
+            completed.push(row.index);
+          } catch (err) {
+            const error = err as Error & { response?: { data?: { detail?: string } } };
+            failed.push({ index: row.index, slug: row.slug, error: error.response?.data?.detail || error.message });
+          }
+        })
+      );
+      // Saved after every chunk so an interrupted import can pick up where it stopped
+      saveImportProgress(importKey, completed);
+      setImported([...completed]);
+      setProgress({ done: Math.min(i + CHUNK_SIZE, pendingRows.length), total: pendingRows.length });
+    }
+
+    const created = completed.length - imported.length;
+    if (failed.length === 0) {
+      clearImportProgress(importKey);
+      toast.success(`Imported ${created} ${created === 1 ? 'entry' : 'entries'}`);
+    } else {
+      toast.error(`${failed.length} ${failed.length === 1 ? 'row' : 'rows'} could not be imported`);
+    }
+    setFailures(failed);
+    setPhase('done');
+  };
+
+  const handleDownloadTemplate = () => {
+    const csv = formatDelimitedRow(['slug', 'status', ...fields.map((field) => field.name)]) + '\n';
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${contentType?.api_id || 'content'}-import-template.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  const resumed = phase === 'idle' && imported.length > 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link href="/dashboard/content">
+          <Button variant="ghost" size="icon" aria-label="Back to content">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Import Entries</h1>
+          <p className="text-muted-foreground">
+            Create content entries from a CSV or TSV file
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Content Type</CardTitle>
+            <CardDescription>Entries are created for this content type</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Content type</Label>
+              <Select value={contentTypeId} onValueChange={handleTypeChange} disabled={phase === 'running'}>
+                <SelectTrigger aria-label="Content type">
+                  <SelectValue placeholder="Select a content type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {contentTypes.map((type) => (
+                    <SelectItem key={type.id} value={type.id}>
+                      {type.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={handleDownloadTemplate} disabled={!contentType}>
+              <Download className="h-4 w-4 mr-2" />
+              Download Template
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              Upload File
+            </CardTitle>
+            <CardDescription>
+              The first row must contain column names
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt"
+              className="hidden"
+              onChange={handleFileUpload}
+              aria-label="CSV file"
+            />
+            <div
+              className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:border-primary transition-colors"
+              onClick={() => phase !== 'running' && fileInputRef.current?.click()}
+            >
+              <FileText className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              <p className="font-medium">{file ? file.name : 'Click to upload CSV or TSV'}</p>
+              {table && (
+                <p className="text-sm text-muted-foreground">
+                  {table.rows.length} rows, {table.headers.length} columns
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {table && contentType && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Column Mapping</CardTitle>
+            <CardDescription>
+              Columns are matched to fields by name. Lists for fields with several values are separated by commas.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Sample</TableHead>
+                  <TableHead>Field</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {table.headers.map((header, column) => (
+                  <TableRow key={header}>
+                    <TableCell className="font-medium">{header}</TableCell>
+                    <TableCell className="text-muted-foreground max-w-xs truncate">{table.rows[0]?.[column]}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping[header] || IGNORE_COLUMN}
+                        onValueChange={(target) => handleMappingChange(header, target)}
+                        disabled={phase === 'running'}
+                      >
+                        <SelectTrigger className="h-8 w-56" aria-label={`Field for ${header}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE_COLUMN}>Do not import</SelectItem>
+                          <SelectItem value={SLUG_TARGET}>Slug</SelectItem>
+                          <SelectItem value={STATUS_TARGET}>Status</SelectItem>
+                          {fields.map((field) => (
+                            <SelectItem key={field.name} value={field.name}>
+                              {field.label || field.name} ({field.type})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {table && contentType && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Preview</CardTitle>
+                <CardDescription>
+                  {pendingRows.length} ready, {invalidCount} with errors
+                  {imported.length > 0 && `, ${imported.length} already imported`}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                {phase === 'running' ? (
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      pauseRef.current = true;
+                    }}
+                  >
+                    <Pause className="h-4 w-4 mr-2" />
+                    Pause
+                  </Button>
+                ) : (
+                  <Button onClick={runImport} disabled={pendingRows.length === 0}>
+                    <Play className="h-4 w-4 mr-2" />
+                    {phase === 'paused' || resumed ? 'Resume Import' : `Import ${pendingRows.length} ${pendingRows.length === 1 ? 'Entry' : 'Entries'}`}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {resumed && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="flex items-center justify-between gap-4">
+                  <span>
+                    {imported.length} {imported.length === 1 ? 'row' : 'rows'} of this file{' '}
+                    {imported.length === 1 ? 'was' : 'were'} imported earlier. Only the remaining rows will be imported.
+                  </span>
+                  <Button variant="outline" size="sm" onClick={handleStartOver}>
+                    Start Over
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {(phase === 'running' || phase === 'paused') && (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  {phase === 'paused' ? 'Paused after' : 'Importing…'} {progress.done} of {progress.total}
+                </p>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${percent}%` }}
+                    role="progressbar"
+                    aria-valuenow={percent}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                  />
+                </div>
+              </div>
+            )}
+
+            {phase === 'done' && failures.length === 0 && (
+              <Alert className="border-green-500 bg-green-50">
+                <AlertDescription className="text-green-700 flex items-center gap-2">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Import complete
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {failures.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {failures.length} {failures.length === 1 ? 'row' : 'rows'} failed. Run the import again to retry them.
+                  <ul className="mt-2 list-disc list-inside text-sm">
+                    {failures.map((failure) => (
+                      <li key={failure.index}>
+                        Row {failure.index + 1} ({failure.slug}): {failure.error}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead>Slug</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.slice(0, PREVIEW_LIMIT).map((row) => {
+                  const messages = Object.values(row.errors);
+                  return (
+                    <TableRow key={row.index} data-testid="import-row">
+                      <TableCell>{row.index + 1}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.slug}</TableCell>
+                      <TableCell>{row.status}</TableCell>
+                      <TableCell>
+                        {imported.includes(row.index) ? (
+                          <Badge variant="secondary">Imported</Badge>
+                        ) : messages.length > 0 ? (
+                          <ul className="text-sm text-destructive">
+                            {messages.map((message) => (
+                              <li key={message}>{message}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <Badge variant="outline">Ready</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {rows.length > PREVIEW_LIMIT && (
+              <p className="text-sm text-muted-foreground">
+                Showing the first {PREVIEW_LIMIT} of {rows.length} rows
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import ContentPage from './page';
 import * as contentApiModule from '@/lib/api/content';
 import * as searchApiModule from '@/lib/api/search';
 import { usePreferences } from '@/contexts/preferences-context';
+import { ContentEntry, ContentType, PaginatedResponse } from '@/types';
 
 // Mock Next.js modules
 vi.mock('next/link', () => ({
@@ -15,9 +17,11 @@ vi.mock('next/link', () => ({
 const mockRouterPush = vi.fn();
 const mockRouterReplace = vi.fn();
 
+let mockSearchParams = new URLSearchParams();
+
 vi.mock('next/navigation', () => ({
   useSearchParams: () => ({
-    get: vi.fn((key: string) => null),
+    get: vi.fn((key: string) => mockSearchParams.get(key)),
   }),
   useRouter: () => ({
     push: mockRouterPush,
@@ -31,11 +35,22 @@ vi.mock('next/navigation', () => ({
 
 // Mock contexts
 vi.mock('@/contexts/preferences-context');
+vi.mock('@/contexts/auth-context', () => ({
+  useAuth: () => ({ user: { id: 'user-1' } }),
+}));
 
 // Mock API modules
 vi.mock('@/lib/api/content');
 vi.mock('@/lib/api/search');
 
+vi.mock('@/hooks/use-accessibility-audit', () => ({
+  useAccessibilityAudit: () => ({ missingAlt: [], missingAltUrls: new Set(), theme: null, loading: false }),
+}));
+
+vi.mock('@/hooks/use-org-timezone', () => ({
+  useOrgTimezone: () => ({ timezone: 'America/New_York', isLoading: false }),
+}));
+
 describe('ContentPage', () => {
   const mockContentTypes = [
     { id: '1', name: 'Blog Post', slug: 'blog-post' },
@@ -101,6 +116,7 @@ describe('ContentPage', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockSearchParams = new URLSearchParams();
 
     // Setup preferences mock
     vi.mocked(usePreferences).mockReturnValue({
@@ -110,6 +126,7 @@ describe('ContentPage', () => {
         primaryColor: '#8b4513',
         compactView: false,
         showDescriptions: true,
+        uiLanguage: 'en',
       },
       generatedTheme: null,
       updatePreference: vi.fn(),
@@ -122,6 +139,7 @@ describe('ContentPage', () => {
     vi.mocked(contentApiModule.contentApi.getContentTypes).mockResolvedValue(mockContentTypes as any);
     vi.mocked(contentApiModule.contentApi.getContentEntries).mockResolvedValue(mockContentEntries as any);
     vi.mocked(searchApiModule.searchApi.search).mockResolvedValue(mockSearchResults as any);
+    vi.mocked(contentApiModule.contentApi.getSavedViews).mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -393,7 +411,7 @@ describe('ContentPage', () => {
         ...mockContentEntries,
         total: 50,
         pages: 3,
-      } as any);
+      } as unknown as PaginatedResponse<ContentEntry>);
 
       render(<ContentPage />);
 
@@ -410,7 +428,7 @@ describe('ContentPage', () => {
         ...mockContentEntries,
         total: 50,
         pages: 3,
-      } as any);
+      } as unknown as PaginatedResponse<ContentEntry>);
 
       render(<ContentPage />);
 
@@ -625,5 +643,187 @@ describe('ContentPage', () => {
         expect(archivedBadge).toBeInTheDocument();
       });
     });
+
+    it('should render scheduled status with its publish time in the org timezone', async () => {
+      vi.mocked(contentApiModule.contentApi.getContentEntries).mockResolvedValue({
+        items: [{
+          id: '1',
+          content_type_id: '1',
+          slug: 'spring-launch',
+          status: 'scheduled',
+          publish_at: '2025-03-15T04:00:00Z',
+          content_data: { title: 'Spring Launch' },
+          content_type: { name: 'Product' },
+          version: 1,
+          author_id: '1',
+          created_at: '2025-01-01T00:00:00Z',
+          updated_at: '2025-01-01T00:00:00Z',
+        }],
+        total: 1,
+        page: 1,
+        page_size: 20,
+        pages: 1,
+      } as any);
+
+      render(<ContentPage />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Scheduled')).toBeInTheDocument();
+      });
+      expect(screen.getByText(/Publishes .*12:00/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Calendar View', () => {
+    it('should switch to the publishing calendar', async () => {
+      vi.mocked(contentApiModule.contentApi.getScheduledEntries).mockResolvedValue([]);
+      render(<ContentPage />);
+
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: /calendar/i })).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('button', { name: /calendar/i }));
+
+      expect(screen.getByText('Publishing Calendar')).toBeInTheDocument();
+      await waitFor(() => {
+        expect(contentApiModule.contentApi.getScheduledEntries).toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('Bulk Selection', () => {
+    it('should show batch actions for selected entries', async () => {
+      render(<ContentPage />);
+
+      await waitFor(() => {
+        expect(screen.getByText('My First Post')).toBeInTheDocument();
+      });
+      expect(screen.queryByRole('toolbar', { name: 'Batch actions' })).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Select My First Post' }));
+
+      expect(screen.getByRole('toolbar', { name: 'Batch actions' })).toBeInTheDocument();
+      expect(screen.getByText('1 selected')).toBeInTheDocument();
+    });
+
+    it('should publish every selected entry and report the result', async () => {
+      vi.mocked(contentApiModule.contentApi.getContentType).mockResolvedValue(mockContentTypes[0] as ContentType);
+      vi.mocked(contentApiModule.contentApi.publishContentEntry).mockResolvedValue({} as ContentEntry);
+      render(<ContentPage />);
+
+      await waitFor(() => {
+        expect(screen.getByText('My First Post')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Select all on this page' }));
+      expect(screen.getByText('2 selected')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Publish' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Published 2 entries')).toBeInTheDocument();
+      });
+      expect(contentApiModule.contentApi.publishContentEntry).toHaveBeenCalledWith('1');
+      expect(contentApiModule.contentApi.publishContentEntry).toHaveBeenCalledWith('2');
+      expect(screen.getByRole('button', { name: 'Undo' })).toBeInTheDocument();
+    });
+
+    it('should show the accessibility checklist before publishing entries with issues', async () => {
+      const user = userEvent.setup();
+      vi.mocked(contentApiModule.contentApi.getContentTypes).mockResolvedValue([
+        { ...mockContentTypes[0], fields: [{ name: 'body', type: 'richtext', label: 'Body' }] },
+        mockContentTypes[1],
+      ] as ContentType[]);
+      vi.mocked(contentApiModule.contentApi.getContentEntries).mockResolvedValue({
+        ...mockContentEntries,
+        items: [
+          { ...mockContentEntries.items[0], content_data: { title: 'My First Post', body: '<img src="/uploads/chart.png">' } },
+          mockContentEntries.items[1],
+        ],
+      } as unknown as PaginatedResponse<ContentEntry>);
+      vi.mocked(contentApiModule.contentApi.getContentType).mockResolvedValue(mockContentTypes[0] as ContentType);
+      vi.mocked(contentApiModule.contentApi.publishContentEntry).mockResolvedValue({} as ContentEntry);
+      render(<ContentPage />);
+
+      await waitFor(() => {
+        expect(screen.getByText('My First Post')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Select all on this page' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Publish' }));
+
+      const dialog = await screen.findByRole('dialog', { name: 'Accessibility Checklist' });
+      expect(within(dialog).getByText('Body: image chart.png has no alt text')).toBeInTheDocument();
+      expect(contentApiModule.contentApi.publishContentEntry).not.toHaveBeenCalled();
+
+      await user.click(within(dialog).getByRole('button', { name: 'Publish Anyway' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Published 2 entries')).toBeInTheDocument();
+      });
+    });
+
+    it('should offer to select every entry matching the filters', async () => {
+      vi.mocked(contentApiModule.contentApi.getContentEntries).mockResolvedValue({
+        ...mockContentEntries,
+        total: 45,
+        pages: 3,
+      } as unknown as PaginatedResponse<ContentEntry>);
+      render(<ContentPage />);
+
+      await waitFor(() => {
+        expect(screen.getByText('My First Post')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('checkbox', { name: 'Select all on this page' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Select all 45 matching entries' }));
+
+      expect(screen.getByText('45 selected')).toBeInTheDocument();
+      expect(screen.getByText(/All 45 entries matching the filters are selected/)).toBeInTheDocument();
+    });
+  });
+
+  describe('Views', () => {
+    it('should load the listing encoded in the URL', async () => {
+      const filters = JSON.stringify([{ field: 'price', op: 'between', value: '10', to: '' }]);
+      mockSearchParams = new URLSearchParams({
+        content_type_id: '2',
+        filters,
+        sort: 'data.price',
+        order: 'desc',
+        view: 'table',
+      });
+      render(<ContentPage />);
+
+      await waitFor(() => {
+        expect(contentApiModule.contentApi.getContentEntries).toHaveBeenCalledWith({
+          page: 1,
+          page_size: 20,
+          content_type_id: '2',
+          filters,
+          sort: 'data.price',
+          order: 'desc',
+        });
+      });
+      expect(await screen.findByTestId('content-table')).toBeInTheDocument();
+    });
+
+    it('should write sort changes to the URL', async () => {
+      mockSearchParams = new URLSearchParams({ view: 'table' });
+      render(<ContentPage />);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('content-table')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Updated' }));
+
+      expect(mockRouterReplace).toHaveBeenCalledWith('/dashboard/content?sort=updated_at&order=asc&view=table', {
+        scroll: false,
+      });
+      await waitFor(() => {
+        expect(contentApiModule.contentApi.getContentEntries).toHaveBeenCalledWith({
+          page: 1,
+          page_size: 20,
+          sort: 'updated_at',
+          order: 'asc',
+        });
+      });
+    });
   });
 });
@@ -4,10 +4,12 @@ import { useEffect, useState, useCallback, useMemo } from 'react';
 import Link from 'next/link';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { contentApi } from '@/lib/api';
-import { ContentEntry, ContentType, PaginatedResponse } from '@/types';
+import { fetchAllPages } from '@/lib/pagination';
+import { ContentEntry, ContentStatus, ContentType, PaginatedResponse, SavedContentView } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { SearchInput } from '@/components/ui/search-input';
 import {
@@ -27,19 +29,74 @@ import {
 } from '@/components/ui/dialog';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { ContentViewDialog, ContentEditDialog } from '@/components/content';
+import {
+  ContentViewDialog,
+  ContentEditDialog,
+  PublishingCalendar,
+  BundleImportWizard,
+  TranslationExportDialog,
+  TranslationImportWizard,
+  BatchActionBar,
+  BatchProgressPanel,
+  ContentFilterBuilder,
+  ContentTable,
+  SavedViewsMenu,
+} from '@/components/content';
+import { useBundleExport } from '@/hooks/use-bundle-export';
+import { useBatchActions, BatchActionOptions } from '@/hooks/use-batch-actions';
+import { BatchAction } from '@/lib/batch-actions';
+import { A11yIssue, auditEntry } from '@/lib/accessibility';
+import { isWorkflowEnabled } from '@/lib/workflow';
+import { useAccessibilityAudit } from '@/hooks/use-accessibility-audit';
+import {
+  ContentLayout,
+  ContentView,
+  getDefaultColumns,
+  getFilterableFields,
+  parseView,
+  serializeView,
+  toEntryQuery,
+} from '@/lib/content-views';
 import { useSearch } from '@/hooks/use-search';
 import { usePreferences } from '@/contexts/preferences-context';
-import { Plus, MoreVertical, Eye, Edit, Trash2, AlertCircle, FileText } from 'lucide-react';
+import { useI18n } from '@/contexts/i18n-context';
+import { useOrgTimezone } from '@/hooks/use-org-timezone';
+import { formatInTimezone } from '@/lib/timezone';
+import {
+  Plus,
+  MoreVertical,
+  Eye,
+  Edit,
+  Trash2,
+  AlertCircle,
+  FileText,
+  CalendarDays,
+  List,
+  Clock,
+  Download,
+  Upload,
+  Languages,
+  Table2,
+  Columns3,
+} from 'lucide-react';
+
+// Helper function to get entry title for display
+const getEntryTitle = (entry: ContentEntry): string => {
+  return entry.data?.title || entry.data?.site_name || entry.data?.name || 
+         entry.data?.template_key || entry.content_data?.title || entry.slug || 'Untitled';
+};
 
 export default function ContentPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const { preferences } = usePreferences();
+  const { t } = useI18n();
+  const { timezone } = useOrgTimezone();
   const [content, setContent] = useState<PaginatedResponse<ContentEntry> | null>(null);
   const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -51,11 +108,31 @@ export default function ContentPage() {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [entryToDelete, setEntryToDelete] = useState<{ id: string; title: string } | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [translationExportOpen, setTranslationExportOpen] = useState(false);
+  const [translationImportOpen, setTranslationImportOpen] = useState(false);
+  const { exportBundle, isExporting } = useBundleExport();
   
-  // Filters
-  const [selectedType, setSelectedType] = useState<string>(searchParams?.get('content_type_id') || 'all');
-  const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  // Filters, sort, columns and layout - mirrored in the URL so a listing can be linked
+  const [view, setView] = useState<ContentView>(() => (searchParams ? parseView(searchParams) : { filters: [] }));
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const selectedType = view.content_type_id || 'all';
+  const selectedStatus = view.status || 'all';
+  const viewMode: ContentLayout = view.layout || 'list';
+
+  // Bulk selection - entries are kept by id so the selection survives paging.
+  // allMatching selects every entry matching the filters, not just loaded ones.
+  const [selection, setSelection] = useState<Record<string, ContentEntry>>({});
+  const [allMatching, setAllMatching] = useState(false);
+  const [isResolvingSelection, setIsResolvingSelection] = useState(false);
+  // Batch publish waiting for its accessibility issues to be confirmed
+  const [accessibilityReview, setAccessibilityReview] = useState<{
+    entries: ContentEntry[];
+    options?: BatchActionOptions;
+    flagged: { entry: ContentEntry; issues: A11yIssue[] }[];
+  } | null>(null);
+  const accessibility = useAccessibilityAudit();
   
   // Search hook - uses Meilisearch API
   const {
@@ -85,25 +162,36 @@ export default function ContentPage() {
     }
   }, []);
 
+  const replaceView = (next: ContentView) => {
+    setView(next);
+    const query = serializeView(next);
+    router.replace(query ? `/dashboard/content?${query}` : '/dashboard/content', { scroll: false });
+  };
+
+  // Changes that alter which entries match start over from the first page
+  const updateView = (changes: Partial<ContentView>) => {
+    setCurrentPage(1);
+    setAllMatching(false);
+    replaceView({ ...view, ...changes });
+  };
+
   const handleClearFilters = () => {
-    setSelectedType('all');
-    setSelectedStatus('all');
+    updateView({ content_type_id: undefined, status: undefined, filters: [] });
     clearSearch();
-    setCurrentPage(1);
   };
 
+  // Layout and columns do not change the query, so keep it stable across them
+  const { content_type_id, status, filters, sort, order } = view;
+  const entryQuery = useMemo(
+    () => toEntryQuery({ content_type_id, status, filters, sort, order }),
+    [content_type_id, status, filters, sort, order]
+  );
+
   const loadContent = useCallback(async () => {
     try {
       setIsLoading(true);
       setError('');
-      const params: any = { page: currentPage, page_size: preferences.pageSize };
-      
-      if (selectedType !== 'all') {
-        params.content_type_id = selectedType;
-      }
-      if (selectedStatus !== 'all') {
-        params.status = selectedStatus;
-      }
+      const params: any = { page: currentPage, page_size: preferences.pageSize, ...entryQuery };
 
       const data = await contentApi.getContentEntries(params);
       setContent(data);
@@ -111,7 +199,7 @@ export default function ContentPage() {
       console.error('Error loading content:', err);
       // Only show error if it's not a 404 or empty response
       if (err.response?.status !== 404) {
-        setError('Failed to load content');
+        setError(t('content.load_failed'));
       } else {
         // Set empty content for 404 to show empty state
         setContent({ items: [], total: 0, page: 1, page_size: preferences.pageSize, pages: 0 });
@@ -119,7 +207,9 @@ export default function ContentPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [selectedType, selectedStatus, currentPage, preferences.pageSize]);
+  }, [entryQuery, currentPage, preferences.pageSize, t]);
+
+  const batch = useBatchActions({ getTitle: getEntryTitle, onChanged: loadContent });
 
   useEffect(() => {
     loadContentTypes();
@@ -141,7 +231,7 @@ export default function ContentPage() {
       return {
         id: result.id,
         slug: result.slug,
-        status: result.status as 'draft' | 'published' | 'archived',
+        status: result.status as ContentStatus,
         content_type_id: result.content_type_id,
         // Create a minimal content_type object that satisfies display needs
         content_type: result.content_type_name ? {
@@ -164,8 +254,149 @@ export default function ContentPage() {
     });
   }, [searchResults, isSearchMode]);
 
-  // Determine which content to display
-  const displayContent = isSearchMode ? searchResultsAsEntries : (content?.items || []);
+  // Determine which content to display, hiding entries waiting to be deleted
+  const displayContent = (isSearchMode ? searchResultsAsEntries : (content?.items || [])).filter(
+    (entry) => !batch.pendingDeleteIds.includes(entry.id)
+  );
+
+  const selectedCount = allMatching
+    ? Math.max((content?.total || 0) - batch.pendingDeleteIds.length, 0)
+    : Object.keys(selection).length;
+  const isPageSelected =
+    allMatching || (displayContent.length > 0 && displayContent.every((entry) => selection[entry.id]));
+  const canSelectAllMatching = !isSearchMode && (content?.total || 0) > displayContent.length;
+
+  // Field filters, field sorts and columns belong to one content type
+  const handleTypeChange = (value: string) => {
+    updateView({
+      content_type_id: value !== 'all' ? value : undefined,
+      filters: view.filters.filter((filter) => filter.field.startsWith('$')),
+      sort: view.sort?.startsWith('data.') ? undefined : view.sort,
+      order: view.sort?.startsWith('data.') ? undefined : view.order,
+      columns: undefined,
+    });
+  };
+
+  const handleStatusChange = (value: string) => {
+    updateView({ status: value !== 'all' ? value : undefined });
+  };
+
+  const handleSelectSavedView = (saved: SavedContentView) => {
+    setActiveViewId(saved.id);
+    setCurrentPage(1);
+    setAllMatching(false);
+    replaceView(parseView(new URLSearchParams(saved.query)));
+  };
+
+  const selectedTypeFields = contentTypes.find((type) => type.id === selectedType)?.fields || [];
+  const tableColumns = view.columns ?? getDefaultColumns(selectedTypeFields);
+
+  const toggleColumn = (name: string, checked: boolean) => {
+    const columns = checked
+      ? getFilterableFields(selectedTypeFields)
+          .map((field) => field.name)
+          .filter((field) => field === name || tableColumns.includes(field))
+      : tableColumns.filter((column) => column !== name);
+    replaceView({ ...view, columns });
+  };
+
+  const clearSelection = () => {
+    setSelection({});
+    setAllMatching(false);
+  };
+
+  const toggleEntry = (entry: ContentEntry, checked: boolean) => {
+    if (allMatching) {
+      // Narrow "everything matching" down to the loaded page minus this entry
+      setAllMatching(false);
+      setSelection(
+        Object.fromEntries(displayContent.filter((e) => e.id !== entry.id).map((e) => [e.id, e]))
+      );
+      return;
+    }
+    setSelection((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[entry.id] = entry;
+      } else {
+        delete next[entry.id];
+      }
+      return next;
+    });
+  };
+
+  const togglePage = (checked: boolean) => {
+    setAllMatching(false);
+    setSelection((prev) => {
+      const next = { ...prev };
+      displayContent.forEach((entry) => {
+        if (checked) {
+          next[entry.id] = entry;
+        } else {
+          delete next[entry.id];
+        }
+      });
+      return next;
+    });
+  };
+
+  // Every entry matching the type and status filters, across all pages
+  const loadAllMatching = async (): Promise<ContentEntry[]> => {
+    const entries = await fetchAllPages((page, per_page) =>
+      contentApi.getContentEntries({ ...entryQuery, page, per_page })
+    );
+    return entries.filter((entry) => !batch.pendingDeleteIds.includes(entry.id));
+  };
+
+  const handleBatchAction = async (action: BatchAction, options?: BatchActionOptions) => {
+    let entries = Object.values(selection);
+    if (allMatching) {
+      setIsResolvingSelection(true);
+      try {
+        entries = await loadAllMatching();
+      } catch (err) {
+        console.error('Failed to load selected entries:', err);
+        setError(t('content.load_selection_failed'));
+        return;
+      } finally {
+        setIsResolvingSelection(false);
+      }
+    }
+    if (action === 'publish') {
+      const flagged = auditEntries(entries);
+      if (flagged.length > 0) {
+        setAccessibilityReview({ entries, options, flagged });
+        return;
+      }
+    }
+    clearSelection();
+    await batch.run(action, entries, options);
+  };
+
+  // Entries the batch would publish that fail the accessibility checks.
+  // Types with a review workflow are checked when they reach their final stage.
+  const auditEntries = (entries: ContentEntry[]) =>
+    entries
+      .map((entry) => {
+        const contentType = contentTypes.find((type) => type.id === entry.content_type_id);
+        if (!contentType || isWorkflowEnabled(contentType.workflow)) return { entry, issues: [] };
+        const issues = auditEntry({
+          fields: contentType.fields || [],
+          data: entry.data || entry.content_data || {},
+          missingAltUrls: accessibility.missingAltUrls,
+          background: accessibility.theme?.colors.background,
+        });
+        return { entry, issues };
+      })
+      .filter(({ issues }) => issues.length > 0);
+
+  const confirmAccessibilityReview = async () => {
+    if (!accessibilityReview) return;
+    const { entries, options } = accessibilityReview;
+    setAccessibilityReview(null);
+    clearSelection();
+    await batch.run('publish', entries, options);
+  };
 
   // Handle clicking on a content entry - fetch full entry if from search results
   const handleEntryClick = async (entry: ContentEntry) => {
@@ -213,6 +444,25 @@ export default function ContentPage() {
     setSelectedEntry(null);
   };
 
+  // Export entries matching the type and status filters, with their content types
+  const handleExport = () => {
+    const types = selectedType !== 'all' ? contentTypes.filter((type) => type.id === selectedType) : contentTypes;
+    exportBundle(types, {
+      status: selectedStatus !== 'all' ? selectedStatus : undefined,
+      name: types.length === 1 ? types[0].api_id || types[0].name : 'content',
+    });
+  };
+
+  // Translation exports cover the selection, or everything matching the filters
+  const translationExportScope =
+    selectedCount > 0
+      ? t('content.export_scope.selected', { count: selectedCount })
+      : t('content.export_scope.filtered');
+  const loadTranslationExportEntries = () =>
+    selectedCount > 0 && !allMatching ? Promise.resolve(Object.values(selection)) : loadAllMatching();
+  const translationExportName =
+    selectedType !== 'all' ? contentTypes.find((type) => type.id === selectedType)?.api_id : undefined;
+
   // Delete handlers
   const openDeleteDialog = (id: string, title: string) => {
     setEntryToDelete({ id, title });
@@ -228,30 +478,74 @@ export default function ContentPage() {
       setEntryToDelete(null);
       loadContent(); // Reload the list
     } catch (err: any) {
-      setError('Failed to delete content entry: ' + (err.response?.data?.detail || err.message));
+      setError(t('content.delete_failed', { error: err.response?.data?.detail || err.message }));
       setDeleteDialogOpen(false);
     }
   };
 
-  // Helper function to get entry title for display
-  const getEntryTitle = (entry: ContentEntry): string => {
-    return entry.data?.title || entry.data?.site_name || entry.data?.name || 
-           entry.data?.template_key || entry.content_data?.title || entry.slug || 'Untitled';
-  };
-
   const getStatusBadge = (status: string) => {
     const variants: Record<string, 'default' | 'secondary' | 'outline' | 'destructive'> = {
       published: 'default',
+      scheduled: 'outline',
       draft: 'secondary',
       archived: 'outline',
     };
+    if (status === 'scheduled') {
+      return (
+        <Badge variant={variants[status]} className="border-blue-500 text-blue-700 dark:text-blue-300">
+          <Clock className="h-3 w-3 mr-1" />
+          {t('content.status.scheduled')}
+        </Badge>
+      );
+    }
     return <Badge variant={variants[status] || 'secondary'}>{status}</Badge>;
   };
 
+  // Upcoming publish/unpublish time, shown in the org timezone
+  const getScheduleNote = (entry: ContentEntry): string | null => {
+    if (entry.status === 'scheduled' && entry.publish_at) {
+      return t('content.publishes', { date: formatInTimezone(entry.publish_at, timezone) });
+    }
+    if (entry.status === 'published' && entry.unpublish_at) {
+      return t('content.unpublishes', { date: formatInTimezone(entry.unpublish_at, timezone) });
+    }
+    return null;
+  };
+
+  const renderEntryActions = (entry: ContentEntry) => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+          <MoreVertical className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleEntryClick(entry)}>
+          <Eye className="h-4 w-4 mr-2" />
+          {t('content.actions.view')}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => {
+          setSelectedEntry(entry);
+          setEditDialogOpen(true);
+        }}>
+          <Edit className="h-4 w-4 mr-2" />
+          {t('content.actions.edit')}
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          className="text-destructive"
+          onClick={() => openDeleteDialog(entry.id, getEntryTitle(entry))}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          {t('content.actions.delete')}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
   if (isLoading) {
     return (
       <div className="flex h-full items-center justify-center">
-        <div className="text-lg">Loading content...</div>
+        <div className="text-lg">{t('content.loading')}</div>
       </div>
     );
   }
@@ -267,223 +561,409 @@ export default function ContentPage() {
 
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Content</h1>
-          <p className="text-muted-foreground">
-            Manage your content entries
-          </p>
+          <h1 className="text-3xl font-bold tracking-tight">{t('content.title')}</h1>
+          <p className="text-muted-foreground">{t('content.description')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border" role="group" aria-label={t('content.view_mode')}>
+            <Button
+              variant={viewMode === 'list' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => replaceView({ ...view, layout: undefined })}
+              aria-pressed={viewMode === 'list'}
+            >
+              <List className="h-4 w-4 mr-2" />
+              {t('content.layout.list')}
+            </Button>
+            <Button
+              variant={viewMode === 'table' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => replaceView({ ...view, layout: 'table' })}
+              aria-pressed={viewMode === 'table'}
+            >
+              <Table2 className="h-4 w-4 mr-2" />
+              {t('content.layout.table')}
+            </Button>
+            <Button
+              variant={viewMode === 'calendar' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => replaceView({ ...view, layout: 'calendar' })}
+              aria-pressed={viewMode === 'calendar'}
+            >
+              <CalendarDays className="h-4 w-4 mr-2" />
+              {t('content.layout.calendar')}
+            </Button>
+          </div>
+          <SavedViewsMenu
+            query={serializeView(view)}
+            activeViewId={activeViewId}
+            onSelect={handleSelectSavedView}
+          />
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Upload className="h-4 w-4 mr-2" />
+                {t('content.import.button')}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem asChild>
+                <Link
+                  href={
+                    selectedType !== 'all'
+                      ? `/dashboard/content/import?content_type_id=${selectedType}`
+                      : '/dashboard/content/import'
+                  }
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  {t('content.import.csv')}
+                </Link>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                {t('content.bundle')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setTranslationImportOpen(true)}>
+                <Languages className="h-4 w-4 mr-2" />
+                {t('content.import.translations')}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={isExporting || contentTypes.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                {isExporting ? t('content.export.exporting') : t('content.export.button')}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={handleExport}>
+                <Download className="h-4 w-4 mr-2" />
+                {t('content.bundle')}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setTranslationExportOpen(true)}>
+                <Languages className="h-4 w-4 mr-2" />
+                {t('content.export.translations')}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button asChild>
+            <Link href="/dashboard/content/new">
+              <Plus className="h-4 w-4 mr-2" />
+              {t('content.create')}
+            </Link>
+          </Button>
         </div>
-        <Button asChild>
-          <Link href="/dashboard/content/new">
-            <Plus className="h-4 w-4 mr-2" />
-            Create Content
-          </Link>
-        </Button>
       </div>
 
-      {/* Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Filters</CardTitle>
-          <CardDescription>Filter and search your content</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="grid gap-4 md:grid-cols-3">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Search</label>
-              <SearchInput
-                value={searchQuery}
-                onChange={setSearchQuery}
-                placeholder="Search content..."
-                isLoading={isSearching}
+      {viewMode === 'calendar' ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('content.calendar.title')}</CardTitle>
+            <CardDescription>{t('content.calendar.description')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PublishingCalendar
+              contentTypes={contentTypes}
+              contentTypeId={selectedType}
+              onEntryClick={handleEntryClick}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+
+        {/* Filters */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('content.filters.title')}</CardTitle>
+            <CardDescription>{t('content.filters.description')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('content.filters.search')}</label>
+                <SearchInput
+                  value={searchQuery}
+                  onChange={setSearchQuery}
+                  placeholder={t('content.filters.search_placeholder')}
+                  isLoading={isSearching}
+                />
+                {isSearchMode && !isSearching && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('content.filters.results', { count: searchTotal })}
+                  </p>
+                )}
+                {searchError && (
+                  <p className="text-xs text-destructive">{searchError}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('content.filters.type')}</label>
+                <Select value={selectedType} onValueChange={handleTypeChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('content.filters.all_types')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t('content.filters.all_types')}</SelectItem>
+                    {contentTypes.map((type) => (
+                      <SelectItem key={type.id} value={type.id.toString()}>
+                        {type.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{t('content.filters.status')}</label>
+                <Select value={selectedStatus} onValueChange={handleStatusChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('content.filters.all_statuses')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t('content.filters.all_statuses')}</SelectItem>
+                    <SelectItem value="draft">{t('content.status.draft')}</SelectItem>
+                    <SelectItem value="scheduled">{t('content.status.scheduled')}</SelectItem>
+                    <SelectItem value="published">{t('content.status.published')}</SelectItem>
+                    <SelectItem value="archived">{t('content.status.archived')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="mt-4 border-t pt-4">
+              <ContentFilterBuilder
+                key={`${selectedType}:${JSON.stringify(view.filters)}`}
+                fields={selectedTypeFields}
+                filters={view.filters}
+                onApply={(filters) => updateView({ filters })}
               />
-              {isSearchMode && !isSearching && (
-                <p className="text-xs text-muted-foreground">
-                  {searchTotal} result{searchTotal !== 1 ? 's' : ''} found
-                </p>
-              )}
-              {searchError && (
-                <p className="text-xs text-destructive">{searchError}</p>
-              )}
             </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Content Type</label>
-              <Select value={selectedType} onValueChange={setSelectedType}>
-                <SelectTrigger>
-                  <SelectValue placeholder="All Types" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Types</SelectItem>
-                  {contentTypes.map((type) => (
-                    <SelectItem key={type.id} value={type.id.toString()}>
-                      {type.name}
-                    </SelectItem>
+          </CardContent>
+        </Card>
+
+        <BatchProgressPanel state={batch.state} onUndo={batch.undo} onDismiss={batch.dismiss} />
+
+        {selectedCount > 0 && (
+          <BatchActionBar
+            count={selectedCount}
+            contentTypeIds={
+              allMatching
+                ? selectedType !== 'all' ? [selectedType] : []
+                : Array.from(new Set(Object.values(selection).map((entry) => entry.content_type_id)))
+            }
+            contentTypes={contentTypes}
+            disabled={isResolvingSelection || batch.state.phase === 'running' || batch.state.phase === 'undoing'}
+            onAction={handleBatchAction}
+            onClear={clearSelection}
+          />
+        )}
+
+        {displayContent.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2">
+              <Checkbox
+                checked={isPageSelected}
+                onCheckedChange={(checked) => togglePage(checked === true)}
+                aria-label={t('content.selection.page_label')}
+              />
+              {t('content.selection.page')}
+            </label>
+            {isPageSelected && canSelectAllMatching && (
+              allMatching ? (
+                <span className="text-muted-foreground">
+                  {t('content.selection.all_matching', { count: selectedCount })}{' '}
+                  <button onClick={clearSelection} className="text-primary underline hover:no-underline">
+                    {t('content.selection.clear')}
+                  </button>
+                </span>
+              ) : (
+                <span className="text-muted-foreground">
+                  {t('content.selection.all_on_page', { count: displayContent.length })}{' '}
+                  <button
+                    onClick={() => setAllMatching(true)}
+                    className="text-primary underline hover:no-underline"
+                  >
+                    {t('content.selection.select_matching', { count: content?.total || 0 })}
+                  </button>
+                </span>
+              )
+            )}
+            {viewMode === 'table' && selectedTypeFields.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="ml-auto">
+                    <Columns3 className="h-4 w-4 mr-2" />
+                    {t('content.columns')}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {getFilterableFields(selectedTypeFields).map((field) => (
+                    <DropdownMenuCheckboxItem
+                      key={field.name}
+                      checked={tableColumns.includes(field.name)}
+                      onCheckedChange={(checked) => toggleColumn(field.name, checked === true)}
+                    >
+                      {field.label || field.name}
+                    </DropdownMenuCheckboxItem>
                   ))}
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Status</label>
-              <Select value={selectedStatus} onValueChange={setSelectedStatus}>
-                <SelectTrigger>
-                  <SelectValue placeholder="All Status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="draft">Draft</SelectItem>
-                  <SelectItem value="published">Published</SelectItem>
-                  <SelectItem value="archived">Archived</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
-        </CardContent>
-      </Card>
-
-      {/* Content Grid - consistent with content-types page */}
-      {displayContent.length > 0 ? (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3" role="grid" data-testid="content-list">
-          {displayContent.map((entry) => (
-            <Card key={entry.id} className="relative hover:shadow-md transition-shadow">
-              <CardHeader>
-                <div className="flex items-start justify-between">
-                  <div className="space-y-1 flex-1 min-w-0">
-                    <div className="flex items-center gap-2">
-                      <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
-                      <CardTitle className="text-lg truncate">
-                        {getEntryTitle(entry)}
-                      </CardTitle>
-                    </div>
-                    <div className="flex items-center gap-2 flex-wrap">
-                      <Badge variant="outline" className="text-xs">
-                        {entry.content_type?.name || 'Unknown Type'}
-                      </Badge>
-                      {getStatusBadge(entry.status)}
+        )}
+
+        {displayContent.length > 0 && viewMode === 'table' ? (
+          <ContentTable
+            entries={displayContent}
+            columns={tableColumns
+              .map((name) => selectedTypeFields.find((field) => field.name === name))
+              .filter((field) => field !== undefined)}
+            sort={view.sort}
+            order={view.order}
+            onSortChange={(sort, order) => updateView({ sort, order })}
+            getTitle={getEntryTitle}
+            renderStatus={(entry) => getStatusBadge(entry.status)}
+            renderActions={renderEntryActions}
+            isSelected={(entry) => allMatching || !!selection[entry.id]}
+            onToggle={toggleEntry}
+            onOpen={handleEntryClick}
+          />
+        ) : displayContent.length > 0 ? (
+          /* Content Grid - consistent with content-types page */
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3" role="grid" data-testid="content-list">
+            {displayContent.map((entry) => (
+              <Card
+                key={entry.id}
+                className={`relative hover:shadow-md transition-shadow ${
+                  allMatching || selection[entry.id] ? 'ring-2 ring-primary' : ''
+                }`}
+              >
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1 flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          checked={allMatching || !!selection[entry.id]}
+                          onCheckedChange={(checked) => toggleEntry(entry, checked === true)}
+                          aria-label={t('content.select_entry', { title: getEntryTitle(entry) })}
+                        />
+                        <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <CardTitle className="text-lg truncate">
+                          {getEntryTitle(entry)}
+                        </CardTitle>
+                      </div>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge variant="outline" className="text-xs">
+                          {entry.content_type?.name || t('content.unknown_type')}
+                        </Badge>
+                        {getStatusBadge(entry.status)}
+                      </div>
+                      {getScheduleNote(entry) && (
+                        <p className="text-xs text-muted-foreground">{getScheduleNote(entry)}</p>
+                      )}
                     </div>
+                    {renderEntryActions(entry)}
                   </div>
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                        <MoreVertical className="h-4 w-4" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end">
-                      <DropdownMenuItem onClick={() => handleEntryClick(entry)}>
-                        <Eye className="h-4 w-4 mr-2" />
-                        View Details
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={() => {
-                        setSelectedEntry(entry);
-                        setEditDialogOpen(true);
-                      }}>
-                        <Edit className="h-4 w-4 mr-2" />
-                        Edit
-                      </DropdownMenuItem>
-                      <DropdownMenuItem
-                        className="text-destructive"
-                        onClick={() => openDeleteDialog(entry.id, getEntryTitle(entry))}
-                      >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2 text-sm">
-                  {(entry.data?.description || entry.data?.tagline || entry.content_data?.description || entry.data?.subject) && (
-                    <p className="text-muted-foreground line-clamp-2">
-                      {entry.data?.description || entry.data?.tagline || entry.content_data?.description || entry.data?.subject}
-                    </p>
-                  )}
-                  <div className="flex items-center justify-between text-xs text-muted-foreground pt-2 border-t">
-                    <span>Slug: {entry.slug}</span>
-                    {entry.updated_at && (
-                      <span>Updated: {new Date(entry.updated_at).toLocaleDateString()}</span>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 text-sm">
+                    {(entry.data?.description || entry.data?.tagline || entry.content_data?.description || entry.data?.subject) && (
+                      <p className="text-muted-foreground line-clamp-2">
+                        {entry.data?.description || entry.data?.tagline || entry.content_data?.description || entry.data?.subject}
+                      </p>
                     )}
+                    <div className="flex items-center justify-between text-xs text-muted-foreground pt-2 border-t">
+                      <span>{t('content.slug', { slug: entry.slug })}</span>
+                      {entry.updated_at && (
+                        <span>{t('content.updated', { date: new Date(entry.updated_at).toLocaleDateString() })}</span>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      ) : (
-        <Card>
-          <CardContent className="flex flex-col items-center justify-center py-16">
-            <div className="rounded-full bg-gray-100 p-6 mb-6">
-              <FileText className="h-12 w-12 text-muted-foreground" />
-            </div>
-            <h3 className="text-2xl font-semibold mb-2">
-              {contentTypes.length === 0 ? 'No Content Types Yet' : 'No content found'}
-            </h3>
-            <p className="text-muted-foreground mb-6 text-center max-w-lg">
-              {selectedType !== 'all' || selectedStatus !== 'all' || isSearchMode ? (
-                <>
-                  No content matches your current filters. Try adjusting your search criteria or{' '}
-                  <button
-                    onClick={handleClearFilters}
-                    className="text-primary underline hover:no-underline"
-                  >
-                    clearing all filters
-                  </button>
-                  .
-                </>
-              ) : contentTypes.length === 0 ? (
-                <>
-                  You need to create a content type first before you can add content.{' '}
-                  <Link href="/dashboard/content-types/builder" className="text-primary underline hover:no-underline">
-                    Create a content type
-                  </Link>{' '}
-                  to get started.
-                </>
-              ) : (
-                'Get started by creating your first content entry. Content entries are instances of your content types.'
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16">
+              <div className="rounded-full bg-gray-100 p-6 mb-6">
+                <FileText className="h-12 w-12 text-muted-foreground" />
+              </div>
+              <h3 className="text-2xl font-semibold mb-2">
+                {contentTypes.length === 0 ? t('content.empty.no_types') : t('content.empty.title')}
+              </h3>
+              <p className="text-muted-foreground mb-6 text-center max-w-lg">
+                {selectedType !== 'all' || selectedStatus !== 'all' || view.filters.length > 0 || isSearchMode ? (
+                  <>
+                    {t('content.empty.filtered')}{' '}
+                    <button
+                      onClick={handleClearFilters}
+                      className="text-primary underline hover:no-underline"
+                    >
+                      {t('content.empty.clear_filters')}
+                    </button>
+                    .
+                  </>
+                ) : contentTypes.length === 0 ? (
+                  <>
+                    {t('content.empty.needs_type')}{' '}
+                    <Link href="/dashboard/content-types/builder" className="text-primary underline hover:no-underline">
+                      {t('content.empty.create_type')}
+                    </Link>
+                  </>
+                ) : (
+                  t('content.empty.description')
+                )}
+              </p>
+              {contentTypes.length > 0 && (
+                <Button asChild size="lg">
+                  <Link href="/dashboard/content/new">
+                    <Plus className="h-5 w-5 mr-2" />
+                    {t('content.empty.create')}
+                  </Link>
+                </Button>
               )}
-            </p>
-            {contentTypes.length > 0 && (
-              <Button asChild size="lg">
-                <Link href="/dashboard/content/new">
-                  <Plus className="h-5 w-5 mr-2" />
-                  Create Your First Content
-                </Link>
-              </Button>
-            )}
-          </CardContent>
-        </Card>
-      )}
+            </CardContent>
+          </Card>
+        )}
 
-      {/* Showing count */}
-      {displayContent.length > 0 && (
-        <div className="flex items-center justify-between text-sm text-muted-foreground">
-          <div>
-            Showing {displayContent.length} {isSearchMode ? `result${displayContent.length !== 1 ? 's' : ''}` : `of ${content?.total || 0} entr${(content?.total || 0) !== 1 ? 'ies' : 'y'}`}
+        {/* Showing count */}
+        {displayContent.length > 0 && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <div>
+              {isSearchMode
+                ? t('content.showing_results', { count: displayContent.length })
+                : t('content.showing_entries', { shown: displayContent.length, count: content?.total || 0 })}
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Pagination - show when not searching and content exists */}
-      {!isSearchMode && content && content.items.length > 0 && (content.pages || content.total_pages || 1) > 1 && (
-        <div className="flex items-center justify-center gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            disabled={currentPage === 1}
-            onClick={() => setCurrentPage(currentPage - 1)}
-          >
-            ← Previous
-          </Button>
-          <span className="text-sm text-muted-foreground px-4">
-            Page {currentPage} of {content.pages || content.total_pages || 1}
-          </span>
-          <Button
-            variant="outline"
-            size="sm"
-            disabled={currentPage >= (content.pages || content.total_pages || 1)}
-            onClick={() => setCurrentPage(currentPage + 1)}
-          >
-            Next →
-          </Button>
-        </div>
+        {/* Pagination - show when not searching and content exists */}
+        {!isSearchMode && content && content.items.length > 0 && (content.pages || content.total_pages || 1) > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={currentPage === 1}
+              onClick={() => setCurrentPage(currentPage - 1)}
+            >
+              ← {t('content.pagination.previous')}
+            </Button>
+            <span className="text-sm text-muted-foreground px-4">
+              {t('content.pagination.page', { page: currentPage, pages: content.pages || content.total_pages || 1 })}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={currentPage >= (content.pages || content.total_pages || 1)}
+              onClick={() => setCurrentPage(currentPage + 1)}
+            >
+              {t('content.pagination.next')} →
+            </Button>
+          </div>
+        )}
+
+        </>
       )}
 
       {/* View Dialog */}
@@ -503,21 +983,77 @@ export default function ContentPage() {
         onBack={handleBackToView}
       />
 
+      <BundleImportWizard
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={() => {
+          loadContentTypes();
+          loadContent();
+        }}
+      />
+
+      <TranslationExportDialog
+        open={translationExportOpen}
+        onOpenChange={setTranslationExportOpen}
+        contentTypes={contentTypes}
+        scopeLabel={translationExportScope}
+        loadEntries={loadTranslationExportEntries}
+        name={translationExportName}
+      />
+
+      <TranslationImportWizard
+        open={translationImportOpen}
+        onOpenChange={setTranslationImportOpen}
+        onImported={loadContent}
+      />
+
+      {accessibilityReview && (
+        <Dialog open onOpenChange={(open) => !open && setAccessibilityReview(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t('content.a11y.title')}</DialogTitle>
+              <DialogDescription>
+                {t('content.a11y.description', {
+                  flagged: accessibilityReview.flagged.length,
+                  count: accessibilityReview.entries.length,
+                })}
+              </DialogDescription>
+            </DialogHeader>
+            <ul className="space-y-3 max-h-80 overflow-y-auto text-sm">
+              {accessibilityReview.flagged.map(({ entry, issues }) => (
+                <li key={entry.id}>
+                  <span className="font-medium">{getEntryTitle(entry)}</span>
+                  <ul className="mt-1 ml-6 space-y-1 text-xs text-muted-foreground list-disc">
+                    {issues.map((issue, index) => (
+                      <li key={index}>{issue.message}</li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setAccessibilityReview(null)}>
+                {t('content.cancel')}
+              </Button>
+              <Button onClick={confirmAccessibilityReview}>{t('content.a11y.publish_anyway')}</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Delete Content Entry</DialogTitle>
-            <DialogDescription>
-              Are you sure you want to delete "{entryToDelete?.title}"? This action cannot be undone.
-            </DialogDescription>
+            <DialogTitle>{t('content.delete.title')}</DialogTitle>
+            <DialogDescription>{t('content.delete.description', { title: entryToDelete?.title })}</DialogDescription>
           </DialogHeader>
           <DialogFooter>
             <Button variant="outline" onClick={() => setDeleteDialogOpen(false)}>
-              Cancel
+              {t('content.cancel')}
             </Button>
             <Button variant="destructive" onClick={handleDelete}>
-              Delete Entry
+              {t('content.delete.confirm')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -19,6 +19,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Separator } from '@/components/ui/separator';
+import { parseDelimited } from '@/lib/csv';
 import {
   ArrowLeft,
   Upload,
@@ -78,12 +79,12 @@ export default function BulkUpdatePage() {
 
   // Parse CSV content
   const parseCSV = (csv: string): ParsedItem[] => {
-    const lines = csv.trim().split('\n');
-    if (lines.length < 2) {
+    const rows = parseDelimited(csv.trim(), ',');
+    if (rows.length < 2) {
       throw new Error('CSV must have a header row and at least one data row');
     }
 
-    const header = lines[0].toLowerCase().split(',').map(h => h.trim());
+    const header = rows[0].map(h => h.trim().toLowerCase());
     const skuIndex = header.indexOf('sku');
     const qtyIndex = header.findIndex(h => h === 'quantity' || h === 'qty' || h === 'new_quantity');
 
@@ -95,11 +96,10 @@ export default function BulkUpdatePage() {
     }
 
     const parsed: ParsedItem[] = [];
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
+    for (let i = 1; i < rows.length; i++) {
+      const values = rows[i].map(v => v.trim());
+      if (values.every(v => !v)) continue;
 
-      const values = line.split(',').map(v => v.trim());
       const sku = values[skuIndex];
       const qtyStr = values[qtyIndex];
       const quantity = parseInt(qtyStr, 10);
@@ -3,7 +3,8 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { useAuth } from '@/contexts/auth-context';
 import { useRequireAuth } from '@/hooks/use-require-auth';
 import { useRouter, usePathname } from 'next/navigation';
-import DashboardLayout from './layout';
+import DashboardLayout, { navigationConfig, isNavSection } from './layout';
+import { BUILT_IN_CATALOGS } from '@/lib/i18n-catalogs';
 
 // Mock all dependencies
 vi.mock('@/contexts/auth-context', () => ({
@@ -414,4 +415,15 @@ describe('DashboardLayout', () => {
 
     expect(screen.getByText('Keyboard Shortcuts Help')).toBeInTheDocument();
   });
+
+  it('should have an English message for every navigation item', () => {
+    navigationConfig.forEach((item) => {
+      if (isNavSection(item)) {
+        expect(BUILT_IN_CATALOGS.en[`nav.${item.key}`]).toBe(item.label);
+        item.items.forEach((link) => expect(BUILT_IN_CATALOGS.en[`nav.${link.key}`]).toBe(link.name));
+      } else {
+        expect(BUILT_IN_CATALOGS.en[`nav.${item.key}`]).toBe(item.name);
+      }
+    });
+  });
 });
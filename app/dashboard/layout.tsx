@@ -1,6 +1,7 @@
 'use client';
 
 import { useAuth } from '@/contexts/auth-context';
+import { useI18n } from '@/contexts/i18n-context';
 import { useRequireAuth } from '@/hooks/use-require-auth';
 import { useState, useEffect, useCallback, useMemo, memo } from 'react';
 import { getMediaUrl } from '@/lib/api/client';
@@ -36,6 +37,7 @@ import {
   HelpCircle,
   Loader2,
   Database,
+  Accessibility,
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -226,6 +228,13 @@ export const navigationConfig: readonly NavItem[] = [
     key: 'themes', 
     permissions: [PERMISSIONS.THEMES_READ] 
   },
+  { 
+    name: 'Accessibility', 
+    href: '/dashboard/accessibility', 
+    icon: Accessibility, 
+    key: 'accessibility', 
+    permissions: [PERMISSIONS.CONTENT_READ] 
+  },
   
   // Store Management Section
   {
@@ -691,6 +700,7 @@ const NavLinkItem = memo(function NavLinkItem({
   onClick,
   indented = false,
 }: NavLinkItemProps) {
+  const { t } = useI18n();
   const Icon = item.icon;
   
   return (
@@ -708,9 +718,9 @@ const NavLinkItem = memo(function NavLinkItem({
         className={`${indented ? 'h-4 w-4' : 'h-5 w-5'} shrink-0 transition-transform group-hover:scale-110`} 
         aria-hidden="true" 
       />
-      <span className="truncate">{item.name}</span>
+      <span className="truncate">{t(`nav.${item.key}`)}</span>
       {item.badge !== undefined && item.badge > 0 && (
-        <span className="ml-auto flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1.5 text-xs font-medium text-destructive-foreground">
+        <span className="ms-auto flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1.5 text-xs font-medium text-destructive-foreground">
           {item.badge > 99 ? '99+' : item.badge}
         </span>
       )}
@@ -738,6 +748,7 @@ const CollapsibleSection = memo(function CollapsibleSection({
   onNavClick,
   hasAnyPermission,
 }: CollapsibleSectionProps) {
+  const { t } = useI18n();
   // Filter items based on permissions
   const visibleItems = useMemo(() => 
     section.items.filter(item => hasAnyPermission(item.permissions)),
@@ -766,7 +777,7 @@ const CollapsibleSection = memo(function CollapsibleSection({
           hasActiveItem ? 'text-primary' : 'text-muted-foreground'
         }`}
       >
-        <span className="uppercase tracking-wider text-xs">{section.label}</span>
+        <span className="uppercase tracking-wider text-xs">{t(`nav.${section.key}`)}</span>
         <ChevronDown 
           className={`h-4 w-4 shrink-0 transition-transform duration-200 ${isExpanded ? 'rotate-180' : ''}`}
           aria-hidden="true"
@@ -783,8 +794,8 @@ const CollapsibleSection = memo(function CollapsibleSection({
         }`}
       >
         <nav 
-          className="ml-2 space-y-1 border-l border-border pl-2 mt-1"
-          aria-label={`${section.label} navigation`}
+          className="ms-2 space-y-1 border-s border-border ps-2 mt-1"
+          aria-label={t('layout.section_navigation', { section: t(`nav.${section.key}`) })}
         >
           {visibleItems.map((item) => (
             <NavLinkItem
@@ -820,6 +831,7 @@ const Sidebar = memo(function Sidebar({
   toggleSection,
 }: SidebarProps) {
   const { hasAnyPermission } = useUserPermissions();
+  const { t } = useI18n();
 
   return (
     <div className="flex h-full flex-col">
@@ -831,7 +843,7 @@ const Sidebar = memo(function Sidebar({
       </div>
       
       {/* Navigation */}
-      <nav className="flex-1 space-y-1 px-4 py-4 overflow-y-auto" aria-label="Main navigation">
+      <nav className="flex-1 space-y-1 px-4 py-4 overflow-y-auto" aria-label={t('layout.main_navigation')}>
         {navigationConfig.map((item) => {
           // Handle collapsible sections
           if (isNavSection(item)) {
@@ -869,9 +881,9 @@ const Sidebar = memo(function Sidebar({
       <Separator />
       <div className="px-4 py-4">
         <div className="rounded-lg border bg-card p-4">
-          <p className="text-sm font-medium">Organization</p>
+          <p className="text-sm font-medium">{t('layout.organization')}</p>
           <p className="text-xs text-muted-foreground truncate" title={user?.organization?.name}>
-            {user?.organization?.name || 'Default Organization'}
+            {user?.organization?.name || t('layout.default_organization')}
           </p>
         </div>
       </div>
@@ -895,6 +907,7 @@ export default function DashboardLayout({
   const { isLoading } = useRequireAuth();
   const pathname = usePathname();
   const router = useRouter();
+  const { t, dir } = useI18n();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   
   // Sidebar state management
@@ -942,8 +955,11 @@ export default function DashboardLayout({
     },
   ]);
 
-  // Memoize flat navigation for header and command palette
-  const flatNavigation = useMemo(() => getFlatNavigation(), []);
+  // Memoize flat navigation for header and command palette, named in the UI language
+  const flatNavigation = useMemo(
+    () => getFlatNavigation().map((item) => ({ ...item, name: t(`nav.${item.key}`) })),
+    [t]
+  );
   
   // Find current page from navigation
   const currentNav = useMemo(() => 
@@ -970,8 +986,8 @@ export default function DashboardLayout({
         </head>
         <div className="flex flex-col items-center gap-4">
           <Loader2 className="h-8 w-8 animate-spin text-primary" aria-hidden="true" />
-          <p className="text-sm text-muted-foreground">Loading dashboard...</p>
-          <span className="sr-only">Loading, please wait</span>
+          <p className="text-sm text-muted-foreground">{t('layout.loading')}</p>
+          <span className="sr-only">{t('layout.loading_sr')}</span>
         </div>
       </div>
     );
@@ -991,7 +1007,7 @@ export default function DashboardLayout({
       ]} />
       
       {/* Desktop Sidebar */}
-      <aside className="hidden w-64 border-r bg-card lg:block" aria-label="Sidebar">
+      <aside className="hidden w-64 border-e bg-card lg:block" aria-label={t('layout.sidebar')}>
         <Sidebar 
           user={user} 
           pathname={pathname} 
@@ -1003,7 +1019,7 @@ export default function DashboardLayout({
 
       {/* Mobile Menu */}
       <Sheet open={isMobileMenuOpen} onOpenChange={setIsMobileMenuOpen}>
-        <SheetContent side="left" className="w-64 p-0">
+        <SheetContent side={dir === 'rtl' ? 'right' : 'left'} className="w-64 p-0">
           <Sidebar 
             user={user} 
             pathname={pathname} 
@@ -1025,7 +1041,7 @@ export default function DashboardLayout({
               size="icon" 
               onClick={() => setIsMobileMenuOpen(true)}
               className="lg:hidden"
-              aria-label="Open navigation menu"
+              aria-label={t('layout.open_navigation')}
               aria-expanded={isMobileMenuOpen}
             >
               <Menu className="h-5 w-5" aria-hidden="true" />
@@ -1037,7 +1053,7 @@ export default function DashboardLayout({
                 <currentNav.icon className="h-6 w-6 text-primary" aria-hidden="true" />
               )}
               <h1 className="text-xl font-semibold">
-                {currentNav?.name || 'Dashboard'}
+                {currentNav?.name || t('nav.dashboard')}
               </h1>
             </div>
           </div>
@@ -1054,7 +1070,7 @@ export default function DashboardLayout({
                 <Button 
                   variant="ghost" 
                   className="relative h-10 w-10 rounded-full ring-offset-background transition-all hover:ring-2 hover:ring-primary hover:ring-offset-2 focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-                  aria-label={`User menu for ${displayName}`}
+                  aria-label={t('layout.user_menu', { name: displayName })}
                 >
                   <Avatar className="h-10 w-10">
                     {user?.avatar_url && (
@@ -1077,20 +1093,20 @@ export default function DashboardLayout({
                 <DropdownMenuItem asChild>
                   <Link href="/dashboard/profile" className="flex items-center gap-2 cursor-pointer">
                     <UserIcon className="h-4 w-4" />
-                    <span>Profile</span>
+                    <span>{t('layout.profile')}</span>
                   </Link>
                 </DropdownMenuItem>
                 <DropdownMenuItem asChild>
                   <Link href="/dashboard/settings" className="flex items-center gap-2 cursor-pointer">
                     <Cog className="h-4 w-4" />
-                    <span>Settings</span>
-                    <span className="ml-auto text-xs text-muted-foreground">⌘,</span>
+                    <span>{t('layout.settings')}</span>
+                    <span className="ms-auto text-xs text-muted-foreground">⌘,</span>
                   </Link>
                 </DropdownMenuItem>
                 <DropdownMenuItem asChild>
                   <Link href="/dashboard/documentation" className="flex items-center gap-2 cursor-pointer">
                     <HelpCircle className="h-4 w-4" />
-                    <span>Help & Docs</span>
+                    <span>{t('layout.help')}</span>
                   </Link>
                 </DropdownMenuItem>
                 <DropdownMenuSeparator />
@@ -1099,7 +1115,7 @@ export default function DashboardLayout({
                   className="flex items-center gap-2 text-destructive focus:text-destructive cursor-pointer"
                 >
                   <LogOut className="h-4 w-4" />
-                  <span>Log out</span>
+                  <span>{t('layout.log_out')}</span>
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
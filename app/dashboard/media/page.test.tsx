@@ -9,6 +9,8 @@ vi.mock('@/lib/api', () => ({
   mediaApi: {
     getMedia: vi.fn(),
     uploadMedia: vi.fn(),
+    getFolders: vi.fn().mockResolvedValue([]),
+    getTags: vi.fn().mockResolvedValue([]),
   },
 }));
 
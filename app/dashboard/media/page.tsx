@@ -4,9 +4,34 @@ import { useEffect, useState, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { mediaApi } from '@/lib/api';
 import { resolveMediaUrl } from '@/lib/api/client';
-import { Media } from '@/types';
+import {
+  buildFolderTree,
+  flattenFolderTree,
+  getFolderPath,
+  getMoveBlocker,
+  MEDIA_DRAG_TYPE,
+  MEDIA_SOURCE_DRAG_TYPE,
+} from '@/lib/media-folders';
+import { formatDuration, isPlayable } from '@/lib/media-playback';
+import { supportsRenditions } from '@/lib/media-renditions';
+import { FocalPoint, Media } from '@/types';
+import { useMediaFolders } from '@/hooks/use-media-folders';
+import { useUploadQueue } from '@/hooks/use-upload-queue';
+import { useI18n } from '@/contexts/i18n-context';
+import { BulkTagDialog } from '@/components/media/BulkTagDialog';
+import { ImageEditorDialog } from '@/components/media/ImageEditorDialog';
 import { MediaDetailsModal } from '@/components/media/MediaDetailsModal';
+import { MediaSidebar } from '@/components/media/MediaSidebar';
+import { ResponsiveImage } from '@/components/media/ResponsiveImage';
+import { UploadQueueList } from '@/components/media/UploadQueueList';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { SearchInput } from '@/components/ui/search-input';
 import {
@@ -17,7 +42,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight, FolderInput, Tag, Trash2 } from 'lucide-react';
 
 const PAGE_SIZE_OPTIONS = [12, 24, 48, 100];
 const DEFAULT_PAGE_SIZE = 24;
@@ -25,35 +52,61 @@ const DEFAULT_PAGE_SIZE = 24;
 export default function MediaPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { t } = useI18n();
   const [media, setMedia] = useState<Media[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedType, setSelectedType] = useState(searchParams?.get('type') || 'all');
+  // 'unused' lists files nothing references, for cleanup
+  const [usageFilter, setUsageFilter] = useState(searchParams?.get('usage') || 'all');
   const [isDragging, setIsDragging] = useState(false);
-  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
   const [selectedMedia, setSelectedMedia] = useState<Media | null>(null);
   const [showMediaModal, setShowMediaModal] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
   const [totalItems, setTotalItems] = useState(0);
+  const [editing, setEditing] = useState<{ file: File; url: string } | null>(null);
+  const [folderId, setFolderId] = useState<string | null>(searchParams?.get('folder') || null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  // Selected media by id, like the content list, so the selection survives paging
+  const [selection, setSelection] = useState<Record<string, Media>>({});
+  const [showBulkTag, setShowBulkTag] = useState(false);
+  const [showBulkDelete, setShowBulkDelete] = useState(false);
+  const [isBulkDeleting, setIsBulkDeleting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const editInputRef = useRef<HTMLInputElement>(null);
+  const library = useMediaFolders();
+  const uploads = useUploadQueue({
+    onUploaded: () => {
+      loadMedia();
+      library.reload();
+    },
+  });
 
   const totalPages = Math.ceil(totalItems / pageSize);
+  const currentFolder = library.folders.find((folder) => folder.id === folderId) || null;
+  const canUpload = currentFolder?.access?.can_upload !== false;
+  const selectedIds = Object.keys(selection);
+
+  const canDeleteMedia = (file: Media) =>
+    library.folders.find((folder) => folder.id === file.folder_id)?.access?.can_delete !== false;
 
   useEffect(() => {
     loadMedia();
     // Update URL with type parameter
     const params = new URLSearchParams();
     if (selectedType !== 'all') params.set('type', selectedType);
+    if (usageFilter !== 'all') params.set('usage', usageFilter);
+    if (folderId) params.set('folder', folderId);
     if (currentPage > 1) params.set('page', currentPage.toString());
     const queryString = params.toString();
     router.push(`/dashboard/media${queryString ? `?${queryString}` : ''}`);
-  }, [selectedType, currentPage, router]);
+  }, [selectedType, usageFilter, folderId, selectedTags, currentPage, router]);
 
-  // Reset to page 1 when search, type, or page size changes
+  // Reset to page 1 when search, type, usage, folder, tags or page size changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery, selectedType, pageSize]);
+  }, [searchQuery, selectedType, usageFilter, folderId, selectedTags, pageSize]);
 
   // Debounced search effect
   useEffect(() => {
@@ -77,6 +130,15 @@ export default function MediaPage() {
       if (searchQuery) {
         params.search = searchQuery;
       }
+      if (usageFilter === 'unused') {
+        params.unused = true;
+      }
+      if (folderId) {
+        params.folder_id = folderId;
+      }
+      if (selectedTags.length > 0) {
+        params.tags = selectedTags;
+      }
       
       const response = await mediaApi.getMedia(params);
       setMedia(response.items || []);
@@ -90,35 +152,96 @@ export default function MediaPage() {
     }
   };
 
-  const handleFileSelect = async (files: FileList | null) => {
-    if (!files || files.length === 0) return;
-    
-    try {
-      setUploadStatus('uploading');
-      
-      // Upload each file
-      for (const file of Array.from(files)) {
-        const formData = new FormData();
-        formData.append('file', file);
-        
-        await mediaApi.uploadMedia(formData);
+  // New uploads go to the folder being viewed
+  const uploadFields = folderId ? { folder_id: folderId } : undefined;
+
+  const handleFileSelect = (files: FileList | null) => {
+    uploads.addFiles(files, uploadFields);
+    // Allow picking the same file again after a cancel or failure
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleEditSelect = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file) setEditing({ file, url: URL.createObjectURL(file) });
+    if (editInputRef.current) editInputRef.current.value = '';
+  };
+
+  const closeEditor = () => {
+    if (editing) URL.revokeObjectURL(editing.url);
+    setEditing(null);
+  };
+
+  const handleUploadEdited = async (file: File, focalPoint: FocalPoint | null) => {
+    uploads.addFiles([file], {
+      ...uploadFields,
+      ...(focalPoint ? { focal_point: JSON.stringify(focalPoint) } : {}),
+    });
+    closeEditor();
+  };
+
+  const toggleMedia = (file: Media, checked: boolean) => {
+    setSelection((prev) => {
+      const next = { ...prev };
+      if (checked) {
+        next[file.id] = file;
+      } else {
+        delete next[file.id];
       }
-      
-      setUploadStatus('success');
-      
-      // Reload media list
-      await loadMedia();
-      
-      // Reset status after 3 seconds
-      setTimeout(() => setUploadStatus('idle'), 3000);
-    } catch (error) {
-      console.error('Upload failed:', error);
-      setUploadStatus('error');
-      setTimeout(() => setUploadStatus('idle'), 3000);
+      return next;
+    });
+  };
+
+  const handleMove = async (ids: string[], targetId: string | null) => {
+    const target = library.folders.find((folder) => folder.id === targetId);
+    const sourceFolderIds = ids.map((id) => (selection[id] || media.find((file) => file.id === id))?.folder_id);
+    const blocker = getMoveBlocker(library.folders, sourceFolderIds, targetId);
+    if (blocker) {
+      const key = blocker.permission === 'can_upload' ? 'media.move_not_allowed' : 'media.move_out_not_allowed';
+      toast.error(t(key, { folder: blocker.folder.name }));
+      return;
+    }
+    try {
+      await mediaApi.moveMedia(ids, targetId);
+      toast.success(t('media.moved', { count: ids.length, folder: target ? `"${target.name}"` : t('media.all_media') }));
+      setSelection({});
+      loadMedia();
+      library.reload();
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(error.response?.data?.detail || t('media.move_failed'));
     }
   };
 
+  // Items that are still referenced are refused by the API and kept
+  const handleBulkDelete = async () => {
+    try {
+      setIsBulkDeleting(true);
+      const results = await Promise.allSettled(selectedIds.map((id) => mediaApi.deleteMedia(id)));
+      const failed = results.filter((result) => result.status === 'rejected').length;
+      const deleted = results.length - failed;
+      if (deleted > 0) toast.success(t('media.deleted', { count: deleted }));
+      if (failed > 0) toast.error(t('media.delete_failed', { count: failed }));
+      setSelection({});
+      setShowBulkDelete(false);
+      loadMedia();
+      library.reload();
+    } finally {
+      setIsBulkDeleting(false);
+    }
+  };
+
+  const handleCardDragStart = (e: React.DragEvent, file: Media) => {
+    // Dragging a selected card moves the whole selection
+    const files = selection[file.id] ? Object.values(selection) : [file];
+    e.dataTransfer.setData(MEDIA_DRAG_TYPE, JSON.stringify(files.map((item) => item.id)));
+    e.dataTransfer.setData(MEDIA_SOURCE_DRAG_TYPE, JSON.stringify(files.map((item) => item.folder_id ?? null)));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
+    // Cards dragged onto the upload area are not uploads
+    if (!e.dataTransfer.types.includes('Files')) return;
     e.preventDefault();
     setIsDragging(true);
   };
@@ -150,14 +273,17 @@ export default function MediaPage() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold tracking-tight">Media Library</h1>
-          <p className="text-muted-foreground">
-            Upload and manage your media files
-          </p>
+          <h1 className="text-3xl font-bold tracking-tight">{t('media.title')}</h1>
+          <p className="text-muted-foreground">{t('media.description')}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => editInputRef.current?.click()} disabled={!canUpload}>
+            {t('media.edit_upload')}
+          </Button>
+          <Button onClick={() => fileInputRef.current?.click()} disabled={!canUpload}>
+            {t('media.upload')}
+          </Button>
         </div>
-        <Button onClick={() => fileInputRef.current?.click()}>
-          Upload Media
-        </Button>
         <input
           ref={fileInputRef}
           type="file"
@@ -166,213 +292,374 @@ export default function MediaPage() {
           className="hidden"
           onChange={(e) => handleFileSelect(e.target.files)}
         />
+        <input
+          ref={editInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => handleEditSelect(e.target.files)}
+        />
       </div>
 
-      {/* Upload Status Messages */}
-      {uploadStatus === 'uploading' && (
-        <Card className="border-blue-500 bg-blue-50 dark:bg-blue-950">
-          <CardContent className="py-4">
-            <p className="text-sm font-medium text-blue-900 dark:text-blue-100">Uploading files...</p>
-          </CardContent>
-        </Card>
-      )}
-      {uploadStatus === 'success' && (
-        <Card className="border-green-500 bg-green-50 dark:bg-green-950">
-          <CardContent className="py-4">
-            <p className="text-sm font-medium text-green-900 dark:text-green-100">Upload successful!</p>
-          </CardContent>
-        </Card>
-      )}
-      {uploadStatus === 'error' && (
-        <Card className="border-red-500 bg-red-50 dark:bg-red-950">
-          <CardContent className="py-4">
-            <p className="text-sm font-medium text-red-900 dark:text-red-100">Upload failed. Please try again.</p>
-          </CardContent>
-        </Card>
-      )}
+      <div className="flex gap-6">
+        <aside className="w-56 shrink-0">
+          <MediaSidebar
+            folders={library.folders}
+            tags={library.tags}
+            folderId={folderId}
+            onFolderChange={setFolderId}
+            selectedTags={selectedTags}
+            onTagsChange={setSelectedTags}
+            editable
+            onFoldersChanged={library.reload}
+            onMediaDrop={handleMove}
+          />
+        </aside>
+
+        <div className="flex-1 min-w-0 space-y-6">
+          {currentFolder && (
+            <nav className="flex items-center gap-1 text-sm text-muted-foreground" aria-label={t('media.folder_path')}>
+              <button className="hover:underline" onClick={() => setFolderId(null)}>{t('media.all_media')}</button>
+              {getFolderPath(library.folders, currentFolder.id).map((folder) => (
+                <span key={folder.id} className="flex items-center gap-1">
+                  <ChevronRight className="h-3 w-3" />
+                  <button className="hover:underline" onClick={() => setFolderId(folder.id)}>{folder.name}</button>
+                </span>
+              ))}
+              {!canUpload && <span className="ml-2 text-xs">{t('media.read_only')}</span>}
+            </nav>
+          )}
 
-      {/* Upload Area */}
-      <Card
-        className={`border-2 border-dashed transition-colors ${
-          isDragging ? 'border-primary bg-primary/5' : 'border-muted'
-        }`}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-      >
-        <CardContent className="flex flex-col items-center justify-center py-12">
-          <div className="text-6xl mb-4">📁</div>
-          <h3 className="text-lg font-semibold mb-2">Drop files here to upload</h3>
-          <p className="text-sm text-muted-foreground mb-4">
-            or click the upload button above
-          </p>
-          <p className="text-xs text-muted-foreground">
-            Supports: Images, Videos, Audio, PDF, Documents
-          </p>
-        </CardContent>
-      </Card>
-
-      {/* Filters */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Filters</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="grid gap-4 md:grid-cols-3">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Search</label>
-              <SearchInput
-                value={searchQuery}
-                onChange={setSearchQuery}
-                placeholder="Search files..."
-              />
+          {/* Upload Queue */}
+          {uploads.items.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('media.uploads.title')}</CardTitle>
+                <CardDescription>
+                  {uploads.isUploading ? t('media.uploads.in_progress') : t('media.uploads.finished')}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UploadQueueList
+                  items={uploads.items}
+                  onPause={uploads.pause}
+                  onResume={uploads.resume}
+                  onRetry={uploads.retry}
+                  onCancel={uploads.cancel}
+                  onClearFinished={uploads.clearFinished}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Upload Area */}
+          <Card
+            className={`border-2 border-dashed transition-colors ${
+              isDragging ? 'border-primary bg-primary/5' : 'border-muted'
+            }`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <div className="text-6xl mb-4">📁</div>
+              <h3 className="text-lg font-semibold mb-2">{t('media.drop.title')}</h3>
+              <p className="text-sm text-muted-foreground mb-4">{t('media.drop.hint')}</p>
+              <p className="text-xs text-muted-foreground">{t('media.drop.supports')}</p>
+            </CardContent>
+          </Card>
+
+          {/* Filters */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('media.filters.title')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('media.filters.search')}</label>
+                  <SearchInput
+                    value={searchQuery}
+                    onChange={setSearchQuery}
+                    placeholder={t('media.filters.search_placeholder')}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('media.filters.file_type')}</label>
+                  <Select value={selectedType} onValueChange={setSelectedType}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={t('media.filters.all_types')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{t('media.filters.all_types')}</SelectItem>
+                      <SelectItem value="image">{t('media.filters.images')}</SelectItem>
+                      <SelectItem value="video">{t('media.filters.videos')}</SelectItem>
+                      <SelectItem value="audio">{t('media.filters.audio')}</SelectItem>
+                      <SelectItem value="document">{t('media.filters.documents')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('media.filters.usage')}</label>
+                  <Select value={usageFilter} onValueChange={setUsageFilter}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={t('media.all_media')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">{t('media.all_media')}</SelectItem>
+                      <SelectItem value="unused">{t('media.filters.unused')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">{t('media.filters.page_size')}</label>
+                  <Select value={pageSize.toString()} onValueChange={(v) => setPageSize(Number(v))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="24" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PAGE_SIZE_OPTIONS.map((size) => (
+                        <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Bulk Actions */}
+          {selectedIds.length > 0 && (
+            <div className="flex items-center gap-2 rounded-md border bg-muted/50 px-4 py-2">
+              <span className="text-sm font-medium mr-auto">{t('media.bulk.selected', { count: selectedIds.length })}</span>
+              <Button variant="outline" size="sm" onClick={() => setShowBulkTag(true)}>
+                <Tag className="h-4 w-4 mr-1" />
+                {t('media.bulk.tag')}
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={!Object.values(selection).every(canDeleteMedia)}>
+                    <FolderInput className="h-4 w-4 mr-1" />
+                    {t('media.bulk.move')}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => handleMove(selectedIds, null)}>{t('media.bulk.no_folder')}</DropdownMenuItem>
+                  {flattenFolderTree(buildFolderTree(library.folders)).map(({ folder, depth }) => (
+                    <DropdownMenuItem
+                      key={folder.id}
+                      onClick={() => handleMove(selectedIds, folder.id)}
+                      disabled={folder.access?.can_upload === false}
+                      style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+                    >
+                      {folder.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowBulkDelete(true)}
+                disabled={!Object.values(selection).every(canDeleteMedia)}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                {t('media.bulk.delete')}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelection({})}>
+                {t('media.bulk.clear')}
+              </Button>
             </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium">File Type</label>
-              <Select value={selectedType} onValueChange={setSelectedType}>
-                <SelectTrigger>
-                  <SelectValue placeholder="All Types" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="image">Images</SelectItem>
-                  <SelectItem value="video">Videos</SelectItem>
-                  <SelectItem value="audio">Audio</SelectItem>
-                  <SelectItem value="document">Documents</SelectItem>
-                </SelectContent>
-              </Select>
+          )}
+
+          {/* Media Grid - Always render container for test compatibility */}
+          {isLoading ? (
+            <div className="flex h-64 items-center justify-center">
+              <div className="text-lg">{t('media.loading')}</div>
             </div>
-            <div className="space-y-2">
-              <label className="text-sm font-medium">Items per page</label>
-              <Select value={pageSize.toString()} onValueChange={(v) => setPageSize(Number(v))}>
-                <SelectTrigger>
-                  <SelectValue placeholder="24" />
-                </SelectTrigger>
-                <SelectContent>
-                  {PAGE_SIZE_OPTIONS.map((size) => (
-                    <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+          ) : (
+            <div className={`grid gap-4 ${pageSize > 24 ? 'md:grid-cols-4 lg:grid-cols-6' : 'md:grid-cols-3 lg:grid-cols-4'}`} data-testid="media-grid">
+              {media.length > 0 ? (
+                media.map((file) => (
+                  <Card 
+                    key={file.id} 
+                    className={`relative overflow-hidden cursor-pointer hover:shadow-lg transition-shadow ${
+                      selection[file.id] ? 'ring-2 ring-primary' : ''
+                    }`}
+                    onClick={() => {
+                      setSelectedMedia(file);
+                      setShowMediaModal(true);
+                    }}
+                    draggable
+                    onDragStart={(e) => handleCardDragStart(e, file)}
+                  >
+                    <div className="absolute top-2 left-2 z-10" onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={!!selection[file.id]}
+                        onCheckedChange={(checked) => toggleMedia(file, checked === true)}
+                        aria-label={t('media.select', { name: file.filename })}
+                        className="bg-background"
+                      />
+                    </div>
+                    <div className="relative aspect-video bg-muted flex items-center justify-center">
+                      {(file.thumbnail_url || file.url) && file.media_type === 'image' ? (
+                        <ResponsiveImage
+                          // Card renditions come from the original; other hosts only offer the thumbnail
+                          src={supportsRenditions(resolveMediaUrl(file.url)) ? file.url : file.thumbnail_url || file.url}
+                          alt={file.alt_text || file.filename}
+                          rendition="card"
+                          sizes={pageSize > 24 ? '(min-width: 1024px) 17vw, (min-width: 768px) 25vw, 50vw' : undefined}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : file.media_type === 'video' && file.poster_url ? (
+                        <ResponsiveImage
+                          src={file.poster_url}
+                          alt={file.alt_text || file.filename}
+                          rendition="card"
+                          sizes={pageSize > 24 ? '(min-width: 1024px) 17vw, (min-width: 768px) 25vw, 50vw' : undefined}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <span className="text-4xl">
+                          {file.media_type === 'image' ? '🖼️' : 
+                           file.media_type === 'video' ? '🎥' :
+                           file.media_type === 'audio' ? '🎵' : '📄'}
+                        </span>
+                      )}
+                      {isPlayable(file) && file.duration != null && (
+                        <span className="absolute bottom-2 right-2 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white tabular-nums">
+                          {formatDuration(file.duration)}
+                        </span>
+                      )}
+                    </div>
+                    <CardContent className="p-4">
+                      <p className="text-sm font-medium truncate mb-1">{file.filename}</p>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={getFileTypeColor(file.mime_type)} className="text-xs">
+                          {file.media_type}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {formatFileSize(file.file_size)}
+                        </span>
+                        {file.usage_count === 0 && (
+                          <Badge variant="outline" className="text-xs ml-auto">
+                            {t('media.unused')}
+                          </Badge>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))
+              ) : (
+                <Card className="col-span-full">
+                  <CardContent className="flex flex-col items-center justify-center py-12">
+                    <div className="text-6xl mb-4">🖼️</div>
+                    <h3 className="text-lg font-semibold mb-2">{t('media.empty.title')}</h3>
+                    <p className="text-sm text-muted-foreground text-center mb-4 max-w-md">
+                      {t('media.empty.description')}
+                    </p>
+                    <Button onClick={() => fileInputRef.current?.click()} disabled={!canUpload}>
+                      {t('media.empty.upload')}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
             </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Media Grid - Always render container for test compatibility */}
-      {isLoading ? (
-        <div className="flex h-64 items-center justify-center">
-          <div className="text-lg">Loading media...</div>
-        </div>
-      ) : (
-        <div className={`grid gap-4 ${pageSize > 24 ? 'md:grid-cols-4 lg:grid-cols-6' : 'md:grid-cols-3 lg:grid-cols-4'}`} data-testid="media-grid">
-          {media.length > 0 ? (
-            media.map((file) => (
-              <Card 
-                key={file.id} 
-                className="overflow-hidden cursor-pointer hover:shadow-lg transition-shadow"
-                onClick={() => {
-                  setSelectedMedia(file);
-                  setShowMediaModal(true);
-                }}
-              >
-                <div className="aspect-video bg-muted flex items-center justify-center">
-                  {(file.thumbnail_url || file.url) && file.media_type === 'image' ? (
-                    <img
-                      src={resolveMediaUrl(file.thumbnail_url || file.url)}
-                      alt={file.alt_text || file.filename}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <span className="text-4xl">
-                      {file.media_type === 'image' ? '🖼️' : 
-                       file.media_type === 'video' ? '🎥' :
-                       file.media_type === 'audio' ? '🎵' : '📄'}
-                    </span>
-                  )}
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between border-t pt-4">
+              <p className="text-sm text-muted-foreground">
+                {t('media.pagination.showing', {
+                  from: (currentPage - 1) * pageSize + 1,
+                  to: Math.min(currentPage * pageSize, totalItems),
+                  total: totalItems,
+                })}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                  disabled={currentPage === 1}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  {t('media.pagination.previous')}
+                </Button>
+                <div className="flex items-center gap-1">
+                  {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
+                    let pageNum: number;
+                    if (totalPages <= 5) {
+                      pageNum = i + 1;
+                    } else if (currentPage <= 3) {
+                      pageNum = i + 1;
+                    } else if (currentPage >= totalPages - 2) {
+                      pageNum = totalPages - 4 + i;
+                    } else {
+                      pageNum = currentPage - 2 + i;
+                    }
+                    return (
+                      <Button
+                        key={pageNum}
+                        variant={currentPage === pageNum ? 'default' : 'outline'}
+                        size="sm"
+                        className="w-9"
+                        onClick={() => setCurrentPage(pageNum)}
+                      >
+                        {pageNum}
+                      </Button>
+                    );
+                  })}
                 </div>
-                <CardContent className="p-4">
-                  <p className="text-sm font-medium truncate mb-1">{file.filename}</p>
-                  <div className="flex items-center gap-2">
-                    <Badge variant={getFileTypeColor(file.mime_type)} className="text-xs">
-                      {file.media_type}
-                    </Badge>
-                    <span className="text-xs text-muted-foreground">
-                      {formatFileSize(file.file_size)}
-                    </span>
-                  </div>
-                </CardContent>
-              </Card>
-            ))
-          ) : (
-            <Card className="col-span-full">
-              <CardContent className="flex flex-col items-center justify-center py-12">
-                <div className="text-6xl mb-4">🖼️</div>
-                <h3 className="text-lg font-semibold mb-2">No media files yet</h3>
-                <p className="text-sm text-muted-foreground text-center mb-4 max-w-md">
-                  Upload your first media file by dragging and dropping or using the upload button
-                </p>
-                <Button onClick={() => fileInputRef.current?.click()}>
-                  Upload Your First File
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                  disabled={currentPage === totalPages}
+                >
+                  {t('media.pagination.next')}
+                  <ChevronRight className="h-4 w-4 ml-1" />
                 </Button>
-              </CardContent>
-            </Card>
+              </div>
+            </div>
           )}
         </div>
+      </div>
+
+      <ConfirmDialog
+        open={showBulkDelete}
+        onOpenChange={setShowBulkDelete}
+        title={t('media.delete.title')}
+        description={t('media.delete.description', { count: selectedIds.length })}
+        confirmLabel={t('media.bulk.delete')}
+        variant="destructive"
+        onConfirm={handleBulkDelete}
+        isLoading={isBulkDeleting}
+      />
+
+      {showBulkTag && (
+        <BulkTagDialog
+          mediaIds={selectedIds}
+          suggestions={library.tags.map((tag) => tag.name)}
+          onClose={() => setShowBulkTag(false)}
+          onTagged={() => {
+            loadMedia();
+            library.reload();
+          }}
+        />
       )}
 
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <div className="flex items-center justify-between border-t pt-4">
-          <p className="text-sm text-muted-foreground">
-            Showing {((currentPage - 1) * pageSize) + 1} to {Math.min(currentPage * pageSize, totalItems)} of {totalItems} items
-          </p>
-          <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-              disabled={currentPage === 1}
-            >
-              <ChevronLeft className="h-4 w-4 mr-1" />
-              Previous
-            </Button>
-            <div className="flex items-center gap-1">
-              {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                let pageNum: number;
-                if (totalPages <= 5) {
-                  pageNum = i + 1;
-                } else if (currentPage <= 3) {
-                  pageNum = i + 1;
-                } else if (currentPage >= totalPages - 2) {
-                  pageNum = totalPages - 4 + i;
-                } else {
-                  pageNum = currentPage - 2 + i;
-                }
-                return (
-                  <Button
-                    key={pageNum}
-                    variant={currentPage === pageNum ? 'default' : 'outline'}
-                    size="sm"
-                    className="w-9"
-                    onClick={() => setCurrentPage(pageNum)}
-                  >
-                    {pageNum}
-                  </Button>
-                );
-              })}
-            </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-              disabled={currentPage === totalPages}
-            >
-              Next
-              <ChevronRight className="h-4 w-4 ml-1" />
-            </Button>
-          </div>
-        </div>
+      {editing && (
+        <ImageEditorDialog
+          open
+          src={editing.url}
+          filename={editing.file.name}
+          mimeType={editing.file.type}
+          onClose={closeEditor}
+          onSaveAsNew={handleUploadEdited}
+          saveAsNewLabel={t('media.editor.upload')}
+        />
       )}
 
       {/* Media Details Modal */}
@@ -384,7 +671,11 @@ export default function MediaPage() {
           setSelectedMedia(null);
         }}
         onUpdate={loadMedia}
-        onDelete={loadMedia}
+        onDelete={() => {
+          loadMedia();
+          library.reload();
+        }}
+        canDelete={!selectedMedia || canDeleteMedia(selectedMedia)}
       />
     </div>
   );
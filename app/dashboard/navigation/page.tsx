@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { contentApi, translationApi } from '@/lib/api';
-import { ContentEntry, ContentType, Locale } from '@/types';
+import { ContentEntry, ContentStatus, ContentType, Locale } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -148,7 +148,7 @@ export default function NavigationPage() {
       setIsSaving(true);
       const updated = await contentApi.updateContentEntry(selectedEntry.id, {
         slug: selectedEntry.slug,
-        status: status as 'draft' | 'published' | 'archived',
+        status: status as ContentStatus,
         data: formData
       });
       
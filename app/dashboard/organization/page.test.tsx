@@ -25,6 +25,14 @@ vi.mock('@/lib/api/translation', () => ({
   },
 }));
 
+vi.mock('@/components/content/translation-glossary-manager', () => ({
+  TranslationGlossaryManager: () => <div>Glossary Manager</div>,
+}));
+
+vi.mock('@/components/content/translation-memory-manager', () => ({
+  TranslationMemoryManager: () => <div>Translation Memory Manager</div>,
+}));
+
 vi.mock('@/lib/api/api-keys', () => ({
   apiKeysApi: {
     listAPIKeys: vi.fn(),
@@ -320,6 +328,7 @@ describe('OrganizationSettingsPage', () => {
           email: 'contact@acme.com',
           website: 'https://acme.com',
           logo_url: 'https://acme.com/logo.png',
+          timezone: '',
         });
       });
     });
@@ -809,6 +818,73 @@ describe('OrganizationSettingsPage', () => {
     });
   });
 
+  describe('Languages Tab - Fallback Chains', () => {
+    const canadianFrench: Locale = {
+      ...mockLocales[1],
+      id: '4',
+      code: 'fr-CA',
+      name: 'French (Canada)',
+    };
+
+    it('should show the chain of regional locales', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationApi.getLocales).mockResolvedValue([...mockLocales, canadianFrench]);
+
+      render(<OrganizationSettingsPage />);
+
+      await user.click(await screen.findByRole('tab', { name: 'Languages' }));
+
+      expect(await screen.findByText('Falls back to French → English')).toBeInTheDocument();
+    });
+
+    it('should save reordered fallback languages', async () => {
+      const user = userEvent.setup();
+      vi.mocked(translationApi.getLocales).mockResolvedValue([...mockLocales, canadianFrench]);
+      vi.mocked(translationApi.updateLocale).mockResolvedValue(canadianFrench);
+
+      render(<OrganizationSettingsPage />);
+
+      await user.click(await screen.findByRole('tab', { name: 'Languages' }));
+      const editButtons = await screen.findAllByRole('button', { name: 'Edit' });
+      await user.click(editButtons[3]);
+
+      const dialog = await screen.findByRole('dialog');
+      expect(within(dialog).getByText('1. French')).toBeInTheDocument();
+      expect(within(dialog).getByText('Resolves as: French (Canada) → French → English')).toBeInTheDocument();
+
+      await user.click(within(dialog).getByRole('button', { name: 'Add Spanish fallback' }));
+      await user.click(within(dialog).getByRole('button', { name: 'Move Spanish up' }));
+      expect(
+        within(dialog).getByText('Resolves as: French (Canada) → Spanish → French → English')
+      ).toBeInTheDocument();
+
+      await user.click(within(dialog).getByRole('button', { name: 'Update' }));
+
+      await waitFor(() => {
+        expect(translationApi.updateLocale).toHaveBeenCalledWith(
+          'fr-CA',
+          expect.objectContaining({ fallback_locales: ['es', 'fr'] })
+        );
+      });
+    });
+  });
+
+  describe('Translations Tab', () => {
+    it('should show the glossary and translation memory', async () => {
+      const user = userEvent.setup();
+      render(<OrganizationSettingsPage />);
+
+      await waitFor(() => {
+        expect(screen.getByRole('tab', { name: 'Translations' })).toBeInTheDocument();
+      });
+
+      await user.click(screen.getByRole('tab', { name: 'Translations' }));
+
+      expect(await screen.findByText('Glossary Manager')).toBeInTheDocument();
+      expect(screen.getByText('Translation Memory Manager')).toBeInTheDocument();
+    });
+  });
+
   describe('API Keys Tab', () => {
     it('should switch to API Keys tab', async () => {
       const user = userEvent.setup();
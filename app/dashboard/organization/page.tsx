@@ -1,12 +1,15 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
 import { organizationApi } from '@/lib/api';
 import { apiKeysApi, type APIKey, type APIKeyWithSecret } from '@/lib/api/api-keys';
 import { apiScopesApi } from '@/lib/api/api-scopes';
 import { translationApi, LocaleCreate, LocaleUpdate } from '@/lib/api/translation';
 import type { OrganizationProfile, Locale } from '@/types';
+import { resetOrgTimezone } from '@/hooks/use-org-timezone';
+import { getFallbackChain, getFallbackLocales } from '@/lib/locale-fallback';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -17,7 +20,10 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Copy, Key, Plus, Trash2, AlertTriangle, Pencil, AlertCircle } from 'lucide-react';
+import { TimezoneSelect } from '@/components/timezone-select';
+import { TranslationGlossaryManager } from '@/components/content/translation-glossary-manager';
+import { TranslationMemoryManager } from '@/components/content/translation-memory-manager';
+import { Copy, Key, Plus, Trash2, AlertTriangle, Pencil, AlertCircle, ArrowUp, X } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -63,8 +69,13 @@ export default function OrganizationSettingsPage() {
     email: '',
     website: '',
     logo_url: '',
+    timezone: '',
   });
 
+  const handleTimezoneChange = useCallback((timezone: string) => {
+    setProfileForm((prev) => ({ ...prev, timezone }));
+  }, []);
+
   // Locale dialog state
   const [localeDialogOpen, setLocaleDialogOpen] = useState(false);
   const [editingLocale, setEditingLocale] = useState<Locale | null>(null);
@@ -77,6 +88,7 @@ export default function OrganizationSettingsPage() {
     is_default: false,
     is_enabled: true,
     auto_translate: false,
+    fallback_locales: null,
   });
 
   // API Key dialog state
@@ -122,6 +134,7 @@ export default function OrganizationSettingsPage() {
         email: profileData.email || '',
         website: profileData.website || '',
         logo_url: profileData.logo_url || '',
+        timezone: profileData.timezone || '',
       });
       setLocales(localesData);
       setApiKeys(apiKeysData.items || []);
@@ -140,6 +153,7 @@ export default function OrganizationSettingsPage() {
       setSaving(true);
       const updated = await organizationApi.updateProfile(profileForm);
       setProfile(updated);
+      resetOrgTimezone();
       setMessage({ type: 'success', text: 'Profile updated successfully' });
     } catch (error) {
       console.error('Failed to update profile:', error);
@@ -162,6 +176,7 @@ export default function OrganizationSettingsPage() {
           is_default: localeForm.is_default,
           is_enabled: localeForm.is_enabled,
           auto_translate: localeForm.auto_translate,
+          fallback_locales: localeForm.fallback_locales,
         };
         await translationApi.updateLocale(editingLocale.code, updateData);
         setMessage({ type: 'success', text: 'Locale updated successfully' });
@@ -178,6 +193,7 @@ export default function OrganizationSettingsPage() {
         is_default: false,
         is_enabled: true,
         auto_translate: false,
+        fallback_locales: null,
       });
       await loadData();
     } catch (error: any) {
@@ -244,10 +260,35 @@ export default function OrganizationSettingsPage() {
       is_default: locale.is_default,
       is_enabled: locale.is_enabled,
       auto_translate: locale.auto_translate,
+      fallback_locales: locale.fallback_locales ?? null,
     });
     setLocaleDialogOpen(true);
   };
 
+  const getLocaleName = (code: string) => locales.find((l) => l.code === code)?.name || code;
+  const getFormLocaleName = (code: string) =>
+    code === localeForm.code ? localeForm.name || code : getLocaleName(code);
+
+  // Fallbacks of the locale being edited, as configured or implied by its code
+  const formLocales = [
+    ...locales.filter((l) => l.code !== localeForm.code),
+    { code: localeForm.code, is_default: localeForm.is_default, fallback_locales: localeForm.fallback_locales },
+  ];
+  const fallbackCodes = localeForm.fallback_locales ?? getFallbackLocales(localeForm.code, formLocales);
+  const fallbackChoices = locales.filter(
+    (l) => l.code !== localeForm.code && !l.is_default && !fallbackCodes.includes(l.code)
+  );
+
+  const setFallbackLocales = (codes: string[] | null) => {
+    setLocaleForm({ ...localeForm, fallback_locales: codes });
+  };
+
+  const moveFallbackUp = (index: number) => {
+    const codes = [...fallbackCodes];
+    [codes[index - 1], codes[index]] = [codes[index], codes[index - 1]];
+    setFallbackLocales(codes);
+  };
+
   // API Key handlers
   const handleCreateKey = async () => {
     if (!createKeyForm.name.trim()) {
@@ -476,6 +517,19 @@ export default function OrganizationSettingsPage() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="timezone">Timezone</Label>
+                <TimezoneSelect
+                  id="timezone"
+                  value={profileForm.timezone}
+                  onChange={handleTimezoneChange}
+                  className="w-full md:w-1/2"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Scheduled publish and unpublish times are entered and shown in this timezone
+                </p>
+              </div>
+
               {profile && (
                 <div className="pt-4 border-t space-y-2 text-sm text-muted-foreground">
                   <div className="flex justify-between">
@@ -568,6 +622,85 @@ export default function OrganizationSettingsPage() {
                         />
                         <Label htmlFor="locale-auto">Enable auto-translation</Label>
                       </div>
+                      {!localeForm.is_default && (
+                        <div className="space-y-2">
+                          <Label>Fallback Languages</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Fields without a translation are read from these languages, in order, before the
+                            default language.
+                          </p>
+                          {fallbackCodes.length > 0 && (
+                            <ol className="space-y-1">
+                              {fallbackCodes.map((code, index) => (
+                                <li
+                                  key={code}
+                                  className="flex items-center justify-between rounded-md border px-3 py-1 text-sm"
+                                >
+                                  <span>
+                                    {index + 1}. {getLocaleName(code)}
+                                  </span>
+                                  <div className="flex gap-1">
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-7 w-7"
+                                      disabled={index === 0}
+                                      onClick={() => moveFallbackUp(index)}
+                                      aria-label={`Move ${getLocaleName(code)} up`}
+                                    >
+                                      <ArrowUp className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-7 w-7"
+                                      onClick={() => setFallbackLocales(fallbackCodes.filter((c) => c !== code))}
+                                      aria-label={`Remove ${getLocaleName(code)} fallback`}
+                                    >
+                                      <X className="h-4 w-4" />
+                                    </Button>
+                                  </div>
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                          {fallbackChoices.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                              {fallbackChoices.map((l) => (
+                                <Button
+                                  key={l.code}
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setFallbackLocales([...fallbackCodes, l.code])}
+                                  aria-label={`Add ${l.name} fallback`}
+                                >
+                                  <Plus className="h-3 w-3 mr-1" />
+                                  {l.name}
+                                </Button>
+                              ))}
+                            </div>
+                          )}
+                          {localeForm.code && (
+                            <p className="text-xs text-muted-foreground">
+                              {`Resolves as: ${getFallbackChain(localeForm.code, formLocales).map(getFormLocaleName).join(' → ')}`}
+                            </p>
+                          )}
+                          {localeForm.fallback_locales ? (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="h-auto p-0"
+                              onClick={() => setFallbackLocales(null)}
+                            >
+                              Use automatic fallback
+                            </Button>
+                          ) : (
+                            <p className="text-xs text-muted-foreground">
+                              Regional variants such as fr-CA fall back to their base language automatically.
+                            </p>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <DialogFooter>
                       <Button variant="outline" onClick={() => {
@@ -604,6 +737,11 @@ export default function OrganizationSettingsPage() {
                             {locale.code}
                             {locale.native_name && ` • ${locale.native_name}`}
                           </p>
+                          {!locale.is_default && getFallbackChain(locale.code, locales).length > 2 && (
+                            <p className="text-xs text-muted-foreground">
+                              {`Falls back to ${getFallbackChain(locale.code, locales).slice(1).map(getLocaleName).join(' → ')}`}
+                            </p>
+                          )}
                         </div>
                         <div className="flex gap-2">
                           {locale.is_default && <Badge>Default</Badge>}
@@ -653,9 +791,14 @@ export default function OrganizationSettingsPage() {
         {/* Translations Tab */}
         <TabsContent value="translations" className="space-y-4">
           <Card>
-            <CardHeader>
-              <CardTitle>Translation Statistics</CardTitle>
-              <CardDescription>Overview of your multi-language content</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Translation Statistics</CardTitle>
+                <CardDescription>Overview of your multi-language content</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/dashboard/translations/progress">View Progress</Link>
+              </Button>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -679,6 +822,10 @@ export default function OrganizationSettingsPage() {
             </CardContent>
           </Card>
 
+          <TranslationGlossaryManager locales={locales} />
+
+          <TranslationMemoryManager locales={locales} />
+
           <Card>
             <CardHeader>
               <CardTitle>Translation Guidelines</CardTitle>
@@ -689,7 +836,8 @@ export default function OrganizationSettingsPage() {
                 <li>Enable <strong>Auto-translate</strong> on locales to automatically translate content using machine translation.</li>
                 <li>Set a <strong>Default locale</strong> - this is the fallback language when translations are missing.</li>
                 <li>Disable unused locales instead of deleting them to preserve translations.</li>
-                <li>Manage individual content translations from the <strong>Content</strong> page.</li>
+                <li>Translate individual entries side by side in the <strong>Translation Workspace</strong>, opened from the entry editor.</li>
+                <li>Add brand and product names to the <strong>Glossary</strong> so machine translation keeps them consistent.</li>
               </ul>
             </CardContent>
           </Card>
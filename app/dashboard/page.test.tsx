@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import DashboardPage from './page';
-import { analyticsApi } from '@/lib/api';
+import { analyticsApi, contentApi } from '@/lib/api';
 
 // Mock the auth context
 vi.mock('@/contexts/auth-context', () => ({
@@ -43,6 +43,9 @@ vi.mock('@/lib/api', () => ({
     getActivityStats: vi.fn(),
     getTrends: vi.fn(),
   },
+  contentApi: {
+    getReviewQueue: vi.fn(),
+  },
 }));
 
 describe('DashboardPage', () => {
@@ -140,6 +143,7 @@ describe('DashboardPage', () => {
     vi.mocked(analyticsApi.getMediaStats).mockResolvedValue(mockMediaStats);
     vi.mocked(analyticsApi.getActivityStats).mockResolvedValue(mockActivityStats);
     vi.mocked(analyticsApi.getTrends).mockResolvedValue(mockTrends);
+    vi.mocked(contentApi.getReviewQueue).mockResolvedValue([]);
   });
 
   describe('Initial Rendering', () => {
@@ -237,6 +241,29 @@ describe('DashboardPage', () => {
     });
   });
 
+  describe('Review Queue', () => {
+    it('should show entries awaiting the current user\'s review', async () => {
+      vi.mocked(contentApi.getReviewQueue).mockResolvedValue([
+        {
+          id: 'entry-1',
+          content_type_id: 't1',
+          slug: 'spring-launch',
+          status: 'draft',
+          workflow_stage: 'in_review',
+          data: { title: 'Spring Launch' },
+        },
+      ]);
+      render(<DashboardPage />);
+
+      await waitFor(() => {
+        expect(screen.getByText('My Review Queue')).toBeInTheDocument();
+      });
+
+      expect(await screen.findByText('Spring Launch')).toBeInTheDocument();
+      expect(contentApi.getReviewQueue).toHaveBeenCalledWith({ assigned_to: 'me' });
+    });
+  });
+
   describe('Charts and Visualizations', () => {
     it('should render content creation trend chart', async () => {
       render(<DashboardPage />);
@@ -28,6 +28,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { useAuth } from '@/contexts/auth-context';
 import { LowStockWidget } from '@/components/admin/low-stock-widget';
 import { InventorySyncStatus } from '@/components/admin/inventory-sync-status';
+import { ReviewQueueCard } from '@/components/content/review-queue-card';
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
 
@@ -259,6 +260,9 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      {/* Review Queue */}
+      <ReviewQueueCard />
+
       {/* Charts Row 1: Trends */}
       <div className="grid gap-4 md:grid-cols-2">
         {/* Content Trend */}
@@ -63,6 +63,7 @@ const mockPreferences = {
   primaryColor: '#8b4513',
   compactView: false,
   showDescriptions: true,
+  uiLanguage: 'en',
 };
 
 const mockThemeColors = {
@@ -192,6 +193,18 @@ describe('SettingsPage', () => {
       expect(screen.getByText('Theme & Appearance')).toBeInTheDocument();
     });
 
+    it('should switch the interface language', async () => {
+      const user = userEvent.setup();
+      render(<SettingsPage />);
+
+      expect(screen.getByText('Interface Language')).toBeInTheDocument();
+      expect(screen.getByText('Currently showing 12 items per page')).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'Français' }));
+
+      const { updatePreference } = vi.mocked(usePreferences).mock.results[0].value;
+      expect(updatePreference).toHaveBeenCalledWith('uiLanguage', 'fr');
+    });
+
     it('should load user data into profile form', async () => {
       const user = userEvent.setup();
       render(<SettingsPage />);
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/auth-context';
 import { usePreferences } from '@/contexts/preferences-context';
+import { useI18n } from '@/contexts/i18n-context';
+import { getTextDirection } from '@/lib/i18n';
 import { authApi, deviceApi, sessionApi } from '@/lib/api';
 import type { Device, DeviceListResponse } from '@/lib/api/devices';
 import type { Session, SessionListResponse, LoginActivity, LoginActivityListResponse, SecurityOverview } from '@/lib/api/sessions';
@@ -40,7 +42,8 @@ import {
   EyeOff,
   Sun,
   Moon,
-  Palette
+  Palette,
+  Languages
 } from 'lucide-react';
 
 interface TwoFactorStatus {
@@ -115,6 +118,7 @@ const formatRelativeTime = (dateString: string) => {
 // Display Settings Component
 function DisplaySettings() {
   const { preferences, updatePreference, updatePreferences, generatedTheme } = usePreferences();
+  const { t, language, languages } = useI18n();
   const pageSizeOptions = [6, 8, 12, 16, 20, 24];
   const presetColors = [
     { name: 'Bakalr Brown', color: '#8b4513' },
@@ -310,6 +314,43 @@ function DisplaySettings() {
       </div>
 
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {/* Interface Language Card */}
+        <Card className="relative overflow-hidden">
+          <div className="absolute top-0 left-0 w-1 h-full bg-primary" />
+          <CardHeader className="pb-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <Languages className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-lg">{t('settings.language.title')}</CardTitle>
+                <CardDescription>{t('settings.language.description')}</CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-2">
+              {languages.map((option) => (
+                <Button
+                  key={option.code}
+                  variant={language === option.code ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => updatePreference('uiLanguage', option.code)}
+                  className="w-full"
+                  lang={option.code}
+                  dir={getTextDirection(option.code)}
+                  title={getTextDirection(option.code) === 'rtl' ? t('settings.language.rtl') : undefined}
+                >
+                  {option.name}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3">
+              {t('settings.language.hint')}
+            </p>
+          </CardContent>
+        </Card>
+
         {/* Pagination Card */}
         <Card className="relative overflow-hidden">
           <div className="absolute top-0 left-0 w-1 h-full bg-primary" />
@@ -339,7 +380,7 @@ function DisplaySettings() {
               ))}
             </div>
             <p className="text-xs text-muted-foreground mt-3">
-              Currently showing {preferences.pageSize} items per page
+              {t('settings.page_size.current', { count: preferences.pageSize })}
             </p>
           </CardContent>
         </Card>
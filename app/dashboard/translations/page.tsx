@@ -4,10 +4,12 @@ import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { useI18n } from '@/contexts/i18n-context';
 import { ArrowRight } from 'lucide-react';
 
 export default function TranslationsRedirectPage() {
   const router = useRouter();
+  const { t } = useI18n();
 
   useEffect(() => {
     // Auto-redirect after 3 seconds
@@ -26,17 +28,13 @@ export default function TranslationsRedirectPage() {
     <div className="container mx-auto py-16 flex items-center justify-center min-h-[60vh]">
       <Card className="max-w-md">
         <CardHeader>
-          <CardTitle>Page Moved</CardTitle>
-          <CardDescription>
-            Translations management has been consolidated into Organization Settings
-          </CardDescription>
+          <CardTitle>{t('translations.moved.title')}</CardTitle>
+          <CardDescription>{t('translations.moved.description')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <p className="text-sm text-muted-foreground">
-            You'll be automatically redirected to the new location in a few seconds, or click the button below.
-          </p>
+          <p className="text-sm text-muted-foreground">{t('translations.moved.redirect')}</p>
           <Button onClick={handleRedirect} className="w-full">
-            Go to Organization Settings
+            {t('translations.moved.go')}
             <ArrowRight className="w-4 h-4 ml-2" />
           </Button>
         </CardContent>
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import TranslationProgressPage from './page';
+import { contentApi, translationApi } from '@/lib/api';
+import { hashSourceValue } from '@/lib/translation-status';
+import type { ContentEntry, ContentType, Locale, Translation } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentEntries: vi.fn(),
+    getContentTypes: vi.fn(),
+  },
+  translationApi: {
+    getLocales: vi.fn(),
+    getContentTranslations: vi.fn(),
+  },
+}));
+
+describe('TranslationProgressPage', () => {
+  const contentTypes = [
+    {
+      id: 'type-1',
+      name: 'Article',
+      slug: 'article',
+      fields: [
+        { name: 'title', type: 'text', localized: true },
+        { name: 'body', type: 'richtext', localized: true },
+      ],
+    },
+    { id: 'type-2', name: 'Product', slug: 'product', fields: [{ name: 'sku', type: 'text' }] },
+  ] as ContentType[];
+
+  const entries: ContentEntry[] = [
+    { id: 'entry-1', content_type_id: 'type-1', slug: 'a', status: 'published', data: { title: 'A', body: 'Body A' } },
+    { id: 'entry-2', content_type_id: 'type-1', slug: 'b', status: 'draft', data: { title: 'B', body: 'Body B' } },
+  ];
+
+  const locales = [
+    { id: 'locale-en', code: 'en', name: 'English', is_default: true, is_enabled: true },
+    { id: 'locale-de', code: 'de', name: 'German', is_default: false, is_enabled: true },
+    { id: 'locale-fr', code: 'fr', name: 'French', is_default: false, is_enabled: true },
+  ] as Locale[];
+
+  const translation = (overrides: Partial<Translation>): Translation => ({
+    id: 't',
+    content_entry_id: 'entry-1',
+    locale_id: 'locale-de',
+    translated_data: {},
+    status: 'completed',
+    is_manual: true,
+    version: 1,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(translationApi.getLocales).mockResolvedValue(locales);
+    vi.mocked(contentApi.getContentTypes).mockResolvedValue(contentTypes);
+    vi.mocked(contentApi.getContentEntries).mockResolvedValue({ items: entries, total: 2 });
+    vi.mocked(translationApi.getContentTranslations).mockImplementation(async (id) =>
+      id === 'entry-1'
+        ? [
+            translation({
+              translated_data: { title: 'A-de', body: 'Body A-de' },
+              field_status: { body: { source_hash: hashSourceValue('Old body'), machine: false, reviewed: true } },
+            }),
+            translation({ locale_id: 'locale-fr', translated_data: { title: 'A-fr' }, is_manual: false }),
+          ]
+        : []
+    );
+  });
+
+  it('should show completeness per content type and locale', async () => {
+    render(<TranslationProgressPage />);
+
+    const row = (await screen.findByText('Article')).closest('tr') as HTMLElement;
+    const cells = within(row).getAllByRole('cell');
+
+    // German: title translated, body outdated, entry-2 missing both
+    expect(within(cells[2]).getByText('25%')).toBeInTheDocument();
+    expect(within(cells[2]).getByText('Outdated: 1')).toBeInTheDocument();
+    // French: one machine translated title out of four fields
+    expect(within(cells[3]).getByText('25%')).toBeInTheDocument();
+    expect(within(cells[3]).getByText('Machine translated: 1')).toBeInTheDocument();
+    expect(screen.queryByText('Product')).not.toBeInTheDocument();
+  });
+
+  it('should count entries whose translations fail to load as missing', async () => {
+    vi.mocked(translationApi.getContentTranslations).mockRejectedValue(new Error('Network error'));
+
+    render(<TranslationProgressPage />);
+
+    const row = (await screen.findByText('Article')).closest('tr') as HTMLElement;
+    expect(within(row).getAllByText('0%')).toHaveLength(2);
+  });
+
+  it('should ask for a second locale when only the default is enabled', async () => {
+    vi.mocked(translationApi.getLocales).mockResolvedValue([locales[0]]);
+
+    render(<TranslationProgressPage />);
+
+    expect(await screen.findByText(/Enable a locale besides the default one/)).toBeInTheDocument();
+  });
+});
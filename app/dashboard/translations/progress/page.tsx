@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { contentApi, translationApi } from '@/lib/api';
+import { ContentEntry, ContentType, Locale, Translation } from '@/types';
+import {
+  TranslationFieldStatus,
+  TranslationStatusCounts,
+  countStatuses,
+  getCompletion,
+  getFieldStatus,
+  getLocalizedFields,
+  getTranslationLocaleCode,
+} from '@/lib/translation-status';
+import { TranslationStatusBadge } from '@/components/content/translation-status-badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useI18n } from '@/contexts/i18n-context';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Entries checked per report; the most recently updated come first
+const ENTRY_LIMIT = 100;
+
+interface EntryTranslations {
+  entry: ContentEntry;
+  translations: Translation[];
+}
+
+export default function TranslationProgressPage() {
+  const { t } = useI18n();
+  const [locales, setLocales] = useState<Locale[]>([]);
+  const [contentTypes, setContentTypes] = useState<ContentType[]>([]);
+  const [entries, setEntries] = useState<EntryTranslations[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      translationApi.getLocales(),
+      contentApi.getContentTypes(),
+      contentApi.getContentEntries({ per_page: ENTRY_LIMIT, sort: 'updated_at', order: 'desc' }),
+    ])
+      .then(async ([localeData, types, entryPage]) => {
+        // An entry whose translations fail to load counts as untranslated
+        const results = await Promise.allSettled(
+          entryPage.items.map((entry) => translationApi.getContentTranslations(entry.id))
+        );
+        if (cancelled) return;
+        setLocales(localeData);
+        setContentTypes(types);
+        setEntries(
+          entryPage.items.map((entry, index) => {
+            const result = results[index];
+            return { entry, translations: result.status === 'fulfilled' ? result.value : [] };
+          })
+        );
+      })
+      .catch((error) => console.error('Failed to load translation progress:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const targetLocales = locales.filter((locale) => !locale.is_default && locale.is_enabled);
+  const types = contentTypes.filter((type) => getLocalizedFields(type.fields || []).length > 0);
+
+  const getCounts = (locale: Locale, type?: ContentType): TranslationStatusCounts => {
+    const statuses: TranslationFieldStatus[] = [];
+    entries.forEach(({ entry, translations }) => {
+      if (type && entry.content_type_id !== type.id) return;
+      const entryType = type || contentTypes.find((ct) => ct.id === entry.content_type_id);
+      const source = entry.data || entry.content_data || {};
+      const translation = translations.find((tr) => getTranslationLocaleCode(tr, locales) === locale.code);
+      getLocalizedFields(entryType?.fields || []).forEach((field) => {
+        statuses.push(getFieldStatus(field.name, source, translation));
+      });
+    });
+    return countStatuses(statuses);
+  };
+
+  const renderCell = (counts: TranslationStatusCounts) => {
+    const completion = getCompletion(counts);
+    return (
+      <div className="space-y-1 min-w-32">
+        <div className="flex items-center gap-2">
+          <div className="h-2 flex-1 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${completion}%` }}
+              role="progressbar"
+              aria-valuenow={completion}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            />
+          </div>
+          <span className="text-sm font-medium w-10 text-right">{completion}%</span>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {counts.outdated > 0 && <TranslationStatusBadge status="outdated" count={counts.outdated} />}
+          {counts.machine > 0 && <TranslationStatusBadge status="machine" count={counts.machine} />}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('translations.progress.title')}</h1>
+          <p className="text-muted-foreground">{t('translations.progress.description')}</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/organization?tab=translations">{t('translations.progress.manage_locales')}</Link>
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 text-muted-foreground">{t('translations.progress.loading')}</div>
+      ) : targetLocales.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            {t('translations.progress.no_locales')}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            {targetLocales.map((locale) => (
+              <Card key={locale.id}>
+                <CardHeader className="pb-2">
+                  <CardDescription>{locale.name}</CardDescription>
+                  <CardTitle className="text-3xl">{getCompletion(getCounts(locale))}%</CardTitle>
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t('translations.progress.by_type')}</CardTitle>
+              <CardDescription>
+                {t('translations.progress.by_type_description', { count: entries.length })}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {types.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('translations.progress.no_types')}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('translations.progress.content_type')}</TableHead>
+                      <TableHead>{t('translations.progress.entries')}</TableHead>
+                      {targetLocales.map((locale) => (
+                        <TableHead key={locale.id}>{locale.name}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {types.map((type) => (
+                      <TableRow key={type.id}>
+                        <TableCell className="font-medium">{type.name}</TableCell>
+                        <TableCell>
+                          {entries.filter(({ entry }) => entry.content_type_id === type.id).length}
+                        </TableCell>
+                        {targetLocales.map((locale) => (
+                          <TableCell key={locale.id}>{renderCell(getCounts(locale, type))}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,7 @@ vi.mock('@/contexts/auth-context', () => ({
   AuthProvider: ({ children }: { children: React.ReactNode }) => (
     <div data-testid="auth-provider">{children}</div>
   ),
+  useAuth: () => ({ isAuthenticated: false }),
 }));
 
 describe('RootLayout', () => {
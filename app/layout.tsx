@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import { Toaster } from "sonner";
 import { AuthProvider } from "@/contexts/auth-context";
 import { PreferencesProvider } from "@/contexts/preferences-context";
+import { I18nProvider } from "@/contexts/i18n-context";
 import { getRuntimeConfigScript } from "@/lib/runtime-config";
 import "./globals.css";
 
@@ -45,8 +46,10 @@ export default function RootLayout({
       >
         <AuthProvider>
           <PreferencesProvider>
-            {children}
-            <Toaster richColors position="top-right" />
+            <I18nProvider>
+              {children}
+              <Toaster richColors position="top-right" />
+            </I18nProvider>
           </PreferencesProvider>
         </AuthProvider>
       </body>
@@ -1,18 +1,67 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
-import { contentApi } from '@/lib/api';
-import { ContentEntry, ContentType } from '@/types';
+import { useParams, useSearchParams } from 'next/navigation';
+import { contentApi, mediaApi, translationApi } from '@/lib/api';
+import { resolveMediaUrl } from '@/lib/api/client';
+import { ContentBlockSchema, ContentEntry, ContentType, Locale, Media, Translation } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { ReferenceChips } from '@/components/content/reference-chips';
+import { BlockPreview } from '@/components/content/block-preview';
+import { ResponsiveImage } from '@/components/media/ResponsiveImage';
+import { getBlocks } from '@/lib/blocks';
+import { getFallbackChain, resolveFields } from '@/lib/locale-fallback';
+import { getTranslationLocaleCode } from '@/lib/translation-status';
+import { fetchAllPages } from '@/lib/pagination';
+
+// Same check as the gallery editor: only items that look like images get a preview
+const IMAGE_URL = /\.(jpg|jpeg|png|gif|webp|avif|svg)$/i;
+
+const isGallery = (value: unknown[]): value is { url: string; alt?: string }[] =>
+  value.every((item) => !!item && typeof item === 'object' && typeof (item as { url?: unknown }).url === 'string');
+
+const getMediaUrls = (media: Media) =>
+  [media.url, media.cdn_url, media.public_url].filter(Boolean).map((url) => resolveMediaUrl(url));
+
+/**
+ * Image fields store only the URL, so their alt text comes from the library
+ * items behind them. Pages load until every URL is found; URLs that match no
+ * item are left out.
+ */
+async function loadAltText(urls: string[]): Promise<Record<string, string>> {
+  const wanted = new Set(urls.map((url) => resolveMediaUrl(url)));
+  const found = new Set<string>();
+  const media = await fetchAllPages(
+    (page, page_size) => mediaApi.getMedia({ file_type: 'image', page, page_size }),
+    {
+      until: (items) => {
+        items.forEach((item) => getMediaUrls(item).forEach((url) => wanted.has(url) && found.add(url)));
+        return found.size === wanted.size;
+      },
+    }
+  );
+  const altText: Record<string, string> = {};
+  media.forEach((item) =>
+    getMediaUrls(item).forEach((url) => {
+      if (wanted.has(url) && item.alt_text) altText[url] = item.alt_text;
+    })
+  );
+  return altText;
+}
 
 export default function ContentPreviewPage() {
   const params = useParams();
   const id = typeof params?.id === 'string' ? params.id : null;
+  // ?locale= previews a translation, filling gaps through the locale's fallback chain
+  const searchParams = useSearchParams();
+  const localeCode = searchParams?.get('locale') || null;
 
   const [entry, setEntry] = useState<ContentEntry | null>(null);
   const [contentType, setContentType] = useState<ContentType | null>(null);
+  const [locales, setLocales] = useState<Locale[]>([]);
+  const [translations, setTranslations] = useState<Translation[]>([]);
+  const [altText, setAltText] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -20,18 +69,38 @@ export default function ContentPreviewPage() {
     if (id) {
       loadEntry();
     }
-  }, [id]);
+  }, [id, localeCode]);
 
   const loadEntry = async () => {
     if (!id) return;
     try {
       setIsLoading(true);
-      const data = await contentApi.getContentEntry(id);
+      const [data, localeList, translationList] = await Promise.all([
+        contentApi.getContentEntry(id),
+        localeCode ? translationApi.getLocales() : Promise.resolve([]),
+        localeCode ? translationApi.getContentTranslations(id) : Promise.resolve([]),
+      ]);
       setEntry(data);
+      setLocales(localeList);
+      setTranslations(translationList);
       
       if (data.content_type_id) {
         const type = await contentApi.getContentType(data.content_type_id);
         setContentType(type);
+
+        const sources = [data.data || data.content_data || {}, ...translationList.map((t) => t.translated_data)];
+        const imageUrls = (type.fields || [])
+          .filter((field) => field.type === 'image')
+          .flatMap((field) => sources.map((source) => source?.[field.name]))
+          .filter((value): value is string => typeof value === 'string' && value !== '');
+        if (imageUrls.length > 0) {
+          setAltText(
+            await loadAltText(imageUrls).catch((err) => {
+              console.error('Failed to load image alt text:', err);
+              return {};
+            })
+          );
+        }
       }
     } catch (err: any) {
       setError('Failed to load content');
@@ -55,6 +124,69 @@ export default function ContentPreviewPage() {
       return <span className="text-muted-foreground italic">Not set</span>;
     }
 
+    if (field?.type === 'reference') {
+      return <ReferenceChips value={value} />;
+    }
+
+    if (field?.type === 'components') {
+      const blocks = getBlocks(value);
+      if (blocks.length === 0) {
+        return <span className="text-muted-foreground italic">Empty</span>;
+      }
+      return (
+        <div className="space-y-6">
+          {blocks.map((block) => (
+            <BlockPreview
+              key={block.id}
+              block={block}
+              schema={field.blocks?.find((schema: ContentBlockSchema) => schema.key === block.block)}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    if (field?.type === 'image' && typeof value === 'string' && value) {
+      return (
+        <ResponsiveImage
+          src={value}
+          alt={altText[resolveMediaUrl(value)] ?? ''}
+          rendition="hero"
+          sizes="(min-width: 896px) 832px, 100vw"
+          className="max-h-96 rounded-md object-cover"
+        />
+      );
+    }
+
+    if (Array.isArray(value) && value.length > 0 && isGallery(value)) {
+      return (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {value.map((item, index) =>
+            IMAGE_URL.test(item.url) ? (
+              <ResponsiveImage
+                key={index}
+                src={item.url}
+                alt={item.alt || `Image ${index + 1}`}
+                rendition="card"
+                sizes="(min-width: 896px) 272px, (min-width: 640px) 33vw, 50vw"
+                className="aspect-square w-full rounded-md object-cover"
+              />
+            ) : (
+              <a
+                key={index}
+                href={resolveMediaUrl(item.url)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-blue-600 hover:underline break-all"
+              >
+                {item.alt || item.url}
+              </a>
+            )
+          )}
+        </div>
+      );
+    }
+
     if (typeof value === 'boolean') {
       return (
         <Badge variant={value ? 'default' : 'secondary'}>
@@ -111,7 +243,22 @@ export default function ContentPreviewPage() {
     );
   }
 
-  const contentData = entry.data || entry.content_data || {};
+  const defaultData = entry.data || entry.content_data || {};
+  const defaultLocaleCode = locales.find((l) => l.is_default)?.code ?? '';
+  const getLocaleName = (code: string) => locales.find((l) => l.code === code)?.name || 'Default content';
+
+  // Each field from the first locale in the chain that has a value
+  const dataByLocale: Record<string, Record<string, unknown>> = {};
+  translations.forEach((translation) => {
+    const code = getTranslationLocaleCode(translation, locales);
+    if (code) dataByLocale[code] = translation.translated_data;
+  });
+  dataByLocale[defaultLocaleCode] = defaultData;
+  const chain = localeCode ? getFallbackChain(localeCode, locales) : [];
+  const resolved = localeCode
+    ? resolveFields(defaultLocaleCode ? chain : [...chain, ''], dataByLocale)
+    : { data: defaultData, origins: {} as Record<string, string> };
+  const contentData = { ...defaultData, ...(resolved.data as typeof defaultData) };
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -119,7 +266,11 @@ export default function ContentPreviewPage() {
         {/* Preview Banner */}
         <div className="bg-yellow-100 border border-yellow-300 text-yellow-800 px-4 py-2 rounded-md mb-6 flex items-center justify-between">
           <span className="font-medium">📖 Preview Mode</span>
-          <span className="text-sm">This is a preview of your content</span>
+          <span className="text-sm">
+            {localeCode
+              ? `Previewing ${getLocaleName(localeCode)} (${chain.map(getLocaleName).join(' → ')})`
+              : 'This is a preview of your content'}
+          </span>
         </div>
 
         {/* Header */}
@@ -168,9 +319,14 @@ export default function ContentPreviewPage() {
                 <div key={key} className="border-b pb-4 last:border-0 last:pb-0">
                   <label className="text-sm font-medium text-muted-foreground block mb-2">
                     {key.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase())}
+                    {localeCode && resolved.origins[key] !== undefined && resolved.origins[key] !== localeCode && (
+                      <Badge variant="outline" className="ml-2 font-normal">
+                        From {getLocaleName(resolved.origins[key])}
+                      </Badge>
+                    )}
                   </label>
                   <div className="mt-1">
-                    {renderFieldValue(key, value)}
+                    {renderFieldValue(key, value, contentType?.fields?.find((f) => f.name === key))}
                   </div>
                 </div>
               ))}
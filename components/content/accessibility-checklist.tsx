@@ -0,0 +1,46 @@
+'use client';
+
+import { A11Y_RULES, A11yIssue, A11yRule } from '@/lib/accessibility';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+
+interface AccessibilityChecklistProps {
+  issues: A11yIssue[];
+  loading?: boolean;
+}
+
+/**
+ * One line per accessibility rule, passed or with the issues found.
+ */
+export function AccessibilityChecklist({ issues, loading }: AccessibilityChecklistProps) {
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Checking accessibility...</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {(Object.keys(A11Y_RULES) as A11yRule[]).map((rule) => {
+        const found = issues.filter((issue) => issue.rule === rule);
+        return (
+          <li key={rule} className="text-sm">
+            <div className="flex items-center gap-2">
+              {found.length === 0 ? (
+                <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" aria-label="Passed" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0" aria-label="Needs attention" />
+              )}
+              <span className="font-medium">{A11Y_RULES[rule]}</span>
+              {found.length > 0 && <span className="text-muted-foreground">({found.length})</span>}
+            </div>
+            {found.length > 0 && (
+              <ul className="mt-1 ml-6 space-y-1 text-xs text-muted-foreground list-disc">
+                {found.map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
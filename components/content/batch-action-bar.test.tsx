@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BatchActionBar } from './batch-action-bar';
+import { templateApi } from '@/lib/api';
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+vi.mock('@/lib/api', () => ({
+  templateApi: { listTemplates: vi.fn() },
+  userApi: { listUsers: vi.fn() },
+}));
+
+describe('BatchActionBar', () => {
+  const onAction = vi.fn();
+  const onClear = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(templateApi.listTemplates).mockResolvedValue({ templates: [], total: 0, page: 1, page_size: 100 });
+  });
+
+  const renderBar = (contentTypeIds = ['type-1']) =>
+    render(
+      <BatchActionBar
+        count={3}
+        contentTypeIds={contentTypeIds}
+        contentTypes={[]}
+        onAction={onAction}
+        onClear={onClear}
+      />
+    );
+
+  it('should run status actions directly', async () => {
+    const user = userEvent.setup();
+    renderBar();
+
+    expect(screen.getByText('3 selected')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Archive' }));
+    await user.click(screen.getByRole('button', { name: 'Clear Selection' }));
+
+    expect(onAction).toHaveBeenCalledWith('archive');
+    expect(onClear).toHaveBeenCalled();
+  });
+
+  it('should confirm deletes', async () => {
+    const user = userEvent.setup();
+    renderBar();
+
+    await user.click(screen.getByRole('button', { name: 'Delete' }));
+    expect(screen.getByText(/You can undo until then/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Delete 3 entries' }));
+
+    expect(onAction).toHaveBeenCalledWith('delete');
+  });
+
+  it('should load templates for the selected content types', async () => {
+    const user = userEvent.setup();
+    renderBar(['type-1', 'type-2']);
+
+    await user.click(screen.getByRole('button', { name: 'Apply Template' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('No templates for these content types.')).toBeInTheDocument();
+    });
+    expect(templateApi.listTemplates).toHaveBeenCalledWith({ content_type_id: 'type-1', page_size: 100 });
+    expect(templateApi.listTemplates).toHaveBeenCalledWith({ content_type_id: 'type-2', page_size: 100 });
+    expect(screen.getByRole('button', { name: 'Apply' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { templateApi, userApi } from '@/lib/api';
+import type { ContentTemplate } from '@/lib/api/templates';
+import { BatchAction, UNDO_WINDOW_MS } from '@/lib/batch-actions';
+import type { BatchActionOptions } from '@/hooks/use-batch-actions';
+import { ContentType, UserListItem } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Archive, EyeOff, LayoutTemplate, Send, Trash2, UserCog, X } from 'lucide-react';
+
+interface BatchActionBarProps {
+  /** Number of entries the actions apply to */
+  count: number;
+  /** Content types of the selected entries; empty when unknown */
+  contentTypeIds: string[];
+  contentTypes: ContentType[];
+  disabled?: boolean;
+  onAction: (action: BatchAction, options?: BatchActionOptions) => void;
+  onClear: () => void;
+}
+
+const getUserName = (user: UserListItem) =>
+  [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email;
+
+export function BatchActionBar({
+  count,
+  contentTypeIds,
+  contentTypes,
+  disabled = false,
+  onAction,
+  onClear,
+}: BatchActionBarProps) {
+  const [dialog, setDialog] = useState<'delete' | 'author' | 'template' | null>(null);
+  const [users, setUsers] = useState<UserListItem[]>([]);
+  const [templates, setTemplates] = useState<ContentTemplate[]>([]);
+  const [choice, setChoice] = useState('');
+  const [isLoadingOptions, setIsLoadingOptions] = useState(false);
+
+  const label = `${count} entr${count !== 1 ? 'ies' : 'y'}`;
+
+  const openAuthorDialog = async () => {
+    setChoice('');
+    setDialog('author');
+    setIsLoadingOptions(true);
+    try {
+      const response = await userApi.listUsers();
+      setUsers(response.users.filter((user) => user.is_active));
+    } catch (err) {
+      console.error('Failed to load users:', err);
+      toast.error('Failed to load users');
+    } finally {
+      setIsLoadingOptions(false);
+    }
+  };
+
+  const openTemplateDialog = async () => {
+    setChoice('');
+    setDialog('template');
+    setIsLoadingOptions(true);
+    try {
+      const responses = await Promise.all(
+        contentTypeIds.length > 0
+          ? contentTypeIds.map((id) => templateApi.listTemplates({ content_type_id: id, page_size: 100 }))
+          : [templateApi.listTemplates({ page_size: 100 })]
+      );
+      setTemplates(responses.flatMap((response) => response.templates));
+    } catch (err) {
+      console.error('Failed to load templates:', err);
+      toast.error('Failed to load templates');
+    } finally {
+      setIsLoadingOptions(false);
+    }
+  };
+
+  const confirm = () => {
+    if (dialog === 'delete') {
+      onAction('delete');
+    } else if (dialog === 'author') {
+      onAction('change_author', { authorId: choice });
+    } else if (dialog === 'template') {
+      onAction('apply_template', { template: templates.find((template) => template.id === choice) });
+    }
+    setDialog(null);
+  };
+
+  const getTypeName = (id: string) => contentTypes.find((type) => type.id === id)?.name || 'Unknown Type';
+
+  return (
+    <>
+      <div
+        className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-4 py-2"
+        role="toolbar"
+        aria-label="Batch actions"
+      >
+        <span className="text-sm font-medium mr-2">{count} selected</span>
+        <Button size="sm" variant="outline" disabled={disabled} onClick={() => onAction('publish')}>
+          <Send className="h-4 w-4 mr-2" />
+          Publish
+        </Button>
+        <Button size="sm" variant="outline" disabled={disabled} onClick={() => onAction('unpublish')}>
+          <EyeOff className="h-4 w-4 mr-2" />
+          Unpublish
+        </Button>
+        <Button size="sm" variant="outline" disabled={disabled} onClick={() => onAction('archive')}>
+          <Archive className="h-4 w-4 mr-2" />
+          Archive
+        </Button>
+        <Button size="sm" variant="outline" disabled={disabled} onClick={openAuthorDialog}>
+          <UserCog className="h-4 w-4 mr-2" />
+          Change Author
+        </Button>
+        <Button size="sm" variant="outline" disabled={disabled} onClick={openTemplateDialog}>
+          <LayoutTemplate className="h-4 w-4 mr-2" />
+          Apply Template
+        </Button>
+        <Button size="sm" variant="destructive" disabled={disabled} onClick={() => setDialog('delete')}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Delete
+        </Button>
+        <Button size="sm" variant="ghost" className="ml-auto" onClick={onClear}>
+          <X className="h-4 w-4 mr-2" />
+          Clear Selection
+        </Button>
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          {dialog === 'delete' && (
+            <DialogHeader>
+              <DialogTitle>Delete {label}</DialogTitle>
+              <DialogDescription>
+                The entries are removed after {UNDO_WINDOW_MS / 1000} seconds. You can undo until then.
+              </DialogDescription>
+            </DialogHeader>
+          )}
+          {dialog === 'author' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Change Author</DialogTitle>
+                <DialogDescription>Assign a new author to {label}.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label>Author</Label>
+                <Select value={choice} onValueChange={setChoice} disabled={isLoadingOptions}>
+                  <SelectTrigger aria-label="Author">
+                    <SelectValue placeholder={isLoadingOptions ? 'Loading users...' : 'Select a user'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {getUserName(user)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          {dialog === 'template' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Apply Template</DialogTitle>
+                <DialogDescription>
+                  Overwrite the fields of {label} with the template&apos;s default values. Entries of
+                  other content types are skipped.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select value={choice} onValueChange={setChoice} disabled={isLoadingOptions}>
+                  <SelectTrigger aria-label="Template">
+                    <SelectValue placeholder={isLoadingOptions ? 'Loading templates...' : 'Select a template'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name} ({getTypeName(template.content_type_id)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!isLoadingOptions && templates.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No templates for these content types.</p>
+                )}
+              </div>
+            </>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={dialog === 'delete' ? 'destructive' : 'default'}
+              onClick={confirm}
+              disabled={dialog !== 'delete' && !choice}
+            >
+              {dialog === 'delete' ? `Delete ${label}` : 'Apply'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { BATCH_ACTION_LABELS, UNDO_WINDOW_MS } from '@/lib/batch-actions';
+import type { BatchState } from '@/hooks/use-batch-actions';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle2, Loader2, Undo2, X } from 'lucide-react';
+
+interface BatchProgressPanelProps {
+  state: BatchState;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const entries = (count: number) => `${count} entr${count !== 1 ? 'ies' : 'y'}`;
+
+export function BatchProgressPanel({ state, onUndo, onDismiss }: BatchProgressPanelProps) {
+  if (state.phase === 'idle' || !state.action) return null;
+
+  const { label, past } = BATCH_ACTION_LABELS[state.action];
+  const isBusy = state.phase === 'running' || state.phase === 'undoing';
+  const percent = state.total > 0 ? Math.round((state.done / state.total) * 100) : 0;
+
+  let message: string;
+  if (state.phase === 'scheduled') {
+    message = `${entries(state.total)} will be deleted in ${UNDO_WINDOW_MS / 1000} seconds`;
+  } else if (state.phase === 'running') {
+    message = `${label}: ${state.done} of ${state.total}`;
+  } else if (state.phase === 'undoing') {
+    message = `Undoing: ${state.done} of ${state.total}`;
+  } else if (state.phase === 'undone') {
+    message = state.succeeded > 0 ? `Restored ${entries(state.succeeded)}` : `${label} cancelled`;
+  } else {
+    message = `${past} ${entries(state.succeeded)}`;
+    if (state.failures.length > 0) message += `, ${state.failures.length} failed`;
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border p-4" role="status" data-testid="batch-progress">
+      <div className="flex items-center gap-2 text-sm">
+        {isBusy ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
+        )}
+        <span className="flex-1">{message}</span>
+        {state.undoUntil !== null && (
+          <Button size="sm" variant="outline" onClick={onUndo}>
+            <Undo2 className="h-4 w-4 mr-2" />
+            Undo
+          </Button>
+        )}
+        {!isBusy && (
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={onDismiss} aria-label="Dismiss">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {isBusy && (
+        <div className="h-2 rounded-full bg-muted overflow-hidden">
+          <div
+            className="h-full bg-primary transition-all"
+            style={{ width: `${percent}%` }}
+            role="progressbar"
+            aria-valuenow={percent}
+            aria-valuemin={0}
+            aria-valuemax={100}
+          />
+        </div>
+      )}
+      {state.failures.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="space-y-1">
+              {state.failures.map((failure) => (
+                <li key={failure.entry_id}>
+                  {failure.title}: {failure.error}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
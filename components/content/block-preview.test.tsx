@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { BlockPreview } from './block-preview';
+
+vi.mock('@/lib/api/client', () => ({
+  resolveMediaUrl: vi.fn((url) => url),
+}));
+
+describe('BlockPreview', () => {
+  it('should render a hero with its call to action', () => {
+    render(
+      <BlockPreview
+        block={{ id: '1', block: 'hero', data: { heading: 'Big News', cta_label: 'Learn more', cta_url: '/news' } }}
+      />
+    );
+
+    expect(screen.getByRole('heading', { name: 'Big News' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Learn more' })).toHaveAttribute('href', '/news');
+  });
+
+  it('should render feature grid items', () => {
+    render(
+      <BlockPreview
+        block={{ id: '1', block: 'feature_grid', data: { features: 'Fast: Loads quickly\nSecure: Encrypted' } }}
+      />
+    );
+
+    expect(screen.getByRole('heading', { name: 'Fast' })).toBeInTheDocument();
+    expect(screen.getByText('Encrypted')).toBeInTheDocument();
+  });
+
+  it('should render a testimonial quote', () => {
+    render(<BlockPreview block={{ id: '1', block: 'testimonial', data: { quote: 'Great tool', author: 'Sam' } }} />);
+
+    expect(screen.getByText(/Great tool/)).toBeInTheDocument();
+    expect(screen.getByText('Sam')).toBeInTheDocument();
+  });
+
+  it('should list fields of custom blocks', () => {
+    render(
+      <BlockPreview
+        block={{ id: '1', block: 'pricing', data: { plan: 'Pro' } }}
+        schema={{ key: 'pricing', name: 'Pricing', fields: [{ name: 'plan', type: 'text', label: 'Plan' }] }}
+      />
+    );
+
+    expect(screen.getByText('Pricing')).toBeInTheDocument();
+    expect(screen.getByText('Pro')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,113 @@
+'use client';
+
+import { parseFeatureLines } from '@/lib/blocks';
+import { getRenditionUrl } from '@/lib/media-renditions';
+import { ContentBlock, ContentBlockSchema } from '@/types';
+import { ResponsiveImage } from '@/components/media/ResponsiveImage';
+
+interface BlockPreviewProps {
+  block: ContentBlock;
+  schema?: ContentBlockSchema;
+}
+
+const text = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value) : '');
+
+/**
+ * Renders one block of a "components" field with a layout for its type.
+ * Preset blocks get a dedicated layout; custom blocks list their fields.
+ */
+export function BlockPreview({ block, schema }: BlockPreviewProps) {
+  const data = block.data || {};
+
+  switch (block.block) {
+    case 'hero':
+      return (
+        <section
+          data-testid="block-hero"
+          className="relative overflow-hidden rounded-lg bg-gray-900 text-white px-8 py-16 text-center bg-cover bg-center"
+          style={data.image ? { backgroundImage: `url(${getRenditionUrl(text(data.image), 'hero')})` } : undefined}
+        >
+          <div className="relative space-y-4">
+            <h2 className="text-4xl font-bold">{text(data.heading)}</h2>
+            {text(data.subheading) && <p className="text-lg text-gray-200 max-w-2xl mx-auto">{text(data.subheading)}</p>}
+            {text(data.cta_label) && (
+              <a
+                href={text(data.cta_url) || '#'}
+                className="inline-block rounded-md bg-white px-5 py-2 font-medium text-gray-900"
+              >
+                {text(data.cta_label)}
+              </a>
+            )}
+          </div>
+        </section>
+      );
+
+    case 'feature_grid':
+      return (
+        <section data-testid="block-feature_grid" className="space-y-6 py-4">
+          {text(data.heading) && <h2 className="text-2xl font-semibold text-center">{text(data.heading)}</h2>}
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {parseFeatureLines(data.features).map((feature, index) => (
+              <div key={index} className="rounded-lg border bg-white p-4">
+                <h3 className="font-medium">{feature.title}</h3>
+                {feature.description && <p className="text-sm text-muted-foreground mt-1">{feature.description}</p>}
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+
+    case 'testimonial':
+      return (
+        <figure data-testid="block-testimonial" className="rounded-lg border bg-white p-6 space-y-4">
+          <blockquote className="text-lg italic">&ldquo;{text(data.quote)}&rdquo;</blockquote>
+          <figcaption className="flex items-center gap-3">
+            {text(data.avatar) && (
+              <ResponsiveImage
+                src={text(data.avatar)}
+                alt={text(data.author)}
+                rendition="thumbnail"
+                sizes="40px"
+                className="h-10 w-10 rounded-full object-cover"
+              />
+            )}
+            <div>
+              <div className="font-medium">{text(data.author)}</div>
+              {text(data.role) && <div className="text-sm text-muted-foreground">{text(data.role)}</div>}
+            </div>
+          </figcaption>
+        </figure>
+      );
+
+    case 'cta':
+      return (
+        <section data-testid="block-cta" className="rounded-lg bg-primary/10 px-8 py-10 text-center space-y-3">
+          <h2 className="text-2xl font-semibold">{text(data.heading)}</h2>
+          {text(data.body) && <p className="text-muted-foreground">{text(data.body)}</p>}
+          {text(data.button_label) && (
+            <a
+              href={text(data.button_url) || '#'}
+              className="inline-block rounded-md bg-primary px-5 py-2 font-medium text-primary-foreground"
+            >
+              {text(data.button_label)}
+            </a>
+          )}
+        </section>
+      );
+
+    default:
+      return (
+        <section data-testid={`block-${block.block}`} className="rounded-lg border bg-white p-4 space-y-2">
+          <h3 className="text-sm font-medium text-muted-foreground">{schema?.name || block.block}</h3>
+          {(schema?.fields || Object.keys(data).map((name) => ({ name, label: name, type: 'text' }))).map(
+            (field) => (
+              <div key={field.name}>
+                <span className="text-xs text-muted-foreground">{field.label || field.name}: </span>
+                <span>{typeof data[field.name] === 'object' ? JSON.stringify(data[field.name]) : text(data[field.name])}</span>
+              </div>
+            )
+          )}
+        </section>
+      );
+  }
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { ContentBlockSchema, ContentTypeField } from '@/types';
+import { BLOCK_FIELD_TYPES, BLOCK_PRESETS } from '@/lib/blocks';
+import { generateFieldKey } from '@/lib/field-types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface BlockSchemaEditorProps {
+  value: ContentBlockSchema[];
+  onChange: (blocks: ContentBlockSchema[]) => void;
+}
+
+const toBlockKey = (name: string) => generateFieldKey(name).replace(/-/g, '_');
+
+export function BlockSchemaEditor({ value, onChange }: BlockSchemaEditorProps) {
+  // Keys of saved block types never change, since stored blocks reference them
+  const [savedKeys] = useState(() => new Set(value.map((block) => block.key)));
+
+  const updateBlock = (index: number, changes: Partial<ContentBlockSchema>) => {
+    onChange(value.map((block, i) => (i === index ? { ...block, ...changes } : block)));
+  };
+
+  const updateField = (blockIndex: number, fieldIndex: number, changes: Partial<ContentTypeField>) => {
+    const fields = value[blockIndex].fields.map((field, i) => (i === fieldIndex ? { ...field, ...changes } : field));
+    updateBlock(blockIndex, { fields });
+  };
+
+  const addField = (blockIndex: number) => {
+    updateBlock(blockIndex, {
+      fields: [...value[blockIndex].fields, { name: '', label: '', type: 'text', required: false }],
+    });
+  };
+
+  const removeField = (blockIndex: number, fieldIndex: number) => {
+    updateBlock(blockIndex, { fields: value[blockIndex].fields.filter((_, i) => i !== fieldIndex) });
+  };
+
+  const addPreset = (preset: ContentBlockSchema) => {
+    onChange([...value, { ...preset, fields: preset.fields.map((field) => ({ ...field })) }]);
+  };
+
+  const availablePresets = BLOCK_PRESETS.filter((preset) => !value.some((block) => block.key === preset.key));
+
+  return (
+    <div className="space-y-3">
+      {value.map((block, blockIndex) => (
+        <div key={blockIndex} className="border rounded-lg p-3 space-y-3" data-testid="block-schema">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor={`block-name-${blockIndex}`} className="text-xs">
+                Block name
+              </Label>
+              <Input
+                id={`block-name-${blockIndex}`}
+                value={block.name}
+                onChange={(e) =>
+                  updateBlock(blockIndex, {
+                    name: e.target.value,
+                    key: savedKeys.has(block.key) ? block.key : toBlockKey(e.target.value),
+                  })
+                }
+                placeholder="e.g., Pricing Table"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(value.filter((_, i) => i !== blockIndex))}
+              aria-label={`Remove block ${block.name || blockIndex + 1}`}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+
+          <div className="space-y-2 pl-2 border-l-2">
+            {block.fields.map((field, fieldIndex) => (
+              <div key={fieldIndex} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                <Input
+                  value={field.label || ''}
+                  onChange={(e) =>
+                    updateField(blockIndex, fieldIndex, {
+                      label: e.target.value,
+                      name: field.name && field.name !== toBlockKey(field.label || '')
+                        ? field.name
+                        : toBlockKey(e.target.value),
+                    })
+                  }
+                  placeholder="Field label"
+                  aria-label={`${block.name || 'Block'} field ${fieldIndex + 1} label`}
+                />
+                <Select
+                  value={field.type}
+                  onValueChange={(type) => updateField(blockIndex, fieldIndex, { type })}
+                >
+                  <SelectTrigger aria-label={`${block.name || 'Block'} field ${fieldIndex + 1} type`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BLOCK_FIELD_TYPES.map((fieldType) => (
+                      <SelectItem key={fieldType.type} value={fieldType.type}>
+                        {fieldType.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1">
+                  <label className="flex items-center gap-1 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={!!field.required}
+                      onChange={(e) => updateField(blockIndex, fieldIndex, { required: e.target.checked })}
+                      className="h-3 w-3"
+                    />
+                    Required
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeField(blockIndex, fieldIndex)}
+                    aria-label={`Remove ${field.label || 'field'}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button variant="ghost" size="sm" onClick={() => addField(blockIndex)}>
+              <Plus className="h-3 w-3 mr-1" />
+              Add Field
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {availablePresets.map((preset) => (
+          <Button key={preset.key} variant="outline" size="sm" onClick={() => addPreset(preset)}>
+            <Plus className="h-3 w-3 mr-1" />
+            {preset.name}
+          </Button>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { key: '', name: '', fields: [] }])}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Custom Block
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BlocksFieldEditor } from './blocks-field-editor';
+import { BLOCK_PRESETS } from '@/lib/blocks';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentEntry: vi.fn(),
+  },
+}));
+
+vi.mock('@/components/rich-text-editor', () => ({
+  default: () => <div data-testid="rich-text-editor" />,
+}));
+
+vi.mock('@/components/media-picker-modal', () => ({
+  default: ({ open }: { open: boolean }) => (open ? <div data-testid="media-picker" /> : null),
+}));
+
+describe('BlocksFieldEditor', () => {
+  const onChange = vi.fn();
+  const blocks = BLOCK_PRESETS;
+  const value = [
+    { id: 'b1', block: 'hero', data: { heading: 'Welcome' } },
+    { id: 'b2', block: 'cta', data: { heading: 'Sign up' } },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render a typed sub-form for each block', () => {
+    render(<BlocksFieldEditor id="body" value={value} onChange={onChange} blocks={blocks} />);
+
+    expect(screen.getAllByTestId('content-block')).toHaveLength(2);
+    expect(screen.getByLabelText(/^Heading/, { selector: '#body-b1-heading' })).toHaveValue('Welcome');
+    expect(screen.getByLabelText('Button URL', { selector: '#body-b1-cta_url' })).toHaveAttribute('type', 'url');
+    expect(screen.getByLabelText(/^Heading/, { selector: '#body-b2-heading' })).toHaveValue('Sign up');
+  });
+
+  it('should add a block of the chosen type', async () => {
+    const user = userEvent.setup();
+    render(<BlocksFieldEditor id="body" value={[]} onChange={onChange} blocks={blocks} />);
+
+    expect(screen.getByText('No blocks yet. Add one below.')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Testimonial' }));
+
+    expect(onChange).toHaveBeenCalledWith([expect.objectContaining({ block: 'testimonial', data: {} })]);
+  });
+
+  it('should update block field values', () => {
+    render(<BlocksFieldEditor id="body" value={value} onChange={onChange} blocks={blocks} />);
+
+    fireEvent.change(screen.getByLabelText(/^Heading/, { selector: '#body-b1-heading' }), {
+      target: { value: 'Hello' },
+    });
+
+    expect(onChange).toHaveBeenCalledWith([
+      { id: 'b1', block: 'hero', data: { heading: 'Hello' } },
+      value[1],
+    ]);
+  });
+
+  it('should keep blocks without an ID collapsed across renders', async () => {
+    const user = userEvent.setup();
+    const legacy = [{ block: 'hero', data: { heading: 'Welcome' } }];
+    const { rerender } = render(<BlocksFieldEditor id="body" value={legacy} onChange={onChange} blocks={blocks} />);
+
+    await user.click(screen.getByRole('button', { expanded: true }));
+    rerender(<BlocksFieldEditor id="body" value={[...legacy]} onChange={onChange} blocks={blocks} />);
+
+    expect(screen.getByRole('button', { expanded: false })).toBeInTheDocument();
+  });
+
+  it('should reorder and remove blocks', async () => {
+    const user = userEvent.setup();
+    render(<BlocksFieldEditor id="body" value={value} onChange={onChange} blocks={blocks} />);
+
+    await user.click(screen.getAllByRole('button', { name: 'Move block down' })[0]);
+    expect(onChange).toHaveBeenLastCalledWith([value[1], value[0]]);
+
+    await user.click(screen.getByRole('button', { name: 'Remove Call to Action' }));
+    expect(onChange).toHaveBeenLastCalledWith([value[0]]);
+  });
+
+  it('should open the media picker for image fields', async () => {
+    const user = userEvent.setup();
+    render(<BlocksFieldEditor id="body" value={[value[0]]} onChange={onChange} blocks={blocks} />);
+
+    await user.click(screen.getByRole('button', { name: /Browse/i }));
+
+    expect(screen.getByTestId('media-picker')).toBeInTheDocument();
+  });
+
+  it('should keep blocks whose type was removed', () => {
+    render(
+      <BlocksFieldEditor
+        id="body"
+        value={[{ id: 'old', block: 'pricing', data: { plan: 'Pro' } }]}
+        onChange={onChange}
+        blocks={blocks}
+      />
+    );
+
+    expect(screen.getByText(/Unknown block type "pricing"/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { ContentBlock, ContentBlockSchema, Media } from '@/types';
+import { createBlock, getBlocks } from '@/lib/blocks';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import MediaPickerModal from '@/components/media-picker-modal';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { FieldInput } from './field-input';
+
+interface BlocksFieldEditorProps {
+  id: string;
+  value: unknown;
+  onChange: (blocks: ContentBlock[]) => void;
+  /** Block types declared on the content type field */
+  blocks: ContentBlockSchema[];
+  entryId?: string | null;
+}
+
+export function BlocksFieldEditor({ id, value, onChange, blocks, entryId }: BlocksFieldEditorProps) {
+  const items = getBlocks(value);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [mediaTarget, setMediaTarget] = useState<{ blockId: string; field: string } | null>(null);
+
+  const updateBlockData = (blockId: string, field: string, fieldValue: unknown) => {
+    onChange(
+      items.map((item) => (item.id === blockId ? { ...item, data: { ...item.data, [field]: fieldValue } } : item))
+    );
+  };
+
+  const moveBlock = (index: number, direction: 'up' | 'down') => {
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const toggleCollapsed = (blockId: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(blockId)) {
+        next.delete(blockId);
+      } else {
+        next.add(blockId);
+      }
+      return next;
+    });
+  };
+
+  const handleMediaSelect = (media: Media) => {
+    if (mediaTarget) {
+      updateBlockData(mediaTarget.blockId, mediaTarget.field, media.url || media.public_url || media.storage_path);
+    }
+    setMediaTarget(null);
+  };
+
+  if (blocks.length === 0) {
+    return <p className="text-sm text-muted-foreground italic">No block types configured for this field</p>;
+  }
+
+  return (
+    <div className="space-y-3" id={id}>
+      {items.length === 0 && (
+        <p className="text-sm text-muted-foreground">No blocks yet. Add one below.</p>
+      )}
+
+      {items.map((item, index) => {
+        const schema = blocks.find((b) => b.key === item.block);
+        const isCollapsed = collapsed.has(item.id);
+        return (
+          <div key={item.id} className="border rounded-lg" data-testid="content-block">
+            <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 border-b">
+              <button
+                type="button"
+                onClick={() => toggleCollapsed(item.id)}
+                className="flex items-center gap-2 flex-1 text-left text-sm font-medium"
+                aria-expanded={!isCollapsed}
+              >
+                {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                {schema?.name || item.block}
+                <Badge variant="outline" className="font-normal">
+                  {index + 1}
+                </Badge>
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => moveBlock(index, 'up')}
+                disabled={index === 0}
+                aria-label="Move block up"
+              >
+                ↑
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => moveBlock(index, 'down')}
+                disabled={index === items.length - 1}
+                aria-label="Move block down"
+              >
+                ↓
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(items.filter((b) => b.id !== item.id))}
+                aria-label={`Remove ${schema?.name || 'block'}`}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+
+            {!isCollapsed && (
+              <div className="p-3 space-y-4">
+                {!schema ? (
+                  <p className="text-sm text-destructive">
+                    Unknown block type &quot;{item.block}&quot;. Its data is kept but cannot be edited.
+                  </p>
+                ) : (
+                  schema.fields.map((field) => {
+                    const inputId = `${id}-${item.id}-${field.name}`;
+                    const label = field.label || field.name;
+                    return (
+                      <div key={field.name} className="space-y-2">
+                        <Label htmlFor={inputId}>
+                          {label}
+                          {field.required && <span className="text-destructive ml-1">*</span>}
+                        </Label>
+                        <FieldInput
+                          id={inputId}
+                          fieldType={field.type || 'text'}
+                          fieldConfig={field}
+                          label={label}
+                          value={item.data[field.name] ?? ''}
+                          onChange={(fieldValue) => updateBlockData(item.id, field.name, fieldValue)}
+                          required={field.required}
+                          onBrowseMedia={() => setMediaTarget({ blockId: item.id, field: field.name })}
+                          entryId={entryId}
+                        />
+                        {field.help_text && <p className="text-xs text-muted-foreground">{field.help_text}</p>}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        {blocks.map((schema) => (
+          <Button
+            key={schema.key}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...items, createBlock(schema)])}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            {schema.name}
+          </Button>
+        ))}
+      </div>
+
+      <MediaPickerModal open={!!mediaTarget} onClose={() => setMediaTarget(null)} onSelect={handleMediaSelect} />
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BundleImportWizard } from './bundle-import-wizard';
+import { contentApi, mediaApi, templateApi, translationApi } from '@/lib/api';
+import { BUNDLE_FORMAT, ContentBundle } from '@/lib/content-bundle';
+import { createDefaultWorkflow } from '@/lib/workflow';
+import { ContentEntry, ContentType } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentTypes: vi.fn(),
+    getContentEntries: vi.fn(),
+    createContentType: vi.fn(),
+    updateContentType: vi.fn(),
+    createContentEntry: vi.fn(),
+    updateContentEntry: vi.fn(),
+  },
+  mediaApi: {
+    getMedia: vi.fn(),
+  },
+  templateApi: {
+    listTemplates: vi.fn(),
+    createTemplate: vi.fn(),
+  },
+  translationApi: {
+    getLocales: vi.fn(),
+    createOrUpdateTranslation: vi.fn(),
+  },
+}));
+
+const existingType: ContentType = {
+  id: 't9',
+  name: 'Post',
+  api_id: 'post',
+  fields: [{ name: 'title', type: 'text' }],
+  organization_id: 'org-1',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+const existingEntry: ContentEntry = {
+  id: 'x1',
+  content_type_id: 't9',
+  slug: 'hello',
+  status: 'published',
+  data: { title: 'Existing' },
+};
+
+const bundle: ContentBundle = {
+  format: BUNDLE_FORMAT,
+  version: 1,
+  exported_at: '2025-01-01T00:00:00Z',
+  content_types: [
+    { api_id: 'post', name: 'Post', fields: [{ name: 'title', type: 'text' }] },
+    {
+      api_id: 'author',
+      name: 'Author',
+      fields: [
+        { name: 'name', type: 'text' },
+        { name: 'mentor', type: 'reference', allowed_content_types: ['author'] },
+      ],
+    },
+  ],
+  entries: [
+    { id: 'e1', content_type: 'post', slug: 'hello', status: 'draft', data: { title: 'Hello' }, translations: {} },
+    {
+      id: 'e2',
+      content_type: 'author',
+      slug: 'ada',
+      status: 'published',
+      data: { name: 'Ada', mentor: 'e3' },
+      translations: { fr: { name: 'Ada' }, xx: { name: 'Ada' } },
+    },
+    { id: 'e3', content_type: 'author', slug: 'grace', status: 'published', data: { name: 'Grace' }, translations: {} },
+  ],
+  media: [],
+  templates: [],
+};
+
+const uploadBundle = async (user: ReturnType<typeof userEvent.setup>, content: unknown) => {
+  const file = new File([JSON.stringify(content)], 'bundle.json', { type: 'application/json' });
+  await user.upload(screen.getByLabelText('Bundle file'), file);
+};
+
+describe('BundleImportWizard', () => {
+  const onOpenChange = vi.fn();
+  const onImported = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(contentApi.getContentTypes).mockResolvedValue([existingType]);
+    vi.mocked(contentApi.getContentEntries).mockResolvedValue({ items: [existingEntry], total: 1, pages: 1 });
+    vi.mocked(contentApi.createContentType).mockResolvedValue({ ...existingType, id: 't10', api_id: 'author' });
+    vi.mocked(contentApi.updateContentType).mockResolvedValue(existingType);
+    vi.mocked(contentApi.createContentEntry).mockImplementation(async (data) => ({
+      ...existingEntry,
+      id: `new-${data.slug}`,
+    }));
+    vi.mocked(contentApi.updateContentEntry).mockResolvedValue(existingEntry);
+    vi.mocked(templateApi.listTemplates).mockResolvedValue({ templates: [], total: 0, page: 1, page_size: 100 });
+    vi.mocked(translationApi.getLocales).mockResolvedValue([
+      {
+        id: 'l1',
+        code: 'fr',
+        name: 'French',
+        is_default: false,
+        is_enabled: true,
+        is_active: true,
+        auto_translate: false,
+        organization_id: 'org-1',
+        created_at: '2025-01-01T00:00:00Z',
+        updated_at: '2025-01-01T00:00:00Z',
+      },
+    ]);
+    vi.mocked(mediaApi.getMedia).mockResolvedValue({ items: [], total: 0, pages: 1 });
+  });
+
+  it('should list problems with an invalid bundle', async () => {
+    const user = userEvent.setup();
+    render(<BundleImportWizard open onOpenChange={onOpenChange} onImported={onImported} />);
+
+    await uploadBundle(user, { ...bundle, version: 5 });
+
+    expect(await screen.findByText('Bundle version 5 is newer than this app supports (1)')).toBeInTheDocument();
+    expect(contentApi.getContentTypes).not.toHaveBeenCalled();
+  });
+
+  it('should show conflicts and warnings for the target organization', async () => {
+    const user = userEvent.setup();
+    render(<BundleImportWizard open onOpenChange={onOpenChange} onImported={onImported} />);
+
+    await uploadBundle(user, bundle);
+
+    expect(await screen.findAllByTestId('bundle-conflict')).toHaveLength(2);
+    expect(screen.getByLabelText('Strategy for post')).toBeInTheDocument();
+    expect(screen.getByLabelText('Strategy for post/hello')).toBeInTheDocument();
+    expect(screen.getByText(/Translations for xx will be skipped/)).toBeInTheDocument();
+  });
+
+  it('should skip existing items by default and rewrite references', async () => {
+    const user = userEvent.setup();
+    render(<BundleImportWizard open onOpenChange={onOpenChange} onImported={onImported} />);
+
+    await uploadBundle(user, bundle);
+    await user.click(await screen.findByRole('button', { name: 'Import' }));
+
+    expect(await screen.findByText(/Created 3, updated 0 and skipped 2 items/)).toBeInTheDocument();
+
+    // The existing "post" type is kept and the new "author" type is created
+    expect(contentApi.updateContentType).toHaveBeenCalledWith('t10', {
+      fields: [
+        { name: 'name', type: 'text' },
+        { name: 'mentor', type: 'reference', allowed_content_types: ['t10'] },
+      ],
+    });
+    expect(contentApi.createContentEntry).not.toHaveBeenCalledWith(expect.objectContaining({ slug: 'hello' }));
+    expect(contentApi.createContentEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ content_type_id: 't10', slug: 'ada' })
+    );
+    expect(translationApi.createOrUpdateTranslation).toHaveBeenCalledTimes(1);
+    expect(translationApi.createOrUpdateTranslation).toHaveBeenCalledWith('new-ada', 'fr', { name: 'Ada' });
+    expect(contentApi.updateContentEntry).toHaveBeenCalledWith('new-ada', {
+      data: { name: 'Ada', mentor: 'new-grace' },
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Done' }));
+    await waitFor(() => expect(onImported).toHaveBeenCalled());
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it('should leave out entries that fail validation', async () => {
+    const user = userEvent.setup();
+    const strict: ContentBundle = {
+      ...bundle,
+      content_types: bundle.content_types.map((type) =>
+        type.api_id === 'author'
+          ? { ...type, fields: type.fields.map((f) => (f.name === 'name' ? { ...f, label: 'Name', required: true } : f)) }
+          : type
+      ),
+      entries: bundle.entries.map((entry) => (entry.id === 'e3' ? { ...entry, data: {} } : entry)),
+    };
+    render(<BundleImportWizard open onOpenChange={onOpenChange} onImported={onImported} />);
+
+    await uploadBundle(user, strict);
+
+    expect(await screen.findByText(/1 entry has invalid data and will be skipped/)).toBeInTheDocument();
+    expect(screen.getByText('author/grace: Name is required')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Import' }));
+
+    expect(await screen.findByText('Entry "author/grace": Name is required')).toBeInTheDocument();
+    expect(contentApi.createContentEntry).not.toHaveBeenCalledWith(expect.objectContaining({ slug: 'grace' }));
+    expect(contentApi.createContentEntry).toHaveBeenCalledWith(expect.objectContaining({ slug: 'ada' }));
+  });
+
+  it('should import entries of workflow types as drafts', async () => {
+    const user = userEvent.setup();
+    const reviewed: ContentBundle = {
+      ...bundle,
+      content_types: bundle.content_types.map((type) =>
+        type.api_id === 'author' ? { ...type, workflow: createDefaultWorkflow() } : type
+      ),
+    };
+    render(<BundleImportWizard open onOpenChange={onOpenChange} onImported={onImported} />);
+
+    await uploadBundle(user, reviewed);
+
+    expect(await screen.findByText(/review workflow are imported as drafts/)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Import' }));
+
+    await screen.findByText(/Created 3/);
+    expect(contentApi.createContentEntry).toHaveBeenCalledWith(expect.objectContaining({ slug: 'ada', status: 'draft' }));
+    expect(contentApi.createContentEntry).toHaveBeenCalledWith(expect.objectContaining({ slug: 'grace', status: 'draft' }));
+  });
+});
@@ -0,0 +1,668 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { contentApi, mediaApi, templateApi, translationApi } from '@/lib/api';
+import { fetchAllPages } from '@/lib/pagination';
+import type { ContentTemplate } from '@/lib/api/templates';
+import {
+  BundleConflict,
+  BundleContentType,
+  BundleEntry,
+  ConflictStrategy,
+  ContentBundle,
+  findBundleConflicts,
+  getMediaUrl,
+  getUniqueKey,
+  mapAllowedContentTypes,
+  parseBundle,
+  remapReferences,
+} from '@/lib/content-bundle';
+import { validateRows } from '@/lib/validation';
+import { isWorkflowEnabled } from '@/lib/workflow';
+import { ContentEntry, ContentStatus, ContentType, ContentTypeField, ContentWorkflow } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, FileJson, Loader2 } from 'lucide-react';
+
+const PAGE_SIZE = 100;
+
+const STRATEGIES: { value: ConflictStrategy; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'rename', label: 'Import as copy' },
+];
+
+interface BundleImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called when the wizard is closed after an import so lists can reload */
+  onImported: () => void;
+}
+
+type Step = 'select' | 'review' | 'running' | 'done';
+
+interface TargetState {
+  contentTypes: ContentType[];
+  entries: ContentEntry[];
+  templates: ContentTemplate[];
+  localeCodes: string[];
+}
+
+interface ImportSummary {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
+
+function getErrorMessage(err: unknown): string {
+  const error = err as Error & { response?: { data?: { detail?: string } } };
+  return error.response?.data?.detail || error.message;
+}
+
+function loadEntries(contentTypeId: string): Promise<ContentEntry[]> {
+  return fetchAllPages((page, per_page) =>
+    contentApi.getContentEntries({ content_type_id: contentTypeId, page, per_page })
+  );
+}
+
+async function findMissingMedia(bundle: ContentBundle): Promise<number> {
+  if (bundle.media.length === 0) return 0;
+  const missing = new Set(bundle.media.map((item) => item.url));
+  await fetchAllPages((page, page_size) => mediaApi.getMedia({ page, page_size }), {
+    until: (items) => {
+      items.forEach((item) => missing.delete(getMediaUrl(item)));
+      return missing.size === 0;
+    },
+  });
+  return missing.size;
+}
+
+export function BundleImportWizard({ open, onOpenChange, onImported }: BundleImportWizardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('select');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [bundle, setBundle] = useState<ContentBundle | null>(null);
+  const [target, setTarget] = useState<TargetState>({
+    contentTypes: [],
+    entries: [],
+    templates: [],
+    localeCodes: [],
+  });
+  const [conflicts, setConflicts] = useState<BundleConflict[]>([]);
+  const [strategies, setStrategies] = useState<Record<string, ConflictStrategy>>({});
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [summary, setSummary] = useState<ImportSummary>({ created: 0, updated: 0, skipped: 0, errors: [] });
+
+  const reset = () => {
+    setStep('select');
+    setFileErrors([]);
+    setBundle(null);
+    setConflicts([]);
+    setStrategies({});
+    setWarnings([]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const close = () => {
+    if (step === 'done') onImported();
+    reset();
+    onOpenChange(false);
+  };
+
+  // Compare the bundle with what already exists in this organization
+  const analyze = async (parsed: ContentBundle) => {
+    setIsAnalyzing(true);
+    try {
+      const types = await contentApi.getContentTypes();
+      const contentTypes = Array.isArray(types) ? types : [];
+      const matching = contentTypes.filter((type) =>
+        parsed.content_types.some((bundled) => bundled.api_id === (type.api_id || type.slug || type.id))
+      );
+      const [entryLists, templateLists, locales, missingMedia] = await Promise.all([
+        Promise.all(matching.map((type) => loadEntries(type.id))),
+        Promise.all(
+          matching.map((type) => templateApi.listTemplates({ content_type_id: type.id, page_size: PAGE_SIZE }))
+        ),
+        translationApi.getLocales(),
+        findMissingMedia(parsed),
+      ]);
+      const entries = entryLists.flat();
+      const found = findBundleConflicts(parsed, contentTypes, entries);
+
+      const localeCodes = locales.map((locale) => locale.code);
+      const missingLocales = new Set<string>();
+      parsed.entries.forEach((entry) =>
+        Object.keys(entry.translations).forEach((code) => {
+          if (!localeCodes.includes(code)) missingLocales.add(code);
+        })
+      );
+
+      const notes: string[] = [];
+      if (missingLocales.size > 0) {
+        notes.push(
+          `Translations for ${Array.from(missingLocales).join(', ')} will be skipped because ${
+            missingLocales.size === 1 ? 'that locale is' : 'those locales are'
+          } not set up here.`
+        );
+      }
+      if (missingMedia > 0) {
+        notes.push(
+          `${missingMedia} referenced media ${
+            missingMedia === 1 ? 'file is' : 'files are'
+          } not in this media library. Fields keep pointing at the original URLs.`
+        );
+      }
+
+      setBundle(parsed);
+      setTarget({
+        contentTypes,
+        entries,
+        templates: templateLists.flatMap((response) => response.templates),
+        localeCodes,
+      });
+      setConflicts(found);
+      setStrategies(Object.fromEntries(found.map((conflict) => [conflict.id, 'skip' as ConflictStrategy])));
+      setWarnings(notes);
+      setStep('review');
+    } catch (err) {
+      setFileErrors(['Failed to check the bundle: ' + getErrorMessage(err)]);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileErrors([]);
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = parseBundle(String(reader.result || ''));
+      if (!result.bundle) {
+        setFileErrors(result.errors);
+        return;
+      }
+      analyze(result.bundle);
+    };
+    reader.onerror = () => setFileErrors(['Failed to read file']);
+    reader.readAsText(file);
+  };
+
+  const setAllStrategies = (strategy: ConflictStrategy) => {
+    setStrategies(Object.fromEntries(conflicts.map((conflict) => [conflict.id, strategy])));
+  };
+
+  const typeStrategy = (apiId: string): ConflictStrategy | undefined => strategies[`type:${apiId}`];
+
+  // Entries of a type imported as a copy go into the new type, so their slugs cannot clash
+  const visibleConflicts = conflicts.filter(
+    (conflict) => conflict.kind === 'content_type' || typeStrategy(conflict.content_type) !== 'rename'
+  );
+
+  // The type a bundled type's entries are written to: the existing one when it is
+  // kept or overwritten (id set), otherwise a new one built from the bundle
+  const getEntryTarget = (type: BundleContentType) => {
+    const conflict = conflicts.find((c) => c.id === `type:${type.api_id}`);
+    const strategy = typeStrategy(type.api_id);
+    if (conflict && strategy === 'skip') {
+      const existing = target.contentTypes.find((t) => t.id === conflict.existing_id);
+      return { id: conflict.existing_id, fields: existing?.fields || [], workflow: existing?.workflow };
+    }
+    return {
+      id: conflict && strategy === 'overwrite' ? conflict.existing_id : null,
+      fields: type.fields,
+      workflow: type.workflow,
+    };
+  };
+
+  /**
+   * Entries the shared validation engine rejects against the fields they will
+   * be saved with, keyed by bundle entry ID. They are left out of the import.
+   */
+  const findInvalidEntries = (): Record<string, string> => {
+    const invalid: Record<string, string> = {};
+    if (!bundle) return invalid;
+    bundle.content_types.forEach((type) => {
+      const entryTarget = getEntryTarget(type);
+      const conflictOf = (entry: BundleEntry) =>
+        entryTarget.id ? conflicts.find((c) => c.id === `entry:${type.api_id}/${entry.slug}`) : undefined;
+      const entries = bundle.entries.filter(
+        (entry) => entry.content_type === type.api_id && strategies[conflictOf(entry)?.id || ''] !== 'skip'
+      );
+      const overwritten = entries.map((entry) => conflictOf(entry)?.existing_id).filter(Boolean);
+      const existing = entryTarget.id
+        ? target.entries
+            .filter((e) => e.content_type_id === entryTarget.id && !overwritten.includes(e.id))
+            .map((e) => e.data || e.content_data || {})
+        : [];
+      validateRows(entryTarget.fields, entries.map((entry) => entry.data), existing).forEach(({ row, errors }) => {
+        invalid[entries[row].id] = Object.values(errors).join('; ');
+      });
+    });
+    return invalid;
+  };
+
+  const invalidEntries = step === 'review' ? findInvalidEntries() : {};
+  const invalidLabels = Object.entries(invalidEntries).map(([entryId, message]) => {
+    const entry = bundle?.entries.find((e) => e.id === entryId);
+    return `${entry?.content_type}/${entry?.slug}: ${message}`;
+  });
+  const draftsOnly =
+    step === 'review' &&
+    !!bundle?.content_types.some(
+      (type) =>
+        isWorkflowEnabled(getEntryTarget(type).workflow) &&
+        bundle.entries.some((entry) => entry.content_type === type.api_id && entry.status !== 'draft')
+    );
+
+  const runImport = async () => {
+    if (!bundle) return;
+    setStep('running');
+    const result: ImportSummary = { created: 0, updated: 0, skipped: 0, errors: [] };
+    const total = bundle.content_types.length + bundle.entries.length + bundle.templates.length;
+    let done = 0;
+    const tick = () => setProgress({ done: ++done, total });
+    setProgress({ done: 0, total });
+
+    // Content types: api_id -> target type, and whether it was created by this import
+    const typeIds: Record<string, string> = {};
+    target.contentTypes.forEach((type) => {
+      typeIds[type.api_id || type.slug || type.id] = type.id;
+    });
+    const targets: Record<
+      string,
+      { id: string; fresh: boolean; fields: ContentTypeField[]; workflow?: ContentWorkflow }
+    > = {};
+    const invalid = findInvalidEntries();
+    const takenApiIds = Object.keys(typeIds);
+
+    for (const type of bundle.content_types) {
+      const conflict = conflicts.find((c) => c.id === `type:${type.api_id}`);
+      const strategy = conflict ? strategies[conflict.id] : undefined;
+      try {
+        if (conflict && strategy === 'skip') {
+          const existing = target.contentTypes.find((t) => t.id === conflict.existing_id);
+          targets[type.api_id] = {
+            id: conflict.existing_id,
+            fresh: false,
+            fields: existing?.fields || [],
+            workflow: existing?.workflow,
+          };
+          result.skipped++;
+        } else if (conflict && strategy === 'overwrite') {
+          await contentApi.updateContentType(conflict.existing_id, {
+            name: type.name,
+            description: type.description,
+            display_field: type.display_field,
+            fields: mapAllowedContentTypes(type.fields, typeIds),
+            workflow: type.workflow,
+          });
+          targets[type.api_id] = { id: conflict.existing_id, fresh: false, fields: type.fields, workflow: type.workflow };
+          result.updated++;
+        } else {
+          const apiId = conflict ? getUniqueKey(type.api_id, takenApiIds) : type.api_id;
+          const created = await contentApi.createContentType({
+            name: conflict ? `${type.name} (Copy)` : type.name,
+            api_id: apiId,
+            description: type.description,
+            display_field: type.display_field,
+            fields: mapAllowedContentTypes(type.fields, typeIds),
+            workflow: type.workflow,
+          });
+          takenApiIds.push(apiId);
+          typeIds[type.api_id] = created.id;
+          targets[type.api_id] = { id: created.id, fresh: true, fields: type.fields, workflow: type.workflow };
+          result.created++;
+        }
+      } catch (err) {
+        result.errors.push(`Content type "${type.api_id}": ${getErrorMessage(err)}`);
+      }
+      tick();
+    }
+
+    // Reference fields can point at types created later in the loop
+    for (const type of bundle.content_types) {
+      const imported = targets[type.api_id];
+      if (!imported || (!imported.fresh && typeStrategy(type.api_id) !== 'overwrite')) continue;
+      const hasReferences = type.fields.some((field) => (field.allowed_content_types || []).length > 0);
+      if (!hasReferences) continue;
+      try {
+        await contentApi.updateContentType(imported.id, { fields: mapAllowedContentTypes(type.fields, typeIds) });
+      } catch (err) {
+        result.errors.push(`Content type "${type.api_id}": ${getErrorMessage(err)}`);
+      }
+    }
+
+    // Entries, then their translations
+    const idMap: Record<string, string> = {};
+    const written: { id: string; data: Record<string, unknown>; fields: ContentTypeField[] }[] = [];
+
+    for (const entry of bundle.entries) {
+      const imported = targets[entry.content_type];
+      const label = `${entry.content_type}/${entry.slug}`;
+      if (!imported) {
+        result.errors.push(`Entry "${label}": its content type was not imported`);
+        tick();
+        continue;
+      }
+
+      const conflict = imported.fresh ? undefined : conflicts.find((c) => c.id === `entry:${label}`);
+      const strategy = conflict ? strategies[conflict.id] : undefined;
+      if (invalid[entry.id] && strategy !== 'skip') {
+        result.errors.push(`Entry "${label}": ${invalid[entry.id]}`);
+        tick();
+        continue;
+      }
+      // Types with a review workflow publish through their stages only
+      const status: ContentStatus = isWorkflowEnabled(imported.workflow) ? 'draft' : entry.status;
+      try {
+        let entryId: string;
+        if (conflict && strategy === 'skip') {
+          idMap[entry.id] = conflict.existing_id;
+          result.skipped++;
+          tick();
+          continue;
+        } else if (conflict && strategy === 'overwrite') {
+          await contentApi.updateContentEntry(conflict.existing_id, {
+            slug: entry.slug,
+            status,
+            data: entry.data,
+          });
+          entryId = conflict.existing_id;
+          result.updated++;
+        } else {
+          const takenSlugs = target.entries
+            .filter((e) => e.content_type_id === imported.id)
+            .map((e) => e.slug);
+          const created = await contentApi.createContentEntry({
+            content_type_id: imported.id,
+            slug: conflict ? getUniqueKey(entry.slug, takenSlugs) : entry.slug,
+            status,
+            data: entry.data,
+          });
+          entryId = created.id;
+          result.created++;
+        }
+        idMap[entry.id] = entryId;
+        written.push({ id: entryId, data: entry.data, fields: imported.fields });
+
+        for (const [code, data] of Object.entries(entry.translations)) {
+          if (!target.localeCodes.includes(code)) continue;
+          try {
+            await translationApi.createOrUpdateTranslation(entryId, code, data);
+          } catch (err) {
+            result.errors.push(`Entry "${label}" (${code}): ${getErrorMessage(err)}`);
+          }
+        }
+      } catch (err) {
+        result.errors.push(`Entry "${label}": ${getErrorMessage(err)}`);
+      }
+      tick();
+    }
+
+    // Point references at the imported copies now that every entry has an ID
+    for (const item of written) {
+      const remapped = remapReferences(item.data, item.fields, idMap);
+      if (!remapped.changed) continue;
+      try {
+        await contentApi.updateContentEntry(item.id, { data: remapped.data });
+      } catch (err) {
+        result.errors.push(`References of entry ${item.id}: ${getErrorMessage(err)}`);
+      }
+    }
+
+    // Templates with a name already used for the same type are kept as they are
+    for (const template of bundle.templates) {
+      const imported = targets[template.content_type];
+      const exists = target.templates.some(
+        (t) => imported && t.content_type_id === imported.id && t.name === template.name
+      );
+      if (!imported || (!imported.fresh && exists)) {
+        result.skipped++;
+        tick();
+        continue;
+      }
+      try {
+        await templateApi.createTemplate({
+          content_type_id: imported.id,
+          name: template.name,
+          description: template.description,
+          icon: template.icon,
+          category: template.category,
+          tags: template.tags,
+          is_published: template.is_published,
+          field_defaults: template.field_defaults,
+          field_config: template.field_config,
+          content_structure: template.content_structure,
+        });
+        result.created++;
+      } catch (err) {
+        result.errors.push(`Template "${template.name}": ${getErrorMessage(err)}`);
+      }
+      tick();
+    }
+
+    setSummary(result);
+    setStep('done');
+  };
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  const conflictLabel = (conflict: BundleConflict) =>
+    conflict.kind === 'content_type' ? conflict.key : `${conflict.content_type}/${conflict.key}`;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && step !== 'running' && close()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Content Bundle</DialogTitle>
+          <DialogDescription>
+            Import content types, entries, translations and templates exported from another organization.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'select' && (
+          <div className="space-y-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+              aria-label="Bundle file"
+            />
+            <div
+              className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:border-primary transition-colors"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {isAnalyzing ? (
+                <Loader2 className="h-10 w-10 mx-auto text-muted-foreground mb-2 animate-spin" />
+              ) : (
+                <FileJson className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              )}
+              <p className="font-medium">{isAnalyzing ? 'Checking bundle…' : 'Click to choose a bundle file'}</p>
+              <p className="text-sm text-muted-foreground">JSON files exported from Content or Content Types</p>
+            </div>
+            {fileErrors.length > 0 && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive" role="alert">
+                <ul className="list-disc pl-4 space-y-1">
+                  {fileErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && bundle && (
+          <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{bundle.content_types.length} content types</Badge>
+              <Badge variant="secondary">{bundle.entries.length} entries</Badge>
+              <Badge variant="secondary">{bundle.templates.length} templates</Badge>
+              <Badge variant="secondary">{bundle.media.length} media files</Badge>
+            </div>
+
+            {warnings.map((warning) => (
+              <div key={warning} className="flex items-start gap-2 rounded-md bg-muted p-3 text-sm">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{warning}</span>
+              </div>
+            ))}
+
+            {draftsOnly && (
+              <div className="flex items-start gap-2 rounded-md bg-muted p-3 text-sm">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>Entries of content types with a review workflow are imported as drafts.</span>
+              </div>
+            )}
+
+            {invalidLabels.length > 0 && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive" role="alert">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {invalidLabels.length} {invalidLabels.length === 1 ? 'entry has' : 'entries have'} invalid data and
+                  will be skipped
+                </div>
+                <ul className="mt-2 list-disc pl-6 space-y-1 max-h-40 overflow-y-auto">
+                  {invalidLabels.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {visibleConflicts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing in this bundle exists here yet.</p>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">
+                    {visibleConflicts.length} {visibleConflicts.length === 1 ? 'item already exists' : 'items already exist'}
+                  </p>
+                  <Select onValueChange={(value) => setAllStrategies(value as ConflictStrategy)}>
+                    <SelectTrigger className="h-8 w-44" aria-label="Strategy for all conflicts">
+                      <SelectValue placeholder="Apply to all" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STRATEGIES.map((strategy) => (
+                        <SelectItem key={strategy.value} value={strategy.value}>
+                          {strategy.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {visibleConflicts.map((conflict) => (
+                  <div
+                    key={conflict.id}
+                    className="flex items-center gap-2 rounded-md border p-2 text-sm"
+                    data-testid="bundle-conflict"
+                  >
+                    <Badge variant="outline">{conflict.kind === 'content_type' ? 'Content type' : 'Entry'}</Badge>
+                    <code className="font-mono flex-1 truncate">{conflictLabel(conflict)}</code>
+                    <Select
+                      value={strategies[conflict.id]}
+                      onValueChange={(value) =>
+                        setStrategies((prev) => ({ ...prev, [conflict.id]: value as ConflictStrategy }))
+                      }
+                    >
+                      <SelectTrigger className="h-8 w-44" aria-label={`Strategy for ${conflictLabel(conflict)}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {STRATEGIES.map((strategy) => (
+                          <SelectItem key={strategy.value} value={strategy.value}>
+                            {strategy.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'running' && (
+          <div className="space-y-2 py-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Importing… {progress.done} of {progress.total}
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${percent}%` }}
+                role="progressbar"
+                aria-valuenow={percent}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-2 py-2 text-sm">
+            <p>
+              Created {summary.created}, updated {summary.updated} and skipped {summary.skipped}{' '}
+              {summary.skipped === 1 ? 'item' : 'items'}.
+            </p>
+            {summary.errors.length > 0 && (
+              <div className="rounded-md bg-destructive/10 p-3 text-destructive">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {summary.errors.length} {summary.errors.length === 1 ? 'item' : 'items'} failed
+                </div>
+                <ul className="mt-2 list-disc pl-6 space-y-1 max-h-40 overflow-y-auto">
+                  {summary.errors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'select' && (
+            <Button variant="outline" onClick={close}>
+              Cancel
+            </Button>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={runImport}>Import</Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={close}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
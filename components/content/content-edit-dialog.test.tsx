@@ -20,6 +20,10 @@ vi.mock('sonner', () => ({
   },
 }));
 
+vi.mock('@/hooks/use-accessibility-audit', () => ({
+  useAccessibilityAudit: () => ({ missingAlt: [], missingAltUrls: new Set(), theme: null, loading: false }),
+}));
+
 vi.mock('@/lib/api/client', () => ({
   resolveMediaUrl: vi.fn((url) => url),
 }));
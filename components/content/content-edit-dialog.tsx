@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ContentEntry, ContentType } from '@/types';
+import { ContentEntry, ContentStatus, ContentType } from '@/types';
 import { contentApi } from '@/lib/api';
 import { resolveMediaUrl } from '@/lib/api/client';
 import { Button } from '@/components/ui/button';
@@ -12,6 +12,8 @@ import { Switch } from '@/components/ui/switch';
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
@@ -26,9 +28,19 @@ import { Save, X, ArrowLeft, Loader2, ImageIcon } from 'lucide-react';
 import { JsonFieldEditor } from './json-field-editor';
 import { NavigationEditor } from './navigation-editor';
 import { MediaGalleryEditor } from './media-gallery-editor';
+import { ReferenceFieldPicker } from './reference-field-picker';
+import { BlocksFieldEditor } from './blocks-field-editor';
+import { AccessibilityChecklist } from './accessibility-checklist';
 import MediaPickerModal from '@/components/media-picker-modal';
 import { Media } from '@/types';
 import { toast } from 'sonner';
+import { isWorkflowEnabled } from '@/lib/workflow';
+import { getValidationRules, isMimeTypeAllowed } from '@/lib/validation';
+import { clearHiddenFields, getFieldStates } from '@/lib/conditions';
+import { auditEntry } from '@/lib/accessibility';
+import { useEntryValidation } from '@/hooks/use-entry-validation';
+import { useAccessibilityAudit } from '@/hooks/use-accessibility-audit';
+import { useI18n } from '@/contexts/i18n-context';
 
 interface ContentEditDialogProps {
   entry: ContentEntry | null;
@@ -39,6 +51,7 @@ interface ContentEditDialogProps {
 }
 
 export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: ContentEditDialogProps) {
+  const { t } = useI18n();
   const [contentType, setContentType] = useState<ContentType | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -47,11 +60,20 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
   const [status, setStatus] = useState('draft');
   const [mediaPickerField, setMediaPickerField] = useState<string | null>(null);
   const [mediaPickerFileType, setMediaPickerFileType] = useState<'image' | 'video' | 'audio' | 'document' | undefined>();
+  // Publishing waits for the accessibility checklist to be confirmed
+  const [showAccessibilityReview, setShowAccessibilityReview] = useState(false);
+  const validation = useEntryValidation({
+    fields: contentType?.fields || [],
+    data: formData,
+    contentTypeId: entry?.content_type_id,
+    entryId: entry?.id,
+  });
 
   useEffect(() => {
     if (entry && open) {
       const data = entry.data || entry.content_data || {};
       setFormData({ ...data });
+      validation.reset();
       setSlug(entry.slug || '');
       setStatus(entry.status || 'draft');
       
@@ -73,25 +95,48 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
     }
   };
 
+  const hasWorkflow = isWorkflowEnabled(contentType?.workflow);
+  const fieldStates = getFieldStates(contentType?.fields || [], formData);
+
+  const accessibility = useAccessibilityAudit();
+  const accessibilityIssues = auditEntry({
+    fields: contentType?.fields || [],
+    data: formData,
+    missingAltUrls: accessibility.missingAltUrls,
+    background: accessibility.theme?.colors.background,
+  });
+
   const handleFieldChange = (fieldName: string, value: any) => {
     setFormData((prev) => ({ ...prev, [fieldName]: value }));
+    validation.touch(fieldName);
   };
 
-  const handleSave = async () => {
+  const handleSave = async ({ skipAccessibility = false } = {}) => {
     if (!entry) return;
 
+    if (!hasWorkflow && status === 'published' && !(await validation.validateAll())) {
+      toast.error(t('editor.fix_fields'));
+      return;
+    }
+
+    const isPublishing = !hasWorkflow && status === 'published' && entry.status !== 'published';
+    if (isPublishing && !skipAccessibility && accessibilityIssues.length > 0) {
+      setShowAccessibilityReview(true);
+      return;
+    }
+
     try {
       setIsSaving(true);
       const updated = await contentApi.updateContentEntry(entry.id, {
         slug,
-        status: status as 'draft' | 'published' | 'archived',
-        data: formData,
+        ...(hasWorkflow ? {} : { status: status as ContentStatus }),
+        data: clearHiddenFields(contentType?.fields || [], formData),
       });
-      toast.success('Content saved successfully');
+      toast.success(t('editor.saved'));
       onSaved(updated);
     } catch (error: any) {
       console.error('Failed to save:', error);
-      toast.error(error.response?.data?.detail || 'Failed to save content');
+      toast.error(error.response?.data?.detail || t('content.edit.save_failed'));
     } finally {
       setIsSaving(false);
     }
@@ -101,7 +146,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
     const value = formData[fieldName];
     const fieldType = fieldDef?.type || 'text';
     const label = fieldDef?.label || fieldName.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-    const isRequired = fieldDef?.required || false;
+    const isRequired = fieldStates[fieldName]?.required ?? (fieldDef?.required || false);
     const helpText = fieldDef?.help_text;
 
     return (
@@ -123,7 +168,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
             type={fieldType === 'email' ? 'email' : fieldType === 'url' ? 'url' : 'text'}
             value={value || ''}
             onChange={(e) => handleFieldChange(fieldName, e.target.value)}
-            placeholder={helpText || `Enter ${label.toLowerCase()}`}
+            placeholder={helpText || t('content.edit.enter', { field: label.toLowerCase() })}
           />
         )}
 
@@ -133,7 +178,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
             id={fieldName}
             value={value || ''}
             onChange={(e) => handleFieldChange(fieldName, e.target.value)}
-            placeholder={helpText || `Enter ${label.toLowerCase()}`}
+            placeholder={helpText || t('content.edit.enter', { field: label.toLowerCase() })}
             rows={4}
           />
         )}
@@ -145,7 +190,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
             type="number"
             value={value ?? ''}
             onChange={(e) => handleFieldChange(fieldName, parseFloat(e.target.value) || 0)}
-            placeholder={helpText || `Enter ${label.toLowerCase()}`}
+            placeholder={helpText || t('content.edit.enter', { field: label.toLowerCase() })}
           />
         )}
 
@@ -158,7 +203,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
               onCheckedChange={(checked) => handleFieldChange(fieldName, checked)}
             />
             <span className="text-sm text-muted-foreground">
-              {value ? 'Yes' : 'No'}
+              {value ? t('editor.preview.yes') : t('editor.preview.no')}
             </span>
           </div>
         )}
@@ -167,7 +212,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
         {fieldType === 'select' && fieldDef?.options && (
           <Select value={value || ''} onValueChange={(val) => handleFieldChange(fieldName, val)}>
             <SelectTrigger>
-              <SelectValue placeholder={`Select ${label.toLowerCase()}`} />
+              <SelectValue placeholder={t('content.edit.select', { field: label.toLowerCase() })} />
             </SelectTrigger>
             <SelectContent>
               {fieldDef.options.map((option: string) => (
@@ -210,7 +255,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
                 id={fieldName}
                 value={value || ''}
                 onChange={(e) => handleFieldChange(fieldName, e.target.value)}
-                placeholder="Enter media URL or click Browse"
+                placeholder={t('content.edit.media_placeholder')}
                 className="flex-1"
               />
               <Button
@@ -222,7 +267,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
                 }}
               >
                 <ImageIcon className="h-4 w-4 mr-2" />
-                Browse
+                {t('content.edit.browse')}
               </Button>
             </div>
             {value && typeof value === 'string' && value.match(/\.(jpg|jpeg|png|gif|webp|svg)$/i) && (
@@ -241,7 +286,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
             id={fieldName}
             value={value || ''}
             onChange={(e) => handleFieldChange(fieldName, e.target.value)}
-            placeholder={helpText || `Enter ${label.toLowerCase()}`}
+            placeholder={helpText || t('content.edit.enter', { field: label.toLowerCase() })}
             rows={6}
             className="font-mono text-sm"
           />
@@ -267,19 +312,45 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
           />
         )}
 
+        {/* Reference to other entries */}
+        {fieldType === 'reference' && (
+          <ReferenceFieldPicker
+            id={fieldName}
+            value={value}
+            onChange={(ids) => handleFieldChange(fieldName, ids)}
+            multiple={fieldDef?.multiple}
+            allowedContentTypes={fieldDef?.allowed_content_types}
+            excludeId={entry?.id}
+          />
+        )}
+
+        {/* Repeatable blocks */}
+        {fieldType === 'components' && (
+          <BlocksFieldEditor
+            id={fieldName}
+            value={value}
+            onChange={(blocks) => handleFieldChange(fieldName, blocks)}
+            blocks={fieldDef?.blocks || []}
+            entryId={entry?.id}
+          />
+        )}
+
         {/* Fallback for unknown types */}
-        {!['text', 'string', 'email', 'url', 'textarea', 'number', 'boolean', 'select', 'json', 'array', 'object', 'media', 'image', 'file', 'richtext', 'html', 'wysiwyg', 'date', 'datetime'].includes(fieldType) && (
+        {!['text', 'string', 'email', 'url', 'textarea', 'number', 'boolean', 'select', 'json', 'array', 'object', 'media', 'image', 'file', 'richtext', 'html', 'wysiwyg', 'date', 'datetime', 'reference', 'components'].includes(fieldType) && (
           <Input
             id={fieldName}
             value={typeof value === 'object' ? JSON.stringify(value) : (value || '')}
             onChange={(e) => handleFieldChange(fieldName, e.target.value)}
-            placeholder={helpText || `Enter ${label.toLowerCase()}`}
+            placeholder={helpText || t('content.edit.enter', { field: label.toLowerCase() })}
           />
         )}
 
         {helpText && (
           <p className="text-xs text-muted-foreground">{helpText}</p>
         )}
+        {validation.errors[fieldName] && (
+          <p className="text-xs text-destructive">{validation.errors[fieldName]}</p>
+        )}
       </div>
     );
   };
@@ -308,24 +379,24 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
               </Button>
             )}
             <div>
-              <DialogTitle className="text-xl font-semibold">Edit: {displayTitle}</DialogTitle>
+              <DialogTitle className="text-xl font-semibold">{t('content.edit.title', { title: displayTitle })}</DialogTitle>
               <p className="text-sm text-muted-foreground mt-1">
-                {contentType?.name || 'Loading...'}
+                {contentType?.name || t('content.edit.loading')}
               </p>
             </div>
           </div>
           <div className="flex items-center gap-2">
             <Button variant="outline" size="sm" onClick={onClose} disabled={isSaving}>
               <X className="h-4 w-4 mr-2" />
-              Cancel
+              {t('content.edit.cancel')}
             </Button>
-            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+            <Button size="sm" onClick={() => handleSave()} disabled={isSaving}>
               {isSaving ? (
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
               ) : (
                 <Save className="h-4 w-4 mr-2" />
               )}
-              Save Changes
+              {t('content.edit.save')}
             </Button>
           </div>
         </div>
@@ -342,7 +413,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
               <div className="grid gap-4 md:grid-cols-2 p-4 bg-muted/30 rounded-lg border">
                 <div className="space-y-2">
                   <Label htmlFor="slug" className="font-medium">
-                    Slug <span className="text-red-500">*</span>
+                    {t('content.edit.slug')} <span className="text-red-500">*</span>
                   </Label>
                   <Input
                     id="slug"
@@ -352,26 +423,30 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="status" className="font-medium">Status</Label>
-                  <Select value={status} onValueChange={setStatus}>
+                  <Label htmlFor="status" className="font-medium">{t('content.edit.status')}</Label>
+                  <Select value={status} onValueChange={setStatus} disabled={hasWorkflow}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="draft">Draft</SelectItem>
-                      <SelectItem value="published">Published</SelectItem>
-                      <SelectItem value="archived">Archived</SelectItem>
+                      <SelectItem value="draft">{t('content.status.draft')}</SelectItem>
+                      <SelectItem value="scheduled" disabled>{t('content.status.scheduled')}</SelectItem>
+                      <SelectItem value="published">{t('content.status.published')}</SelectItem>
+                      <SelectItem value="archived">{t('content.status.archived')}</SelectItem>
                     </SelectContent>
                   </Select>
+                  {hasWorkflow && (
+                    <p className="text-xs text-muted-foreground">{t('editor.settings.workflow_managed')}</p>
+                  )}
                 </div>
               </div>
 
               {/* Content Type Fields */}
               {fields.length > 0 && (
                 <div className="space-y-6">
-                  <h3 className="text-lg font-semibold border-b pb-2">Content Fields</h3>
+                  <h3 className="text-lg font-semibold border-b pb-2">{t('content.edit.fields')}</h3>
                   <div className="grid gap-6 md:grid-cols-2">
-                    {fields.map((field: any) => {
+                    {fields.filter((field) => fieldStates[field.name]?.visible !== false).map((field: any) => {
                       const isComplex = ['json', 'array', 'object', 'richtext', 'html', 'wysiwyg', 'textarea'].includes(field.type);
                       return (
                         <div key={field.name} className={isComplex ? 'md:col-span-2' : ''}>
@@ -387,7 +462,7 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
               {extraKeys.length > 0 && (
                 <div className="space-y-6">
                   <h3 className="text-lg font-semibold border-b pb-2 text-muted-foreground">
-                    Additional Fields
+                    {t('content.edit.additional_fields')}
                   </h3>
                   <div className="grid gap-6 md:grid-cols-2">
                     {extraKeys.map((key) => {
@@ -417,6 +492,17 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
         }}
         onSelect={(media: Media) => {
           if (mediaPickerField) {
+            const fieldDef = contentType?.fields?.find((f) => f.name === mediaPickerField);
+            const allowedMimeTypes = fieldDef ? getValidationRules(fieldDef).allowedMimeTypes : undefined;
+            if (!isMimeTypeAllowed(media.mime_type, allowedMimeTypes)) {
+              toast.error(
+                t('editor.media_not_allowed', {
+                  field: fieldDef?.label || mediaPickerField,
+                  types: allowedMimeTypes?.join(', ') ?? '',
+                })
+              );
+              return;
+            }
             // Use primary url field, fallback to public_url or storage_path for backward compatibility
             const mediaUrl = media.url || media.public_url || media.storage_path;
             handleFieldChange(mediaPickerField, mediaUrl);
@@ -426,6 +512,33 @@ export function ContentEditDialog({ entry, open, onClose, onSaved, onBack }: Con
         }}
         fileType={mediaPickerFileType}
       />
+
+      {showAccessibilityReview && (
+        <Dialog open onOpenChange={(isOpen) => !isOpen && setShowAccessibilityReview(false)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t('editor.a11y.title')}</DialogTitle>
+              <DialogDescription>
+                {t('editor.a11y.description', { count: accessibilityIssues.length })}
+              </DialogDescription>
+            </DialogHeader>
+            <AccessibilityChecklist issues={accessibilityIssues} />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowAccessibilityReview(false)}>
+                {t('editor.a11y.keep_editing')}
+              </Button>
+              <Button
+                onClick={() => {
+                  setShowAccessibilityReview(false);
+                  handleSave({ skipAccessibility: true });
+                }}
+              >
+                {t('editor.a11y.publish_anyway')}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
     </Dialog>
   );
 }
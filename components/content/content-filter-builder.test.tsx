@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ContentFilterBuilder } from './content-filter-builder';
+import { userApi } from '@/lib/api';
+import { ContentTypeField } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  userApi: { listUsers: vi.fn() },
+}));
+
+const fields: ContentTypeField[] = [
+  { name: 'title', type: 'text', label: 'Title' },
+  { name: 'price', type: 'number', label: 'Price' },
+  { name: 'color', type: 'select', label: 'Color', options: ['red', 'blue'] },
+];
+
+describe('ContentFilterBuilder', () => {
+  const onApply = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(userApi.listUsers).mockResolvedValue({ users: [], total: 0 });
+  });
+
+  it('should apply edited filters', async () => {
+    const user = userEvent.setup();
+    render(
+      <ContentFilterBuilder
+        fields={fields}
+        filters={[
+          { field: 'title', op: 'contains', value: '' },
+          { field: 'price', op: 'between', value: '', to: '' },
+        ]}
+        onApply={onApply}
+      />
+    );
+
+    await user.type(screen.getByLabelText('Title contains'), 'hat');
+    await user.type(screen.getByLabelText('Price maximum'), '50');
+    await user.click(screen.getByRole('button', { name: 'Apply Filters' }));
+
+    expect(onApply).toHaveBeenCalledWith([
+      { field: 'title', op: 'contains', value: 'hat' },
+      { field: 'price', op: 'between', value: '', to: '50' },
+    ]);
+  });
+
+  it('should pick select options with checkboxes', async () => {
+    const user = userEvent.setup();
+    render(<ContentFilterBuilder fields={fields} filters={[{ field: 'color', op: 'in', values: [] }]} onApply={onApply} />);
+
+    await user.click(screen.getByRole('checkbox', { name: 'blue' }));
+    await user.click(screen.getByRole('button', { name: 'Apply Filters' }));
+
+    expect(onApply).toHaveBeenCalledWith([{ field: 'color', op: 'in', values: ['blue'] }]);
+  });
+
+  it('should remove and clear filters', async () => {
+    const user = userEvent.setup();
+    render(
+      <ContentFilterBuilder fields={fields} filters={[{ field: 'title', op: 'contains', value: 'hat' }]} onApply={onApply} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Remove Title filter' }));
+    expect(screen.queryAllByTestId('filter-row')).toHaveLength(0);
+
+    await user.click(screen.getByRole('button', { name: 'Clear Filters' }));
+    expect(onApply).toHaveBeenCalledWith([]);
+  });
+
+  it('should add a filter for a field', async () => {
+    const user = userEvent.setup();
+    render(<ContentFilterBuilder fields={fields} filters={[]} onApply={onApply} />);
+
+    await user.click(screen.getByRole('button', { name: 'Add Filter' }));
+    await user.click(await screen.findByRole('menuitem', { name: 'Price' }));
+
+    expect(screen.getByLabelText('Price minimum')).toBeInTheDocument();
+  });
+
+  it('should load users for an author filter', async () => {
+    render(<ContentFilterBuilder fields={[]} filters={[{ field: '$author', op: 'equals', value: '' }]} onApply={onApply} />);
+
+    await waitFor(() => {
+      expect(userApi.listUsers).toHaveBeenCalled();
+    });
+    expect(screen.getByLabelText('Author')).toHaveTextContent('Select a user');
+  });
+});
@@ -0,0 +1,265 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { userApi } from '@/lib/api';
+import {
+  AUTHOR_FILTER,
+  createFilter,
+  FilterKind,
+  getFilterableFields,
+  getFilterKind,
+  UPDATED_FILTER,
+  ViewFilter,
+} from '@/lib/content-views';
+import { getSelectOptions } from '@/lib/field-types';
+import { ContentTypeField, UserListItem } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Plus, X } from 'lucide-react';
+
+interface ContentFilterBuilderProps {
+  /** Fields of the selected content type; empty when filtering across all types */
+  fields: ContentTypeField[];
+  /** Applied filters. Remount the builder (key) when they change from outside. */
+  filters: ViewFilter[];
+  onApply: (filters: ViewFilter[]) => void;
+}
+
+const getUserName = (user: UserListItem) =>
+  [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email;
+
+export function ContentFilterBuilder({ fields, filters, onApply }: ContentFilterBuilderProps) {
+  const [draft, setDraft] = useState<ViewFilter[]>(filters);
+  const [users, setUsers] = useState<UserListItem[] | null>(null);
+
+  const needsUsers = draft.some((filter) => filter.field === AUTHOR_FILTER);
+
+  useEffect(() => {
+    if (!needsUsers || users !== null) return;
+    let cancelled = false;
+    userApi
+      .listUsers()
+      .then((response) => {
+        if (!cancelled) setUsers(response.users);
+      })
+      .catch((err) => {
+        console.error('Failed to load users:', err);
+        if (!cancelled) setUsers([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [needsUsers, users]);
+
+  const getField = (name: string) => fields.find((field) => field.name === name);
+
+  const getKind = (name: string): FilterKind | null => {
+    if (name === AUTHOR_FILTER) return 'author';
+    if (name === UPDATED_FILTER) return 'updated';
+    const field = getField(name);
+    return field ? getFilterKind(field) : null;
+  };
+
+  const getLabel = (name: string) => {
+    if (name === AUTHOR_FILTER) return 'Author';
+    if (name === UPDATED_FILTER) return 'Updated since';
+    return getField(name)?.label || name;
+  };
+
+  const update = (index: number, changes: Partial<ViewFilter>) => {
+    setDraft((prev) => prev.map((filter, i) => (i === index ? { ...filter, ...changes } : filter)));
+  };
+
+  const add = (name: string) => {
+    const kind = getKind(name);
+    if (kind) setDraft((prev) => [...prev, createFilter(name, kind)]);
+  };
+
+  const remove = (index: number) => {
+    setDraft((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const used = draft.map((filter) => filter.field);
+  const available = getFilterableFields(fields).filter((field) => !used.includes(field.name));
+
+  const renderInputs = (filter: ViewFilter, index: number) => {
+    const label = getLabel(filter.field);
+    switch (getKind(filter.field)) {
+      case 'number':
+      case 'date': {
+        const type = getKind(filter.field) === 'number' ? 'number' : 'date';
+        return (
+          <>
+            <Input
+              type={type}
+              className="h-8 w-36"
+              value={filter.value || ''}
+              onChange={(e) => update(index, { value: e.target.value })}
+              placeholder={type === 'number' ? 'Min' : undefined}
+              aria-label={`${label} ${type === 'number' ? 'minimum' : 'from'}`}
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type={type}
+              className="h-8 w-36"
+              value={filter.to || ''}
+              onChange={(e) => update(index, { to: e.target.value })}
+              placeholder={type === 'number' ? 'Max' : undefined}
+              aria-label={`${label} ${type === 'number' ? 'maximum' : 'to'}`}
+            />
+          </>
+        );
+      }
+      case 'select': {
+        const field = getField(filter.field);
+        const values = filter.values || [];
+        return field ? (
+          <div className="flex flex-wrap gap-3">
+            {getSelectOptions(field).map((option) => (
+              <label key={option.value} className="flex items-center gap-1.5">
+                <Checkbox
+                  checked={values.includes(option.value)}
+                  onCheckedChange={(checked) =>
+                    update(index, {
+                      values: checked === true
+                        ? [...values, option.value]
+                        : values.filter((value) => value !== option.value),
+                    })
+                  }
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        ) : null;
+      }
+      case 'boolean':
+        return (
+          <Select value={filter.value || 'true'} onValueChange={(value) => update(index, { value })}>
+            <SelectTrigger className="h-8 w-28" aria-label={`${label} value`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="true">Yes</SelectItem>
+              <SelectItem value="false">No</SelectItem>
+            </SelectContent>
+          </Select>
+        );
+      case 'author':
+        return (
+          <Select value={filter.value || ''} onValueChange={(value) => update(index, { value })}>
+            <SelectTrigger className="h-8 w-56" aria-label="Author">
+              <SelectValue placeholder={users === null ? 'Loading users...' : 'Select a user'} />
+            </SelectTrigger>
+            <SelectContent>
+              {(users || []).map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {getUserName(user)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'updated':
+        return (
+          <Input
+            type="date"
+            className="h-8 w-40"
+            value={filter.value || ''}
+            onChange={(e) => update(index, { value: e.target.value })}
+            aria-label="Updated since"
+          />
+        );
+      default:
+        return (
+          <Input
+            className="h-8 w-56"
+            value={filter.value || ''}
+            onChange={(e) => update(index, { value: e.target.value })}
+            placeholder="Contains..."
+            aria-label={`${label} contains`}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {draft.map((filter, index) => (
+        <div key={filter.field} className="flex flex-wrap items-center gap-2 text-sm" data-testid="filter-row">
+          <span className="w-32 font-medium truncate">{getLabel(filter.field)}</span>
+          {renderInputs(filter, index)}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => remove(index)}
+            aria-label={`Remove ${getLabel(filter.field)} filter`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Filter
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {!used.includes(AUTHOR_FILTER) && (
+              <DropdownMenuItem onClick={() => add(AUTHOR_FILTER)}>Author</DropdownMenuItem>
+            )}
+            {!used.includes(UPDATED_FILTER) && (
+              <DropdownMenuItem onClick={() => add(UPDATED_FILTER)}>Updated since</DropdownMenuItem>
+            )}
+            {available.length > 0 && <DropdownMenuSeparator />}
+            {available.map((field) => (
+              <DropdownMenuItem key={field.name} onClick={() => add(field.name)}>
+                {field.label || field.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {(draft.length > 0 || filters.length > 0) && (
+          <>
+            <Button size="sm" onClick={() => onApply(draft)}>
+              Apply Filters
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft([]);
+                onApply([]);
+              }}
+            >
+              Clear Filters
+            </Button>
+          </>
+        )}
+        {fields.length === 0 && (
+          <span className="text-xs text-muted-foreground">Select a content type to filter on its fields</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { formatCellValue } from '@/lib/content-views';
+import { ContentEntry, ContentTypeField } from '@/types';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+
+interface ContentTableProps {
+  entries: ContentEntry[];
+  /** Data fields shown as columns between the title and status */
+  columns: ContentTypeField[];
+  /** API sort key, e.g. data.price or updated_at */
+  sort?: string;
+  order?: 'asc' | 'desc';
+  onSortChange: (sort: string, order: 'asc' | 'desc') => void;
+  getTitle: (entry: ContentEntry) => string;
+  renderStatus: (entry: ContentEntry) => ReactNode;
+  renderActions: (entry: ContentEntry) => ReactNode;
+  isSelected: (entry: ContentEntry) => boolean;
+  onToggle: (entry: ContentEntry, checked: boolean) => void;
+  onOpen: (entry: ContentEntry) => void;
+}
+
+export function ContentTable({
+  entries,
+  columns,
+  sort,
+  order = 'asc',
+  onSortChange,
+  getTitle,
+  renderStatus,
+  renderActions,
+  isSelected,
+  onToggle,
+  onOpen,
+}: ContentTableProps) {
+  const renderSortHeader = (key: string, label: string) => {
+    const active = sort === key;
+    const Icon = !active ? ArrowUpDown : order === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <TableHead key={key} aria-sort={active ? (order === 'asc' ? 'ascending' : 'descending') : 'none'}>
+        <button
+          className="flex items-center gap-1 hover:text-foreground"
+          onClick={() => onSortChange(key, active && order === 'asc' ? 'desc' : 'asc')}
+        >
+          {label}
+          <Icon className="h-3 w-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  return (
+    <div className="rounded-md border" data-testid="content-table">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10" />
+            <TableHead>Title</TableHead>
+            {columns.map((field) => renderSortHeader(`data.${field.name}`, field.label || field.name))}
+            {renderSortHeader('status', 'Status')}
+            {renderSortHeader('updated_at', 'Updated')}
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map((entry) => {
+            const data = entry.data || entry.content_data || {};
+            return (
+              <TableRow key={entry.id} data-state={isSelected(entry) ? 'selected' : undefined}>
+                <TableCell>
+                  <Checkbox
+                    checked={isSelected(entry)}
+                    onCheckedChange={(checked) => onToggle(entry, checked === true)}
+                    aria-label={`Select ${getTitle(entry)}`}
+                  />
+                </TableCell>
+                <TableCell className="font-medium">
+                  <button className="hover:underline text-left" onClick={() => onOpen(entry)}>
+                    {getTitle(entry)}
+                  </button>
+                </TableCell>
+                {columns.map((field) => (
+                  <TableCell key={field.name} className="max-w-xs truncate">
+                    {formatCellValue(data[field.name])}
+                  </TableCell>
+                ))}
+                <TableCell>{renderStatus(entry)}</TableCell>
+                <TableCell className="text-muted-foreground whitespace-nowrap">
+                  {entry.updated_at ? new Date(entry.updated_at).toLocaleDateString() : ''}
+                </TableCell>
+                <TableCell>{renderActions(entry)}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
@@ -9,6 +9,7 @@ import { toast } from 'sonner';
 vi.mock('@/lib/api', () => ({
   contentApi: {
     getContentType: vi.fn(),
+    getContentEntry: vi.fn(),
   },
 }));
 
@@ -401,6 +402,30 @@ describe('ContentViewDialog', () => {
     });
   });
 
+  describe('Reference Values', () => {
+    it('should render reference fields as links to the linked entries', async () => {
+      vi.mocked(contentApi.getContentType).mockResolvedValue({
+        ...mockContentType,
+        fields: [...mockContentType.fields, { name: 'related', type: 'reference', label: 'Related', multiple: true }],
+      });
+      vi.mocked(contentApi.getContentEntry).mockResolvedValue({
+        id: 'entry-2',
+        slug: 'other-post',
+        status: 'published',
+        content_type_id: 'type-1',
+        data: { title: 'Other Post' },
+      });
+
+      render(
+        <ContentViewDialog {...defaultProps} entry={{ ...mockEntry, data: { title: 'Test', related: ['entry-2'] } }} />
+      );
+
+      const link = await screen.findByRole('link', { name: /Other Post/ });
+      expect(link).toHaveAttribute('href', '/dashboard/content/entry-2');
+      expect(screen.queryByTestId('json-viewer-related')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Long Text Handling', () => {
     it('should render long text in scrollable container', async () => {
       render(<ContentViewDialog {...defaultProps} />);
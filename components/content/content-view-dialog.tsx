@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { ContentEntry, ContentType } from '@/types';
+import { ContentBlockSchema, ContentEntry, ContentType } from '@/types';
 import { contentApi } from '@/lib/api';
 import { resolveMediaUrl } from '@/lib/api/client';
 import { Button } from '@/components/ui/button';
@@ -15,6 +15,9 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Edit, X, Copy, ExternalLink, Calendar, User, Hash, Image as ImageIcon, FileIcon, Play, Music } from 'lucide-react';
 import { JsonFieldEditor } from './json-field-editor';
+import { ReferenceChips } from './reference-chips';
+import { BlockPreview } from './block-preview';
+import { getBlocks } from '@/lib/blocks';
 import { toast } from 'sonner';
 
 interface ContentViewDialogProps {
@@ -60,6 +63,7 @@ export function ContentViewDialog({ entry, open, onClose, onEdit }: ContentViewD
     switch (status) {
       case 'published': return 'bg-green-100 text-green-800 border-green-200';
       case 'draft': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
+      case 'scheduled': return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'archived': return 'bg-gray-100 text-gray-800 border-gray-200';
       default: return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -85,6 +89,26 @@ export function ContentViewDialog({ entry, open, onClose, onEdit }: ContentViewD
       );
     }
 
+    // Reference - linked entry chips
+    if (fieldType === 'reference') {
+      return <ReferenceChips value={value} />;
+    }
+
+    // Components - each block with its own layout
+    if (fieldType === 'components') {
+      return (
+        <div className="space-y-4">
+          {getBlocks(value).map((block) => (
+            <BlockPreview
+              key={block.id}
+              block={block}
+              schema={fieldDef?.blocks?.find((b: ContentBlockSchema) => b.key === block.block)}
+            />
+          ))}
+        </div>
+      );
+    }
+
     // Array or Object - use JsonFieldEditor in read-only mode
     if (typeof value === 'object') {
       return <JsonFieldEditor value={value} onChange={() => {}} fieldName={key} readOnly />;
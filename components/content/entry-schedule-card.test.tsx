@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { EntryScheduleCard } from './entry-schedule-card';
+import { contentApi } from '@/lib/api';
+import { toast } from 'sonner';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    scheduleContentEntry: vi.fn(),
+    cancelContentEntrySchedule: vi.fn(),
+  },
+}));
+
+vi.mock('@/hooks/use-org-timezone', () => ({
+  useOrgTimezone: () => ({ timezone: 'America/New_York', isLoading: false }),
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('EntryScheduleCard', () => {
+  const baseEntry = {
+    id: 'entry-1',
+    content_type_id: 't1',
+    slug: 'launch',
+    status: 'draft' as const,
+  };
+  const onScheduled = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the existing schedule in the org timezone', () => {
+    render(
+      <EntryScheduleCard
+        entry={{ ...baseEntry, status: 'scheduled', publish_at: '2099-03-01T05:00:00Z' }}
+        onScheduled={onScheduled}
+      />
+    );
+
+    expect(screen.getByText(/America\/New_York/)).toBeInTheDocument();
+    expect(screen.getByLabelText('Publish at')).toHaveValue('2099-03-01T00:00');
+    expect(screen.getByRole('button', { name: /Clear/i })).toBeInTheDocument();
+  });
+
+  it('should convert picked times to UTC when saving', async () => {
+    const user = userEvent.setup();
+    const scheduled = { ...baseEntry, status: 'scheduled' as const, publish_at: '2099-03-01T05:00:00.000Z' };
+    vi.mocked(contentApi.scheduleContentEntry).mockResolvedValue(scheduled);
+    render(<EntryScheduleCard entry={baseEntry} onScheduled={onScheduled} />);
+
+    fireEvent.change(screen.getByLabelText('Publish at'), { target: { value: '2099-03-01T00:00' } });
+    fireEvent.change(screen.getByLabelText('Unpublish at'), { target: { value: '2099-03-08T00:00' } });
+    await user.click(screen.getByRole('button', { name: 'Save Schedule' }));
+
+    await waitFor(() => {
+      expect(contentApi.scheduleContentEntry).toHaveBeenCalledWith('entry-1', {
+        publish_at: '2099-03-01T05:00:00.000Z',
+        unpublish_at: '2099-03-08T05:00:00.000Z',
+      });
+      expect(onScheduled).toHaveBeenCalledWith(scheduled);
+    });
+  });
+
+  it('should reject an unpublish time before the publish time', async () => {
+    const user = userEvent.setup();
+    render(<EntryScheduleCard entry={baseEntry} onScheduled={onScheduled} />);
+
+    fireEvent.change(screen.getByLabelText('Publish at'), { target: { value: '2099-03-08T00:00' } });
+    fireEvent.change(screen.getByLabelText('Unpublish at'), { target: { value: '2099-03-01T00:00' } });
+    await user.click(screen.getByRole('button', { name: 'Save Schedule' }));
+
+    expect(toast.error).toHaveBeenCalledWith('Unpublish time must be after the publish time');
+    expect(contentApi.scheduleContentEntry).not.toHaveBeenCalled();
+  });
+
+  it('should reject a publish time in the past', async () => {
+    const user = userEvent.setup();
+    render(<EntryScheduleCard entry={baseEntry} onScheduled={onScheduled} />);
+
+    fireEvent.change(screen.getByLabelText('Publish at'), { target: { value: '2000-01-01T00:00' } });
+    await user.click(screen.getByRole('button', { name: 'Save Schedule' }));
+
+    expect(toast.error).toHaveBeenCalledWith('Publish time must be in the future');
+  });
+
+  it('should reject an unpublish time in the past', async () => {
+    const user = userEvent.setup();
+    render(<EntryScheduleCard entry={{ ...baseEntry, status: 'published' }} onScheduled={onScheduled} />);
+
+    fireEvent.change(screen.getByLabelText('Unpublish at'), { target: { value: '2000-01-01T00:00' } });
+    await user.click(screen.getByRole('button', { name: 'Save Schedule' }));
+
+    expect(toast.error).toHaveBeenCalledWith('Unpublish time must be in the future');
+    expect(contentApi.scheduleContentEntry).not.toHaveBeenCalled();
+  });
+
+  it('should not schedule a publish the pre-publish checks refuse', async () => {
+    const user = userEvent.setup();
+    const onBeforePublish = vi.fn().mockResolvedValue(false);
+    render(<EntryScheduleCard entry={baseEntry} onScheduled={onScheduled} onBeforePublish={onBeforePublish} />);
+
+    fireEvent.change(screen.getByLabelText('Publish at'), { target: { value: '2099-03-01T00:00' } });
+    await user.click(screen.getByRole('button', { name: 'Save Schedule' }));
+
+    await waitFor(() => expect(onBeforePublish).toHaveBeenCalled());
+    expect(contentApi.scheduleContentEntry).not.toHaveBeenCalled();
+  });
+
+  it('should keep a past publish time that was not changed', async () => {
+    const user = userEvent.setup();
+    const published = { ...baseEntry, status: 'published' as const, publish_at: '2000-01-01T05:00:30+00:00' };
+    vi.mocked(contentApi.scheduleContentEntry).mockResolvedValue(published);
+    render(<EntryScheduleCard entry={published} onScheduled={onScheduled} />);
+
+    fireEvent.change(screen.getByLabelText('Unpublish at'), { target: { value: '2099-03-08T00:00' } });
+    await user.click(screen.getByRole('button', { name: 'Save Schedule' }));
+
+    await waitFor(() => {
+      expect(contentApi.scheduleContentEntry).toHaveBeenCalledWith('entry-1', {
+        publish_at: '2000-01-01T05:00:30+00:00',
+        unpublish_at: '2099-03-08T05:00:00.000Z',
+      });
+    });
+    expect(toast.error).not.toHaveBeenCalled();
+  });
+
+  it('should clear an existing schedule', async () => {
+    const user = userEvent.setup();
+    const cleared = { ...baseEntry, publish_at: null, unpublish_at: null };
+    vi.mocked(contentApi.cancelContentEntrySchedule).mockResolvedValue(cleared);
+    render(
+      <EntryScheduleCard
+        entry={{ ...baseEntry, status: 'scheduled', publish_at: '2099-03-01T05:00:00Z' }}
+        onScheduled={onScheduled}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /Clear/i }));
+
+    await waitFor(() => {
+      expect(contentApi.cancelContentEntrySchedule).toHaveBeenCalledWith('entry-1');
+      expect(onScheduled).toHaveBeenCalledWith(cleared);
+      expect(toast.success).toHaveBeenCalledWith('Schedule cleared');
+    });
+  });
+});
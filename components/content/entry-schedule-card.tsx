@@ -0,0 +1,147 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { contentApi } from '@/lib/api';
+import { useOrgTimezone } from '@/hooks/use-org-timezone';
+import { useI18n } from '@/contexts/i18n-context';
+import {
+  toZonedInputValue,
+  fromZonedInputValue,
+  formatInTimezone,
+  getTimezoneLabel,
+} from '@/lib/timezone';
+import { ContentEntry } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarClock, X } from 'lucide-react';
+
+interface EntryScheduleCardProps {
+  entry: ContentEntry;
+  onScheduled: (entry: ContentEntry) => void;
+  /** Runs before a publish time is scheduled; resolve false to cancel */
+  onBeforePublish?: () => Promise<boolean>;
+}
+
+// The inputs only hold minutes, so saved times are compared to the minute
+function isSameMinute(a: string, b: string): boolean {
+  return Math.floor(new Date(a).getTime() / 60000) === Math.floor(new Date(b).getTime() / 60000);
+}
+
+export function EntryScheduleCard({ entry, onScheduled, onBeforePublish }: EntryScheduleCardProps) {
+  const { t } = useI18n();
+  const { timezone } = useOrgTimezone();
+  const [publishAt, setPublishAt] = useState('');
+  const [unpublishAt, setUnpublishAt] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Re-render the saved schedule whenever the entry or timezone changes
+  useEffect(() => {
+    setPublishAt(toZonedInputValue(entry.publish_at, timezone));
+    setUnpublishAt(toZonedInputValue(entry.unpublish_at, timezone));
+  }, [entry.publish_at, entry.unpublish_at, timezone]);
+
+  const hasSchedule = !!(entry.publish_at || entry.unpublish_at);
+
+  const handleSave = async () => {
+    const publishIso = fromZonedInputValue(publishAt, timezone);
+    const unpublishIso = fromZonedInputValue(unpublishAt, timezone);
+
+    if (!publishIso && !unpublishIso) {
+      toast.error(t('editor.schedule.time_required'));
+      return;
+    }
+    const publishUnchanged = !!publishIso && !!entry.publish_at && isSameMinute(publishIso, entry.publish_at);
+    if (publishIso && new Date(publishIso) <= new Date() && !publishUnchanged) {
+      toast.error(t('editor.schedule.publish_in_past'));
+      return;
+    }
+    if (unpublishIso && new Date(unpublishIso) <= new Date()) {
+      toast.error(t('editor.schedule.unpublish_in_past'));
+      return;
+    }
+    if (publishIso && unpublishIso && new Date(unpublishIso) <= new Date(publishIso)) {
+      toast.error(t('editor.schedule.unpublish_before_publish'));
+      return;
+    }
+    if (publishIso && !publishUnchanged && onBeforePublish && !(await onBeforePublish())) return;
+
+    try {
+      setIsSaving(true);
+      const updated = await contentApi.scheduleContentEntry(entry.id, {
+        publish_at: publishUnchanged ? entry.publish_at : publishIso,
+        unpublish_at: unpublishIso,
+      });
+      toast.success(
+        publishIso
+          ? t('editor.schedule.scheduled_publish', { date: formatInTimezone(publishIso, timezone) })
+          : t('editor.schedule.scheduled_unpublish', { date: formatInTimezone(unpublishIso, timezone) })
+      );
+      onScheduled(updated);
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(t('editor.schedule.save_failed', { error: error.response?.data?.detail || error.message }));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      setIsSaving(true);
+      const updated = await contentApi.cancelContentEntrySchedule(entry.id);
+      toast.success(t('editor.schedule.cleared'));
+      onScheduled(updated);
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(t('editor.schedule.clear_failed', { error: error.response?.data?.detail || error.message }));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          {t('editor.schedule.title')}
+        </CardTitle>
+        <CardDescription>{t('editor.schedule.timezone', { timezone: getTimezoneLabel(timezone) })}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="publish-at">{t('editor.schedule.publish_at')}</Label>
+          <Input
+            id="publish-at"
+            type="datetime-local"
+            value={publishAt}
+            onChange={(e) => setPublishAt(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="unpublish-at">{t('editor.schedule.unpublish_at')}</Label>
+          <Input
+            id="unpublish-at"
+            type="datetime-local"
+            value={unpublishAt}
+            onChange={(e) => setUnpublishAt(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button className="flex-1" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? t('editor.schedule.saving') : t('editor.schedule.save')}
+          </Button>
+          {hasSchedule && (
+            <Button variant="outline" onClick={handleClear} disabled={isSaving}>
+              <X className="h-4 w-4 mr-1" />
+              {t('editor.schedule.clear')}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
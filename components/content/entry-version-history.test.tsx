@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { EntryVersionHistory } from './entry-version-history';
+import { contentApi } from '@/lib/api';
+import { toast } from 'sonner';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getEntryVersions: vi.fn(),
+    restoreEntryVersion: vi.fn(),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('EntryVersionHistory', () => {
+  const fields = [
+    { name: 'title', type: 'text', label: 'Title' },
+    { name: 'body', type: 'richtext', label: 'Body' },
+    { name: 'seo', type: 'json', label: 'SEO' },
+  ];
+
+  const mockVersions = [
+    {
+      id: 'v1',
+      content_entry_id: 'entry-1',
+      version: 1,
+      status: 'draft' as const,
+      data: { title: 'First Title', body: '<p>Intro</p>', seo: { title: 'Old SEO' } },
+      author_name: 'Jane Editor',
+      created_at: '2025-01-01T10:00:00Z',
+    },
+    {
+      id: 'v2',
+      content_entry_id: 'entry-1',
+      version: 2,
+      status: 'published' as const,
+      data: { title: 'Current Title', body: '<p>Intro</p><p>More</p>', seo: { title: 'New SEO' } },
+      author: { id: 'u1', email: 'sam@example.com', organization_id: 'org-1' },
+      created_at: '2025-01-02T10:00:00Z',
+    },
+  ];
+
+  const currentData = { title: 'Current Title', body: '<p>Intro</p><p>More</p>', seo: { title: 'New SEO' } };
+  const onRestored = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(contentApi.getEntryVersions).mockResolvedValue(mockVersions);
+  });
+
+  const renderHistory = () =>
+    render(
+      <EntryVersionHistory
+        entryId="entry-1"
+        fields={fields}
+        currentData={currentData}
+        currentVersion={2}
+        onRestored={onRestored}
+      />
+    );
+
+  it('should list revisions newest first with author and status', async () => {
+    renderHistory();
+
+    await waitFor(() => {
+      expect(contentApi.getEntryVersions).toHaveBeenCalledWith('entry-1');
+    });
+
+    const items = await screen.findAllByRole('listitem');
+    expect(items[0]).toHaveTextContent('Version 2');
+    expect(items[0]).toHaveTextContent('sam@example.com');
+    expect(items[0]).toHaveTextContent('Current version');
+    expect(items[1]).toHaveTextContent('Version 1');
+    expect(items[1]).toHaveTextContent('Jane Editor');
+    expect(items[1]).toHaveTextContent('Draft');
+  });
+
+  it('should preselect the latest non-current revision and show changed fields', async () => {
+    renderHistory();
+
+    expect(await screen.findByText('Version 1 compared to current')).toBeInTheDocument();
+    expect(screen.getByText('3 fields changed')).toBeInTheDocument();
+    expect(screen.getByTestId('diff-title')).toHaveTextContent('First Title');
+    expect(screen.getByTestId('diff-title')).toHaveTextContent('Current Title');
+    expect(screen.getByTestId('diff-seo')).toHaveTextContent('title: Old SEO');
+    expect(screen.getByTestId('diff-seo')).toHaveTextContent('title: New SEO');
+  });
+
+  it('should show no differences when comparing against the current version', async () => {
+    const user = userEvent.setup();
+    renderHistory();
+
+    const items = await screen.findAllByRole('listitem');
+    await user.click(items[0]);
+
+    expect(screen.getByText('No differences from the current content')).toBeInTheDocument();
+  });
+
+  it('should restore the selected version after confirmation', async () => {
+    const user = userEvent.setup();
+    const restored = { id: 'entry-1', content_type_id: 't1', slug: 'entry', status: 'draft' as const, version: 3 };
+    vi.mocked(contentApi.restoreEntryVersion).mockResolvedValue(restored);
+    renderHistory();
+
+    await user.click(await screen.findByRole('button', { name: /Restore this version/i }));
+    await user.click(screen.getByRole('button', { name: 'Restore' }));
+
+    await waitFor(() => {
+      expect(contentApi.restoreEntryVersion).toHaveBeenCalledWith('entry-1', 1);
+      expect(onRestored).toHaveBeenCalledWith(restored);
+      expect(toast.success).toHaveBeenCalledWith('Version 1 restored as a new draft');
+    });
+  });
+
+  it('should show empty state when there is no history', async () => {
+    vi.mocked(contentApi.getEntryVersions).mockResolvedValue([]);
+    renderHistory();
+
+    expect(await screen.findByText('No previous versions yet')).toBeInTheDocument();
+  });
+
+  it('should show an error toast when history fails to load', async () => {
+    vi.mocked(contentApi.getEntryVersions).mockRejectedValue(new Error('Network error'));
+    renderHistory();
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith('Failed to load version history');
+    });
+  });
+});
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { contentApi } from '@/lib/api';
+import { diffEntryData, countChangedFields, FieldDiff } from '@/lib/content-diff';
+import { useI18n } from '@/contexts/i18n-context';
+import { ContentEntry, ContentEntryVersion, ContentTypeField } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { RichTextPreview } from './rich-text-preview';
+import { History, RotateCcw, Loader2, User } from 'lucide-react';
+
+interface EntryVersionHistoryProps {
+  entryId: string;
+  fields?: ContentTypeField[];
+  /** Current (possibly unsaved) form data, used as the right-hand side of the diff */
+  currentData: Record<string, unknown>;
+  currentVersion?: number;
+  onRestored: (entry: ContentEntry) => void;
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'outline'> = {
+  published: 'default',
+  draft: 'secondary',
+  archived: 'outline',
+};
+
+const BLOCK_CLASSES = {
+  added: 'bg-green-50 border-l-2 border-green-500 dark:bg-green-950',
+  removed: 'bg-red-50 border-l-2 border-red-500 line-through dark:bg-red-950',
+  unchanged: '',
+};
+
+const CHANGE_CLASSES = {
+  before: 'bg-red-50 border-l-2 border-red-500 dark:bg-red-950',
+  after: 'bg-green-50 border-l-2 border-green-500 dark:bg-green-950',
+};
+
+function getAuthorName(version: ContentEntryVersion): string {
+  return (
+    version.author_name ||
+    version.author?.full_name ||
+    [version.author?.first_name, version.author?.last_name].filter(Boolean).join(' ') ||
+    version.author?.email ||
+    ''
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+export function EntryVersionHistory({
+  entryId,
+  fields,
+  currentData,
+  currentVersion,
+  onRestored,
+}: EntryVersionHistoryProps) {
+  const { t } = useI18n();
+  const [versions, setVersions] = useState<ContentEntryVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<ContentEntryVersion | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [showRestoreConfirm, setShowRestoreConfirm] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    loadVersions();
+  }, [entryId]);
+
+  const loadVersions = async () => {
+    try {
+      setIsLoading(true);
+      const data = await contentApi.getEntryVersions(entryId);
+      const sorted = [...data].sort((a, b) => b.version - a.version);
+      setVersions(sorted);
+      // Default to the most recent revision that isn't the current one
+      setSelectedVersion(sorted.find((v) => v.version !== currentVersion) || sorted[0] || null);
+    } catch (err) {
+      console.error('Failed to load version history:', err);
+      toast.error(t('editor.history.load_failed'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const diffs = useMemo(
+    () => (selectedVersion ? diffEntryData(fields, selectedVersion.data, currentData) : []),
+    [selectedVersion, fields, currentData]
+  );
+  const visibleDiffs = showUnchanged ? diffs : diffs.filter((d) => d.kind !== 'unchanged');
+
+  const handleRestore = async () => {
+    if (!selectedVersion) return;
+    try {
+      setIsRestoring(true);
+      const restored = await contentApi.restoreEntryVersion(entryId, selectedVersion.version);
+      toast.success(t('editor.history.restored', { version: selectedVersion.version }));
+      onRestored(restored);
+      await loadVersions();
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(t('editor.history.restore_failed', { error: error.response?.data?.detail || error.message }));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderSide = (diff: FieldDiff, side: 'before' | 'after') => {
+    if (diff.blocks) {
+      const hidden = side === 'before' ? 'added' : 'removed';
+      return (
+        <div className="space-y-1">
+          {diff.blocks
+            .filter((block) => block.kind !== hidden)
+            .map((block, index) => (
+              <RichTextPreview
+                key={index}
+                html={block.html}
+                className={`px-2 py-1 rounded ${BLOCK_CLASSES[block.kind]}`}
+              />
+            ))}
+        </div>
+      );
+    }
+
+    if (diff.changes) {
+      return (
+        <ul className="space-y-1 text-xs font-mono">
+          {diff.changes
+            .filter((change) => (side === 'before' ? change.kind !== 'added' : change.kind !== 'removed'))
+            .map((change) => (
+              <li
+                key={change.path}
+                className={`px-2 py-1 rounded ${side === 'before' ? CHANGE_CLASSES.before : CHANGE_CLASSES.after}`}
+              >
+                <span className="text-muted-foreground">{change.path || t('editor.history.root')}:</span>{' '}
+                {formatValue(side === 'before' ? change.before : change.after)}
+              </li>
+            ))}
+        </ul>
+      );
+    }
+
+    const value = side === 'before' ? diff.before : diff.after;
+    return <pre className="text-sm whitespace-pre-wrap break-words font-sans">{formatValue(value)}</pre>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
+        <History className="h-8 w-8 mb-2" />
+        <p>{t('editor.history.empty')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-4">
+      {/* Revision list */}
+      <div className="space-y-2" role="list" aria-label={t('editor.history.revisions')}>
+        {versions.map((version) => (
+          <button
+            key={version.id}
+            type="button"
+            role="listitem"
+            onClick={() => setSelectedVersion(version)}
+            className={`w-full text-left p-3 border rounded-lg transition-colors ${
+              selectedVersion?.id === version.id ? 'bg-primary/5 border-primary' : 'hover:bg-muted/50'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-sm">{t('editor.history.version', { version: version.version })}</span>
+              <Badge variant={STATUS_VARIANTS[version.status] || 'secondary'} className="text-xs">
+                {t(`content.status.${version.status}`)}
+              </Badge>
+            </div>
+            <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+              <User className="h-3 w-3" />
+              {getAuthorName(version) || t('editor.history.unknown_author')}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {new Date(version.created_at).toLocaleString()}
+            </div>
+            {version.version === currentVersion && (
+              <span className="text-xs text-primary">{t('editor.history.current_version')}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Side-by-side diff */}
+      {selectedVersion && (
+        <div className="lg:col-span-3 space-y-4">
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <div>
+              <h3 className="font-semibold">
+                {t('editor.history.compared', { version: selectedVersion.version })}
+              </h3>
+              <p className="text-xs text-muted-foreground">
+                {t('editor.history.changed_fields', { count: countChangedFields(diffs) })}
+                {selectedVersion.change_summary && ` • ${selectedVersion.change_summary}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={showUnchanged}
+                  onChange={(e) => setShowUnchanged(e.target.checked)}
+                  className="h-3 w-3"
+                />
+                {t('editor.history.show_unchanged')}
+              </label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowRestoreConfirm(true)}
+                disabled={isRestoring}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                {t('editor.history.restore')}
+              </Button>
+            </div>
+          </div>
+
+          {visibleDiffs.length === 0 ? (
+            <div className="text-sm text-muted-foreground py-8 text-center border rounded-lg">
+              {t('editor.history.no_differences')}
+            </div>
+          ) : (
+            <div className="border rounded-lg divide-y">
+              <div className="grid grid-cols-2 gap-4 px-4 py-2 bg-muted/50 text-xs font-medium text-muted-foreground">
+                <span>{t('editor.history.version', { version: selectedVersion.version })}</span>
+                <span>{t('editor.history.current')}</span>
+              </div>
+              {visibleDiffs.map((diff) => (
+                <div key={diff.name} className="px-4 py-3 space-y-2" data-testid={`diff-${diff.name}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{diff.label}</span>
+                    <span className="text-xs text-muted-foreground bg-muted px-1.5 py-0.5 rounded">
+                      {diff.type}
+                    </span>
+                    {diff.kind !== 'unchanged' && (
+                      <Badge variant="outline" className="text-xs">{t(`editor.history.kind.${diff.kind}`)}</Badge>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="min-w-0">{renderSide(diff, 'before')}</div>
+                    <div className="min-w-0">{renderSide(diff, 'after')}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={showRestoreConfirm}
+        onOpenChange={setShowRestoreConfirm}
+        title={t('editor.history.confirm.title')}
+        description={t('editor.history.confirm.description', { version: selectedVersion?.version ?? '' })}
+        confirmLabel={t('editor.history.confirm.restore')}
+        onConfirm={handleRestore}
+        isLoading={isRestoring}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { EntryWorkflowCard } from './entry-workflow-card';
+import { contentApi, userApi } from '@/lib/api';
+import { createDefaultWorkflow } from '@/lib/workflow';
+import { toast } from 'sonner';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    transitionEntryStage: vi.fn(),
+    assignReviewer: vi.fn(),
+    getWorkflowHistory: vi.fn(),
+  },
+  userApi: {
+    listUsers: vi.fn(),
+  },
+}));
+
+const mockHasPermission = vi.fn();
+vi.mock('@/hooks/use-permissions', () => ({
+  usePermissions: () => ({ hasPermission: mockHasPermission }),
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('EntryWorkflowCard', () => {
+  const workflow = createDefaultWorkflow();
+  const entry = {
+    id: 'entry-1',
+    content_type_id: 't1',
+    slug: 'launch',
+    status: 'draft' as const,
+    workflow_stage: 'in_review',
+  };
+  const onTransitioned = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockHasPermission.mockReturnValue(true);
+    vi.mocked(userApi.listUsers).mockResolvedValue({
+      users: [
+        { id: 'u1', email: 'ana@example.com', first_name: 'Ana', last_name: 'Lee', is_active: true },
+        { id: 'u2', email: 'gone@example.com', is_active: false },
+      ],
+    } as Awaited<ReturnType<typeof userApi.listUsers>>);
+    vi.mocked(contentApi.getWorkflowHistory).mockResolvedValue([]);
+  });
+
+  it('should show the current stage and next transition', async () => {
+    render(<EntryWorkflowCard entry={entry} workflow={workflow} onTransitioned={onTransitioned} />);
+
+    const stages = screen.getByRole('list', { name: 'Workflow stages' });
+    expect(stages.querySelector('[aria-current="step"]')).toHaveTextContent('In Review');
+    expect(screen.getByRole('button', { name: 'Move to Approved' })).toBeEnabled();
+    await waitFor(() => {
+      expect(contentApi.getWorkflowHistory).toHaveBeenCalledWith('entry-1');
+    });
+  });
+
+  it('should disable advancing without the stage permission', () => {
+    mockHasPermission.mockImplementation((permission: string) => permission !== 'content.approve');
+    render(<EntryWorkflowCard entry={entry} workflow={workflow} onTransitioned={onTransitioned} />);
+
+    expect(screen.getByRole('button', { name: 'Move to Approved' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: /Request Changes/i })).toBeDisabled();
+    expect(screen.getByText(/requires the "Approve content" permission/)).toBeInTheDocument();
+  });
+
+  it('should advance the entry to the next stage', async () => {
+    const user = userEvent.setup();
+    const updated = { ...entry, workflow_stage: 'approved' };
+    vi.mocked(contentApi.transitionEntryStage).mockResolvedValue(updated);
+    render(<EntryWorkflowCard entry={entry} workflow={workflow} onTransitioned={onTransitioned} />);
+
+    await user.click(screen.getByRole('button', { name: 'Move to Approved' }));
+
+    await waitFor(() => {
+      expect(contentApi.transitionEntryStage).toHaveBeenCalledWith('entry-1', { to_stage: 'approved', comment: undefined });
+      expect(toast.success).toHaveBeenCalledWith('Moved to Approved');
+      expect(onTransitioned).toHaveBeenCalledWith(updated);
+    });
+  });
+
+  it('should check the entry before moving it into the publishing stage', async () => {
+    const user = userEvent.setup();
+    const onBeforePublish = vi.fn().mockResolvedValue(false);
+    render(
+      <EntryWorkflowCard
+        entry={{ ...entry, workflow_stage: 'approved' }}
+        workflow={workflow}
+        onTransitioned={onTransitioned}
+        onBeforePublish={onBeforePublish}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Move to Published' }));
+
+    expect(onBeforePublish).toHaveBeenCalled();
+    expect(contentApi.transitionEntryStage).not.toHaveBeenCalled();
+
+    onBeforePublish.mockResolvedValue(true);
+    vi.mocked(contentApi.transitionEntryStage).mockResolvedValue({ ...entry, workflow_stage: 'published' });
+    await user.click(screen.getByRole('button', { name: 'Move to Published' }));
+
+    await waitFor(() => {
+      expect(contentApi.transitionEntryStage).toHaveBeenCalledWith('entry-1', { to_stage: 'published', comment: undefined });
+    });
+  });
+
+  it('should not check the entry for earlier stages', async () => {
+    const user = userEvent.setup();
+    const onBeforePublish = vi.fn().mockResolvedValue(false);
+    vi.mocked(contentApi.transitionEntryStage).mockResolvedValue({ ...entry, workflow_stage: 'approved' });
+    render(
+      <EntryWorkflowCard entry={entry} workflow={workflow} onTransitioned={onTransitioned} onBeforePublish={onBeforePublish} />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Move to Approved' }));
+
+    await waitFor(() => {
+      expect(contentApi.transitionEntryStage).toHaveBeenCalled();
+    });
+    expect(onBeforePublish).not.toHaveBeenCalled();
+  });
+
+  it('should require a comment when requesting changes', async () => {
+    const user = userEvent.setup();
+    vi.mocked(contentApi.transitionEntryStage).mockResolvedValue({ ...entry, workflow_stage: 'draft' });
+    render(<EntryWorkflowCard entry={entry} workflow={workflow} onTransitioned={onTransitioned} />);
+
+    await user.click(screen.getByRole('button', { name: /Request Changes/i }));
+    const sendBack = await screen.findByRole('button', { name: 'Send Back' });
+    expect(sendBack).toBeDisabled();
+
+    await user.type(screen.getByLabelText('Comment *'), 'Needs a stronger intro');
+    await user.click(sendBack);
+
+    await waitFor(() => {
+      expect(contentApi.transitionEntryStage).toHaveBeenCalledWith('entry-1', {
+        to_stage: 'draft',
+        comment: 'Needs a stronger intro',
+      });
+    });
+  });
+
+  it('should show reviewer comments in the history', async () => {
+    vi.mocked(contentApi.getWorkflowHistory).mockResolvedValue([
+      {
+        id: 'h1',
+        content_entry_id: 'entry-1',
+        from_stage: 'in_review',
+        to_stage: 'draft',
+        comment: 'Fix the headline',
+        user_name: 'Ana Lee',
+        created_at: '2025-01-01T10:00:00Z',
+      },
+    ]);
+    render(<EntryWorkflowCard entry={entry} workflow={workflow} onTransitioned={onTransitioned} />);
+
+    expect(await screen.findByText('Fix the headline')).toBeInTheDocument();
+    expect(screen.getByText('Ana Lee')).toBeInTheDocument();
+  });
+
+  it('should show an error when the transition fails', async () => {
+    const user = userEvent.setup();
+    vi.mocked(contentApi.transitionEntryStage).mockRejectedValue({
+      response: { data: { detail: 'Stage changed by someone else' } },
+    });
+    render(<EntryWorkflowCard entry={entry} workflow={workflow} onTransitioned={onTransitioned} />);
+
+    await user.click(screen.getByRole('button', { name: 'Move to Approved' }));
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith('Failed to change stage: Stage changed by someone else');
+    });
+    expect(onTransitioned).not.toHaveBeenCalled();
+  });
+});
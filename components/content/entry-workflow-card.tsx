@@ -0,0 +1,294 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { contentApi, userApi } from '@/lib/api';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useI18n } from '@/contexts/i18n-context';
+import { getAvailableTransitions, getCurrentStage, WORKFLOW_PERMISSIONS } from '@/lib/workflow';
+import { ContentEntry, ContentWorkflow, UserListItem, WorkflowHistoryItem } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowRight, Check, GitPullRequest, Undo2 } from 'lucide-react';
+
+interface EntryWorkflowCardProps {
+  entry: ContentEntry;
+  workflow: ContentWorkflow;
+  onTransitioned: (entry: ContentEntry) => void;
+  /** Checks the entry before it moves into the final, publishing stage; resolve false to stay put */
+  onBeforePublish?: () => Promise<boolean>;
+}
+
+function getUserName(user: Pick<UserListItem, 'first_name' | 'last_name' | 'email'>): string {
+  return [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email;
+}
+
+function getPermissionLabel(permission?: string): string {
+  return WORKFLOW_PERMISSIONS.find((p) => p.value === permission)?.label || permission || 'Edit content';
+}
+
+export function EntryWorkflowCard({ entry, workflow, onTransitioned, onBeforePublish }: EntryWorkflowCardProps) {
+  const { t } = useI18n();
+  const { hasPermission } = usePermissions();
+  const [users, setUsers] = useState<UserListItem[]>([]);
+  const [history, setHistory] = useState<WorkflowHistoryItem[]>([]);
+  const [isTransitioning, setIsTransitioning] = useState(false);
+  const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [rejectStage, setRejectStage] = useState('');
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [entry.id, entry.workflow_stage]);
+
+  const loadUsers = async () => {
+    try {
+      const data = await userApi.listUsers();
+      setUsers((data.users || []).filter((u) => u.is_active));
+    } catch (err) {
+      console.error('Failed to load reviewers:', err);
+    }
+  };
+
+  const loadHistory = async () => {
+    try {
+      const data = await contentApi.getWorkflowHistory(entry.id);
+      setHistory(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error('Failed to load workflow history:', err);
+    }
+  };
+
+  const currentStage = getCurrentStage(workflow, entry.workflow_stage);
+  const currentIndex = workflow.stages.indexOf(currentStage);
+  const transitions = getAvailableTransitions(workflow, entry.workflow_stage, hasPermission);
+  const advance = transitions.find((option) => option.kind === 'advance');
+  const rejections = transitions.filter((option) => option.kind === 'reject');
+  const canReject = rejections.some((option) => option.allowed);
+
+  const getStageName = (key?: string) => workflow.stages.find((s) => s.key === key)?.name || key || '—';
+
+  const handleAdvance = async (toStage: string) => {
+    const isPublishing = toStage === workflow.stages[workflow.stages.length - 1].key;
+    if (isPublishing && onBeforePublish && !(await onBeforePublish())) return;
+    await transition(toStage);
+  };
+
+  const transition = async (toStage: string, transitionComment?: string) => {
+    try {
+      setIsTransitioning(true);
+      const updated = await contentApi.transitionEntryStage(entry.id, {
+        to_stage: toStage,
+        comment: transitionComment || undefined,
+      });
+      toast.success(t('editor.workflow.moved', { stage: getStageName(toStage) }));
+      onTransitioned(updated);
+      return true;
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(t('editor.workflow.move_failed', { error: error.response?.data?.detail || error.message }));
+      return false;
+    } finally {
+      setIsTransitioning(false);
+    }
+  };
+
+  const openRejectDialog = () => {
+    setRejectStage(rejections[0]?.to.key || '');
+    setComment('');
+    setShowRejectDialog(true);
+  };
+
+  const handleReject = async () => {
+    if (!comment.trim()) {
+      toast.error(t('editor.workflow.comment_required'));
+      return;
+    }
+    if (await transition(rejectStage, comment.trim())) {
+      setShowRejectDialog(false);
+    }
+  };
+
+  const handleReviewerChange = async (value: string) => {
+    try {
+      const updated = await contentApi.assignReviewer(entry.id, value === 'unassigned' ? null : value);
+      toast.success(t(value === 'unassigned' ? 'editor.workflow.reviewer_removed' : 'editor.workflow.reviewer_assigned'));
+      onTransitioned(updated);
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(t('editor.workflow.assign_failed', { error: error.response?.data?.detail || error.message }));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitPullRequest className="h-4 w-4" />
+          {t('editor.workflow.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('editor.workflow.current_stage')} <span className="font-medium text-foreground">{currentStage.name}</span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Stage progress */}
+        <ol className="flex flex-wrap items-center gap-1 text-xs" aria-label={t('editor.workflow.stages')}>
+          {workflow.stages.map((stage, index) => (
+            <li key={stage.key} className="flex items-center gap-1">
+              <Badge
+                variant={index === currentIndex ? 'default' : index < currentIndex ? 'secondary' : 'outline'}
+                aria-current={index === currentIndex ? 'step' : undefined}
+              >
+                {index < currentIndex && <Check className="h-3 w-3 mr-1" />}
+                {stage.name}
+              </Badge>
+              {index < workflow.stages.length - 1 && <ArrowRight className="h-3 w-3 text-muted-foreground" />}
+            </li>
+          ))}
+        </ol>
+
+        <div className="space-y-2">
+          <Label htmlFor="reviewer">{t('editor.workflow.reviewer')}</Label>
+          <Select value={entry.reviewer_id || 'unassigned'} onValueChange={handleReviewerChange}>
+            <SelectTrigger id="reviewer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">{t('editor.workflow.unassigned')}</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {getUserName(user)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          {advance && (
+            <Button
+              className="w-full"
+              onClick={() => handleAdvance(advance.to.key)}
+              disabled={!advance.allowed || isTransitioning}
+            >
+              {t('editor.workflow.move_to', { stage: advance.to.name })}
+            </Button>
+          )}
+          {rejections.length > 0 && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={openRejectDialog}
+              disabled={!canReject || isTransitioning}
+            >
+              <Undo2 className="h-4 w-4 mr-2" />
+              {t('editor.workflow.request_changes')}
+            </Button>
+          )}
+          {advance && !advance.allowed && (
+            <p className="text-xs text-muted-foreground">
+              {t('editor.workflow.permission_required', {
+                stage: advance.to.name,
+                permission: getPermissionLabel(advance.to.permission),
+              })}
+            </p>
+          )}
+        </div>
+
+        {history.length > 0 && (
+          <div className="pt-4 border-t space-y-2">
+            <p className="text-sm font-medium">{t('editor.workflow.history')}</p>
+            <ul className="space-y-2 text-xs">
+              {history.map((item) => (
+                <li key={item.id}>
+                  <div>
+                    <span className="font-medium">{item.user_name || t('editor.workflow.someone')}</span>{' '}
+                    {item.from_stage
+                      ? t('editor.workflow.moved_from', {
+                          from: getStageName(item.from_stage),
+                          to: getStageName(item.to_stage),
+                        })
+                      : t('editor.workflow.moved_to', { to: getStageName(item.to_stage) })}
+                  </div>
+                  {item.comment && (
+                    <blockquote className="mt-1 pl-2 border-l-2 text-muted-foreground">{item.comment}</blockquote>
+                  )}
+                  <div className="text-muted-foreground">{new Date(item.created_at).toLocaleString()}</div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('editor.workflow.request_changes')}</DialogTitle>
+            <DialogDescription>{t('editor.workflow.reject.description')}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {rejections.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="reject-stage">{t('editor.workflow.reject.stage')}</Label>
+                <Select value={rejectStage} onValueChange={setRejectStage}>
+                  <SelectTrigger id="reject-stage">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rejections.map((option) => (
+                      <SelectItem key={option.to.key} value={option.to.key}>
+                        {option.to.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="reject-comment">{t('editor.workflow.reject.comment')}</Label>
+              <Textarea
+                id="reject-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder={t('editor.workflow.reject.placeholder')}
+                rows={4}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRejectDialog(false)}>
+              {t('editor.workflow.reject.cancel')}
+            </Button>
+            <Button onClick={handleReject} disabled={!comment.trim() || isTransitioning}>
+              {t('editor.workflow.reject.send')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { resolveMediaUrl } from '@/lib/api/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import RichTextEditor from '@/components/rich-text-editor';
+import { Image as ImageIcon } from 'lucide-react';
+import { ContentTypeField } from '@/types';
+import { MediaGalleryEditor, MediaItem } from './media-gallery-editor';
+import { ReferenceFieldPicker } from './reference-field-picker';
+
+interface FieldInputProps {
+  id: string;
+  fieldType: string;
+  fieldConfig: Partial<ContentTypeField>;
+  label: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  required?: boolean;
+  /** Opens the media picker for image/file fields and rich text images */
+  onBrowseMedia?: () => void;
+  /** Entry being edited, so reference fields cannot point at it */
+  entryId?: string | null;
+}
+
+/**
+ * Input widget for a single content field, chosen by field type.
+ * Shared by the entry editor and the block editor of "components" fields.
+ */
+export function FieldInput({
+  id,
+  fieldType,
+  fieldConfig,
+  label,
+  value,
+  onChange,
+  required = false,
+  onBrowseMedia,
+  entryId,
+}: FieldInputProps) {
+  const text = value === undefined || value === null ? '' : String(value);
+  const options = (fieldConfig.options || []).map((option) =>
+    typeof option === 'string' ? { value: option, label: option } : { value: option.value, label: option.label || option.value }
+  );
+
+  return (
+    /* Rich Text Editor */
+    fieldType === 'richtext' || fieldType === 'wysiwyg' || fieldType === 'html' ? (
+      <RichTextEditor
+        content={text}
+        onChange={onChange}
+        placeholder={`Enter ${label.toLowerCase()}...`}
+        onImageAdd={() => onBrowseMedia?.()}
+      />
+    ) : /* Image/File Field with Media Picker */
+    (fieldType === 'image' || fieldType === 'file' || fieldType === 'media') ? (
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <Input
+            id={id}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Image URL or path"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onBrowseMedia?.()}
+          >
+            <ImageIcon className="h-4 w-4 mr-2" />
+            Browse
+          </Button>
+        </div>
+        {text && fieldType === 'image' && (
+          <img
+            src={resolveMediaUrl(text)}
+            alt={label}
+            className="max-w-xs rounded border"
+          />
+        )}
+      </div>
+    ) : /* Reference to other entries */
+    fieldType === 'reference' ? (
+      <ReferenceFieldPicker
+        id={id}
+        value={value}
+        onChange={onChange}
+        multiple={fieldConfig.multiple}
+        allowedContentTypes={fieldConfig.allowed_content_types}
+        excludeId={entryId}
+      />
+    ) : /* Textarea */
+    fieldType === 'textarea' ? (
+      <Textarea
+        id={id}
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        rows={4}
+        required={required}
+      />
+    ) : /* Number */
+    fieldType === 'number' ? (
+      <Input
+        id={id}
+        type="number"
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        required={required}
+      />
+    ) : /* Email */
+    fieldType === 'email' ? (
+      <Input
+        id={id}
+        type="email"
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        required={required}
+      />
+    ) : /* URL */
+    fieldType === 'url' ? (
+      <Input
+        id={id}
+        type="url"
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        required={required}
+      />
+    ) : /* Select */
+    fieldType === 'select' && fieldConfig.options ? (
+      <Select value={text} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue placeholder={`Select ${label}`} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    ) : /* Boolean */
+    fieldType === 'boolean' ? (
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id={id}
+          checked={!!value}
+          onChange={(e) => onChange(e.target.checked)}
+          className="h-4 w-4"
+        />
+        <Label htmlFor={id} className="font-normal">
+          {label}
+        </Label>
+      </div>
+    ) : /* JSON/Array/Object - Media Gallery or general JSON */
+    (fieldType === 'json' || fieldType === 'array' || fieldType === 'object') ? (
+      <MediaGalleryEditor
+        value={Array.isArray(value) ? (value as MediaItem[]) : []}
+        onChange={onChange}
+        label={label}
+      />
+    ) : /* Default Text Input */
+    (
+      <Input
+        id={id}
+        type="text"
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        required={required}
+      />
+    )
+  );
+}
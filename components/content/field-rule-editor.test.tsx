@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FieldRuleEditor } from './field-rule-editor';
+import { FieldRule } from '@/types';
+
+describe('FieldRuleEditor', () => {
+  const onChange = vi.fn();
+  const fields = [
+    { name: 'on_sale', label: 'On Sale' },
+    { name: 'price', label: 'Price' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should add a condition on the first field', async () => {
+    const user = userEvent.setup();
+    render(<FieldRuleEditor label="Visibility" fields={fields} onChange={onChange} />);
+
+    expect(screen.queryByTestId('field-condition')).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: /Add Condition/i }));
+
+    expect(onChange).toHaveBeenCalledWith({
+      match: 'all',
+      conditions: [{ field: 'on_sale', operator: 'equals', value: '' }],
+    });
+  });
+
+  it('should edit the condition value', async () => {
+    const user = userEvent.setup();
+    const rule: FieldRule = { match: 'all', conditions: [{ field: 'on_sale', operator: 'equals', value: '' }] };
+    render(<FieldRuleEditor label="Visibility" rule={rule} fields={fields} onChange={onChange} />);
+
+    await user.type(screen.getByLabelText('Visibility condition 1 value'), 't');
+
+    expect(onChange).toHaveBeenLastCalledWith({
+      match: 'all',
+      conditions: [{ field: 'on_sale', operator: 'equals', value: 't' }],
+    });
+  });
+
+  it('should hide the value input for emptiness checks', () => {
+    const rule: FieldRule = { match: 'all', conditions: [{ field: 'price', operator: 'is_empty' }] };
+    render(<FieldRuleEditor label="Visibility" rule={rule} fields={fields} onChange={onChange} />);
+
+    expect(screen.queryByLabelText('Visibility condition 1 value')).not.toBeInTheDocument();
+  });
+
+  it('should clear the rule when the last condition is removed', async () => {
+    const user = userEvent.setup();
+    const rule: FieldRule = { match: 'all', conditions: [{ field: 'price', operator: 'is_empty' }] };
+    render(<FieldRuleEditor label="Required" rule={rule} fields={fields} onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: 'Remove required condition 1' }));
+
+    expect(onChange).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should explain when there are no other fields', () => {
+    render(<FieldRuleEditor label="Visibility" fields={[]} onChange={onChange} />);
+
+    expect(screen.getByText('Add more fields to use conditions')).toBeInTheDocument();
+  });
+});
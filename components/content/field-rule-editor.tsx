@@ -0,0 +1,121 @@
+'use client';
+
+import { FieldCondition, FieldConditionOperator, FieldRule } from '@/types';
+import { CONDITION_OPERATORS } from '@/lib/conditions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface FieldRuleEditorProps {
+  /** Prefix for accessible names, e.g. "Visibility" */
+  label: string;
+  rule?: FieldRule;
+  /** Other fields of the content type that conditions can check */
+  fields: { name: string; label: string }[];
+  onChange: (rule: FieldRule | undefined) => void;
+}
+
+export function FieldRuleEditor({ label, rule, fields, onChange }: FieldRuleEditorProps) {
+  const conditions = rule?.conditions || [];
+  const match = rule?.match || 'all';
+
+  const update = (next: FieldCondition[]) => {
+    onChange(next.length > 0 ? { match, conditions: next } : undefined);
+  };
+
+  const updateCondition = (index: number, changes: Partial<FieldCondition>) => {
+    update(conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)));
+  };
+
+  const addCondition = () => {
+    update([...conditions, { field: fields[0]?.name || '', operator: 'equals', value: '' }]);
+  };
+
+  if (fields.length === 0) {
+    return <p className="text-xs text-muted-foreground">Add more fields to use conditions</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {conditions.length > 1 && (
+        <Select value={match} onValueChange={(value) => onChange({ match: value as FieldRule['match'], conditions })}>
+          <SelectTrigger className="h-8" aria-label={`${label} match`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All conditions match</SelectItem>
+            <SelectItem value="any">Any condition matches</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {conditions.map((condition, index) => {
+        const operator = CONDITION_OPERATORS.find((op) => op.value === condition.operator);
+        return (
+          <div key={index} className="space-y-1 rounded-md border p-2" data-testid="field-condition">
+            <div className="flex items-center gap-1">
+              <Select value={condition.field} onValueChange={(field) => updateCondition(index, { field })}>
+                <SelectTrigger className="h-8" aria-label={`${label} condition ${index + 1} field`}>
+                  <SelectValue placeholder="Field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fields.map((field) => (
+                    <SelectItem key={field.name} value={field.name}>
+                      {field.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => update(conditions.filter((_, i) => i !== index))}
+                aria-label={`Remove ${label.toLowerCase()} condition ${index + 1}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex gap-1">
+              <Select
+                value={condition.operator}
+                onValueChange={(value) => updateCondition(index, { operator: value as FieldConditionOperator })}
+              >
+                <SelectTrigger className="h-8" aria-label={`${label} condition ${index + 1} operator`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONDITION_OPERATORS.map((op) => (
+                    <SelectItem key={op.value} value={op.value}>
+                      {op.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {operator?.needsValue && (
+                <Input
+                  className="h-8"
+                  value={condition.value || ''}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  placeholder="Value"
+                  aria-label={`${label} condition ${index + 1} value`}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <Button variant="outline" size="sm" onClick={addCondition}>
+        <Plus className="h-3 w-3 mr-1" />
+        Add Condition
+      </Button>
+    </div>
+  );
+}
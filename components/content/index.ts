@@ -2,3 +2,29 @@ export { ContentViewDialog } from './content-view-dialog';
 export { ContentEditDialog } from './content-edit-dialog';
 export { JsonFieldEditor } from './json-field-editor';
 export { NavigationEditor } from './navigation-editor';
+export { EntryVersionHistory } from './entry-version-history';
+export { EntryScheduleCard } from './entry-schedule-card';
+export { PublishingCalendar } from './publishing-calendar';
+export { WorkflowEditor } from './workflow-editor';
+export { EntryWorkflowCard } from './entry-workflow-card';
+export { ReviewQueueCard } from './review-queue-card';
+export { ReferenceFieldPicker } from './reference-field-picker';
+export { ReferenceChips } from './reference-chips';
+export { ReferencedByCard } from './referenced-by-card';
+export { FieldInput } from './field-input';
+export { BlocksFieldEditor } from './blocks-field-editor';
+export { BlockSchemaEditor } from './block-schema-editor';
+export { BlockPreview } from './block-preview';
+export { RichTextPreview } from './rich-text-preview';
+export { FieldRuleEditor } from './field-rule-editor';
+export { SchemaMigrationDialog } from './schema-migration-dialog';
+export { BundleImportWizard } from './bundle-import-wizard';
+export { BatchActionBar } from './batch-action-bar';
+export { BatchProgressPanel } from './batch-progress-panel';
+export { ContentFilterBuilder } from './content-filter-builder';
+export { ContentTable } from './content-table';
+export { SavedViewsMenu } from './saved-views-menu';
+export { TranslationExportDialog } from './translation-export-dialog';
+export { TranslationImportWizard } from './translation-import-wizard';
+export { TranslationGlossaryManager } from './translation-glossary-manager';
+export { TranslationMemoryManager } from './translation-memory-manager';
@@ -5,11 +5,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import MediaPickerModal from '@/components/media-picker-modal';
+import { ResponsiveImage } from '@/components/media/ResponsiveImage';
 import { resolveMediaUrl } from '@/lib/api/client';
 import { Media } from '@/types';
 import { ImageIcon, Plus, Trash2, GripVertical } from 'lucide-react';
 
-interface MediaItem {
+export interface MediaItem {
   url: string;
   alt?: string;
 }
@@ -93,9 +94,10 @@ export function MediaGalleryEditor({ value = [], onChange, label }: MediaGallery
             {/* Image Preview */}
             <div className="aspect-square relative">
               {item.url && item.url.match(/\.(jpg|jpeg|png|gif|webp|svg)$/i) ? (
-                <img
+                <ResponsiveImage
                   src={getImageUrl(item.url)}
                   alt={item.alt || `Image ${index + 1}`}
+                  rendition="card"
                   className="w-full h-full object-cover"
                 />
               ) : (
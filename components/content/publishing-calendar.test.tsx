@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { PublishingCalendar } from './publishing-calendar';
+import { contentApi } from '@/lib/api';
+import { toast } from 'sonner';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getScheduledEntries: vi.fn(),
+  },
+}));
+
+vi.mock('@/hooks/use-org-timezone', () => ({
+  useOrgTimezone: () => ({ timezone: 'America/New_York', isLoading: false }),
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('PublishingCalendar', () => {
+  const contentTypes = [
+    { id: 't1', name: 'Product', organization_id: 'org-1', created_at: '', updated_at: '' },
+    { id: 't2', name: 'Blog Post', organization_id: 'org-1', created_at: '', updated_at: '' },
+  ];
+
+  const scheduledEntries = [
+    {
+      id: 'e1',
+      content_type_id: 't1',
+      slug: 'spring-launch',
+      status: 'scheduled' as const,
+      data: { title: 'Spring Launch' },
+      // Midnight on March 15th in New York
+      publish_at: '2025-03-15T04:00:00Z',
+      unpublish_at: '2025-03-22T04:00:00Z',
+    },
+    {
+      id: 'e2',
+      content_type_id: 't2',
+      slug: 'launch-post',
+      status: 'scheduled' as const,
+      data: { title: 'Launch Post' },
+      // Still March 1st in New York
+      publish_at: '2025-03-02T02:00:00Z',
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-10T12:00:00Z'));
+    vi.mocked(contentApi.getScheduledEntries).mockResolvedValue(scheduledEntries);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should load the current month in the org timezone', async () => {
+    render(<PublishingCalendar contentTypes={contentTypes} />);
+
+    await waitFor(() => {
+      expect(contentApi.getScheduledEntries).toHaveBeenCalledWith({
+        from: '2025-03-01T05:00:00.000Z',
+        to: '2025-04-01T04:00:00.000Z',
+        content_type_id: undefined,
+      });
+    });
+    expect(screen.getByText('March 2025')).toBeInTheDocument();
+  });
+
+  it('should place publish and unpublish events on their local day', async () => {
+    render(<PublishingCalendar contentTypes={contentTypes} />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('calendar-day-2025-03-15')).toHaveTextContent('Spring Launch');
+    });
+    expect(screen.getByTestId('calendar-day-2025-03-22')).toHaveTextContent('Unpublish: Spring Launch');
+    expect(screen.getByTestId('calendar-day-2025-03-01')).toHaveTextContent('Launch Post');
+  });
+
+  it('should summarize upcoming publishes per content type', async () => {
+    render(<PublishingCalendar contentTypes={contentTypes} />);
+
+    const summary = await screen.findByTestId('calendar-type-summary');
+    expect(summary).toHaveTextContent('Product: 1');
+    expect(summary).toHaveTextContent('Blog Post: 1');
+  });
+
+  it('should filter by the preselected content type', async () => {
+    render(<PublishingCalendar contentTypes={contentTypes} contentTypeId="t1" />);
+
+    await waitFor(() => {
+      expect(contentApi.getScheduledEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ content_type_id: 't1' })
+      );
+    });
+  });
+
+  it('should follow changes to the content type filter', async () => {
+    const { rerender } = render(<PublishingCalendar contentTypes={contentTypes} contentTypeId="t1" />);
+    await waitFor(() => {
+      expect(contentApi.getScheduledEntries).toHaveBeenCalledWith(
+        expect.objectContaining({ content_type_id: 't1' })
+      );
+    });
+
+    rerender(<PublishingCalendar contentTypes={contentTypes} contentTypeId="t2" />);
+
+    await waitFor(() => {
+      expect(contentApi.getScheduledEntries).toHaveBeenLastCalledWith(
+        expect.objectContaining({ content_type_id: 't2' })
+      );
+    });
+  });
+
+  it('should navigate to the next month', async () => {
+    render(<PublishingCalendar contentTypes={contentTypes} />);
+    await screen.findByText('March 2025');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next month' }));
+
+    expect(screen.getByText('April 2025')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(contentApi.getScheduledEntries).toHaveBeenLastCalledWith({
+        from: '2025-04-01T04:00:00.000Z',
+        to: '2025-05-01T04:00:00.000Z',
+        content_type_id: undefined,
+      });
+    });
+  });
+
+  it('should call onEntryClick when an event is clicked', async () => {
+    const onEntryClick = vi.fn();
+    render(<PublishingCalendar contentTypes={contentTypes} onEntryClick={onEntryClick} />);
+
+    const day = await screen.findByTestId('calendar-day-2025-03-01');
+    await waitFor(() => expect(day).toHaveTextContent('Launch Post'));
+    fireEvent.click(screen.getByText(/Launch Post/));
+
+    expect(onEntryClick).toHaveBeenCalledWith(scheduledEntries[1]);
+  });
+
+  it('should show an error toast when loading fails', async () => {
+    vi.mocked(contentApi.getScheduledEntries).mockRejectedValue(new Error('Network error'));
+    render(<PublishingCalendar contentTypes={contentTypes} />);
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith('Failed to load scheduled content');
+    });
+  });
+});
@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { contentApi } from '@/lib/api';
+import { useOrgTimezone } from '@/hooks/use-org-timezone';
+import {
+  toZonedInputValue,
+  fromZonedInputValue,
+  formatInTimezone,
+  getZonedDateKey,
+  getTimezoneLabel,
+} from '@/lib/timezone';
+import { ContentEntry, ContentType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+
+interface PublishingCalendarProps {
+  contentTypes: ContentType[];
+  /** Preselected content type filter ('all' for every type) */
+  contentTypeId?: string;
+  onEntryClick?: (entry: ContentEntry) => void;
+}
+
+interface ScheduleEvent {
+  entry: ContentEntry;
+  kind: 'publish' | 'unpublish';
+  at: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EVENT_CLASSES = {
+  publish: 'bg-green-50 border-green-500 text-green-900 dark:bg-green-950 dark:text-green-100',
+  unpublish: 'bg-orange-50 border-orange-500 text-orange-900 dark:bg-orange-950 dark:text-orange-100',
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function getEntryTitle(entry: ContentEntry): string {
+  const data = entry.data || entry.content_data || {};
+  return data.title || data.name || entry.slug || 'Untitled';
+}
+
+export function PublishingCalendar({ contentTypes, contentTypeId = 'all', onEntryClick }: PublishingCalendarProps) {
+  const { timezone, isLoading: isTimezoneLoading } = useOrgTimezone();
+  const [month, setMonth] = useState<{ year: number; month: number } | null>(null);
+  const [selectedType, setSelectedType] = useState(contentTypeId);
+  const [entries, setEntries] = useState<ContentEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Follow the list's content type filter when it changes
+  useEffect(() => {
+    setSelectedType(contentTypeId);
+  }, [contentTypeId]);
+
+  // Start on the current month as seen in the org timezone
+  useEffect(() => {
+    if (isTimezoneLoading) return;
+    const today = toZonedInputValue(new Date().toISOString(), timezone);
+    setMonth({ year: Number(today.slice(0, 4)), month: Number(today.slice(5, 7)) });
+  }, [timezone, isTimezoneLoading]);
+
+  const range = useMemo(() => {
+    if (!month) return null;
+    const next = month.month === 12 ? { year: month.year + 1, month: 1 } : { year: month.year, month: month.month + 1 };
+    return {
+      from: fromZonedInputValue(`${month.year}-${pad(month.month)}-01T00:00`, timezone) as string,
+      to: fromZonedInputValue(`${next.year}-${pad(next.month)}-01T00:00`, timezone) as string,
+    };
+  }, [month, timezone]);
+
+  useEffect(() => {
+    if (range) {
+      loadEntries(range.from, range.to);
+    }
+  }, [range, selectedType]);
+
+  const loadEntries = async (from: string, to: string) => {
+    try {
+      setIsLoading(true);
+      const data = await contentApi.getScheduledEntries({
+        from,
+        to,
+        content_type_id: selectedType !== 'all' ? selectedType : undefined,
+      });
+      setEntries(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error('Failed to load scheduled content:', err);
+      toast.error('Failed to load scheduled content');
+      setEntries([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const eventsByDay = useMemo(() => {
+    const grouped: Record<string, ScheduleEvent[]> = {};
+    if (!range) return grouped;
+    const from = new Date(range.from).getTime();
+    const to = new Date(range.to).getTime();
+    const inRange = (iso?: string | null) => {
+      const time = iso ? new Date(iso).getTime() : NaN;
+      return time >= from && time < to;
+    };
+
+    entries.forEach((entry) => {
+      const events: ScheduleEvent[] = [];
+      if (inRange(entry.publish_at)) events.push({ entry, kind: 'publish', at: entry.publish_at as string });
+      if (inRange(entry.unpublish_at)) events.push({ entry, kind: 'unpublish', at: entry.unpublish_at as string });
+      events.forEach((event) => {
+        const key = getZonedDateKey(event.at, timezone);
+        (grouped[key] = grouped[key] || []).push(event);
+      });
+    });
+    Object.values(grouped).forEach((events) => events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime()));
+    return grouped;
+  }, [entries, range, timezone]);
+
+  // Upcoming publishes per content type for the visible month
+  const countsByType = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.values(eventsByDay)
+      .flat()
+      .filter((event) => event.kind === 'publish')
+      .forEach((event) => {
+        counts[event.entry.content_type_id] = (counts[event.entry.content_type_id] || 0) + 1;
+      });
+    return counts;
+  }, [eventsByDay]);
+
+  const getTypeName = (typeId: string) =>
+    contentTypes.find((t) => t.id === typeId)?.name || 'Unknown Type';
+
+  const shiftMonth = (delta: number) => {
+    if (!month) return;
+    const index = month.year * 12 + (month.month - 1) + delta;
+    setMonth({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+  };
+
+  if (!month) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const daysInMonth = new Date(Date.UTC(month.year, month.month, 0)).getUTCDate();
+  const leadingBlanks = new Date(Date.UTC(month.year, month.month - 1, 1)).getUTCDay();
+  const monthLabel = new Date(Date.UTC(month.year, month.month - 1, 1)).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => shiftMonth(-1)} aria-label="Previous month">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <h2 className="text-lg font-semibold min-w-40 text-center">{monthLabel}</h2>
+          <Button variant="outline" size="sm" onClick={() => shiftMonth(1)} aria-label="Next month">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">{getTimezoneLabel(timezone)}</span>
+          <Select value={selectedType} onValueChange={setSelectedType}>
+            <SelectTrigger className="w-48" aria-label="Calendar content type">
+              <SelectValue placeholder="All Types" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Types</SelectItem>
+              {contentTypes.map((type) => (
+                <SelectItem key={type.id} value={type.id}>
+                  {type.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {Object.keys(countsByType).length > 0 && (
+        <div className="flex items-center gap-2 flex-wrap text-xs" data-testid="calendar-type-summary">
+          <span className="text-muted-foreground">Publishing this month:</span>
+          {Object.entries(countsByType).map(([typeId, count]) => (
+            <Badge key={typeId} variant="outline">
+              {getTypeName(typeId)}: {count}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        {isLoading && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/50">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        <div className="grid grid-cols-7 border-l border-t rounded-lg overflow-hidden text-sm">
+          {WEEKDAYS.map((day) => (
+            <div key={day} className="border-r border-b bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground">
+              {day}
+            </div>
+          ))}
+          {Array.from({ length: leadingBlanks }).map((_, i) => (
+            <div key={`blank-${i}`} className="border-r border-b min-h-24 bg-muted/20" />
+          ))}
+          {Array.from({ length: daysInMonth }).map((_, i) => {
+            const day = i + 1;
+            const key = `${month.year}-${pad(month.month)}-${pad(day)}`;
+            const events = eventsByDay[key] || [];
+            return (
+              <div key={key} className="border-r border-b min-h-24 p-1 space-y-1" data-testid={`calendar-day-${key}`}>
+                <div className="text-xs text-muted-foreground">{day}</div>
+                {events.map((event) => (
+                  <button
+                    key={`${event.entry.id}-${event.kind}`}
+                    type="button"
+                    onClick={() => onEntryClick?.(event.entry)}
+                    className={`w-full text-left text-xs px-1 py-0.5 rounded border-l-2 truncate ${EVENT_CLASSES[event.kind]}`}
+                    title={`${event.kind === 'publish' ? 'Publishes' : 'Unpublishes'} ${formatInTimezone(event.at, timezone)} • ${getTypeName(event.entry.content_type_id)}`}
+                  >
+                    {formatInTimezone(event.at, timezone, { hour: '2-digit', minute: '2-digit' })}{' '}
+                    {event.kind === 'unpublish' && 'Unpublish: '}
+                    {getEntryTitle(event.entry)}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
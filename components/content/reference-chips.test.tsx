@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ReferenceChips } from './reference-chips';
+import { contentApi } from '@/lib/api';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentEntry: vi.fn(),
+  },
+}));
+
+describe('ReferenceChips', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should link to each referenced entry', async () => {
+    vi.mocked(contentApi.getContentEntry).mockResolvedValue({
+      id: 'p1',
+      content_type_id: 'product',
+      slug: 'red-shoe',
+      status: 'published',
+      data: { title: 'Red Shoe' },
+    });
+    render(<ReferenceChips value={['p1']} />);
+
+    const link = await screen.findByRole('link', { name: /Red Shoe/ });
+    expect(link).toHaveAttribute('href', '/dashboard/content/p1');
+  });
+
+  it('should flag references to missing entries', async () => {
+    vi.mocked(contentApi.getContentEntry).mockRejectedValue(new Error('Not found'));
+    render(<ReferenceChips value="gone" />);
+
+    expect(await screen.findByText('Missing entry')).toBeInTheDocument();
+  });
+
+  it('should show an empty state', () => {
+    render(<ReferenceChips value={[]} />);
+
+    expect(screen.getByText('No linked entries')).toBeInTheDocument();
+    expect(contentApi.getContentEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { contentApi } from '@/lib/api';
+import { getReferenceIds } from '@/lib/field-types';
+import { ContentEntry } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Link2, Link2Off, X } from 'lucide-react';
+
+interface ReferenceChipsProps {
+  /** Reference field value: an entry ID or a list of entry IDs */
+  value: unknown;
+  onRemove?: (id: string) => void;
+}
+
+function getEntryTitle(entry: ContentEntry): string {
+  const data = entry.data || entry.content_data || {};
+  return data.title || data.name || entry.slug || 'Untitled';
+}
+
+export function ReferenceChips({ value, onRemove }: ReferenceChipsProps) {
+  const ids = getReferenceIds(value);
+  const idsKey = ids.join(',');
+  // null marks an ID that could not be resolved (deleted or inaccessible entry)
+  const [entries, setEntries] = useState<Record<string, ContentEntry | null>>({});
+  const requestedIds = useRef(new Set<string>());
+
+  const loadEntries = async () => {
+    const missing = ids.filter((id) => !requestedIds.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach((id) => requestedIds.current.add(id));
+
+    const results = await Promise.allSettled(missing.map((id) => contentApi.getContentEntry(id)));
+    setEntries((prev) => {
+      const next = { ...prev };
+      results.forEach((result, index) => {
+        next[missing[index]] = result.status === 'fulfilled' ? result.value : null;
+      });
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [idsKey]);
+
+  if (ids.length === 0) {
+    return <span className="text-muted-foreground italic">No linked entries</span>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {ids.map((id) => {
+        const entry = entries[id];
+        const isMissing = entry === null;
+        return (
+          <Badge
+            key={id}
+            variant={isMissing ? 'destructive' : 'secondary'}
+            className="gap-1 font-normal"
+            data-testid="reference-chip"
+          >
+            {isMissing ? (
+              <>
+                <Link2Off className="h-3 w-3" />
+                <span title={id}>Missing entry</span>
+              </>
+            ) : (
+              <Link
+                href={`/dashboard/content/${id}`}
+                className="flex items-center gap-1 hover:underline"
+              >
+                <Link2 className="h-3 w-3" />
+                {entry ? getEntryTitle(entry) : 'Loading...'}
+                {entry?.content_type?.name && (
+                  <span className="text-muted-foreground">· {entry.content_type.name}</span>
+                )}
+              </Link>
+            )}
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(id)}
+                className="ml-1 rounded-full hover:bg-muted"
+                aria-label={`Remove ${entry ? getEntryTitle(entry) : 'reference'}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReferenceFieldPicker } from './reference-field-picker';
+import { contentApi } from '@/lib/api';
+import { searchApi } from '@/lib/api/search';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentEntry: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/api/search', () => ({
+  searchApi: {
+    search: vi.fn(),
+  },
+}));
+
+describe('ReferenceFieldPicker', () => {
+  const onChange = vi.fn();
+  const results = [
+    { id: 'p1', content_type_id: 'product', slug: 'red-shoe', status: 'published', content_data: {}, title: 'Red Shoe', content_type_name: 'Product' },
+    { id: 'a1', content_type_id: 'article', slug: 'shoe-guide', status: 'published', content_data: {}, title: 'Shoe Guide', content_type_name: 'Article' },
+    { id: 'self', content_type_id: 'product', slug: 'this-one', status: 'draft', content_data: {}, title: 'This One', content_type_name: 'Product' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(searchApi.search).mockResolvedValue({ results, total: 3, query: 'sh', processing_time_ms: 1 });
+    vi.mocked(contentApi.getContentEntry).mockImplementation(async (id: string) => ({
+      id,
+      content_type_id: 'product',
+      slug: id,
+      status: 'published',
+      data: { title: `Entry ${id}` },
+    }));
+  });
+
+  it('should search and pick a single entry', async () => {
+    const user = userEvent.setup();
+    render(<ReferenceFieldPicker value="" onChange={onChange} />);
+
+    await user.type(screen.getByRole('combobox'), 'shoe');
+    await user.click(await screen.findByText('Red Shoe'));
+
+    expect(onChange).toHaveBeenCalledWith('p1');
+    expect(searchApi.search).toHaveBeenCalledWith(expect.objectContaining({ q: 'shoe', content_type_id: undefined }));
+  });
+
+  it('should only offer entries from allowed content types', async () => {
+    const user = userEvent.setup();
+    render(
+      <ReferenceFieldPicker value={[]} onChange={onChange} multiple allowedContentTypes={['product']} excludeId="self" />
+    );
+
+    await user.type(screen.getByRole('combobox'), 'shoe');
+
+    expect(await screen.findByText('Red Shoe')).toBeInTheDocument();
+    expect(screen.queryByText('Shoe Guide')).not.toBeInTheDocument();
+    expect(screen.queryByText('This One')).not.toBeInTheDocument();
+    expect(searchApi.search).toHaveBeenCalledWith(expect.objectContaining({ content_type_id: 'product' }));
+  });
+
+  it('should search each allowed content type separately', async () => {
+    const user = userEvent.setup();
+    vi.mocked(searchApi.search).mockImplementation(async (params) => ({
+      results: results.filter((result) => result.content_type_id === params.content_type_id),
+      total: 1,
+      query: params.q,
+      processing_time_ms: 1,
+    }));
+    render(
+      <ReferenceFieldPicker value={[]} onChange={onChange} multiple allowedContentTypes={['product', 'article']} excludeId="self" />
+    );
+
+    await user.type(screen.getByRole('combobox'), 'shoe');
+
+    expect(await screen.findByText('Red Shoe')).toBeInTheDocument();
+    expect(screen.getByText('Shoe Guide')).toBeInTheDocument();
+    expect(searchApi.search).toHaveBeenCalledWith(expect.objectContaining({ q: 'shoe', content_type_id: 'product' }));
+    expect(searchApi.search).toHaveBeenCalledWith(expect.objectContaining({ q: 'shoe', content_type_id: 'article' }));
+  });
+
+  it('should append to and remove from multiple references', async () => {
+    const user = userEvent.setup();
+    render(<ReferenceFieldPicker value={['x1']} onChange={onChange} multiple />);
+
+    expect(await screen.findByText('Entry x1')).toBeInTheDocument();
+
+    await user.type(screen.getByRole('combobox'), 'shoe');
+    await user.click(await screen.findByText('Shoe Guide'));
+    expect(onChange).toHaveBeenLastCalledWith(['x1', 'a1']);
+
+    await user.click(screen.getByRole('button', { name: 'Remove Entry x1' }));
+    expect(onChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should hide the search once a single reference is set', async () => {
+    render(<ReferenceFieldPicker value="x1" onChange={onChange} />);
+
+    expect(await screen.findByText('Entry x1')).toBeInTheDocument();
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+  });
+});
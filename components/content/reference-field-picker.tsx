@@ -0,0 +1,106 @@
+'use client';
+
+import { useSearch } from '@/hooks/use-search';
+import { getReferenceIds } from '@/lib/field-types';
+import { Input } from '@/components/ui/input';
+import { Loader2, Search } from 'lucide-react';
+import { ReferenceChips } from './reference-chips';
+
+interface ReferenceFieldPickerProps {
+  id?: string;
+  value: unknown;
+  onChange: (value: string | string[] | null) => void;
+  multiple?: boolean;
+  /** Content type IDs entries may be picked from (empty = any type) */
+  allowedContentTypes?: string[];
+  /** Entry being edited, so it cannot reference itself */
+  excludeId?: string | null;
+}
+
+export function ReferenceFieldPicker({
+  id,
+  value,
+  onChange,
+  multiple = false,
+  allowedContentTypes = [],
+  excludeId,
+}: ReferenceFieldPickerProps) {
+  const selectedIds = getReferenceIds(value);
+  // The search API filters by a single type, so each allowed type is searched separately
+  const { query, setQuery, results, isSearching, isSearchMode, clearSearch } = useSearch({
+    contentTypeIds: allowedContentTypes.length > 0 ? allowedContentTypes : undefined,
+    limit: 20,
+    debounceMs: 300,
+  });
+
+  const options = results.filter(
+    (result) =>
+      result.id !== excludeId &&
+      !selectedIds.includes(result.id) &&
+      (allowedContentTypes.length === 0 || allowedContentTypes.includes(result.content_type_id))
+  );
+
+  const handleSelect = (entryId: string) => {
+    onChange(multiple ? [...selectedIds, entryId] : entryId);
+    clearSearch();
+  };
+
+  const handleRemove = (entryId: string) => {
+    onChange(multiple ? selectedIds.filter((selected) => selected !== entryId) : null);
+  };
+
+  const canAddMore = multiple || selectedIds.length === 0;
+
+  return (
+    <div className="space-y-2">
+      {selectedIds.length > 0 && <ReferenceChips value={selectedIds} onRemove={handleRemove} />}
+
+      {canAddMore && (
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            id={id}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={multiple ? 'Search entries to link...' : 'Search for an entry to link...'}
+            className="pl-8"
+            role="combobox"
+            aria-expanded={isSearchMode}
+            aria-autocomplete="list"
+          />
+          {isSearchMode && (
+            <div className="absolute z-20 mt-1 w-full rounded-md border bg-popover shadow-md max-h-64 overflow-y-auto">
+              {isSearching ? (
+                <div className="flex items-center gap-2 p-3 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Searching...
+                </div>
+              ) : options.length === 0 ? (
+                <div className="p-3 text-sm text-muted-foreground">No matching entries</div>
+              ) : (
+                <ul role="listbox">
+                  {options.map((result) => (
+                    <li key={result.id} role="option" aria-selected={false}>
+                      <button
+                        type="button"
+                        onClick={() => handleSelect(result.id)}
+                        className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+                      >
+                        <span className="font-medium">
+                          {result.title || result.content_data?.title || result.content_data?.name || result.slug}
+                        </span>
+                        {result.content_type_name && (
+                          <span className="ml-2 text-xs text-muted-foreground">{result.content_type_name}</span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
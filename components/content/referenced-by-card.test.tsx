@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ReferencedByCard } from './referenced-by-card';
+import { contentApi } from '@/lib/api';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getEntryReferences: vi.fn(),
+  },
+}));
+
+describe('ReferencedByCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list entries linking here', async () => {
+    vi.mocked(contentApi.getEntryReferences).mockResolvedValue([
+      {
+        entry_id: 'c1',
+        slug: 'summer-collection',
+        title: 'Summer Collection',
+        status: 'published',
+        content_type_id: 'collection',
+        content_type_name: 'Collection',
+        field: 'products',
+      },
+    ]);
+    render(<ReferencedByCard entryId="p1" />);
+
+    const link = await screen.findByRole('link', { name: /Summer Collection/ });
+    expect(link).toHaveAttribute('href', '/dashboard/content/c1');
+    expect(screen.getByText('Collection • via products')).toBeInTheDocument();
+    expect(screen.getByText(/will break these links/)).toBeInTheDocument();
+    expect(contentApi.getEntryReferences).toHaveBeenCalledWith('p1');
+  });
+
+  it('should show when nothing links here', async () => {
+    vi.mocked(contentApi.getEntryReferences).mockResolvedValue([]);
+    render(<ReferencedByCard entryId="p1" />);
+
+    expect(await screen.findByText('No other entries link here')).toBeInTheDocument();
+  });
+});
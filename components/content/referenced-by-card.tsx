@@ -0,0 +1,75 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { contentApi } from '@/lib/api';
+import { ContentEntryReference } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Link2 } from 'lucide-react';
+
+interface ReferencedByCardProps {
+  entryId: string;
+}
+
+export function ReferencedByCard({ entryId }: ReferencedByCardProps) {
+  const [references, setReferences] = useState<ContentEntryReference[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadReferences();
+  }, [entryId]);
+
+  const loadReferences = async () => {
+    try {
+      setIsLoading(true);
+      const data = await contentApi.getEntryReferences(entryId);
+      setReferences(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error('Failed to load references:', err);
+      setReferences([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-4 w-4" />
+          Referenced by
+          {references.length > 0 && <Badge variant="secondary">{references.length}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {references.length > 0
+            ? 'Deleting or unpublishing this entry will break these links'
+            : 'Entries that link to this one'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : references.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No other entries link here</p>
+        ) : (
+          <ul className="space-y-2">
+            {references.map((ref) => (
+              <li key={`${ref.entry_id}-${ref.field}`}>
+                <Link
+                  href={`/dashboard/content/${ref.entry_id}`}
+                  className="block p-2 rounded-md border hover:bg-muted/50 transition-colors"
+                >
+                  <p className="text-sm font-medium truncate">{ref.title || ref.slug}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {ref.content_type_name || 'Content'} • via {ref.field}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ReviewQueueCard } from './review-queue-card';
+import { contentApi } from '@/lib/api';
+import { ContentEntry } from '@/types';
+import { createDefaultWorkflow } from '@/lib/workflow';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getReviewQueue: vi.fn(),
+  },
+}));
+
+describe('ReviewQueueCard', () => {
+  const entry = (id: string, title: string): ContentEntry => ({
+    id,
+    content_type_id: 't1',
+    slug: title.toLowerCase().replace(/ /g, '-'),
+    status: 'draft' as const,
+    workflow_stage: 'in_review',
+    data: { title },
+    content_type: {
+      id: 't1',
+      name: 'Article',
+      api_id: 'article',
+      workflow: createDefaultWorkflow(),
+      organization_id: 'org-1',
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list entries assigned to the current user', async () => {
+    vi.mocked(contentApi.getReviewQueue).mockResolvedValue([entry('e1', 'Spring Launch')]);
+    render(<ReviewQueueCard />);
+
+    const link = await screen.findByRole('link', { name: /Spring Launch/ });
+    expect(link).toHaveAttribute('href', '/dashboard/content/e1');
+    expect(screen.getByText('In Review')).toBeInTheDocument();
+    expect(contentApi.getReviewQueue).toHaveBeenCalledWith({ assigned_to: 'me' });
+  });
+
+  it('should show an empty state', async () => {
+    vi.mocked(contentApi.getReviewQueue).mockResolvedValue([]);
+    render(<ReviewQueueCard />);
+
+    expect(await screen.findByText('Nothing waiting for your review')).toBeInTheDocument();
+  });
+
+  it('should limit the number of entries shown', async () => {
+    vi.mocked(contentApi.getReviewQueue).mockResolvedValue(
+      [entry('e1', 'One'), entry('e2', 'Two'), entry('e3', 'Three')]
+    );
+    render(<ReviewQueueCard maxItems={2} />);
+
+    expect(await screen.findByText('+1 more')).toBeInTheDocument();
+    expect(screen.queryByText('Three')).not.toBeInTheDocument();
+  });
+
+  it('should show an error with retry', async () => {
+    vi.mocked(contentApi.getReviewQueue).mockRejectedValue(new Error('Network error'));
+    render(<ReviewQueueCard />);
+
+    expect(await screen.findByText('Failed to load review queue')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { contentApi } from '@/lib/api';
+import { ContentEntry } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { GitPullRequest } from 'lucide-react';
+
+interface ReviewQueueCardProps {
+  maxItems?: number;
+}
+
+function getEntryTitle(entry: ContentEntry): string {
+  const data = entry.data || entry.content_data || {};
+  return data.title || data.name || entry.slug || 'Untitled';
+}
+
+function getStageName(entry: ContentEntry): string {
+  const stage = entry.content_type?.workflow?.stages.find((s) => s.key === entry.workflow_stage);
+  return stage?.name || (entry.workflow_stage || '').replace(/_/g, ' ');
+}
+
+export function ReviewQueueCard({ maxItems = 5 }: ReviewQueueCardProps) {
+  const [entries, setEntries] = useState<ContentEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await contentApi.getReviewQueue({ assigned_to: 'me' });
+      setEntries(Array.isArray(data) ? data : []);
+    } catch (err) {
+      console.error('Failed to load review queue:', err);
+      setError('Failed to load review queue');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitPullRequest className="h-4 w-4" />
+          My Review Queue
+          {entries.length > 0 && <Badge variant="secondary">{entries.length}</Badge>}
+        </CardTitle>
+        <CardDescription>Entries assigned to you for review</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-muted-foreground py-6">Loading...</div>
+        ) : error ? (
+          <div className="text-center py-6">
+            <p className="text-sm text-destructive">{error}</p>
+            <button onClick={loadQueue} className="mt-2 text-sm text-primary hover:underline">
+              Retry
+            </button>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center text-muted-foreground py-6">Nothing waiting for your review</div>
+        ) : (
+          <div className="space-y-2">
+            {entries.slice(0, maxItems).map((entry) => (
+              <Link
+                key={entry.id}
+                href={`/dashboard/content/${entry.id}`}
+                className="flex items-center justify-between gap-2 p-3 rounded-lg border hover:bg-muted/50 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{getEntryTitle(entry)}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {entry.content_type?.name || 'Content'}
+                    {entry.updated_at && ` • Updated ${new Date(entry.updated_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Badge variant="outline" className="shrink-0 capitalize">
+                  {getStageName(entry)}
+                </Badge>
+              </Link>
+            ))}
+            {entries.length > maxItems && (
+              <p className="text-xs text-muted-foreground text-center pt-1">
+                +{entries.length - maxItems} more
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
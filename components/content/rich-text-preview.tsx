@@ -0,0 +1,26 @@
+'use client';
+
+import { useRef } from 'react';
+import { useMediaVideos } from '@/hooks/use-media-videos';
+import { cn } from '@/lib/utils';
+
+interface RichTextPreviewProps {
+  html: string;
+  className?: string;
+}
+
+/**
+ * Shows stored rich text, resolving the media library videos in it.
+ */
+export function RichTextPreview({ html, className }: RichTextPreviewProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  useMediaVideos(ref, html);
+
+  return (
+    <div
+      ref={ref}
+      className={cn('prose prose-sm max-w-none', className)}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SavedViewsMenu } from './saved-views-menu';
+import { contentApi } from '@/lib/api';
+import { SavedContentView } from '@/types';
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+vi.mock('@/contexts/auth-context', () => ({
+  useAuth: () => ({ user: { id: 'user-1' } }),
+}));
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getSavedViews: vi.fn(),
+    createSavedView: vi.fn(),
+    updateSavedView: vi.fn(),
+    deleteSavedView: vi.fn(),
+  },
+}));
+
+const view = (id: string, name: string, ownerId: string, shared = false): SavedContentView => ({
+  id,
+  name,
+  query: `status=${id}`,
+  shared,
+  owner_id: ownerId,
+  owner_name: ownerId === 'user-2' ? 'Sam Lee' : undefined,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+});
+
+describe('SavedViewsMenu', () => {
+  const onSelect = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(contentApi.getSavedViews).mockResolvedValue([
+      view('drafts', 'My drafts', 'user-1'),
+      view('launch', 'Launch checklist', 'user-2', true),
+    ]);
+  });
+
+  it('should list own and shared views', async () => {
+    const user = userEvent.setup();
+    render(<SavedViewsMenu query="" activeViewId={null} onSelect={onSelect} />);
+    await waitFor(() => expect(contentApi.getSavedViews).toHaveBeenCalled());
+
+    await user.click(screen.getByRole('button', { name: 'Views' }));
+
+    expect(await screen.findByText('My Views')).toBeInTheDocument();
+    expect(screen.getByText('Shared with Organization')).toBeInTheDocument();
+    expect(screen.getByText('Sam Lee')).toBeInTheDocument();
+    await user.click(screen.getByRole('menuitem', { name: /Launch checklist/ }));
+
+    expect(onSelect).toHaveBeenCalledWith(expect.objectContaining({ id: 'launch' }));
+  });
+
+  it('should save the current listing as a shared view', async () => {
+    const created = view('cheap', 'Cheap products', 'user-1', true);
+    vi.mocked(contentApi.createSavedView).mockResolvedValue(created);
+    const user = userEvent.setup();
+    render(<SavedViewsMenu query="sort=data.price" activeViewId={null} onSelect={onSelect} />);
+    await waitFor(() => expect(contentApi.getSavedViews).toHaveBeenCalled());
+
+    await user.click(screen.getByRole('button', { name: 'Views' }));
+    await user.click(await screen.findByRole('menuitem', { name: 'Save as New View' }));
+    await user.type(screen.getByLabelText('Name'), 'Cheap products');
+    await user.click(screen.getByRole('switch', { name: 'Share with organization' }));
+    await user.click(screen.getByRole('button', { name: 'Save View' }));
+
+    await waitFor(() => {
+      expect(contentApi.createSavedView).toHaveBeenCalledWith({
+        name: 'Cheap products',
+        query: 'sort=data.price',
+        shared: true,
+      });
+    });
+    expect(onSelect).toHaveBeenCalledWith(created);
+  });
+
+  it('should only offer update and delete for own views', async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(<SavedViewsMenu query="" activeViewId="launch" onSelect={onSelect} />);
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Launch checklist' })).toBeInTheDocument());
+
+    await user.click(screen.getByRole('button', { name: 'Launch checklist' }));
+    await screen.findByRole('menuitem', { name: 'Copy Link' });
+    expect(screen.queryByRole('menuitem', { name: /Delete/ })).not.toBeInTheDocument();
+    await user.keyboard('{Escape}');
+
+    rerender(<SavedViewsMenu query="status=draft" activeViewId="drafts" onSelect={onSelect} />);
+    vi.mocked(contentApi.updateSavedView).mockResolvedValue({ ...view('drafts', 'My drafts', 'user-1'), query: 'status=draft' });
+    await user.click(screen.getByRole('button', { name: 'My drafts' }));
+    await user.click(await screen.findByRole('menuitem', { name: 'Update "My drafts"' }));
+
+    await waitFor(() => {
+      expect(contentApi.updateSavedView).toHaveBeenCalledWith('drafts', { query: 'status=draft' });
+    });
+  });
+});
@@ -0,0 +1,217 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { contentApi } from '@/lib/api';
+import { useAuth } from '@/contexts/auth-context';
+import { SavedContentView } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bookmark, Check, Link2, Save, Trash2, Users } from 'lucide-react';
+
+interface SavedViewsMenuProps {
+  /** Query string of the listing as currently shown */
+  query: string;
+  activeViewId: string | null;
+  onSelect: (view: SavedContentView) => void;
+}
+
+export function SavedViewsMenu({ query, activeViewId, onSelect }: SavedViewsMenuProps) {
+  const { user } = useAuth();
+  const [views, setViews] = useState<SavedContentView[]>([]);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    contentApi
+      .getSavedViews()
+      .then((data) => {
+        if (!cancelled) setViews(Array.isArray(data) ? data : []);
+      })
+      .catch((err) => console.error('Failed to load saved views:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const activeView = views.find((view) => view.id === activeViewId) || null;
+  const isOwner = (view: SavedContentView) => view.owner_id === user?.id;
+  const myViews = views.filter(isOwner);
+  const sharedViews = views.filter((view) => view.shared && !isOwner(view));
+
+  const openSaveDialog = () => {
+    setName('');
+    setShared(false);
+    setSaveOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const created = await contentApi.createSavedView({ name: name.trim(), query, shared });
+      setViews((prev) => [...prev, created]);
+      setSaveOpen(false);
+      onSelect(created);
+      toast.success(`Saved view "${created.name}"`);
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(error.response?.data?.detail || 'Failed to save view');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!activeView) return;
+    try {
+      const updated = await contentApi.updateSavedView(activeView.id, { query });
+      setViews((prev) => prev.map((view) => (view.id === updated.id ? updated : view)));
+      toast.success(`Updated view "${updated.name}"`);
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(error.response?.data?.detail || 'Failed to update view');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeView) return;
+    try {
+      await contentApi.deleteSavedView(activeView.id);
+      setViews((prev) => prev.filter((view) => view.id !== activeView.id));
+      setDeleteOpen(false);
+      toast.success(`Deleted view "${activeView.name}"`);
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(error.response?.data?.detail || 'Failed to delete view');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}/dashboard/content${query ? `?${query}` : ''}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link copied to clipboard');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const renderView = (view: SavedContentView) => (
+    <DropdownMenuItem key={view.id} onClick={() => onSelect(view)}>
+      {view.id === activeViewId ? <Check className="h-4 w-4 mr-2" /> : <span className="w-6" />}
+      <span className="truncate">{view.name}</span>
+      {view.shared && isOwner(view) && <Users className="h-3 w-3 ml-auto text-muted-foreground" />}
+      {!isOwner(view) && view.owner_name && (
+        <span className="ml-auto pl-2 text-xs text-muted-foreground">{view.owner_name}</span>
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="h-4 w-4 mr-2" />
+            {activeView ? activeView.name : 'Views'}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {myViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>My Views</DropdownMenuLabel>
+              {myViews.map(renderView)}
+            </>
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>Shared with Organization</DropdownMenuLabel>
+              {sharedViews.map(renderView)}
+            </>
+          )}
+          {views.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onClick={openSaveDialog}>
+            <Save className="h-4 w-4 mr-2" />
+            Save as New View
+          </DropdownMenuItem>
+          {activeView && isOwner(activeView) && (
+            <>
+              <DropdownMenuItem onClick={handleUpdate}>
+                <Save className="h-4 w-4 mr-2" />
+                Update &quot;{activeView.name}&quot;
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onClick={() => setDeleteOpen(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete &quot;{activeView.name}&quot;
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuItem onClick={handleCopyLink}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Copy Link
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>Save the current filters, sort and columns under a name.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input id="view-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="view-shared">Share with organization</Label>
+              <Switch id="view-shared" checked={shared} onCheckedChange={setShared} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+              {isSaving ? 'Saving...' : 'Save View'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={deleteOpen}
+        onOpenChange={setDeleteOpen}
+        title="Delete View"
+        description={`Delete the saved view "${activeView?.name}"? Links to the listing keep working.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </>
+  );
+}
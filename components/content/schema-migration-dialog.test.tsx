@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SchemaMigrationDialog } from './schema-migration-dialog';
+import { contentApi } from '@/lib/api';
+import { ContentEntry } from '@/types';
+import { FieldMapping } from '@/lib/schema-migration';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentEntries: vi.fn(),
+    updateContentEntry: vi.fn(),
+  },
+}));
+
+const entry = (id: string, data: Record<string, unknown>): ContentEntry => ({
+  id,
+  content_type_id: 'type-1',
+  slug: `entry-${id}`,
+  status: 'draft',
+  version: 1,
+  author_id: 'user-1',
+  data,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+});
+
+describe('SchemaMigrationDialog', () => {
+  const mappings: FieldMapping[] = [
+    { from: 'title', fromType: 'text', to: 'headline', toType: 'text', removed: false },
+    { from: 'price', fromType: 'text', to: 'price', toType: 'number', removed: false },
+    { from: 'legacy', fromType: 'text', to: null, toType: null, removed: true },
+  ];
+  const onSaveSchema = vi.fn();
+  const onCancel = vi.fn();
+  const onComplete = vi.fn();
+
+  const renderDialog = () =>
+    render(
+      <SchemaMigrationDialog
+        open
+        contentTypeId="type-1"
+        contentTypeName="Product"
+        entryCount={2}
+        mappings={mappings}
+        addedFields={[{ name: 'notes', type: 'text' }]}
+        onCancel={onCancel}
+        onSaveSchema={onSaveSchema}
+        onComplete={onComplete}
+      />
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    onSaveSchema.mockResolvedValue(true);
+    vi.mocked(contentApi.getContentEntries).mockResolvedValue({
+      items: [entry('1', { title: 'A', price: '10' }), entry('2', { title: 'B', price: 'free' })],
+      total: 2,
+      pages: 1,
+    });
+    vi.mocked(contentApi.updateContentEntry).mockResolvedValue(entry('1', {}));
+  });
+
+  it('should preview the field changes and affected entries', () => {
+    renderDialog();
+
+    expect(screen.getByText(/2 entries use this content type/)).toBeInTheDocument();
+    expect(screen.getAllByTestId('field-mapping')).toHaveLength(3);
+    expect(screen.getByText('Renamed')).toBeInTheDocument();
+    expect(screen.getByText('Retyped')).toBeInTheDocument();
+    expect(screen.getByText('Deleted')).toBeInTheDocument();
+    expect(screen.getByLabelText('Target for legacy')).toBeInTheDocument();
+  });
+
+  it('should list conversion failures before saving the schema', async () => {
+    const user = userEvent.setup();
+    renderDialog();
+
+    await user.click(screen.getByRole('button', { name: 'Check Entries' }));
+
+    await waitFor(() => {
+      expect(screen.getByText(/1 entry will be migrated/)).toBeInTheDocument();
+    });
+    expect(screen.getByText(/1 entry cannot be converted/)).toBeInTheDocument();
+    expect(screen.getByTestId('migration-failures')).toHaveTextContent('entry-2');
+    expect(onSaveSchema).not.toHaveBeenCalled();
+    expect(contentApi.updateContentEntry).not.toHaveBeenCalled();
+  });
+
+  it('should save the schema, migrate entries and report failures', async () => {
+    const user = userEvent.setup();
+    renderDialog();
+
+    await user.click(screen.getByRole('button', { name: 'Check Entries' }));
+    await user.click(await screen.findByRole('button', { name: 'Save and Migrate' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Migrated 1 entry.')).toBeInTheDocument();
+    });
+    expect(onSaveSchema).toHaveBeenCalled();
+    expect(contentApi.getContentEntries).toHaveBeenCalledWith({ content_type_id: 'type-1', page: 1, per_page: 100 });
+    expect(contentApi.updateContentEntry).toHaveBeenCalledTimes(1);
+    expect(contentApi.updateContentEntry).toHaveBeenCalledWith('1', { data: { headline: 'A', price: 10 } });
+    expect(screen.getByText(/1 entry could not be converted/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Download Report/i })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Done' }));
+    expect(onComplete).toHaveBeenCalled();
+  });
+
+  it('should not migrate when saving the schema fails', async () => {
+    const user = userEvent.setup();
+    onSaveSchema.mockResolvedValue(false);
+    renderDialog();
+
+    await user.click(screen.getByRole('button', { name: 'Check Entries' }));
+    await user.click(await screen.findByRole('button', { name: 'Save and Migrate' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Save and Migrate' })).toBeInTheDocument();
+    });
+    expect(onSaveSchema).toHaveBeenCalled();
+    expect(contentApi.getContentEntries).toHaveBeenCalledTimes(1);
+    expect(contentApi.updateContentEntry).not.toHaveBeenCalled();
+  });
+
+  it('should cancel without saving', async () => {
+    const user = userEvent.setup();
+    renderDialog();
+
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(onCancel).toHaveBeenCalled();
+    expect(onSaveSchema).not.toHaveBeenCalled();
+  });
+});
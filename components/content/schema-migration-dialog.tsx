@@ -0,0 +1,355 @@
+'use client';
+
+import { useState } from 'react';
+import { contentApi } from '@/lib/api';
+import { fetchAllPages } from '@/lib/pagination';
+import { buildMigrationReport, FieldMapping, migrateEntryData, MigrationFailure } from '@/lib/schema-migration';
+import { ContentEntry } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, ArrowRight, Download, Loader2 } from 'lucide-react';
+
+const BATCH_SIZE = 10;
+const DROP_DATA = '__drop__';
+
+interface SchemaMigrationDialogProps {
+  open: boolean;
+  contentTypeId: string;
+  contentTypeName: string;
+  entryCount?: number;
+  /** Proposed mappings from the field diff */
+  mappings: FieldMapping[];
+  /** Fields that did not exist before, offered as targets for deleted fields */
+  addedFields: { name: string; type: string }[];
+  onCancel: () => void;
+  /** Saves the new fields; resolves to false when saving failed */
+  onSaveSchema: () => Promise<boolean>;
+  onComplete: () => void;
+}
+
+/** checking and review: conversions are tried without saving anything */
+type Phase = 'preview' | 'checking' | 'review' | 'running' | 'done';
+
+/** Conversion failures listed in the review; the rest are in the report */
+const MAX_LISTED_FAILURES = 5;
+
+function describeMapping(mapping: FieldMapping): string {
+  if (mapping.removed) return mapping.to ? 'Moved' : 'Deleted';
+  const renamed = mapping.to !== mapping.from;
+  const retyped = mapping.toType !== mapping.fromType;
+  if (renamed && retyped) return 'Renamed and retyped';
+  return renamed ? 'Renamed' : 'Retyped';
+}
+
+export function SchemaMigrationDialog({
+  open,
+  contentTypeId,
+  contentTypeName,
+  entryCount,
+  mappings: proposedMappings,
+  addedFields,
+  onCancel,
+  onSaveSchema,
+  onComplete,
+}: SchemaMigrationDialogProps) {
+  const [mappings, setMappings] = useState(proposedMappings);
+  const [phase, setPhase] = useState<Phase>('preview');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [migratedCount, setMigratedCount] = useState(0);
+  const [failures, setFailures] = useState<MigrationFailure[]>([]);
+  // Entries the dry run found data to convert in
+  const [changedCount, setChangedCount] = useState(0);
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  const setTarget = (index: number, target: string) => {
+    const field = addedFields.find((f) => f.name === target);
+    setMappings((prev) =>
+      prev.map((mapping, i) =>
+        i === index ? { ...mapping, to: field ? field.name : null, toType: field ? field.type : null } : mapping
+      )
+    );
+  };
+
+  const loadAllEntries = (): Promise<ContentEntry[]> =>
+    fetchAllPages((page, per_page) => contentApi.getContentEntries({ content_type_id: contentTypeId, page, per_page }));
+
+  // Dry run: convert every entry in memory so failures show before the schema is saved
+  const checkEntries = async () => {
+    setPhase('checking');
+    setCheckError(null);
+    try {
+      const entries = await loadAllEntries();
+      const failed: MigrationFailure[] = [];
+      let changed = 0;
+      entries.forEach((entry) => {
+        const result = migrateEntryData(entry.data || entry.content_data || {}, mappings);
+        result.errors.forEach((error) => failed.push({ entry_id: entry.id, slug: entry.slug, ...error }));
+        if (result.errors.length === 0 && result.changed) changed++;
+      });
+      setChangedCount(changed);
+      setFailures(failed);
+      setPhase('review');
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      setCheckError('Failed to load entries: ' + (error.response?.data?.detail || error.message));
+      setPhase('preview');
+    }
+  };
+
+  const runMigration = async () => {
+    setPhase('running');
+    setProgress({ done: 0, total: 0 });
+    const saved = await onSaveSchema();
+    if (!saved) {
+      setPhase('review');
+      return;
+    }
+
+    // Entries are loaded again so edits made since the dry run are kept
+
+    const failed: MigrationFailure[] = [];
+    let migrated = 0;
+    try {
+      const entries = await loadAllEntries();
+      setProgress({ done: 0, total: entries.length });
+
+      for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+        const batch = entries.slice(i, i + BATCH_SIZE);
+        await Promise.all(
+          batch.map(async (entry) => {
+            const result = migrateEntryData(entry.data || entry.content_data || {}, mappings);
+            if (result.errors.length > 0) {
+              result.errors.forEach((error) => failed.push({ entry_id: entry.id, slug: entry.slug, ...error }));
+              return;
+            }
+            if (!result.changed) return;
+            try {
+              await contentApi.updateContentEntry(entry.id, { data: result.data });
+              migrated++;
+            } catch (err) {
+              const error = err as Error & { response?: { data?: { detail?: string } } };
+              failed.push({
+                entry_id: entry.id,
+                slug: entry.slug,
+                field: '',
+                value: undefined,
+                error: error.response?.data?.detail || error.message,
+              });
+            }
+          })
+        );
+        setProgress({ done: Math.min(i + BATCH_SIZE, entries.length), total: entries.length });
+      }
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      failed.push({
+        entry_id: '',
+        slug: '',
+        field: '',
+        value: undefined,
+        error: 'Failed to load entries: ' + (error.response?.data?.detail || error.message),
+      });
+    }
+
+    setMigratedCount(migrated);
+    setFailures(failed);
+    setPhase('done');
+  };
+
+  const downloadReport = () => {
+    const blob = new Blob([buildMigrationReport(failures)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${contentTypeName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-migration-report.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const failedEntries = new Set(failures.map((f) => f.entry_id)).size;
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && phase !== 'running' && phase !== 'checking' && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Migrate Existing Entries</DialogTitle>
+          <DialogDescription>
+            {entryCount !== undefined
+              ? `${entryCount} ${entryCount === 1 ? 'entry uses' : 'entries use'} this content type.`
+              : 'Existing entries use this content type.'}{' '}
+            Review how their data should be moved to the new fields.
+          </DialogDescription>
+        </DialogHeader>
+
+        {phase === 'preview' && (
+          <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+            {mappings.map((mapping, index) => (
+              <div
+                key={mapping.from}
+                className="flex items-center gap-2 rounded-md border p-2 text-sm"
+                data-testid="field-mapping"
+              >
+                <Badge variant="outline">{describeMapping(mapping)}</Badge>
+                <code className="font-mono">{mapping.from}</code>
+                <span className="text-xs text-muted-foreground">{mapping.fromType}</span>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                {!mapping.removed ? (
+                  <>
+                    <code className="font-mono">{mapping.to}</code>
+                    <span className="text-xs text-muted-foreground">{mapping.toType}</span>
+                  </>
+                ) : (
+                  <Select value={mapping.to || DROP_DATA} onValueChange={(value) => setTarget(index, value)}>
+                    <SelectTrigger className="h-8 w-48" aria-label={`Target for ${mapping.from}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DROP_DATA}>Delete data</SelectItem>
+                      {addedFields.map((field) => (
+                        <SelectItem key={field.name} value={field.name}>
+                          Move to {field.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Entries are checked before anything is saved. Values that cannot be converted are left unchanged and
+              listed in a downloadable report.
+            </p>
+            {checkError && <p className="text-sm text-destructive">{checkError}</p>}
+          </div>
+        )}
+
+        {phase === 'checking' && (
+          <div className="flex items-center gap-2 py-4 text-sm">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Checking entries…
+          </div>
+        )}
+
+        {phase === 'review' && (
+          <div className="space-y-2 py-2 text-sm">
+            <p>
+              {changedCount} {changedCount === 1 ? 'entry' : 'entries'} will be migrated. The content type is only
+              saved when you continue.
+            </p>
+            {failures.length > 0 && (
+              <div className="space-y-2 rounded-md bg-destructive/10 p-3 text-destructive">
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    {failedEntries} {failedEntries === 1 ? 'entry' : 'entries'} cannot be converted and will be left
+                    unchanged.
+                  </span>
+                </div>
+                <ul className="ml-6 list-disc space-y-1 text-xs" data-testid="migration-failures">
+                  {failures.slice(0, MAX_LISTED_FAILURES).map((failure, index) => (
+                    <li key={index}>
+                      <code className="font-mono">{failure.slug}</code> {failure.field}: {failure.error}
+                    </li>
+                  ))}
+                </ul>
+                {failures.length > MAX_LISTED_FAILURES && (
+                  <p className="ml-6 text-xs">And {failures.length - MAX_LISTED_FAILURES} more in the report.</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {phase === 'running' && (
+          <div className="space-y-2 py-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {progress.total > 0
+                ? `Migrating entries… ${progress.done} of ${progress.total}`
+                : 'Saving content type…'}
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${percent}%` }}
+                role="progressbar"
+                aria-valuenow={percent}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              />
+            </div>
+          </div>
+        )}
+
+        {phase === 'done' && (
+          <div className="space-y-2 py-2 text-sm">
+            <p>
+              Migrated {migratedCount} {migratedCount === 1 ? 'entry' : 'entries'}.
+            </p>
+            {failures.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-3 text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  {failedEntries} {failedEntries === 1 ? 'entry' : 'entries'} could not be converted and
+                  {failedEntries === 1 ? ' was' : ' were'} left unchanged.
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {phase === 'preview' && (
+            <>
+              <Button variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+              <Button onClick={checkEntries}>Check Entries</Button>
+            </>
+          )}
+          {phase === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setPhase('preview')}>
+                Back
+              </Button>
+              {failures.length > 0 && (
+                <Button variant="outline" onClick={downloadReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Report
+                </Button>
+              )}
+              <Button onClick={runMigration}>Save and Migrate</Button>
+            </>
+          )}
+          {phase === 'done' && (
+            <>
+              {failures.length > 0 && (
+                <Button variant="outline" onClick={downloadReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Report
+                </Button>
+              )}
+              <Button onClick={onComplete}>Done</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
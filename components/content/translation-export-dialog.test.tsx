@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { toast } from 'sonner';
+import { TranslationExportDialog } from './translation-export-dialog';
+import { translationApi } from '@/lib/api';
+import { ContentEntry, ContentType, Locale } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  translationApi: {
+    getLocales: vi.fn(),
+    getContentTranslations: vi.fn(),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+const locale = (code: string, name: string, isDefault = false): Locale => ({
+  id: `locale-${code}`,
+  code,
+  name,
+  is_default: isDefault,
+  is_enabled: true,
+  is_active: true,
+  auto_translate: false,
+  organization_id: 'org-1',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+});
+
+const articleType: ContentType = {
+  id: 'type-1',
+  name: 'Article',
+  api_id: 'article',
+  fields: [
+    { name: 'title', type: 'text', label: 'Title', localized: true },
+    { name: 'sku', type: 'text', label: 'SKU' },
+  ],
+  organization_id: 'org-1',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+const entry: ContentEntry = {
+  id: 'entry-1',
+  content_type_id: 'type-1',
+  slug: 'launch',
+  status: 'published',
+  data: { title: 'Launch day', sku: 'A-1' },
+};
+
+const originalCreateObjectURL = URL.createObjectURL;
+const originalRevokeObjectURL = URL.revokeObjectURL;
+
+describe('TranslationExportDialog', () => {
+  const onOpenChange = vi.fn();
+  let downloads: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    downloads = [];
+    URL.createObjectURL = vi.fn().mockReturnValue('blob:mock-url');
+    URL.revokeObjectURL = vi.fn();
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push(this.download);
+    });
+    vi.mocked(translationApi.getLocales).mockResolvedValue([
+      locale('en', 'English', true),
+      locale('de', 'German'),
+      locale('fr', 'French'),
+    ]);
+    vi.mocked(translationApi.getContentTranslations).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    URL.createObjectURL = originalCreateObjectURL;
+    URL.revokeObjectURL = originalRevokeObjectURL;
+    vi.restoreAllMocks();
+  });
+
+  const renderDialog = (loadEntries = vi.fn().mockResolvedValue([entry])) =>
+    render(
+      <TranslationExportDialog
+        open
+        onOpenChange={onOpenChange}
+        contentTypes={[articleType]}
+        scopeLabel="1 selected entry"
+        loadEntries={loadEntries}
+        name="Articles"
+      />
+    );
+
+  it('should download the localized fields for the first target locale', async () => {
+    const user = userEvent.setup();
+    renderDialog();
+
+    expect(await screen.findByText('Translate from English into')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Export' }));
+
+    await waitFor(() => expect(downloads).toEqual(['articles-en-de.xlf']));
+    expect(translationApi.getContentTranslations).toHaveBeenCalledWith('entry-1');
+    expect(toast.success).toHaveBeenCalledWith('Exported 1 field from 1 entry');
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it('should export PO files when chosen', async () => {
+    const user = userEvent.setup();
+    renderDialog();
+
+    await screen.findByText('Translate from English into');
+    await user.click(screen.getByRole('button', { name: 'gettext PO' }));
+    await user.click(screen.getByRole('button', { name: 'Export' }));
+
+    await waitFor(() => expect(downloads).toEqual(['articles-en-de.po']));
+  });
+
+  it('should not download anything without localized text', async () => {
+    const user = userEvent.setup();
+    renderDialog(vi.fn().mockResolvedValue([{ ...entry, data: { sku: 'A-1' } }]));
+
+    await screen.findByText('Translate from English into');
+    await user.click(screen.getByRole('button', { name: 'Export' }));
+
+    await waitFor(() =>
+      expect(toast.error).toHaveBeenCalledWith('None of these entries have localized text to translate')
+    );
+    expect(downloads).toEqual([]);
+    expect(onOpenChange).not.toHaveBeenCalled();
+  });
+
+  it('should ask for a second locale when only the default one exists', async () => {
+    vi.mocked(translationApi.getLocales).mockResolvedValue([locale('en', 'English', true)]);
+    renderDialog();
+
+    expect(await screen.findByText(/Enable a locale besides the default one/)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Export' })).toBeDisabled();
+  });
+});
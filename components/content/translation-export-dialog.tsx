@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { translationApi } from '@/lib/api';
+import { TRANSLATION_FILE_FORMATS, TranslationFileFormat } from '@/lib/translation-files';
+import { useTranslationExport } from '@/hooks/use-translation-export';
+import { ContentEntry, ContentType, Locale } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Download, Loader2 } from 'lucide-react';
+
+interface TranslationExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contentTypes: ContentType[];
+  /** Describes which entries are exported, e.g. "3 selected entries" */
+  scopeLabel: string;
+  /** Resolves the entries to export when the export starts */
+  loadEntries: () => Promise<ContentEntry[]>;
+  /** Used for the downloaded file name */
+  name?: string;
+}
+
+export function TranslationExportDialog({
+  open,
+  onOpenChange,
+  contentTypes,
+  scopeLabel,
+  loadEntries,
+  name,
+}: TranslationExportDialogProps) {
+  const [locales, setLocales] = useState<Locale[]>([]);
+  const [targetCode, setTargetCode] = useState<string | null>(null);
+  const [format, setFormat] = useState<TranslationFileFormat>('xliff');
+  const [isLoadingEntries, setIsLoadingEntries] = useState(false);
+  const { exportTranslations, isExporting } = useTranslationExport();
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    translationApi
+      .getLocales()
+      .then((data) => {
+        if (!cancelled) setLocales(data);
+      })
+      .catch((err) => console.error('Failed to load locales:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const sourceLocale = locales.find((locale) => locale.is_default);
+  const targetLocales = locales.filter((locale) => !locale.is_default && locale.is_enabled);
+  const targetLocale = targetLocales.find((locale) => locale.code === targetCode) || targetLocales[0];
+  const isBusy = isLoadingEntries || isExporting;
+
+  const handleExport = async () => {
+    if (!sourceLocale || !targetLocale) return;
+    setIsLoadingEntries(true);
+    let entries: ContentEntry[];
+    try {
+      entries = await loadEntries();
+    } catch (err) {
+      console.error('Failed to load entries for translation export:', err);
+      toast.error('Failed to load the entries to export');
+      return;
+    } finally {
+      setIsLoadingEntries(false);
+    }
+    const exported = await exportTranslations(entries, {
+      format,
+      sourceLocale,
+      targetLocale,
+      locales,
+      contentTypes,
+      name,
+    });
+    if (exported) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isBusy && onOpenChange(isOpen)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export for Translation</DialogTitle>
+          <DialogDescription>
+            Localized text fields of {scopeLabel}, for translation in a CAT tool. Send the translated file
+            back through Import.
+          </DialogDescription>
+        </DialogHeader>
+
+        {locales.length > 0 && !targetLocale ? (
+          <p className="text-sm text-muted-foreground">
+            Enable a locale besides the default one to export translations.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Translate from {sourceLocale?.name || 'the default locale'} into</Label>
+              <Select value={targetLocale?.code || ''} onValueChange={setTargetCode}>
+                <SelectTrigger aria-label="Target locale">
+                  <SelectValue placeholder="Loading locales..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetLocales.map((locale) => (
+                    <SelectItem key={locale.code} value={locale.code}>
+                      {locale.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <div className="flex gap-2">
+                {(Object.keys(TRANSLATION_FILE_FORMATS) as TranslationFileFormat[]).map((key) => (
+                  <Button
+                    key={key}
+                    type="button"
+                    variant={format === key ? 'secondary' : 'outline'}
+                    size="sm"
+                    onClick={() => setFormat(key)}
+                    aria-pressed={format === key}
+                  >
+                    {TRANSLATION_FILE_FORMATS[key].label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {format === 'xliff'
+                  ? 'Supported by most CAT tools, with review states.'
+                  : 'For tools without XLIFF support. Outdated translations are marked fuzzy.'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isBusy}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!targetLocale || !sourceLocale || isBusy}>
+            {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            {isBusy ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
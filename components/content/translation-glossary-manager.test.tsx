@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { toast } from 'sonner';
+import { TranslationGlossaryManager } from './translation-glossary-manager';
+import { translationApi } from '@/lib/api';
+import { GlossaryTerm, Locale } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  translationApi: {
+    getGlossary: vi.fn(),
+    createGlossaryTerm: vi.fn(),
+    updateGlossaryTerm: vi.fn(),
+    deleteGlossaryTerm: vi.fn(),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+const locale = (code: string, name: string, isDefault = false): Locale => ({
+  id: `locale-${code}`,
+  code,
+  name,
+  is_default: isDefault,
+  is_enabled: true,
+  is_active: true,
+  auto_translate: false,
+  organization_id: 'org-1',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+});
+
+const locales = [locale('en', 'English', true), locale('de', 'German'), locale('fr', 'French')];
+
+const brand: GlossaryTerm = {
+  id: 'g1',
+  term: 'Acme Pro',
+  do_not_translate: true,
+  translations: {},
+  case_sensitive: true,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+const checkout: GlossaryTerm = {
+  ...brand,
+  id: 'g2',
+  term: 'checkout',
+  do_not_translate: false,
+  translations: { de: 'Kasse' },
+  case_sensitive: false,
+  notes: 'The page, not the action',
+};
+
+describe('TranslationGlossaryManager', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(translationApi.getGlossary).mockResolvedValue([checkout, brand]);
+  });
+
+  it('should list terms with their rule', async () => {
+    render(<TranslationGlossaryManager locales={locales} />);
+
+    expect(await screen.findByText('Acme Pro')).toBeInTheDocument();
+    expect(screen.getByText('Do not translate')).toBeInTheDocument();
+    expect(screen.getByText('German: Kasse')).toBeInTheDocument();
+    expect(screen.getByText('The page, not the action')).toBeInTheDocument();
+  });
+
+  it('should add a term with translations per locale', async () => {
+    const user = userEvent.setup();
+    vi.mocked(translationApi.createGlossaryTerm).mockImplementation(async (data) => ({
+      ...brand,
+      ...data,
+      id: 'g3',
+    }));
+    render(<TranslationGlossaryManager locales={locales} />);
+
+    await screen.findByText('Acme Pro');
+    await user.click(screen.getByRole('button', { name: 'Add Term' }));
+    await user.type(screen.getByLabelText('Term'), ' Cart ');
+    await user.type(screen.getByLabelText('German translation'), 'Warenkorb');
+    await user.click(screen.getByRole('button', { name: 'Save Term' }));
+
+    await waitFor(() =>
+      expect(translationApi.createGlossaryTerm).toHaveBeenCalledWith({
+        term: 'Cart',
+        do_not_translate: false,
+        translations: { de: 'Warenkorb' },
+        case_sensitive: false,
+        notes: undefined,
+      })
+    );
+    expect(await screen.findByText('German: Warenkorb')).toBeInTheDocument();
+  });
+
+  it('should require a translation unless the term is kept as is', async () => {
+    const user = userEvent.setup();
+    render(<TranslationGlossaryManager locales={locales} />);
+
+    await screen.findByText('Acme Pro');
+    await user.click(screen.getByRole('button', { name: 'Add Term' }));
+    await user.type(screen.getByLabelText('Term'), 'Cart');
+    await user.click(screen.getByRole('button', { name: 'Save Term' }));
+
+    expect(toast.error).toHaveBeenCalledWith('Add a translation or mark the term as do not translate');
+
+    await user.clear(screen.getByLabelText('Term'));
+    await user.type(screen.getByLabelText('Term'), 'acme pro');
+    await user.click(screen.getByLabelText('Do not translate'));
+    await user.click(screen.getByRole('button', { name: 'Save Term' }));
+
+    expect(toast.error).toHaveBeenCalledWith('"acme pro" is already in the glossary');
+    expect(translationApi.createGlossaryTerm).not.toHaveBeenCalled();
+  });
+
+  it('should edit and delete terms', async () => {
+    const user = userEvent.setup();
+    vi.mocked(translationApi.updateGlossaryTerm).mockResolvedValue({ ...checkout, translations: { de: 'Bezahlen' } });
+    vi.mocked(translationApi.deleteGlossaryTerm).mockResolvedValue(undefined);
+    render(<TranslationGlossaryManager locales={locales} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Edit checkout' }));
+    await user.clear(screen.getByLabelText('German translation'));
+    await user.type(screen.getByLabelText('German translation'), 'Bezahlen');
+    await user.click(screen.getByRole('button', { name: 'Save Term' }));
+
+    expect(await screen.findByText('German: Bezahlen')).toBeInTheDocument();
+    expect(translationApi.updateGlossaryTerm).toHaveBeenCalledWith(
+      'g2',
+      expect.objectContaining({ translations: { de: 'Bezahlen' } })
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Delete Acme Pro' }));
+    await user.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(screen.queryByText('Acme Pro')).not.toBeInTheDocument());
+    expect(translationApi.deleteGlossaryTerm).toHaveBeenCalledWith('g1');
+  });
+});
@@ -0,0 +1,303 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { translationApi } from '@/lib/api';
+import type { GlossaryTermCreate } from '@/lib/api/translation';
+import { GlossaryTerm, Locale } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+interface TranslationGlossaryManagerProps {
+  locales: Locale[];
+}
+
+const EMPTY_FORM: GlossaryTermCreate = {
+  term: '',
+  do_not_translate: false,
+  translations: {},
+  case_sensitive: false,
+  notes: '',
+};
+
+function getErrorMessage(err: unknown): string {
+  const error = err as Error & { response?: { data?: { detail?: string } } };
+  return error.response?.data?.detail || error.message;
+}
+
+export function TranslationGlossaryManager({ locales }: TranslationGlossaryManagerProps) {
+  const [terms, setTerms] = useState<GlossaryTerm[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTerm, setEditingTerm] = useState<GlossaryTerm | null>(null);
+  const [form, setForm] = useState<GlossaryTermCreate>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [termToDelete, setTermToDelete] = useState<GlossaryTerm | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    translationApi
+      .getGlossary()
+      .then((data) => {
+        if (!cancelled) setTerms(data);
+      })
+      .catch((err) => {
+        console.error('Failed to load glossary:', err);
+        if (!cancelled) toast.error('Failed to load glossary');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const targetLocales = locales.filter((locale) => !locale.is_default);
+  const getLocaleName = (code: string) => locales.find((locale) => locale.code === code)?.name || code;
+
+  const openDialog = (term: GlossaryTerm | null) => {
+    setEditingTerm(term);
+    setForm(
+      term
+        ? {
+            term: term.term,
+            do_not_translate: term.do_not_translate,
+            translations: term.translations,
+            case_sensitive: term.case_sensitive,
+            notes: term.notes || '',
+          }
+        : EMPTY_FORM
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const name = form.term.trim();
+    const translations = Object.fromEntries(
+      Object.entries(form.translations)
+        .map(([code, text]) => [code, text.trim()])
+        .filter(([, text]) => text)
+    );
+    if (!name) {
+      toast.error('Enter a term');
+      return;
+    }
+    if (terms.some((term) => term.id !== editingTerm?.id && term.term.toLowerCase() === name.toLowerCase())) {
+      toast.error(`"${name}" is already in the glossary`);
+      return;
+    }
+    if (!form.do_not_translate && Object.keys(translations).length === 0) {
+      toast.error('Add a translation or mark the term as do not translate');
+      return;
+    }
+
+    const data: GlossaryTermCreate = {
+      ...form,
+      term: name,
+      translations: form.do_not_translate ? {} : translations,
+      notes: form.notes?.trim() || undefined,
+    };
+    setIsSaving(true);
+    try {
+      if (editingTerm) {
+        const updated = await translationApi.updateGlossaryTerm(editingTerm.id, data);
+        setTerms((prev) => prev.map((term) => (term.id === updated.id ? updated : term)));
+      } else {
+        const created = await translationApi.createGlossaryTerm(data);
+        setTerms((prev) => [...prev, created]);
+      }
+      toast.success(editingTerm ? 'Glossary term updated' : 'Glossary term added');
+      setDialogOpen(false);
+    } catch (err) {
+      toast.error('Failed to save glossary term: ' + getErrorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!termToDelete) return;
+    try {
+      await translationApi.deleteGlossaryTerm(termToDelete.id);
+      setTerms((prev) => prev.filter((term) => term.id !== termToDelete.id));
+      toast.success('Glossary term deleted');
+    } catch (err) {
+      toast.error('Failed to delete glossary term: ' + getErrorMessage(err));
+    }
+  };
+
+  const sortedTerms = [...terms].sort((a, b) => a.term.localeCompare(b.term));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Glossary</CardTitle>
+          <CardDescription>
+            Terms that must be kept or translated the same way everywhere. They are passed to machine
+            translation, and translations that break them are flagged in the Translation Workspace.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Term
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading glossary...</p>
+        ) : sortedTerms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No terms yet. Add brand and product names that should never be translated.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Term</TableHead>
+                <TableHead>Rule</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedTerms.map((term) => (
+                <TableRow key={term.id}>
+                  <TableCell className="font-medium">
+                    {term.term}
+                    {term.case_sensitive && (
+                      <Badge variant="outline" className="ml-2">
+                        Aa
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {term.do_not_translate ? (
+                      <Badge variant="secondary">Do not translate</Badge>
+                    ) : (
+                      <span className="text-sm">
+                        {Object.entries(term.translations)
+                          .map(([code, text]) => `${getLocaleName(code)}: ${text}`)
+                          .join(', ')}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{term.notes}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(term)} aria-label={`Edit ${term.term}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setTermToDelete(term)}
+                      aria-label={`Delete ${term.term}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !isSaving && setDialogOpen(open)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingTerm ? 'Edit Term' : 'Add Term'}</DialogTitle>
+            <DialogDescription>
+              Keep the term as written in every language, or set the translation each locale must use.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="glossary-term">Term</Label>
+              <Input
+                id="glossary-term"
+                value={form.term}
+                onChange={(e) => setForm((prev) => ({ ...prev, term: e.target.value }))}
+                placeholder="e.g., Acme Pro"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="glossary-do-not-translate">Do not translate</Label>
+              <Switch
+                id="glossary-do-not-translate"
+                checked={form.do_not_translate}
+                onCheckedChange={(checked) => setForm((prev) => ({ ...prev, do_not_translate: checked }))}
+              />
+            </div>
+            {!form.do_not_translate &&
+              targetLocales.map((locale) => (
+                <div key={locale.code} className="space-y-2">
+                  <Label htmlFor={`glossary-${locale.code}`}>{locale.name} translation</Label>
+                  <Input
+                    id={`glossary-${locale.code}`}
+                    value={form.translations[locale.code] || ''}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        translations: { ...prev.translations, [locale.code]: e.target.value },
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="glossary-case-sensitive">Match case</Label>
+              <Switch
+                id="glossary-case-sensitive"
+                checked={form.case_sensitive}
+                onCheckedChange={(checked) => setForm((prev) => ({ ...prev, case_sensitive: checked }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="glossary-notes">Notes for translators</Label>
+              <Input
+                id="glossary-notes"
+                value={form.notes || ''}
+                onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Term'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!termToDelete}
+        onOpenChange={(open) => !open && setTermToDelete(null)}
+        title="Delete Term"
+        description={`Remove "${termToDelete?.term}" from the glossary? Existing translations are not changed.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </Card>
+  );
+}
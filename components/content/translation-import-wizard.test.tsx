@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TranslationImportWizard } from './translation-import-wizard';
+import { contentApi, translationApi } from '@/lib/api';
+import { serializeXliff, TranslationDocument } from '@/lib/translation-files';
+import { hashSourceValue } from '@/lib/translation-status';
+import { ContentEntry, ContentType, Locale, Translation } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentTypes: vi.fn(),
+    getContentEntry: vi.fn(),
+  },
+  translationApi: {
+    getLocales: vi.fn(),
+    getContentTranslations: vi.fn(),
+    createOrUpdateTranslation: vi.fn(),
+    addTranslationMemory: vi.fn(),
+  },
+}));
+
+const locale = (code: string, name: string, isDefault = false): Locale => ({
+  id: `locale-${code}`,
+  code,
+  name,
+  is_default: isDefault,
+  is_enabled: true,
+  is_active: true,
+  auto_translate: false,
+  organization_id: 'org-1',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+});
+
+const articleType: ContentType = {
+  id: 'type-1',
+  name: 'Article',
+  api_id: 'article',
+  fields: [
+    { name: 'title', type: 'text', label: 'Title', localized: true },
+    { name: 'body', type: 'richtext', label: 'Body', localized: true },
+  ],
+  organization_id: 'org-1',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+const entries: ContentEntry[] = [
+  {
+    id: 'entry-1',
+    content_type_id: 'type-1',
+    slug: 'launch',
+    status: 'published',
+    data: { title: 'Launch day', body: '<p>Hello <strong>all</strong></p>' },
+  },
+  {
+    id: 'entry-2',
+    content_type_id: 'type-1',
+    slug: 'welcome',
+    status: 'published',
+    data: { title: 'Welcome {name}', body: '<p>Hi</p>' },
+  },
+];
+
+const germanTranslation: Translation = {
+  id: 't1',
+  content_entry_id: 'entry-1',
+  locale_id: 'locale-de',
+  translated_data: { title: 'Starttag', summary: 'Kurz' },
+  status: 'completed',
+  is_manual: false,
+  version: 1,
+  created_at: '',
+  updated_at: '',
+};
+
+const document: TranslationDocument = {
+  sourceLocale: 'en',
+  targetLocale: 'de',
+  units: [
+    { entryId: 'entry-1', field: 'title', source: 'Launch day', target: 'Tag des Starts', state: 'reviewed', notes: [] },
+    {
+      entryId: 'entry-1',
+      field: 'body',
+      source: '<p>Hello <strong>all</strong></p>',
+      target: '<p>Hallo <strong>alle</strong></p>',
+      state: 'translated',
+      notes: [],
+    },
+    { entryId: 'entry-2', field: 'title', source: 'Welcome {name}', target: 'Willkommen', state: 'translated', notes: [] },
+    { entryId: 'entry-2', field: 'body', source: '<p>Hi</p>', target: '', state: 'initial', notes: [] },
+  ],
+};
+
+const uploadFile = async (user: ReturnType<typeof userEvent.setup>, text: string, name = 'articles-en-de.xlf') => {
+  await user.upload(screen.getByLabelText('Translation file'), new File([text], name));
+};
+
+describe('TranslationImportWizard', () => {
+  const onOpenChange = vi.fn();
+  const onImported = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(translationApi.getLocales).mockResolvedValue([locale('en', 'English', true), locale('de', 'German')]);
+    vi.mocked(contentApi.getContentTypes).mockResolvedValue([articleType]);
+    vi.mocked(contentApi.getContentEntry).mockImplementation(async (id) => {
+      const entry = entries.find((e) => e.id === id);
+      if (!entry) throw new Error('Not found');
+      return entry;
+    });
+    vi.mocked(translationApi.getContentTranslations).mockImplementation(async (id) =>
+      id === 'entry-1' ? [germanTranslation] : []
+    );
+    vi.mocked(translationApi.createOrUpdateTranslation).mockResolvedValue(germanTranslation);
+    vi.mocked(translationApi.addTranslationMemory).mockResolvedValue([]);
+  });
+
+  it('should list problems with an unreadable file', async () => {
+    const user = userEvent.setup();
+    render(<TranslationImportWizard open onOpenChange={onOpenChange} onImported={onImported} />);
+
+    await uploadFile(user, '<xliff version="1.2" trgLang="de"/>');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Only XLIFF 2.0 files are supported');
+    expect(contentApi.getContentEntry).not.toHaveBeenCalled();
+  });
+
+  it('should reject files for locales that are not set up', async () => {
+    const user = userEvent.setup();
+    render(<TranslationImportWizard open onOpenChange={onOpenChange} onImported={onImported} />);
+
+    await uploadFile(user, serializeXliff({ ...document, targetLocale: 'ja' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('ja, which is not set up here');
+  });
+
+  it('should preview changes per entry and leave out entries with issues', async () => {
+    const user = userEvent.setup();
+    render(<TranslationImportWizard open onOpenChange={onOpenChange} onImported={onImported} />);
+
+    await uploadFile(user, serializeXliff(document));
+
+    expect(await screen.findAllByTestId('translation-import-entry')).toHaveLength(2);
+    expect(screen.getByText('1 not translated yet')).toBeInTheDocument();
+    expect(screen.getByText('Starttag')).toBeInTheDocument();
+    expect(screen.getByText('Missing placeholder {name}')).toBeInTheDocument();
+
+    const [launch, welcome] = screen.getAllByRole('checkbox');
+    expect(launch).toBeChecked();
+    expect(welcome).not.toBeChecked();
+    expect(screen.getByRole('button', { name: 'Import 1 Entry' })).toBeInTheDocument();
+  });
+
+  it('should save selected entries as manual translations', async () => {
+    const user = userEvent.setup();
+    render(<TranslationImportWizard open onOpenChange={onOpenChange} onImported={onImported} />);
+
+    await uploadFile(user, serializeXliff(document));
+    await user.click(await screen.findByRole('button', { name: 'Import 1 Entry' }));
+
+    expect(await screen.findByText('Updated 1 German translation.')).toBeInTheDocument();
+    expect(translationApi.createOrUpdateTranslation).toHaveBeenCalledTimes(1);
+    expect(translationApi.createOrUpdateTranslation).toHaveBeenCalledWith(
+      'entry-1',
+      'de',
+      { title: 'Tag des Starts', summary: 'Kurz', body: '<p>Hallo <strong>alle</strong></p>' },
+      {
+        fieldStatus: {
+          title: { source_hash: hashSourceValue('Launch day'), machine: false, reviewed: true },
+          body: { source_hash: hashSourceValue('<p>Hello <strong>all</strong></p>'), machine: false, reviewed: false },
+        },
+        isManual: true,
+      }
+    );
+    expect(translationApi.addTranslationMemory).toHaveBeenCalledWith([
+      expect.objectContaining({ source_locale: 'en', target_locale: 'de', field: 'title', target: 'Tag des Starts' }),
+      expect.objectContaining({ field: 'body', target: '<p>Hallo <strong>alle</strong></p>' }),
+    ]);
+
+    await user.click(screen.getByRole('button', { name: 'Done' }));
+    await waitFor(() => expect(onImported).toHaveBeenCalled());
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+});
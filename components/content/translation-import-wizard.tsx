@@ -0,0 +1,382 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { contentApi, translationApi } from '@/lib/api';
+import type { TranslationMemoryCreate } from '@/lib/api/translation';
+import {
+  TranslationDocument,
+  TranslationImportPlan,
+  TranslationSource,
+  getEntryTitle,
+  parseTranslationFile,
+  planTranslationImport,
+} from '@/lib/translation-files';
+import { getTranslationLocaleCode, hashSourceValue } from '@/lib/translation-status';
+import { Locale, TranslationFieldState } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AlertTriangle, FileText, Loader2 } from 'lucide-react';
+
+interface TranslationImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called when the wizard is closed after an import so lists can reload */
+  onImported?: () => void;
+}
+
+type Step = 'select' | 'review' | 'running' | 'done';
+
+interface ImportSummary {
+  updated: number;
+  errors: string[];
+}
+
+function getErrorMessage(err: unknown): string {
+  const error = err as Error & { response?: { data?: { detail?: string } } };
+  return error.response?.data?.detail || error.message;
+}
+
+export function TranslationImportWizard({ open, onOpenChange, onImported }: TranslationImportWizardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>('select');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [locale, setLocale] = useState<Locale | null>(null);
+  const [sourceCode, setSourceCode] = useState('');
+  const [plan, setPlan] = useState<TranslationImportPlan | null>(null);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [summary, setSummary] = useState<ImportSummary>({ updated: 0, errors: [] });
+
+  const reset = () => {
+    setStep('select');
+    setFileErrors([]);
+    setLocale(null);
+    setPlan(null);
+    setSelected({});
+    setWarnings([]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const close = () => {
+    if (step === 'done') onImported?.();
+    reset();
+    onOpenChange(false);
+  };
+
+  // Match the file with the entries and translations it was exported from
+  const analyze = async (document: TranslationDocument) => {
+    setIsAnalyzing(true);
+    try {
+      const [locales, contentTypes] = await Promise.all([translationApi.getLocales(), contentApi.getContentTypes()]);
+      const code = document.targetLocale.toLowerCase();
+      const target = locales.find((l) => l.code.toLowerCase() === code);
+      if (!target || target.is_default) {
+        setFileErrors([
+          target
+            ? `The file translates into ${target.name}, the default locale`
+            : `The file translates into ${document.targetLocale}, which is not set up here`,
+        ]);
+        return;
+      }
+
+      const entryIds = Array.from(new Set(document.units.map((unit) => unit.entryId)));
+      const [entryResults, translationResults] = await Promise.all([
+        Promise.allSettled(entryIds.map((id) => contentApi.getContentEntry(id))),
+        Promise.allSettled(entryIds.map((id) => translationApi.getContentTranslations(id))),
+      ]);
+      const sources: TranslationSource[] = [];
+      entryResults.forEach((result, index) => {
+        if (result.status !== 'fulfilled') return;
+        const entry = result.value;
+        const type = contentTypes.find((t) => t.id === entry.content_type_id) || entry.content_type;
+        const translations = translationResults[index];
+        sources.push({
+          entry,
+          fields: type?.fields || [],
+          translation:
+            translations.status === 'fulfilled'
+              ? translations.value.find((t) => getTranslationLocaleCode(t, locales) === target.code)
+              : undefined,
+        });
+      });
+
+      const notes: string[] = [];
+      const sourceLocale = locales.find((l) => l.is_default);
+      if (document.sourceLocale && sourceLocale && document.sourceLocale.toLowerCase() !== sourceLocale.code.toLowerCase()) {
+        notes.push(`The file was translated from ${document.sourceLocale}, not from ${sourceLocale.name}.`);
+      }
+
+      const result = planTranslationImport(document.units, sources);
+      setLocale(target);
+      setSourceCode(document.sourceLocale || sourceLocale?.code || '');
+      setPlan(result);
+      // Entries with problems are left out until someone has looked at them
+      setSelected(
+        Object.fromEntries(
+          result.entries.map((item) => [item.entry.id, item.changes.every((change) => change.issues.length === 0)])
+        )
+      );
+      setWarnings(notes);
+      setStep('review');
+    } catch (err) {
+      setFileErrors(['Failed to check the file: ' + getErrorMessage(err)]);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileErrors([]);
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = parseTranslationFile(String(reader.result || ''));
+      if (!result.document) {
+        setFileErrors(result.errors);
+        return;
+      }
+      analyze(result.document);
+    };
+    reader.onerror = () => setFileErrors(['Failed to read file']);
+    reader.readAsText(file);
+  };
+
+  const selectedEntries = plan?.entries.filter((item) => selected[item.entry.id]) || [];
+
+  const runImport = async () => {
+    if (!plan || !locale) return;
+    setStep('running');
+    const result: ImportSummary = { updated: 0, errors: [] };
+    const segments: TranslationMemoryCreate[] = [];
+    setProgress({ done: 0, total: selectedEntries.length });
+
+    for (const [index, item] of selectedEntries.entries()) {
+      const data = { ...item.translation?.translated_data };
+      const fieldStatus: Record<string, TranslationFieldState> = {};
+      item.changes.forEach((change) => {
+        data[change.field] = change.target;
+        // Hashing the exported source marks fields whose source has changed since as outdated
+        fieldStatus[change.field] = { source_hash: hashSourceValue(change.source), machine: false, reviewed: change.reviewed };
+      });
+      try {
+        await translationApi.createOrUpdateTranslation(item.entry.id, locale.code, data, {
+          fieldStatus,
+          isManual: true,
+        });
+        result.updated++;
+        item.changes
+          .filter((change) => !change.sourceChanged && change.issues.length === 0)
+          .forEach((change) =>
+            segments.push({
+              source_locale: sourceCode,
+              target_locale: locale.code,
+              source: change.source,
+              target: change.target,
+              content_id: item.entry.id,
+              field: change.field,
+            })
+          );
+      } catch (err) {
+        result.errors.push(`${getEntryTitle(item.entry)}: ${getErrorMessage(err)}`);
+      }
+      setProgress({ done: index + 1, total: selectedEntries.length });
+    }
+
+    if (segments.length > 0) {
+      // Imported translations are approved by the translator, so they are remembered
+      translationApi
+        .addTranslationMemory(segments)
+        .catch((err) => console.error('Failed to update translation memory:', err));
+    }
+
+    setSummary(result);
+    setStep('done');
+  };
+
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && step !== 'running' && close()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Translations</DialogTitle>
+          <DialogDescription>
+            Import an XLIFF or PO file returned by your translators. Changes are shown per entry before they are
+            saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'select' && (
+          <div className="space-y-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlf,.xliff,.po,application/xliff+xml,text/x-gettext-translation"
+              className="hidden"
+              onChange={handleFileChange}
+              aria-label="Translation file"
+            />
+            <div
+              className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:border-primary transition-colors"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {isAnalyzing ? (
+                <Loader2 className="h-10 w-10 mx-auto text-muted-foreground mb-2 animate-spin" />
+              ) : (
+                <FileText className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+              )}
+              <p className="font-medium">{isAnalyzing ? 'Checking file…' : 'Click to choose a translation file'}</p>
+              <p className="text-sm text-muted-foreground">XLIFF 2.0 or PO files exported for translation</p>
+            </div>
+            {fileErrors.length > 0 && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive" role="alert">
+                <ul className="list-disc pl-4 space-y-1">
+                  {fileErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && plan && locale && (
+          <div className="space-y-4 max-h-[55vh] overflow-y-auto">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{locale.name}</Badge>
+              <Badge variant="secondary">
+                {plan.entries.length} {plan.entries.length === 1 ? 'entry' : 'entries'} changed
+              </Badge>
+              {plan.unchanged > 0 && <Badge variant="outline">{plan.unchanged} unchanged</Badge>}
+              {plan.untranslated > 0 && <Badge variant="outline">{plan.untranslated} not translated yet</Badge>}
+            </div>
+
+            {[...warnings, ...plan.skipped].map((warning) => (
+              <div key={warning} className="flex items-start gap-2 rounded-md bg-muted p-3 text-sm">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{warning}</span>
+              </div>
+            ))}
+
+            {plan.entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">There are no new translations in this file.</p>
+            ) : (
+              plan.entries.map(({ entry, changes }) => (
+                <div key={entry.id} className="rounded-md border p-3 space-y-2" data-testid="translation-import-entry">
+                  <label className="flex items-center gap-2 font-medium">
+                    <Checkbox
+                      checked={!!selected[entry.id]}
+                      onCheckedChange={(checked) => setSelected((prev) => ({ ...prev, [entry.id]: checked === true }))}
+                    />
+                    {getEntryTitle(entry)}
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {changes.length} {changes.length === 1 ? 'field' : 'fields'}
+                    </span>
+                  </label>
+                  {changes.map((change) => (
+                    <div key={change.field} className="pl-6 text-sm space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{change.label}</span>
+                        {change.reviewed && <Badge variant="outline">Reviewed</Badge>}
+                      </div>
+                      {change.current && (
+                        <p className="text-xs text-muted-foreground line-through line-clamp-2 break-words">
+                          {change.current}
+                        </p>
+                      )}
+                      <p className="text-xs line-clamp-3 break-words">{change.target}</p>
+                      {change.sourceChanged && (
+                        <p className="text-xs text-amber-700">
+                          The source text changed after export; this field will show as outdated.
+                        </p>
+                      )}
+                      {change.issues.length > 0 && (
+                        <ul className="text-xs text-destructive list-disc pl-4">
+                          {change.issues.map((issue) => (
+                            <li key={issue}>{issue}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        {step === 'running' && (
+          <div className="space-y-2 py-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Importing… {progress.done} of {progress.total}
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${percent}%` }}
+                role="progressbar"
+                aria-valuenow={percent}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              />
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-2 py-2 text-sm">
+            <p>
+              Updated {summary.updated} {locale?.name} {summary.updated === 1 ? 'translation' : 'translations'}.
+            </p>
+            {summary.errors.length > 0 && (
+              <div className="rounded-md bg-destructive/10 p-3 text-destructive">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {summary.errors.length} {summary.errors.length === 1 ? 'entry' : 'entries'} failed
+                </div>
+                <ul className="mt-2 list-disc pl-6 space-y-1 max-h-40 overflow-y-auto">
+                  {summary.errors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'select' && (
+            <Button variant="outline" onClick={close}>
+              Cancel
+            </Button>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={runImport} disabled={selectedEntries.length === 0}>
+                Import {selectedEntries.length} {selectedEntries.length === 1 ? 'Entry' : 'Entries'}
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={close}>Done</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TranslationMemoryManager } from './translation-memory-manager';
+import { translationApi } from '@/lib/api';
+import { Locale, TranslationMemorySegment } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  translationApi: {
+    getTranslationMemory: vi.fn(),
+    deleteTranslationMemorySegment: vi.fn(),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+const locales = [
+  { id: 'locale-en', code: 'en', name: 'English', is_default: true, is_enabled: true },
+  { id: 'locale-de', code: 'de', name: 'German', is_default: false, is_enabled: true },
+] as Locale[];
+
+const segments: TranslationMemorySegment[] = [
+  {
+    id: 'tm-1',
+    source_locale: 'en',
+    target_locale: 'de',
+    source: '<p>Add to <strong>cart</strong></p>',
+    target: '<p>In den <strong>Warenkorb</strong></p>',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+  },
+  {
+    id: 'tm-2',
+    source_locale: 'en',
+    target_locale: 'de',
+    source: 'Free shipping',
+    target: 'Kostenloser Versand',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+  },
+];
+
+describe('TranslationMemoryManager', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(translationApi.getTranslationMemory).mockResolvedValue(segments);
+  });
+
+  it('should list segments as plain text with their languages', async () => {
+    render(<TranslationMemoryManager locales={locales} />);
+
+    expect(await screen.findByText('Add to cart')).toBeInTheDocument();
+    expect(screen.getByText('In den Warenkorb')).toBeInTheDocument();
+    expect(screen.getByText('2 segments')).toBeInTheDocument();
+    expect(screen.getAllByText('English → German')).toHaveLength(2);
+  });
+
+  it('should search segments', async () => {
+    const user = userEvent.setup();
+    render(<TranslationMemoryManager locales={locales} />);
+
+    await screen.findByText('Add to cart');
+    vi.mocked(translationApi.getTranslationMemory).mockResolvedValue([]);
+    await user.type(screen.getByLabelText('Search translation memory'), 'boots');
+    await user.click(screen.getByRole('button', { name: 'Search' }));
+
+    expect(await screen.findByText('No segments match "boots".')).toBeInTheDocument();
+    expect(translationApi.getTranslationMemory).toHaveBeenLastCalledWith({ search: 'boots' });
+  });
+
+  it('should delete a segment', async () => {
+    const user = userEvent.setup();
+    vi.mocked(translationApi.deleteTranslationMemorySegment).mockResolvedValue(undefined);
+    render(<TranslationMemoryManager locales={locales} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Delete segment Free shipping' }));
+
+    await waitFor(() => expect(screen.queryByText('Free shipping')).not.toBeInTheDocument());
+    expect(translationApi.deleteTranslationMemorySegment).toHaveBeenCalledWith('tm-2');
+    expect(screen.getByText('1 segment')).toBeInTheDocument();
+  });
+});
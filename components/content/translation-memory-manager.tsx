@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { translationApi } from '@/lib/api';
+import { toPlainText } from '@/lib/translation-memory';
+import { Locale, TranslationMemorySegment } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Search, Trash2 } from 'lucide-react';
+
+interface TranslationMemoryManagerProps {
+  locales: Locale[];
+}
+
+export function TranslationMemoryManager({ locales }: TranslationMemoryManagerProps) {
+  const [segments, setSegments] = useState<TranslationMemorySegment[]>([]);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    translationApi
+      .getTranslationMemory(query ? { search: query } : {})
+      .then((data) => {
+        if (!cancelled) setSegments(data);
+      })
+      .catch((err) => {
+        console.error('Failed to load translation memory:', err);
+        if (!cancelled) toast.error('Failed to load translation memory');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const getLocaleName = (code: string) => locales.find((locale) => locale.code === code)?.name || code;
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    const next = search.trim();
+    if (next === query) return;
+    setIsLoading(true);
+    setQuery(next);
+  };
+
+  const handleDelete = async (segment: TranslationMemorySegment) => {
+    try {
+      await translationApi.deleteTranslationMemorySegment(segment.id);
+      setSegments((prev) => prev.filter((s) => s.id !== segment.id));
+      toast.success('Segment removed from translation memory');
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error('Failed to delete segment: ' + (error.response?.data?.detail || error.message));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Translation Memory</CardTitle>
+        <CardDescription>
+          Approved translations, saved as fields are translated or reviewed, and offered as suggestions for
+          similar text. Remove segments that should no longer be reused.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search source or translation..."
+            aria-label="Search translation memory"
+          />
+          <Button type="submit" variant="outline">
+            <Search className="h-4 w-4 mr-2" />
+            Search
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading translation memory...</p>
+        ) : segments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {query ? `No segments match "${query}".` : 'Translations are added here as they are saved.'}
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {segments.length} {segments.length === 1 ? 'segment' : 'segments'}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Translation</TableHead>
+                  <TableHead>Languages</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {segments.map((segment) => (
+                  <TableRow key={segment.id}>
+                    <TableCell className="max-w-xs">
+                      <p className="line-clamp-2 break-words text-sm">{toPlainText(segment.source)}</p>
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <p className="line-clamp-2 break-words text-sm">{toPlainText(segment.target)}</p>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {getLocaleName(segment.source_locale)} → {getLocaleName(segment.target_locale)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                      {new Date(segment.updated_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(segment)}
+                        aria-label={`Delete segment ${toPlainText(segment.source)}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
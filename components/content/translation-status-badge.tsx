@@ -0,0 +1,28 @@
+'use client';
+
+import { TranslationFieldStatus } from '@/lib/translation-status';
+import { useI18n } from '@/contexts/i18n-context';
+import { Badge } from '@/components/ui/badge';
+
+const STATUS_CLASSES: Record<TranslationFieldStatus, string> = {
+  missing: 'border-red-200 bg-red-50 text-red-700',
+  outdated: 'border-amber-200 bg-amber-50 text-amber-800',
+  machine: 'border-blue-200 bg-blue-50 text-blue-700',
+  translated: 'border-slate-200 bg-slate-50 text-slate-700',
+  reviewed: 'border-green-200 bg-green-50 text-green-700',
+};
+
+interface TranslationStatusBadgeProps {
+  status: TranslationFieldStatus;
+  count?: number;
+}
+
+export function TranslationStatusBadge({ status, count }: TranslationStatusBadgeProps) {
+  const { t } = useI18n();
+  return (
+    <Badge variant="outline" className={STATUS_CLASSES[status]}>
+      {t(`translations.status.${status}`)}
+      {count !== undefined && `: ${count}`}
+    </Badge>
+  );
+}
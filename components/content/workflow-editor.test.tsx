@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { WorkflowEditor } from './workflow-editor';
+import { createDefaultWorkflow } from '@/lib/workflow';
+
+describe('WorkflowEditor', () => {
+  const onChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should enable the default workflow', async () => {
+    const user = userEvent.setup();
+    render(<WorkflowEditor workflow={undefined} onChange={onChange} />);
+
+    expect(screen.queryByTestId('workflow-stage')).not.toBeInTheDocument();
+    await user.click(screen.getByRole('switch', { name: 'Enable review workflow' }));
+
+    expect(onChange).toHaveBeenCalledWith(createDefaultWorkflow());
+  });
+
+  it('should render stages when enabled', () => {
+    render(<WorkflowEditor workflow={createDefaultWorkflow()} onChange={onChange} />);
+
+    expect(screen.getAllByTestId('workflow-stage')).toHaveLength(4);
+    expect(screen.getByLabelText('Stage 1')).toHaveValue('Draft');
+    expect(screen.getByLabelText('Stage 4')).toHaveValue('Published');
+  });
+
+  it('should add a stage before the final stage', async () => {
+    const user = userEvent.setup();
+    render(<WorkflowEditor workflow={createDefaultWorkflow()} onChange={onChange} />);
+
+    await user.click(screen.getByRole('button', { name: /Add Stage/i }));
+
+    const stages = onChange.mock.calls[0][0].stages;
+    expect(stages).toHaveLength(5);
+    expect(stages[3].name).toBe('');
+    expect(stages[4].key).toBe('published');
+  });
+
+  it('should keep saved stage keys when renaming', async () => {
+    const user = userEvent.setup();
+    render(<WorkflowEditor workflow={createDefaultWorkflow()} onChange={onChange} />);
+
+    await user.type(screen.getByLabelText('Stage 2'), 'x');
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        stages: expect.arrayContaining([expect.objectContaining({ key: 'in_review', name: 'In Reviewx' })]),
+      })
+    );
+  });
+
+  it('should not remove stages below the minimum', () => {
+    const workflow = { enabled: true, stages: createDefaultWorkflow().stages.slice(0, 2) };
+    render(<WorkflowEditor workflow={workflow} onChange={onChange} />);
+
+    expect(screen.getByRole('button', { name: 'Remove Draft' })).toBeDisabled();
+  });
+});
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { ContentWorkflow, WorkflowStage } from '@/types';
+import { createDefaultWorkflow, toStageKey, WORKFLOW_PERMISSIONS } from '@/lib/workflow';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface WorkflowEditorProps {
+  workflow?: ContentWorkflow;
+  onChange: (workflow: ContentWorkflow | undefined) => void;
+}
+
+export function WorkflowEditor({ workflow, onChange }: WorkflowEditorProps) {
+  const enabled = !!workflow?.enabled;
+  const stages = workflow?.stages || [];
+  // Keys of saved stages never change, since entries reference them
+  const [savedKeys] = useState(() => new Set((workflow?.stages || []).map((stage) => stage.key)));
+
+  const handleToggle = (checked: boolean) => {
+    if (checked) {
+      onChange(workflow?.stages.length ? { ...workflow, enabled: true } : createDefaultWorkflow());
+    } else {
+      onChange(workflow ? { ...workflow, enabled: false } : undefined);
+    }
+  };
+
+  const updateStages = (next: WorkflowStage[]) => {
+    onChange({ enabled: true, stages: next });
+  };
+
+  const updateStage = (index: number, changes: Partial<WorkflowStage>) => {
+    updateStages(stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const moveStage = (index: number, direction: 'up' | 'down') => {
+    const target = direction === 'up' ? index - 1 : index + 1;
+    if (target < 0 || target >= stages.length) return;
+    const next = [...stages];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateStages(next);
+  };
+
+  const addStage = () => {
+    // Insert before the final (publishing) stage
+    const next = [...stages];
+    next.splice(Math.max(stages.length - 1, 0), 0, { key: '', name: '', permission: 'content.update' });
+    updateStages(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Review Workflow</CardTitle>
+            <CardDescription>Require entries to pass through approval stages before publishing</CardDescription>
+          </div>
+          <Switch
+            id="workflow-enabled"
+            checked={enabled}
+            onCheckedChange={handleToggle}
+            aria-label="Enable review workflow"
+          />
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="space-y-3">
+          {stages.map((stage, index) => (
+            <div key={index} className="flex items-end gap-2 p-3 border rounded-lg" data-testid="workflow-stage">
+              <div className="flex flex-col gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => moveStage(index, 'up')}
+                  disabled={index === 0}
+                  aria-label="Move stage up"
+                >
+                  ↑
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => moveStage(index, 'down')}
+                  disabled={index === stages.length - 1}
+                  aria-label="Move stage down"
+                >
+                  ↓
+                </Button>
+              </div>
+              <div className="flex-1 space-y-1">
+                <Label htmlFor={`stage-name-${index}`} className="text-xs">
+                  Stage {index + 1}
+                </Label>
+                <Input
+                  id={`stage-name-${index}`}
+                  value={stage.name}
+                  onChange={(e) =>
+                    updateStage(index, {
+                      name: e.target.value,
+                      key: savedKeys.has(stage.key) ? stage.key : toStageKey(e.target.value),
+                    })
+                  }
+                  placeholder="e.g., Legal Review"
+                />
+              </div>
+              <div className="w-44 space-y-1">
+                <Label className="text-xs">Required permission</Label>
+                <Select
+                  value={stage.permission || 'content.update'}
+                  onValueChange={(value) => updateStage(index, { permission: value })}
+                >
+                  <SelectTrigger aria-label={`Permission for ${stage.name || `stage ${index + 1}`}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKFLOW_PERMISSIONS.map((permission) => (
+                      <SelectItem key={permission.value} value={permission.value}>
+                        {permission.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateStages(stages.filter((_, i) => i !== index))}
+                disabled={stages.length <= 2}
+                aria-label={`Remove ${stage.name || 'stage'}`}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Entries advance one stage at a time; reaching the last stage publishes them. Sending an
+            entry back to an earlier stage requires a comment.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={addStage}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Stage
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onChange(createDefaultWorkflow())}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to Default
+            </Button>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -18,6 +18,7 @@ const routeLabels: Record<string, string> = {
   translations: 'Translations',
   templates: 'Templates',
   themes: 'Themes',
+  accessibility: 'Accessibility',
   organization: 'Organization',
   'audit-logs': 'Audit Logs',
   settings: 'Settings',
@@ -11,6 +11,8 @@ vi.mock('@/lib/api/media', () => ({
   mediaApi: {
     getMedia: vi.fn(),
     uploadMedia: vi.fn(),
+    getFolders: vi.fn().mockResolvedValue([]),
+    getTags: vi.fn().mockResolvedValue([]),
   },
 }));
 
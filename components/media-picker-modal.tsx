@@ -4,7 +4,13 @@ import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
 import { mediaApi, MediaListParams } from '@/lib/api/media';
 import { resolveMediaUrl } from '@/lib/api/client';
+import { formatDuration, isPlayable } from '@/lib/media-playback';
 import { Media } from '@/types';
+import { useMediaFolders } from '@/hooks/use-media-folders';
+import { useUploadQueue } from '@/hooks/use-upload-queue';
+import { MediaSidebar } from '@/components/media/MediaSidebar';
+import { ResponsiveImage } from '@/components/media/ResponsiveImage';
+import { UploadQueueList } from '@/components/media/UploadQueueList';
 import {
   Dialog,
   DialogContent,
@@ -45,12 +51,22 @@ export default function MediaPickerModal({
   const [page, setPage] = useState(1);
   const [total, setTotal] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
+  const [folderId, setFolderId] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const library = useMediaFolders(open);
+  const uploads = useUploadQueue({
+    onUploaded: (uploaded) => {
+      setMedia((prev) => [uploaded, ...prev]);
+      setSelectedMedia(uploaded);
+    },
+    onFailed: () => toast.error('Failed to upload file'),
+  });
 
   useEffect(() => {
     if (open) {
       loadMedia();
     }
-  }, [open, page, filter, search]);
+  }, [open, page, filter, search, folderId, selectedTags]);
 
   const loadMedia = async () => {
     try {
@@ -68,6 +84,14 @@ export default function MediaPickerModal({
         params.search = search;
       }
 
+      if (folderId) {
+        params.folder_id = folderId;
+      }
+
+      if (selectedTags.length > 0) {
+        params.tags = selectedTags;
+      }
+
       const data = await mediaApi.getMedia(params);
       setMedia(data.items);
       setTotal(data.total ?? 0);
@@ -85,23 +109,9 @@ export default function MediaPickerModal({
     }
   };
 
-  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    try {
-      setIsLoading(true);
-      const formData = new FormData();
-      formData.append('file', file);
-      const uploaded = await mediaApi.uploadMedia(formData);
-      setMedia([uploaded, ...media]);
-      setSelectedMedia(uploaded);
-    } catch (err) {
-      console.error('Failed to upload media:', err);
-      toast.error('Failed to upload file');
-    } finally {
-      setIsLoading(false);
-    }
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    uploads.addFiles(e.target.files, folderId ? { folder_id: folderId } : undefined);
+    e.target.value = '';
   };
 
   const formatFileSize = (bytes: number) => {
@@ -159,6 +169,7 @@ export default function MediaPickerModal({
           <label>
             <input
               type="file"
+              multiple
               className="hidden"
               onChange={handleUpload}
               disabled={isLoading}
@@ -172,53 +183,99 @@ export default function MediaPickerModal({
           </label>
         </div>
 
-        <div className="flex-1 overflow-y-auto">
-          {isLoading && media.length === 0 ? (
-            <div className="text-center py-12 text-muted-foreground">
-              Loading media...
-            </div>
-          ) : media.length === 0 ? (
-            <div className="text-center py-12 text-muted-foreground">
-              No media files found. Upload one to get started.
-            </div>
-          ) : (
-            <div className="grid grid-cols-3 md:grid-cols-4 gap-4">
-              {media.map((m) => (
-                <div
-                  key={m.id}
-                  className={`relative border rounded-lg overflow-hidden cursor-pointer transition-all hover:shadow-md ${
-                    selectedMedia?.id === m.id ? 'ring-2 ring-primary' : ''
-                  }`}
-                  onClick={() => setSelectedMedia(m)}
-                >
-                  {(m.media_type || m.file_type) === 'image' ? (
-                    <img
-                      src={getMediaUrl(m)}
-                      alt={m.alt_text || m.filename}
-                      className="w-full h-32 object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-32 bg-muted flex items-center justify-center">
-                      <span className="text-xs uppercase text-muted-foreground">
-                        {m.media_type || m.file_type}
+        {/* Finished uploads show up in the grid, so only list the rest */}
+        <UploadQueueList
+          items={uploads.items.filter((item) => item.status !== 'done')}
+          onPause={uploads.pause}
+          onResume={uploads.resume}
+          onRetry={uploads.retry}
+          onCancel={uploads.cancel}
+          onClearFinished={uploads.clearFinished}
+        />
+
+        <div className="flex flex-1 gap-4 min-h-0">
+          {(library.folders.length > 0 || library.tags.length > 0) && (
+            <aside className="w-44 shrink-0 overflow-y-auto">
+              <MediaSidebar
+                folders={library.folders}
+                tags={library.tags}
+                folderId={folderId}
+                onFolderChange={(id) => {
+                  setFolderId(id);
+                  setPage(1);
+                }}
+                selectedTags={selectedTags}
+                onTagsChange={(tags) => {
+                  setSelectedTags(tags);
+                  setPage(1);
+                }}
+              />
+            </aside>
+          )}
+
+          <div className="flex-1 overflow-y-auto">
+            {isLoading && media.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                Loading media...
+              </div>
+            ) : media.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                No media files found. Upload one to get started.
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 md:grid-cols-4 gap-4">
+                {media.map((m) => (
+                  <div
+                    key={m.id}
+                    className={`relative border rounded-lg overflow-hidden cursor-pointer transition-all hover:shadow-md ${
+                      selectedMedia?.id === m.id ? 'ring-2 ring-primary' : ''
+                    }`}
+                    onClick={() => setSelectedMedia(m)}
+                  >
+                    {(m.media_type || m.file_type) === 'image' ? (
+                      <ResponsiveImage
+                        src={getMediaUrl(m)}
+                        alt={m.alt_text || m.filename}
+                        rendition="card"
+                        sizes="(min-width: 768px) 200px, 33vw"
+                        className="w-full h-32 object-cover"
+                      />
+                    ) : m.media_type === 'video' && m.poster_url ? (
+                      <ResponsiveImage
+                        src={m.poster_url}
+                        alt={m.alt_text || m.filename}
+                        rendition="card"
+                        sizes="(min-width: 768px) 200px, 33vw"
+                        className="w-full h-32 object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-32 bg-muted flex items-center justify-center">
+                        <span className="text-xs uppercase text-muted-foreground">
+                          {m.media_type || m.file_type}
+                        </span>
+                      </div>
+                    )}
+                    {isPlayable(m) && m.duration != null && (
+                      <span className="absolute top-24 right-2 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white tabular-nums">
+                        {formatDuration(m.duration)}
                       </span>
+                    )}
+                    {selectedMedia?.id === m.id && (
+                      <div className="absolute top-2 right-2 bg-primary text-primary-foreground rounded-full p-1">
+                        <Check className="h-4 w-4" />
+                      </div>
+                    )}
+                    <div className="p-2 bg-background">
+                      <p className="text-xs truncate">{m.filename}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatFileSize(m.file_size)}
+                      </p>
                     </div>
-                  )}
-                  {selectedMedia?.id === m.id && (
-                    <div className="absolute top-2 right-2 bg-primary text-primary-foreground rounded-full p-1">
-                      <Check className="h-4 w-4" />
-                    </div>
-                  )}
-                  <div className="p-2 bg-background">
-                    <p className="text-xs truncate">{m.filename}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {formatFileSize(m.file_size)}
-                    </p>
                   </div>
-                </div>
-              ))}
-            </div>
-          )}
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
         {totalPages > 1 && (
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { mediaApi } from '@/lib/api';
+import { TagInput } from '@/components/media/TagInput';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useI18n } from '@/contexts/i18n-context';
+
+interface BulkTagDialogProps {
+  mediaIds: string[];
+  /** Known tags offered while typing */
+  suggestions: string[];
+  onClose: () => void;
+  onTagged: () => void;
+}
+
+export function BulkTagDialog({ mediaIds, suggestions, onClose, onTagged }: BulkTagDialogProps) {
+  const { t } = useI18n();
+  const [added, setAdded] = useState<string[]>([]);
+  const [removed, setRemoved] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleApply = async () => {
+    try {
+      setIsSaving(true);
+      await mediaApi.tagMedia(mediaIds, { add: added, remove: removed });
+      toast.success(t('media.tags.updated', { count: mediaIds.length }));
+      onTagged();
+      onClose();
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(error.response?.data?.detail || t('media.tags.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('media.tags.title', { count: mediaIds.length })}</DialogTitle>
+          <DialogDescription>{t('media.tags.description')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bulk-add-tags">{t('media.tags.add')}</Label>
+            <TagInput id="bulk-add-tags" value={added} onChange={setAdded} suggestions={suggestions} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-remove-tags">{t('media.tags.remove')}</Label>
+            <TagInput id="bulk-remove-tags" value={removed} onChange={setRemoved} suggestions={suggestions} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            {t('media.tags.cancel')}
+          </Button>
+          <Button onClick={handleApply} disabled={isSaving || (added.length === 0 && removed.length === 0)}>
+            {isSaving ? t('media.tags.saving') : t('media.tags.apply')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { mediaApi } from '@/lib/api';
+import { isWebVtt } from '@/lib/media-playback';
+import { useLocales } from '@/hooks/useLocales';
+import { MediaCaption } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Trash2, Upload } from 'lucide-react';
+
+interface CaptionManagerProps {
+  mediaId: string;
+  captions: MediaCaption[];
+  onChange: (captions: MediaCaption[]) => void;
+}
+
+/**
+ * Lists the WebVTT tracks of a video or audio item and attaches new ones
+ * per locale. A new file for a locale and kind that already has one replaces it.
+ */
+export function CaptionManager({ mediaId, captions, onChange }: CaptionManagerProps) {
+  const { locales } = useLocales();
+  const [locale, setLocale] = useState<string | null>(null);
+  const [kind, setKind] = useState<MediaCaption['kind']>('captions');
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedLocale = locale ?? locales[0]?.code ?? 'en';
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!isWebVtt(file)) {
+      toast.error('Captions must be a WebVTT (.vtt) file');
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      const label = locales.find((l) => l.code === selectedLocale)?.name || selectedLocale;
+      const caption = await mediaApi.uploadCaption(mediaId, { file, locale: selectedLocale, label, kind });
+      onChange([...captions.filter((c) => !(c.locale === caption.locale && c.kind === caption.kind)), caption]);
+      toast.success(`Added ${caption.label} ${caption.kind}`);
+    } catch (error) {
+      console.error('Failed to upload captions:', error);
+      const err = error as Error & { response?: { data?: { detail?: string } } };
+      toast.error(err.response?.data?.detail || 'Failed to upload captions');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (caption: MediaCaption) => {
+    try {
+      await mediaApi.deleteCaption(mediaId, caption.id);
+      onChange(captions.filter((c) => c.id !== caption.id));
+    } catch (error) {
+      console.error('Failed to delete captions:', error);
+      toast.error('Failed to delete captions');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {captions.length > 0 ? (
+        <ul className="space-y-1">
+          {captions.map((caption) => (
+            <li key={caption.id} className="flex items-center gap-2 text-sm">
+              <Badge variant="outline">{caption.locale.toUpperCase()}</Badge>
+              <span className="flex-1 truncate">{caption.label}</span>
+              <span className="text-xs text-muted-foreground">{caption.kind}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(caption)}
+                aria-label={`Remove ${caption.label} ${caption.kind}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No captions or subtitles</p>
+      )}
+
+      <div className="flex gap-2">
+        <Select value={selectedLocale} onValueChange={setLocale}>
+          <SelectTrigger className="w-36" aria-label="Caption language">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {locales.map((l) => (
+              <SelectItem key={l.code} value={l.code}>
+                {l.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={kind} onValueChange={(value) => setKind(value as MediaCaption['kind'])}>
+          <SelectTrigger className="w-32" aria-label="Caption kind">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="captions">Captions</SelectItem>
+            <SelectItem value="subtitles">Subtitles</SelectItem>
+          </SelectContent>
+        </Select>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".vtt,text/vtt"
+          className="hidden"
+          onChange={handleFile}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {isUploading ? 'Uploading...' : 'Add WebVTT File'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { mediaApi, roleApi } from '@/lib/api';
+import { MediaFolder, MediaFolderRule, Role } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface FolderPermissionsDialogProps {
+  folder: MediaFolder;
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+type RuleMap = Record<string, { can_upload: boolean; can_delete: boolean }>;
+
+export function FolderPermissionsDialog({ folder, onClose, onSaved }: FolderPermissionsDialogProps) {
+  const [roles, setRoles] = useState<Role[] | null>(null);
+  const [rules, setRules] = useState<RuleMap>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([roleApi.listRoles(), mediaApi.getFolderRules(folder.id)])
+      .then(([roleResponse, folderRules]) => {
+        if (cancelled) return;
+        setRoles(roleResponse.roles || []);
+        setRules(
+          Object.fromEntries(
+            folderRules.map((rule) => [rule.role_id, { can_upload: rule.can_upload, can_delete: rule.can_delete }])
+          )
+        );
+      })
+      .catch((err) => {
+        console.error('Failed to load folder permissions:', err);
+        if (!cancelled) setRoles([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [folder.id]);
+
+  // Roles without a rule may do everything their role permissions allow
+  const getRule = (roleId: string) => rules[roleId] || { can_upload: true, can_delete: true };
+
+  const toggle = (roleId: string, key: 'can_upload' | 'can_delete', checked: boolean) => {
+    setRules((prev) => ({ ...prev, [roleId]: { ...getRule(roleId), [key]: checked } }));
+  };
+
+  const handleSave = async () => {
+    const changed: MediaFolderRule[] = Object.entries(rules)
+      .filter(([, rule]) => !rule.can_upload || !rule.can_delete)
+      .map(([role_id, rule]) => ({ role_id, ...rule }));
+    try {
+      setIsSaving(true);
+      await mediaApi.updateFolderRules(folder.id, changed);
+      toast.success(`Updated permissions for "${folder.name}"`);
+      onSaved?.();
+      onClose();
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(error.response?.data?.detail || 'Failed to update folder permissions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Folder Permissions</DialogTitle>
+          <DialogDescription>
+            Choose what each role may do in &quot;{folder.name}&quot; and its subfolders. Unchecked actions are
+            blocked even if the role has media permissions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {roles === null ? (
+          <p className="text-sm text-muted-foreground">Loading roles...</p>
+        ) : roles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No roles found.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2 font-medium">Role</th>
+                <th className="py-2 font-medium w-20">Upload</th>
+                <th className="py-2 font-medium w-20">Delete</th>
+              </tr>
+            </thead>
+            <tbody>
+              {roles.map((role) => {
+                const rule = getRule(role.id);
+                return (
+                  <tr key={role.id} className="border-t">
+                    <td className="py-2">{role.name}</td>
+                    <td className="py-2">
+                      <Checkbox
+                        checked={rule.can_upload}
+                        onCheckedChange={(checked) => toggle(role.id, 'can_upload', checked === true)}
+                        aria-label={`${role.name} can upload`}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <Checkbox
+                        checked={rule.can_delete}
+                        onCheckedChange={(checked) => toggle(role.id, 'can_delete', checked === true)}
+                        aria-label={`${role.name} can delete`}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={roles === null || isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
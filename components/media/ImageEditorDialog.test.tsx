@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ImageEditorDialog } from './ImageEditorDialog';
+import { exportImage, loadImage } from '@/lib/image-editor';
+import { toast } from 'sonner';
+
+vi.mock('@/lib/image-editor', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/image-editor')>();
+  return {
+    ...actual,
+    loadImage: vi.fn(),
+    exportImage: vi.fn(),
+    drawTransformed: vi.fn(),
+  };
+});
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const image = { naturalWidth: 800, naturalHeight: 600 } as HTMLImageElement;
+
+const renderEditor = (props: Partial<React.ComponentProps<typeof ImageEditorDialog>> = {}) =>
+  render(
+    <ImageEditorDialog
+      open
+      src="blob:photo"
+      filename="photo.png"
+      mimeType="image/png"
+      onClose={vi.fn()}
+      onSaveAsNew={vi.fn().mockResolvedValue(undefined)}
+      {...props}
+    />
+  );
+
+describe('ImageEditorDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(loadImage).mockResolvedValue(image);
+    vi.mocked(exportImage).mockResolvedValue(new Blob(['edited'], { type: 'image/png' }));
+  });
+
+  it('should show the output size of the loaded image', async () => {
+    renderEditor();
+
+    await waitFor(() => expect(screen.getByLabelText('Height')).toHaveValue('600'));
+    expect(screen.getByLabelText('Width')).toHaveAttribute('placeholder', '800');
+  });
+
+  it('should update the size when cropping to an aspect ratio and rotating', async () => {
+    const user = userEvent.setup();
+    renderEditor();
+    await waitFor(() => expect(screen.getByLabelText('Height')).toHaveValue('600'));
+
+    await user.click(screen.getByRole('button', { name: '1:1' }));
+    expect(screen.getByLabelText('Width')).toHaveAttribute('placeholder', '600');
+
+    await user.click(screen.getByRole('button', { name: 'Rotate right' }));
+    expect(screen.getByLabelText('Height')).toHaveValue('600');
+  });
+
+  it('should keep the crop aspect ratio when resizing', async () => {
+    const user = userEvent.setup();
+    renderEditor();
+    await waitFor(() => expect(screen.getByLabelText('Height')).toHaveValue('600'));
+
+    await user.type(screen.getByLabelText('Width'), '400');
+
+    expect(screen.getByLabelText('Height')).toHaveValue('300');
+  });
+
+  it('should save the edited file as a new image', async () => {
+    const user = userEvent.setup();
+    const onSaveAsNew = vi.fn().mockResolvedValue(undefined);
+    renderEditor({ onSaveAsNew });
+    await waitFor(() => expect(screen.getByLabelText('Height')).toHaveValue('600'));
+
+    await user.click(screen.getByRole('button', { name: 'Save as New Image' }));
+
+    await waitFor(() => expect(onSaveAsNew).toHaveBeenCalled());
+    const [file, focalPoint] = onSaveAsNew.mock.calls[0];
+    expect(file).toBeInstanceOf(File);
+    expect(file.name).toBe('photo.png');
+    expect(focalPoint).toBeNull();
+  });
+
+  it('should only offer saving as a version when there is an existing item', async () => {
+    const onSaveAsVersion = vi.fn().mockResolvedValue(undefined);
+    const user = userEvent.setup();
+    const { unmount } = renderEditor();
+    expect(screen.queryByRole('button', { name: 'Save as New Version' })).not.toBeInTheDocument();
+    unmount();
+
+    renderEditor({ onSaveAsVersion });
+    await waitFor(() => expect(screen.getByLabelText('Height')).toHaveValue('600'));
+    await user.click(screen.getByRole('button', { name: 'Save as New Version' }));
+
+    await waitFor(() => expect(onSaveAsVersion).toHaveBeenCalled());
+  });
+
+  it('should show an error when the image cannot be exported', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(exportImage).mockRejectedValue(new Error('Tainted canvas'));
+    const user = userEvent.setup();
+    renderEditor();
+    await waitFor(() => expect(screen.getByLabelText('Height')).toHaveValue('600'));
+
+    await user.click(screen.getByRole('button', { name: 'Save as New Image' }));
+
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith('Failed to save image'));
+  });
+});
@@ -0,0 +1,364 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  ASPECT_RATIOS,
+  createEdits,
+  drawTransformed,
+  exportImage,
+  fitCropToAspect,
+  FULL_CROP,
+  getCropFromPoints,
+  getEditedFilename,
+  getFocalPointInCrop,
+  getOutputSize,
+  getRotatedSize,
+  IMAGE_FORMATS,
+  ImageEdits,
+  ImageFormat,
+  loadImage,
+  rotate,
+} from '@/lib/image-editor';
+import { FocalPoint } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Crosshair, Crop, FlipHorizontal, FlipVertical, RotateCcw, RotateCw } from 'lucide-react';
+import { useI18n } from '@/contexts/i18n-context';
+
+interface ImageEditorDialogProps {
+  open: boolean;
+  /** Image to edit; object URLs work for files that are not uploaded yet */
+  src: string | null;
+  filename: string;
+  mimeType?: string;
+  onClose: () => void;
+  /** Save the result as a new media item */
+  onSaveAsNew: (file: File, focalPoint: FocalPoint | null) => Promise<void>;
+  saveAsNewLabel?: string;
+  /** Save the result over the existing item; omit when there is none */
+  onSaveAsVersion?: (file: File, focalPoint: FocalPoint | null) => Promise<void>;
+}
+
+type Tool = 'crop' | 'focal';
+
+export function ImageEditorDialog({
+  open,
+  src,
+  filename,
+  mimeType,
+  onClose,
+  onSaveAsNew,
+  saveAsNewLabel,
+  onSaveAsVersion,
+}: ImageEditorDialogProps) {
+  const { t } = useI18n();
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [edits, setEdits] = useState<ImageEdits>(() => createEdits(mimeType));
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [tool, setTool] = useState<Tool>('crop');
+  const [dragStart, setDragStart] = useState<FocalPoint | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!open || !src) return;
+    let cancelled = false;
+    loadImage(src)
+      .then((loaded) => {
+        if (cancelled) return;
+        setImage(loaded);
+        setLoadError(null);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setLoadError(err.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, src]);
+
+  useEffect(() => {
+    if (image && canvasRef.current) {
+      drawTransformed(canvasRef.current, image, edits);
+    }
+  }, [image, edits]);
+
+  const sourceSize = image ? { width: image.naturalWidth, height: image.naturalHeight } : null;
+  const rotatedSize = sourceSize ? getRotatedSize(sourceSize, edits.rotation) : null;
+  const outputSize = sourceSize ? getOutputSize(edits, sourceSize) : null;
+
+  const update = (changes: Partial<ImageEdits>) => setEdits((prev) => ({ ...prev, ...changes }));
+
+  // Crop and focal point are relative to the rotated image, so they start over
+  const handleRotate = (direction: 1 | -1) => {
+    const rotation = rotate(edits.rotation, direction);
+    const size = sourceSize ? getRotatedSize(sourceSize, rotation) : null;
+    update({ rotation, crop: size ? fitCropToAspect(aspect, size) : FULL_CROP, width: null, focalPoint: null });
+  };
+
+  const handleAspect = (value: number | null) => {
+    setAspect(value);
+    if (rotatedSize) update({ crop: fitCropToAspect(value, rotatedSize), width: null });
+  };
+
+  const getPoint = (e: React.PointerEvent<HTMLDivElement>): FocalPoint | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (!rect.width || !rect.height) return null;
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = getPoint(e);
+    if (!point) return;
+    if (tool === 'focal') {
+      update({ focalPoint: point });
+      return;
+    }
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    setDragStart(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = getPoint(e);
+    if (!dragStart || !point || !rotatedSize) return;
+    update({ crop: getCropFromPoints(dragStart, point, aspect, rotatedSize), width: null });
+  };
+
+  const handleSave = async (save: (file: File, focalPoint: FocalPoint | null) => Promise<void>) => {
+    if (!image) return;
+    try {
+      setIsSaving(true);
+      const blob = await exportImage(image, edits);
+      const file = new File([blob], getEditedFilename(filename, edits.format), { type: edits.format });
+      await save(file, edits.focalPoint ? getFocalPointInCrop(edits.focalPoint, edits.crop) : null);
+    } catch (error) {
+      console.error('Failed to save image:', error);
+      toast.error(t('media.editor.save_failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (value) return;
+    setEdits(createEdits(mimeType));
+    setAspect(null);
+    setTool('crop');
+    setImage(null);
+    onClose();
+  };
+
+  const { crop, focalPoint } = edits;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('media.editor.title')}</DialogTitle>
+          <DialogDescription>{t('media.editor.description', { filename })}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[1fr_16rem]">
+          <div className="flex items-center justify-center bg-muted rounded-lg min-h-64 p-2">
+            {loadError ? (
+              <p className="text-sm text-destructive">{loadError}</p>
+            ) : !image ? (
+              <p className="text-sm text-muted-foreground">{t('media.editor.loading')}</p>
+            ) : (
+              <div
+                className={`relative overflow-hidden select-none touch-none ${tool === 'focal' ? 'cursor-crosshair' : 'cursor-move'}`}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragStart(null)}
+                data-testid="image-editor-canvas"
+              >
+                <canvas ref={canvasRef} className="block max-w-full max-h-[60vh]" />
+                {/* Shade everything outside the crop */}
+                <div
+                  className="absolute border-2 border-white pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                  style={{
+                    left: `${crop.x * 100}%`,
+                    top: `${crop.y * 100}%`,
+                    width: `${crop.width * 100}%`,
+                    height: `${crop.height * 100}%`,
+                  }}
+                />
+                {focalPoint && (
+                  <div
+                    className="absolute h-5 w-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white bg-primary/60 pointer-events-none"
+                    style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+                    aria-label={t('media.editor.focal_point')}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-5 text-sm">
+            <div className="space-y-2">
+              <Label>{t('media.editor.tool')}</Label>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant={tool === 'crop' ? 'default' : 'outline'}
+                  onClick={() => setTool('crop')}
+                >
+                  <Crop className="h-4 w-4 mr-1" />
+                  {t('media.editor.crop')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant={tool === 'focal' ? 'default' : 'outline'}
+                  onClick={() => setTool('focal')}
+                >
+                  <Crosshair className="h-4 w-4 mr-1" />
+                  {t('media.editor.focal')}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {tool === 'crop' ? t('media.editor.crop_hint') : t('media.editor.focal_hint')}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('media.editor.aspect_ratio')}</Label>
+              <div className="flex flex-wrap gap-1">
+                {ASPECT_RATIOS.map((ratio) => (
+                  <Button
+                    key={ratio.label}
+                    size="sm"
+                    variant={aspect === ratio.value ? 'default' : 'outline'}
+                    onClick={() => handleAspect(ratio.value)}
+                  >
+                    {ratio.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('media.editor.rotate_flip')}</Label>
+              <div className="flex gap-1">
+                <Button size="sm" variant="outline" onClick={() => handleRotate(-1)} aria-label={t('media.editor.rotate_left')}>
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleRotate(1)} aria-label={t('media.editor.rotate_right')}>
+                  <RotateCw className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant={edits.flipX ? 'default' : 'outline'}
+                  onClick={() => update({ flipX: !edits.flipX })}
+                  aria-label={t('media.editor.flip_horizontal')}
+                >
+                  <FlipHorizontal className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant={edits.flipY ? 'default' : 'outline'}
+                  onClick={() => update({ flipY: !edits.flipY })}
+                  aria-label={t('media.editor.flip_vertical')}
+                >
+                  <FlipVertical className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="image-width">{t('media.editor.size')}</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="image-width"
+                  type="number"
+                  min={1}
+                  value={edits.width ?? ''}
+                  placeholder={outputSize ? String(outputSize.width) : undefined}
+                  onChange={(e) => update({ width: Number(e.target.value) > 0 ? Math.round(Number(e.target.value)) : null })}
+                  aria-label={t('media.editor.width')}
+                  className="h-8"
+                />
+                <span className="text-muted-foreground">×</span>
+                <Input value={outputSize?.height ?? ''} readOnly aria-label={t('media.editor.height')} className="h-8" />
+              </div>
+              <p className="text-xs text-muted-foreground">{t('media.editor.size_hint')}</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('media.editor.format')}</Label>
+              <Select value={edits.format} onValueChange={(value) => update({ format: value as ImageFormat })}>
+                <SelectTrigger aria-label={t('media.editor.format')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMAGE_FORMATS.map((format) => (
+                    <SelectItem key={format.value} value={format.value}>
+                      {format.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {edits.format !== 'image/png' && (
+              <div className="space-y-2">
+                <Label>{t('media.editor.quality_value', { quality: Math.round(edits.quality * 100) })}</Label>
+                <Slider
+                  min={10}
+                  max={100}
+                  step={5}
+                  value={[Math.round(edits.quality * 100)]}
+                  onValueChange={([value]) => update({ quality: value / 100 })}
+                  aria-label={t('media.editor.quality')}
+                />
+              </div>
+            )}
+
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setEdits(createEdits(mimeType));
+                setAspect(null);
+              }}
+            >
+              {t('media.editor.reset')}
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSaving}>
+            {t('media.editor.cancel')}
+          </Button>
+          {onSaveAsVersion && (
+            <Button variant="outline" onClick={() => handleSave(onSaveAsVersion)} disabled={!image || isSaving}>
+              {t('media.editor.save_as_version')}
+            </Button>
+          )}
+          <Button onClick={() => handleSave(onSaveAsNew)} disabled={!image || isSaving}>
+            {isSaving ? t('media.editor.saving') : saveAsNewLabel || t('media.editor.save_as_new')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { MediaDetailsModal } from './MediaDetailsModal';
 import { mediaApi } from '@/lib/api';
+import { captureFrame } from '@/lib/media-playback';
+import { Media } from '@/types';
 import { toast } from 'sonner';
 
 // Mock the API
@@ -10,9 +12,48 @@ vi.mock('@/lib/api', () => ({
   mediaApi: {
     updateMedia: vi.fn(),
     deleteMedia: vi.fn(),
+    uploadMedia: vi.fn(),
+    replaceMedia: vi.fn(),
+    getMediaUsage: vi.fn().mockResolvedValue([]),
+    getCaptions: vi.fn().mockResolvedValue([]),
+    uploadCaption: vi.fn(),
+    deleteCaption: vi.fn(),
+    setPoster: vi.fn(),
   },
 }));
 
+vi.mock('@/hooks/useLocales', () => ({
+  useLocales: () => ({
+    locales: [
+      { id: 1, code: 'en', name: 'English', enabled: true },
+      { id: 2, code: 'fr', name: 'French', enabled: true },
+    ],
+    loading: false,
+    error: null,
+    refetch: vi.fn(),
+  }),
+}));
+
+// Video frames cannot be drawn in jsdom
+vi.mock('@/lib/media-playback', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/media-playback')>();
+  return {
+    ...actual,
+    captureFrame: vi.fn(),
+  };
+});
+
+// Canvas is not available in jsdom
+vi.mock('@/lib/image-editor', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/image-editor')>();
+  return {
+    ...actual,
+    loadImage: vi.fn().mockResolvedValue({ naturalWidth: 800, naturalHeight: 600 }),
+    exportImage: vi.fn().mockResolvedValue(new Blob(['edited'], { type: 'image/jpeg' })),
+    drawTransformed: vi.fn(),
+  };
+});
+
 // Mock toast
 vi.mock('sonner', () => ({
   toast: {
@@ -949,4 +990,333 @@ describe('MediaDetailsModal', () => {
       consoleError.mockRestore();
     });
   });
+
+  describe('Image Editing', () => {
+    it('should only offer the image editor for images', () => {
+      const { rerender } = render(
+        <MediaDetailsModal
+          media={mockVideoMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+      expect(screen.queryByRole('button', { name: 'Edit Image' })).not.toBeInTheDocument();
+
+      rerender(
+        <MediaDetailsModal
+          media={mockImageMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+      expect(screen.getByRole('button', { name: 'Edit Image' })).toBeInTheDocument();
+    });
+
+    it('should save an edited image as a new version of the same item', async () => {
+      const user = userEvent.setup();
+      vi.mocked(mediaApi.getMediaUsage).mockResolvedValue([]);
+      vi.mocked(mediaApi.replaceMedia).mockResolvedValue(mockImageMedia);
+
+      render(
+        <MediaDetailsModal
+          media={mockImageMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: 'Edit Image' }));
+      await waitFor(() => expect(screen.getByLabelText('Height')).toHaveValue('600'));
+      await user.click(screen.getByRole('button', { name: 'Save as New Version' }));
+      await user.click(await screen.findByRole('button', { name: 'Replace' }));
+
+      await waitFor(() => {
+        expect(mediaApi.replaceMedia).toHaveBeenCalledWith(mockImageMedia.id, expect.any(FormData));
+      });
+      expect(mediaApi.uploadMedia).not.toHaveBeenCalled();
+      expect(mockOnUpdate).toHaveBeenCalled();
+    });
+  });
+
+  describe('Replace File', () => {
+    const selectReplacement = async (user: ReturnType<typeof userEvent.setup>) => {
+      await user.click(screen.getByRole('button', { name: /^edit$/i }));
+      const input = document.getElementById('replace-file') as HTMLInputElement;
+      await user.upload(input, new File(['new'], 'new-image.jpg', { type: 'image/jpeg' }));
+    };
+
+    it('should list where the file is used before replacing', async () => {
+      const user = userEvent.setup();
+      vi.mocked(mediaApi.getMediaUsage).mockResolvedValue([
+        { kind: 'content_entry', id: 'entry-1', title: 'Summer Sale', field: 'hero_image' },
+        { kind: 'navigation_item', id: 'nav-1', title: 'Shop' },
+      ]);
+
+      render(
+        <MediaDetailsModal
+          media={mockImageMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+      await selectReplacement(user);
+
+      expect(await screen.findByText('Used in 2 places:')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: 'Summer Sale' })).toHaveAttribute('href', '/dashboard/content/entry-1');
+      expect(screen.getByText('Shop')).toBeInTheDocument();
+      expect(mediaApi.replaceMedia).not.toHaveBeenCalled();
+    });
+
+    it('should replace the file in place instead of deleting the item', async () => {
+      const user = userEvent.setup();
+      vi.mocked(mediaApi.getMediaUsage).mockResolvedValue([]);
+      vi.mocked(mediaApi.replaceMedia).mockResolvedValue(mockImageMedia);
+
+      render(
+        <MediaDetailsModal
+          media={mockImageMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+      await selectReplacement(user);
+      await user.click(await screen.findByRole('button', { name: 'Replace' }));
+
+      await waitFor(() => {
+        expect(mediaApi.replaceMedia).toHaveBeenCalledWith(mockImageMedia.id, expect.any(FormData));
+      });
+      const formData = vi.mocked(mediaApi.replaceMedia).mock.calls[0][1];
+      expect((formData.get('file') as File).name).toBe('new-image.jpg');
+      expect(mediaApi.deleteMedia).not.toHaveBeenCalled();
+      expect(mediaApi.uploadMedia).not.toHaveBeenCalled();
+      expect(toast.success).toHaveBeenCalledWith('File replaced');
+    });
+
+    it('should not replace when cancelled', async () => {
+      const user = userEvent.setup();
+      vi.mocked(mediaApi.getMediaUsage).mockResolvedValue([]);
+
+      render(
+        <MediaDetailsModal
+          media={mockImageMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+      await selectReplacement(user);
+      await screen.findByText('Not used by any content or navigation.');
+      const cancelButtons = screen.getAllByRole('button', { name: /^cancel$/i });
+      await user.click(cancelButtons[cancelButtons.length - 1]);
+
+      await waitFor(() => expect(screen.queryByText('Replace File', { selector: 'h2' })).not.toBeInTheDocument());
+      expect(mediaApi.replaceMedia).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Usage', () => {
+    const usage = [
+      { kind: 'content_entry' as const, id: 'entry-1', title: 'Summer Sale', field: 'gallery[2]', reference: 'url' as const },
+      { kind: 'navigation_item' as const, id: 'nav-1', title: 'Shop' },
+    ];
+
+    it('should list where the file is used in the details', async () => {
+      vi.mocked(mediaApi.getMediaUsage).mockResolvedValue(usage);
+
+      render(
+        <MediaDetailsModal
+          media={mockImageMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(await screen.findByRole('link', { name: 'Summer Sale' })).toHaveAttribute('href', '/dashboard/content/entry-1');
+      expect(screen.getByText('Where Used (2)')).toBeInTheDocument();
+      expect(screen.getByText('gallery[2]')).toBeInTheDocument();
+      expect(screen.getByText('by URL')).toBeInTheDocument();
+      expect(mediaApi.getMediaUsage).toHaveBeenCalledWith(mockImageMedia.id);
+    });
+
+    it('should say when the file is not used anywhere', async () => {
+      vi.mocked(mediaApi.getMediaUsage).mockResolvedValue([]);
+
+      render(
+        <MediaDetailsModal
+          media={mockImageMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+
+      expect(await screen.findByText('Not used by any content or navigation.')).toBeInTheDocument();
+    });
+
+    it('should warn before deleting a file that is in use', async () => {
+      const user = userEvent.setup();
+      vi.mocked(mediaApi.getMediaUsage).mockResolvedValue(usage);
+      vi.mocked(mediaApi.deleteMedia).mockResolvedValue(undefined);
+
+      render(
+        <MediaDetailsModal
+          media={mockImageMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+      await screen.findByText('Where Used (2)');
+      await user.click(screen.getByRole('button', { name: /^delete$/i }));
+
+      expect(await screen.findByText(/This file is used in 2 places/)).toBeInTheDocument();
+      await user.click(screen.getByRole('button', { name: 'Delete Anyway' }));
+
+      await waitFor(() => {
+        expect(mediaApi.deleteMedia).toHaveBeenCalledWith(mockImageMedia.id, { force: true });
+      });
+      expect(mockOnDelete).toHaveBeenCalled();
+    });
+
+    it('should show why the API refused a delete', async () => {
+      const user = userEvent.setup();
+      vi.mocked(mediaApi.getMediaUsage).mockRejectedValue(new Error('Network error'));
+      vi.mocked(mediaApi.deleteMedia).mockRejectedValue({
+        message: 'Conflict',
+        response: { data: { detail: 'Media is in use' } },
+      });
+
+      render(
+        <MediaDetailsModal
+          media={mockImageMedia}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+      await user.click(screen.getByRole('button', { name: /^delete$/i }));
+      expect(await screen.findAllByText('Could not check where this file is used.')).toHaveLength(2);
+
+      const deleteButtons = screen.getAllByRole('button', { name: /^delete$/i });
+      await user.click(deleteButtons[deleteButtons.length - 1]);
+
+      await waitFor(() => expect(toast.error).toHaveBeenCalledWith('Media is in use'));
+      expect(mediaApi.deleteMedia).toHaveBeenCalledWith(mockImageMedia.id);
+      expect(mockOnDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Video and Audio', () => {
+    const caption = {
+      id: 'c1',
+      media_id: mockVideoMedia.id,
+      locale: 'en',
+      label: 'English',
+      kind: 'captions' as const,
+      url: 'http://example.com/en.vtt',
+    };
+    const video = { ...mockVideoMedia, duration: 125, video_codec: 'h264', audio_codec: 'aac' };
+
+    const renderVideo = (media: Media = video) =>
+      render(
+        <MediaDetailsModal
+          media={media}
+          open={true}
+          onClose={mockOnClose}
+          onUpdate={mockOnUpdate}
+          onDelete={mockOnDelete}
+        />
+      );
+
+    it('should play the video with its caption tracks and show its metadata', async () => {
+      vi.mocked(mediaApi.getCaptions).mockResolvedValue([caption]);
+
+      renderVideo();
+
+      expect(await screen.findByRole('button', { name: 'Remove English captions' })).toBeInTheDocument();
+      const player = document.querySelector('video');
+      expect(player).toHaveAttribute('src', 'http://example.com/test-video.mp4');
+      expect(player?.querySelector('track')).toHaveAttribute('srclang', 'en');
+      expect(screen.getByText('2:05')).toBeInTheDocument();
+      expect(screen.getByText('h264 / aac')).toBeInTheDocument();
+      expect(mediaApi.getCaptions).toHaveBeenCalledWith(video.id);
+    });
+
+    it('should attach a WebVTT file for the chosen locale', async () => {
+      const user = userEvent.setup();
+      vi.mocked(mediaApi.getCaptions).mockResolvedValue([]);
+      vi.mocked(mediaApi.uploadCaption).mockResolvedValue(caption);
+      renderVideo();
+      await screen.findByText('No captions or subtitles');
+
+      const file = new File(['WEBVTT'], 'en.vtt', { type: 'text/vtt' });
+      await user.upload(document.querySelector('input[accept=".vtt,text/vtt"]') as HTMLInputElement, file);
+
+      await waitFor(() => {
+        expect(mediaApi.uploadCaption).toHaveBeenCalledWith(video.id, {
+          file,
+          locale: 'en',
+          label: 'English',
+          kind: 'captions',
+        });
+      });
+      expect(await screen.findByRole('button', { name: 'Remove English captions' })).toBeInTheDocument();
+    });
+
+    it('should reject caption files that are not WebVTT', async () => {
+      vi.mocked(mediaApi.getCaptions).mockResolvedValue([]);
+      renderVideo();
+      await screen.findByText('No captions or subtitles');
+
+      const input = document.querySelector('input[accept=".vtt,text/vtt"]') as HTMLInputElement;
+      await userEvent.setup({ applyAccept: false }).upload(input, new File(['1'], 'en.srt'));
+
+      expect(toast.error).toHaveBeenCalledWith('Captions must be a WebVTT (.vtt) file');
+      expect(mediaApi.uploadCaption).not.toHaveBeenCalled();
+    });
+
+    it('should save the chosen frame as the poster', async () => {
+      const user = userEvent.setup();
+      const frame = new Blob(['frame'], { type: 'image/jpeg' });
+      vi.mocked(mediaApi.getCaptions).mockResolvedValue([]);
+      vi.mocked(captureFrame).mockResolvedValue(frame);
+      vi.mocked(mediaApi.setPoster).mockResolvedValue({ ...video, poster_url: 'http://example.com/poster.jpg' });
+      renderVideo();
+
+      await user.click(screen.getByRole('button', { name: 'Choose Poster' }));
+      const dialog = await screen.findByRole('dialog', { name: 'Choose Poster Frame' });
+      await user.click(within(dialog).getByRole('button', { name: 'Use This Frame' }));
+
+      await waitFor(() => {
+        expect(mediaApi.setPoster).toHaveBeenCalledWith(video.id, frame, 0);
+      });
+      expect(mockOnUpdate).toHaveBeenCalled();
+      expect(document.querySelector('video')).toHaveAttribute('poster', 'http://example.com/poster.jpg');
+    });
+
+    it('should not offer a poster for audio', async () => {
+      vi.mocked(mediaApi.getCaptions).mockResolvedValue([]);
+      renderVideo({ ...video, media_type: 'audio', mime_type: 'audio/mpeg' });
+
+      expect(await screen.findByText('No captions or subtitles')).toBeInTheDocument();
+      expect(document.querySelector('audio')).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: 'Choose Poster' })).not.toBeInTheDocument();
+    });
+  });
 });
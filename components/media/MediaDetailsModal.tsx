@@ -1,10 +1,18 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
 import { mediaApi } from '@/lib/api';
 import { resolveMediaUrl } from '@/lib/api/client';
-import { Media } from '@/types';
+import { formatDuration, isPlayable } from '@/lib/media-playback';
+import { useI18n } from '@/contexts/i18n-context';
+import { FocalPoint, Media, MediaCaption, MediaUsage } from '@/types';
+import { CaptionManager } from '@/components/media/CaptionManager';
+import { ImageEditorDialog } from '@/components/media/ImageEditorDialog';
+import { MediaPlayer } from '@/components/media/MediaPlayer';
+import { MediaUsageList } from '@/components/media/MediaUsageList';
+import { PosterFrameDialog } from '@/components/media/PosterFrameDialog';
+import { ResponsiveImage } from '@/components/media/ResponsiveImage';
 import {
   Dialog,
   DialogContent,
@@ -25,19 +33,80 @@ interface MediaDetailsModalProps {
   onClose: () => void;
   onUpdate: () => void;
   onDelete: () => void;
+  /** False when folder rules stop the current user deleting from the item's folder */
+  canDelete?: boolean;
 }
 
-export function MediaDetailsModal({ media, open, onClose, onUpdate, onDelete }: MediaDetailsModalProps) {
+export function MediaDetailsModal({
+  media,
+  open,
+  onClose,
+  onUpdate,
+  onDelete,
+  canDelete = true,
+}: MediaDetailsModalProps) {
+  const { t, formatDate } = useI18n();
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isReplacing, setIsReplacing] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [pendingReplace, setPendingReplace] = useState<{ file: File; focalPoint: FocalPoint | null } | null>(null);
+  const [usage, setUsage] = useState<{ mediaId: string; items: MediaUsage[]; failed: boolean } | null>(null);
+  const [captions, setCaptions] = useState<{ mediaId: string; items: MediaCaption[] } | null>(null);
+  const [showPosterDialog, setShowPosterDialog] = useState(false);
+  const [savedPoster, setSavedPoster] = useState<{ mediaId: string; url: string | null } | null>(null);
   const [formData, setFormData] = useState({
     alt_text: '',
     filename: '',
   });
 
+  const mediaId = media?.id;
+  const playable = !!media && isPlayable(media);
+
+  // Where used is shown in the details and checked again before replacing or deleting
+  useEffect(() => {
+    if (!open || !mediaId) return;
+    let cancelled = false;
+    mediaApi
+      .getMediaUsage(mediaId)
+      .then((items) => {
+        if (!cancelled) setUsage({ mediaId, items, failed: false });
+      })
+      .catch((error) => {
+        console.error('Failed to load media usage:', error);
+        if (!cancelled) setUsage({ mediaId, items: [], failed: true });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, mediaId]);
+
+  useEffect(() => {
+    if (!open || !mediaId || !playable) return;
+    let cancelled = false;
+    mediaApi
+      .getCaptions(mediaId)
+      .then((items) => {
+        if (!cancelled) setCaptions({ mediaId, items });
+      })
+      .catch((error) => {
+        console.error('Failed to load captions:', error);
+        if (!cancelled) setCaptions({ mediaId, items: [] });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, mediaId, playable]);
+
+  const currentCaptions = captions && captions.mediaId === mediaId ? captions.items : null;
+
+  // null while loading, including after switching to another item
+  const currentUsage = usage && usage.mediaId === mediaId ? usage : null;
+  const usageCount = currentUsage?.items.length ?? 0;
+  const isInUse = usageCount > 0;
+
   const handleEdit = () => {
     if (media) {
       setFormData({
@@ -58,7 +127,7 @@ export function MediaDetailsModal({ media, open, onClose, onUpdate, onDelete }:
       onUpdate();
     } catch (error) {
       console.error('Failed to update media:', error);
-      toast.error('Failed to update media');
+      toast.error(t('media.details.update_failed'));
     } finally {
       setIsSaving(false);
     }
@@ -69,79 +138,118 @@ export function MediaDetailsModal({ media, open, onClose, onUpdate, onDelete }:
     
     try {
       setIsDeleting(true);
-      await mediaApi.deleteMedia(media.id);
+      // The user has seen the references, so delete despite them
+      if (isInUse) {
+        await mediaApi.deleteMedia(media.id, { force: true });
+      } else {
+        await mediaApi.deleteMedia(media.id);
+      }
       setShowDeleteConfirm(false);
       onClose();
       onDelete();
     } catch (error) {
       console.error('Failed to delete media:', error);
-      toast.error('Failed to delete media');
+      const err = error as Error & { response?: { data?: { detail?: string } } };
+      toast.error(err.response?.data?.detail || t('media.details.delete_failed'));
     } finally {
       setIsDeleting(false);
     }
   };
 
-  const handleReplaceImage = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const buildUpload = (file: File, focalPoint: FocalPoint | null) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (focalPoint) formData.append('focal_point', JSON.stringify(focalPoint));
+    return formData;
+  };
+
+  // Replacing changes what every reference shows, so list them before confirming
+  const requestReplace = (file: File, focalPoint: FocalPoint | null = null) => {
+    setPendingReplace({ file, focalPoint });
+  };
+
+  const handleReplaceFile = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file || !media) return;
+    event.target.value = '';
+    if (file) requestReplace(file);
+  };
+
+  const handleConfirmReplace = async () => {
+    if (!media || !pendingReplace) return;
 
     try {
       setIsReplacing(true);
-      
-      // Delete old media
-      await mediaApi.deleteMedia(media.id);
-      
-      // Upload new media
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      await mediaApi.uploadMedia(formData);
-      
+      await mediaApi.replaceMedia(media.id, buildUpload(pendingReplace.file, pendingReplace.focalPoint));
+      setPendingReplace(null);
+      toast.success(t('media.details.replaced'));
       onUpdate();
       onClose();
     } catch (error) {
-      console.error('Failed to replace image:', error);
-      toast.error('Failed to replace image');
+      console.error('Failed to replace file:', error);
+      const err = error as Error & { response?: { data?: { detail?: string } } };
+      toast.error(err.response?.data?.detail || t('media.details.replace_failed'));
     } finally {
       setIsReplacing(false);
     }
   };
 
+  const handleSaveEditedAsVersion = async (file: File, focalPoint: FocalPoint | null) => {
+    setShowEditor(false);
+    requestReplace(file, focalPoint);
+  };
+
+  const handlePosterSaved = (updated: Media) => {
+    setSavedPoster({ mediaId: updated.id, url: updated.poster_url ?? null });
+    setShowPosterDialog(false);
+    onUpdate();
+  };
+
+  const handleSaveEditedAsNew = async (file: File, focalPoint: FocalPoint | null) => {
+    await mediaApi.uploadMedia(buildUpload(file, focalPoint));
+    setShowEditor(false);
+    toast.success(t('media.details.saved_copy', { filename: file.name }));
+    onUpdate();
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
     return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
-
   if (!media) return null;
 
+  // The list is reloaded by onUpdate, but this item is not, so show the new poster here
+  const posterUrl = savedPoster && savedPoster.mediaId === media.id ? savedPoster.url : media.poster_url;
+
+  const replaceAccept = ['image', 'video', 'audio'].includes(media.media_type || '')
+    ? `${media.media_type}/*`
+    : undefined;
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl">
         <DialogHeader>
-          <DialogTitle>Media Details</DialogTitle>
-          <DialogDescription>
-            View and edit media file information
-          </DialogDescription>
+          <DialogTitle>{t('media.details.title')}</DialogTitle>
+          <DialogDescription>{t('media.details.description')}</DialogDescription>
         </DialogHeader>
 
         <div className="space-y-6">
           {/* Preview */}
           <div className="aspect-video bg-muted rounded-lg flex items-center justify-center overflow-hidden">
-            {media.url || media.cdn_url ? (
-              <img
-                src={resolveMediaUrl(media.cdn_url || media.url)}
+            {playable && (media.url || media.cdn_url) ? (
+              <MediaPlayer
+                media={{ ...media, poster_url: posterUrl }}
+                captions={currentCaptions ?? []}
+                className="w-full h-full"
+              />
+            ) : media.url || media.cdn_url ? (
+              <ResponsiveImage
+                src={media.cdn_url || media.url}
                 alt={media.alt_text || media.filename}
+                rendition="hero"
+                sizes="672px"
+                loading="eager"
                 className="w-full h-full object-contain"
               />
             ) : (
@@ -157,44 +265,118 @@ export function MediaDetailsModal({ media, open, onClose, onUpdate, onDelete }:
           {!isEditing ? (
             <div className="space-y-4">
               <div>
-                <Label className="text-sm font-medium text-muted-foreground">Filename</Label>
+                <Label className="text-sm font-medium text-muted-foreground">{t('media.details.filename')}</Label>
                 <p className="text-sm mt-1">{media.filename}</p>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label className="text-sm font-medium text-muted-foreground">File Type</Label>
+                  <Label className="text-sm font-medium text-muted-foreground">{t('media.details.file_type')}</Label>
                   <div className="mt-1">
                     <Badge>{media.mime_type}</Badge>
                   </div>
                 </div>
                 <div>
-                  <Label className="text-sm font-medium text-muted-foreground">File Size</Label>
+                  <Label className="text-sm font-medium text-muted-foreground">{t('media.details.file_size')}</Label>
                   <p className="text-sm mt-1">{formatFileSize(media.file_size)}</p>
                 </div>
               </div>
 
+              {playable && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label className="text-sm font-medium text-muted-foreground">{t('media.details.duration')}</Label>
+                    <p className="text-sm mt-1">
+                      {media.duration != null ? formatDuration(media.duration) : t('media.details.unknown')}
+                    </p>
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium text-muted-foreground">{t('media.details.codecs')}</Label>
+                    <p className="text-sm mt-1">
+                      {[media.video_codec, media.audio_codec].filter(Boolean).join(' / ') || t('media.details.unknown')}
+                    </p>
+                  </div>
+                </div>
+              )}
+
               <div>
-                <Label className="text-sm font-medium text-muted-foreground">Alt Text</Label>
-                <p className="text-sm mt-1">{media.alt_text || 'No alt text'}</p>
+                <Label className="text-sm font-medium text-muted-foreground">{t('media.details.alt_text')}</Label>
+                <p className="text-sm mt-1">{media.alt_text || t('media.details.no_alt_text')}</p>
               </div>
 
               <div>
-                <Label className="text-sm font-medium text-muted-foreground">Uploaded</Label>
-                <p className="text-sm mt-1">{media.created_at ? formatDate(media.created_at) : 'N/A'}</p>
+                <Label className="text-sm font-medium text-muted-foreground">{t('media.details.uploaded')}</Label>
+                <p className="text-sm mt-1">{media.created_at
+                    ? formatDate(media.created_at, {
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })
+                    : t('media.details.not_available')}</p>
               </div>
 
+              {media.tags && media.tags.length > 0 && (
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">{t('media.details.tags')}</Label>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {media.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {media.focal_point && (
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">{t('media.details.focal_point')}</Label>
+                  <p className="text-sm mt-1">
+                    {t('media.details.focal_point_value', {
+                      x: Math.round(media.focal_point.x * 100),
+                      y: Math.round(media.focal_point.y * 100),
+                    })}
+                  </p>
+                </div>
+              )}
+
               {media.public_url && (
                 <div>
-                  <Label className="text-sm font-medium text-muted-foreground">URL</Label>
+                  <Label className="text-sm font-medium text-muted-foreground">{t('media.details.url')}</Label>
                   <p className="text-sm mt-1 break-all text-blue-600">{media.public_url}</p>
                 </div>
               )}
+
+              {playable && (
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">{t('media.details.captions')}</Label>
+                  <div className="mt-1">
+                    {currentCaptions === null ? (
+                      <p className="text-sm text-muted-foreground">{t('media.details.loading_captions')}</p>
+                    ) : (
+                      <CaptionManager
+                        mediaId={media.id}
+                        captions={currentCaptions}
+                        onChange={(items) => setCaptions({ mediaId: media.id, items })}
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">
+                  {isInUse ? t('media.details.where_used_count', { count: usageCount }) : t('media.details.where_used')}
+                </Label>
+                <div className="mt-1">
+                  <UsageDetails usage={currentUsage} />
+                </div>
+              </div>
             </div>
           ) : (
             <div className="space-y-4">
               <div>
-                <Label htmlFor="filename">Filename</Label>
+                <Label htmlFor="filename">{t('media.details.filename')}</Label>
                 <Input
                   id="filename"
                   value={formData.filename}
@@ -203,43 +385,41 @@ export function MediaDetailsModal({ media, open, onClose, onUpdate, onDelete }:
               </div>
 
               <div>
-                <Label htmlFor="alt_text">Alt Text</Label>
+                <Label htmlFor="alt_text">{t('media.details.alt_text')}</Label>
                 <Textarea
                   id="alt_text"
                   value={formData.alt_text}
                   onChange={(e) => setFormData({ ...formData, alt_text: e.target.value })}
-                  placeholder="Describe this image for accessibility"
+                  placeholder={t('media.details.alt_placeholder')}
                   rows={3}
                 />
               </div>
 
-              {media.media_type === 'image' && (
-                <div>
-                  <Label>Replace Image</Label>
-                  <div className="mt-2">
-                    <input
-                      type="file"
-                      id="replace-file"
-                      className="hidden"
-                      accept="image/*"
-                      onChange={handleReplaceImage}
-                      disabled={isReplacing}
-                    />
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={() => document.getElementById('replace-file')?.click()}
-                      disabled={isReplacing}
-                      className="w-full"
-                    >
-                      {isReplacing ? 'Replacing...' : 'Upload New Image'}
-                    </Button>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      This will delete the current image and upload a new one
-                    </p>
-                  </div>
+              <div>
+                <Label>{t('media.details.replace_file')}</Label>
+                <div className="mt-2">
+                  <input
+                    type="file"
+                    id="replace-file"
+                    className="hidden"
+                    accept={replaceAccept}
+                    onChange={handleReplaceFile}
+                    disabled={isReplacing}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => document.getElementById('replace-file')?.click()}
+                    disabled={isReplacing}
+                    className="w-full"
+                  >
+                    {isReplacing ? t('media.details.replacing') : t('media.details.upload_new_file')}
+                  </Button>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {t('media.details.replace_hint')}
+                  </p>
                 </div>
-              )}
+              </div>
             </div>
           )}
         </div>
@@ -247,42 +427,120 @@ export function MediaDetailsModal({ media, open, onClose, onUpdate, onDelete }:
         <DialogFooter>
           {!isEditing ? (
             <>
-              <Button variant="outline" onClick={() => setShowDeleteConfirm(true)}>
-                Delete
+              <Button variant="outline" onClick={() => setShowDeleteConfirm(true)} disabled={!canDelete}>
+                {t('media.details.delete')}
               </Button>
+              {media.media_type === 'image' && (
+                <Button variant="outline" onClick={() => setShowEditor(true)}>
+                  {t('media.details.edit_image')}
+                </Button>
+              )}
+              {media.media_type === 'video' && (media.url || media.cdn_url) && (
+                <Button variant="outline" onClick={() => setShowPosterDialog(true)}>
+                  {t('media.details.choose_poster')}
+                </Button>
+              )}
               <Button variant="outline" onClick={handleEdit}>
-                Edit
+                {t('media.details.edit')}
               </Button>
-              <Button onClick={onClose}>Close</Button>
+              <Button onClick={onClose}>{t('media.details.close')}</Button>
             </>
           ) : (
             <>
               <Button variant="outline" onClick={() => setIsEditing(false)}>
-                Cancel
+                {t('media.details.cancel')}
               </Button>
               <Button onClick={handleSave} disabled={isSaving}>
-                {isSaving ? 'Saving...' : 'Save'}
+                {isSaving ? t('media.details.saving') : t('media.details.save')}
               </Button>
             </>
           )}
         </DialogFooter>
 
+        {showEditor && (
+          <ImageEditorDialog
+            open={showEditor}
+            src={resolveMediaUrl(media.url || media.cdn_url)}
+            filename={media.filename}
+            mimeType={media.mime_type}
+            onClose={() => setShowEditor(false)}
+            onSaveAsNew={handleSaveEditedAsNew}
+            onSaveAsVersion={handleSaveEditedAsVersion}
+          />
+        )}
+
+        {showPosterDialog && (
+          <PosterFrameDialog
+            media={media}
+            open={showPosterDialog}
+            onClose={() => setShowPosterDialog(false)}
+            onSaved={handlePosterSaved}
+          />
+        )}
+
+        {/* Replace Confirmation Dialog */}
+        {pendingReplace && (
+          <Dialog open onOpenChange={(value) => !value && !isReplacing && setPendingReplace(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{t('media.details.replace_file')}</DialogTitle>
+                <DialogDescription>
+                  {t('media.details.replace.description', {
+                    current: media.filename,
+                    replacement: pendingReplace.file.name,
+                  })}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                {isInUse && (
+                  <p className="text-sm font-medium">{t('media.details.replace.used_in', { count: usageCount })}</p>
+                )}
+                <UsageDetails usage={currentUsage} />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setPendingReplace(null)} disabled={isReplacing}>
+                  {t('media.details.cancel')}
+                </Button>
+                <Button onClick={handleConfirmReplace} disabled={currentUsage === null || isReplacing}>
+                  {isReplacing ? t('media.details.replacing') : t('media.details.replace.confirm')}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        )}
+
         {/* Delete Confirmation Dialog */}
         {showDeleteConfirm && (
           <Dialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Confirm Delete</DialogTitle>
+                <DialogTitle>{t('media.details.delete.title')}</DialogTitle>
                 <DialogDescription>
-                  Are you sure you want to delete this file? This action cannot be undone.
+                  {t('media.details.delete.description')}
                 </DialogDescription>
               </DialogHeader>
+              {currentUsage === null || currentUsage.failed ? (
+                <UsageDetails usage={currentUsage} />
+              ) : (
+                isInUse && (
+                  <div className="space-y-2 rounded-md border border-destructive/50 p-3">
+                    <p className="text-sm font-medium text-destructive">
+                      {t('media.details.delete.in_use', { count: usageCount })}
+                    </p>
+                    <MediaUsageList usage={currentUsage.items} />
+                  </div>
+                )
+              )}
               <DialogFooter>
                 <Button variant="outline" onClick={() => setShowDeleteConfirm(false)}>
-                  Cancel
+                  {t('media.details.cancel')}
                 </Button>
-                <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
-                  {isDeleting ? 'Deleting...' : 'Delete'}
+                <Button variant="destructive" onClick={handleDelete} disabled={currentUsage === null || isDeleting}>
+                  {isDeleting
+                    ? t('media.details.delete.deleting')
+                    : isInUse
+                      ? t('media.details.delete.anyway')
+                      : t('media.details.delete')}
                 </Button>
               </DialogFooter>
             </DialogContent>
@@ -292,3 +550,14 @@ export function MediaDetailsModal({ media, open, onClose, onUpdate, onDelete }:
     </Dialog>
   );
 }
+
+function UsageDetails({ usage }: { usage: { items: MediaUsage[]; failed: boolean } | null }) {
+  const { t } = useI18n();
+  if (usage === null) {
+    return <p className="text-sm text-muted-foreground">{t('media.details.usage.checking')}</p>;
+  }
+  if (usage.failed) {
+    return <p className="text-sm text-destructive">{t('media.details.usage.failed')}</p>;
+  }
+  return <MediaUsageList usage={usage.items} />;
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { resolveMediaUrl } from '@/lib/api/client';
+import { Media, MediaCaption } from '@/types';
+
+interface MediaPlayerProps {
+  media: Media;
+  captions?: MediaCaption[];
+  className?: string;
+}
+
+/**
+ * Plays a video or audio item with its poster and caption tracks.
+ */
+export function MediaPlayer({ media, captions = [], className }: MediaPlayerProps) {
+  const src = resolveMediaUrl(media.cdn_url || media.url);
+  const tracks = captions.map((caption, index) => (
+    <track
+      key={caption.id}
+      kind={caption.kind}
+      src={resolveMediaUrl(caption.url)}
+      srcLang={caption.locale}
+      label={caption.label}
+      default={index === 0}
+    />
+  ));
+
+  if (media.media_type === 'audio') {
+    return (
+      <audio src={src} controls preload="metadata" className={className} aria-label={media.filename}>
+        {tracks}
+      </audio>
+    );
+  }
+
+  return (
+    <video
+      src={src}
+      poster={media.poster_url ? resolveMediaUrl(media.poster_url) : undefined}
+      controls
+      preload="metadata"
+      // Lets the poster frame picker read frames from the media proxy
+      crossOrigin="anonymous"
+      className={className}
+      aria-label={media.filename}
+    >
+      {tracks}
+    </video>
+  );
+}
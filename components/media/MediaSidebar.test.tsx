@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MediaSidebar } from './MediaSidebar';
+import { TagInput } from './TagInput';
+import { mediaApi } from '@/lib/api';
+import { FOLDER_DRAG_TYPE, MEDIA_DRAG_TYPE, MEDIA_SOURCE_DRAG_TYPE } from '@/lib/media-folders';
+import { MediaFolder } from '@/types';
+import { toast } from 'sonner';
+
+vi.mock('@/lib/api', () => ({
+  mediaApi: {
+    createFolder: vi.fn(),
+    updateFolder: vi.fn(),
+    deleteFolder: vi.fn(),
+  },
+  roleApi: {
+    listRoles: vi.fn(),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const folders: MediaFolder[] = [
+  { id: 'photos', name: 'Photos', parent_id: null, media_count: 3 },
+  { id: 'events', name: 'Events', parent_id: 'photos' },
+  { id: 'legal', name: 'Legal', parent_id: null, access: { can_upload: false, can_delete: false, can_manage: false } },
+];
+
+const renderSidebar = (props: Partial<React.ComponentProps<typeof MediaSidebar>> = {}) =>
+  render(
+    <MediaSidebar
+      folders={folders}
+      tags={[
+        { name: 'hero', count: 4 },
+        { name: 'logo', count: 2 },
+      ]}
+      folderId={null}
+      onFolderChange={vi.fn()}
+      selectedTags={[]}
+      onTagsChange={vi.fn()}
+      editable
+      {...props}
+    />
+  );
+
+// jsdom has no DataTransfer, so drag events get a minimal stand-in
+const createDataTransfer = (data: Record<string, string>) => ({
+  types: Object.keys(data),
+  getData: (type: string) => data[type] || '',
+  setData: vi.fn(),
+});
+
+describe('MediaSidebar', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the folder tree and mark the current folder', () => {
+    renderSidebar({ folderId: 'events' });
+
+    expect(screen.getByText('All Media')).toBeInTheDocument();
+    expect(screen.getByText('Photos')).toBeInTheDocument();
+    expect(screen.getByText('Events').closest('[aria-current]')).toHaveAttribute('aria-current', 'true');
+  });
+
+  it('should change folder when a folder is clicked', async () => {
+    const user = userEvent.setup();
+    const onFolderChange = vi.fn();
+    renderSidebar({ onFolderChange });
+
+    await user.click(screen.getByText('Photos'));
+    await user.click(screen.getByText('All Media'));
+
+    expect(onFolderChange).toHaveBeenNthCalledWith(1, 'photos');
+    expect(onFolderChange).toHaveBeenNthCalledWith(2, null);
+  });
+
+  it('should toggle tag filters', async () => {
+    const user = userEvent.setup();
+    const onTagsChange = vi.fn();
+    renderSidebar({ selectedTags: ['hero'], onTagsChange });
+
+    expect(screen.getByRole('button', { name: /hero/ })).toHaveAttribute('aria-pressed', 'true');
+
+    await user.click(screen.getByRole('button', { name: /logo/ }));
+    expect(onTagsChange).toHaveBeenCalledWith(['hero', 'logo']);
+
+    await user.click(screen.getByRole('button', { name: /hero/ }));
+    expect(onTagsChange).toHaveBeenCalledWith([]);
+  });
+
+  it('should create a folder inside the current folder', async () => {
+    const user = userEvent.setup();
+    const onFolderChange = vi.fn();
+    const onFoldersChanged = vi.fn();
+    vi.mocked(mediaApi.createFolder).mockResolvedValue({ id: 'new', name: 'Banners', parent_id: 'photos' });
+    renderSidebar({ folderId: 'photos', onFolderChange, onFoldersChanged });
+
+    await user.click(screen.getByRole('button', { name: 'New folder' }));
+    await user.type(screen.getByLabelText('Name'), 'Banners');
+    await user.click(screen.getByRole('button', { name: 'Create Folder' }));
+
+    await waitFor(() => {
+      expect(mediaApi.createFolder).toHaveBeenCalledWith({ name: 'Banners', parent_id: 'photos' });
+    });
+    expect(onFolderChange).toHaveBeenCalledWith('new');
+    expect(onFoldersChanged).toHaveBeenCalled();
+  });
+
+  it('should only offer folder actions where the user may manage the folder', () => {
+    renderSidebar();
+
+    expect(screen.getByRole('button', { name: 'Photos actions' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Legal actions' })).not.toBeInTheDocument();
+  });
+
+  it('should hide management controls when not editable', () => {
+    renderSidebar({ editable: false });
+
+    expect(screen.queryByRole('button', { name: 'New folder' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Photos actions' })).not.toBeInTheDocument();
+  });
+
+  it('should report media dropped on a folder', () => {
+    const onMediaDrop = vi.fn();
+    renderSidebar({ onMediaDrop });
+
+    fireEvent.drop(screen.getByText('Events'), {
+      dataTransfer: createDataTransfer({ [MEDIA_DRAG_TYPE]: JSON.stringify(['m1', 'm2']) }),
+    });
+
+    expect(onMediaDrop).toHaveBeenCalledWith(['m1', 'm2'], 'events');
+  });
+
+  it('should refuse media dropped out of a folder that does not allow deletes', () => {
+    const onMediaDrop = vi.fn();
+    renderSidebar({ onMediaDrop });
+
+    fireEvent.drop(screen.getByText('Events'), {
+      dataTransfer: createDataTransfer({
+        [MEDIA_DRAG_TYPE]: JSON.stringify(['m1', 'm2']),
+        [MEDIA_SOURCE_DRAG_TYPE]: JSON.stringify([null, 'legal']),
+      }),
+    });
+
+    expect(onMediaDrop).not.toHaveBeenCalled();
+    expect(toast.error).toHaveBeenCalledWith('You cannot remove files from "Legal"');
+  });
+
+  it('should move a folder dropped on All Media to the top level', async () => {
+    const onFoldersChanged = vi.fn();
+    vi.mocked(mediaApi.updateFolder).mockResolvedValue({ ...folders[1], parent_id: null });
+    renderSidebar({ onFoldersChanged });
+
+    fireEvent.drop(screen.getByText('All Media'), {
+      dataTransfer: createDataTransfer({ [FOLDER_DRAG_TYPE]: 'events' }),
+    });
+
+    await waitFor(() => {
+      expect(mediaApi.updateFolder).toHaveBeenCalledWith('events', { parent_id: null });
+    });
+    expect(onFoldersChanged).toHaveBeenCalled();
+  });
+
+  it('should refuse to move a folder into its own subfolder', () => {
+    renderSidebar();
+
+    fireEvent.drop(screen.getByText('Events'), {
+      dataTransfer: createDataTransfer({ [FOLDER_DRAG_TYPE]: 'photos' }),
+    });
+
+    expect(mediaApi.updateFolder).not.toHaveBeenCalled();
+    expect(toast.error).toHaveBeenCalledWith('A folder cannot be moved into one of its own subfolders');
+  });
+});
+
+describe('TagInput', () => {
+  it('should add typed tags on Enter and remove them again', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    const { rerender } = render(<TagInput value={[]} onChange={onChange} suggestions={[]} />);
+
+    await user.type(screen.getByPlaceholderText('Add a tag...'), ' Hero {Enter}');
+    expect(onChange).toHaveBeenCalledWith(['hero']);
+
+    rerender(<TagInput value={['hero']} onChange={onChange} suggestions={[]} />);
+    await user.click(screen.getByRole('button', { name: 'Remove tag hero' }));
+    expect(onChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should suggest known tags while typing', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<TagInput value={['banner']} onChange={onChange} suggestions={['banner', 'background', 'hero']} />);
+
+    await user.type(screen.getByPlaceholderText('Add a tag...'), 'b');
+
+    expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual(['background']);
+
+    await user.click(screen.getByRole('option', { name: 'background' }));
+    expect(onChange).toHaveBeenCalledWith(['banner', 'background']);
+  });
+});
@@ -0,0 +1,341 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { mediaApi } from '@/lib/api';
+import {
+  buildFolderTree,
+  canMoveFolder,
+  FOLDER_DRAG_TYPE,
+  FolderNode,
+  getMoveBlocker,
+  MEDIA_DRAG_TYPE,
+  MEDIA_SOURCE_DRAG_TYPE,
+} from '@/lib/media-folders';
+import { MediaFolder, MediaTag } from '@/types';
+import { FolderPermissionsDialog } from '@/components/media/FolderPermissionsDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Folder, FolderOpen, FolderPlus, Images, MoreHorizontal, Tag } from 'lucide-react';
+import { useI18n } from '@/contexts/i18n-context';
+
+interface MediaSidebarProps {
+  folders: MediaFolder[];
+  tags: MediaTag[];
+  /** null shows media from every folder */
+  folderId: string | null;
+  onFolderChange: (id: string | null) => void;
+  selectedTags: string[];
+  onTagsChange: (tags: string[]) => void;
+  /** Folder management and drag-and-drop; the picker only browses */
+  editable?: boolean;
+  onFoldersChanged?: () => void;
+  onMediaDrop?: (mediaIds: string[], folderId: string | null) => void;
+}
+
+const FULL_ACCESS = { can_upload: true, can_delete: true, can_manage: true };
+
+/** Tags listed in the sidebar; the rest are reachable through search and autocomplete */
+const MAX_TAGS = 20;
+
+export function MediaSidebar({
+  folders,
+  tags,
+  folderId,
+  onFolderChange,
+  selectedTags,
+  onTagsChange,
+  editable = false,
+  onFoldersChanged,
+  onMediaDrop,
+}: MediaSidebarProps) {
+  const { t } = useI18n();
+  const [dropTarget, setDropTarget] = useState<string | null | undefined>(undefined);
+  const [nameDialog, setNameDialog] = useState<{ parentId: string | null; folder?: MediaFolder } | null>(null);
+  const [name, setName] = useState('');
+  const [deleting, setDeleting] = useState<MediaFolder | null>(null);
+  const [permissionsFor, setPermissionsFor] = useState<MediaFolder | null>(null);
+
+  const tree = buildFolderTree(folders);
+
+  const openNameDialog = (parentId: string | null, folder?: MediaFolder) => {
+    setName(folder?.name || '');
+    setNameDialog({ parentId, folder });
+  };
+
+  const handleSaveName = async () => {
+    if (!nameDialog) return;
+    try {
+      if (nameDialog.folder) {
+        await mediaApi.updateFolder(nameDialog.folder.id, { name: name.trim() });
+      } else {
+        const created = await mediaApi.createFolder({ name: name.trim(), parent_id: nameDialog.parentId });
+        onFolderChange(created.id);
+      }
+      setNameDialog(null);
+      onFoldersChanged?.();
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(error.response?.data?.detail || t('media.sidebar.save_failed'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await mediaApi.deleteFolder(deleting.id);
+      if (folderId === deleting.id) onFolderChange(deleting.parent_id);
+      setDeleting(null);
+      toast.success(t('media.sidebar.deleted', { folder: deleting.name }));
+      onFoldersChanged?.();
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(error.response?.data?.detail || t('media.sidebar.delete_failed'));
+    }
+  };
+
+  const moveFolder = async (id: string, parentId: string | null) => {
+    const folder = folders.find((f) => f.id === id);
+    if (!folder || folder.parent_id === parentId) return;
+    if (!canMoveFolder(folders, id, parentId)) {
+      toast.error(t('media.sidebar.move_into_self'));
+      return;
+    }
+    try {
+      await mediaApi.updateFolder(id, { parent_id: parentId });
+      onFoldersChanged?.();
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error(error.response?.data?.detail || t('media.sidebar.move_failed'));
+    }
+  };
+
+  const dropMedia = (mediaIds: string[], sourceFolderIds: (string | null)[], targetId: string | null) => {
+    const blocker = getMoveBlocker(folders, sourceFolderIds, targetId);
+    if (blocker) {
+      toast.error(
+        t(blocker.permission === 'can_upload' ? 'media.move_not_allowed' : 'media.move_out_not_allowed', {
+          folder: blocker.folder.name,
+        })
+      );
+      return;
+    }
+    onMediaDrop?.(mediaIds, targetId);
+  };
+
+  const dropProps = (targetId: string | null) =>
+    editable
+      ? {
+          onDragOver: (e: React.DragEvent) => {
+            if (!e.dataTransfer.types.includes(MEDIA_DRAG_TYPE) && !e.dataTransfer.types.includes(FOLDER_DRAG_TYPE)) {
+              return;
+            }
+            e.preventDefault();
+            setDropTarget(targetId);
+          },
+          onDragLeave: () => setDropTarget(undefined),
+          onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            setDropTarget(undefined);
+            const mediaIds = e.dataTransfer.getData(MEDIA_DRAG_TYPE);
+            const sourceFolderIds = e.dataTransfer.getData(MEDIA_SOURCE_DRAG_TYPE);
+            const draggedFolder = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+            if (mediaIds) dropMedia(JSON.parse(mediaIds), sourceFolderIds ? JSON.parse(sourceFolderIds) : [], targetId);
+            else if (draggedFolder) moveFolder(draggedFolder, targetId);
+          },
+        }
+      : {};
+
+  const rowClass = (id: string | null) =>
+    `group flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer ${
+      folderId === id ? 'bg-accent font-medium' : 'hover:bg-accent/50'
+    } ${dropTarget === id ? 'ring-2 ring-primary' : ''}`;
+
+  const renderFolder = (node: FolderNode) => {
+    const { folder } = node;
+    const access = folder.access || FULL_ACCESS;
+    const Icon = folderId === folder.id ? FolderOpen : Folder;
+    return (
+      <li key={folder.id}>
+        <div
+          className={rowClass(folder.id)}
+          style={{ paddingLeft: `${0.5 + node.depth * 0.75}rem` }}
+          onClick={() => onFolderChange(folder.id)}
+          draggable={editable && access.can_manage}
+          onDragStart={(e) => e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id)}
+          aria-current={folderId === folder.id ? 'true' : undefined}
+          data-testid="folder-row"
+          {...dropProps(folder.id)}
+        >
+          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="flex-1 truncate">{folder.name}</span>
+          {folder.media_count !== undefined && (
+            <span className="text-xs text-muted-foreground">{folder.media_count}</span>
+          )}
+          {editable && access.can_manage && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                  onClick={(e) => e.stopPropagation()}
+                  aria-label={t('media.sidebar.folder_actions', { folder: folder.name })}
+                >
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                <DropdownMenuItem onClick={() => openNameDialog(folder.id)}>
+                  {t('media.sidebar.new_subfolder')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => openNameDialog(folder.parent_id, folder)}>
+                  {t('media.sidebar.rename')}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setPermissionsFor(folder)}>
+                  {t('media.sidebar.permissions')}
+                </DropdownMenuItem>
+                <DropdownMenuItem className="text-destructive" onClick={() => setDeleting(folder)}>
+                  {t('media.sidebar.delete')}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+        {node.children.length > 0 && <ul>{node.children.map(renderFolder)}</ul>}
+      </li>
+    );
+  };
+
+  const toggleTag = (tag: string) => {
+    onTagsChange(selectedTags.includes(tag) ? selectedTags.filter((selected) => selected !== tag) : [...selectedTags, tag]);
+  };
+
+  return (
+    <nav className="space-y-6" aria-label={t('media.sidebar.label')}>
+      <div className="space-y-1">
+        <div className="flex items-center justify-between px-2">
+          <span className="text-xs font-semibold uppercase text-muted-foreground">{t('media.sidebar.folders')}</span>
+          {editable && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => openNameDialog(folderId)}
+              aria-label={t('media.sidebar.add_folder')}
+            >
+              <FolderPlus className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <ul>
+          <li>
+            <div
+              className={rowClass(null)}
+              onClick={() => onFolderChange(null)}
+              aria-current={folderId === null ? 'true' : undefined}
+              {...dropProps(null)}
+            >
+              <Images className="h-4 w-4 text-muted-foreground" />
+              <span className="flex-1">{t('media.all_media')}</span>
+            </div>
+          </li>
+          {tree.map(renderFolder)}
+        </ul>
+        {editable && folders.length > 0 && (
+          <p className="px-2 text-xs text-muted-foreground">{t('media.sidebar.drag_hint')}</p>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between px-2">
+            <span className="text-xs font-semibold uppercase text-muted-foreground">{t('media.sidebar.tags')}</span>
+            {selectedTags.length > 0 && (
+              <button className="text-xs text-muted-foreground hover:underline" onClick={() => onTagsChange([])}>
+                {t('media.sidebar.clear_tags')}
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1 px-2">
+            {tags.slice(0, MAX_TAGS).map((tag) => {
+              const active = selectedTags.includes(tag.name);
+              return (
+                <button
+                  key={tag.name}
+                  className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${
+                    active ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-accent'
+                  }`}
+                  onClick={() => toggleTag(tag.name)}
+                  aria-pressed={active}
+                >
+                  <Tag className="h-3 w-3" />
+                  {tag.name}
+                  <span className={active ? '' : 'text-muted-foreground'}>{tag.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.folder ? t('media.sidebar.rename_folder') : t('media.sidebar.new_folder')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="folder-name">{t('media.sidebar.name')}</Label>
+            <Input
+              id="folder-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && name.trim() && handleSaveName()}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              {t('media.sidebar.cancel')}
+            </Button>
+            <Button onClick={handleSaveName} disabled={!name.trim()}>
+              {nameDialog?.folder ? t('media.sidebar.rename') : t('media.sidebar.create_folder')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title={t('media.sidebar.delete_title')}
+        description={t('media.sidebar.delete_description', { folder: deleting?.name ?? '' })}
+        confirmLabel={t('media.sidebar.delete')}
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+
+      {permissionsFor && (
+        <FolderPermissionsDialog
+          folder={permissionsFor}
+          onClose={() => setPermissionsFor(null)}
+          onSaved={onFoldersChanged}
+        />
+      )}
+    </nav>
+  );
+}
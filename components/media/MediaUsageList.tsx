@@ -0,0 +1,43 @@
+'use client';
+
+import Link from 'next/link';
+import { MediaUsage } from '@/types';
+import { FileText, Menu } from 'lucide-react';
+
+interface MediaUsageListProps {
+  usage: MediaUsage[];
+}
+
+const getUsageHref = (usage: MediaUsage) =>
+  usage.kind === 'content_entry' ? `/dashboard/content/${usage.id}` : '/dashboard/navigation';
+
+export function MediaUsageList({ usage }: MediaUsageListProps) {
+  if (usage.length === 0) {
+    return <p className="text-sm text-muted-foreground">Not used by any content or navigation.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm" aria-label="Where used">
+      {usage.map((item) => {
+        const Icon = item.kind === 'content_entry' ? FileText : Menu;
+        return (
+          <li key={`${item.kind}-${item.id}-${item.field || ''}`} className="flex items-center gap-2">
+            <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <Link href={getUsageHref(item)} className="truncate hover:underline">
+              {item.title}
+            </Link>
+            {item.field && <span className="text-xs text-muted-foreground">{item.field}</span>}
+            {item.reference === 'url' && (
+              <span className="text-xs text-muted-foreground" title="Linked by URL rather than by media ID">
+                by URL
+              </span>
+            )}
+            <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+              {item.kind === 'content_entry' ? 'Content entry' : 'Navigation item'}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
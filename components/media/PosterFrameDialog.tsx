@@ -0,0 +1,103 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { mediaApi } from '@/lib/api';
+import { resolveMediaUrl } from '@/lib/api/client';
+import { captureFrame, formatDuration } from '@/lib/media-playback';
+import { Media } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+
+interface PosterFrameDialogProps {
+  media: Media;
+  open: boolean;
+  onClose: () => void;
+  onSaved: (media: Media) => void;
+}
+
+export function PosterFrameDialog({ media, open, onClose, onSaved }: PosterFrameDialogProps) {
+  const [duration, setDuration] = useState(media.duration ?? 0);
+  const [time, setTime] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const seek = (value: number) => {
+    setTime(value);
+    if (videoRef.current) videoRef.current.currentTime = value;
+  };
+
+  const handleSave = async () => {
+    if (!videoRef.current) return;
+
+    try {
+      setIsSaving(true);
+      const frame = await captureFrame(videoRef.current, time);
+      const updated = await mediaApi.setPoster(media.id, frame, time);
+      toast.success('Poster frame saved');
+      onSaved(updated);
+    } catch (error) {
+      console.error('Failed to save poster frame:', error);
+      const err = error as Error & { response?: { data?: { detail?: string } } };
+      toast.error(err.response?.data?.detail || 'Failed to save poster frame');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && !isSaving && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Choose Poster Frame</DialogTitle>
+          <DialogDescription>
+            Move the scrubber to the frame shown before {media.filename} plays.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <video
+            ref={videoRef}
+            src={resolveMediaUrl(media.cdn_url || media.url)}
+            preload="auto"
+            muted
+            crossOrigin="anonymous"
+            className="w-full aspect-video bg-muted rounded-lg object-contain"
+            onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+          />
+          <div className="flex items-center gap-3">
+            <Slider
+              value={[time]}
+              min={0}
+              max={duration || 1}
+              step={0.1}
+              onValueChange={([value]) => seek(value)}
+              aria-label="Frame position"
+              disabled={!duration}
+            />
+            <span className="text-sm tabular-nums text-muted-foreground w-24 text-right">
+              {formatDuration(time)} / {formatDuration(duration)}
+            </span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Use This Frame'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ResponsiveImage } from './ResponsiveImage';
+import { getMediaUrl } from '@/lib/api/client';
+
+describe('ResponsiveImage', () => {
+  it('should render renditions with modern format sources for proxy images', () => {
+    const src = getMediaUrl('photo.jpg') as string;
+    const { container } = render(<ResponsiveImage src={src} alt="Photo" rendition="card" sizes="200px" />);
+
+    const img = screen.getByAltText('Photo');
+    expect(img).toHaveAttribute('src', `${src}?rendition=card`);
+    expect(img).toHaveAttribute('sizes', '200px');
+    expect(img.getAttribute('srcset')).toContain(`${src}?rendition=card&w=320 320w`);
+    expect(img).toHaveAttribute('loading', 'lazy');
+
+    const sources = container.querySelectorAll('picture source');
+    expect(Array.from(sources).map((source) => source.getAttribute('type'))).toEqual(['image/avif', 'image/webp']);
+  });
+
+  it('should render other images as they are', () => {
+    const { container } = render(
+      <ResponsiveImage src="https://example.com/photo.jpg" alt="Photo" rendition="hero" loading="eager" />
+    );
+
+    const img = screen.getByAltText('Photo');
+    expect(img).toHaveAttribute('src', 'https://example.com/photo.jpg');
+    expect(img).not.toHaveAttribute('srcset');
+    expect(img).toHaveAttribute('loading', 'eager');
+    expect(container.querySelector('picture')).toBeNull();
+  });
+});
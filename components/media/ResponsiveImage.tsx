@@ -0,0 +1,32 @@
+'use client';
+
+import { getResponsiveImage, RenditionName } from '@/lib/media-renditions';
+
+interface ResponsiveImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet'> {
+  src: string | null | undefined;
+  alt: string;
+  rendition: RenditionName;
+}
+
+/**
+ * An image that loads a rendition sized for its layout, in AVIF or WebP where
+ * the browser supports them. Images the media proxy cannot resize render as a
+ * plain <img> with the original URL.
+ */
+export function ResponsiveImage({ src, alt, rendition, sizes, loading = 'lazy', ...props }: ResponsiveImageProps) {
+  const image = getResponsiveImage(src, rendition, sizes);
+
+  if (image.sources.length === 0) {
+    return <img src={image.src} alt={alt} loading={loading} {...props} />;
+  }
+
+  return (
+    // display: contents keeps the <img> laid out as if <picture> were not there
+    <picture className="contents">
+      {image.sources.map((source) => (
+        <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={source.sizes} />
+      ))}
+      <img src={image.src} srcSet={image.srcSet} sizes={image.sizes} alt={alt} loading={loading} {...props} />
+    </picture>
+  );
+}
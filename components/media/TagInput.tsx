@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { addTags, getTagSuggestions } from '@/lib/media-folders';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { X } from 'lucide-react';
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Known tags offered while typing */
+  suggestions: string[];
+  placeholder?: string;
+}
+
+export function TagInput({ id, value, onChange, suggestions, placeholder = 'Add a tag...' }: TagInputProps) {
+  const [query, setQuery] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  const matches = focused && query.trim() ? getTagSuggestions(suggestions, query, value) : [];
+
+  const add = (tag: string) => {
+    onChange(addTags(value, [tag]));
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && query.trim()) {
+      e.preventDefault();
+      add(query);
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((t) => t !== tag))}
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <Input
+          id={id}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          placeholder={placeholder}
+          autoComplete="off"
+        />
+        {matches.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md text-sm"
+          >
+            {matches.map((tag) => (
+              <li
+                key={tag}
+                role="option"
+                aria-selected={false}
+                className="cursor-pointer rounded px-2 py-1 hover:bg-accent"
+                // Keep focus in the input so the list does not close first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  add(tag);
+                }}
+              >
+                {tag}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import type { UploadItem } from '@/hooks/use-upload-queue';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Pause, Play, RotateCw, X } from 'lucide-react';
+import { useI18n } from '@/contexts/i18n-context';
+
+interface UploadQueueListProps {
+  items: UploadItem[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onClearFinished?: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+
+export function UploadQueueList({
+  items,
+  onPause,
+  onResume,
+  onRetry,
+  onCancel,
+  onClearFinished,
+}: UploadQueueListProps) {
+  const { t } = useI18n();
+  if (items.length === 0) return null;
+
+  const finished = items.filter((item) => item.status === 'done').length;
+  const hasFinished = items.some((item) => item.status === 'done' || item.status === 'cancelled');
+
+  return (
+    <div className="space-y-3" aria-label={t('media.uploads.queue')}>
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">
+          {t('media.uploads.count', { finished, total: items.length })}
+        </span>
+        {onClearFinished && hasFinished && (
+          <Button variant="ghost" size="sm" onClick={onClearFinished}>
+            {t('media.uploads.clear_finished')}
+          </Button>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {items.map((item) => {
+          const { file, status } = item;
+          const percent = file.size > 0 ? Math.min(100, Math.round((item.loaded / file.size) * 100)) : 0;
+          return (
+            <li key={item.id} className="rounded-md border p-3 space-y-2" data-testid="upload-item">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate font-medium">{file.name}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {formatFileSize(item.loaded)} / {formatFileSize(file.size)}
+                </span>
+                <Badge variant={status === 'error' ? 'destructive' : status === 'done' ? 'default' : 'outline'}>
+                  {t(`media.uploads.status.${status}`)}
+                </Badge>
+                {(status === 'queued' || status === 'uploading' || status === 'retrying') && (
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onPause(item.id)} aria-label={t('media.uploads.pause', { filename: file.name })}>
+                    <Pause className="h-4 w-4" />
+                  </Button>
+                )}
+                {status === 'paused' && (
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onResume(item.id)} aria-label={t('media.uploads.resume', { filename: file.name })}>
+                    <Play className="h-4 w-4" />
+                  </Button>
+                )}
+                {status === 'error' && (
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onRetry(item.id)} aria-label={t('media.uploads.retry', { filename: file.name })}>
+                    <RotateCw className="h-4 w-4" />
+                  </Button>
+                )}
+                {status !== 'done' && status !== 'cancelled' && (
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onCancel(item.id)} aria-label={t('media.uploads.cancel', { filename: file.name })}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {status !== 'cancelled' && (
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className={`h-full transition-all ${status === 'error' ? 'bg-destructive' : 'bg-primary'}`}
+                    style={{ width: `${percent}%` }}
+                    role="progressbar"
+                    aria-label={t('media.uploads.progress', { filename: file.name })}
+                    aria-valuenow={percent}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                  />
+                </div>
+              )}
+              {item.error && <p className="text-xs text-destructive">{item.error}</p>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
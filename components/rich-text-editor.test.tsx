@@ -206,6 +206,21 @@ vi.mock('lowlight', () => ({
 vi.mock('@/lib/tiptap-extensions', () => ({
   Callout: {},
   Details: {},
+  MediaVideo: { configure: vi.fn(() => ({})) },
+}));
+
+vi.mock('@/components/media-picker-modal', () => ({
+  default: ({ open, onSelect, fileType }: { open: boolean; onSelect: (media: unknown) => void; fileType?: string }) =>
+    open ? (
+      <button
+        type="button"
+        onClick={() =>
+          onSelect({ id: 'm1', filename: 'clip.mp4', url: '/media/proxy/clip.mp4', poster_url: '/media/proxy/poster.jpg' })
+        }
+      >
+        Pick {fileType}
+      </button>
+    ) : null,
 }));
 
 describe('RichTextEditor', () => {
@@ -697,6 +712,28 @@ describe('RichTextEditor', () => {
     });
   });
 
+  describe('Video', () => {
+    it('should insert a video node that references the picked media', async () => {
+      const user = userEvent.setup();
+      render(
+        <RichTextEditor content="<p>Test</p>" onChange={mockOnChange} />
+      );
+
+      await user.click(screen.getByTitle('Insert Video'));
+      await user.click(screen.getByRole('button', { name: 'Pick video' }));
+
+      expect(mockInsertContent).toHaveBeenCalledWith({
+        type: 'mediaVideo',
+        attrs: {
+          // Only the reference is stored; sources are resolved when rendered
+          mediaId: 'm1',
+          title: 'clip.mp4',
+        },
+      });
+      expect(screen.queryByRole('button', { name: 'Pick video' })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Other Insertions', () => {
     it('should insert horizontal rule', async () => {
       const user = userEvent.setup();
@@ -21,7 +21,10 @@ import { TableHeader } from '@tiptap/extension-table-header';
 import HorizontalRule from '@tiptap/extension-horizontal-rule';
 import Typography from '@tiptap/extension-typography';
 import { common, createLowlight } from 'lowlight';
-import { Callout, Details } from '@/lib/tiptap-extensions';
+import { Callout, Details, MediaVideo } from '@/lib/tiptap-extensions';
+import { loadVideoMedia } from '@/hooks/use-media-videos';
+import { Media } from '@/types';
+import MediaPickerModal from '@/components/media-picker-modal';
 import { Button } from '@/components/ui/button';
 import { 
   Bold, 
@@ -33,6 +36,7 @@ import {
   Redo,
   Link as LinkIcon,
   Image as ImageIcon,
+  Film,
   Heading1,
   Heading2,
   AlignLeft,
@@ -79,6 +83,7 @@ export default function RichTextEditor({
   const [htmlSource, setHtmlSource] = useState(content);
   const [editorHeight, setEditorHeight] = useState(200);
   const [isResizing, setIsResizing] = useState(false);
+  const [showVideoPicker, setShowVideoPicker] = useState(false);
 
   const editor = useEditor({
     extensions: [
@@ -118,6 +123,9 @@ export default function RichTextEditor({
       HorizontalRule,
       Callout,
       Details,
+      MediaVideo.configure({
+        loadMedia: loadVideoMedia,
+      }),
     ],
     content,
     onUpdate: ({ editor }) => {
@@ -191,6 +199,21 @@ export default function RichTextEditor({
     }
   };
 
+  const addVideo = (media: Media) => {
+    editor
+      .chain()
+      .focus()
+      .insertContent({
+        type: 'mediaVideo',
+        attrs: {
+          mediaId: media.id,
+          title: media.title || media.filename,
+        },
+      })
+      .run();
+    setShowVideoPicker(false);
+  };
+
   const setTextColor = (color: string) => {
     editor.chain().focus().setColor(color).run();
     setShowColorPicker(false);
@@ -617,6 +640,15 @@ export default function RichTextEditor({
         >
           <ImageIcon className="h-4 w-4" />
         </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowVideoPicker(true)}
+          title="Insert Video"
+        >
+          <Film className="h-4 w-4" />
+        </Button>
         <Button
           type="button"
           variant="ghost"
@@ -678,7 +710,7 @@ export default function RichTextEditor({
       <div className="relative">
         <EditorContent 
           editor={editor} 
-          className="prose prose-sm max-w-none p-4 focus:outline-none [&_.ProseMirror]:outline-none [&_pre]:bg-muted [&_pre]:p-4 [&_pre]:rounded-md [&_code]:text-sm [&_table]:border-collapse [&_table]:w-full [&_td]:border [&_td]:p-2 [&_th]:border [&_th]:p-2 [&_th]:bg-muted [&_th]:font-semibold [&_div[data-callout]]:border [&_div[data-callout]]:rounded-md [&_div[data-callout]]:p-4 [&_div[data-callout]]:my-4 [&_div[data-callout][data-type='info']]:border-blue-500 [&_div[data-callout][data-type='info']]:bg-blue-50 [&_div[data-callout][data-type='warning']]:border-yellow-500 [&_div[data-callout][data-type='warning']]:bg-yellow-50 [&_div[data-callout][data-type='error']]:border-red-500 [&_div[data-callout][data-type='error']]:bg-red-50 [&_details]:border [&_details]:rounded-md [&_details]:p-4 [&_details]:my-4 [&_summary]:cursor-pointer [&_summary]:font-semibold [&_summary]:mb-2"
+          className="prose prose-sm max-w-none p-4 focus:outline-none [&_.ProseMirror]:outline-none [&_pre]:bg-muted [&_pre]:p-4 [&_pre]:rounded-md [&_code]:text-sm [&_table]:border-collapse [&_table]:w-full [&_td]:border [&_td]:p-2 [&_th]:border [&_th]:p-2 [&_th]:bg-muted [&_th]:font-semibold [&_div[data-callout]]:border [&_div[data-callout]]:rounded-md [&_div[data-callout]]:p-4 [&_div[data-callout]]:my-4 [&_div[data-callout][data-type='info']]:border-blue-500 [&_div[data-callout][data-type='info']]:bg-blue-50 [&_div[data-callout][data-type='warning']]:border-yellow-500 [&_div[data-callout][data-type='warning']]:bg-yellow-50 [&_div[data-callout][data-type='error']]:border-red-500 [&_div[data-callout][data-type='error']]:bg-red-50 [&_details]:border [&_details]:rounded-md [&_details]:p-4 [&_details]:my-4 [&_summary]:cursor-pointer [&_summary]:font-semibold [&_summary]:mb-2 [&_video]:w-full [&_video]:rounded-md [&_video]:my-4"
           style={{ minHeight: `${editorHeight}px` }}
         />
         {/* Resize handle */}
@@ -689,6 +721,12 @@ export default function RichTextEditor({
           <GripVertical className="h-3 w-3 text-muted-foreground rotate-90" />
         </div>
       </div>
+      <MediaPickerModal
+        open={showVideoPicker}
+        onClose={() => setShowVideoPicker(false)}
+        onSelect={addVideo}
+        fileType="video"
+      />
     </div>
   );
 }
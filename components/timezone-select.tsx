@@ -0,0 +1,44 @@
+'use client';
+
+import { memo, useMemo } from 'react';
+import { getSupportedTimezones, getTimezoneLabel } from '@/lib/timezone';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface TimezoneSelectProps {
+  id?: string;
+  value: string;
+  onChange: (timezone: string) => void;
+  className?: string;
+}
+
+/**
+ * Select for IANA timezones, labelled with their current GMT offset.
+ * Memoized because the option list has several hundred entries.
+ */
+export const TimezoneSelect = memo(function TimezoneSelect({ id, value, onChange, className }: TimezoneSelectProps) {
+  const options = useMemo(
+    () => getSupportedTimezones().map((tz) => ({ value: tz, label: getTimezoneLabel(tz) })),
+    []
+  );
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder="Select a timezone" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((tz) => (
+          <SelectItem key={tz.value} value={tz.value}>
+            {tz.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+});
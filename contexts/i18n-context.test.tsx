@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import { I18nProvider, useI18n } from '@/contexts/i18n-context'
+import { usePreferences } from '@/contexts/preferences-context'
+import { contentApi } from '@/lib/api'
+import type { ContentEntry, ContentType, PaginatedResponse } from '@/types'
+
+vi.mock('@/contexts/preferences-context', () => ({
+  usePreferences: vi.fn(),
+}))
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentTypes: vi.fn(),
+    getContentEntries: vi.fn(),
+  },
+}))
+
+// Test component that uses the i18n context
+function TestComponent() {
+  const { t, languages } = useI18n()
+
+  return (
+    <div>
+      <p data-testid="orders">{t('nav.orders')}</p>
+      <p data-testid="content">{t('nav.content')}</p>
+      <p data-testid="items">{t('settings.page_size.current', { count: 1 })}</p>
+      <p data-testid="languages">{languages.map((l) => l.name).join(', ')}</p>
+    </div>
+  )
+}
+
+function setLanguage(uiLanguage: string) {
+  vi.mocked(usePreferences).mockReturnValue({
+    preferences: { pageSize: 12, theme: 'system', primaryColor: '#8b4513', compactView: false, showDescriptions: true, uiLanguage },
+    generatedTheme: null,
+    updatePreference: vi.fn(),
+    updatePreferences: vi.fn(),
+    resetPreferences: vi.fn(),
+    applyCurrentTheme: vi.fn(),
+  })
+}
+
+describe('I18nContext', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setLanguage('en')
+    vi.mocked(contentApi.getContentTypes).mockResolvedValue([])
+  })
+
+  it('should use English outside a provider', () => {
+    render(<TestComponent />)
+
+    expect(screen.getByTestId('orders')).toHaveTextContent('Orders')
+    expect(screen.getByTestId('items')).toHaveTextContent('Currently showing 1 item per page')
+  })
+
+  it('should translate into the preferred interface language', async () => {
+    setLanguage('fr-CA')
+    render(
+      <I18nProvider>
+        <TestComponent />
+      </I18nProvider>
+    )
+
+    expect(screen.getByTestId('orders')).toHaveTextContent('Commandes')
+    expect(screen.getByTestId('items')).toHaveTextContent('1 élément affiché par page')
+    expect(document.documentElement.lang).toBe('fr-CA')
+    expect(document.documentElement.dir).toBe('ltr')
+    await waitFor(() => expect(contentApi.getContentTypes).toHaveBeenCalled())
+  })
+
+  it('should add catalogs published in the CMS and lay out right to left', async () => {
+    setLanguage('ar')
+    vi.mocked(contentApi.getContentTypes).mockResolvedValue([{ id: 'type-1', api_id: 'admin_page' } as ContentType])
+    vi.mocked(contentApi.getContentEntries).mockResolvedValue({
+      items: [
+        {
+          id: 'entry-1',
+          content_type_id: 'type-1',
+          slug: 'employees',
+          status: 'published',
+          content_data: { page_key: 'admin_employees', title: 'Employees' },
+        },
+        {
+          id: 'entry-2',
+          content_type_id: 'type-1',
+          slug: 'messages-ar',
+          status: 'published',
+          content_data: { page_key: 'admin_messages', title: 'Arabic', language: 'ar', messages: { 'nav.orders': 'الطلبات' } },
+        },
+      ],
+    } satisfies PaginatedResponse<ContentEntry>)
+
+    render(
+      <I18nProvider>
+        <TestComponent />
+      </I18nProvider>
+    )
+
+    await waitFor(() => expect(screen.getByTestId('orders')).toHaveTextContent('الطلبات'))
+    // Messages missing from the CMS catalog fall back to English
+    expect(screen.getByTestId('content')).toHaveTextContent('Content')
+    expect(screen.getByTestId('languages')).toHaveTextContent('English, Français, العربية')
+    expect(document.documentElement.dir).toBe('rtl')
+    expect(contentApi.getContentEntries).toHaveBeenCalledWith(
+      expect.objectContaining({ content_type_id: 'type-1', status: 'published' })
+    )
+  })
+})
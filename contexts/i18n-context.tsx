@@ -0,0 +1,55 @@
+'use client';
+
+import { createContext, useContext, useEffect, useMemo, ReactNode } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import { usePreferences } from '@/contexts/preferences-context';
+import { useAdminMessages } from '@/hooks/use-admin-messages';
+import { BUILT_IN_CATALOGS, UI_LANGUAGES } from '@/lib/i18n-catalogs';
+import {
+  createTranslator,
+  DEFAULT_UI_LANGUAGE,
+  getLanguageName,
+  mergeCatalogs,
+  type Translator,
+  type UiLanguage,
+} from '@/lib/i18n';
+
+interface I18nContextType extends Translator {
+  /** Built-in languages plus any with a catalog published in the CMS */
+  languages: UiLanguage[];
+}
+
+// Outside a provider (e.g. in isolated component tests) the UI is English
+const I18nContext = createContext<I18nContextType>({
+  ...createTranslator(DEFAULT_UI_LANGUAGE, BUILT_IN_CATALOGS),
+  languages: UI_LANGUAGES,
+});
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const { preferences } = usePreferences();
+  const { isAuthenticated } = useAuth();
+  const cmsCatalogs = useAdminMessages(isAuthenticated);
+  const language = preferences.uiLanguage || DEFAULT_UI_LANGUAGE;
+
+  const value = useMemo<I18nContextType>(() => {
+    const extraLanguages = Object.keys(cmsCatalogs)
+      .filter((code) => !UI_LANGUAGES.some((l) => l.code === code))
+      .map((code) => ({ code, name: getLanguageName(code) }));
+    return {
+      ...createTranslator(language, mergeCatalogs(BUILT_IN_CATALOGS, cmsCatalogs)),
+      languages: [...UI_LANGUAGES, ...extraLanguages],
+    };
+  }, [language, cmsCatalogs]);
+
+  // Lay the whole document out for the language, right to left where needed
+  useEffect(() => {
+    document.documentElement.lang = value.language;
+    document.documentElement.dir = value.dir;
+  }, [value.language, value.dir]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  return useContext(I18nContext);
+}
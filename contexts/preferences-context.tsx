@@ -9,6 +9,8 @@ interface Preferences {
   primaryColor: string;
   compactView: boolean;
   showDescriptions: boolean;
+  /** Language of the dashboard itself, independent of content locales */
+  uiLanguage: string;
 }
 
 interface PreferencesContextType {
@@ -26,6 +28,7 @@ const defaultPreferences: Preferences = {
   primaryColor: '#8b4513', // Bakalr Brown
   compactView: false,
   showDescriptions: true,
+  uiLanguage: 'en',
 };
 
 const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { mediaApi, themeApi } from '@/lib/api';
+import type { Theme } from '@/lib/api/themes';
+import { resolveMediaUrl } from '@/lib/api/client';
+import { fetchAllPages } from '@/lib/pagination';
+import { Media } from '@/types';
+
+function loadMissingAlt(): Promise<Media[]> {
+  return fetchAllPages((page, page_size) =>
+    mediaApi.getMedia({ file_type: 'image', missing_alt: true, page, page_size })
+  );
+}
+
+/**
+ * What the accessibility checks need besides the entry itself: library
+ * images without alt text and the active theme. A missing theme only skips
+ * the contrast checks, so load failures leave the defaults in place.
+ */
+export function useAccessibilityAudit() {
+  const [missingAlt, setMissingAlt] = useState<Media[]>([]);
+  const [theme, setTheme] = useState<Theme | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      loadMissingAlt().catch((err) => {
+        console.error('Failed to load images without alt text:', err);
+        return [];
+      }),
+      themeApi.getActiveTheme().catch((err) => {
+        console.error('Failed to load the active theme:', err);
+        return null;
+      }),
+    ]).then(([media, activeTheme]) => {
+      if (cancelled) return;
+      setMissingAlt(media);
+      setTheme(activeTheme);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const missingAltUrls = new Set(
+    missingAlt.flatMap((media) =>
+      [media.url, media.cdn_url, media.public_url].filter(Boolean).map((url) => resolveMediaUrl(url))
+    )
+  );
+
+  return { missingAlt, missingAltUrls, theme, loading };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { fetchAdminPageEntries } from '@/hooks/use-admin-page';
+import type { MessageCatalog } from '@/lib/i18n';
+import type { AdminMessagesContent } from '@/types/admin-page';
+import type { ContentEntry } from '@/types';
+
+function getCatalogs(entries: ContentEntry[]): Record<string, MessageCatalog> {
+  const catalogs: Record<string, MessageCatalog> = {};
+  entries.forEach((entry) => {
+    const content = entry.content_data as AdminMessagesContent | undefined;
+    if (content?.page_key !== 'admin_messages' || !content.language || !content.messages) return;
+    catalogs[content.language] = { ...catalogs[content.language], ...content.messages };
+  });
+  return catalogs;
+}
+
+/**
+ * Admin message catalogs published in the CMS, keyed by UI language.
+ *
+ * Like useAdminPage, these come from 'admin_page' entries, here with page_key
+ * 'admin_messages', so non-developers can reword the dashboard or add a
+ * language without a release. Resolves to no catalogs while disabled or when
+ * the content type does not exist.
+ *
+ * @example
+ * ```tsx
+ * const cmsCatalogs = useAdminMessages(isAuthenticated);
+ * const { t } = createTranslator('fr', mergeCatalogs(BUILT_IN_CATALOGS, cmsCatalogs));
+ * ```
+ */
+export function useAdminMessages(enabled = true): Record<string, MessageCatalog> {
+  const [catalogs, setCatalogs] = useState<Record<string, MessageCatalog>>({});
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    fetchAdminPageEntries()
+      .then((entries) => {
+        if (!cancelled) setCatalogs(getCatalogs(entries));
+      })
+      .catch((err) => {
+        console.warn('Admin messages not available from the CMS, using built-in catalogs:', err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return catalogs;
+}
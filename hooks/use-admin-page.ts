@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { contentApi } from '@/lib/api';
+import type { ContentEntry } from '@/types';
 import { 
   AdminPageContent, 
   AdminPageKey, 
@@ -361,6 +362,28 @@ const DEFAULT_CONTENT_MAP: Partial<Record<AdminPageKey, AdminPageContent>> = {
   admin_reference_data: DEFAULT_REFERENCE_DATA_PAGE_CONTENT,
 };
 
+/**
+ * Published entries of the CMS 'admin_page' content type
+ */
+export async function fetchAdminPageEntries(): Promise<ContentEntry[]> {
+  // First, get the admin_page content type ID
+  const contentTypes = await contentApi.getContentTypes();
+  const adminPageType = contentTypes.find(ct => ct.api_id === 'admin_page');
+
+  if (!adminPageType) {
+    throw new Error('admin_page content type not found');
+  }
+
+  // Fetch entries of admin_page type
+  const entries = await contentApi.getContentEntries({
+    content_type_id: adminPageType.id,
+    status: 'published',
+    page: 1,
+    per_page: 100,
+  });
+  return entries.items || [];
+}
+
 interface UseAdminPageOptions {
   locale?: string;
   fallbackToDefault?: boolean;
@@ -405,27 +428,10 @@ export function useAdminPage<K extends AdminPageKey>(
       setLoading(true);
       setError(null);
       
-      // First, get the admin_page content type ID
-      const contentTypes = await contentApi.getContentTypes();
-      const adminPageType = contentTypes.find(ct => ct.api_id === 'admin_page');
-      
-      if (!adminPageType) {
-        throw new Error('admin_page content type not found');
-      }
-      
-      // Fetch entries of admin_page type with matching page_key
-      const entries = await contentApi.getContentEntries({
-        content_type_id: adminPageType.id,
-        status: 'published',
-        page: 1,
-        per_page: 100,
-      });
+      const entries = await fetchAdminPageEntries();
       
       // Find the entry with matching page_key
-      const pageEntry = entries.items?.find(
-        (entry: { content_data?: { page_key?: string } }) => 
-          entry.content_data?.page_key === pageKey
-      );
+      const pageEntry = entries.find((entry) => entry.content_data?.page_key === pageKey);
       
       if (pageEntry?.content_data) {
         setContent(pageEntry.content_data as AdminPageContentByKey<K>);
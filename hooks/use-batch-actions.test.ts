@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useBatchActions } from './use-batch-actions';
+import { contentApi } from '@/lib/api';
+import { toast } from 'sonner';
+import { UNDO_WINDOW_MS } from '@/lib/batch-actions';
+import { createDefaultWorkflow } from '@/lib/workflow';
+import { ContentEntry, ContentType } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentType: vi.fn(),
+    publishContentEntry: vi.fn(),
+    unpublishContentEntry: vi.fn(),
+    updateContentEntry: vi.fn(),
+    scheduleContentEntry: vi.fn(),
+    deleteContentEntry: vi.fn(),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+  },
+}));
+
+const entry = (id: string, status: ContentEntry['status'] = 'draft'): ContentEntry => ({
+  id,
+  content_type_id: 'type-1',
+  slug: id,
+  status,
+  author_id: 'user-1',
+  data: { title: `Entry ${id}` },
+});
+
+const getTitle = (e: ContentEntry) => String(e.data?.title);
+
+const contentType = (overrides: Partial<ContentType> = {}) =>
+  ({ id: 'type-1', name: 'Article', api_id: 'article', fields: [], ...overrides }) as ContentType;
+
+describe('useBatchActions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(contentApi.getContentType).mockResolvedValue(contentType());
+    vi.mocked(contentApi.publishContentEntry).mockResolvedValue({} as ContentEntry);
+    vi.mocked(contentApi.unpublishContentEntry).mockResolvedValue({} as ContentEntry);
+    vi.mocked(contentApi.updateContentEntry).mockResolvedValue({} as ContentEntry);
+    vi.mocked(contentApi.scheduleContentEntry).mockResolvedValue({} as ContentEntry);
+    vi.mocked(contentApi.deleteContentEntry).mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report partial failures', async () => {
+    vi.mocked(contentApi.publishContentEntry)
+      .mockResolvedValueOnce({} as ContentEntry)
+      .mockRejectedValueOnce(Object.assign(new Error('Request failed'), { response: { data: { detail: 'Locked' } } }));
+    const onChanged = vi.fn();
+    const { result } = renderHook(() => useBatchActions({ getTitle, onChanged }));
+
+    await act(() => result.current.run('publish', [entry('a'), entry('b')]));
+
+    expect(result.current.state).toMatchObject({ phase: 'done', succeeded: 1 });
+    expect(result.current.state.failures).toEqual([{ entry_id: 'b', title: 'Entry b', error: 'Locked' }]);
+    expect(result.current.state.undoUntil).not.toBeNull();
+    expect(onChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not publish entries whose content type uses a review workflow', async () => {
+    vi.mocked(contentApi.getContentType).mockResolvedValue(contentType({ workflow: createDefaultWorkflow() }));
+    const { result } = renderHook(() => useBatchActions({ getTitle, onChanged: vi.fn() }));
+
+    await act(() => result.current.run('publish', [entry('a'), entry('b')]));
+
+    expect(contentApi.getContentType).toHaveBeenCalledTimes(1);
+    expect(contentApi.publishContentEntry).not.toHaveBeenCalled();
+    expect(result.current.state).toMatchObject({ phase: 'done', succeeded: 0 });
+    expect(result.current.state.failures.map((f) => f.error)).toEqual([
+      'Needs review: publish it through the review workflow',
+      'Needs review: publish it through the review workflow',
+    ]);
+  });
+
+  it('should not publish entries that fail validation', async () => {
+    vi.mocked(contentApi.getContentType).mockResolvedValue(
+      contentType({ fields: [{ name: 'summary', label: 'Summary', type: 'text', required: true }] })
+    );
+    const { result } = renderHook(() => useBatchActions({ getTitle, onChanged: vi.fn() }));
+
+    await act(() => result.current.run('publish', [entry('a'), { ...entry('b'), data: { title: 'Entry b', summary: 'Hi' } }]));
+
+    expect(contentApi.publishContentEntry).toHaveBeenCalledTimes(1);
+    expect(contentApi.publishContentEntry).toHaveBeenCalledWith('b');
+    expect(result.current.state.failures).toEqual([
+      { entry_id: 'a', title: 'Entry a', error: 'Fix before publishing: Summary is required' },
+    ]);
+  });
+
+  it('should restore the previous status on undo', async () => {
+    const { result } = renderHook(() => useBatchActions({ getTitle, onChanged: vi.fn() }));
+
+    await act(() => result.current.run('archive', [entry('a', 'draft'), entry('b', 'published')]));
+    await act(() => result.current.undo());
+
+    expect(contentApi.updateContentEntry).toHaveBeenCalledWith('a', { status: 'draft' });
+    expect(contentApi.publishContentEntry).toHaveBeenCalledWith('b');
+    expect(result.current.state).toMatchObject({ phase: 'undone', succeeded: 2 });
+  });
+
+  it('should undo a publish through the unpublish endpoint and restore schedules', async () => {
+    const scheduled = {
+      ...entry('b', 'scheduled'),
+      publish_at: '2099-03-01T05:00:00Z',
+      unpublish_at: '2099-03-08T05:00:00Z',
+    };
+    const { result } = renderHook(() => useBatchActions({ getTitle, onChanged: vi.fn() }));
+
+    await act(() => result.current.run('publish', [entry('a', 'draft'), scheduled]));
+    await act(() => result.current.undo());
+
+    expect(contentApi.unpublishContentEntry).toHaveBeenCalledWith('a');
+    expect(contentApi.unpublishContentEntry).toHaveBeenCalledWith('b');
+    expect(contentApi.scheduleContentEntry).toHaveBeenCalledWith('b', {
+      publish_at: '2099-03-01T05:00:00Z',
+      unpublish_at: '2099-03-08T05:00:00Z',
+    });
+    expect(contentApi.updateContentEntry).not.toHaveBeenCalled();
+    expect(result.current.state).toMatchObject({ phase: 'undone', succeeded: 2 });
+  });
+
+  it('should hold deletes back until the undo window passes', async () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => useBatchActions({ getTitle, onChanged: vi.fn() }));
+
+    await act(() => result.current.run('delete', [entry('a')]));
+    expect(result.current.pendingDeleteIds).toEqual(['a']);
+    expect(contentApi.deleteContentEntry).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(UNDO_WINDOW_MS);
+    });
+
+    expect(contentApi.deleteContentEntry).toHaveBeenCalledWith('a');
+    expect(result.current.pendingDeleteIds).toEqual([]);
+    expect(result.current.state).toMatchObject({ action: 'delete', phase: 'done', succeeded: 1 });
+  });
+
+  it('should cancel a pending delete on undo', async () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() => useBatchActions({ getTitle, onChanged: vi.fn() }));
+
+    await act(() => result.current.run('delete', [entry('a')]));
+    await act(() => result.current.undo());
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(UNDO_WINDOW_MS);
+    });
+
+    expect(contentApi.deleteContentEntry).not.toHaveBeenCalled();
+    expect(result.current.pendingDeleteIds).toEqual([]);
+    expect(result.current.state.phase).toBe('undone');
+  });
+
+  it('should report pending deletes that fail after leaving the page', async () => {
+    vi.mocked(contentApi.deleteContentEntry).mockRejectedValue(new Error('Locked'));
+    const { result, unmount } = renderHook(() => useBatchActions({ getTitle, onChanged: vi.fn() }));
+
+    await act(() => result.current.run('delete', [entry('a')]));
+    unmount();
+
+    await vi.waitFor(() => expect(toast.error).toHaveBeenCalledWith('Failed to delete an entry: Locked'));
+    expect(contentApi.deleteContentEntry).toHaveBeenCalledWith('a');
+  });
+});
@@ -0,0 +1,290 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { contentApi } from '@/lib/api';
+import type { ContentTemplate } from '@/lib/api/templates';
+import {
+  applyTemplateDefaults,
+  BatchAction,
+  BatchFailure,
+  getPublishBlocker,
+  runInBatches,
+  UNDO_WINDOW_MS,
+} from '@/lib/batch-actions';
+import { ContentEntry, ContentStatus, ContentType } from '@/types';
+
+export interface BatchActionOptions {
+  authorId?: string;
+  template?: ContentTemplate;
+}
+
+export interface BatchState {
+  action: BatchAction | null;
+  /** scheduled: a delete waiting for its undo window to pass */
+  phase: 'idle' | 'scheduled' | 'running' | 'done' | 'undoing' | 'undone';
+  done: number;
+  total: number;
+  succeeded: number;
+  failures: BatchFailure[];
+  /** Timestamp until which the batch can be undone */
+  undoUntil: number | null;
+}
+
+interface Snapshot {
+  id: string;
+  title: string;
+  status: ContentStatus;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+  author_id?: string;
+  data: Record<string, unknown>;
+}
+
+const IDLE: BatchState = { action: null, phase: 'idle', done: 0, total: 0, succeeded: 0, failures: [], undoUntil: null };
+
+function getErrorMessage(err: unknown): string {
+  const error = err as Error & { response?: { data?: { detail?: string } } };
+  return error.response?.data?.detail || error.message;
+}
+
+async function perform(
+  entry: ContentEntry,
+  action: BatchAction,
+  options: BatchActionOptions,
+  contentTypes: Map<string, Promise<ContentType>>
+) {
+  switch (action) {
+    case 'publish': {
+      const contentType = await contentTypes.get(entry.content_type_id);
+      const blocker = contentType && getPublishBlocker(contentType, entry.data || entry.content_data || {});
+      if (blocker) throw new Error(blocker);
+      await contentApi.publishContentEntry(entry.id);
+      return;
+    }
+    case 'unpublish':
+      await contentApi.unpublishContentEntry(entry.id);
+      return;
+    case 'archive':
+      await contentApi.updateContentEntry(entry.id, { status: 'archived' });
+      return;
+    case 'delete':
+      await contentApi.deleteContentEntry(entry.id);
+      return;
+    case 'change_author':
+      await contentApi.updateContentEntry(entry.id, { author_id: options.authorId });
+      return;
+    case 'apply_template': {
+      const template = options.template;
+      if (!template || template.content_type_id !== entry.content_type_id) {
+        throw new Error('The template belongs to a different content type');
+      }
+      await contentApi.updateContentEntry(entry.id, {
+        data: applyTemplateDefaults(entry.data || entry.content_data || {}, template.field_defaults),
+      });
+      return;
+    }
+  }
+}
+
+async function revert(snapshot: Snapshot, action: BatchAction) {
+  switch (action) {
+    case 'change_author':
+      // Search results do not carry the author
+      if (!snapshot.author_id) throw new Error('The previous author is unknown');
+      await contentApi.updateContentEntry(snapshot.id, { author_id: snapshot.author_id });
+      return;
+    case 'apply_template':
+      await contentApi.updateContentEntry(snapshot.id, { data: snapshot.data });
+      return;
+    default:
+      await restoreStatus(snapshot, action);
+  }
+}
+
+/**
+ * Put an entry back in its earlier status through the same endpoints the
+ * editor uses, so publish and schedule side effects are reverted too.
+ */
+async function restoreStatus(snapshot: Snapshot, action: BatchAction) {
+  if (action === 'publish') {
+    if (snapshot.status === 'published') return;
+    // Unpublishing returns the entry to draft
+    await contentApi.unpublishContentEntry(snapshot.id);
+    if (snapshot.status === 'draft') return;
+  }
+
+  const schedule = { publish_at: snapshot.publish_at ?? null, unpublish_at: snapshot.unpublish_at ?? null };
+  if (snapshot.status === 'scheduled') {
+    await contentApi.scheduleContentEntry(snapshot.id, schedule);
+  } else if (snapshot.status === 'published') {
+    await contentApi.publishContentEntry(snapshot.id);
+    if (schedule.unpublish_at) await contentApi.scheduleContentEntry(snapshot.id, schedule);
+  } else {
+    await contentApi.updateContentEntry(snapshot.id, { status: snapshot.status });
+  }
+}
+
+/**
+ * Run publish, unpublish, archive, delete, reassign and template actions over
+ * many entries with progress and an undo window. Deletes are held back until
+ * the undo window has passed, so undoing one never has to recreate entries.
+ */
+export function useBatchActions({
+  getTitle,
+  onChanged,
+}: {
+  getTitle: (entry: ContentEntry) => string;
+  /** Called whenever entries were changed on the server */
+  onChanged: () => void;
+}) {
+  const [state, setState] = useState<BatchState>(IDLE);
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<string[]>([]);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingDeleteRef = useRef<ContentEntry[]>([]);
+  const snapshotsRef = useRef<Snapshot[]>([]);
+
+  // Leaving the page ends the undo window, so carry out a pending delete.
+  // The progress panel is gone by then, so failures are reported in a toast.
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      const entries = pendingDeleteRef.current;
+      if (entries.length === 0) return;
+      runInBatches(entries, (entry) => contentApi.deleteContentEntry(entry.id)).then((results) => {
+        if (results.length === 0) return;
+        results.forEach(({ item, error }) => console.error(`Failed to delete entry ${item.id}:`, error));
+        toast.error(
+          results.length === 1
+            ? `Failed to delete an entry: ${getErrorMessage(results[0].error)}`
+            : `Failed to delete ${results.length} of ${entries.length} entries`
+        );
+      });
+    };
+  }, []);
+
+  const toFailures = (results: { item: { id: string }; error: unknown }[], entries: ContentEntry[]) =>
+    results.map(({ item, error }) => {
+      const entry = entries.find((e) => e.id === item.id);
+      return { entry_id: item.id, title: entry ? getTitle(entry) : item.id, error: getErrorMessage(error) };
+    });
+
+  const closeUndoWindow = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      setState((prev) => ({ ...prev, undoUntil: null }));
+    }, UNDO_WINDOW_MS);
+  };
+
+  const execute = async (action: BatchAction, entries: ContentEntry[], options: BatchActionOptions) => {
+    setState({ ...IDLE, action, phase: 'running', total: entries.length });
+    // Publishing checks each entry against its content type, loaded once per type
+    const contentTypes = new Map<string, Promise<ContentType>>();
+    if (action === 'publish') {
+      entries.forEach((entry) => {
+        if (!contentTypes.has(entry.content_type_id)) {
+          const contentType = contentApi.getContentType(entry.content_type_id);
+          contentType.catch(() => {}); // Reported per entry when awaited
+          contentTypes.set(entry.content_type_id, contentType);
+        }
+      });
+    }
+    const results = await runInBatches(
+      entries,
+      (entry) => perform(entry, action, options, contentTypes),
+      (done) => setState((prev) => ({ ...prev, done }))
+    );
+    const failedIds = results.map((r) => r.item.id);
+    snapshotsRef.current = entries
+      .filter((entry) => !failedIds.includes(entry.id))
+      .map((entry) => ({
+        id: entry.id,
+        title: getTitle(entry),
+        status: entry.status,
+        publish_at: entry.publish_at,
+        unpublish_at: entry.unpublish_at,
+        author_id: entry.author_id,
+        data: entry.data || entry.content_data || {},
+      }));
+
+    const canUndo = action !== 'delete' && snapshotsRef.current.length > 0;
+    setState({
+      action,
+      phase: 'done',
+      done: entries.length,
+      total: entries.length,
+      succeeded: entries.length - results.length,
+      failures: toFailures(results, entries),
+      undoUntil: canUndo ? Date.now() + UNDO_WINDOW_MS : null,
+    });
+    if (canUndo) closeUndoWindow();
+    onChanged();
+  };
+
+  const runDelete = async () => {
+    const entries = pendingDeleteRef.current;
+    pendingDeleteRef.current = [];
+    await execute('delete', entries, {});
+    setPendingDeleteIds([]);
+  };
+
+  const run = async (action: BatchAction, entries: ContentEntry[], options: BatchActionOptions = {}) => {
+    if (entries.length === 0 || state.phase === 'running' || state.phase === 'undoing') return;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    if (pendingDeleteRef.current.length > 0) await runDelete();
+
+    if (action === 'delete') {
+      pendingDeleteRef.current = entries;
+      setPendingDeleteIds(entries.map((entry) => entry.id));
+      setState({ ...IDLE, action, phase: 'scheduled', total: entries.length, undoUntil: Date.now() + UNDO_WINDOW_MS });
+      timerRef.current = setTimeout(runDelete, UNDO_WINDOW_MS);
+      return;
+    }
+
+    await execute(action, entries, options);
+  };
+
+  const undo = async () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    if (state.phase === 'scheduled') {
+      pendingDeleteRef.current = [];
+      setPendingDeleteIds([]);
+      setState((prev) => ({ ...prev, phase: 'undone', succeeded: 0, undoUntil: null }));
+      return;
+    }
+    if (!state.action || !state.undoUntil) return;
+
+    const action = state.action;
+    const snapshots = snapshotsRef.current;
+    setState((prev) => ({ ...prev, phase: 'undoing', done: 0, total: snapshots.length, undoUntil: null }));
+    const results = await runInBatches(
+      snapshots,
+      (snapshot) => revert(snapshot, action),
+      (done) => setState((prev) => ({ ...prev, done }))
+    );
+    setState((prev) => ({
+      ...prev,
+      phase: 'undone',
+      done: snapshots.length,
+      succeeded: snapshots.length - results.length,
+      failures: results.map(({ item, error }) => ({
+        entry_id: item.id,
+        title: item.title,
+        error: getErrorMessage(error),
+      })),
+    }));
+    onChanged();
+  };
+
+  const dismiss = () => {
+    if (state.phase === 'scheduled') {
+      // Dismissing a pending delete confirms it
+      runDelete();
+      return;
+    }
+    if (timerRef.current) clearTimeout(timerRef.current);
+    setState(IDLE);
+  };
+
+  return { state, run, undo, dismiss, pendingDeleteIds };
+}
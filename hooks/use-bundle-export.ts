@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { contentApi, mediaApi, templateApi, translationApi } from '@/lib/api';
+import type { ContentTemplate } from '@/lib/api/templates';
+import { collectMediaUrls, createBundle, getMediaUrl } from '@/lib/content-bundle';
+import { fetchAllPages } from '@/lib/pagination';
+import { ContentEntry, ContentType, Media } from '@/types';
+
+const PAGE_SIZE = 100;
+const BATCH_SIZE = 10;
+
+interface BundleExportOptions {
+  /** Only export entries with this status */
+  status?: string;
+  /** Used for the downloaded file name */
+  name?: string;
+}
+
+function loadEntries(contentTypeId: string, status?: string): Promise<ContentEntry[]> {
+  return fetchAllPages((page, per_page) =>
+    contentApi.getContentEntries({ content_type_id: contentTypeId, status, page, per_page })
+  );
+}
+
+async function loadTranslations(entries: ContentEntry[]) {
+  const locales = await translationApi.getLocales();
+  const codes: Record<string, string> = {};
+  locales.forEach((locale) => {
+    codes[locale.id] = locale.code;
+  });
+
+  const translations: Record<string, Record<string, Record<string, unknown>>> = {};
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    await Promise.all(
+      entries.slice(i, i + BATCH_SIZE).map(async (entry) => {
+        try {
+          const items = await translationApi.getContentTranslations(entry.id);
+          items.forEach((item) => {
+            const code = item.locale?.code || codes[item.locale_id];
+            if (!code) return;
+            translations[entry.id] = { ...translations[entry.id], [code]: item.translated_data };
+          });
+        } catch (err) {
+          // Entries without translations are exported without them
+          console.error('Failed to load translations:', err);
+        }
+      })
+    );
+  }
+  return translations;
+}
+
+async function loadMedia(urls: string[]): Promise<Media[]> {
+  if (urls.length === 0) return [];
+  const wanted = new Set(urls);
+  const isWanted = (item: Media) => wanted.has(getMediaUrl(item));
+  const items = await fetchAllPages((page, page_size) => mediaApi.getMedia({ page, page_size }), {
+    until: (loaded) => loaded.filter(isWanted).length === wanted.size,
+  });
+  return items.filter(isWanted);
+}
+
+async function loadTemplates(contentTypeIds: string[]): Promise<ContentTemplate[]> {
+  const responses = await Promise.all(
+    contentTypeIds.map((id) => templateApi.listTemplates({ content_type_id: id, page_size: PAGE_SIZE }))
+  );
+  return responses.flatMap((response) => response.templates);
+}
+
+/**
+ * Export content types, with their entries, translations, referenced media
+ * and templates, as a downloadable bundle file.
+ */
+export function useBundleExport() {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportBundle = async (contentTypes: ContentType[], options: BundleExportOptions = {}) => {
+    if (contentTypes.length === 0) return;
+    setIsExporting(true);
+    try {
+      const entries = (
+        await Promise.all(contentTypes.map((type) => loadEntries(type.id, options.status)))
+      ).flat();
+      const [translations, media, templates] = await Promise.all([
+        loadTranslations(entries),
+        loadMedia(collectMediaUrls(contentTypes, entries)),
+        loadTemplates(contentTypes.map((type) => type.id)),
+      ]);
+
+      const bundle = createBundle({ contentTypes, entries, translations, media, templates });
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      const name = (options.name || 'content').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      a.download = `${name}-bundle-${new Date().toISOString().split('T')[0]}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      toast.success(
+        `Exported ${contentTypes.length} content ${contentTypes.length === 1 ? 'type' : 'types'} and ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`
+      );
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error('Failed to export content: ' + (error.response?.data?.detail || error.message));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return { exportBundle, isExporting };
+}
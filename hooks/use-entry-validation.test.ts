@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useEntryValidation } from './use-entry-validation';
+import { contentApi } from '@/lib/api';
+import { ContentEntry, ContentTypeField } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  contentApi: {
+    getContentEntries: vi.fn(),
+  },
+}));
+
+const fields: ContentTypeField[] = [{ name: 'sku', label: 'SKU', type: 'text', unique: true }];
+
+const entry = (id: string, sku: string): ContentEntry => ({
+  id,
+  content_type_id: 'type-1',
+  slug: id,
+  status: 'draft',
+  data: { sku },
+});
+
+describe('useEntryValidation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should check unique fields against every page of entries', async () => {
+    const firstPage = Array.from({ length: 100 }, (_, i) => entry(`entry-${i}`, `SKU-${i}`));
+    vi.mocked(contentApi.getContentEntries)
+      .mockResolvedValueOnce({ items: firstPage, pages: 2 })
+      .mockResolvedValueOnce({ items: [entry('entry-100', 'HAT-1')], pages: 2 });
+    const { result } = renderHook(() =>
+      useEntryValidation({ fields, data: { sku: 'hat-1' }, contentTypeId: 'type-1', entryId: 'entry-new' })
+    );
+
+    let valid = true;
+    await act(async () => {
+      valid = await result.current.validateAll();
+    });
+
+    expect(valid).toBe(false);
+    expect(result.current.errors).toEqual({ sku: 'SKU must be unique' });
+    expect(contentApi.getContentEntries).toHaveBeenCalledTimes(2);
+    expect(contentApi.getContentEntries).toHaveBeenLastCalledWith({ content_type_id: 'type-1', page: 2, per_page: 100 });
+  });
+
+  it('should not count the entry being edited as a duplicate', async () => {
+    vi.mocked(contentApi.getContentEntries).mockResolvedValue({ items: [entry('entry-1', 'HAT-1')], pages: 1 });
+    const { result } = renderHook(() =>
+      useEntryValidation({ fields, data: { sku: 'HAT-1' }, contentTypeId: 'type-1', entryId: 'entry-1' })
+    );
+
+    let valid = false;
+    await act(async () => {
+      valid = await result.current.validateAll();
+    });
+
+    expect(valid).toBe(true);
+    expect(result.current.errors).toEqual({});
+  });
+});
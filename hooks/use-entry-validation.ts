@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { contentApi } from '@/lib/api';
+import { compileSchema, findUniqueConflicts, ValidationErrors } from '@/lib/validation';
+import { getActiveFields } from '@/lib/conditions';
+import { fetchAllPages } from '@/lib/pagination';
+import { ContentEntry, ContentTypeField } from '@/types';
+
+interface EntryValidationOptions {
+  fields: ContentTypeField[];
+  data: Record<string, unknown>;
+  contentTypeId?: string | null;
+  /** Entry being edited, excluded from the unique check */
+  entryId?: string | null;
+}
+
+function loadEntries(contentTypeId: string): Promise<ContentEntry[]> {
+  return fetchAllPages((page, per_page) =>
+    contentApi.getContentEntries({ content_type_id: contentTypeId, page, per_page })
+  );
+}
+
+/**
+ * Validate entry data against its content type while the user edits.
+ * Errors show up for a field once it has been changed, and for every field
+ * after `validateAll` runs (e.g. when publishing). Fields hidden by their
+ * visibility rules are skipped.
+ */
+export function useEntryValidation({ fields, data, contentTypeId, entryId }: EntryValidationOptions) {
+  const [touched, setTouched] = useState<Set<string>>(new Set());
+  const [showAll, setShowAll] = useState(false);
+  const [uniqueErrors, setUniqueErrors] = useState<ValidationErrors>({});
+
+  const activeFields = getActiveFields(fields, data);
+  const schema = compileSchema(activeFields);
+  const allErrors: ValidationErrors = { ...uniqueErrors, ...schema.validate(data) };
+
+  const errors: ValidationErrors = {};
+  Object.entries(allErrors).forEach(([name, message]) => {
+    if (showAll || touched.has(name)) errors[name] = message;
+  });
+
+  const touch = (name: string) => {
+    if (!touched.has(name)) {
+      setTouched((prev) => new Set(prev).add(name));
+    }
+    if (uniqueErrors[name]) {
+      setUniqueErrors((prev) => {
+        const next = { ...prev };
+        delete next[name];
+        return next;
+      });
+    }
+  };
+
+  const checkUnique = async (): Promise<ValidationErrors> => {
+    if (schema.uniqueFields.length === 0 || !contentTypeId) return {};
+    try {
+      const entries = await loadEntries(contentTypeId);
+      const others = entries
+        .filter((item) => item.id !== entryId)
+        .map((item) => item.data || item.content_data || {});
+      return findUniqueConflicts(activeFields, data, others);
+    } catch (err) {
+      // The API enforces uniqueness too, so a failed lookup should not block the user
+      console.error('Failed to check unique fields:', err);
+      return {};
+    }
+  };
+
+  /**
+   * Run every validator, including the unique check, and reveal all errors.
+   * Resolves to true when the entry is valid.
+   */
+  const validateAll = async (): Promise<boolean> => {
+    const conflicts = await checkUnique();
+    setUniqueErrors(conflicts);
+    setShowAll(true);
+    return Object.keys({ ...conflicts, ...schema.validate(data) }).length === 0;
+  };
+
+  const reset = () => {
+    setTouched(new Set());
+    setShowAll(false);
+    setUniqueErrors({});
+  };
+
+  return { errors, errorCount: Object.keys(allErrors).length, touch, validateAll, reset };
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { mediaApi } from '@/lib/api';
+import { MediaFolder, MediaTag } from '@/types';
+
+/**
+ * Folders and tags for the media library sidebar. Call reload after changing
+ * folders or moving and tagging media so counts stay current. Nothing loads
+ * while disabled, e.g. while the media picker is closed.
+ */
+export function useMediaFolders(enabled = true) {
+  const [folders, setFolders] = useState<MediaFolder[]>([]);
+  const [tags, setTags] = useState<MediaTag[]>([]);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    mediaApi
+      .getFolders()
+      .then((data) => {
+        if (!cancelled) setFolders(Array.isArray(data) ? data : []);
+      })
+      .catch((err) => console.error('Failed to load media folders:', err));
+    mediaApi
+      .getTags()
+      .then((data) => {
+        if (!cancelled) setTags(Array.isArray(data) ? data : []);
+      })
+      .catch((err) => console.error('Failed to load media tags:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, version]);
+
+  const reload = () => setVersion((v) => v + 1);
+
+  return { folders, tags, reload };
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { RefObject, useEffect } from 'react';
+import { mediaApi } from '@/lib/api';
+import { applyVideoSources } from '@/lib/media-playback';
+import { Media, MediaCaption } from '@/types';
+
+// Shared so a video shown in several previews is only fetched once per page load
+const videoRequests = new Map<string, Promise<{ media: Media; captions: MediaCaption[] }>>();
+
+/**
+ * The media item and caption tracks behind a video stored in rich text.
+ */
+export function loadVideoMedia(mediaId: string): Promise<{ media: Media; captions: MediaCaption[] }> {
+  let request = videoRequests.get(mediaId);
+  if (!request) {
+    request = Promise.all([mediaApi.getMediaItem(mediaId), mediaApi.getCaptions(mediaId)])
+      .then(([media, captions]) => ({ media, captions }))
+      .catch((err) => {
+        videoRequests.delete(mediaId);
+        throw err;
+      });
+    videoRequests.set(mediaId, request);
+  }
+  return request;
+}
+
+/**
+ * Fill in the source, poster and captions of every media library video
+ * rendered inside container. Pass the rendered HTML so videos are resolved
+ * again when it changes.
+ */
+export function useMediaVideos(container: RefObject<HTMLElement | null>, html: string) {
+  useEffect(() => {
+    const videos = container.current?.querySelectorAll<HTMLVideoElement>('video[data-media-id]') ?? [];
+    let cancelled = false;
+
+    videos.forEach((video) => {
+      const mediaId = video.getAttribute('data-media-id');
+      if (!mediaId) return;
+      loadVideoMedia(mediaId)
+        .then(({ media, captions }) => {
+          if (!cancelled) applyVideoSources(video, media, captions);
+        })
+        .catch((err) => console.error('Failed to load video:', err));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [container, html]);
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { organizationApi } from '@/lib/api';
+import { getBrowserTimezone, isValidTimezone } from '@/lib/timezone';
+
+// Shared across components so the profile is only fetched once per page load
+let timezonePromise: Promise<string> | null = null;
+
+function fetchOrgTimezone(): Promise<string> {
+  if (!timezonePromise) {
+    timezonePromise = Promise.resolve()
+      .then(() => organizationApi.getProfile())
+      .then((profile) => (isValidTimezone(profile.timezone) ? profile.timezone : getBrowserTimezone()))
+      .catch((err) => {
+        console.error('Failed to load organization timezone:', err);
+        timezonePromise = null;
+        return getBrowserTimezone();
+      });
+  }
+  return timezonePromise;
+}
+
+/**
+ * Clear the cached timezone, e.g. after the organization profile is saved.
+ */
+export function resetOrgTimezone() {
+  timezonePromise = null;
+}
+
+/**
+ * The organization's configured timezone, falling back to the browser's
+ * timezone until it loads or when none is set.
+ */
+export function useOrgTimezone(): { timezone: string; isLoading: boolean } {
+  const [timezone, setTimezone] = useState(getBrowserTimezone);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchOrgTimezone().then((tz) => {
+      if (!cancelled) {
+        setTimezone(tz);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { timezone, isLoading };
+}
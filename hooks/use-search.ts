@@ -5,6 +5,8 @@ import { searchApi, SearchResponse, SearchResult } from '@/lib/api/search';
 
 interface UseSearchOptions {
   contentTypeId?: string;
+  /** Search several content types, one request each, and merge the results */
+  contentTypeIds?: string[];
   status?: string;
   limit?: number;
   debounceMs?: number;
@@ -22,8 +24,22 @@ interface UseSearchReturn {
   clearSearch: () => void;
 }
 
+function mergeSearchResponses(responses: SearchResponse[]): SearchResponse {
+  const results = responses
+    .flatMap((response) => response.results)
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  return {
+    results,
+    total: responses.reduce((sum, response) => sum + response.total, 0),
+    query: responses[0].query,
+    processing_time_ms: Math.max(...responses.map((response) => response.processing_time_ms)),
+  };
+}
+
 export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
-  const { contentTypeId, status, limit = 50, debounceMs = 500, minQueryLength = 2 } = options;
+  const { contentTypeId, contentTypeIds, status, limit = 50, debounceMs = 500, minQueryLength = 2 } = options;
+  // Joined so a new array with the same types doesn't restart the search
+  const contentTypeKey = contentTypeIds?.join(',') || '';
   
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
@@ -57,12 +73,18 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
     setError(null);
     
     try {
-      const response = await searchApi.search({
-        q: trimmed,
-        content_type_id: contentTypeId,
-        status,
-        limit,
-      });
+      const typeIds = contentTypeKey ? contentTypeKey.split(',') : [contentTypeId];
+      const responses = await Promise.all(
+        typeIds.map((typeId) =>
+          searchApi.search({
+            q: trimmed,
+            content_type_id: typeId,
+            status,
+            limit,
+          })
+        )
+      );
+      const response = responses.length === 1 ? responses[0] : mergeSearchResponses(responses);
       
       // Only update if this is still the current query
       if (queryRef.current.trim() === trimmed) {
@@ -81,7 +103,7 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
         setIsSearching(false);
       }
     }
-  }, [contentTypeId, status, limit]);
+  }, [contentTypeId, contentTypeKey, status, limit]);
   
   // Debounced search effect
   useEffect(() => {
@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { translationApi } from '@/lib/api';
+import {
+  TRANSLATION_FILE_FORMATS,
+  TranslationFileFormat,
+  createTranslationUnits,
+  serializeTranslationDocument,
+} from '@/lib/translation-files';
+import { getTranslationLocaleCode } from '@/lib/translation-status';
+import { ContentEntry, ContentType, Locale, Translation } from '@/types';
+
+const BATCH_SIZE = 10;
+
+interface TranslationExportOptions {
+  format: TranslationFileFormat;
+  sourceLocale: Locale;
+  targetLocale: Locale;
+  /** All locales, to match translations to the target locale */
+  locales: Locale[];
+  contentTypes: ContentType[];
+  /** Used for the downloaded file name */
+  name?: string;
+}
+
+async function loadTargetTranslations(entries: ContentEntry[], targetLocale: Locale, locales: Locale[]) {
+  const translations: Record<string, Translation> = {};
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    await Promise.all(
+      entries.slice(i, i + BATCH_SIZE).map(async (entry) => {
+        try {
+          const items = await translationApi.getContentTranslations(entry.id);
+          const match = items.find((item) => getTranslationLocaleCode(item, locales) === targetLocale.code);
+          if (match) translations[entry.id] = match;
+        } catch (err) {
+          // Entries are exported without their existing translation
+          console.error('Failed to load translations:', err);
+        }
+      })
+    );
+  }
+  return translations;
+}
+
+/**
+ * Export the localized text fields of entries as an XLIFF or PO file for
+ * translators, with any existing translation into the target locale.
+ */
+export function useTranslationExport() {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportTranslations = async (entries: ContentEntry[], options: TranslationExportOptions) => {
+    setIsExporting(true);
+    try {
+      const translations = await loadTargetTranslations(entries, options.targetLocale, options.locales);
+      const units = createTranslationUnits(
+        entries.map((entry) => {
+          const type = options.contentTypes.find((t) => t.id === entry.content_type_id) || entry.content_type;
+          return { entry, fields: type?.fields || [], typeName: type?.name, translation: translations[entry.id] };
+        })
+      );
+      if (units.length === 0) {
+        toast.error('None of these entries have localized text to translate');
+        return false;
+      }
+
+      const { extension, mimeType } = TRANSLATION_FILE_FORMATS[options.format];
+      const text = serializeTranslationDocument(
+        { sourceLocale: options.sourceLocale.code, targetLocale: options.targetLocale.code, units },
+        options.format
+      );
+      const blob = new Blob([text], { type: mimeType });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      const name = (options.name || 'content').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      a.download = `${name}-${options.sourceLocale.code}-${options.targetLocale.code}.${extension}`;
+      a.click();
+      URL.revokeObjectURL(url);
+
+      const entryCount = new Set(units.map((unit) => unit.entryId)).size;
+      toast.success(
+        `Exported ${units.length} ${units.length === 1 ? 'field' : 'fields'} from ${entryCount} ${entryCount === 1 ? 'entry' : 'entries'}`
+      );
+      return true;
+    } catch (err) {
+      const error = err as Error & { response?: { data?: { detail?: string } } };
+      toast.error('Failed to export translations: ' + (error.response?.data?.detail || error.message));
+      return false;
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return { exportTranslations, isExporting };
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useUploadQueue } from './use-upload-queue';
+import { mediaApi } from '@/lib/api';
+import { CHUNK_SIZE } from '@/lib/upload-queue';
+import { Media } from '@/types';
+
+vi.mock('@/lib/api', () => ({
+  mediaApi: {
+    uploadMedia: vi.fn(),
+    createUploadSession: vi.fn(),
+    getUploadSession: vi.fn(),
+    uploadChunk: vi.fn(),
+    completeUploadSession: vi.fn(),
+    abortUploadSession: vi.fn(),
+  },
+}));
+
+const media = (id: string) => ({ id, filename: `${id}.jpg` }) as Media;
+
+const largeFile = () => new File([new Uint8Array(CHUNK_SIZE * 2 + 10)], 'video.mp4', { type: 'video/mp4' });
+
+describe('useUploadQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(mediaApi.createUploadSession).mockResolvedValue({ upload_id: 'up-1', chunk_size: CHUNK_SIZE, received_chunks: [] });
+    vi.mocked(mediaApi.uploadChunk).mockResolvedValue(undefined);
+    vi.mocked(mediaApi.completeUploadSession).mockResolvedValue(media('big'));
+    vi.mocked(mediaApi.abortUploadSession).mockResolvedValue(undefined);
+  });
+
+  it('should upload small files in one request and report each result', async () => {
+    vi.mocked(mediaApi.uploadMedia).mockImplementation(async (formData) => media((formData.get('file') as File).name));
+    const onUploaded = vi.fn();
+    const { result } = renderHook(() => useUploadQueue({ onUploaded }));
+
+    act(() => result.current.addFiles([new File(['a'], 'a'), new File(['b'], 'b')]));
+
+    await waitFor(() => expect(result.current.items.every((item) => item.status === 'done')).toBe(true));
+    expect(onUploaded).toHaveBeenCalledTimes(2);
+    expect(result.current.isUploading).toBe(false);
+  });
+
+  it('should limit the number of parallel uploads', async () => {
+    vi.mocked(mediaApi.uploadMedia).mockReturnValue(new Promise(() => {}));
+    const { result } = renderHook(() => useUploadQueue({ concurrency: 2 }));
+
+    act(() => result.current.addFiles(['a', 'b', 'c'].map((name) => new File([name], name))));
+
+    expect(result.current.items.map((item) => item.status)).toEqual(['uploading', 'uploading', 'queued']);
+    expect(mediaApi.uploadMedia).toHaveBeenCalledTimes(2);
+  });
+
+  it('should upload large files in chunks', async () => {
+    const { result } = renderHook(() => useUploadQueue());
+
+    act(() => result.current.addFiles([largeFile()]));
+
+    await waitFor(() => expect(result.current.items[0].status).toBe('done'));
+    expect(mediaApi.createUploadSession).toHaveBeenCalledWith(
+      expect.objectContaining({ filename: 'video.mp4', file_size: CHUNK_SIZE * 2 + 10 })
+    );
+    expect(vi.mocked(mediaApi.uploadChunk).mock.calls.map(([, index]) => index)).toEqual([0, 1, 2]);
+    expect(mediaApi.completeUploadSession).toHaveBeenCalledWith('up-1');
+  });
+
+  it('should resume a paused upload from the chunks the server has', async () => {
+    // The first chunk hangs until the pause aborts it
+    vi.mocked(mediaApi.uploadChunk).mockImplementationOnce(
+      (_id, _index, _blob, options) =>
+        new Promise((_, reject) => {
+          options?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })
+    );
+    const { result } = renderHook(() => useUploadQueue());
+
+    act(() => result.current.addFiles([largeFile()]));
+    await waitFor(() => expect(mediaApi.uploadChunk).toHaveBeenCalledTimes(1));
+
+    act(() => result.current.pause(result.current.items[0].id));
+    await waitFor(() => expect(result.current.items[0].status).toBe('paused'));
+
+    vi.mocked(mediaApi.getUploadSession).mockResolvedValue({ upload_id: 'up-1', chunk_size: CHUNK_SIZE, received_chunks: [0] });
+    act(() => result.current.resume(result.current.items[0].id));
+
+    await waitFor(() => expect(result.current.items[0].status).toBe('done'));
+    expect(mediaApi.createUploadSession).toHaveBeenCalledTimes(1);
+    expect(mediaApi.getUploadSession).toHaveBeenCalledWith('up-1');
+    expect(vi.mocked(mediaApi.uploadChunk).mock.calls.map(([, index]) => index)).toEqual([0, 1, 2]);
+  });
+
+  it('should still pause an upload resumed before its previous run settled', async () => {
+    const signals: AbortSignal[] = [];
+    vi.mocked(mediaApi.uploadMedia).mockImplementation(
+      (_formData, options) =>
+        new Promise((_, reject) => {
+          signals.push(options!.signal!);
+          options?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        })
+    );
+    const { result } = renderHook(() => useUploadQueue());
+
+    act(() => result.current.addFiles([new File(['a'], 'a')]));
+    const id = result.current.items[0].id;
+    await act(async () => {
+      result.current.pause(id);
+      result.current.resume(id);
+    });
+    expect(mediaApi.uploadMedia).toHaveBeenCalledTimes(2);
+
+    act(() => result.current.pause(id));
+
+    expect(signals[1].aborted).toBe(true);
+    expect(result.current.items[0].status).toBe('paused');
+  });
+
+  it('should retry transient errors with backoff', async () => {
+    vi.useFakeTimers();
+    vi.mocked(mediaApi.uploadMedia)
+      .mockRejectedValueOnce(Object.assign(new Error('Network Error'), { code: 'ERR_NETWORK' }))
+      .mockResolvedValueOnce(media('a'));
+    const { result } = renderHook(() => useUploadQueue());
+
+    act(() => result.current.addFiles([new File(['a'], 'a')]));
+    await act(() => vi.advanceTimersByTimeAsync(0));
+    expect(result.current.items[0].status).toBe('retrying');
+
+    await act(() => vi.advanceTimersByTimeAsync(1000));
+    expect(result.current.items[0].status).toBe('done');
+    expect(mediaApi.uploadMedia).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it('should fail right away on validation errors and allow a manual retry', async () => {
+    vi.mocked(mediaApi.uploadMedia)
+      .mockRejectedValueOnce(Object.assign(new Error('Request failed'), { response: { status: 415, data: { detail: 'Unsupported file type' } } }))
+      .mockResolvedValueOnce(media('a'));
+    const onFailed = vi.fn();
+    const { result } = renderHook(() => useUploadQueue({ onFailed }));
+
+    act(() => result.current.addFiles([new File(['a'], 'a')]));
+
+    await waitFor(() => expect(result.current.items[0].status).toBe('error'));
+    expect(result.current.items[0].error).toBe('Unsupported file type');
+    expect(onFailed).toHaveBeenCalledTimes(1);
+
+    act(() => result.current.retry(result.current.items[0].id));
+    await waitFor(() => expect(result.current.items[0].status).toBe('done'));
+  });
+
+  it('should abort the upload session on cancel', async () => {
+    vi.mocked(mediaApi.uploadChunk).mockReturnValue(new Promise(() => {}));
+    const { result } = renderHook(() => useUploadQueue());
+
+    act(() => result.current.addFiles([largeFile()]));
+    await waitFor(() => expect(mediaApi.uploadChunk).toHaveBeenCalled());
+    act(() => result.current.cancel(result.current.items[0].id));
+
+    expect(result.current.items[0].status).toBe('cancelled');
+    expect(mediaApi.abortUploadSession).toHaveBeenCalledWith('up-1');
+  });
+});
@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { mediaApi } from '@/lib/api';
+import type { UploadSession } from '@/lib/api/media';
+import {
+  CHUNK_SIZE,
+  getChunk,
+  getChunkCount,
+  getReceivedBytes,
+  getRetryDelay,
+  isAbortError,
+  isRetryableError,
+  MAX_RETRIES,
+  UPLOAD_CONCURRENCY,
+  wait,
+} from '@/lib/upload-queue';
+import { Media } from '@/types';
+
+export type UploadStatus = 'queued' | 'uploading' | 'retrying' | 'paused' | 'done' | 'error' | 'cancelled';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  /** Extra form fields sent with the file, e.g. focal_point */
+  fields?: Record<string, string>;
+  /** Bytes on the server so far */
+  loaded: number;
+  error?: string;
+  media?: Media;
+}
+
+interface UploadControl {
+  controller?: AbortController;
+  /** Chunked upload session, kept so a paused or failed upload can resume */
+  uploadId?: string;
+}
+
+const ACTIVE: UploadStatus[] = ['uploading', 'retrying'];
+
+/**
+ * Queue of media uploads running a few at a time, with per-file progress,
+ * retries with backoff for transient errors, pause/resume and cancel.
+ */
+export function useUploadQueue({
+  onUploaded,
+  onFailed,
+  concurrency = UPLOAD_CONCURRENCY,
+}: {
+  onUploaded?: (media: Media) => void;
+  onFailed?: (item: UploadItem) => void;
+  concurrency?: number;
+} = {}) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  // The queue runs outside React's render cycle, so it works on a ref copy
+  const itemsRef = useRef<UploadItem[]>([]);
+  const controlsRef = useRef<Record<string, UploadControl>>({});
+  const callbacksRef = useRef({ onUploaded, onFailed });
+
+  useEffect(() => {
+    callbacksRef.current = { onUploaded, onFailed };
+  });
+
+  // Stop network activity when the page or picker goes away
+  useEffect(() => {
+    const controls = controlsRef.current;
+    return () => {
+      Object.values(controls).forEach((control) => control.controller?.abort());
+    };
+  }, []);
+
+  const getItem = (id: string) => itemsRef.current.find((item) => item.id === id);
+
+  const commit = (id: string, changes: Partial<UploadItem>) => {
+    itemsRef.current = itemsRef.current.map((item) => (item.id === id ? { ...item, ...changes } : item));
+    setItems(itemsRef.current);
+  };
+
+  const withRetry = async <T,>(id: string, signal: AbortSignal, request: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request();
+      } catch (err) {
+        if (signal.aborted || isAbortError(err) || attempt >= MAX_RETRIES || !isRetryableError(err)) throw err;
+        commit(id, { status: 'retrying' });
+        await wait(getRetryDelay(attempt), signal);
+        commit(id, { status: 'uploading' });
+      }
+    }
+  };
+
+  const uploadWhole = (item: UploadItem, signal: AbortSignal) => {
+    commit(item.id, { loaded: 0 });
+    return withRetry(item.id, signal, () => {
+      const formData = new FormData();
+      formData.append('file', item.file);
+      Object.entries(item.fields || {}).forEach(([name, value]) => formData.append(name, value));
+      return mediaApi.uploadMedia(formData, {
+        signal,
+        onProgress: (loaded) => commit(item.id, { loaded }),
+      });
+    });
+  };
+
+  const uploadInChunks = async (item: UploadItem, control: UploadControl, signal: AbortSignal) => {
+    const { file } = item;
+    let session: UploadSession;
+    if (control.uploadId) {
+      const uploadId = control.uploadId;
+      session = await withRetry(item.id, signal, () => mediaApi.getUploadSession(uploadId));
+    } else {
+      session = await withRetry(item.id, signal, () =>
+        mediaApi.createUploadSession({
+          filename: file.name,
+          mime_type: file.type || 'application/octet-stream',
+          file_size: file.size,
+          chunk_size: CHUNK_SIZE,
+          fields: item.fields,
+        })
+      );
+      control.uploadId = session.upload_id;
+    }
+
+    const chunkSize = session.chunk_size || CHUNK_SIZE;
+    const received = [...(session.received_chunks || [])];
+    for (let index = 0; index < getChunkCount(file.size, chunkSize); index++) {
+      if (received.includes(index)) continue;
+      const base = getReceivedBytes(file.size, received, chunkSize);
+      commit(item.id, { loaded: base });
+      await withRetry(item.id, signal, () =>
+        mediaApi.uploadChunk(session.upload_id, index, getChunk(file, index, chunkSize), {
+          signal,
+          onProgress: (loaded) => commit(item.id, { loaded: base + loaded }),
+        })
+      );
+      received.push(index);
+    }
+
+    return withRetry(item.id, signal, () => mediaApi.completeUploadSession(session.upload_id));
+  };
+
+  const start = async (item: UploadItem) => {
+    const controller = new AbortController();
+    const control = (controlsRef.current[item.id] ||= {});
+    control.controller = controller;
+    commit(item.id, { status: 'uploading', error: undefined });
+
+    try {
+      const media =
+        item.file.size > CHUNK_SIZE
+          ? await uploadInChunks(item, control, controller.signal)
+          : await uploadWhole(item, controller.signal);
+      commit(item.id, { status: 'done', loaded: item.file.size, media });
+      delete controlsRef.current[item.id];
+      callbacksRef.current.onUploaded?.(media);
+    } catch (err) {
+      // Pause and cancel set their status before aborting the request
+      if (!controller.signal.aborted) {
+        console.error('Upload failed:', err);
+        const error = err as Error & { response?: { data?: { detail?: string } } };
+        commit(item.id, { status: 'error', error: error.response?.data?.detail || error.message });
+        const failed = getItem(item.id);
+        if (failed) callbacksRef.current.onFailed?.(failed);
+      }
+    } finally {
+      // A resume may have started a new run on the same control meanwhile
+      if (control.controller === controller) control.controller = undefined;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    const active = itemsRef.current.filter((item) => ACTIVE.includes(item.status)).length;
+    itemsRef.current
+      .filter((item) => item.status === 'queued')
+      .slice(0, Math.max(0, concurrency - active))
+      .forEach(start);
+  };
+
+  const addFiles = (files: FileList | File[] | null, fields?: Record<string, string>) => {
+    if (!files || files.length === 0) return;
+    const added: UploadItem[] = Array.from(files).map((file) => ({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      file,
+      fields,
+      status: 'queued',
+      loaded: 0,
+    }));
+    itemsRef.current = [...itemsRef.current, ...added];
+    setItems(itemsRef.current);
+    pump();
+  };
+
+  const pause = (id: string) => {
+    const item = getItem(id);
+    if (!item || !['queued', ...ACTIVE].includes(item.status)) return;
+    commit(id, { status: 'paused' });
+    controlsRef.current[id]?.controller?.abort();
+  };
+
+  const resume = (id: string) => {
+    const item = getItem(id);
+    if (!item || (item.status !== 'paused' && item.status !== 'error')) return;
+    commit(id, { status: 'queued', error: undefined });
+    pump();
+  };
+
+  const cancel = (id: string) => {
+    const item = getItem(id);
+    if (!item || item.status === 'done' || item.status === 'cancelled') return;
+    commit(id, { status: 'cancelled' });
+    const control = controlsRef.current[id];
+    delete controlsRef.current[id];
+    control?.controller?.abort();
+    if (control?.uploadId) {
+      mediaApi.abortUploadSession(control.uploadId).catch((err) => console.error('Failed to abort upload:', err));
+    }
+  };
+
+  const clearFinished = () => {
+    itemsRef.current = itemsRef.current.filter((item) => item.status !== 'done' && item.status !== 'cancelled');
+    setItems(itemsRef.current);
+  };
+
+  const isUploading = items.some((item) => item.status === 'queued' || ACTIVE.includes(item.status));
+
+  return { items, isUploading, addFiles, pause, resume, retry: resume, cancel, clearFinished };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { apiClient } from '@/lib/api';
 import { useAuth } from '@/contexts/auth-context';
+import { getFallbackChain } from '@/lib/locale-fallback';
 
 interface Locale {
   id: number;
@@ -8,15 +9,36 @@ interface Locale {
   name: string;
   native_name?: string;
   enabled: boolean;
+  is_default?: boolean;
+  fallback_locales?: string[] | null;
 }
 
 interface UseLocalesResult {
   locales: Locale[];
   loading: boolean;
   error: string | null;
+  /** Locale codes to read content from for a locale, in order */
+  getFallbackChain: (code: string) => string[];
   refetch: () => void;
 }
 
+/**
+ * Locales to read translations from for a locale, in order, before falling
+ * back to the entry's own (default locale) content.
+ */
+export async function fetchTranslationChain(code: string): Promise<string[]> {
+  try {
+    const response = await apiClient.get('/translation/locales');
+    const data = response.data;
+    const localeList: Locale[] = Array.isArray(data) ? data : (data.items || []);
+    const defaultCode = localeList.find((l) => l.is_default)?.code ?? 'en';
+    return getFallbackChain(code, localeList).filter((c) => c !== defaultCode);
+  } catch (err) {
+    console.warn('Locale fallbacks not available:', err);
+    return [code];
+  }
+}
+
 export function useLocales(): UseLocalesResult {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const [locales, setLocales] = useState<Locale[]>([]);
@@ -88,6 +110,7 @@ export function useLocales(): UseLocalesResult {
     locales,
     loading,
     error,
+    getFallbackChain: (code: string) => getFallbackChain(code, locales),
     refetch: fetchLocales,
   };
 }
@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
 import { apiClient } from '@/lib/api';
+import { getResponsiveImage, ResponsiveImageAttributes } from '@/lib/media-renditions';
+import { resolveFields } from '@/lib/locale-fallback';
+import { fetchTranslationChain } from './useLocales';
 
 interface Product {
   id: string;
@@ -29,6 +32,8 @@ interface Product {
 interface Translation {
   locale: string;
   translated_data: Record<string, any>;
+  /** Locale each translated field was read from, through the locale's fallback chain */
+  field_locales?: Record<string, string>;
 }
 
 interface UseProductResult {
@@ -36,6 +41,8 @@ interface UseProductResult {
   loading: boolean;
   error: string | null;
   translation: Translation | null;
+  /** data.images as hero renditions with srcset, for the product gallery */
+  images: ResponsiveImageAttributes[];
   refetch: () => void;
 }
 
@@ -82,14 +89,24 @@ export function useProduct(
 
       setProduct(productData);
 
-      // Fetch translation if locale is specified
+      // Fetch translation if locale is specified, filling missing fields from its fallbacks
       if (locale && locale !== 'en' && productData?.id) {
-        try {
-          const translationResponse = await apiClient.get(
-            `/translation/entry/${productData.id}/locale/${locale}`
+        const chain = await fetchTranslationChain(locale);
+        const found = await Promise.all(
+          chain.map((code) =>
+            apiClient
+              .get(`/translation/entry/${productData.id}/locale/${code}`)
+              .then((response) => response.data as Translation)
+              .catch(() => null)
+          )
+        );
+        if (found.some(Boolean)) {
+          const resolved = resolveFields(
+            chain,
+            Object.fromEntries(chain.map((code, index) => [code, found[index]?.translated_data]))
           );
-          setTranslation(translationResponse.data);
-        } catch (translationErr) {
+          setTranslation({ locale, translated_data: resolved.data, field_locales: resolved.origins });
+        } else {
           console.warn(`Translation not available for locale: ${locale}`);
           setTranslation(null);
         }
@@ -111,11 +128,14 @@ export function useProduct(
     }
   }, [idOrSlug, locale]);
 
+  const images = (product?.data.images || []).map((url) => getResponsiveImage(url, 'hero'));
+
   return {
     product,
     loading,
     error,
     translation,
+    images,
     refetch: fetchProduct,
   };
 }
@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
 import { apiClient } from '@/lib/api';
+import { getResponsiveImage, ResponsiveImageAttributes } from '@/lib/media-renditions';
+import { resolveFields } from '@/lib/locale-fallback';
+import { fetchTranslationChain } from './useLocales';
 
 interface ProductFilters {
   category?: string;
@@ -29,9 +32,13 @@ interface Product {
   };
   translation?: {
     translated_data: Record<string, any>;
+    /** Locale each translated field was read from, through the locale's fallback chain */
+    field_locales?: Record<string, string>;
   };
   seo_data?: any;
   published_at?: string;
+  /** First of data.images as a card rendition with srcset, for listings */
+  image?: ResponsiveImageAttributes;
 }
 
 interface UseProductsResult {
@@ -119,21 +126,32 @@ export function useProducts(
       let productsWithTranslations = response.data.items || [];
       if (filters.locale && filters.locale !== 'en') {
         try {
+          // Fields missing in the locale are read from the locales it falls back to
+          const chain = await fetchTranslationChain(filters.locale);
+
           // Fetch translations for all products in batch
           const translationPromises = productsWithTranslations.map(async (product: Product) => {
-            try {
-              const translationResponse = await apiClient.get(
-                `/translation/content/${product.id}?locale=${filters.locale}`
-              );
-              return {
-                ...product,
-                translation: translationResponse.data,
-              };
-            } catch (err) {
+            const found = await Promise.all(
+              chain.map((code) =>
+                apiClient
+                  .get(`/translation/content/${product.id}?locale=${code}`)
+                  .then((translationResponse) => translationResponse.data?.translated_data as Record<string, unknown>)
+                  .catch(() => undefined)
+              )
+            );
+            if (!found.some(Boolean)) {
               // If translation fails, return product without translation
               console.warn(`Translation not found for product ${product.id} in locale ${filters.locale}`);
               return product;
             }
+            const resolved = resolveFields(
+              chain,
+              Object.fromEntries(chain.map((code, index) => [code, found[index]]))
+            );
+            return {
+              ...product,
+              translation: { translated_data: resolved.data, field_locales: resolved.origins },
+            };
           });
           
           productsWithTranslations = await Promise.all(translationPromises);
@@ -154,7 +172,12 @@ export function useProducts(
         });
       }
 
-      setProducts(filteredProducts);
+      setProducts(
+        filteredProducts.map((product: Product) => ({
+          ...product,
+          image: product.data.images?.[0] ? getResponsiveImage(product.data.images[0], 'card') : undefined,
+        }))
+      );
       setPagination({
         total: response.data.total,
         page: response.data.page,
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { auditEntry, checkRichText, checkThemeContrast, contrastRatio, parseColor } from './accessibility';
+import type { ThemeColors } from '@/lib/api/themes';
+import { getMediaUrl } from '@/lib/api/client';
+
+const body = { name: 'body', type: 'richtext', label: 'Body' };
+
+describe('parseColor', () => {
+  it('should parse hex, rgb and hsl colours', () => {
+    expect(parseColor('#fff')).toEqual([255, 255, 255]);
+    expect(parseColor('#1a2B3c')).toEqual([26, 43, 60]);
+    expect(parseColor('rgb(10, 20, 30)')).toEqual([10, 20, 30]);
+    expect(parseColor('hsl(0, 100%, 50%)')).toEqual([255, 0, 0]);
+    expect(parseColor('240 100% 50%')).toEqual([0, 0, 255]);
+  });
+
+  it('should return null for values it cannot read', () => {
+    expect(parseColor('var(--primary)')).toBeNull();
+    expect(parseColor(undefined)).toBeNull();
+  });
+});
+
+describe('contrastRatio', () => {
+  it('should follow the WCAG formula', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBeCloseTo(21);
+    expect(contrastRatio('#ffffff', '#ffffff')).toBeCloseTo(1);
+    expect(contrastRatio('#777777', '#ffffff')).toBeCloseTo(4.48, 2);
+  });
+});
+
+describe('checkThemeContrast', () => {
+  it('should flag colour pairs below AA', () => {
+    const colors: ThemeColors = {
+      primary: '#aaaaaa',
+      secondary: '#333333',
+      background: '#ffffff',
+      foreground: '#111111',
+    };
+
+    const issues = checkThemeContrast(colors);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].message).toContain('Links (primary on background)');
+  });
+});
+
+describe('checkRichText', () => {
+  it('should flag images without alt text but allow decorative ones', () => {
+    const issues = checkRichText(
+      '<img src="/a/photo.jpg"><img src="/a/line.png" alt=""><img src="/a/team.jpg" alt="team.jpg">',
+      body
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Body: image photo.jpg has no alt text',
+      'Body: image team.jpg has no alt text',
+    ]);
+  });
+
+  it('should flag skipped heading levels', () => {
+    const issues = checkRichText('<h2>Intro</h2><h4>Details</h4><h3>More</h3><h2>End</h2>', body);
+
+    expect(issues).toEqual([
+      { rule: 'heading-order', field: 'body', message: 'Body: "Details" jumps from H2 to H4' },
+    ]);
+  });
+
+  it('should flag links without text', () => {
+    const issues = checkRichText(
+      '<a href="/a"></a><a href="/b" aria-label="Home"></a><a href="/c"><img src="x.png" alt="Logo"></a>',
+      body
+    );
+
+    expect(issues).toEqual([{ rule: 'empty-link', field: 'body', message: 'Body: link to /a has no text' }]);
+  });
+
+  it('should check inline text colours against the background', () => {
+    const issues = checkRichText(
+      '<p><span style="color: #eeeeee">Faint</span> <span style="color: #222222">Dark</span></p>',
+      body
+    );
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].rule).toBe('color-contrast');
+    expect(issues[0].message).toContain('"Faint"');
+    expect(checkRichText('<span style="color: #eeeeee">Light</span>', body, '#111111')).toEqual([]);
+  });
+});
+
+describe('auditEntry', () => {
+  const photo = getMediaUrl('photo.jpg') as string;
+
+  it('should flag image fields that use library images without alt text', () => {
+    const issues = auditEntry({
+      fields: [{ name: 'hero', type: 'image', label: 'Hero' }],
+      data: { hero: photo },
+      missingAltUrls: new Set([photo]),
+    });
+
+    expect(issues).toEqual([
+      { rule: 'image-alt', field: 'hero', message: 'Hero: photo.jpg has no alt text in the media library' },
+    ]);
+  });
+
+  it('should flag gallery items without alt text', () => {
+    const issues = auditEntry({
+      fields: [{ name: 'gallery', type: 'json', label: 'Gallery' }],
+      data: {
+        gallery: [
+          { url: '/media/a.jpg', alt: 'A beach' },
+          { url: '/media/b.jpg', alt: '' },
+        ],
+      },
+      missingAltUrls: new Set(),
+    });
+
+    expect(issues.map((issue) => issue.message)).toEqual(['Gallery: image 2 (b.jpg) has no alt text']);
+  });
+
+  it('should check rich text fields and ignore other fields', () => {
+    const issues = auditEntry({
+      fields: [body, { name: 'title', type: 'text' }],
+      data: { body: '<img src="a.png">', title: '<img src="b.png">' },
+      missingAltUrls: new Set(),
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].field).toBe('body');
+  });
+
+  it('should check the fields of each block in a components field', () => {
+    const issues = auditEntry({
+      fields: [
+        {
+          name: 'sections',
+          type: 'components',
+          label: 'Sections',
+          blocks: [
+            { key: 'hero', name: 'Hero', fields: [{ name: 'image', type: 'image', label: 'Image' }] },
+            { key: 'text', name: 'Text', fields: [body] },
+          ],
+        },
+      ],
+      data: {
+        sections: [
+          { id: 'b1', block: 'text', data: { body: '<p>Intro</p>' } },
+          { id: 'b2', block: 'hero', data: { image: photo } },
+          { id: 'b3', block: 'text', data: { body: '<img src="a.png">' } },
+        ],
+      },
+      missingAltUrls: new Set([photo]),
+    });
+
+    expect(issues.map((issue) => issue.field)).toEqual(['sections', 'sections']);
+    expect(issues[0].message).toBe('Sections, Hero 2: Image: photo.jpg has no alt text in the media library');
+    expect(issues[1].message).toMatch(/^Sections, Text 3: /);
+  });
+});
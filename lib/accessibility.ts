@@ -0,0 +1,246 @@
+/**
+ * Accessibility Checks
+ *
+ * Audits entry content before it is published: alt text on images in image
+ * fields, gallery fields and rich text, heading order and empty links in rich
+ * text, and text colour contrast against the active theme (WCAG 2.1 AA).
+ * Blocks in components fields are checked against their own fields.
+ * Library images without alt text are looked up once and passed in as URLs.
+ */
+
+import { resolveMediaUrl } from '@/lib/api/client';
+import type { ThemeColors } from '@/lib/api/themes';
+import { getBlocks } from '@/lib/blocks';
+import { ContentTypeField } from '@/types';
+
+export type A11yRule = 'image-alt' | 'heading-order' | 'empty-link' | 'color-contrast';
+
+export interface A11yIssue {
+  rule: A11yRule;
+  /** Field the issue was found in; absent for theme issues */
+  field?: string;
+  message: string;
+}
+
+/** Checklist wording for each rule, in the order they are shown */
+export const A11Y_RULES: Record<A11yRule, string> = {
+  'image-alt': 'Images have alt text',
+  'heading-order': 'Headings do not skip levels',
+  'empty-link': 'Links have text',
+  'color-contrast': 'Text colours have enough contrast',
+};
+
+/** WCAG AA minimum for normal-size text */
+export const MIN_CONTRAST = 4.5;
+
+const RICH_TEXT_TYPES = ['richtext', 'wysiwyg', 'html'];
+
+// Alt text defaulted from the file name describes nothing
+const FILENAME_ALT = /^[\w\-. ]+\.(jpe?g|png|gif|webp|avif|svg)$/i;
+
+type Rgb = [number, number, number];
+
+/**
+ * Parse #rgb, #rrggbb, rgb()/rgba(), hsl()/hsla() and bare "h s% l%" values
+ * as used by CSS variables. Returns null for anything else.
+ */
+export function parseColor(value: string | null | undefined): Rgb | null {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(color);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as Rgb;
+  }
+
+  const rgb = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/.exec(color);
+  if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+
+  const hsl = /^(?:hsla?\()?\s*([\d.]+)(?:deg)?[\s,]+([\d.]+)%[\s,]+([\d.]+)%/.exec(color);
+  if (hsl) return hslToRgb(Number(hsl[1]), Number(hsl[2]) / 100, Number(hsl[3]) / 100);
+
+  return null;
+}
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0), f(8), f(4)].map((v) => Math.round(v * 255)) as Rgb;
+}
+
+function luminance([r, g, b]: Rgb): number {
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * WCAG contrast ratio between two colours, from 1 to 21, or null when either
+ * cannot be parsed.
+ */
+export function contrastRatio(foreground: string, background: string): number | null {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+  if (!fg || !bg) return null;
+  const [light, dark] = [luminance(fg), luminance(bg)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+const THEME_PAIRS: [keyof ThemeColors, keyof ThemeColors, string][] = [
+  ['foreground', 'background', 'Body text'],
+  ['primary', 'background', 'Links'],
+  ['card-foreground', 'card', 'Card text'],
+  ['muted-foreground', 'muted', 'Muted text'],
+  ['muted-foreground', 'background', 'Muted text on the page background'],
+  ['destructive-foreground', 'destructive', 'Error text'],
+];
+
+export function checkThemeContrast(colors: ThemeColors): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+  THEME_PAIRS.forEach(([fg, bg, label]) => {
+    const ratio = contrastRatio(colors[fg] || '', colors[bg] || '');
+    if (ratio !== null && ratio < MIN_CONTRAST) {
+      issues.push({
+        rule: 'color-contrast',
+        message: `${label} (${fg} on ${bg}) has a contrast of ${ratio.toFixed(2)}:1, below ${MIN_CONTRAST}:1`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Check rich text HTML. Images need an alt attribute (alt="" marks them as
+ * decorative), headings may not skip levels, links need text, and inline text
+ * colours must contrast with their highlight or the theme background.
+ */
+export function checkRichText(html: string, field: ContentTypeField, background = '#ffffff'): A11yIssue[] {
+  if (!html) return [];
+  const label = field.label || field.name;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const issues: A11yIssue[] = [];
+
+  doc.querySelectorAll('img').forEach((img) => {
+    const alt = img.getAttribute('alt');
+    if (alt === null || FILENAME_ALT.test(alt.trim())) {
+      issues.push({
+        rule: 'image-alt',
+        field: field.name,
+        message: `${label}: image ${fileName(img.getAttribute('src'))} has no alt text`,
+      });
+    }
+  });
+
+  let previous: number | null = null;
+  doc.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach((heading) => {
+    const level = Number(heading.tagName[1]);
+    if (previous !== null && level > previous + 1) {
+      issues.push({
+        rule: 'heading-order',
+        field: field.name,
+        message: `${label}: "${heading.textContent?.trim()}" jumps from H${previous} to H${level}`,
+      });
+    }
+    previous = level;
+  });
+
+  doc.querySelectorAll('a').forEach((link) => {
+    const hasText =
+      !!link.textContent?.trim() ||
+      !!link.getAttribute('aria-label')?.trim() ||
+      Array.from(link.querySelectorAll('img')).some((img) => !!img.getAttribute('alt')?.trim());
+    if (!hasText) {
+      issues.push({
+        rule: 'empty-link',
+        field: field.name,
+        message: `${label}: link to ${link.getAttribute('href') || 'nowhere'} has no text`,
+      });
+    }
+  });
+
+  doc.querySelectorAll<HTMLElement>('[style*="color"]').forEach((element) => {
+    const color = element.style.color;
+    if (!color || !element.textContent?.trim()) return;
+    const ratio = contrastRatio(color, element.style.backgroundColor || background);
+    if (ratio !== null && ratio < MIN_CONTRAST) {
+      issues.push({
+        rule: 'color-contrast',
+        field: field.name,
+        message: `${label}: "${truncate(element.textContent.trim())}" has a contrast of ${ratio.toFixed(2)}:1`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+export interface EntryAuditOptions {
+  fields: ContentTypeField[];
+  data: Record<string, unknown>;
+  /** Resolved URLs of library images without alt text */
+  missingAltUrls: Set<string>;
+  /** Page background of the active theme */
+  background?: string;
+}
+
+export function auditEntry({ fields, data, missingAltUrls, background }: EntryAuditOptions): A11yIssue[] {
+  const issues: A11yIssue[] = [];
+
+  fields.forEach((field) => {
+    const value = data[field.name];
+    const label = field.label || field.name;
+
+    if (field.type === 'image' && typeof value === 'string' && value) {
+      if (missingAltUrls.has(resolveMediaUrl(value))) {
+        issues.push({
+          rule: 'image-alt',
+          field: field.name,
+          message: `${label}: ${fileName(value)} has no alt text in the media library`,
+        });
+      }
+    } else if (RICH_TEXT_TYPES.includes(field.type) && typeof value === 'string') {
+      issues.push(...checkRichText(value, field, background));
+    } else if (field.type === 'components') {
+      // Each block is audited against its own fields; issues stay on the components field
+      getBlocks(value).forEach((block, index) => {
+        const schema = field.blocks?.find((b) => b.key === block.block);
+        if (!schema) return;
+        auditEntry({ fields: schema.fields, data: block.data, missingAltUrls, background }).forEach((issue) => {
+          issues.push({ ...issue, field: field.name, message: `${label}, ${schema.name} ${index + 1}: ${issue.message}` });
+        });
+      });
+    } else if (isGallery(value)) {
+      value.forEach((item, index) => {
+        if (!item.alt?.trim() || FILENAME_ALT.test(item.alt.trim())) {
+          issues.push({
+            rule: 'image-alt',
+            field: field.name,
+            message: `${label}: image ${index + 1} (${fileName(item.url)}) has no alt text`,
+          });
+        }
+      });
+    }
+  });
+
+  return issues;
+}
+
+function isGallery(value: unknown): value is { url: string; alt?: string }[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => item && typeof item === 'object' && typeof item.url === 'string')
+  );
+}
+
+function fileName(url: string | null): string {
+  return url?.split('?')[0].split('/').pop() || 'without a source';
+}
+
+function truncate(text: string, length = 30): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
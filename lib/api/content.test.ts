@@ -223,4 +223,218 @@ describe('Content API', () => {
       });
     });
   });
+
+  describe('Saved Views', () => {
+    const mockView = {
+      id: 'v1',
+      name: 'Cheap products',
+      query: 'content_type_id=2&sort=data.price',
+      shared: true,
+      owner_id: 'u1',
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+    };
+
+    describe('getSavedViews', () => {
+      it('should fetch saved views', async () => {
+        vi.mocked(apiClient.get).mockResolvedValueOnce({ data: [mockView] } as any);
+
+        const result = await contentApi.getSavedViews();
+
+        expect(result).toEqual([mockView]);
+        expect(apiClient.get).toHaveBeenCalledWith('/content/views');
+      });
+    });
+
+    describe('createSavedView', () => {
+      it('should save a view', async () => {
+        vi.mocked(apiClient.post).mockResolvedValueOnce({ data: mockView } as any);
+
+        const data = { name: 'Cheap products', query: 'content_type_id=2&sort=data.price', shared: true };
+        const result = await contentApi.createSavedView(data);
+
+        expect(result).toEqual(mockView);
+        expect(apiClient.post).toHaveBeenCalledWith('/content/views', data);
+      });
+    });
+
+    describe('updateSavedView', () => {
+      it('should update a view', async () => {
+        vi.mocked(apiClient.put).mockResolvedValueOnce({ data: { ...mockView, shared: false } } as any);
+
+        await contentApi.updateSavedView('v1', { shared: false });
+
+        expect(apiClient.put).toHaveBeenCalledWith('/content/views/v1', { shared: false });
+      });
+    });
+
+    describe('deleteSavedView', () => {
+      it('should delete a view', async () => {
+        vi.mocked(apiClient.delete).mockResolvedValueOnce({} as any);
+
+        await contentApi.deleteSavedView('v1');
+
+        expect(apiClient.delete).toHaveBeenCalledWith('/content/views/v1');
+      });
+    });
+  });
+
+  describe('References', () => {
+    describe('getEntryReferences', () => {
+      it('should fetch entries linking to an entry', async () => {
+        const mockResponse = [
+          { entry_id: '2', slug: 'summer', status: 'published', content_type_id: 't2', field: 'products' },
+        ];
+
+        vi.mocked(apiClient.get).mockResolvedValueOnce({ data: mockResponse } as any);
+
+        const result = await contentApi.getEntryReferences('1');
+
+        expect(result).toEqual(mockResponse);
+        expect(apiClient.get).toHaveBeenCalledWith('/content/entries/1/referenced-by');
+      });
+    });
+  });
+
+  describe('Scheduling', () => {
+    describe('scheduleContentEntry', () => {
+      it('should set publish and unpublish times', async () => {
+        const schedule = { publish_at: '2025-03-01T05:00:00.000Z', unpublish_at: '2025-03-08T05:00:00.000Z' };
+        const mockResponse = { id: '1', status: 'scheduled', ...schedule };
+
+        vi.mocked(apiClient.put).mockResolvedValueOnce({ data: mockResponse } as any);
+
+        const result = await contentApi.scheduleContentEntry('1', schedule);
+
+        expect(result).toEqual(mockResponse);
+        expect(apiClient.put).toHaveBeenCalledWith('/content/entries/1/schedule', schedule);
+      });
+    });
+
+    describe('cancelContentEntrySchedule', () => {
+      it('should clear the schedule', async () => {
+        const mockResponse = { id: '1', status: 'draft', publish_at: null, unpublish_at: null };
+
+        vi.mocked(apiClient.delete).mockResolvedValueOnce({ data: mockResponse } as any);
+
+        const result = await contentApi.cancelContentEntrySchedule('1');
+
+        expect(result).toEqual(mockResponse);
+        expect(apiClient.delete).toHaveBeenCalledWith('/content/entries/1/schedule');
+      });
+    });
+
+    describe('getScheduledEntries', () => {
+      it('should fetch entries scheduled within a range', async () => {
+        const mockEntries = [{ id: '1', status: 'scheduled', publish_at: '2025-03-01T05:00:00.000Z' }];
+        const params = { from: '2025-03-01T00:00:00.000Z', to: '2025-04-01T00:00:00.000Z', content_type_id: 't1' };
+
+        vi.mocked(apiClient.get).mockResolvedValueOnce({ data: mockEntries } as any);
+
+        const result = await contentApi.getScheduledEntries(params);
+
+        expect(result).toEqual(mockEntries);
+        expect(apiClient.get).toHaveBeenCalledWith('/content/entries/scheduled', { params });
+      });
+    });
+  });
+
+  describe('Editorial Workflow', () => {
+    describe('transitionEntryStage', () => {
+      it('should move an entry to another stage with a comment', async () => {
+        const mockResponse = { id: '1', workflow_stage: 'draft' };
+        const request = { to_stage: 'draft', comment: 'Needs a better headline' };
+
+        vi.mocked(apiClient.post).mockResolvedValueOnce({ data: mockResponse } as any);
+
+        const result = await contentApi.transitionEntryStage('1', request);
+
+        expect(result).toEqual(mockResponse);
+        expect(apiClient.post).toHaveBeenCalledWith('/content/entries/1/workflow/transition', request);
+      });
+    });
+
+    describe('assignReviewer', () => {
+      it('should assign a reviewer', async () => {
+        const mockResponse = { id: '1', reviewer_id: 'u2' };
+
+        vi.mocked(apiClient.put).mockResolvedValueOnce({ data: mockResponse } as any);
+
+        const result = await contentApi.assignReviewer('1', 'u2');
+
+        expect(result).toEqual(mockResponse);
+        expect(apiClient.put).toHaveBeenCalledWith('/content/entries/1/workflow/reviewer', { reviewer_id: 'u2' });
+      });
+    });
+
+    describe('getWorkflowHistory', () => {
+      it('should fetch stage transitions for an entry', async () => {
+        const mockHistory = [{ id: 'h1', content_entry_id: '1', from_stage: 'draft', to_stage: 'in_review' }];
+
+        vi.mocked(apiClient.get).mockResolvedValueOnce({ data: mockHistory } as any);
+
+        const result = await contentApi.getWorkflowHistory('1');
+
+        expect(result).toEqual(mockHistory);
+        expect(apiClient.get).toHaveBeenCalledWith('/content/entries/1/workflow/history');
+      });
+    });
+
+    describe('getReviewQueue', () => {
+      it('should fetch entries awaiting review', async () => {
+        const mockEntries = [{ id: '1', workflow_stage: 'in_review' }];
+
+        vi.mocked(apiClient.get).mockResolvedValueOnce({ data: mockEntries } as any);
+
+        const result = await contentApi.getReviewQueue({ assigned_to: 'me' });
+
+        expect(result).toEqual(mockEntries);
+        expect(apiClient.get).toHaveBeenCalledWith('/content/review-queue', { params: { assigned_to: 'me' } });
+      });
+    });
+  });
+
+  describe('Version History', () => {
+    describe('getEntryVersions', () => {
+      it('should fetch all versions of an entry', async () => {
+        const mockVersions = [
+          { id: 'v2', content_entry_id: '1', version: 2, status: 'published', data: {} },
+          { id: 'v1', content_entry_id: '1', version: 1, status: 'draft', data: {} },
+        ];
+
+        vi.mocked(apiClient.get).mockResolvedValueOnce({ data: mockVersions } as any);
+
+        const result = await contentApi.getEntryVersions('1');
+
+        expect(result).toEqual(mockVersions);
+        expect(apiClient.get).toHaveBeenCalledWith('/content/entries/1/versions');
+      });
+    });
+
+    describe('getEntryVersion', () => {
+      it('should fetch a single version by number', async () => {
+        const mockVersion = { id: 'v1', content_entry_id: '1', version: 1, status: 'draft', data: { title: 'Old' } };
+
+        vi.mocked(apiClient.get).mockResolvedValueOnce({ data: mockVersion } as any);
+
+        const result = await contentApi.getEntryVersion('1', 1);
+
+        expect(result).toEqual(mockVersion);
+        expect(apiClient.get).toHaveBeenCalledWith('/content/entries/1/versions/1');
+      });
+    });
+
+    describe('restoreEntryVersion', () => {
+      it('should restore a version as a new draft', async () => {
+        const mockResponse = { id: '1', status: 'draft', version: 4 };
+
+        vi.mocked(apiClient.post).mockResolvedValueOnce({ data: mockResponse } as any);
+
+        const result = await contentApi.restoreEntryVersion('1', 2);
+
+        expect(result).toEqual(mockResponse);
+        expect(apiClient.post).toHaveBeenCalledWith('/content/entries/1/versions/2/restore');
+      });
+    });
+  });
 });
@@ -1,5 +1,15 @@
 import apiClient from './client';
-import { ContentType, ContentEntry, PaginatedResponse } from '@/types';
+import {
+  ContentType,
+  ContentEntry,
+  ContentEntryReference,
+  ContentEntrySchedule,
+  ContentEntryVersion,
+  PaginatedResponse,
+  SavedContentView,
+  WorkflowHistoryItem,
+  WorkflowTransitionRequest,
+} from '@/types';
 
 export const contentApi = {
   // Content Types
@@ -33,6 +43,12 @@ export const contentApi = {
     per_page?: number;
     content_type_id?: string;
     status?: string;
+    author_id?: string;
+    updated_after?: string;
+    /** JSON-encoded field conditions, see toEntryQuery */
+    filters?: string;
+    sort?: string;
+    order?: 'asc' | 'desc';
   }): Promise<PaginatedResponse<ContentEntry>> {
     const response = await apiClient.get<PaginatedResponse<ContentEntry>>('/content/entries', {
       params,
@@ -68,4 +84,116 @@ export const contentApi = {
     const response = await apiClient.post<ContentEntry>(`/content/entries/${id}/unpublish`);
     return response.data;
   },
+
+  // Saved Views
+  /**
+   * Views owned by the current user plus those shared with the organization.
+   */
+  async getSavedViews(): Promise<SavedContentView[]> {
+    const response = await apiClient.get<SavedContentView[]>('/content/views');
+    return response.data;
+  },
+
+  async createSavedView(data: Pick<SavedContentView, 'name' | 'query' | 'shared'>): Promise<SavedContentView> {
+    const response = await apiClient.post<SavedContentView>('/content/views', data);
+    return response.data;
+  },
+
+  async updateSavedView(
+    id: string,
+    data: Partial<Pick<SavedContentView, 'name' | 'query' | 'shared'>>
+  ): Promise<SavedContentView> {
+    const response = await apiClient.put<SavedContentView>(`/content/views/${id}`, data);
+    return response.data;
+  },
+
+  async deleteSavedView(id: string): Promise<void> {
+    await apiClient.delete(`/content/views/${id}`);
+  },
+
+  // References
+  /**
+   * Entries that link to the given entry through a reference field.
+   */
+  async getEntryReferences(id: string): Promise<ContentEntryReference[]> {
+    const response = await apiClient.get<ContentEntryReference[]>(`/content/entries/${id}/referenced-by`);
+    return response.data;
+  },
+
+  // Scheduling
+  /**
+   * Schedule an entry to publish and/or unpublish at a future time.
+   * Times are UTC ISO strings; pass null to clear one side of the schedule.
+   */
+  async scheduleContentEntry(id: string, schedule: ContentEntrySchedule): Promise<ContentEntry> {
+    const response = await apiClient.put<ContentEntry>(`/content/entries/${id}/schedule`, schedule);
+    return response.data;
+  },
+
+  async cancelContentEntrySchedule(id: string): Promise<ContentEntry> {
+    const response = await apiClient.delete<ContentEntry>(`/content/entries/${id}/schedule`);
+    return response.data;
+  },
+
+  /**
+   * Entries with a publish_at or unpublish_at inside the given range.
+   */
+  async getScheduledEntries(params: {
+    from: string;
+    to: string;
+    content_type_id?: string;
+  }): Promise<ContentEntry[]> {
+    const response = await apiClient.get<ContentEntry[]>('/content/entries/scheduled', { params });
+    return response.data;
+  },
+
+  // Editorial Workflow
+  async transitionEntryStage(id: string, data: WorkflowTransitionRequest): Promise<ContentEntry> {
+    const response = await apiClient.post<ContentEntry>(`/content/entries/${id}/workflow/transition`, data);
+    return response.data;
+  },
+
+  async assignReviewer(id: string, reviewerId: string | null): Promise<ContentEntry> {
+    const response = await apiClient.put<ContentEntry>(`/content/entries/${id}/workflow/reviewer`, {
+      reviewer_id: reviewerId,
+    });
+    return response.data;
+  },
+
+  async getWorkflowHistory(id: string): Promise<WorkflowHistoryItem[]> {
+    const response = await apiClient.get<WorkflowHistoryItem[]>(`/content/entries/${id}/workflow/history`);
+    return response.data;
+  },
+
+  /**
+   * Entries awaiting review. Defaults to those assigned to the current user.
+   */
+  async getReviewQueue(params?: { assigned_to?: 'me' | 'anyone'; stage?: string }): Promise<ContentEntry[]> {
+    const response = await apiClient.get<ContentEntry[]>('/content/review-queue', { params });
+    return response.data;
+  },
+
+  // Version History
+  async getEntryVersions(id: string): Promise<ContentEntryVersion[]> {
+    const response = await apiClient.get<ContentEntryVersion[]>(`/content/entries/${id}/versions`);
+    return response.data;
+  },
+
+  async getEntryVersion(id: string, version: number): Promise<ContentEntryVersion> {
+    const response = await apiClient.get<ContentEntryVersion>(
+      `/content/entries/${id}/versions/${version}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Restore a previous version. The backend copies the revision's data into
+   * a new draft version rather than rewriting history.
+   */
+  async restoreEntryVersion(id: string, version: number): Promise<ContentEntry> {
+    const response = await apiClient.post<ContentEntry>(
+      `/content/entries/${id}/versions/${version}/restore`
+    );
+    return response.data;
+  },
 };
@@ -112,11 +112,29 @@ describe('Media API', () => {
       const result = await mediaApi.uploadMedia(formData);
 
       expect(result).toEqual(mockResponse);
-      expect(apiClient.post).toHaveBeenCalledWith('/media/upload', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
+      expect(apiClient.post).toHaveBeenCalledWith(
+        '/media/upload',
+        formData,
+        expect.objectContaining({
+          headers: {
+            'Content-Type': 'multipart/form-data',
+          },
+          // Large files must not hit the client's default timeout
+          timeout: 0,
+        })
+      );
+    });
+
+    it('should report upload progress', async () => {
+      vi.mocked(apiClient.post).mockImplementationOnce(async (_url, _data, config) => {
+        config?.onUploadProgress?.({ loaded: 50, total: 100 } as any);
+        return { data: { id: '5' } };
       });
+      const onProgress = vi.fn();
+
+      await mediaApi.uploadMedia(new FormData(), { onProgress });
+
+      expect(onProgress).toHaveBeenCalledWith(50, 100);
     });
 
     it('should upload media with metadata', async () => {
@@ -147,6 +165,169 @@ describe('Media API', () => {
     });
   });
 
+  describe('replaceMedia', () => {
+    it('should upload a new file for an existing media item', async () => {
+      const updated = { id: '1', filename: 'photo.webp' };
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: updated } as any);
+      const formData = new FormData();
+      formData.append('file', new Blob(['edited']), 'photo.webp');
+
+      const result = await mediaApi.replaceMedia('1', formData);
+
+      expect(result).toEqual(updated);
+      expect(apiClient.post).toHaveBeenCalledWith(
+        '/media/1/versions',
+        formData,
+        expect.objectContaining({ headers: { 'Content-Type': 'multipart/form-data' } })
+      );
+    });
+
+    it('should list previous versions', async () => {
+      const versions = [{ id: 'v1', media_id: '1', version: 1, filename: 'photo.jpg' }];
+      vi.mocked(apiClient.get).mockResolvedValueOnce({ data: versions } as any);
+
+      const result = await mediaApi.getMediaVersions('1');
+
+      expect(result).toEqual(versions);
+      expect(apiClient.get).toHaveBeenCalledWith('/media/1/versions');
+    });
+  });
+
+  describe('getMediaUsage', () => {
+    it('should fetch where a media item is used', async () => {
+      const usage = [{ kind: 'content_entry', id: 'e1', title: 'Home', field: 'hero_image' }];
+      vi.mocked(apiClient.get).mockResolvedValueOnce({ data: usage } as any);
+
+      const result = await mediaApi.getMediaUsage('1');
+
+      expect(result).toEqual(usage);
+      expect(apiClient.get).toHaveBeenCalledWith('/media/1/usage');
+    });
+
+    it('should filter the list to unused media', async () => {
+      vi.mocked(apiClient.get).mockResolvedValueOnce({ data: { items: [], total: 0 } } as any);
+
+      await mediaApi.getMedia({ unused: true });
+
+      expect(apiClient.get).toHaveBeenCalledWith('/media', {
+        params: { page: 1, size: 20, unused: true },
+      });
+    });
+
+    it('should filter the list to images without alt text', async () => {
+      vi.mocked(apiClient.get).mockResolvedValueOnce({ data: { items: [], total: 0 } } as any);
+
+      await mediaApi.getMedia({ file_type: 'image', missing_alt: true });
+
+      expect(apiClient.get).toHaveBeenCalledWith('/media', {
+        params: { page: 1, size: 20, file_type: 'image', missing_alt: true },
+      });
+    });
+  });
+
+  describe('video and audio', () => {
+    it('should upload a captured frame as the poster', async () => {
+      const updated = { id: '1', poster_url: '/media/proxy/poster.jpg' };
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: updated } as any);
+
+      const result = await mediaApi.setPoster('1', new Blob(['frame'], { type: 'image/jpeg' }), 12.5);
+
+      expect(result).toEqual(updated);
+      const [url, formData] = vi.mocked(apiClient.post).mock.calls[0];
+      expect(url).toBe('/media/1/poster');
+      expect((formData as FormData).get('time')).toBe('12.5');
+      expect(((formData as FormData).get('file') as File).name).toBe('poster.jpg');
+    });
+
+    it('should list captions', async () => {
+      const captions = [{ id: 'c1', media_id: '1', locale: 'en', label: 'English', kind: 'captions', url: '/en.vtt' }];
+      vi.mocked(apiClient.get).mockResolvedValueOnce({ data: captions } as any);
+
+      const result = await mediaApi.getCaptions('1');
+
+      expect(result).toEqual(captions);
+      expect(apiClient.get).toHaveBeenCalledWith('/media/1/captions');
+    });
+
+    it('should upload a caption file with its locale and kind', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: { id: 'c2' } } as any);
+      const file = new File(['WEBVTT'], 'fr.vtt', { type: 'text/vtt' });
+
+      await mediaApi.uploadCaption('1', { file, locale: 'fr', label: 'Français', kind: 'subtitles' });
+
+      const [url, formData] = vi.mocked(apiClient.post).mock.calls[0];
+      expect(url).toBe('/media/1/captions');
+      expect((formData as FormData).get('file')).toBe(file);
+      expect((formData as FormData).get('locale')).toBe('fr');
+      expect((formData as FormData).get('label')).toBe('Français');
+      expect((formData as FormData).get('kind')).toBe('subtitles');
+    });
+
+    it('should delete a caption', async () => {
+      vi.mocked(apiClient.delete).mockResolvedValueOnce({} as any);
+
+      await mediaApi.deleteCaption('1', 'c1');
+
+      expect(apiClient.delete).toHaveBeenCalledWith('/media/1/captions/c1');
+    });
+  });
+
+  describe('chunked uploads', () => {
+    const session = { upload_id: 'up-1', chunk_size: 5242880, received_chunks: [0] };
+
+    it('should create an upload session', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: session } as any);
+
+      const data = { filename: 'clip.mp4', mime_type: 'video/mp4', file_size: 12000000, chunk_size: 5242880 };
+      const result = await mediaApi.createUploadSession(data);
+
+      expect(result).toEqual(session);
+      expect(apiClient.post).toHaveBeenCalledWith('/media/uploads', data);
+    });
+
+    it('should fetch an upload session to resume it', async () => {
+      vi.mocked(apiClient.get).mockResolvedValueOnce({ data: session } as any);
+
+      const result = await mediaApi.getUploadSession('up-1');
+
+      expect(result).toEqual(session);
+      expect(apiClient.get).toHaveBeenCalledWith('/media/uploads/up-1');
+    });
+
+    it('should upload a chunk as binary', async () => {
+      vi.mocked(apiClient.put).mockResolvedValueOnce({ data: null } as any);
+      const chunk = new Blob(['part']);
+
+      await mediaApi.uploadChunk('up-1', 2, chunk);
+
+      expect(apiClient.put).toHaveBeenCalledWith(
+        '/media/uploads/up-1/chunks/2',
+        chunk,
+        expect.objectContaining({
+          headers: { 'Content-Type': 'application/octet-stream' },
+          timeout: 0,
+        })
+      );
+    });
+
+    it('should complete an upload session', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: { id: '6', filename: 'clip.mp4' } } as any);
+
+      const result = await mediaApi.completeUploadSession('up-1');
+
+      expect(result).toEqual({ id: '6', filename: 'clip.mp4' });
+      expect(apiClient.post).toHaveBeenCalledWith('/media/uploads/up-1/complete');
+    });
+
+    it('should abort an upload session', async () => {
+      vi.mocked(apiClient.delete).mockResolvedValueOnce({} as any);
+
+      await mediaApi.abortUploadSession('up-1');
+
+      expect(apiClient.delete).toHaveBeenCalledWith('/media/uploads/up-1');
+    });
+  });
+
   describe('updateMedia', () => {
     it('should update media metadata', async () => {
       const updateData = { alt_text: 'Updated alt text', caption: 'New caption' };
@@ -200,5 +381,66 @@ describe('Media API', () => {
       expect(apiClient.delete).toHaveBeenCalledWith('/media/2');
       expect(apiClient.delete).toHaveBeenCalledWith('/media/3');
     });
+
+    it('should force deletion of media that is still in use', async () => {
+      vi.mocked(apiClient.delete).mockResolvedValueOnce({} as any);
+
+      await mediaApi.deleteMedia('1', { force: true });
+
+      expect(apiClient.delete).toHaveBeenCalledWith('/media/1', { params: { force: true } });
+    });
+  });
+
+  describe('organisation', () => {
+    it('should filter by folder and tags', async () => {
+      vi.mocked(apiClient.get).mockResolvedValueOnce({ data: { items: [], total: 0 } } as any);
+
+      await mediaApi.getMedia({ folder_id: 'f1', tags: ['product', 'summer'] });
+
+      expect(apiClient.get).toHaveBeenCalledWith('/media', {
+        params: { page: 1, size: 20, folder_id: 'f1', tags: 'product,summer' },
+      });
+    });
+
+    it('should move media into a folder', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: null } as any);
+
+      await mediaApi.moveMedia(['1', '2'], 'f1');
+
+      expect(apiClient.post).toHaveBeenCalledWith('/media/move', { media_ids: ['1', '2'], folder_id: 'f1' });
+    });
+
+    it('should add and remove tags in bulk', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: null } as any);
+
+      await mediaApi.tagMedia(['1'], { add: ['hero'] });
+
+      expect(apiClient.post).toHaveBeenCalledWith('/media/tags', { media_ids: ['1'], add: ['hero'], remove: [] });
+    });
+
+    it('should create, move and delete folders', async () => {
+      const folder = { id: 'f2', name: 'Shoes', parent_id: 'f1' };
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: folder } as any);
+      vi.mocked(apiClient.put).mockResolvedValueOnce({ data: { ...folder, parent_id: null } } as any);
+      vi.mocked(apiClient.delete).mockResolvedValueOnce({} as any);
+
+      expect(await mediaApi.createFolder({ name: 'Shoes', parent_id: 'f1' })).toEqual(folder);
+      await mediaApi.updateFolder('f2', { parent_id: null });
+      await mediaApi.deleteFolder('f2');
+
+      expect(apiClient.post).toHaveBeenCalledWith('/media/folders', { name: 'Shoes', parent_id: 'f1' });
+      expect(apiClient.put).toHaveBeenCalledWith('/media/folders/f2', { parent_id: null });
+      expect(apiClient.delete).toHaveBeenCalledWith('/media/folders/f2');
+    });
+
+    it('should save folder permission rules', async () => {
+      const rules = [{ role_id: 'r1', can_upload: true, can_delete: false }];
+      vi.mocked(apiClient.put).mockResolvedValueOnce({ data: rules } as any);
+
+      const result = await mediaApi.updateFolderRules('f1', rules);
+
+      expect(result).toEqual(rules);
+      expect(apiClient.put).toHaveBeenCalledWith('/media/folders/f1/permissions', { rules });
+    });
   });
 });
@@ -1,12 +1,46 @@
 import apiClient from './client';
-import { Media, PaginatedResponse } from '@/types';
+import {
+  Media,
+  MediaCaption,
+  MediaFolder,
+  MediaFolderRule,
+  MediaTag,
+  MediaUsage,
+  MediaVersion,
+  PaginatedResponse,
+} from '@/types';
 import { PageRequest, DEFAULT_PAGE_SIZE } from '@/lib/pagination';
 
 export interface MediaListParams extends PageRequest {
   file_type?: string;
   search?: string;
+  folder_id?: string;
+  /** Items must have all of these tags */
+  tags?: string[];
+  /** Only items no content entry or navigation item references */
+  unused?: boolean;
+  /** Only items with no alt text */
+  missing_alt?: boolean;
 }
 
+export interface UploadOptions {
+  onProgress?: (loaded: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Server-side state of a chunked upload. Chunks are numbered from 0 and may
+ * arrive in any order; received_chunks lets an interrupted upload resume.
+ */
+export interface UploadSession {
+  upload_id: string;
+  chunk_size: number;
+  received_chunks: number[];
+}
+
+// Uploads can take far longer than the client's default 30s timeout
+const UPLOAD_TIMEOUT = 0;
+
 export const mediaApi = {
   /**
    * Get paginated list of media files.
@@ -27,6 +61,18 @@ export const mediaApi = {
     if (params?.search) {
       apiParams.search = params.search;
     }
+    if (params?.folder_id) {
+      apiParams.folder_id = params.folder_id;
+    }
+    if (params?.tags?.length) {
+      apiParams.tags = params.tags.join(',');
+    }
+    if (params?.unused) {
+      apiParams.unused = true;
+    }
+    if (params?.missing_alt) {
+      apiParams.missing_alt = true;
+    }
 
     const response = await apiClient.get<PaginatedResponse<Media>>('/media', {
       params: apiParams,
@@ -39,21 +85,207 @@ export const mediaApi = {
     return response.data;
   },
 
-  async uploadMedia(formData: FormData): Promise<Media> {
+  async uploadMedia(formData: FormData, options?: UploadOptions): Promise<Media> {
     const response = await apiClient.post<Media>('/media/upload', formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      timeout: UPLOAD_TIMEOUT,
+      signal: options?.signal,
+      onUploadProgress: (event) => options?.onProgress?.(event.loaded, event.total ?? event.loaded),
+    });
+    return response.data;
+  },
+
+  /**
+   * Swap the file of an existing media item. The ID, URL, alt text, tags and
+   * every reference stay as they are; the previous file is kept as a version.
+   */
+  async replaceMedia(id: string, formData: FormData, options?: UploadOptions): Promise<Media> {
+    const response = await apiClient.post<Media>(`/media/${id}/versions`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: UPLOAD_TIMEOUT,
+      signal: options?.signal,
+      onUploadProgress: (event) => options?.onProgress?.(event.loaded, event.total ?? event.loaded),
+    });
+    return response.data;
+  },
+
+  async getMediaVersions(id: string): Promise<MediaVersion[]> {
+    const response = await apiClient.get<MediaVersion[]>(`/media/${id}/versions`);
+    return response.data;
+  },
+
+  /**
+   * Content entries and navigation items that reference the media item, by
+   * ID or by any of its URLs (including gallery items).
+   */
+  async getMediaUsage(id: string): Promise<MediaUsage[]> {
+    const response = await apiClient.get<MediaUsage[]>(`/media/${id}/usage`);
+    return response.data;
+  },
+
+  /**
+   * Set the poster of a video from a captured frame. time is the position of
+   * the frame in seconds, kept so the scrubber can reopen there.
+   */
+  async setPoster(id: string, frame: Blob, time: number): Promise<Media> {
+    const formData = new FormData();
+    formData.append('file', frame, 'poster.jpg');
+    formData.append('time', String(time));
+    const response = await apiClient.post<Media>(`/media/${id}/poster`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  async getCaptions(id: string): Promise<MediaCaption[]> {
+    const response = await apiClient.get<MediaCaption[]>(`/media/${id}/captions`);
+    return response.data;
+  },
+
+  /**
+   * Attach a WebVTT file. An existing track with the same locale and kind is replaced.
+   */
+  async uploadCaption(
+    id: string,
+    data: { file: File; locale: string; label: string; kind: MediaCaption['kind'] }
+  ): Promise<MediaCaption> {
+    const formData = new FormData();
+    formData.append('file', data.file);
+    formData.append('locale', data.locale);
+    formData.append('label', data.label);
+    formData.append('kind', data.kind);
+    const response = await apiClient.post<MediaCaption>(`/media/${id}/captions`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
     });
     return response.data;
   },
 
+  async deleteCaption(id: string, captionId: string): Promise<void> {
+    await apiClient.delete(`/media/${id}/captions/${captionId}`);
+  },
+
+  // Chunked uploads
+  async createUploadSession(data: {
+    filename: string;
+    mime_type: string;
+    file_size: number;
+    chunk_size: number;
+    /** Extra upload form fields, e.g. focal_point */
+    fields?: Record<string, string>;
+  }): Promise<UploadSession> {
+    const response = await apiClient.post<UploadSession>('/media/uploads', data);
+    return response.data;
+  },
+
+  async getUploadSession(uploadId: string): Promise<UploadSession> {
+    const response = await apiClient.get<UploadSession>(`/media/uploads/${uploadId}`);
+    return response.data;
+  },
+
+  async uploadChunk(uploadId: string, index: number, chunk: Blob, options?: UploadOptions): Promise<void> {
+    await apiClient.put(`/media/uploads/${uploadId}/chunks/${index}`, chunk, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+      },
+      timeout: UPLOAD_TIMEOUT,
+      signal: options?.signal,
+      onUploadProgress: (event) => options?.onProgress?.(event.loaded, event.total ?? chunk.size),
+    });
+  },
+
+  /**
+   * Assemble the received chunks into a media item.
+   */
+  async completeUploadSession(uploadId: string): Promise<Media> {
+    const response = await apiClient.post<Media>(`/media/uploads/${uploadId}/complete`);
+    return response.data;
+  },
+
+  async abortUploadSession(uploadId: string): Promise<void> {
+    await apiClient.delete(`/media/uploads/${uploadId}`);
+  },
+
   async updateMedia(id: string, data: Partial<Media>): Promise<Media> {
     const response = await apiClient.put<Media>(`/media/${id}`, data);
     return response.data;
   },
 
-  async deleteMedia(id: string): Promise<void> {
-    await apiClient.delete(`/media/${id}`);
+  /**
+   * Delete a media item. The API refuses to delete items that are still
+   * referenced unless force is set.
+   */
+  async deleteMedia(id: string, options?: { force?: boolean }): Promise<void> {
+    if (options?.force) {
+      await apiClient.delete(`/media/${id}`, { params: { force: true } });
+    } else {
+      await apiClient.delete(`/media/${id}`);
+    }
+  },
+
+  /**
+   * Move media items into a folder; null moves them out of every folder.
+   */
+  async moveMedia(mediaIds: string[], folderId: string | null): Promise<void> {
+    await apiClient.post('/media/move', { media_ids: mediaIds, folder_id: folderId });
+  },
+
+  async tagMedia(mediaIds: string[], changes: { add?: string[]; remove?: string[] }): Promise<void> {
+    await apiClient.post('/media/tags', {
+      media_ids: mediaIds,
+      add: changes.add || [],
+      remove: changes.remove || [],
+    });
+  },
+
+  /**
+   * Tags in use across the library, most used first.
+   */
+  async getTags(): Promise<MediaTag[]> {
+    const response = await apiClient.get<MediaTag[]>('/media/tags');
+    return response.data;
+  },
+
+  // Folders
+  async getFolders(): Promise<MediaFolder[]> {
+    const response = await apiClient.get<MediaFolder[]>('/media/folders');
+    return response.data;
+  },
+
+  async createFolder(data: { name: string; parent_id: string | null }): Promise<MediaFolder> {
+    const response = await apiClient.post<MediaFolder>('/media/folders', data);
+    return response.data;
+  },
+
+  /**
+   * Rename a folder or move it by changing parent_id.
+   */
+  async updateFolder(id: string, data: { name?: string; parent_id?: string | null }): Promise<MediaFolder> {
+    const response = await apiClient.put<MediaFolder>(`/media/folders/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Delete a folder. Its media and subfolders move to the parent folder.
+   */
+  async deleteFolder(id: string): Promise<void> {
+    await apiClient.delete(`/media/folders/${id}`);
+  },
+
+  async getFolderRules(id: string): Promise<MediaFolderRule[]> {
+    const response = await apiClient.get<MediaFolderRule[]>(`/media/folders/${id}/permissions`);
+    return response.data;
+  },
+
+  async updateFolderRules(id: string, rules: MediaFolderRule[]): Promise<MediaFolderRule[]> {
+    const response = await apiClient.put<MediaFolderRule[]>(`/media/folders/${id}/permissions`, { rules });
+    return response.data;
   },
 };
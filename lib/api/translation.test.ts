@@ -335,6 +335,29 @@ describe('translationApi', () => {
       });
     });
 
+    it('should send per-field status with the translation', async () => {
+      vi.mocked(apiClient.put).mockResolvedValueOnce({ data: {} } as any);
+      const fieldStatus = { title: { source_hash: 'abc', machine: false, reviewed: true } };
+
+      await translationApi.createOrUpdateTranslation('10', 'fr', { title: 'Titre' }, { fieldStatus });
+
+      expect(apiClient.put).toHaveBeenCalledWith('/translation/content/10/fr', {
+        translated_data: { title: 'Titre' },
+        field_status: fieldStatus,
+      });
+    });
+
+    it('should mark the translation as manual when asked', async () => {
+      vi.mocked(apiClient.put).mockResolvedValueOnce({ data: {} } as any);
+
+      await translationApi.createOrUpdateTranslation('10', 'fr', { title: 'Titre' }, { isManual: true });
+
+      expect(apiClient.put).toHaveBeenCalledWith('/translation/content/10/fr', {
+        translated_data: { title: 'Titre' },
+        is_manual: true,
+      });
+    });
+
     it('should handle invalid locale code error', async () => {
       vi.mocked(apiClient.put).mockRejectedValueOnce(new Error('Locale not enabled'));
 
@@ -432,5 +455,68 @@ describe('translationApi', () => {
 
       await expect(translationApi.autoTranslate("999", ['es'])).rejects.toThrow('Content not found');
     });
+
+    it('should pass glossary terms to the translation service', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: { message: 'ok', translations: [] } } as any);
+
+      await translationApi.autoTranslate('10', ['de'], [{ source: 'Acme Pro', target: 'Acme Pro' }]);
+
+      expect(apiClient.post).toHaveBeenCalledWith('/translation/content/10/auto-translate', {
+        target_locales: ['de'],
+        glossary: [{ source: 'Acme Pro', target: 'Acme Pro' }],
+      });
+    });
+  });
+
+  describe('translation memory', () => {
+    it('should search segments for a locale pair', async () => {
+      vi.mocked(apiClient.get).mockResolvedValueOnce({ data: [] } as any);
+
+      await translationApi.getTranslationMemory({ source_locale: 'en', target_locale: 'de', search: 'cart' });
+
+      expect(apiClient.get).toHaveBeenCalledWith('/translation/memory', {
+        params: { source_locale: 'en', target_locale: 'de', search: 'cart' },
+      });
+    });
+
+    it('should record segments in one request', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: [] } as any);
+      const segment = { source_locale: 'en', target_locale: 'de', source: 'Cart', target: 'Warenkorb' };
+
+      await translationApi.addTranslationMemory([segment]);
+
+      expect(apiClient.post).toHaveBeenCalledWith('/translation/memory', { segments: [segment] });
+    });
+
+    it('should delete a segment', async () => {
+      vi.mocked(apiClient.delete).mockResolvedValueOnce({ data: undefined } as any);
+
+      await translationApi.deleteTranslationMemorySegment('tm-1');
+
+      expect(apiClient.delete).toHaveBeenCalledWith('/translation/memory/tm-1');
+    });
+  });
+
+  describe('glossary', () => {
+    const term = {
+      term: 'Checkout',
+      do_not_translate: false,
+      translations: { de: 'Kasse' },
+      case_sensitive: false,
+    };
+
+    it('should create, update and delete terms', async () => {
+      vi.mocked(apiClient.post).mockResolvedValueOnce({ data: { id: 'g1', ...term } } as any);
+      vi.mocked(apiClient.put).mockResolvedValueOnce({ data: { id: 'g1', ...term } } as any);
+      vi.mocked(apiClient.delete).mockResolvedValueOnce({ data: undefined } as any);
+
+      await translationApi.createGlossaryTerm(term);
+      await translationApi.updateGlossaryTerm('g1', { do_not_translate: true });
+      await translationApi.deleteGlossaryTerm('g1');
+
+      expect(apiClient.post).toHaveBeenCalledWith('/translation/glossary', term);
+      expect(apiClient.put).toHaveBeenCalledWith('/translation/glossary/g1', { do_not_translate: true });
+      expect(apiClient.delete).toHaveBeenCalledWith('/translation/glossary/g1');
+    });
   });
 });
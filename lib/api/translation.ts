@@ -1,5 +1,5 @@
 import apiClient from './client';
-import { Translation, Locale } from '@/types';
+import { Translation, Locale, TranslationFieldState, TranslationMemorySegment, GlossaryTerm } from '@/types';
 
 export interface LocaleCreate {
   code: string;
@@ -8,6 +8,7 @@ export interface LocaleCreate {
   is_default?: boolean;
   is_enabled?: boolean;
   auto_translate?: boolean;
+  fallback_locales?: string[] | null;
 }
 
 export interface LocaleUpdate {
@@ -16,6 +17,31 @@ export interface LocaleUpdate {
   is_default?: boolean;
   is_enabled?: boolean;
   auto_translate?: boolean;
+  fallback_locales?: string[] | null;
+}
+
+export interface TranslationSaveOptions {
+  fieldStatus?: Record<string, TranslationFieldState>;
+  isManual?: boolean;
+}
+
+export type TranslationMemoryCreate = Pick<
+  TranslationMemorySegment,
+  'source_locale' | 'target_locale' | 'source' | 'target' | 'content_id' | 'field'
+>;
+
+export interface TranslationMemoryQuery {
+  source_locale?: string;
+  target_locale?: string;
+  search?: string;
+}
+
+export type GlossaryTermCreate = Pick<GlossaryTerm, 'term' | 'do_not_translate' | 'translations' | 'case_sensitive' | 'notes'>;
+
+/** A term the translation service must render as target */
+export interface MachineGlossaryEntry {
+  source: string;
+  target: string;
 }
 
 export const translationApi = {
@@ -51,15 +77,22 @@ export const translationApi = {
     return response.data;
   },
 
+  /**
+   * Save a translation. fieldStatus is merged into the stored per-field
+   * state; fields it leaves out keep theirs. isManual marks the whole
+   * translation as made by a person rather than a translation service.
+   */
   async createOrUpdateTranslation(
     contentId: string,
     localeCode: string,
-    data: Record<string, any>
+    data: Record<string, any>,
+    options: TranslationSaveOptions = {}
   ): Promise<Translation> {
-    const response = await apiClient.put<Translation>(
-      `/translation/content/${contentId}/${localeCode}`,
-      { translated_data: data }
-    );
+    const response = await apiClient.put<Translation>(`/translation/content/${contentId}/${localeCode}`, {
+      translated_data: data,
+      ...(options.fieldStatus && { field_status: options.fieldStatus }),
+      ...(options.isManual !== undefined && { is_manual: options.isManual }),
+    });
     return response.data;
   },
 
@@ -67,10 +100,58 @@ export const translationApi = {
     await apiClient.delete(`/translation/content/${contentId}/${localeCode}`);
   },
 
-  async autoTranslate(contentId: string, targetLocales: string[]): Promise<{ message: string; translations: Translation[] }> {
+  /**
+   * Machine-translate an entry. Glossary entries are passed to the
+   * translation service so brand terms come out the same every time.
+   */
+  async autoTranslate(
+    contentId: string,
+    targetLocales: string[],
+    glossary?: MachineGlossaryEntry[]
+  ): Promise<{ message: string; translations: Translation[] }> {
     const response = await apiClient.post(`/translation/content/${contentId}/auto-translate`, {
       target_locales: targetLocales,
+      ...(glossary && glossary.length > 0 && { glossary }),
     });
     return response.data;
   },
+
+  // Translation Memory
+  async getTranslationMemory(params: TranslationMemoryQuery = {}): Promise<TranslationMemorySegment[]> {
+    const response = await apiClient.get<TranslationMemorySegment[]>('/translation/memory', { params });
+    return response.data;
+  },
+
+  /**
+   * Record approved segments. Segments with the same source and locales
+   * replace the stored target.
+   */
+  async addTranslationMemory(segments: TranslationMemoryCreate[]): Promise<TranslationMemorySegment[]> {
+    const response = await apiClient.post<TranslationMemorySegment[]>('/translation/memory', { segments });
+    return response.data;
+  },
+
+  async deleteTranslationMemorySegment(segmentId: string): Promise<void> {
+    await apiClient.delete(`/translation/memory/${segmentId}`);
+  },
+
+  // Glossary
+  async getGlossary(): Promise<GlossaryTerm[]> {
+    const response = await apiClient.get<GlossaryTerm[]>('/translation/glossary');
+    return response.data;
+  },
+
+  async createGlossaryTerm(data: GlossaryTermCreate): Promise<GlossaryTerm> {
+    const response = await apiClient.post<GlossaryTerm>('/translation/glossary', data);
+    return response.data;
+  },
+
+  async updateGlossaryTerm(termId: string, data: Partial<GlossaryTermCreate>): Promise<GlossaryTerm> {
+    const response = await apiClient.put<GlossaryTerm>(`/translation/glossary/${termId}`, data);
+    return response.data;
+  },
+
+  async deleteGlossaryTerm(termId: string): Promise<void> {
+    await apiClient.delete(`/translation/glossary/${termId}`);
+  },
 };
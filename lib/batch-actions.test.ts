@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyTemplateDefaults, runInBatches } from './batch-actions';
+
+describe('runInBatches', () => {
+  it('should report progress per chunk', async () => {
+    const worker = vi.fn().mockResolvedValue(undefined);
+    const onProgress = vi.fn();
+
+    const failures = await runInBatches([1, 2, 3, 4, 5], worker, onProgress, 2);
+
+    expect(failures).toEqual([]);
+    expect(worker).toHaveBeenCalledTimes(5);
+    expect(onProgress.mock.calls.map(([done]) => done)).toEqual([2, 4, 5]);
+  });
+
+  it('should keep going after a failure and return it', async () => {
+    const error = new Error('Forbidden');
+    const worker = vi.fn(async (item: number) => {
+      if (item === 2) throw error;
+    });
+
+    const failures = await runInBatches([1, 2, 3], worker, undefined, 2);
+
+    expect(worker).toHaveBeenCalledTimes(3);
+    expect(failures).toEqual([{ item: 2, error }]);
+  });
+});
+
+describe('applyTemplateDefaults', () => {
+  it('should overwrite entry values with template defaults', () => {
+    expect(applyTemplateDefaults({ title: 'Hat', layout: 'wide' }, { layout: 'narrow', featured: true })).toEqual({
+      title: 'Hat',
+      layout: 'narrow',
+      featured: true,
+    });
+  });
+
+  it('should leave data unchanged without defaults', () => {
+    expect(applyTemplateDefaults({ title: 'Hat' }, undefined)).toEqual({ title: 'Hat' });
+  });
+});
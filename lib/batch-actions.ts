@@ -0,0 +1,85 @@
+/**
+ * Batch Actions
+ *
+ * Shared pieces for running one action over many content entries: chunked
+ * execution with progress, and the labels shown in the progress panel.
+ */
+
+import { ContentType } from '@/types';
+import { getActiveFields } from './conditions';
+import { compileSchema } from './validation';
+import { isWorkflowEnabled } from './workflow';
+
+export type BatchAction = 'publish' | 'unpublish' | 'archive' | 'delete' | 'change_author' | 'apply_template';
+
+export const BATCH_ACTION_LABELS: Record<BatchAction, { label: string; past: string }> = {
+  publish: { label: 'Publish', past: 'Published' },
+  unpublish: { label: 'Unpublish', past: 'Unpublished' },
+  archive: { label: 'Archive', past: 'Archived' },
+  delete: { label: 'Delete', past: 'Deleted' },
+  change_author: { label: 'Change Author', past: 'Reassigned' },
+  apply_template: { label: 'Apply Template', past: 'Updated' },
+};
+
+/** Requests sent at the same time */
+export const BATCH_SIZE = 10;
+
+/** How long a finished batch (or a pending delete) can be undone */
+export const UNDO_WINDOW_MS = 15000;
+
+export interface BatchFailure {
+  entry_id: string;
+  title: string;
+  error: string;
+}
+
+/**
+ * Run `worker` over every item, `size` at a time. Failures do not stop the
+ * batch; they are collected and returned with the item that failed.
+ */
+export async function runInBatches<T>(
+  items: T[],
+  worker: (item: T) => Promise<void>,
+  onProgress?: (done: number) => void,
+  size = BATCH_SIZE
+): Promise<{ item: T; error: unknown }[]> {
+  const failures: { item: T; error: unknown }[] = [];
+  for (let i = 0; i < items.length; i += size) {
+    await Promise.all(
+      items.slice(i, i + size).map(async (item) => {
+        try {
+          await worker(item);
+        } catch (error) {
+          failures.push({ item, error });
+        }
+      })
+    );
+    onProgress?.(Math.min(i + size, items.length));
+  }
+  return failures;
+}
+
+/**
+ * Why an entry cannot be published in bulk, or null when it can. Bulk
+ * publishing follows the same rules as the editor: types with a review
+ * workflow publish through their stages only, and invalid entries stay
+ * unpublished.
+ */
+export function getPublishBlocker(contentType: ContentType, data: Record<string, unknown>): string | null {
+  if (isWorkflowEnabled(contentType.workflow)) {
+    return 'Needs review: publish it through the review workflow';
+  }
+  const fields = getActiveFields(contentType.fields || [], data);
+  const firstError = Object.values(compileSchema(fields).validate(data))[0];
+  return firstError ? `Fix before publishing: ${firstError}` : null;
+}
+
+/**
+ * Entry data with a template's field defaults applied on top.
+ */
+export function applyTemplateDefaults(
+  data: Record<string, unknown>,
+  defaults: Record<string, unknown> | undefined
+): Record<string, unknown> {
+  return { ...data, ...(defaults || {}) };
+}
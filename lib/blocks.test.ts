@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BLOCK_FIELD_TYPES,
+  BLOCK_PRESETS,
+  createBlock,
+  getBlocks,
+  parseFeatureLines,
+  validateBlockSchemas,
+} from './blocks';
+
+describe('blocks', () => {
+  describe('BLOCK_PRESETS', () => {
+    it('should provide hero, feature grid, testimonial and CTA blocks', () => {
+      expect(BLOCK_PRESETS.map((b) => b.key)).toEqual(['hero', 'feature_grid', 'testimonial', 'cta']);
+    });
+
+    it('should be valid block schemas', () => {
+      expect(validateBlockSchemas(BLOCK_PRESETS)).toBeNull();
+    });
+  });
+
+  it('should not allow blocks inside blocks', () => {
+    expect(BLOCK_FIELD_TYPES.some((ft) => ft.type === 'components')).toBe(false);
+  });
+
+  describe('createBlock', () => {
+    it('should create a block with field defaults', () => {
+      const block = createBlock({
+        key: 'banner',
+        name: 'Banner',
+        fields: [
+          { name: 'title', type: 'text' },
+          { name: 'visible', type: 'boolean', default: true },
+        ],
+      });
+
+      expect(block.block).toBe('banner');
+      expect(block.data).toEqual({ visible: true });
+      expect(block.id).toMatch(/^block-/);
+    });
+
+    it('should give each block a unique ID', () => {
+      const hero = BLOCK_PRESETS[0];
+      expect(createBlock(hero).id).not.toBe(createBlock(hero).id);
+    });
+  });
+
+  describe('getBlocks', () => {
+    it('should keep valid blocks in order', () => {
+      const blocks = [
+        { id: 'a', block: 'hero', data: { heading: 'Hi' } },
+        { id: 'b', block: 'cta', data: {} },
+      ];
+      expect(getBlocks(blocks)).toEqual(blocks);
+    });
+
+    it('should drop invalid items and fill in missing parts', () => {
+      const result = getBlocks([null, 'text', { block: 'hero' }, { id: 'x', data: {} }]);
+      expect(result).toHaveLength(1);
+      expect(result[0].block).toBe('hero');
+      expect(result[0].data).toEqual({});
+      expect(result[0].id).toBeTruthy();
+    });
+
+    it('should give blocks without an ID the same ID on every read', () => {
+      const stored = [{ block: 'hero', data: {} }, { id: 'b', block: 'cta', data: {} }, { block: 'cta' }];
+      const ids = getBlocks(stored).map((block) => block.id);
+      expect(getBlocks(stored).map((block) => block.id)).toEqual(ids);
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    it('should return an empty list for non-arrays', () => {
+      expect(getBlocks('')).toEqual([]);
+      expect(getBlocks({ block: 'hero' })).toEqual([]);
+    });
+  });
+
+  describe('parseFeatureLines', () => {
+    it('should split titles and descriptions', () => {
+      expect(parseFeatureLines('Fast: Loads quickly\n\nSecure')).toEqual([
+        { title: 'Fast', description: 'Loads quickly' },
+        { title: 'Secure', description: '' },
+      ]);
+    });
+
+    it('should ignore non-string values', () => {
+      expect(parseFeatureLines(undefined)).toEqual([]);
+    });
+  });
+
+  describe('validateBlockSchemas', () => {
+    it('should require at least one block type', () => {
+      expect(validateBlockSchemas([])).toBe('Add at least one block type');
+      expect(validateBlockSchemas(undefined)).toBe('Add at least one block type');
+    });
+
+    it('should require names and fields', () => {
+      expect(validateBlockSchemas([{ key: '', name: '', fields: [] }])).toBe('Every block type needs a name');
+      expect(validateBlockSchemas([{ key: 'empty', name: 'Empty', fields: [] }])).toBe(
+        'Block "Empty" needs at least one field'
+      );
+    });
+
+    it('should reject duplicate block types and fields', () => {
+      const hero = BLOCK_PRESETS[0];
+      expect(validateBlockSchemas([hero, hero])).toBe('Duplicate block type "Hero"');
+      expect(
+        validateBlockSchemas([
+          { key: 'card', name: 'Card', fields: [{ name: 'title', type: 'text' }, { name: 'title', type: 'textarea' }] },
+        ])
+      ).toBe('Duplicate field "title" in block "Card"');
+    });
+
+    it('should reject nested blocks', () => {
+      expect(
+        validateBlockSchemas([{ key: 'card', name: 'Card', fields: [{ name: 'inner', type: 'components' }] }])
+      ).toBe('Block "Card" cannot contain nested blocks');
+    });
+  });
+});
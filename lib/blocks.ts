@@ -0,0 +1,150 @@
+/**
+ * Content Block Utilities
+ *
+ * A "components" field holds an ordered list of blocks. The content type
+ * declares which block schemas are available (hero, feature grid, ...), and
+ * each block stores its own field values under `data`.
+ */
+
+import { ContentBlock, ContentBlockSchema } from '@/types';
+import { FIELD_TYPES } from './field-types';
+
+/** Field types a block may contain (blocks cannot nest other blocks) */
+export const BLOCK_FIELD_TYPES = FIELD_TYPES.filter((ft) => ft.type !== 'components');
+
+export const BLOCK_PRESETS: ContentBlockSchema[] = [
+  {
+    key: 'hero',
+    name: 'Hero',
+    fields: [
+      { name: 'heading', type: 'text', label: 'Heading', required: true },
+      { name: 'subheading', type: 'textarea', label: 'Subheading' },
+      { name: 'image', type: 'image', label: 'Background Image' },
+      { name: 'cta_label', type: 'text', label: 'Button Label' },
+      { name: 'cta_url', type: 'url', label: 'Button URL' },
+    ],
+  },
+  {
+    key: 'feature_grid',
+    name: 'Feature Grid',
+    fields: [
+      { name: 'heading', type: 'text', label: 'Heading' },
+      {
+        name: 'features',
+        type: 'textarea',
+        label: 'Features',
+        help_text: 'One feature per line, as "Title: description"',
+      },
+    ],
+  },
+  {
+    key: 'testimonial',
+    name: 'Testimonial',
+    fields: [
+      { name: 'quote', type: 'textarea', label: 'Quote', required: true },
+      { name: 'author', type: 'text', label: 'Author' },
+      { name: 'role', type: 'text', label: 'Role' },
+      { name: 'avatar', type: 'image', label: 'Avatar' },
+    ],
+  },
+  {
+    key: 'cta',
+    name: 'Call to Action',
+    fields: [
+      { name: 'heading', type: 'text', label: 'Heading', required: true },
+      { name: 'body', type: 'textarea', label: 'Body' },
+      { name: 'button_label', type: 'text', label: 'Button Label' },
+      { name: 'button_url', type: 'url', label: 'Button URL' },
+    ],
+  },
+];
+
+function generateBlockId(): string {
+  return `block-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * A new block of the given schema, with field defaults applied.
+ */
+export function createBlock(schema: ContentBlockSchema): ContentBlock {
+  const data: Record<string, unknown> = {};
+  schema.fields.forEach((field) => {
+    if (field.default !== undefined) {
+      data[field.name] = field.default;
+    }
+  });
+  return { id: generateBlockId(), block: schema.key, data };
+}
+
+/**
+ * Normalize a stored components value, dropping anything that is not a block.
+ * Blocks saved without an ID get one from their position, so the same value
+ * always reads back with the same IDs.
+ */
+export function getBlocks(value: unknown): ContentBlock[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item) => item && typeof item === 'object' && typeof item.block === 'string')
+    .map((item, index) => ({
+      id: typeof item.id === 'string' && item.id ? item.id : `block-${index}`,
+      block: item.block,
+      data: item.data && typeof item.data === 'object' ? item.data : {},
+    }));
+}
+
+/**
+ * Parse feature grid lines of the form "Title: description".
+ */
+export function parseFeatureLines(value: unknown): { title: string; description: string }[] {
+  if (typeof value !== 'string') return [];
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const separator = line.indexOf(':');
+      return separator === -1
+        ? { title: line, description: '' }
+        : { title: line.slice(0, separator).trim(), description: line.slice(separator + 1).trim() };
+    });
+}
+
+/**
+ * Check block schemas before the content type is saved.
+ * Returns an error message, or null when valid.
+ */
+export function validateBlockSchemas(blocks: ContentBlockSchema[] | undefined): string | null {
+  if (!blocks || blocks.length === 0) {
+    return 'Add at least one block type';
+  }
+
+  const keys = new Set<string>();
+  for (const block of blocks) {
+    if (!block.name.trim() || !block.key.trim()) {
+      return 'Every block type needs a name';
+    }
+    if (keys.has(block.key)) {
+      return `Duplicate block type "${block.name}"`;
+    }
+    keys.add(block.key);
+
+    if (block.fields.length === 0) {
+      return `Block "${block.name}" needs at least one field`;
+    }
+    const fieldNames = new Set<string>();
+    for (const field of block.fields) {
+      if (!field.name.trim()) {
+        return `Every field in block "${block.name}" needs a key`;
+      }
+      if (fieldNames.has(field.name)) {
+        return `Duplicate field "${field.name}" in block "${block.name}"`;
+      }
+      if (field.type === 'components') {
+        return `Block "${block.name}" cannot contain nested blocks`;
+      }
+      fieldNames.add(field.name);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clearHiddenFields,
+  evaluateCondition,
+  evaluateRule,
+  getActiveFields,
+  getFieldStates,
+  validateFieldConditions,
+} from './conditions';
+import { ContentTypeField } from '@/types';
+
+const fields: ContentTypeField[] = [
+  { name: 'on_sale', type: 'boolean', label: 'On Sale' },
+  {
+    name: 'sale_price',
+    type: 'number',
+    label: 'Sale Price',
+    visibility: { action: 'show', match: 'all', conditions: [{ field: 'on_sale', operator: 'equals', value: 'true' }] },
+    clear_when_hidden: true,
+  },
+  {
+    name: 'sale_ends',
+    type: 'date',
+    label: 'Sale Ends',
+    visibility: { action: 'hide', match: 'all', conditions: [{ field: 'sale_price', operator: 'is_empty' }] },
+  },
+  {
+    name: 'notes',
+    type: 'text',
+    label: 'Notes',
+    required_when: { match: 'any', conditions: [{ field: 'sale_price', operator: 'greater_than', value: '100' }] },
+  },
+];
+
+describe('conditions', () => {
+  describe('evaluateCondition', () => {
+    it('should compare values loosely', () => {
+      expect(evaluateCondition({ field: 'a', operator: 'equals', value: 'true' }, { a: true })).toBe(true);
+      expect(evaluateCondition({ field: 'a', operator: 'equals', value: '10' }, { a: 10 })).toBe(true);
+      expect(evaluateCondition({ field: 'a', operator: 'equals', value: 'false' }, {})).toBe(true);
+      expect(evaluateCondition({ field: 'a', operator: 'not_equals', value: 'draft' }, { a: 'live' })).toBe(true);
+    });
+
+    it('should support contains, numeric and emptiness checks', () => {
+      expect(evaluateCondition({ field: 'a', operator: 'contains', value: 'SALE' }, { a: 'Summer sale' })).toBe(true);
+      expect(evaluateCondition({ field: 'a', operator: 'contains', value: 'x' }, { a: ['x', 'y'] })).toBe(true);
+      expect(evaluateCondition({ field: 'a', operator: 'greater_than', value: '5' }, { a: '6' })).toBe(true);
+      expect(evaluateCondition({ field: 'a', operator: 'less_than', value: '5' }, { a: '' })).toBe(false);
+      expect(evaluateCondition({ field: 'a', operator: 'is_empty' }, { a: '  ' })).toBe(true);
+      expect(evaluateCondition({ field: 'a', operator: 'is_not_empty' }, { a: [] })).toBe(false);
+    });
+  });
+
+  describe('evaluateRule', () => {
+    const conditions = [
+      { field: 'a', operator: 'equals' as const, value: '1' },
+      { field: 'b', operator: 'equals' as const, value: '2' },
+    ];
+
+    it('should match all or any conditions', () => {
+      expect(evaluateRule({ match: 'all', conditions }, { a: 1, b: 3 })).toBe(false);
+      expect(evaluateRule({ match: 'any', conditions }, { a: 1, b: 3 })).toBe(true);
+    });
+
+    it('should never match an empty rule', () => {
+      expect(evaluateRule({ match: 'all', conditions: [] }, {})).toBe(false);
+      expect(evaluateRule(undefined, {})).toBe(false);
+    });
+  });
+
+  describe('getFieldStates', () => {
+    it('should show and hide fields from other values', () => {
+      expect(getFieldStates(fields, { on_sale: false }).sale_price.visible).toBe(false);
+      expect(getFieldStates(fields, { on_sale: true }).sale_price.visible).toBe(true);
+      expect(getFieldStates(fields, { on_sale: true, sale_price: 5 }).sale_ends.visible).toBe(true);
+    });
+
+    it('should treat hidden fields as empty for later rules', () => {
+      const states = getFieldStates(fields, { on_sale: false, sale_price: 500 });
+      expect(states.sale_ends.visible).toBe(false);
+      expect(states.notes.required).toBe(false);
+    });
+
+    it('should resolve required-when rules', () => {
+      expect(getFieldStates(fields, { on_sale: true, sale_price: 500 }).notes.required).toBe(true);
+      expect(getFieldStates(fields, { on_sale: true, sale_price: 50 }).notes.required).toBe(false);
+    });
+  });
+
+  it('should exclude hidden fields from validation', () => {
+    const active = getActiveFields(fields, { on_sale: true, sale_price: 500 });
+    expect(active.map((f) => f.name)).toEqual(['on_sale', 'sale_price', 'sale_ends', 'notes']);
+    expect(active.find((f) => f.name === 'notes')?.required).toBe(true);
+    expect(getActiveFields(fields, {}).map((f) => f.name)).toEqual(['on_sale', 'notes']);
+  });
+
+  it('should clear hidden fields marked for clearing', () => {
+    expect(clearHiddenFields(fields, { on_sale: false, sale_price: 10, sale_ends: '2025-01-01' })).toEqual({
+      on_sale: false,
+      sale_ends: '2025-01-01',
+    });
+  });
+
+  describe('validateFieldConditions', () => {
+    const names = fields.map((f) => f.name);
+
+    it('should accept rules referencing other fields', () => {
+      expect(validateFieldConditions(fields[1], names)).toBeNull();
+    });
+
+    it('should reject self and unknown references', () => {
+      const rule = (field: string) => ({ action: 'show' as const, match: 'all' as const, conditions: [{ field, operator: 'is_empty' as const }] });
+      expect(validateFieldConditions({ ...fields[0], visibility: rule('on_sale') }, names)).toBe(
+        'A condition cannot depend on its own field'
+      );
+      expect(validateFieldConditions({ ...fields[0], visibility: rule('price') }, names)).toBe(
+        'Condition references unknown field "price"'
+      );
+      expect(validateFieldConditions({ ...fields[0], required_when: { match: 'all', conditions: [{ field: '', operator: 'is_empty' }] } }, names)).toBe(
+        'Every condition needs a field'
+      );
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Conditional Field Rules
+ *
+ * Fields can be shown, hidden or made required based on the values of other
+ * fields in the same entry (e.g. "sale_price" only when "on_sale" is true).
+ */
+
+import { ContentTypeField, FieldCondition, FieldConditionOperator, FieldRule } from '@/types';
+
+export const CONDITION_OPERATORS: { value: FieldConditionOperator; label: string; needsValue: boolean }[] = [
+  { value: 'equals', label: 'equals', needsValue: true },
+  { value: 'not_equals', label: 'does not equal', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'greater_than', label: 'is greater than', needsValue: true },
+  { value: 'less_than', label: 'is less than', needsValue: true },
+  { value: 'is_empty', label: 'is empty', needsValue: false },
+  { value: 'is_not_empty', label: 'is not empty', needsValue: false },
+];
+
+export interface FieldState {
+  visible: boolean;
+  required: boolean;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === false) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * Condition values are entered as text, so compare loosely:
+ * "true" matches a checked boolean and "10" matches the number 10.
+ */
+export function evaluateCondition(condition: FieldCondition, data: Record<string, unknown>): boolean {
+  const actual = data[condition.field];
+  const expected = condition.value ?? '';
+
+  switch (condition.operator) {
+    case 'is_empty':
+      return isEmptyValue(actual);
+    case 'is_not_empty':
+      return !isEmptyValue(actual);
+    case 'equals':
+    case 'not_equals': {
+      const text = actual === undefined || actual === null ? '' : String(actual);
+      // An unset checkbox counts as false
+      const equal = Array.isArray(actual)
+        ? actual.map(String).includes(expected)
+        : text === expected || (expected === 'false' && (actual === undefined || actual === null));
+      return condition.operator === 'equals' ? equal : !equal;
+    }
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.map(String).includes(expected)
+        : String(actual ?? '').toLowerCase().includes(expected.toLowerCase());
+    case 'greater_than':
+    case 'less_than': {
+      const a = Number(actual);
+      const b = Number(expected);
+      if (isEmptyValue(actual) || isNaN(a) || isNaN(b)) return false;
+      return condition.operator === 'greater_than' ? a > b : a < b;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * A rule with no conditions never matches.
+ */
+export function evaluateRule(rule: FieldRule | undefined, data: Record<string, unknown>): boolean {
+  if (!rule || rule.conditions.length === 0) return false;
+  return rule.match === 'any'
+    ? rule.conditions.some((condition) => evaluateCondition(condition, data))
+    : rule.conditions.every((condition) => evaluateCondition(condition, data));
+}
+
+/**
+ * Whether each field is currently visible and required. Fields are evaluated
+ * in order, and a hidden field counts as empty for the rules after it.
+ */
+export function getFieldStates(fields: ContentTypeField[], data: Record<string, unknown>): Record<string, FieldState> {
+  const states: Record<string, FieldState> = {};
+  const effective = { ...data };
+
+  fields.forEach((field) => {
+    const { visibility } = field;
+    let visible = true;
+    if (visibility && visibility.conditions.length > 0) {
+      const matches = evaluateRule(visibility, effective);
+      visible = visibility.action === 'hide' ? !matches : matches;
+    }
+    if (!visible) {
+      delete effective[field.name];
+    }
+
+    states[field.name] = {
+      visible,
+      required: visible && (!!field.required || evaluateRule(field.required_when, effective)),
+    };
+  });
+
+  return states;
+}
+
+/**
+ * The fields that should be validated: visible ones, with `required` resolved
+ * from their required-when rules.
+ */
+export function getActiveFields(fields: ContentTypeField[], data: Record<string, unknown>): ContentTypeField[] {
+  const states = getFieldStates(fields, data);
+  return fields
+    .filter((field) => states[field.name].visible)
+    .map((field) => ({ ...field, required: states[field.name].required }));
+}
+
+/**
+ * Remove values of hidden fields marked "clear when hidden" before saving.
+ */
+export function clearHiddenFields<T extends Record<string, unknown>>(fields: ContentTypeField[], data: T): T {
+  const states = getFieldStates(fields, data);
+  const cleared = { ...data };
+  fields.forEach((field) => {
+    if (field.clear_when_hidden && !states[field.name].visible) {
+      delete cleared[field.name];
+    }
+  });
+  return cleared;
+}
+
+/**
+ * Check a field's rules before the content type is saved.
+ * Returns an error message, or null when valid.
+ */
+export function validateFieldConditions(field: ContentTypeField, fieldNames: string[]): string | null {
+  for (const rule of [field.visibility, field.required_when]) {
+    for (const condition of rule?.conditions || []) {
+      if (!condition.field) {
+        return 'Every condition needs a field';
+      }
+      if (condition.field === field.name) {
+        return 'A condition cannot depend on its own field';
+      }
+      if (!fieldNames.includes(condition.field)) {
+        return `Condition references unknown field "${condition.field}"`;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUNDLE_FORMAT,
+  collectMediaUrls,
+  ContentBundle,
+  createBundle,
+  findBundleConflicts,
+  getUniqueKey,
+  parseBundle,
+  remapReferences,
+  validateBundle,
+} from './content-bundle';
+import { ContentEntry, ContentType } from '@/types';
+
+const contentType = (id: string, apiId: string, fields: ContentType['fields'] = []): ContentType => ({
+  id,
+  name: apiId,
+  api_id: apiId,
+  fields,
+  organization_id: 'org-1',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+});
+
+const entry = (id: string, typeId: string, slug: string, data: Record<string, unknown> = {}): ContentEntry => ({
+  id,
+  content_type_id: typeId,
+  slug,
+  status: 'published',
+  data,
+});
+
+const bundle = (overrides: Partial<ContentBundle> = {}): ContentBundle => ({
+  format: BUNDLE_FORMAT,
+  version: 1,
+  exported_at: '2025-01-01T00:00:00Z',
+  content_types: [{ api_id: 'post', name: 'Post', fields: [] }],
+  entries: [{ id: 'e1', content_type: 'post', slug: 'hello', status: 'draft', data: {}, translations: {} }],
+  media: [],
+  templates: [],
+  ...overrides,
+});
+
+describe('content-bundle', () => {
+  describe('createBundle', () => {
+    it('should key entries, templates and reference targets by api_id', () => {
+      const types = [
+        contentType('t1', 'post', [{ name: 'author', type: 'reference', allowed_content_types: ['t2'] }]),
+        contentType('t2', 'author'),
+      ];
+      const result = createBundle({
+        contentTypes: types,
+        entries: [entry('e1', 't1', 'hello', { author: 'e2' }), entry('x', 'other', 'skipped')],
+        translations: { e1: { fr: { title: 'Bonjour' } } },
+        templates: [
+          {
+            id: 'tpl-1',
+            organization_id: 'org-1',
+            content_type_id: 't2',
+            name: 'Bio',
+            is_system_template: false,
+            is_published: true,
+            usage_count: 0,
+            created_at: '',
+            updated_at: '',
+          },
+        ],
+      });
+
+      expect(result.format).toBe(BUNDLE_FORMAT);
+      expect(result.content_types[0].fields[0].allowed_content_types).toEqual(['author']);
+      expect(result.entries).toEqual([
+        {
+          id: 'e1',
+          content_type: 'post',
+          slug: 'hello',
+          status: 'published',
+          data: { author: 'e2' },
+          translations: { fr: { title: 'Bonjour' } },
+        },
+      ]);
+      expect(result.templates[0]).toMatchObject({ content_type: 'author', name: 'Bio' });
+    });
+  });
+
+  describe('collectMediaUrls', () => {
+    it('should collect image and file values once', () => {
+      const types = [contentType('t1', 'post', [{ name: 'cover', type: 'image' }, { name: 'title', type: 'text' }])];
+      const urls = collectMediaUrls(types, [
+        entry('e1', 't1', 'a', { cover: '/a.png', title: '/not-media' }),
+        entry('e2', 't1', 'b', { cover: '/a.png' }),
+        entry('e3', 't1', 'c', { cover: '' }),
+      ]);
+
+      expect(urls).toEqual(['/a.png']);
+    });
+  });
+
+  describe('validateBundle', () => {
+    it('should accept a well-formed bundle', () => {
+      expect(validateBundle(bundle())).toEqual([]);
+    });
+
+    it('should reject other files and newer versions', () => {
+      expect(validateBundle({ items: [] })).toEqual(['This file is not a content bundle']);
+      expect(validateBundle(bundle({ version: 2 }))).toEqual([
+        'Bundle version 2 is newer than this app supports (1)',
+      ]);
+    });
+
+    it('should report entries of unknown types and duplicate slugs', () => {
+      const errors = validateBundle(
+        bundle({
+          entries: [
+            { id: 'e1', content_type: 'post', slug: 'hello', status: 'draft', data: {}, translations: {} },
+            { id: 'e2', content_type: 'post', slug: 'hello', status: 'draft', data: {}, translations: {} },
+            { id: 'e3', content_type: 'page', slug: 'about', status: 'draft', data: {}, translations: {} },
+          ],
+        })
+      );
+
+      expect(errors).toEqual([
+        'Entry "post/hello" appears more than once',
+        'Entry "about" references unknown content type "page"',
+      ]);
+    });
+  });
+
+  describe('parseBundle', () => {
+    it('should report invalid JSON', () => {
+      expect(parseBundle('{')).toEqual({ bundle: null, errors: ['The file is not valid JSON'] });
+    });
+
+    it('should default missing optional sections', () => {
+      const raw = bundle();
+      const { bundle: parsed } = parseBundle(
+        JSON.stringify({ ...raw, media: undefined, templates: undefined, entries: [{ ...raw.entries[0], translations: undefined }] })
+      );
+
+      expect(parsed?.media).toEqual([]);
+      expect(parsed?.templates).toEqual([]);
+      expect(parsed?.entries[0].translations).toEqual({});
+    });
+  });
+
+  describe('findBundleConflicts', () => {
+    it('should match content types by api_id and entries by slug', () => {
+      const conflicts = findBundleConflicts(
+        bundle({
+          entries: [
+            { id: 'e1', content_type: 'post', slug: 'hello', status: 'draft', data: {}, translations: {} },
+            { id: 'e2', content_type: 'post', slug: 'new', status: 'draft', data: {}, translations: {} },
+          ],
+        }),
+        [contentType('t9', 'post'), contentType('t8', 'page')],
+        [entry('x1', 't9', 'hello'), entry('x2', 't8', 'new')]
+      );
+
+      expect(conflicts).toEqual([
+        { id: 'type:post', kind: 'content_type', content_type: 'post', key: 'post', existing_id: 't9' },
+        { id: 'entry:post/hello', kind: 'entry', content_type: 'post', key: 'hello', existing_id: 'x1' },
+      ]);
+    });
+
+    it('should find nothing for a new content type', () => {
+      expect(findBundleConflicts(bundle(), [contentType('t8', 'page')], [])).toEqual([]);
+    });
+  });
+
+  describe('getUniqueKey', () => {
+    it('should add a copy suffix that is not taken', () => {
+      expect(getUniqueKey('about', ['about'])).toBe('about-copy');
+      expect(getUniqueKey('about', ['about', 'about-copy', 'about-copy-2'])).toBe('about-copy-3');
+    });
+  });
+
+  describe('remapReferences', () => {
+    it('should rewrite bundled IDs and keep the value shape', () => {
+      const fields = [
+        { name: 'author', type: 'reference' },
+        { name: 'related', type: 'reference', multiple: true },
+        { name: 'title', type: 'text' },
+      ];
+      const result = remapReferences(
+        { author: 'e1', related: ['e2', 'outside'], title: 'e1' },
+        fields,
+        { e1: 'n1', e2: 'n2' }
+      );
+
+      expect(result).toEqual({ data: { author: 'n1', related: ['n2', 'outside'], title: 'e1' }, changed: true });
+    });
+
+    it('should rewrite reference fields inside blocks', () => {
+      const fields = [
+        {
+          name: 'sections',
+          type: 'components',
+          blocks: [{ key: 'card', name: 'Card', fields: [{ name: 'link', type: 'reference' }] }],
+        },
+      ];
+      const sections = [
+        { id: 'b1', block: 'card', data: { link: 'e1' } },
+        { id: 'b2', block: 'card', data: { link: 'outside' } },
+        { id: 'b3', block: 'removed', data: { link: 'e1' } },
+      ];
+      const result = remapReferences({ sections }, fields, { e1: 'n1' });
+
+      expect(result.changed).toBe(true);
+      expect(result.data.sections).toEqual([
+        { id: 'b1', block: 'card', data: { link: 'n1' } },
+        sections[1],
+        sections[2],
+      ]);
+      expect(remapReferences({ sections: sections.slice(1, 2) }, fields, { e1: 'n1' }).changed).toBe(false);
+    });
+
+    it('should report unchanged data when nothing is bundled', () => {
+      expect(remapReferences({ author: 'x' }, [{ name: 'author', type: 'reference' }], {}).changed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Content Bundles
+ *
+ * A bundle is a portable JSON snapshot of content types and their entries
+ * that can be exported from one organization and imported into another.
+ * Database IDs do not carry over between organizations, so everything in a
+ * bundle is keyed by content type `api_id` and entry `slug` instead.
+ */
+
+import { ContentEntry, ContentStatus, ContentType, ContentTypeField, ContentWorkflow, Media } from '@/types';
+import type { ContentTemplate } from '@/lib/api/templates';
+import { getReferenceIds } from '@/lib/field-types';
+
+export const BUNDLE_FORMAT = 'bakalr-content-bundle';
+export const BUNDLE_VERSION = 1;
+
+/**
+ * Bundle file layout (version 1).
+ *
+ * - Reference fields list allowed content types by `api_id`.
+ * - Reference values in entry data still hold source entry IDs; importing
+ *   rewrites them to the new IDs of entries from the same bundle.
+ * - Media is exported as metadata only. Image and file fields keep their
+ *   original URLs, so the files must stay reachable from the target.
+ */
+export interface ContentBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  content_types: BundleContentType[];
+  entries: BundleEntry[];
+  media: BundleMedia[];
+  templates: BundleTemplate[];
+}
+
+export interface BundleContentType {
+  api_id: string;
+  name: string;
+  description?: string;
+  display_field?: string;
+  fields: ContentTypeField[];
+  workflow?: ContentWorkflow;
+}
+
+export interface BundleEntry {
+  /** ID in the source organization, used to rewrite references on import */
+  id: string;
+  /** `api_id` of the entry's content type */
+  content_type: string;
+  slug: string;
+  status: ContentStatus;
+  data: Record<string, unknown>;
+  /** Translated data keyed by locale code */
+  translations: Record<string, Record<string, unknown>>;
+}
+
+export interface BundleMedia {
+  url: string;
+  filename: string;
+  mime_type: string;
+  file_size: number;
+  alt_text?: string;
+  title?: string;
+  description?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface BundleTemplate {
+  /** `api_id` of the template's content type */
+  content_type: string;
+  name: string;
+  description?: string;
+  icon?: string;
+  category?: string;
+  tags?: string[];
+  is_published?: boolean;
+  field_defaults?: Record<string, unknown>;
+  field_config?: Record<string, unknown>;
+  content_structure?: Record<string, unknown>;
+}
+
+export type ConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+/** A bundled content type or entry that already exists in the target */
+export interface BundleConflict {
+  /** Stable key, e.g. "type:blog-post" or "entry:blog-post/hello-world" */
+  id: string;
+  kind: 'content_type' | 'entry';
+  /** `api_id` of the content type (the conflicting type itself, or the entry's type) */
+  content_type: string;
+  /** The conflicting `api_id` or `slug` */
+  key: string;
+  /** ID of the existing record in the target */
+  existing_id: string;
+}
+
+const MEDIA_FIELD_TYPES = ['image', 'file'];
+
+export function getMediaUrl(media: Media): string {
+  return media.url || media.public_url || media.cdn_url || '';
+}
+
+function getTypeKey(type: ContentType): string {
+  return type.api_id || type.slug || type.id;
+}
+
+/**
+ * Swap reference fields' allowed content types between IDs and `api_id`s.
+ * Types missing from the lookup are dropped.
+ */
+export function mapAllowedContentTypes(fields: ContentTypeField[], lookup: Record<string, string>): ContentTypeField[] {
+  return fields.map((field) =>
+    field.allowed_content_types && field.allowed_content_types.length > 0
+      ? { ...field, allowed_content_types: field.allowed_content_types.filter((id) => lookup[id]).map((id) => lookup[id]) }
+      : field
+  );
+}
+
+/**
+ * URLs stored in the image and file fields of the given entries.
+ */
+export function collectMediaUrls(contentTypes: ContentType[], entries: ContentEntry[]): string[] {
+  const urls = new Set<string>();
+  entries.forEach((entry) => {
+    const type = contentTypes.find((t) => t.id === entry.content_type_id);
+    const data = entry.data || entry.content_data || {};
+    (type?.fields || [])
+      .filter((field) => MEDIA_FIELD_TYPES.includes(field.type))
+      .forEach((field) => {
+        const value = data[field.name];
+        if (typeof value === 'string' && value !== '') urls.add(value);
+      });
+  });
+  return Array.from(urls);
+}
+
+/**
+ * Build a bundle from loaded records. Translations are keyed by entry ID,
+ * then locale code.
+ */
+export function createBundle({
+  contentTypes,
+  entries,
+  translations = {},
+  media = [],
+  templates = [],
+}: {
+  contentTypes: ContentType[];
+  entries: ContentEntry[];
+  translations?: Record<string, Record<string, Record<string, unknown>>>;
+  media?: Media[];
+  templates?: ContentTemplate[];
+}): ContentBundle {
+  const apiIds: Record<string, string> = {};
+  contentTypes.forEach((type) => {
+    apiIds[type.id] = getTypeKey(type);
+  });
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    content_types: contentTypes.map((type) => ({
+      api_id: getTypeKey(type),
+      name: type.name,
+      description: type.description,
+      display_field: type.display_field,
+      fields: mapAllowedContentTypes(type.fields || [], apiIds),
+      workflow: type.workflow,
+    })),
+    entries: entries
+      .filter((entry) => apiIds[entry.content_type_id])
+      .map((entry) => ({
+        id: entry.id,
+        content_type: apiIds[entry.content_type_id],
+        slug: entry.slug,
+        status: entry.status,
+        data: entry.data || entry.content_data || {},
+        translations: translations[entry.id] || {},
+      })),
+    media: media.map((item) => ({
+      url: getMediaUrl(item),
+      filename: item.filename,
+      mime_type: item.mime_type,
+      file_size: item.file_size,
+      alt_text: item.alt_text,
+      title: item.title,
+      description: item.description,
+      width: item.width,
+      height: item.height,
+    })),
+    templates: templates
+      .filter((template) => apiIds[template.content_type_id])
+      .map((template) => ({
+        content_type: apiIds[template.content_type_id],
+        name: template.name,
+        description: template.description,
+        icon: template.icon,
+        category: template.category,
+        tags: template.tags,
+        is_published: template.is_published,
+        field_defaults: template.field_defaults,
+        field_config: template.field_config,
+        content_structure: template.content_structure,
+      })),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a parsed file against the bundle format.
+ * Returns a list of problems; an empty list means the bundle is usable.
+ */
+export function validateBundle(value: unknown): string[] {
+  if (!isRecord(value) || value.format !== BUNDLE_FORMAT) {
+    return ['This file is not a content bundle'];
+  }
+  if (typeof value.version !== 'number' || value.version < 1) {
+    return ['The bundle has no valid version'];
+  }
+  if (value.version > BUNDLE_VERSION) {
+    return [`Bundle version ${value.version} is newer than this app supports (${BUNDLE_VERSION})`];
+  }
+  if (!Array.isArray(value.content_types) || !Array.isArray(value.entries)) {
+    return ['The bundle must list content_types and entries'];
+  }
+
+  const errors: string[] = [];
+  const typeKeys = new Set<string>();
+  value.content_types.forEach((type: unknown, index: number) => {
+    if (!isRecord(type) || typeof type.api_id !== 'string' || !type.api_id) {
+      errors.push(`Content type ${index + 1} is missing an api_id`);
+      return;
+    }
+    if (typeKeys.has(type.api_id)) {
+      errors.push(`Content type "${type.api_id}" appears more than once`);
+    }
+    if (typeof type.name !== 'string' || !Array.isArray(type.fields)) {
+      errors.push(`Content type "${type.api_id}" needs a name and fields`);
+    }
+    typeKeys.add(type.api_id);
+  });
+
+  const entryKeys = new Set<string>();
+  value.entries.forEach((entry: unknown, index: number) => {
+    if (!isRecord(entry) || typeof entry.slug !== 'string' || !entry.slug) {
+      errors.push(`Entry ${index + 1} is missing a slug`);
+      return;
+    }
+    if (typeof entry.content_type !== 'string' || !typeKeys.has(entry.content_type)) {
+      errors.push(`Entry "${entry.slug}" references unknown content type "${String(entry.content_type)}"`);
+      return;
+    }
+    const key = `${entry.content_type}/${entry.slug}`;
+    if (entryKeys.has(key)) {
+      errors.push(`Entry "${key}" appears more than once`);
+    }
+    if (!isRecord(entry.data)) {
+      errors.push(`Entry "${key}" has no data`);
+    }
+    entryKeys.add(key);
+  });
+
+  if (Array.isArray(value.templates)) {
+    value.templates.forEach((template: unknown, index: number) => {
+      if (!isRecord(template) || typeof template.content_type !== 'string' || !typeKeys.has(template.content_type)) {
+        errors.push(`Template ${index + 1} references a content type that is not in the bundle`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a bundle file. Missing optional sections default to empty.
+ */
+export function parseBundle(text: string): { bundle: ContentBundle | null; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { bundle: null, errors: ['The file is not valid JSON'] };
+  }
+
+  const errors = validateBundle(value);
+  if (errors.length > 0) return { bundle: null, errors };
+
+  const raw = value as ContentBundle;
+  return {
+    bundle: {
+      ...raw,
+      entries: raw.entries.map((entry) => ({ ...entry, translations: entry.translations || {} })),
+      media: raw.media || [],
+      templates: raw.templates || [],
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Content types whose `api_id`, and entries whose slug within the same
+ * content type, already exist in the target organization.
+ */
+export function findBundleConflicts(
+  bundle: ContentBundle,
+  existingTypes: ContentType[],
+  existingEntries: ContentEntry[]
+): BundleConflict[] {
+  const conflicts: BundleConflict[] = [];
+
+  bundle.content_types.forEach((type) => {
+    const existing = existingTypes.find((t) => getTypeKey(t) === type.api_id);
+    if (!existing) return;
+    conflicts.push({
+      id: `type:${type.api_id}`,
+      kind: 'content_type',
+      content_type: type.api_id,
+      key: type.api_id,
+      existing_id: existing.id,
+    });
+
+    bundle.entries
+      .filter((entry) => entry.content_type === type.api_id)
+      .forEach((entry) => {
+        const match = existingEntries.find((e) => e.content_type_id === existing.id && e.slug === entry.slug);
+        if (!match) return;
+        conflicts.push({
+          id: `entry:${type.api_id}/${entry.slug}`,
+          kind: 'entry',
+          content_type: type.api_id,
+          key: entry.slug,
+          existing_id: match.id,
+        });
+      });
+  });
+
+  return conflicts;
+}
+
+/**
+ * First free variant of a key: "about" becomes "about-copy", then "about-copy-2".
+ */
+export function getUniqueKey(key: string, taken: string[]): string {
+  let candidate = `${key}-copy`;
+  for (let n = 2; taken.includes(candidate); n++) {
+    candidate = `${key}-copy-${n}`;
+  }
+  return candidate;
+}
+
+/**
+ * Point reference fields at the imported copies of bundled entries, including
+ * reference fields inside blocks of components fields. IDs of entries outside
+ * the bundle are left as they are.
+ */
+export function remapReferences(
+  data: Record<string, unknown>,
+  fields: ContentTypeField[],
+  idMap: Record<string, string>
+): { data: Record<string, unknown>; changed: boolean } {
+  const result = { ...data };
+  let changed = false;
+
+  fields.forEach((field) => {
+    const value = data[field.name];
+    if (field.type === 'reference') {
+      const ids = getReferenceIds(value);
+      if (!ids.some((id) => idMap[id])) return;
+      const mapped = ids.map((id) => idMap[id] || id);
+      result[field.name] = Array.isArray(value) ? mapped : mapped[0];
+      changed = true;
+    } else if (field.type === 'components' && Array.isArray(value)) {
+      let blocksChanged = false;
+      const blocks = value.map((item) => {
+        const schema = field.blocks?.find((b) => b.key === item?.block);
+        if (!schema || !item.data || typeof item.data !== 'object') return item;
+        const remapped = remapReferences(item.data, schema.fields, idMap);
+        if (!remapped.changed) return item;
+        blocksChanged = true;
+        return { ...item, data: remapped.data };
+      });
+      if (!blocksChanged) return;
+      result[field.name] = blocks;
+      changed = true;
+    }
+  });
+
+  return { data: result, changed };
+}
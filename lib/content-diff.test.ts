@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isDeepEqual,
+  diffSequence,
+  splitHtmlBlocks,
+  diffRichText,
+  diffJson,
+  diffField,
+  diffEntryData,
+  countChangedFields,
+} from './content-diff';
+
+describe('Content Diff', () => {
+  describe('isDeepEqual', () => {
+    it('should compare primitives', () => {
+      expect(isDeepEqual(1, 1)).toBe(true);
+      expect(isDeepEqual('a', 'b')).toBe(false);
+    });
+
+    it('should compare nested objects and arrays', () => {
+      expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+      expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+      expect(isDeepEqual([1, 2], [1, 2, 3])).toBe(false);
+    });
+  });
+
+  describe('diffSequence', () => {
+    it('should mark inserted and removed items', () => {
+      const result = diffSequence(['a', 'b', 'c'], ['a', 'c', 'd']);
+      expect(result).toEqual([
+        { kind: 'unchanged', value: 'a' },
+        { kind: 'removed', value: 'b' },
+        { kind: 'unchanged', value: 'c' },
+        { kind: 'added', value: 'd' },
+      ]);
+    });
+
+    it('should handle empty sequences', () => {
+      expect(diffSequence([], ['x'])).toEqual([{ kind: 'added', value: 'x' }]);
+      expect(diffSequence(['x'], [])).toEqual([{ kind: 'removed', value: 'x' }]);
+    });
+  });
+
+  describe('splitHtmlBlocks', () => {
+    it('should split top-level elements', () => {
+      const blocks = splitHtmlBlocks('<h1>Title</h1><p>One</p><ul><li>A</li><li>B</li></ul>');
+      expect(blocks).toEqual(['<h1>Title</h1>', '<p>One</p>', '<ul><li>A</li><li>B</li></ul>']);
+    });
+
+    it('should keep loose text as a block', () => {
+      expect(splitHtmlBlocks('Plain text')).toEqual(['Plain text']);
+    });
+
+    it('should return empty array for empty input', () => {
+      expect(splitHtmlBlocks('')).toEqual([]);
+    });
+  });
+
+  describe('diffRichText', () => {
+    it('should diff paragraphs at block level', () => {
+      const result = diffRichText('<p>Intro</p><p>Old body</p>', '<p>Intro</p><p>New body</p>');
+      expect(result).toEqual([
+        { kind: 'unchanged', html: '<p>Intro</p>' },
+        { kind: 'removed', html: '<p>Old body</p>' },
+        { kind: 'added', html: '<p>New body</p>' },
+      ]);
+    });
+  });
+
+  describe('diffJson', () => {
+    it('should report changed leaf paths', () => {
+      const changes = diffJson(
+        { items: [{ url: '/a.jpg' }, { url: '/b.jpg' }], meta: { count: 2 } },
+        { items: [{ url: '/a.jpg' }, { url: '/c.jpg' }], meta: { count: 2, sorted: true } }
+      );
+      expect(changes).toEqual([
+        { path: 'items[1].url', kind: 'changed', before: '/b.jpg', after: '/c.jpg' },
+        { path: 'meta.sorted', kind: 'added', after: true },
+      ]);
+    });
+
+    it('should report removed array items', () => {
+      expect(diffJson([1, 2, 3], [1, 2])).toEqual([{ path: '[2]', kind: 'removed', before: 3 }]);
+    });
+
+    it('should return no changes for equal values', () => {
+      expect(diffJson({ a: 1 }, { a: 1 })).toEqual([]);
+    });
+  });
+
+  describe('diffField', () => {
+    it('should classify added, removed and changed values', () => {
+      expect(diffField({ name: 'title', type: 'text' }, undefined, 'New').kind).toBe('added');
+      expect(diffField({ name: 'title', type: 'text' }, 'Old', '').kind).toBe('removed');
+      expect(diffField({ name: 'title', type: 'text' }, 'Old', 'New').kind).toBe('changed');
+      expect(diffField({ name: 'title', type: 'text' }, 'Same', 'Same').kind).toBe('unchanged');
+    });
+
+    it('should use humanized name when label is missing', () => {
+      expect(diffField({ name: 'meta_title', type: 'text' }, 'a', 'b').label).toBe('Meta Title');
+    });
+
+    it('should include block diff for rich text fields', () => {
+      const diff = diffField({ name: 'body', type: 'richtext' }, '<p>A</p>', '<p>B</p>');
+      expect(diff.blocks).toHaveLength(2);
+    });
+
+    it('should include structural changes for json fields', () => {
+      const diff = diffField({ name: 'seo', type: 'json' }, { title: 'A' }, { title: 'B' });
+      expect(diff.changes).toEqual([{ path: 'title', kind: 'changed', before: 'A', after: 'B' }]);
+    });
+  });
+
+  describe('diffEntryData', () => {
+    const fields = [
+      { name: 'title', type: 'text', label: 'Title' },
+      { name: 'body', type: 'richtext', label: 'Body' },
+    ];
+
+    it('should follow content type field order', () => {
+      const diffs = diffEntryData(fields, { title: 'A', body: '<p>x</p>' }, { title: 'B', body: '<p>x</p>' });
+      expect(diffs.map((d) => d.name)).toEqual(['title', 'body']);
+      expect(diffs[0].kind).toBe('changed');
+      expect(diffs[1].kind).toBe('unchanged');
+    });
+
+    it('should append keys not defined in the content type', () => {
+      const diffs = diffEntryData(fields, { title: 'A' }, { title: 'A', legacy: { a: 1 } });
+      const extra = diffs.find((d) => d.name === 'legacy');
+      expect(extra?.type).toBe('object');
+      expect(extra?.kind).toBe('added');
+    });
+
+    it('should count changed fields', () => {
+      const diffs = diffEntryData(fields, { title: 'A' }, { title: 'B', body: '<p>new</p>' });
+      expect(countChangedFields(diffs)).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Content Diff Utilities
+ *
+ * Field-by-field comparison of two content entry payloads, driven by the
+ * content type's field definitions. Used by the entry version history to
+ * render side-by-side diffs.
+ *
+ * - Rich text fields are split into top-level blocks (paragraphs, headings,
+ *   lists, ...) and diffed block by block.
+ * - JSON / array / object fields are diffed structurally, reporting the
+ *   path of every changed leaf.
+ * - Everything else is compared as a scalar value.
+ */
+
+import { ContentTypeField } from '@/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/** One block of a rich text diff */
+export interface BlockDiff {
+  kind: 'added' | 'removed' | 'unchanged';
+  html: string;
+}
+
+/** One changed leaf of a structural JSON diff */
+export interface JsonChange {
+  /** Dotted path to the value, with array indexes in brackets (e.g. `items[2].url`) */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Diff result for a single field */
+export interface FieldDiff {
+  name: string;
+  label: string;
+  type: string;
+  kind: ChangeKind;
+  before: unknown;
+  after: unknown;
+  /** Present for rich text fields */
+  blocks?: BlockDiff[];
+  /** Present for JSON / array / object fields */
+  changes?: JsonChange[];
+}
+
+const RICH_TEXT_TYPES = ['richtext', 'wysiwyg', 'html'];
+const STRUCTURED_TYPES = ['json', 'array', 'object'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep equality for JSON-compatible values.
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length && keysA.every((key) => isDeepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Longest-common-subsequence diff of two sequences.
+ * Returns the merged sequence tagged with added/removed/unchanged.
+ */
+export function diffSequence<T>(
+  before: T[],
+  after: T[],
+  equals: (a: T, b: T) => boolean = (a, b) => a === b
+): Array<{ kind: 'added' | 'removed' | 'unchanged'; value: T }> {
+  const m = before.length;
+  const n = after.length;
+  const lcs: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = equals(before[i], after[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: Array<{ kind: 'added' | 'removed' | 'unchanged'; value: T }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < m && j < n) {
+    if (equals(before[i], after[j])) {
+      result.push({ kind: 'unchanged', value: before[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ kind: 'removed', value: before[i] });
+      i++;
+    } else {
+      result.push({ kind: 'added', value: after[j] });
+      j++;
+    }
+  }
+  while (i < m) result.push({ kind: 'removed', value: before[i++] });
+  while (j < n) result.push({ kind: 'added', value: after[j++] });
+
+  return result;
+}
+
+// ============================================================================
+// Rich Text
+// ============================================================================
+
+/**
+ * Split an HTML string into its top-level blocks.
+ * Loose text between elements is kept as its own block.
+ */
+export function splitHtmlBlocks(html: string): string[] {
+  if (!html || typeof html !== 'string') return [];
+
+  if (typeof DOMParser === 'undefined') {
+    return [html.trim()].filter(Boolean);
+  }
+
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+  const blocks: string[] = [];
+  doc.body.childNodes.forEach((node) => {
+    if (node.nodeType === 1) {
+      blocks.push((node as Element).outerHTML);
+    } else if (node.nodeType === 3 && node.textContent?.trim()) {
+      blocks.push(node.textContent.trim());
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Diff two rich text values at the block level.
+ */
+export function diffRichText(before: unknown, after: unknown): BlockDiff[] {
+  const beforeBlocks = splitHtmlBlocks(typeof before === 'string' ? before : '');
+  const afterBlocks = splitHtmlBlocks(typeof after === 'string' ? after : '');
+  return diffSequence(beforeBlocks, afterBlocks).map(({ kind, value }) => ({ kind, html: value }));
+}
+
+// ============================================================================
+// Structured (JSON)
+// ============================================================================
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Structurally diff two JSON values, returning every changed leaf.
+ * Objects are compared key by key and arrays index by index.
+ */
+export function diffJson(before: unknown, after: unknown, path = ''): JsonChange[] {
+  if (isDeepEqual(before, after)) return [];
+
+  if (before === undefined) return [{ path, kind: 'added', after }];
+  if (after === undefined) return [{ path, kind: 'removed', before }];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      changes.push(...diffJson(before[i], after[i], joinPath(path, i)));
+    }
+    return changes;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: JsonChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    keys.forEach((key) => {
+      changes.push(...diffJson(before[key], after[key], joinPath(path, key)));
+    });
+    return changes;
+  }
+
+  return [{ path, kind: 'changed', before, after }];
+}
+
+// ============================================================================
+// Entry Diff
+// ============================================================================
+
+function humanize(key: string): string {
+  return key.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function inferType(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (isPlainObject(value)) return 'object';
+  return 'text';
+}
+
+/**
+ * Compare a single field value between two versions.
+ */
+export function diffField(
+  field: Pick<ContentTypeField, 'name' | 'type' | 'label'>,
+  before: unknown,
+  after: unknown
+): FieldDiff {
+  const base = {
+    name: field.name,
+    label: field.label || humanize(field.name),
+    type: field.type,
+    before,
+    after,
+  };
+
+  let kind: ChangeKind;
+  if (isEmpty(before) && isEmpty(after)) kind = 'unchanged';
+  else if (isEmpty(before)) kind = 'added';
+  else if (isEmpty(after)) kind = 'removed';
+  else kind = isDeepEqual(before, after) ? 'unchanged' : 'changed';
+
+  if (RICH_TEXT_TYPES.includes(field.type)) {
+    return { ...base, kind, blocks: kind === 'unchanged' ? undefined : diffRichText(before, after) };
+  }
+
+  if (STRUCTURED_TYPES.includes(field.type) || isPlainObject(before) || isPlainObject(after)) {
+    return { ...base, kind, changes: kind === 'changed' ? diffJson(before, after) : undefined };
+  }
+
+  return { ...base, kind };
+}
+
+/**
+ * Diff two entry payloads field by field.
+ *
+ * Fields are reported in content type order; keys present in either payload
+ * but missing from the content type are appended with an inferred type.
+ *
+ * @param fields - Content type field definitions
+ * @param before - Older entry data
+ * @param after - Newer entry data
+ */
+export function diffEntryData(
+  fields: ContentTypeField[] | undefined,
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): FieldDiff[] {
+  const oldData = before || {};
+  const newData = after || {};
+  const definitions = fields || [];
+  const known = new Set(definitions.map((f) => f.name));
+
+  const diffs = definitions.map((field) => diffField(field, oldData[field.name], newData[field.name]));
+
+  const extraKeys = Array.from(new Set([...Object.keys(oldData), ...Object.keys(newData)])).filter(
+    (key) => !known.has(key)
+  );
+  extraKeys.forEach((key) => {
+    const type = inferType(newData[key] ?? oldData[key]);
+    diffs.push(diffField({ name: key, type }, oldData[key], newData[key]));
+  });
+
+  return diffs;
+}
+
+/**
+ * Count the fields that differ between two versions.
+ */
+export function countChangedFields(diffs: FieldDiff[]): number {
+  return diffs.filter((d) => d.kind !== 'unchanged').length;
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AUTHOR_FILTER,
+  createFilter,
+  formatCellValue,
+  getDefaultColumns,
+  getFilterKind,
+  isFilterActive,
+  parseView,
+  serializeView,
+  toEntryQuery,
+  UPDATED_FILTER,
+} from './content-views';
+import { ContentTypeField } from '@/types';
+
+const fields: ContentTypeField[] = [
+  { name: 'title', type: 'text', label: 'Title' },
+  { name: 'body', type: 'richtext', label: 'Body' },
+  { name: 'price', type: 'number', label: 'Price' },
+  { name: 'color', type: 'select', label: 'Color', options: ['red', 'blue'] },
+  { name: 'image', type: 'image', label: 'Image' },
+  { name: 'featured', type: 'boolean', label: 'Featured' },
+];
+
+describe('getFilterKind', () => {
+  it('should map field types to filter inputs', () => {
+    expect(fields.map(getFilterKind)).toEqual(['text', 'text', 'number', 'select', null, 'boolean']);
+  });
+
+  it('should treat selects without options as text', () => {
+    expect(getFilterKind({ name: 'tag', type: 'select', label: 'Tag' })).toBe('text');
+  });
+});
+
+describe('getDefaultColumns', () => {
+  it('should skip the title, rich text and unfilterable fields', () => {
+    expect(getDefaultColumns(fields)).toEqual(['price', 'color', 'featured']);
+  });
+});
+
+describe('isFilterActive', () => {
+  it('should ignore filters without a value', () => {
+    expect(isFilterActive(createFilter('price', 'number'))).toBe(false);
+    expect(isFilterActive({ ...createFilter('price', 'number'), to: '50' })).toBe(true);
+    expect(isFilterActive(createFilter('color', 'select'))).toBe(false);
+    expect(isFilterActive({ field: 'color', op: 'in', values: ['red'] })).toBe(true);
+    expect(isFilterActive(createFilter('featured', 'boolean'))).toBe(true);
+  });
+});
+
+describe('serializeView / parseView', () => {
+  it('should round-trip a view through the query string', () => {
+    const view = {
+      content_type_id: 'type-1',
+      status: 'draft',
+      filters: [
+        { field: 'price', op: 'between' as const, value: '10', to: '50' },
+        { field: 'color', op: 'in' as const, values: ['red', 'blue'] },
+      ],
+      sort: 'data.price',
+      order: 'desc' as const,
+      columns: ['price', 'color'],
+      layout: 'table' as const,
+    };
+
+    expect(parseView(new URLSearchParams(serializeView(view)))).toEqual(view);
+  });
+
+  it('should leave out defaults and empty filters', () => {
+    expect(serializeView({ filters: [createFilter('title', 'text')], layout: 'list' })).toBe('');
+  });
+
+  it('should drop malformed values', () => {
+    const view = parseView(new URLSearchParams('filters=%5Bnot-json&order=sideways&view=grid'));
+    expect(view).toMatchObject({ filters: [], order: undefined, layout: undefined });
+  });
+
+  it('should drop filters with unknown operators', () => {
+    const filters = JSON.stringify([{ field: 'price', op: 'regex', value: '.*' }, { field: 'title', op: 'contains', value: 'hat' }]);
+    expect(parseView(new URLSearchParams({ filters })).filters).toEqual([
+      { field: 'title', op: 'contains', value: 'hat' },
+    ]);
+  });
+});
+
+describe('toEntryQuery', () => {
+  it('should map entry filters to their own parameters', () => {
+    const query = toEntryQuery({
+      content_type_id: 'type-1',
+      filters: [
+        { field: AUTHOR_FILTER, op: 'equals', value: 'user-1' },
+        { field: UPDATED_FILTER, op: 'since', value: '2025-01-01' },
+        { field: 'title', op: 'contains', value: 'hat' },
+        { field: 'price', op: 'between', value: '', to: '' },
+      ],
+      sort: 'data.price',
+    });
+
+    expect(query).toEqual({
+      content_type_id: 'type-1',
+      author_id: 'user-1',
+      updated_after: '2025-01-01',
+      filters: JSON.stringify([{ field: 'title', op: 'contains', value: 'hat' }]),
+      sort: 'data.price',
+      order: 'asc',
+    });
+  });
+
+  it('should be empty for the default view', () => {
+    expect(toEntryQuery({ filters: [] })).toEqual({});
+  });
+});
+
+describe('formatCellValue', () => {
+  it('should format values as plain text', () => {
+    expect(formatCellValue(true)).toBe('Yes');
+    expect(formatCellValue(['red', 'blue'])).toBe('red, blue');
+    expect(formatCellValue('<p>Hello <b>world</b></p>')).toBe('Hello world');
+    expect(formatCellValue(undefined)).toBe('');
+    expect(formatCellValue('abcdef', 4)).toBe('abc…');
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Content Views
+ *
+ * A content listing is described by a ContentView: type and status, field
+ * filters, sort order and table columns. Views round-trip through the URL
+ * query string, so a listing can be linked to or saved under a name.
+ */
+
+import { ContentTypeField } from '@/types';
+import { getSelectOptions } from './field-types';
+
+export type ContentLayout = 'list' | 'table' | 'calendar';
+
+export type FilterKind = 'text' | 'number' | 'date' | 'select' | 'boolean' | 'author' | 'updated';
+
+export type FilterOperator = 'contains' | 'between' | 'in' | 'equals' | 'since';
+
+/** Filters on entry metadata rather than a data field */
+export const AUTHOR_FILTER = '$author';
+export const UPDATED_FILTER = '$updated';
+
+export interface ViewFilter {
+  field: string;
+  op: FilterOperator;
+  /** Search text, compared value, or the lower bound of a range */
+  value?: string;
+  /** Upper bound of a number or date range */
+  to?: string;
+  /** Accepted options of a select field */
+  values?: string[];
+}
+
+export interface ContentView {
+  content_type_id?: string;
+  status?: string;
+  filters: ViewFilter[];
+  /** API sort key: updated_at, created_at, slug or data.<field> */
+  sort?: string;
+  order?: 'asc' | 'desc';
+  /** Data fields shown as table columns */
+  columns?: string[];
+  layout?: ContentLayout;
+}
+
+const TEXT_TYPES = ['text', 'textarea', 'richtext', 'email', 'url', 'slug'];
+const OPERATORS: FilterOperator[] = ['contains', 'between', 'in', 'equals', 'since'];
+const LAYOUTS: ContentLayout[] = ['list', 'table', 'calendar'];
+
+/**
+ * How a field can be filtered, or null for fields that cannot be (media,
+ * JSON, references, components).
+ */
+export function getFilterKind(field: ContentTypeField): FilterKind | null {
+  if (TEXT_TYPES.includes(field.type)) return 'text';
+  if (field.type === 'number') return 'number';
+  if (field.type === 'date' || field.type === 'datetime') return 'date';
+  if (field.type === 'select') return getSelectOptions(field).length > 0 ? 'select' : 'text';
+  if (field.type === 'boolean') return 'boolean';
+  return null;
+}
+
+export function getFilterableFields(fields: ContentTypeField[]): ContentTypeField[] {
+  return fields.filter((field) => getFilterKind(field) !== null);
+}
+
+/**
+ * Columns shown before the user picks any: the first few filterable fields
+ * besides the title, which always has its own column.
+ */
+export function getDefaultColumns(fields: ContentTypeField[]): string[] {
+  return getFilterableFields(fields)
+    .filter((field) => field.name !== 'title' && field.type !== 'richtext')
+    .slice(0, 3)
+    .map((field) => field.name);
+}
+
+export function createFilter(field: string, kind: FilterKind): ViewFilter {
+  switch (kind) {
+    case 'number':
+    case 'date':
+      return { field, op: 'between', value: '', to: '' };
+    case 'select':
+      return { field, op: 'in', values: [] };
+    case 'boolean':
+      return { field, op: 'equals', value: 'true' };
+    case 'author':
+      return { field, op: 'equals', value: '' };
+    case 'updated':
+      return { field, op: 'since', value: '' };
+    default:
+      return { field, op: 'contains', value: '' };
+  }
+}
+
+/**
+ * Filters without a value yet are kept in the builder but not applied.
+ */
+export function isFilterActive(filter: ViewFilter): boolean {
+  if (filter.op === 'in') return (filter.values || []).length > 0;
+  return Boolean(filter.value?.trim() || filter.to?.trim());
+}
+
+function parseFilters(text: string | null): ViewFilter[] {
+  if (!text) return [];
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (item): item is ViewFilter =>
+        typeof item === 'object' &&
+        item !== null &&
+        typeof item.field === 'string' &&
+        OPERATORS.includes(item.op)
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Read a view from URL search params. Unknown or malformed values are
+ * dropped so a mangled link still opens the listing.
+ */
+export function parseView(params: { get(key: string): string | null }): ContentView {
+  const order = params.get('order');
+  const layout = params.get('view') as ContentLayout | null;
+  const columns = params.get('columns');
+  return {
+    content_type_id: params.get('content_type_id') || undefined,
+    status: params.get('status') || undefined,
+    filters: parseFilters(params.get('filters')),
+    sort: params.get('sort') || undefined,
+    order: order === 'asc' || order === 'desc' ? order : undefined,
+    columns: columns ? columns.split(',').filter(Boolean) : undefined,
+    layout: layout && LAYOUTS.includes(layout) ? layout : undefined,
+  };
+}
+
+/**
+ * Encode a view as a URL query string, leaving out defaults.
+ */
+export function serializeView(view: ContentView): string {
+  const params = new URLSearchParams();
+  if (view.content_type_id) params.set('content_type_id', view.content_type_id);
+  if (view.status) params.set('status', view.status);
+  const filters = view.filters.filter(isFilterActive);
+  if (filters.length > 0) params.set('filters', JSON.stringify(filters));
+  if (view.sort) params.set('sort', view.sort);
+  if (view.sort && view.order) params.set('order', view.order);
+  if (view.columns) params.set('columns', view.columns.join(','));
+  if (view.layout && view.layout !== 'list') params.set('view', view.layout);
+  return params.toString();
+}
+
+/**
+ * Query parameters for contentApi.getContentEntries. Author and updated
+ * filters map to their own parameters; field filters are sent as JSON.
+ */
+export function toEntryQuery(view: ContentView): {
+  content_type_id?: string;
+  status?: string;
+  author_id?: string;
+  updated_after?: string;
+  filters?: string;
+  sort?: string;
+  order?: 'asc' | 'desc';
+} {
+  const query: ReturnType<typeof toEntryQuery> = {};
+  if (view.content_type_id) query.content_type_id = view.content_type_id;
+  if (view.status) query.status = view.status;
+
+  const active = view.filters.filter(isFilterActive);
+  const author = active.find((filter) => filter.field === AUTHOR_FILTER);
+  const updated = active.find((filter) => filter.field === UPDATED_FILTER);
+  const fieldFilters = active.filter((filter) => !filter.field.startsWith('$'));
+  if (author) query.author_id = author.value;
+  if (updated) query.updated_after = updated.value;
+  if (fieldFilters.length > 0) query.filters = JSON.stringify(fieldFilters);
+
+  if (view.sort) {
+    query.sort = view.sort;
+    query.order = view.order || 'asc';
+  }
+  return query;
+}
+
+/**
+ * Plain text for a table cell.
+ */
+export function formatCellValue(value: unknown, maxLength = 80): string {
+  let text: string;
+  if (value === undefined || value === null) {
+    text = '';
+  } else if (typeof value === 'boolean') {
+    text = value ? 'Yes' : 'No';
+  } else if (Array.isArray(value)) {
+    text = value.map((item) => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ');
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    // Rich text is stored as HTML
+    text = String(value).replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { detectDelimiter, formatDelimitedRow, parseDelimited, parseTable } from './csv';
+
+describe('csv', () => {
+  describe('parseDelimited', () => {
+    it('should keep quoted commas, quotes and line breaks in one field', () => {
+      const rows = parseDelimited('name,notes\n"Smith, Jane","She said ""hi""\nthen left"\n');
+
+      expect(rows).toEqual([
+        ['name', 'notes'],
+        ['Smith, Jane', 'She said "hi"\nthen left'],
+      ]);
+    });
+
+    it('should handle CRLF line endings, a byte order mark and blank lines', () => {
+      expect(parseDelimited('\uFEFFa,b\r\n1,2\r\n\r\n3,\r\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+        ['3', ''],
+      ]);
+    });
+
+    it('should split tab separated values', () => {
+      expect(parseDelimited('a\tb\n1,5\t2', '\t')).toEqual([
+        ['a', 'b'],
+        ['1,5', '2'],
+      ]);
+    });
+  });
+
+  describe('detectDelimiter', () => {
+    it('should prefer tabs, then semicolons, then commas', () => {
+      expect(detectDelimiter('a\tb,c\n')).toBe('\t');
+      expect(detectDelimiter('a;b;c\n1,5;2;3')).toBe(';');
+      expect(detectDelimiter('a,b\n')).toBe(',');
+    });
+  });
+
+  describe('parseTable', () => {
+    it('should pad short rows to the header width', () => {
+      expect(parseTable('title, price \nHat')).toEqual({
+        headers: ['title', 'price'],
+        rows: [['Hat', '']],
+        delimiter: ',',
+      });
+    });
+  });
+
+  describe('formatDelimitedRow', () => {
+    it('should quote values that need it', () => {
+      expect(formatDelimitedRow(['plain', 'a,b', 'say "hi"'])).toBe('plain,"a,b","say ""hi"""');
+    });
+  });
+});
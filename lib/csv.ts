@@ -0,0 +1,95 @@
+/**
+ * CSV / TSV Parsing
+ *
+ * Follows RFC 4180: fields may be wrapped in double quotes to contain the
+ * delimiter, line breaks or escaped quotes ("").
+ */
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+/**
+ * Guess the delimiter from the header line: tabs win when present.
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const tabs = firstLine.split('\t').length - 1;
+  const semicolons = firstLine.split(';').length - 1;
+  const commas = firstLine.split(',').length - 1;
+  if (tabs > 0 && tabs >= commas) return '\t';
+  if (semicolons > commas) return ';';
+  return ',';
+}
+
+/**
+ * Split delimited text into rows of fields. Blank lines are skipped.
+ */
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Parse a file with a header row. Rows are padded or trimmed to the header width.
+ */
+export function parseTable(text: string, delimiter = detectDelimiter(text)): ParsedTable {
+  const [headerRow = [], ...rows] = parseDelimited(text, delimiter);
+  const headers = headerRow.map((header) => header.trim());
+  return {
+    headers,
+    rows: rows.map((row) => headers.map((_, index) => row[index] ?? '')),
+    delimiter,
+  };
+}
+
+/**
+ * Format one row, quoting values that contain the delimiter, quotes or line breaks.
+ */
+export function formatDelimitedRow(values: string[], delimiter = ','): string {
+  return values
+    .map((value) =>
+      value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+    )
+    .join(delimiter);
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  autoMapColumns,
+  buildImportRows,
+  clearImportProgress,
+  coerceCell,
+  getImportKey,
+  loadImportProgress,
+  saveImportProgress,
+  SLUG_TARGET,
+  STATUS_TARGET,
+} from './entry-import';
+import { ContentTypeField } from '@/types';
+
+const fields: ContentTypeField[] = [
+  { name: 'title', type: 'text', label: 'Title', required: true },
+  { name: 'price', type: 'number', label: 'Price' },
+  { name: 'in_stock', type: 'boolean', label: 'In Stock' },
+  { name: 'size', type: 'select', label: 'Size', options: [{ value: 'sm', label: 'Small' }, 'lg'] },
+  { name: 'related', type: 'reference', label: 'Related', multiple: true },
+  { name: 'launch', type: 'date', label: 'Launch Date' },
+  { name: 'tags', type: 'array', label: 'Tags' },
+  { name: 'specs', type: 'json', label: 'Specs' },
+  { name: 'colors', type: 'select', label: 'Colors', multiple: true, options: ['red', 'blue'] },
+];
+
+describe('entry-import', () => {
+  describe('autoMapColumns', () => {
+    it('should match columns to field names and labels', () => {
+      expect(autoMapColumns(['Title', 'In Stock', 'launch date', 'Slug', 'status', 'extra'], fields)).toEqual({
+        Title: 'title',
+        'In Stock': 'in_stock',
+        'launch date': 'launch',
+        Slug: SLUG_TARGET,
+        status: STATUS_TARGET,
+        extra: null,
+      });
+    });
+
+    it('should map each field only once', () => {
+      expect(autoMapColumns(['title', 'Title'], fields)).toEqual({ title: 'title', Title: null });
+    });
+  });
+
+  describe('coerceCell', () => {
+    it('should convert numbers, booleans and dates', () => {
+      expect(coerceCell('1,250.5', fields[1])).toEqual({ ok: true, value: 1250.5 });
+      expect(coerceCell('Yes', fields[2])).toEqual({ ok: true, value: true });
+      expect(coerceCell('2025-03-01', fields[5])).toEqual({ ok: true, value: '2025-03-01' });
+      expect(coerceCell('3/1/2025', fields[5])).toEqual({ ok: true, value: '2025-03-01' });
+      expect(coerceCell('soon', fields[5])).toEqual({ ok: false, error: '"soon" is not a valid date' });
+    });
+
+    it('should match select options by value or label', () => {
+      expect(coerceCell('small', fields[3])).toEqual({ ok: true, value: 'sm' });
+      expect(coerceCell('LG', fields[3])).toEqual({ ok: true, value: 'lg' });
+      expect(coerceCell('xl', fields[3])).toEqual({ ok: false, error: '"xl" is not one of: sm, lg' });
+    });
+
+    it('should split comma lists for fields with several values', () => {
+      expect(coerceCell('a1, b2,', fields[4])).toEqual({ ok: true, value: ['a1', 'b2'] });
+      expect(coerceCell('Red, BLUE', fields[8])).toEqual({ ok: true, value: ['red', 'blue'] });
+      expect(coerceCell('red, green', fields[8])).toEqual({ ok: false, error: '"green" is not one of: red, blue' });
+    });
+
+    it('should read list fields as JSON arrays or comma lists', () => {
+      expect(coerceCell('summer, sale', fields[6])).toEqual({ ok: true, value: ['summer', 'sale'] });
+      expect(coerceCell('["summer, 2025"]', fields[6])).toEqual({ ok: true, value: ['summer, 2025'] });
+      expect(coerceCell('42', fields[6])).toEqual({ ok: true, value: ['42'] });
+    });
+
+    it('should read JSON fields as JSON, or a comma list when the cell is not JSON', () => {
+      expect(coerceCell('{"weight": 2}', fields[7])).toEqual({ ok: true, value: { weight: 2 } });
+      expect(coerceCell('cotton, linen', fields[7])).toEqual({ ok: true, value: ['cotton', 'linen'] });
+      expect(coerceCell('cotton', fields[7])).toEqual({ ok: false, error: '"cotton" is not valid JSON' });
+    });
+
+    it('should leave empty cells unset', () => {
+      expect(coerceCell('  ', fields[1])).toEqual({ ok: true, value: undefined });
+    });
+  });
+
+  describe('buildImportRows', () => {
+    it('should build entry data and collect per-row errors', () => {
+      const rows = buildImportRows(
+        {
+          headers: ['title', 'price', 'status'],
+          rows: [
+            ['Red Hat', '12', 'published'],
+            ['', 'free', ''],
+            ['Existing', '3', 'gone'],
+          ],
+          delimiter: ',',
+        },
+        { title: 'title', price: 'price', status: STATUS_TARGET },
+        fields,
+        [{ slug: 'existing', data: {} }]
+      );
+
+      expect(rows[0]).toEqual({ index: 0, slug: 'red-hat', status: 'published', data: { title: 'Red Hat', price: 12 }, errors: {} });
+      expect(rows[1].slug).toBe('entry-2');
+      expect(rows[1].errors).toEqual({ title: 'Title is required', price: 'Price: "free" is not a number' });
+      expect(rows[2].errors).toEqual({
+        status: 'Status must be one of: draft, published, archived',
+        slug: 'Slug "existing" is already used',
+      });
+    });
+
+    it('should reject published rows when the content type has a review workflow', () => {
+      const rows = buildImportRows(
+        { headers: ['title', 'status'], rows: [['Red Hat', 'published'], ['Blue Hat', 'draft'], ['Old Hat', 'gone']], delimiter: ',' },
+        { title: 'title', status: STATUS_TARGET },
+        fields,
+        [],
+        { requiresReview: true }
+      );
+
+      expect(rows[0].errors).toEqual({ status: 'Entries of this content type are published through its review workflow' });
+      expect(rows[1]).toMatchObject({ status: 'draft', errors: {} });
+      expect(rows[2].errors).toEqual({ status: 'Status must be one of: draft, archived' });
+    });
+
+    it('should flag slugs repeated within the file', () => {
+      const rows = buildImportRows(
+        { headers: ['slug', 'title'], rows: [['hat', 'A'], ['Hat', 'B']], delimiter: ',' },
+        { slug: SLUG_TARGET, title: 'title' },
+        fields
+      );
+
+      expect(rows[0].errors).toEqual({});
+      expect(rows[1].errors).toEqual({ slug: 'Slug "hat" is already used' });
+    });
+  });
+
+  describe('import progress', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should save and clear completed rows per file', () => {
+      const key = getImportKey('type-1', 'products.csv', 'title\nHat');
+
+      expect(key).not.toBe(getImportKey('type-1', 'products.csv', 'title\nCap'));
+      expect(loadImportProgress(key)).toEqual([]);
+
+      saveImportProgress(key, [0, 2]);
+      expect(loadImportProgress(key)).toEqual([0, 2]);
+
+      clearImportProgress(key);
+      expect(loadImportProgress(key)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Content Entry Import
+ *
+ * Turns rows of a CSV/TSV file into content entry data: columns are mapped
+ * to content type fields, cell text is converted to each field's type, and
+ * every row is checked with the shared validation engine before anything
+ * is created.
+ */
+
+import { ContentStatus, ContentTypeField } from '@/types';
+import { generateFieldKey, getSelectOptions } from '@/lib/field-types';
+import { ConversionResult, convertValue } from '@/lib/schema-migration';
+import { ValidationErrors, validateRows } from '@/lib/validation';
+import { ParsedTable } from '@/lib/csv';
+
+/** Mapping targets that are entry properties rather than fields */
+export const SLUG_TARGET = '$slug';
+export const STATUS_TARGET = '$status';
+
+/** Column header -> field name, SLUG_TARGET, STATUS_TARGET or null to ignore */
+export type ColumnMapping = Record<string, string | null>;
+
+export interface ImportRow {
+  /** Zero-based index of the data row in the file */
+  index: number;
+  slug: string;
+  status: ContentStatus;
+  data: Record<string, unknown>;
+  errors: ValidationErrors;
+}
+
+const IMPORT_STATUSES: ContentStatus[] = ['draft', 'published', 'archived'];
+const PROGRESS_KEY_PREFIX = 'content-import:';
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Map columns to fields whose name or label matches, ignoring case, spaces
+ * and punctuation. Each field is used at most once.
+ */
+export function autoMapColumns(headers: string[], fields: ContentTypeField[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  headers.forEach((header) => {
+    const key = normalizeName(header);
+    const field = fields.find(
+      (f) => !used.has(f.name) && (normalizeName(f.name) === key || normalizeName(f.label || '') === key)
+    );
+    if (field) {
+      mapping[header] = field.name;
+      used.add(field.name);
+    } else if (key === 'slug' && !used.has(SLUG_TARGET)) {
+      mapping[header] = SLUG_TARGET;
+      used.add(SLUG_TARGET);
+    } else if (key === 'status' && !used.has(STATUS_TARGET)) {
+      mapping[header] = STATUS_TARGET;
+      used.add(STATUS_TARGET);
+    } else {
+      mapping[header] = null;
+    }
+  });
+
+  return mapping;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function coerceSingle(text: string, field: ContentTypeField): ConversionResult {
+  switch (field.type) {
+    case 'number':
+      return convertValue(text.replace(/,/g, ''), 'text', 'number');
+    case 'boolean':
+      return convertValue(text, 'text', 'boolean');
+    case 'date': {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return { ok: true, value: text };
+      const date = new Date(text);
+      return isNaN(date.getTime())
+        ? { ok: false, error: `"${text}" is not a valid date` }
+        : { ok: true, value: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` };
+    }
+    case 'datetime': {
+      const date = new Date(text);
+      return isNaN(date.getTime())
+        ? { ok: false, error: `"${text}" is not a valid date` }
+        : { ok: true, value: date.toISOString() };
+    }
+    case 'select': {
+      const options = getSelectOptions(field);
+      if (options.length === 0) return { ok: true, value: text };
+      const lower = text.toLowerCase();
+      const option = options.find((o) => o.value.toLowerCase() === lower || o.label.toLowerCase() === lower);
+      return option
+        ? { ok: true, value: option.value }
+        : { ok: false, error: `"${text}" is not one of: ${options.map((o) => o.value).join(', ')}` };
+    }
+    case 'json':
+    case 'components':
+      return convertValue(text, 'text', 'json');
+    default:
+      return { ok: true, value: text };
+  }
+}
+
+/** Field types that hold a list of values even without `multiple` */
+const LIST_FIELD_TYPES = ['array'];
+
+function splitList(text: string): string[] {
+  return text
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Convert cell text to a field's type. Empty cells are left unset. Fields
+ * that hold several values take a comma-separated list; list and JSON fields
+ * also accept JSON, and a comma list when the cell is not JSON.
+ */
+export function coerceCell(raw: string, field: ContentTypeField): ConversionResult {
+  const text = raw.trim();
+  if (text === '') return { ok: true, value: undefined };
+
+  if (LIST_FIELD_TYPES.includes(field.type) || field.type === 'json') {
+    const parsed = convertValue(text, 'text', 'json');
+    const isList = LIST_FIELD_TYPES.includes(field.type);
+    if (parsed.ok && (!isList || Array.isArray(parsed.value))) return parsed;
+    if (isList || text.includes(',')) return { ok: true, value: splitList(text) };
+    return parsed;
+  }
+
+  if (!field.multiple) return coerceSingle(text, field);
+
+  const values: unknown[] = [];
+  for (const part of splitList(text)) {
+    const result = coerceSingle(part, field);
+    if (!result.ok) return result;
+    values.push(result.value);
+  }
+  return { ok: true, value: values };
+}
+
+/**
+ * Build entry data for every row and validate it. Slugs default to the
+ * title (or first text value) and must not clash with existing entries or
+ * earlier rows. Content types with a review workflow publish through their
+ * stages, so `requiresReview` rejects rows marked as published.
+ */
+export function buildImportRows(
+  table: ParsedTable,
+  mapping: ColumnMapping,
+  fields: ContentTypeField[],
+  existing: { slug: string; data: Record<string, unknown> }[] = [],
+  { requiresReview = false }: { requiresReview?: boolean } = {}
+): ImportRow[] {
+  const statuses = requiresReview ? IMPORT_STATUSES.filter((s) => s !== 'published') : IMPORT_STATUSES;
+
+  const rows: ImportRow[] = table.rows.map((cells, index) => {
+    const data: Record<string, unknown> = {};
+    const errors: ValidationErrors = {};
+    let slug = '';
+    let status: ContentStatus = 'draft';
+
+    table.headers.forEach((header, column) => {
+      const target = mapping[header];
+      const raw = cells[column] ?? '';
+      if (!target) return;
+      if (target === SLUG_TARGET) {
+        slug = generateFieldKey(raw);
+      } else if (target === STATUS_TARGET) {
+        const value = raw.trim().toLowerCase();
+        if (!value) return;
+        if (statuses.includes(value as ContentStatus)) {
+          status = value as ContentStatus;
+        } else if (requiresReview && value === 'published') {
+          errors.status = 'Entries of this content type are published through its review workflow';
+        } else {
+          errors.status = `Status must be one of: ${statuses.join(', ')}`;
+        }
+      } else {
+        const field = fields.find((f) => f.name === target);
+        if (!field) return;
+        const result = coerceCell(raw, field);
+        if (result.ok) {
+          if (result.value !== undefined) data[field.name] = result.value;
+        } else {
+          errors[field.name] = `${field.label || field.name}: ${result.error}`;
+        }
+      }
+    });
+
+    if (!slug) {
+      const source = data.title ?? data.name ?? Object.values(data).find((value) => typeof value === 'string');
+      slug = generateFieldKey(String(source ?? '')) || `entry-${index + 1}`;
+    }
+
+    return { index, slug, status, data, errors };
+  });
+
+  validateRows(
+    fields,
+    rows.map((row) => row.data),
+    existing.map((entry) => entry.data)
+  ).forEach((result) => {
+    rows[result.row].errors = { ...result.errors, ...rows[result.row].errors };
+  });
+
+  const slugs = new Set(existing.map((entry) => entry.slug));
+  rows.forEach((row) => {
+    if (slugs.has(row.slug)) {
+      row.errors.slug = `Slug "${row.slug}" is already used`;
+    }
+    slugs.add(row.slug);
+  });
+
+  return rows;
+}
+
+/**
+ * Identify a file so an interrupted import of it can be resumed.
+ */
+export function getImportKey(contentTypeId: string, fileName: string, text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${PROGRESS_KEY_PREFIX}${contentTypeId}:${fileName}:${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Indexes of rows already created by an earlier run of the same import.
+ */
+export function loadImportProgress(key: string): number[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(saved) ? saved.filter((n): n is number => typeof n === 'number') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveImportProgress(key: string, done: number[]) {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(key, JSON.stringify(done));
+  } catch {
+    // Ignore storage errors (quota, etc.)
+  }
+}
+
+export function clearImportProgress(key: string) {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Ignore errors
+  }
+}
@@ -3,13 +3,15 @@ import {
   FIELD_TYPES, 
   getFieldTypeDefinition, 
   generateFieldKey,
+  getReferenceIds,
+  getSelectOptions,
   type FieldTypeDefinition 
 } from './field-types';
 
 describe('field-types', () => {
   describe('FIELD_TYPES array', () => {
-    it('should contain all 13 field type definitions', () => {
-      expect(FIELD_TYPES).toHaveLength(13);
+    it('should contain all 15 field type definitions', () => {
+      expect(FIELD_TYPES).toHaveLength(15);
       
       const types = FIELD_TYPES.map(ft => ft.type);
       expect(types).toEqual([
@@ -26,6 +28,8 @@ describe('field-types', () => {
         'date',
         'datetime',
         'json',
+        'reference',
+        'components',
       ]);
     });
 
@@ -228,4 +232,61 @@ describe('field-types', () => {
       expect(generateFieldKey('Email!!!Address')).toBe('email-address');
     });
   });
+
+  describe('reference field type', () => {
+    const referenceField = FIELD_TYPES.find(ft => ft.type === 'reference');
+
+    it('should default to a single reference to any content type', () => {
+      expect(referenceField?.defaultConfig.multiple).toBe(false);
+      expect(referenceField?.defaultConfig.allowed_content_types).toEqual([]);
+    });
+
+    it('should allow configuring target content types', () => {
+      const prop = referenceField?.configurableProperties.find(p => p.name === 'allowed_content_types');
+      expect(prop?.type).toBe('content_types');
+    });
+  });
+
+  describe('getReferenceIds', () => {
+    it('should wrap a single ID', () => {
+      expect(getReferenceIds('entry-1')).toEqual(['entry-1']);
+    });
+
+    it('should keep arrays of IDs', () => {
+      expect(getReferenceIds(['a', 'b', 3])).toEqual(['a', 'b', '3']);
+    });
+
+    it('should ignore empty and invalid values', () => {
+      expect(getReferenceIds('')).toEqual([]);
+      expect(getReferenceIds(null)).toEqual([]);
+      expect(getReferenceIds(['a', '', { id: 'x' }])).toEqual(['a']);
+    });
+  });
+
+  describe('getSelectOptions', () => {
+    it('should use string options as both value and label', () => {
+      expect(getSelectOptions({ name: 'size', label: 'Size', type: 'select', options: ['S', 'M'] })).toEqual([
+        { value: 'S', label: 'S' },
+        { value: 'M', label: 'M' },
+      ]);
+    });
+
+    it('should fall back to the value when an option has no label', () => {
+      expect(
+        getSelectOptions({
+          name: 'size',
+          label: 'Size',
+          type: 'select',
+          options: [{ value: 'sm', label: 'Small' }, { value: 'md' }],
+        })
+      ).toEqual([
+        { value: 'sm', label: 'Small' },
+        { value: 'md', label: 'md' },
+      ]);
+    });
+
+    it('should return no options when the field has none', () => {
+      expect(getSelectOptions({ name: 'size', label: 'Size', type: 'select' })).toEqual([]);
+    });
+  });
 });
@@ -1,5 +1,7 @@
 // Field type definitions for content type builder
 
+import { ContentTypeField } from '@/types';
+
 export interface FieldTypeDefinition {
   type: string;
   label: string;
@@ -15,7 +17,7 @@ export interface FieldTypeDefinition {
   configurableProperties: {
     name: string;
     label: string;
-    type: 'text' | 'number' | 'boolean' | 'select' | 'textarea' | 'array';
+    type: 'text' | 'number' | 'boolean' | 'select' | 'textarea' | 'array' | 'content_types' | 'blocks';
     options?: { value: string; label: string }[];
     default?: unknown;
   }[];
@@ -42,6 +44,9 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'defaultValue', label: 'Default Value', type: 'text' },
       { name: 'minLength', label: 'Min Length', type: 'number' },
       { name: 'maxLength', label: 'Max Length', type: 'number' },
+      { name: 'pattern', label: 'Pattern (regex)', type: 'text' },
+      { name: 'unique', label: 'Unique', type: 'boolean', default: false },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -62,7 +67,9 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'localized', label: 'Translatable', type: 'boolean', default: false },
       { name: 'placeholder', label: 'Placeholder', type: 'text' },
       { name: 'rows', label: 'Rows', type: 'number', default: 4 },
+      { name: 'minLength', label: 'Min Length', type: 'number' },
       { name: 'maxLength', label: 'Max Length', type: 'number' },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -82,6 +89,9 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'required', label: 'Required', type: 'boolean', default: false },
       { name: 'localized', label: 'Translatable', type: 'boolean', default: false },
       { name: 'placeholder', label: 'Placeholder', type: 'text' },
+      { name: 'minLength', label: 'Min Length', type: 'number' },
+      { name: 'maxLength', label: 'Max Length', type: 'number' },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -103,6 +113,7 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'max', label: 'Maximum Value', type: 'number' },
       { name: 'step', label: 'Step', type: 'number', default: 1 },
       { name: 'defaultValue', label: 'Default Value', type: 'number' },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -121,6 +132,8 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'description', label: 'Description', type: 'textarea' },
       { name: 'required', label: 'Required', type: 'boolean', default: false },
       { name: 'placeholder', label: 'Placeholder', type: 'text' },
+      { name: 'unique', label: 'Unique', type: 'boolean', default: false },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -139,6 +152,8 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'description', label: 'Description', type: 'textarea' },
       { name: 'required', label: 'Required', type: 'boolean', default: false },
       { name: 'placeholder', label: 'Placeholder', type: 'text' },
+      { name: 'unique', label: 'Unique', type: 'boolean', default: false },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -197,6 +212,8 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'label', label: 'Label', type: 'text' },
       { name: 'description', label: 'Description', type: 'textarea' },
       { name: 'required', label: 'Required', type: 'boolean', default: false },
+      { name: 'allowedMimeTypes', label: 'Allowed MIME Types', type: 'array' },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -214,6 +231,8 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'label', label: 'Label', type: 'text' },
       { name: 'description', label: 'Description', type: 'textarea' },
       { name: 'required', label: 'Required', type: 'boolean', default: false },
+      { name: 'allowedMimeTypes', label: 'Allowed MIME Types', type: 'array' },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -231,6 +250,9 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'label', label: 'Label', type: 'text' },
       { name: 'description', label: 'Description', type: 'textarea' },
       { name: 'required', label: 'Required', type: 'boolean', default: false },
+      { name: 'minDate', label: 'Earliest Date', type: 'text' },
+      { name: 'maxDate', label: 'Latest Date', type: 'text' },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -248,6 +270,9 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'label', label: 'Label', type: 'text' },
       { name: 'description', label: 'Description', type: 'textarea' },
       { name: 'required', label: 'Required', type: 'boolean', default: false },
+      { name: 'minDate', label: 'Earliest Date', type: 'text' },
+      { name: 'maxDate', label: 'Latest Date', type: 'text' },
+      { name: 'errorMessage', label: 'Custom Error Message', type: 'text' },
     ],
   },
   {
@@ -269,8 +294,69 @@ export const FIELD_TYPES: FieldTypeDefinition[] = [
       { name: 'placeholder', label: 'Placeholder', type: 'text' },
     ],
   },
+  {
+    type: 'reference',
+    label: 'Reference',
+    icon: '🔀',
+    description: 'Link to other content entries',
+    defaultConfig: {
+      label: 'Reference Field',
+      type: 'reference',
+      required: false,
+      description: '',
+      multiple: false,
+      allowed_content_types: [],
+    },
+    configurableProperties: [
+      { name: 'label', label: 'Label', type: 'text' },
+      { name: 'description', label: 'Description', type: 'textarea' },
+      { name: 'required', label: 'Required', type: 'boolean', default: false },
+      { name: 'multiple', label: 'Allow multiple entries', type: 'boolean', default: false },
+      { name: 'allowed_content_types', label: 'Allowed Content Types', type: 'content_types', default: [] },
+    ],
+  },
+  {
+    type: 'components',
+    label: 'Components',
+    icon: '🧩',
+    description: 'Ordered list of reusable content blocks',
+    defaultConfig: {
+      label: 'Components Field',
+      type: 'components',
+      required: false,
+      description: '',
+      blocks: [],
+    },
+    configurableProperties: [
+      { name: 'label', label: 'Label', type: 'text' },
+      { name: 'description', label: 'Description', type: 'textarea' },
+      { name: 'required', label: 'Required', type: 'boolean', default: false },
+      { name: 'blocks', label: 'Block Types', type: 'blocks', default: [] },
+    ],
+  },
 ];
 
+/**
+ * Normalize a reference field value to a list of entry IDs.
+ * Single references are stored as an ID string, multiple as an array of IDs.
+ */
+export function getReferenceIds(value: unknown): string[] {
+  const ids = Array.isArray(value) ? value : [value];
+  return ids
+    .filter((id) => (typeof id === 'string' && id !== '') || typeof id === 'number')
+    .map(String);
+}
+
+/**
+ * A select field's options as value/label pairs.
+ * Options may be stored as plain strings or as objects with an optional label.
+ */
+export function getSelectOptions(field: ContentTypeField): { value: string; label: string }[] {
+  return (field.options || []).map((option) =>
+    typeof option === 'string' ? { value: option, label: option } : { value: option.value, label: option.label || option.value }
+  );
+}
+
 export function getFieldTypeDefinition(type: string): FieldTypeDefinition | undefined {
   return FIELD_TYPES.find((ft) => ft.type === type);
 }
@@ -0,0 +1,1056 @@
+/**
+ * Built-in Admin Message Catalogs
+ *
+ * English is the source catalog and must contain every key. Other catalogs
+ * may be partial; missing messages fall back to English. Catalogs published
+ * in the CMS (see useAdminMessages) override these per message.
+ *
+ * The dashboard shell (navigation, header and user menu), the settings page,
+ * the content list, the entry editor with its schedule, workflow and history
+ * cards, the content edit dialog, the media library with its details, upload
+ * queue, folder sidebar, bulk tag and image editor dialogs, and the
+ * translation screens read their text from here. Other components, such as
+ * the field inputs, the media picker and the caption, poster and folder
+ * permission dialogs, are still English only and move over one at a time. To convert a screen, add its messages under a `<screen>.` prefix in
+ * `en`, translate them in the other catalogs and read them with `useI18n().t`.
+ */
+
+import type { MessageCatalog, UiLanguage } from '@/lib/i18n';
+
+const en: MessageCatalog = {
+  // Navigation
+  'nav.dashboard': 'Dashboard',
+  'nav.content': 'Content',
+  'nav.content-types': 'Content Types',
+  'nav.navigation': 'Navigation',
+  'nav.media': 'Media',
+  'nav.templates': 'Templates',
+  'nav.themes': 'Themes',
+  'nav.accessibility': 'Accessibility',
+  'nav.store-management': 'Store Management',
+  'nav.store-dashboard': 'Store Dashboard',
+  'nav.orders': 'Orders',
+  'nav.customers': 'Customers',
+  'nav.inventory': 'Inventory',
+  'nav.employees': 'Employees',
+  'nav.reference-data': 'Reference Data',
+  'nav.analytics': 'Analytics',
+  'nav.store-settings': 'Store Settings',
+  'nav.administration': 'Administration',
+  'nav.users': 'Users',
+  'nav.roles': 'Roles',
+  'nav.organization': 'Organization',
+  'nav.audit-logs': 'Audit Logs',
+  'nav.documentation': 'Documentation',
+  'nav.settings': 'Settings',
+
+  // Dashboard layout
+  'layout.main_navigation': 'Main navigation',
+  'layout.section_navigation': '{section} navigation',
+  'layout.sidebar': 'Sidebar',
+  'layout.organization': 'Organization',
+  'layout.default_organization': 'Default Organization',
+  'layout.loading': 'Loading dashboard...',
+  'layout.loading_sr': 'Loading, please wait',
+  'layout.open_navigation': 'Open navigation menu',
+  'layout.user_menu': 'User menu for {name}',
+  'layout.profile': 'Profile',
+  'layout.settings': 'Settings',
+  'layout.help': 'Help & Docs',
+  'layout.log_out': 'Log out',
+
+  // Settings → Display
+  'settings.language.title': 'Interface Language',
+  'settings.language.description': 'Menus, labels and messages',
+  'settings.language.hint':
+    'Only changes the dashboard. Content languages are managed under Organization → Languages.',
+  'settings.language.rtl': 'Shown right to left',
+  'settings.page_size.current': 'Currently showing {count, plural, one {# item} other {# items}} per page',
+
+  // Content list
+  'content.title': 'Content',
+  'content.description': 'Manage your content entries',
+  'content.loading': 'Loading content...',
+  'content.load_failed': 'Failed to load content',
+  'content.load_selection_failed': 'Failed to load the selected entries',
+  'content.delete_failed': 'Failed to delete content entry: {error}',
+  'content.view_mode': 'View mode',
+  'content.layout.list': 'List',
+  'content.layout.table': 'Table',
+  'content.layout.calendar': 'Calendar',
+  'content.bundle': 'Content Bundle',
+  'content.import.button': 'Import',
+  'content.import.csv': 'CSV or Spreadsheet',
+  'content.import.translations': 'Translations (XLIFF or PO)',
+  'content.export.button': 'Export',
+  'content.export.exporting': 'Exporting...',
+  'content.export.translations': 'For Translation (XLIFF or PO)',
+  'content.export_scope.selected': '{count, plural, one {# selected entry} other {# selected entries}}',
+  'content.export_scope.filtered': 'the entries matching the current filters',
+  'content.create': 'Create Content',
+  'content.calendar.title': 'Publishing Calendar',
+  'content.calendar.description': 'Upcoming scheduled publishes and unpublishes',
+  'content.filters.title': 'Filters',
+  'content.filters.description': 'Filter and search your content',
+  'content.filters.search': 'Search',
+  'content.filters.search_placeholder': 'Search content...',
+  'content.filters.results': '{count, plural, one {# result} other {# results}} found',
+  'content.filters.type': 'Content Type',
+  'content.filters.all_types': 'All Types',
+  'content.filters.status': 'Status',
+  'content.filters.all_statuses': 'All Status',
+  'content.status.draft': 'Draft',
+  'content.status.scheduled': 'Scheduled',
+  'content.status.published': 'Published',
+  'content.status.archived': 'Archived',
+  'content.publishes': 'Publishes {date}',
+  'content.unpublishes': 'Unpublishes {date}',
+  'content.actions.view': 'View Details',
+  'content.actions.edit': 'Edit',
+  'content.actions.delete': 'Delete',
+  'content.selection.page': 'Select page',
+  'content.selection.page_label': 'Select all on this page',
+  'content.selection.all_matching': 'All {count} entries matching the filters are selected.',
+  'content.selection.all_on_page': 'All {count} entries on this page are selected.',
+  'content.selection.select_matching': 'Select all {count} matching entries',
+  'content.selection.clear': 'Clear selection',
+  'content.columns': 'Columns',
+  'content.select_entry': 'Select {title}',
+  'content.unknown_type': 'Unknown Type',
+  'content.slug': 'Slug: {slug}',
+  'content.updated': 'Updated: {date}',
+  'content.empty.title': 'No content found',
+  'content.empty.no_types': 'No Content Types Yet',
+  'content.empty.filtered': 'No content matches your current filters. Try adjusting your search criteria or',
+  'content.empty.clear_filters': 'clearing all filters',
+  'content.empty.needs_type': 'You need to create a content type first before you can add content.',
+  'content.empty.create_type': 'Create a content type',
+  'content.empty.description':
+    'Get started by creating your first content entry. Content entries are instances of your content types.',
+  'content.empty.create': 'Create Your First Content',
+  'content.showing_results': 'Showing {count, plural, one {# result} other {# results}}',
+  'content.showing_entries': 'Showing {shown} of {count, plural, one {# entry} other {# entries}}',
+  'content.pagination.previous': 'Previous',
+  'content.pagination.next': 'Next',
+  'content.pagination.page': 'Page {page} of {pages}',
+  'content.a11y.title': 'Accessibility Checklist',
+  'content.a11y.description':
+    '{flagged} of {count, plural, one {# entry has} other {# entries have}} accessibility issues. Fix them before publishing, or publish anyway.',
+  'content.a11y.publish_anyway': 'Publish Anyway',
+  'content.cancel': 'Cancel',
+  'content.delete.title': 'Delete Content Entry',
+  'content.delete.description': 'Are you sure you want to delete "{title}"? This action cannot be undone.',
+  'content.delete.confirm': 'Delete Entry',
+  'content.edit.title': 'Edit: {title}',
+  'content.edit.loading': 'Loading...',
+  'content.edit.cancel': 'Cancel',
+  'content.edit.save': 'Save Changes',
+  'content.edit.save_failed': 'Failed to save content',
+  'content.edit.slug': 'Slug',
+  'content.edit.status': 'Status',
+  'content.edit.fields': 'Content Fields',
+  'content.edit.additional_fields': 'Additional Fields',
+  'content.edit.enter': 'Enter {field}',
+  'content.edit.select': 'Select {field}',
+  'content.edit.media_placeholder': 'Enter media URL or click Browse',
+  'content.edit.browse': 'Browse',
+
+  // Entry editor
+  'editor.loading': 'Loading...',
+  'editor.load_failed': 'Failed to load content entry',
+  'editor.back': 'Back',
+  'editor.back_to_content': 'Back to Content',
+  'editor.create_title': 'Create Content',
+  'editor.edit_title': 'Edit Content',
+  'editor.select_type': 'Select a content type',
+  'editor.save_draft': 'Save Draft',
+  'editor.saving': 'Saving...',
+  'editor.publish': 'Publish',
+  'editor.saved': 'Content saved successfully',
+  'editor.save_failed': 'Failed to save: {error}',
+  'editor.published': 'Content published successfully',
+  'editor.publish_failed': 'Failed to publish: {error}',
+  'editor.save_first': 'Please save the content first',
+  'editor.select_type_required': 'Please select a content type',
+  'editor.slug_required': 'Please enter a slug',
+  'editor.fix_fields': 'Fix the highlighted fields before publishing',
+  'editor.media_not_allowed': '{field} only accepts {types}',
+  'editor.default_content': 'Default content',
+  'editor.inherited_from': 'Inherited from {locale}',
+  'editor.override': 'Override',
+  'editor.override_field': 'Override {field}',
+  'editor.reset': 'Reset to inherited',
+  'editor.reset_field': 'Reset {field} to inherited',
+  'editor.not_available': 'N/A',
+  'editor.a11y.title': 'Accessibility Checklist',
+  'editor.a11y.description':
+    'This entry has {count, plural, one {# accessibility issue} other {# accessibility issues}}. Fix them before publishing, or publish anyway.',
+  'editor.a11y.keep_editing': 'Keep Editing',
+  'editor.a11y.publish_anyway': 'Publish Anyway',
+  'editor.type.title': 'Content Type',
+  'editor.type.description': 'Select the type of content you want to create',
+  'editor.type.placeholder': 'Select content type',
+  'editor.content.title': 'Content',
+  'editor.content.description': 'Fill in the content details and translations',
+  'editor.content.no_fields': 'No fields defined for this content type.',
+  'editor.content.default_tab': 'Default Content',
+  'editor.content.history_tab': 'History',
+  'editor.content.translate_hint': 'Translate content to {locale}. Fields left empty inherit from {fallback}.',
+  'editor.content.default_fallback': 'the default content',
+  'editor.settings.title': 'Settings',
+  'editor.settings.slug': 'Slug',
+  'editor.settings.generate': 'Generate',
+  'editor.settings.status': 'Status',
+  'editor.settings.workflow_managed': 'Managed by review workflow',
+  'editor.settings.created': 'Created:',
+  'editor.settings.updated': 'Updated:',
+  'editor.settings.published': 'Published:',
+  'editor.accessibility.title': 'Accessibility',
+  'editor.accessibility.description': 'Checked again before publishing',
+  'editor.actions.title': 'Actions',
+  'editor.actions.preview': 'Preview',
+  'editor.actions.translate': 'Translation Workspace',
+  'editor.actions.delete': 'Delete',
+  'editor.preview.title': 'Preview: {title}',
+  'editor.preview.untitled': 'Content',
+  'editor.preview.edit': 'Edit',
+  'editor.preview.last_updated': 'Last Updated',
+  'editor.preview.fields': 'Content Fields',
+  'editor.preview.not_set': 'Not set',
+  'editor.preview.empty': 'Empty',
+  'editor.preview.yes': 'Yes',
+  'editor.preview.no': 'No',
+  'editor.preview.no_fields': 'No fields defined',
+  'editor.schedule.title': 'Schedule',
+  'editor.schedule.timezone': 'Times are in {timezone}',
+  'editor.schedule.publish_at': 'Publish at',
+  'editor.schedule.unpublish_at': 'Unpublish at',
+  'editor.schedule.save': 'Save Schedule',
+  'editor.schedule.saving': 'Saving...',
+  'editor.schedule.clear': 'Clear',
+  'editor.schedule.time_required': 'Choose a publish or unpublish time',
+  'editor.schedule.publish_in_past': 'Publish time must be in the future',
+  'editor.schedule.unpublish_in_past': 'Unpublish time must be in the future',
+  'editor.schedule.unpublish_before_publish': 'Unpublish time must be after the publish time',
+  'editor.schedule.scheduled_publish': 'Scheduled to publish {date}',
+  'editor.schedule.scheduled_unpublish': 'Scheduled to unpublish {date}',
+  'editor.schedule.save_failed': 'Failed to save schedule: {error}',
+  'editor.schedule.cleared': 'Schedule cleared',
+  'editor.schedule.clear_failed': 'Failed to clear schedule: {error}',
+  'editor.workflow.title': 'Review',
+  'editor.workflow.current_stage': 'Current stage:',
+  'editor.workflow.stages': 'Workflow stages',
+  'editor.workflow.reviewer': 'Reviewer',
+  'editor.workflow.unassigned': 'Unassigned',
+  'editor.workflow.move_to': 'Move to {stage}',
+  'editor.workflow.request_changes': 'Request Changes',
+  'editor.workflow.permission_required': 'Moving to {stage} requires the "{permission}" permission',
+  'editor.workflow.history': 'History',
+  'editor.workflow.someone': 'Someone',
+  'editor.workflow.moved_from': 'moved {from} → {to}',
+  'editor.workflow.moved_to': 'moved to {to}',
+  'editor.workflow.moved': 'Moved to {stage}',
+  'editor.workflow.move_failed': 'Failed to change stage: {error}',
+  'editor.workflow.comment_required': 'Please explain what needs to change',
+  'editor.workflow.reviewer_removed': 'Reviewer removed',
+  'editor.workflow.reviewer_assigned': 'Reviewer assigned',
+  'editor.workflow.assign_failed': 'Failed to assign reviewer: {error}',
+  'editor.workflow.reject.description': 'Send this entry back and tell the author what needs to change.',
+  'editor.workflow.reject.stage': 'Send back to',
+  'editor.workflow.reject.comment': 'Comment *',
+  'editor.workflow.reject.placeholder': 'What needs to change before this can be approved?',
+  'editor.workflow.reject.cancel': 'Cancel',
+  'editor.workflow.reject.send': 'Send Back',
+  'editor.history.load_failed': 'Failed to load version history',
+  'editor.history.restored': 'Version {version} restored as a new draft',
+  'editor.history.restore_failed': 'Failed to restore version: {error}',
+  'editor.history.empty': 'No previous versions yet',
+  'editor.history.revisions': 'Revisions',
+  'editor.history.version': 'Version {version}',
+  'editor.history.unknown_author': 'Unknown',
+  'editor.history.current_version': 'Current version',
+  'editor.history.compared': 'Version {version} compared to current',
+  'editor.history.changed_fields': '{count, plural, one {# field} other {# fields}} changed',
+  'editor.history.show_unchanged': 'Show unchanged fields',
+  'editor.history.restore': 'Restore this version',
+  'editor.history.no_differences': 'No differences from the current content',
+  'editor.history.current': 'Current',
+  'editor.history.root': '(root)',
+  'editor.history.kind.added': 'added',
+  'editor.history.kind.removed': 'removed',
+  'editor.history.kind.changed': 'changed',
+  'editor.history.confirm.title': 'Restore Version',
+  'editor.history.confirm.description':
+    'Restore version {version}? Its content will be saved as a new draft; the current version stays in the history.',
+  'editor.history.confirm.restore': 'Restore',
+
+  // Translations
+  'translations.moved.title': 'Page Moved',
+  'translations.moved.description': 'Translations management has been consolidated into Organization Settings',
+  'translations.moved.redirect':
+    "You'll be automatically redirected to the new location in a few seconds, or click the button below.",
+  'translations.moved.go': 'Go to Organization Settings',
+  'translations.progress.title': 'Translation Progress',
+  'translations.progress.description': 'Completeness of localized fields per content type and locale',
+  'translations.progress.manage_locales': 'Manage Locales',
+  'translations.progress.loading': 'Loading translations...',
+  'translations.progress.no_locales': 'Enable a locale besides the default one to track translations.',
+  'translations.progress.by_type': 'By Content Type',
+  'translations.progress.by_type_description':
+    'Missing and outdated fields count as incomplete. Of the {count, plural, one {# most recently updated entry} other {# most recently updated entries}}.',
+  'translations.progress.no_types': 'No content type has localized fields yet.',
+  'translations.progress.content_type': 'Content Type',
+  'translations.progress.entries': 'Entries',
+  'translations.status.missing': 'Missing',
+  'translations.status.outdated': 'Outdated',
+  'translations.status.machine': 'Machine translated',
+  'translations.status.translated': 'Translated',
+  'translations.status.reviewed': 'Reviewed',
+
+  // Translation workspace
+  'translate.title': 'Translate: {title}',
+  'translate.shortcuts_hint': 'Alt+↑/↓ to move between fields, Ctrl+S to save',
+  'translate.loading': 'Loading...',
+  'translate.load_failed': 'Failed to load content entry',
+  'translate.not_found': 'Content entry not found',
+  'translate.back_to_content': 'Back to Content',
+  'translate.back_to_entry': 'Back to entry',
+  'translate.target_locale': 'Target locale',
+  'translate.save_first': 'Save or discard your changes first',
+  'translate.auto_translate': 'Auto-translate',
+  'translate.auto_translating': 'Translating...',
+  'translate.save': 'Save Translation',
+  'translate.saving': 'Saving...',
+  'translate.saved': '{locale} translation saved',
+  'translate.save_failed': 'Failed to save translation: {error}',
+  'translate.nothing_translated': 'Nothing was translated',
+  'translate.machine_added': '{locale} machine translation added',
+  'translate.auto_translate_failed': 'Failed to auto-translate: {error}',
+  'translate.glossary_flagged':
+    '{count, plural, one {# machine-translated field breaks} other {# machine-translated fields break}} the glossary',
+  'translate.media_not_allowed': '{field} only accepts {types}',
+  'translate.shortcut.next': 'Next field',
+  'translate.shortcut.previous': 'Previous field',
+  'translate.shortcut.save': 'Save translation',
+  'translate.no_locales': 'Add a second locale to start translating.',
+  'translate.manage_locales': 'Manage locales',
+  'translate.no_fields':
+    '{type} has no localized fields. Mark fields as localized on the content type to translate them here.',
+  'translate.this_type': 'This content type',
+  'translate.default_locale': 'Default',
+  'translate.complete': '{percent}% complete',
+  'translate.all_fields': 'All Fields',
+  'translate.needs_work': 'Needs Work',
+  'translate.all_done': 'Every field is translated and up to date.',
+  'translate.empty': 'Empty',
+  'translate.glossary': 'Glossary:',
+  'translate.keep_term': '{term} (keep as is)',
+  'translate.memory': 'Translation memory',
+  'translate.memory_for': 'Translation memory for {field}',
+  'translate.match': '{score}% match',
+  'translate.use': 'Use',
+  'translate.use_match': 'Use {score}% match for {field}',
+  'translate.mark_reviewed': 'Mark Reviewed',
+  'translate.mark_field_reviewed': 'Mark {field} reviewed',
+
+  // Media library
+  'media.title': 'Media Library',
+  'media.description': 'Upload and manage your media files',
+  'media.edit_upload': 'Edit & Upload Image',
+  'media.upload': 'Upload Media',
+  'media.all_media': 'All Media',
+  'media.folder_path': 'Folder path',
+  'media.read_only': '(read only)',
+  'media.loading': 'Loading media...',
+  'media.select': 'Select {name}',
+  'media.unused': 'Unused',
+  'media.uploads.title': 'Uploads',
+  'media.uploads.in_progress': 'Large files upload in chunks and can be paused and resumed.',
+  'media.uploads.finished': 'All uploads have finished.',
+  'media.uploads.queue': 'Upload queue',
+  'media.uploads.count': '{finished} of {total} uploaded',
+  'media.uploads.clear_finished': 'Clear Finished',
+  'media.uploads.status.queued': 'Queued',
+  'media.uploads.status.uploading': 'Uploading',
+  'media.uploads.status.retrying': 'Retrying',
+  'media.uploads.status.paused': 'Paused',
+  'media.uploads.status.done': 'Uploaded',
+  'media.uploads.status.error': 'Failed',
+  'media.uploads.status.cancelled': 'Cancelled',
+  'media.uploads.pause': 'Pause {filename}',
+  'media.uploads.resume': 'Resume {filename}',
+  'media.uploads.retry': 'Retry {filename}',
+  'media.uploads.cancel': 'Cancel {filename}',
+  'media.uploads.progress': '{filename} progress',
+  'media.drop.title': 'Drop files here to upload',
+  'media.drop.hint': 'or click the upload button above',
+  'media.drop.supports': 'Supports: Images, Videos, Audio, PDF, Documents',
+  'media.filters.title': 'Filters',
+  'media.filters.search': 'Search',
+  'media.filters.search_placeholder': 'Search files...',
+  'media.filters.file_type': 'File Type',
+  'media.filters.all_types': 'All Types',
+  'media.filters.images': 'Images',
+  'media.filters.videos': 'Videos',
+  'media.filters.audio': 'Audio',
+  'media.filters.documents': 'Documents',
+  'media.filters.usage': 'Usage',
+  'media.filters.unused': 'Unused Media',
+  'media.filters.page_size': 'Items per page',
+  'media.bulk.selected': '{count} selected',
+  'media.bulk.tag': 'Tag',
+  'media.bulk.move': 'Move to',
+  'media.bulk.no_folder': 'All Media (no folder)',
+  'media.bulk.delete': 'Delete',
+  'media.bulk.clear': 'Clear Selection',
+  'media.tags.title': 'Tag {count, plural, one {# Item} other {# Items}}',
+  'media.tags.description': 'Existing tags that are not listed here are kept.',
+  'media.tags.add': 'Add tags',
+  'media.tags.remove': 'Remove tags',
+  'media.tags.cancel': 'Cancel',
+  'media.tags.apply': 'Apply',
+  'media.tags.saving': 'Saving...',
+  'media.tags.updated': 'Updated tags on {count, plural, one {# item} other {# items}}',
+  'media.tags.failed': 'Failed to update tags',
+  'media.sidebar.label': 'Media folders',
+  'media.sidebar.folders': 'Folders',
+  'media.sidebar.add_folder': 'New folder',
+  'media.sidebar.new_folder': 'New Folder',
+  'media.sidebar.new_subfolder': 'New Subfolder',
+  'media.sidebar.rename': 'Rename',
+  'media.sidebar.rename_folder': 'Rename Folder',
+  'media.sidebar.permissions': 'Permissions',
+  'media.sidebar.delete': 'Delete',
+  'media.sidebar.folder_actions': '{folder} actions',
+  'media.sidebar.drag_hint': 'Drag files or folders onto a folder to move them.',
+  'media.sidebar.tags': 'Tags',
+  'media.sidebar.clear_tags': 'Clear',
+  'media.sidebar.name': 'Name',
+  'media.sidebar.cancel': 'Cancel',
+  'media.sidebar.create_folder': 'Create Folder',
+  'media.sidebar.delete_title': 'Delete Folder',
+  'media.sidebar.delete_description': 'Delete "{folder}"? Its files and subfolders move to the parent folder.',
+  'media.sidebar.deleted': 'Deleted folder "{folder}"',
+  'media.sidebar.save_failed': 'Failed to save folder',
+  'media.sidebar.delete_failed': 'Failed to delete folder',
+  'media.sidebar.move_into_self': 'A folder cannot be moved into one of its own subfolders',
+  'media.sidebar.move_failed': 'Failed to move folder',
+  'media.empty.title': 'No media files yet',
+  'media.empty.description': 'Upload your first media file by dragging and dropping or using the upload button',
+  'media.empty.upload': 'Upload Your First File',
+  'media.pagination.showing': 'Showing {from} to {to} of {total} items',
+  'media.pagination.previous': 'Previous',
+  'media.pagination.next': 'Next',
+  'media.delete.title': 'Delete Media',
+  'media.delete.description':
+    'Delete {count, plural, one {# item} other {# items}}? Files that are still used by content or navigation are kept.',
+  'media.editor.upload': 'Upload',
+  'media.editor.title': 'Edit Image',
+  'media.editor.description': 'Crop, rotate, resize and convert {filename}. Editing happens in your browser.',
+  'media.editor.loading': 'Loading image...',
+  'media.editor.focal_point': 'Focal point',
+  'media.editor.tool': 'Tool',
+  'media.editor.crop': 'Crop',
+  'media.editor.focal': 'Focal Point',
+  'media.editor.crop_hint': 'Drag on the image to select the crop area.',
+  'media.editor.focal_hint': 'Click the most important part of the image. Front-ends keep it in view when cropping.',
+  'media.editor.aspect_ratio': 'Aspect Ratio',
+  'media.editor.rotate_flip': 'Rotate & Flip',
+  'media.editor.rotate_left': 'Rotate left',
+  'media.editor.rotate_right': 'Rotate right',
+  'media.editor.flip_horizontal': 'Flip horizontal',
+  'media.editor.flip_vertical': 'Flip vertical',
+  'media.editor.size': 'Size (px)',
+  'media.editor.width': 'Width',
+  'media.editor.height': 'Height',
+  'media.editor.size_hint': 'Leave the width empty to keep the cropped size.',
+  'media.editor.format': 'Format',
+  'media.editor.quality': 'Quality',
+  'media.editor.quality_value': 'Quality: {quality}%',
+  'media.editor.reset': 'Reset',
+  'media.editor.cancel': 'Cancel',
+  'media.editor.save_as_version': 'Save as New Version',
+  'media.editor.save_as_new': 'Save as New Image',
+  'media.editor.saving': 'Saving...',
+  'media.editor.save_failed': 'Failed to save image',
+  'media.moved': 'Moved {count, plural, one {# item} other {# items}} to {folder}',
+  'media.move_not_allowed': 'You cannot add files to "{folder}"',
+  'media.move_out_not_allowed': 'You cannot remove files from "{folder}"',
+  'media.move_failed': 'Failed to move media',
+  'media.deleted': 'Deleted {count, plural, one {# item} other {# items}}',
+  'media.delete_failed':
+    '{count, plural, one {# item} other {# items}} could not be deleted. Files that are still in use are kept.',
+  'media.details.title': 'Media Details',
+  'media.details.description': 'View and edit media file information',
+  'media.details.filename': 'Filename',
+  'media.details.file_type': 'File Type',
+  'media.details.file_size': 'File Size',
+  'media.details.duration': 'Duration',
+  'media.details.codecs': 'Codecs',
+  'media.details.unknown': 'Unknown',
+  'media.details.alt_text': 'Alt Text',
+  'media.details.no_alt_text': 'No alt text',
+  'media.details.alt_placeholder': 'Describe this image for accessibility',
+  'media.details.uploaded': 'Uploaded',
+  'media.details.not_available': 'N/A',
+  'media.details.tags': 'Tags',
+  'media.details.focal_point': 'Focal Point',
+  'media.details.focal_point_value': '{x}% from left, {y}% from top',
+  'media.details.url': 'URL',
+  'media.details.captions': 'Captions & Subtitles',
+  'media.details.loading_captions': 'Loading captions...',
+  'media.details.where_used': 'Where Used',
+  'media.details.where_used_count': 'Where Used ({count})',
+  'media.details.replace_file': 'Replace File',
+  'media.details.upload_new_file': 'Upload New File',
+  'media.details.replacing': 'Replacing...',
+  'media.details.replace_hint': 'Keeps the ID, URL, alt text and tags. The current file is kept as a version.',
+  'media.details.delete': 'Delete',
+  'media.details.edit_image': 'Edit Image',
+  'media.details.choose_poster': 'Choose Poster',
+  'media.details.edit': 'Edit',
+  'media.details.close': 'Close',
+  'media.details.cancel': 'Cancel',
+  'media.details.save': 'Save',
+  'media.details.saving': 'Saving...',
+  'media.details.update_failed': 'Failed to update media',
+  'media.details.delete_failed': 'Failed to delete media',
+  'media.details.replaced': 'File replaced',
+  'media.details.replace_failed': 'Failed to replace file',
+  'media.details.saved_copy': 'Saved {filename}',
+  'media.details.replace.description':
+    'Replace {current} with {replacement}? The ID and URL stay the same, so everything that uses this file will show the new one.',
+  'media.details.replace.used_in': 'Used in {count, plural, one {# place} other {# places}}:',
+  'media.details.replace.confirm': 'Replace',
+  'media.details.delete.title': 'Confirm Delete',
+  'media.details.delete.description': 'Are you sure you want to delete this file? This action cannot be undone.',
+  'media.details.delete.in_use':
+    'This file is used in {count, plural, one {# place} other {# places}}. Deleting it will leave them with a broken image or link:',
+  'media.details.delete.deleting': 'Deleting...',
+  'media.details.delete.anyway': 'Delete Anyway',
+  'media.details.usage.checking': 'Checking where this file is used...',
+  'media.details.usage.failed': 'Could not check where this file is used.',
+};
+
+const fr: MessageCatalog = {
+  'nav.dashboard': 'Tableau de bord',
+  'nav.content': 'Contenu',
+  'nav.content-types': 'Types de contenu',
+  'nav.navigation': 'Navigation',
+  'nav.media': 'Médias',
+  'nav.templates': 'Modèles',
+  'nav.themes': 'Thèmes',
+  'nav.accessibility': 'Accessibilité',
+  'nav.store-management': 'Gestion du magasin',
+  'nav.store-dashboard': 'Tableau de bord du magasin',
+  'nav.orders': 'Commandes',
+  'nav.customers': 'Clients',
+  'nav.inventory': 'Inventaire',
+  'nav.employees': 'Employés',
+  'nav.reference-data': 'Données de référence',
+  'nav.analytics': 'Statistiques',
+  'nav.store-settings': 'Paramètres du magasin',
+  'nav.administration': 'Administration',
+  'nav.users': 'Utilisateurs',
+  'nav.roles': 'Rôles',
+  'nav.organization': 'Organisation',
+  'nav.audit-logs': "Journaux d'audit",
+  'nav.documentation': 'Documentation',
+  'nav.settings': 'Paramètres',
+
+  'layout.main_navigation': 'Navigation principale',
+  'layout.section_navigation': 'Navigation : {section}',
+  'layout.sidebar': 'Barre latérale',
+  'layout.organization': 'Organisation',
+  'layout.default_organization': 'Organisation par défaut',
+  'layout.loading': 'Chargement du tableau de bord...',
+  'layout.loading_sr': 'Chargement, veuillez patienter',
+  'layout.open_navigation': 'Ouvrir le menu de navigation',
+  'layout.user_menu': 'Menu utilisateur de {name}',
+  'layout.profile': 'Profil',
+  'layout.settings': 'Paramètres',
+  'layout.help': 'Aide et documentation',
+  'layout.log_out': 'Se déconnecter',
+
+  'settings.language.title': "Langue de l'interface",
+  'settings.language.description': 'Menus, libellés et messages',
+  'settings.language.hint':
+    'Ne modifie que le tableau de bord. Les langues du contenu se gèrent dans Organisation → Langues.',
+  'settings.language.rtl': 'Affichée de droite à gauche',
+  'settings.page_size.current':
+    '{count, plural, one {# élément affiché} other {# éléments affichés}} par page',
+
+  'content.title': 'Contenu',
+  'content.description': 'Gérez vos entrées de contenu',
+  'content.loading': 'Chargement du contenu...',
+  'content.load_failed': 'Impossible de charger le contenu',
+  'content.load_selection_failed': 'Impossible de charger les entrées sélectionnées',
+  'content.delete_failed': "Impossible de supprimer l'entrée : {error}",
+  'content.view_mode': "Mode d'affichage",
+  'content.layout.list': 'Liste',
+  'content.layout.table': 'Tableau',
+  'content.layout.calendar': 'Calendrier',
+  'content.bundle': 'Lot de contenu',
+  'content.import.button': 'Importer',
+  'content.import.csv': 'CSV ou tableur',
+  'content.import.translations': 'Traductions (XLIFF ou PO)',
+  'content.export.button': 'Exporter',
+  'content.export.exporting': 'Exportation...',
+  'content.export.translations': 'Pour traduction (XLIFF ou PO)',
+  'content.export_scope.selected': '{count, plural, one {# entrée sélectionnée} other {# entrées sélectionnées}}',
+  'content.export_scope.filtered': 'les entrées correspondant aux filtres actuels',
+  'content.create': 'Créer du contenu',
+  'content.calendar.title': 'Calendrier de publication',
+  'content.calendar.description': 'Publications et dépublications programmées à venir',
+  'content.filters.title': 'Filtres',
+  'content.filters.description': 'Filtrez et recherchez votre contenu',
+  'content.filters.search': 'Recherche',
+  'content.filters.search_placeholder': 'Rechercher du contenu...',
+  'content.filters.results': '{count, plural, one {# résultat trouvé} other {# résultats trouvés}}',
+  'content.filters.type': 'Type de contenu',
+  'content.filters.all_types': 'Tous les types',
+  'content.filters.status': 'Statut',
+  'content.filters.all_statuses': 'Tous les statuts',
+  'content.status.draft': 'Brouillon',
+  'content.status.scheduled': 'Programmé',
+  'content.status.published': 'Publié',
+  'content.status.archived': 'Archivé',
+  'content.publishes': 'Publication le {date}',
+  'content.unpublishes': 'Dépublication le {date}',
+  'content.actions.view': 'Voir les détails',
+  'content.actions.edit': 'Modifier',
+  'content.actions.delete': 'Supprimer',
+  'content.selection.page': 'Sélectionner la page',
+  'content.selection.page_label': 'Tout sélectionner sur cette page',
+  'content.selection.all_matching': 'Les {count} entrées correspondant aux filtres sont sélectionnées.',
+  'content.selection.all_on_page': 'Les {count} entrées de cette page sont sélectionnées.',
+  'content.selection.select_matching': 'Sélectionner les {count} entrées correspondantes',
+  'content.selection.clear': 'Effacer la sélection',
+  'content.columns': 'Colonnes',
+  'content.select_entry': 'Sélectionner {title}',
+  'content.unknown_type': 'Type inconnu',
+  'content.slug': 'Slug : {slug}',
+  'content.updated': 'Modifié : {date}',
+  'content.empty.title': 'Aucun contenu trouvé',
+  'content.empty.no_types': 'Aucun type de contenu',
+  'content.empty.filtered': 'Aucun contenu ne correspond à vos filtres. Modifiez vos critères de recherche ou',
+  'content.empty.clear_filters': 'effacez tous les filtres',
+  'content.empty.needs_type': "Vous devez d'abord créer un type de contenu avant d'ajouter du contenu.",
+  'content.empty.create_type': 'Créer un type de contenu',
+  'content.empty.description':
+    'Commencez par créer votre première entrée. Les entrées de contenu sont des instances de vos types de contenu.',
+  'content.empty.create': 'Créer votre premier contenu',
+  'content.showing_results': '{count, plural, one {# résultat affiché} other {# résultats affichés}}',
+  'content.showing_entries': '{shown} sur {count, plural, one {# entrée} other {# entrées}}',
+  'content.pagination.previous': 'Précédent',
+  'content.pagination.next': 'Suivant',
+  'content.pagination.page': 'Page {page} sur {pages}',
+  'content.a11y.title': "Liste de contrôle d'accessibilité",
+  'content.a11y.description':
+    "{flagged} {count, plural, one {entrée sur # présente} other {entrées sur # présentent}} des problèmes d'accessibilité. Corrigez-les avant de publier, ou publiez quand même.",
+  'content.a11y.publish_anyway': 'Publier quand même',
+  'content.cancel': 'Annuler',
+  'content.delete.title': "Supprimer l'entrée",
+  'content.delete.description': 'Voulez-vous vraiment supprimer « {title} » ? Cette action est irréversible.',
+  'content.delete.confirm': "Supprimer l'entrée",
+  'content.edit.title': 'Modifier : {title}',
+  'content.edit.loading': 'Chargement...',
+  'content.edit.cancel': 'Annuler',
+  'content.edit.save': 'Enregistrer les modifications',
+  'content.edit.save_failed': "Impossible d'enregistrer le contenu",
+  'content.edit.slug': 'Slug',
+  'content.edit.status': 'Statut',
+  'content.edit.fields': 'Champs du contenu',
+  'content.edit.additional_fields': 'Champs supplémentaires',
+  'content.edit.enter': 'Saisir : {field}',
+  'content.edit.select': 'Choisir : {field}',
+  'content.edit.media_placeholder': "Saisissez l'URL du média ou cliquez sur Parcourir",
+  'content.edit.browse': 'Parcourir',
+
+  'editor.loading': 'Chargement...',
+  'editor.load_failed': "Impossible de charger l'entrée",
+  'editor.back': 'Retour',
+  'editor.back_to_content': 'Retour au contenu',
+  'editor.create_title': 'Créer du contenu',
+  'editor.edit_title': 'Modifier le contenu',
+  'editor.select_type': 'Sélectionnez un type de contenu',
+  'editor.save_draft': 'Enregistrer le brouillon',
+  'editor.saving': 'Enregistrement...',
+  'editor.publish': 'Publier',
+  'editor.saved': 'Contenu enregistré',
+  'editor.save_failed': "Impossible d'enregistrer : {error}",
+  'editor.published': 'Contenu publié',
+  'editor.publish_failed': 'Impossible de publier : {error}',
+  'editor.save_first': "Enregistrez d'abord le contenu",
+  'editor.select_type_required': 'Sélectionnez un type de contenu',
+  'editor.slug_required': 'Saisissez un slug',
+  'editor.fix_fields': 'Corrigez les champs signalés avant de publier',
+  'editor.media_not_allowed': "{field} n'accepte que {types}",
+  'editor.default_content': 'Contenu par défaut',
+  'editor.inherited_from': 'Hérité de {locale}',
+  'editor.override': 'Remplacer',
+  'editor.override_field': 'Remplacer {field}',
+  'editor.reset': 'Rétablir la valeur héritée',
+  'editor.reset_field': 'Rétablir la valeur héritée pour {field}',
+  'editor.not_available': 'N/D',
+  'editor.a11y.title': "Liste de contrôle d'accessibilité",
+  'editor.a11y.description':
+    "Cette entrée présente {count, plural, one {# problème d'accessibilité} other {# problèmes d'accessibilité}}. Corrigez-les avant de publier, ou publiez quand même.",
+  'editor.a11y.keep_editing': 'Continuer la modification',
+  'editor.a11y.publish_anyway': 'Publier quand même',
+  'editor.type.title': 'Type de contenu',
+  'editor.type.description': 'Sélectionnez le type de contenu à créer',
+  'editor.type.placeholder': 'Sélectionner un type de contenu',
+  'editor.content.title': 'Contenu',
+  'editor.content.description': 'Renseignez le contenu et ses traductions',
+  'editor.content.no_fields': "Aucun champ n'est défini pour ce type de contenu.",
+  'editor.content.default_tab': 'Contenu par défaut',
+  'editor.content.history_tab': 'Historique',
+  'editor.content.translate_hint':
+    'Traduisez le contenu en {locale}. Les champs laissés vides héritent de {fallback}.',
+  'editor.content.default_fallback': 'le contenu par défaut',
+  'editor.settings.title': 'Paramètres',
+  'editor.settings.slug': 'Slug',
+  'editor.settings.generate': 'Générer',
+  'editor.settings.status': 'Statut',
+  'editor.settings.workflow_managed': 'Géré par le circuit de validation',
+  'editor.settings.created': 'Créé :',
+  'editor.settings.updated': 'Modifié :',
+  'editor.settings.published': 'Publié :',
+  'editor.accessibility.title': 'Accessibilité',
+  'editor.accessibility.description': 'Vérifiée à nouveau avant la publication',
+  'editor.actions.title': 'Actions',
+  'editor.actions.preview': 'Aperçu',
+  'editor.actions.translate': 'Espace de traduction',
+  'editor.actions.delete': 'Supprimer',
+  'editor.preview.title': 'Aperçu : {title}',
+  'editor.preview.untitled': 'Contenu',
+  'editor.preview.edit': 'Modifier',
+  'editor.preview.last_updated': 'Dernière modification',
+  'editor.preview.fields': 'Champs du contenu',
+  'editor.preview.not_set': 'Non renseigné',
+  'editor.preview.empty': 'Vide',
+  'editor.preview.yes': 'Oui',
+  'editor.preview.no': 'Non',
+  'editor.preview.no_fields': 'Aucun champ défini',
+  'editor.schedule.title': 'Planification',
+  'editor.schedule.timezone': 'Les heures sont en {timezone}',
+  'editor.schedule.publish_at': 'Publier le',
+  'editor.schedule.unpublish_at': 'Dépublier le',
+  'editor.schedule.save': 'Enregistrer la planification',
+  'editor.schedule.saving': 'Enregistrement...',
+  'editor.schedule.clear': 'Effacer',
+  'editor.schedule.time_required': 'Choisissez une date de publication ou de dépublication',
+  'editor.schedule.publish_in_past': 'La date de publication doit être dans le futur',
+  'editor.schedule.unpublish_in_past': 'La date de dépublication doit être dans le futur',
+  'editor.schedule.unpublish_before_publish': 'La date de dépublication doit suivre la date de publication',
+  'editor.schedule.scheduled_publish': 'Publication planifiée le {date}',
+  'editor.schedule.scheduled_unpublish': 'Dépublication planifiée le {date}',
+  'editor.schedule.save_failed': "Impossible d'enregistrer la planification : {error}",
+  'editor.schedule.cleared': 'Planification effacée',
+  'editor.schedule.clear_failed': "Impossible d'effacer la planification : {error}",
+  'editor.workflow.title': 'Relecture',
+  'editor.workflow.current_stage': 'Étape actuelle :',
+  'editor.workflow.stages': 'Étapes du workflow',
+  'editor.workflow.reviewer': 'Relecteur',
+  'editor.workflow.unassigned': 'Non assigné',
+  'editor.workflow.move_to': 'Passer à {stage}',
+  'editor.workflow.request_changes': 'Demander des modifications',
+  'editor.workflow.permission_required': "Passer à {stage} nécessite l'autorisation « {permission} »",
+  'editor.workflow.history': 'Historique',
+  'editor.workflow.someone': "Quelqu'un",
+  'editor.workflow.moved_from': 'a déplacé {from} → {to}',
+  'editor.workflow.moved_to': 'a déplacé vers {to}',
+  'editor.workflow.moved': 'Déplacé vers {stage}',
+  'editor.workflow.move_failed': "Impossible de changer d'étape : {error}",
+  'editor.workflow.comment_required': 'Expliquez ce qui doit être modifié',
+  'editor.workflow.reviewer_removed': 'Relecteur retiré',
+  'editor.workflow.reviewer_assigned': 'Relecteur assigné',
+  'editor.workflow.assign_failed': "Impossible d'assigner le relecteur : {error}",
+  'editor.workflow.reject.description': "Renvoyez cette entrée et indiquez à l'auteur ce qui doit être modifié.",
+  'editor.workflow.reject.stage': 'Renvoyer à',
+  'editor.workflow.reject.comment': 'Commentaire *',
+  'editor.workflow.reject.placeholder': 'Que faut-il modifier avant approbation ?',
+  'editor.workflow.reject.cancel': 'Annuler',
+  'editor.workflow.reject.send': 'Renvoyer',
+  'editor.history.load_failed': "Impossible de charger l'historique des versions",
+  'editor.history.restored': 'Version {version} restaurée comme nouveau brouillon',
+  'editor.history.restore_failed': 'Impossible de restaurer la version : {error}',
+  'editor.history.empty': 'Aucune version précédente',
+  'editor.history.revisions': 'Révisions',
+  'editor.history.version': 'Version {version}',
+  'editor.history.unknown_author': 'Inconnu',
+  'editor.history.current_version': 'Version actuelle',
+  'editor.history.compared': "Version {version} comparée à l'actuelle",
+  'editor.history.changed_fields': '{count, plural, one {# champ modifié} other {# champs modifiés}}',
+  'editor.history.show_unchanged': 'Afficher les champs inchangés',
+  'editor.history.restore': 'Restaurer cette version',
+  'editor.history.no_differences': 'Aucune différence avec le contenu actuel',
+  'editor.history.current': 'Actuel',
+  'editor.history.root': '(racine)',
+  'editor.history.kind.added': 'ajouté',
+  'editor.history.kind.removed': 'supprimé',
+  'editor.history.kind.changed': 'modifié',
+  'editor.history.confirm.title': 'Restaurer la version',
+  'editor.history.confirm.description':
+    "Restaurer la version {version} ? Son contenu sera enregistré comme nouveau brouillon ; la version actuelle reste dans l'historique.",
+  'editor.history.confirm.restore': 'Restaurer',
+
+  'translations.moved.title': 'Page déplacée',
+  'translations.moved.description': "La gestion des traductions a été regroupée dans les paramètres de l'organisation",
+  'translations.moved.redirect':
+    'Vous allez être redirigé vers le nouvel emplacement dans quelques secondes, ou cliquez sur le bouton ci-dessous.',
+  'translations.moved.go': "Aller aux paramètres de l'organisation",
+  'translations.progress.title': 'Avancement des traductions',
+  'translations.progress.description': 'Complétude des champs localisés par type de contenu et par langue',
+  'translations.progress.manage_locales': 'Gérer les langues',
+  'translations.progress.loading': 'Chargement des traductions...',
+  'translations.progress.no_locales': 'Activez une langue en plus de la langue par défaut pour suivre les traductions.',
+  'translations.progress.by_type': 'Par type de contenu',
+  'translations.progress.by_type_description':
+    'Les champs manquants et obsolètes comptent comme incomplets. Sur {count, plural, one {la # entrée modifiée le plus récemment} other {les # entrées modifiées le plus récemment}}.',
+  'translations.progress.no_types': "Aucun type de contenu n'a encore de champs localisés.",
+  'translations.progress.content_type': 'Type de contenu',
+  'translations.progress.entries': 'Entrées',
+  'translations.status.missing': 'Manquant',
+  'translations.status.outdated': 'Obsolète',
+  'translations.status.machine': 'Traduction automatique',
+  'translations.status.translated': 'Traduit',
+  'translations.status.reviewed': 'Relu',
+
+  'translate.title': 'Traduire : {title}',
+  'translate.shortcuts_hint': "Alt+↑/↓ pour passer d'un champ à l'autre, Ctrl+S pour enregistrer",
+  'translate.loading': 'Chargement...',
+  'translate.load_failed': "Impossible de charger l'entrée",
+  'translate.not_found': 'Entrée introuvable',
+  'translate.back_to_content': 'Retour au contenu',
+  'translate.back_to_entry': "Retour à l'entrée",
+  'translate.target_locale': 'Langue cible',
+  'translate.save_first': "Enregistrez ou annulez d'abord vos modifications",
+  'translate.auto_translate': 'Traduire automatiquement',
+  'translate.auto_translating': 'Traduction...',
+  'translate.save': 'Enregistrer la traduction',
+  'translate.saving': 'Enregistrement...',
+  'translate.saved': 'Traduction {locale} enregistrée',
+  'translate.save_failed': "Impossible d'enregistrer la traduction : {error}",
+  'translate.nothing_translated': "Rien n'a été traduit",
+  'translate.machine_added': 'Traduction automatique {locale} ajoutée',
+  'translate.auto_translate_failed': 'Impossible de traduire automatiquement : {error}',
+  'translate.glossary_flagged':
+    '{count, plural, one {# champ traduit automatiquement ne respecte pas} other {# champs traduits automatiquement ne respectent pas}} le glossaire',
+  'translate.media_not_allowed': "{field} n'accepte que {types}",
+  'translate.shortcut.next': 'Champ suivant',
+  'translate.shortcut.previous': 'Champ précédent',
+  'translate.shortcut.save': 'Enregistrer la traduction',
+  'translate.no_locales': 'Ajoutez une deuxième langue pour commencer à traduire.',
+  'translate.manage_locales': 'Gérer les langues',
+  'translate.no_fields':
+    "{type} n'a aucun champ localisé. Marquez des champs comme localisés dans le type de contenu pour les traduire ici.",
+  'translate.this_type': 'Ce type de contenu',
+  'translate.default_locale': 'Par défaut',
+  'translate.complete': '{percent} % terminé',
+  'translate.all_fields': 'Tous les champs',
+  'translate.needs_work': 'À traiter',
+  'translate.all_done': 'Tous les champs sont traduits et à jour.',
+  'translate.empty': 'Vide',
+  'translate.glossary': 'Glossaire :',
+  'translate.keep_term': '{term} (à conserver tel quel)',
+  'translate.memory': 'Mémoire de traduction',
+  'translate.memory_for': 'Mémoire de traduction pour {field}',
+  'translate.match': 'Correspondance à {score} %',
+  'translate.use': 'Utiliser',
+  'translate.use_match': 'Utiliser la correspondance à {score} % pour {field}',
+  'translate.mark_reviewed': 'Marquer comme relu',
+  'translate.mark_field_reviewed': 'Marquer {field} comme relu',
+
+  'media.title': 'Médiathèque',
+  'media.description': 'Téléversez et gérez vos fichiers multimédias',
+  'media.edit_upload': 'Modifier et téléverser une image',
+  'media.upload': 'Téléverser des médias',
+  'media.all_media': 'Tous les médias',
+  'media.folder_path': 'Chemin du dossier',
+  'media.read_only': '(lecture seule)',
+  'media.loading': 'Chargement des médias...',
+  'media.select': 'Sélectionner {name}',
+  'media.unused': 'Inutilisé',
+  'media.uploads.title': 'Téléversements',
+  'media.uploads.in_progress':
+    'Les fichiers volumineux sont téléversés par morceaux et peuvent être mis en pause puis repris.',
+  'media.uploads.finished': 'Tous les téléversements sont terminés.',
+  'media.uploads.queue': 'File de téléversement',
+  'media.uploads.count': '{finished} sur {total} téléversés',
+  'media.uploads.clear_finished': 'Effacer les terminés',
+  'media.uploads.status.queued': 'En attente',
+  'media.uploads.status.uploading': 'Téléversement',
+  'media.uploads.status.retrying': 'Nouvelle tentative',
+  'media.uploads.status.paused': 'En pause',
+  'media.uploads.status.done': 'Téléversé',
+  'media.uploads.status.error': 'Échec',
+  'media.uploads.status.cancelled': 'Annulé',
+  'media.uploads.pause': 'Mettre en pause {filename}',
+  'media.uploads.resume': 'Reprendre {filename}',
+  'media.uploads.retry': 'Réessayer {filename}',
+  'media.uploads.cancel': 'Annuler {filename}',
+  'media.uploads.progress': 'Progression de {filename}',
+  'media.drop.title': 'Déposez des fichiers ici pour les téléverser',
+  'media.drop.hint': 'ou cliquez sur le bouton de téléversement ci-dessus',
+  'media.drop.supports': 'Formats pris en charge : images, vidéos, audio, PDF, documents',
+  'media.filters.title': 'Filtres',
+  'media.filters.search': 'Recherche',
+  'media.filters.search_placeholder': 'Rechercher des fichiers...',
+  'media.filters.file_type': 'Type de fichier',
+  'media.filters.all_types': 'Tous les types',
+  'media.filters.images': 'Images',
+  'media.filters.videos': 'Vidéos',
+  'media.filters.audio': 'Audio',
+  'media.filters.documents': 'Documents',
+  'media.filters.usage': 'Utilisation',
+  'media.filters.unused': 'Médias inutilisés',
+  'media.filters.page_size': 'Éléments par page',
+  'media.bulk.selected': '{count, plural, one {# sélectionné} other {# sélectionnés}}',
+  'media.bulk.tag': 'Étiqueter',
+  'media.bulk.move': 'Déplacer vers',
+  'media.bulk.no_folder': 'Tous les médias (sans dossier)',
+  'media.bulk.delete': 'Supprimer',
+  'media.bulk.clear': 'Effacer la sélection',
+  'media.tags.title': 'Étiqueter {count, plural, one {# élément} other {# éléments}}',
+  'media.tags.description': 'Les étiquettes existantes qui ne figurent pas ici sont conservées.',
+  'media.tags.add': 'Ajouter des étiquettes',
+  'media.tags.remove': 'Retirer des étiquettes',
+  'media.tags.cancel': 'Annuler',
+  'media.tags.apply': 'Appliquer',
+  'media.tags.saving': 'Enregistrement...',
+  'media.tags.updated': 'Étiquettes mises à jour sur {count, plural, one {# élément} other {# éléments}}',
+  'media.tags.failed': 'Impossible de mettre à jour les étiquettes',
+  'media.sidebar.label': 'Dossiers de médias',
+  'media.sidebar.folders': 'Dossiers',
+  'media.sidebar.add_folder': 'Nouveau dossier',
+  'media.sidebar.new_folder': 'Nouveau dossier',
+  'media.sidebar.new_subfolder': 'Nouveau sous-dossier',
+  'media.sidebar.rename': 'Renommer',
+  'media.sidebar.rename_folder': 'Renommer le dossier',
+  'media.sidebar.permissions': 'Autorisations',
+  'media.sidebar.delete': 'Supprimer',
+  'media.sidebar.folder_actions': 'Actions pour {folder}',
+  'media.sidebar.drag_hint': 'Faites glisser des fichiers ou des dossiers sur un dossier pour les déplacer.',
+  'media.sidebar.tags': 'Étiquettes',
+  'media.sidebar.clear_tags': 'Effacer',
+  'media.sidebar.name': 'Nom',
+  'media.sidebar.cancel': 'Annuler',
+  'media.sidebar.create_folder': 'Créer le dossier',
+  'media.sidebar.delete_title': 'Supprimer le dossier',
+  'media.sidebar.delete_description':
+    'Supprimer « {folder} » ? Ses fichiers et sous-dossiers sont déplacés dans le dossier parent.',
+  'media.sidebar.deleted': 'Dossier « {folder} » supprimé',
+  'media.sidebar.save_failed': "Impossible d'enregistrer le dossier",
+  'media.sidebar.delete_failed': 'Impossible de supprimer le dossier',
+  'media.sidebar.move_into_self': "Un dossier ne peut pas être déplacé dans l'un de ses propres sous-dossiers",
+  'media.sidebar.move_failed': 'Impossible de déplacer le dossier',
+  'media.empty.title': 'Aucun fichier multimédia',
+  'media.empty.description':
+    'Téléversez votre premier fichier par glisser-déposer ou avec le bouton de téléversement',
+  'media.empty.upload': 'Téléverser votre premier fichier',
+  'media.pagination.showing': 'Éléments {from} à {to} sur {total}',
+  'media.pagination.previous': 'Précédent',
+  'media.pagination.next': 'Suivant',
+  'media.delete.title': 'Supprimer des médias',
+  'media.delete.description':
+    'Supprimer {count, plural, one {# élément} other {# éléments}} ? Les fichiers encore utilisés par le contenu ou la navigation sont conservés.',
+  'media.editor.upload': 'Téléverser',
+  'media.editor.title': "Modifier l'image",
+  'media.editor.description':
+    'Recadrez, faites pivoter, redimensionnez et convertissez {filename}. La modification se fait dans votre navigateur.',
+  'media.editor.loading': "Chargement de l'image...",
+  'media.editor.focal_point': 'Point focal',
+  'media.editor.tool': 'Outil',
+  'media.editor.crop': 'Recadrer',
+  'media.editor.focal': 'Point focal',
+  'media.editor.crop_hint': "Faites glisser sur l'image pour sélectionner la zone de recadrage.",
+  'media.editor.focal_hint':
+    "Cliquez sur la partie la plus importante de l'image. Les front-ends la gardent visible lors du recadrage.",
+  'media.editor.aspect_ratio': "Format d'image",
+  'media.editor.rotate_flip': 'Rotation et retournement',
+  'media.editor.rotate_left': 'Pivoter à gauche',
+  'media.editor.rotate_right': 'Pivoter à droite',
+  'media.editor.flip_horizontal': 'Retourner horizontalement',
+  'media.editor.flip_vertical': 'Retourner verticalement',
+  'media.editor.size': 'Taille (px)',
+  'media.editor.width': 'Largeur',
+  'media.editor.height': 'Hauteur',
+  'media.editor.size_hint': 'Laissez la largeur vide pour conserver la taille recadrée.',
+  'media.editor.format': 'Format',
+  'media.editor.quality': 'Qualité',
+  'media.editor.quality_value': 'Qualité : {quality} %',
+  'media.editor.reset': 'Réinitialiser',
+  'media.editor.cancel': 'Annuler',
+  'media.editor.save_as_version': 'Enregistrer comme nouvelle version',
+  'media.editor.save_as_new': 'Enregistrer comme nouvelle image',
+  'media.editor.saving': 'Enregistrement...',
+  'media.editor.save_failed': "Impossible d'enregistrer l'image",
+  'media.moved': '{count, plural, one {# élément déplacé} other {# éléments déplacés}} vers {folder}',
+  'media.move_not_allowed': 'Vous ne pouvez pas ajouter de fichiers à « {folder} »',
+  'media.move_out_not_allowed': 'Vous ne pouvez pas retirer de fichiers de « {folder} »',
+  'media.move_failed': 'Impossible de déplacer les médias',
+  'media.deleted': '{count, plural, one {# élément supprimé} other {# éléments supprimés}}',
+  'media.delete_failed':
+    "{count, plural, one {# élément n'a pas pu être supprimé} other {# éléments n'ont pas pu être supprimés}}. Les fichiers encore utilisés sont conservés.",
+  'media.details.title': 'Détails du média',
+  'media.details.description': 'Consultez et modifiez les informations du fichier',
+  'media.details.filename': 'Nom du fichier',
+  'media.details.file_type': 'Type de fichier',
+  'media.details.file_size': 'Taille du fichier',
+  'media.details.duration': 'Durée',
+  'media.details.codecs': 'Codecs',
+  'media.details.unknown': 'Inconnu',
+  'media.details.alt_text': 'Texte alternatif',
+  'media.details.no_alt_text': 'Aucun texte alternatif',
+  'media.details.alt_placeholder': "Décrivez cette image pour l'accessibilité",
+  'media.details.uploaded': 'Téléversé',
+  'media.details.not_available': 'N/D',
+  'media.details.tags': 'Étiquettes',
+  'media.details.focal_point': 'Point focal',
+  'media.details.focal_point_value': '{x} % depuis la gauche, {y} % depuis le haut',
+  'media.details.url': 'URL',
+  'media.details.captions': 'Légendes et sous-titres',
+  'media.details.loading_captions': 'Chargement des légendes...',
+  'media.details.where_used': 'Utilisations',
+  'media.details.where_used_count': 'Utilisations ({count})',
+  'media.details.replace_file': 'Remplacer le fichier',
+  'media.details.upload_new_file': 'Téléverser un nouveau fichier',
+  'media.details.replacing': 'Remplacement...',
+  'media.details.replace_hint':
+    "Conserve l'identifiant, l'URL, le texte alternatif et les étiquettes. Le fichier actuel est gardé comme version.",
+  'media.details.delete': 'Supprimer',
+  'media.details.edit_image': "Modifier l'image",
+  'media.details.choose_poster': 'Choisir une affiche',
+  'media.details.edit': 'Modifier',
+  'media.details.close': 'Fermer',
+  'media.details.cancel': 'Annuler',
+  'media.details.save': 'Enregistrer',
+  'media.details.saving': 'Enregistrement...',
+  'media.details.update_failed': 'Impossible de mettre à jour le média',
+  'media.details.delete_failed': 'Impossible de supprimer le média',
+  'media.details.replaced': 'Fichier remplacé',
+  'media.details.replace_failed': 'Impossible de remplacer le fichier',
+  'media.details.saved_copy': '{filename} enregistré',
+  'media.details.replace.description':
+    "Remplacer {current} par {replacement} ? L'identifiant et l'URL restent les mêmes : tout ce qui utilise ce fichier affichera le nouveau.",
+  'media.details.replace.used_in': 'Utilisé à {count, plural, one {# endroit} other {# endroits}} :',
+  'media.details.replace.confirm': 'Remplacer',
+  'media.details.delete.title': 'Confirmer la suppression',
+  'media.details.delete.description': 'Voulez-vous vraiment supprimer ce fichier ? Cette action est irréversible.',
+  'media.details.delete.in_use':
+    'Ce fichier est utilisé à {count, plural, one {# endroit} other {# endroits}}. Le supprimer y laissera une image ou un lien cassé :',
+  'media.details.delete.deleting': 'Suppression...',
+  'media.details.delete.anyway': 'Supprimer quand même',
+  'media.details.usage.checking': 'Vérification des utilisations de ce fichier...',
+  'media.details.usage.failed': 'Impossible de vérifier où ce fichier est utilisé.',
+};
+
+export const BUILT_IN_CATALOGS: Record<string, MessageCatalog> = { en, fr };
+
+/** Interface languages shipped with the dashboard */
+export const UI_LANGUAGES: UiLanguage[] = [
+  { code: 'en', name: 'English' },
+  { code: 'fr', name: 'Français' },
+];
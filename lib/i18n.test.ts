@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTranslator,
+  formatMessage,
+  getLanguageName,
+  getMessage,
+  getMessageChain,
+  getTextDirection,
+  mergeCatalogs,
+} from './i18n';
+import { BUILT_IN_CATALOGS } from './i18n-catalogs';
+
+const catalogs = {
+  en: { greeting: 'Hello {name}', items: '{count, plural, =0 {No items} one {# item} other {# items}}' },
+  fr: { greeting: 'Bonjour {name}' },
+  'fr-CA': { greeting: 'Allô {name}' },
+};
+
+describe('getTextDirection', () => {
+  it('should detect right-to-left languages by base language', () => {
+    expect(getTextDirection('ar')).toBe('rtl');
+    expect(getTextDirection('he-IL')).toBe('rtl');
+    expect(getTextDirection('fr-CA')).toBe('ltr');
+  });
+});
+
+describe('getLanguageName', () => {
+  it('should name a language in itself', () => {
+    expect(getLanguageName('fr')).toBe('Français');
+    expect(getLanguageName('not a code')).toBe('not a code');
+  });
+});
+
+describe('getMessage', () => {
+  it('should fall back through the base language to English, then the key', () => {
+    expect(getMessageChain('fr-CA')).toEqual(['fr-CA', 'fr', 'en']);
+    expect(getMessage('greeting', 'fr-CA', catalogs)).toBe('Allô {name}');
+    expect(getMessage('greeting', 'fr-BE', catalogs)).toBe('Bonjour {name}');
+    expect(getMessage('items', 'fr', catalogs)).toBe(catalogs.en.items);
+    expect(getMessage('missing.key', 'fr', catalogs)).toBe('missing.key');
+  });
+});
+
+describe('mergeCatalogs', () => {
+  it('should let later catalogs override messages per language', () => {
+    expect(mergeCatalogs(catalogs, { fr: { farewell: 'Au revoir' }, de: { greeting: 'Hallo {name}' } })).toEqual({
+      ...catalogs,
+      fr: { greeting: 'Bonjour {name}', farewell: 'Au revoir' },
+      de: { greeting: 'Hallo {name}' },
+    });
+  });
+});
+
+describe('formatMessage', () => {
+  it('should interpolate arguments and leave missing ones visible', () => {
+    expect(formatMessage('Hello {name}, you have {count}', { name: 'Ada' })).toBe('Hello Ada, you have {count}');
+  });
+
+  it('should pick plural branches with the language rules', () => {
+    const message = '{count, plural, =0 {No items} one {# item} other {# items}}';
+    expect(formatMessage(message, { count: 0 })).toBe('No items');
+    expect(formatMessage(message, { count: 1 })).toBe('1 item');
+    expect(formatMessage(message, { count: 1200 })).toBe('1,200 items');
+    // French treats 0 and 1.5 as singular
+    expect(formatMessage('{n, plural, one {# article} other {# articles}}', { n: 1.5 }, 'fr')).toBe('1,5 article');
+  });
+
+  it('should nest select and plural arguments', () => {
+    const message = '{role, select, admin {{count, plural, one {One admin task} other {# admin tasks}}} other {{name} has tasks}}';
+    expect(formatMessage(message, { role: 'admin', count: 3 })).toBe('3 admin tasks');
+    expect(formatMessage(message, { role: 'editor', name: 'Ada' })).toBe('Ada has tasks');
+    expect(formatMessage('{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}', { n: 22 })).toBe('22nd');
+  });
+
+  it('should format numbers and dates for the language', () => {
+    expect(formatMessage('{n, number}', { n: 1234.5 }, 'de')).toBe('1.234,5');
+    expect(formatMessage('{n, number, percent}', { n: 0.25 })).toBe('25%');
+    expect(formatMessage('{n, number, integer}', { n: 2.6 })).toBe('3');
+    expect(formatMessage('{d, date, long}', { d: new Date(2025, 2, 4) }, 'fr')).toBe('4 mars 2025');
+    expect(formatMessage('{d, date, short}', { d: '2025-03-04T12:00:00' })).toBe('3/4/25');
+  });
+
+  it('should keep apostrophes as text', () => {
+    expect(formatMessage("Journal d'audit de {name}", { name: 'Ada' })).toBe("Journal d'audit de Ada");
+  });
+});
+
+describe('createTranslator', () => {
+  it('should translate and format for the language', () => {
+    const { t, dir, formatNumber } = createTranslator('fr-CA', catalogs);
+    expect(t('greeting', { name: 'Ada' })).toBe('Allô Ada');
+    expect(t('items', { count: 2 })).toBe('2 items');
+    expect(dir).toBe('ltr');
+    expect(formatNumber(0.5, { style: 'percent' })).toMatch(/^50\s%$/);
+  });
+});
+
+describe('BUILT_IN_CATALOGS', () => {
+  it('should only translate keys that exist in English', () => {
+    const keys = Object.keys(BUILT_IN_CATALOGS.en);
+    Object.values(BUILT_IN_CATALOGS).forEach((catalog) => {
+      expect(Object.keys(catalog).filter((key) => !keys.includes(key))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Admin Interface i18n
+ *
+ * Message catalogs for the dashboard UI, independent of the content locales
+ * managed under Organization → Languages. Messages use a subset of ICU
+ * MessageFormat: {name} arguments, {n, number} (optionally integer or
+ * percent), {d, date} and {d, time} (short, medium, long or full),
+ * {n, plural, =0 {...} one {...} other {...}} with # for the formatted number,
+ * and {x, select, a {...} other {...}}. Apostrophes are literal text.
+ *
+ * Lookups fall back from the UI language to its base language and then to
+ * English, so a partial catalog, or a CMS catalog overriding a few messages,
+ * never leaves a blank label.
+ */
+
+import { getBaseLanguage } from '@/lib/locale-fallback';
+
+export type MessageCatalog = Record<string, string>;
+export type MessageValue = string | number | Date | null | undefined;
+export type MessageValues = Record<string, MessageValue>;
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface UiLanguage {
+  code: string;
+  name: string;
+}
+
+export const DEFAULT_UI_LANGUAGE = 'en';
+
+/** Languages written right to left, by base language code */
+const RTL_LANGUAGES = ['ar', 'ckb', 'dv', 'fa', 'he', 'ps', 'ur', 'yi'];
+
+export function getTextDirection(language: string): TextDirection {
+  return RTL_LANGUAGES.includes(getBaseLanguage(language).toLowerCase()) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Name of a language in that language, e.g. "français" for fr.
+ */
+export function getLanguageName(language: string): string {
+  try {
+    const name = new Intl.DisplayNames([language], { type: 'language' }).of(language);
+    return name ? name.charAt(0).toLocaleUpperCase(language) + name.slice(1) : language;
+  } catch {
+    return language;
+  }
+}
+
+/** Catalogs to read a message from, in order */
+export function getMessageChain(language: string): string[] {
+  return Array.from(new Set([language, getBaseLanguage(language), DEFAULT_UI_LANGUAGE]));
+}
+
+/**
+ * The message for a key, or the key itself when no catalog in the chain has it.
+ */
+export function getMessage(key: string, language: string, catalogs: Record<string, MessageCatalog>): string {
+  for (const code of getMessageChain(language)) {
+    const message = catalogs[code]?.[key];
+    if (message) return message;
+  }
+  return key;
+}
+
+/**
+ * Catalogs with the messages of later ones overriding earlier ones, per language.
+ */
+export function mergeCatalogs(...sources: Record<string, MessageCatalog>[]): Record<string, MessageCatalog> {
+  const merged: Record<string, MessageCatalog> = {};
+  sources.forEach((source) => {
+    Object.entries(source).forEach(([code, messages]) => {
+      merged[code] = { ...merged[code], ...messages };
+    });
+  });
+  return merged;
+}
+
+function getIntlLocale(language: string): string {
+  try {
+    return Intl.getCanonicalLocales(language)[0] || DEFAULT_UI_LANGUAGE;
+  } catch {
+    return DEFAULT_UI_LANGUAGE;
+  }
+}
+
+export function formatNumber(value: number, language: string, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(getIntlLocale(language), options).format(value);
+}
+
+export function formatDate(
+  value: Date | string | number,
+  language: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+): string {
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return String(value);
+  return new Intl.DateTimeFormat(getIntlLocale(language), options).format(date);
+}
+
+type DateStyle = NonNullable<Intl.DateTimeFormatOptions['dateStyle']>;
+const DATE_STYLES: DateStyle[] = ['short', 'medium', 'long', 'full'];
+
+/** Index of the brace closing the one at start */
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === '{') depth++;
+    if (pattern[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/** Selector → message pairs of a plural or select argument */
+function parseBranches(style: string): Record<string, string> {
+  const branches: Record<string, string> = {};
+  let i = 0;
+  while (i < style.length) {
+    const open = style.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(style, open);
+    if (close === -1) break;
+    branches[style.slice(i, open).trim()] = style.slice(open + 1, close);
+    i = close + 1;
+  }
+  return branches;
+}
+
+function formatArgument(argument: string, values: MessageValues, language: string): string | null {
+  const [name, type, ...rest] = argument.split(',');
+  const key = name.trim();
+  const kind = type?.trim();
+  const style = rest.join(',').trim();
+  const value = values[key];
+
+  if (value === undefined || value === null) return null;
+
+  if (kind === 'plural' || kind === 'selectordinal') {
+    const count = Number(value);
+    const branches = parseBranches(style);
+    const category = new Intl.PluralRules(getIntlLocale(language), {
+      type: kind === 'selectordinal' ? 'ordinal' : 'cardinal',
+    }).select(count);
+    const branch = branches[`=${count}`] ?? branches[category] ?? branches.other ?? '';
+    return formatPattern(branch, values, language, formatNumber(count, language));
+  }
+  if (kind === 'select') {
+    const branches = parseBranches(style);
+    return formatPattern(branches[String(value)] ?? branches.other ?? '', values, language);
+  }
+  if (kind === 'number') {
+    const options: Intl.NumberFormatOptions =
+      style === 'percent' ? { style: 'percent' } : style === 'integer' ? { maximumFractionDigits: 0 } : {};
+    return formatNumber(Number(value), language, options);
+  }
+  if (kind === 'date' || kind === 'time') {
+    const dateStyle = DATE_STYLES.find((s) => s === style) || (kind === 'date' ? 'medium' : 'short');
+    return formatDate(value, language, kind === 'date' ? { dateStyle } : { timeStyle: dateStyle });
+  }
+  return value instanceof Date ? formatDate(value, language) : String(value);
+}
+
+function formatPattern(pattern: string, values: MessageValues, language: string, count?: string): string {
+  let result = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === '{') {
+      const close = findClosingBrace(pattern, i);
+      if (close === -1) return result + pattern.slice(i);
+      const argument = pattern.slice(i + 1, close);
+      // Arguments without a value are left in place so gaps are visible
+      result += formatArgument(argument, values, language) ?? `{${argument}}`;
+      i = close + 1;
+    } else {
+      result += char === '#' && count !== undefined ? count : char;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Format an ICU message with values, using the language's plural rules and
+ * number and date formats.
+ */
+export function formatMessage(message: string, values: MessageValues = {}, language = DEFAULT_UI_LANGUAGE): string {
+  return formatPattern(message, values, language);
+}
+
+export interface Translator {
+  language: string;
+  dir: TextDirection;
+  t: (key: string, values?: MessageValues) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+export function createTranslator(language: string, catalogs: Record<string, MessageCatalog>): Translator {
+  return {
+    language,
+    dir: getTextDirection(language),
+    t: (key, values) => formatMessage(getMessage(key, language, catalogs), values, language),
+    formatNumber: (value, options) => formatNumber(value, language, options),
+    formatDate: (value, options) => formatDate(value, language, options),
+  };
+}
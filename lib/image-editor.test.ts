@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEdits,
+  fitCropToAspect,
+  FULL_CROP,
+  getCropFromPoints,
+  getEditedFilename,
+  getFocalPointInCrop,
+  getOutputSize,
+  getRotatedSize,
+  rotate,
+} from './image-editor';
+
+describe('rotate', () => {
+  it('should wrap around in both directions', () => {
+    expect(rotate(270, 1)).toBe(0);
+    expect(rotate(0, -1)).toBe(270);
+  });
+
+  it('should swap width and height for quarter turns', () => {
+    expect(getRotatedSize({ width: 400, height: 300 }, 90)).toEqual({ width: 300, height: 400 });
+    expect(getRotatedSize({ width: 400, height: 300 }, 180)).toEqual({ width: 400, height: 300 });
+  });
+});
+
+describe('crop', () => {
+  it('should fit the largest centred crop for an aspect ratio', () => {
+    expect(fitCropToAspect(1, { width: 400, height: 200 })).toEqual({ x: 0.25, y: 0, width: 0.5, height: 1 });
+    expect(fitCropToAspect(null, { width: 400, height: 200 })).toEqual(FULL_CROP);
+  });
+
+  it('should build a free crop from a drag in any direction', () => {
+    const crop = getCropFromPoints({ x: 0.8, y: 0.6 }, { x: 0.2, y: 0.1 }, null, { width: 100, height: 100 });
+
+    expect(crop.x).toBeCloseTo(0.2);
+    expect(crop.y).toBeCloseTo(0.1);
+    expect(crop.width).toBeCloseTo(0.6);
+    expect(crop.height).toBeCloseTo(0.5);
+  });
+
+  it('should keep the aspect ratio in pixels and stay inside the image', () => {
+    const crop = getCropFromPoints({ x: 0.5, y: 0.5 }, { x: 1, y: 0.6 }, 1, { width: 400, height: 200 });
+
+    expect(crop.width * 400).toBeCloseTo(crop.height * 200);
+    expect(crop.y + crop.height).toBeLessThanOrEqual(1);
+  });
+
+  it('should ignore a click without a drag', () => {
+    expect(getCropFromPoints({ x: 0.5, y: 0.5 }, { x: 0.5, y: 0.5 }, null, { width: 100, height: 100 })).toEqual(FULL_CROP);
+  });
+});
+
+describe('getOutputSize', () => {
+  it('should apply rotation, crop and resize', () => {
+    const edits = { ...createEdits(), rotation: 90 as const, crop: { x: 0, y: 0, width: 0.5, height: 1 } };
+
+    expect(getOutputSize(edits, { width: 400, height: 300 })).toEqual({ width: 150, height: 400 });
+    expect(getOutputSize({ ...edits, width: 75 }, { width: 400, height: 300 })).toEqual({ width: 75, height: 200 });
+  });
+});
+
+describe('getFocalPointInCrop', () => {
+  it('should convert the focal point to the cropped image and clamp it', () => {
+    const crop = { x: 0.25, y: 0, width: 0.5, height: 1 };
+
+    expect(getFocalPointInCrop({ x: 0.5, y: 0.3 }, crop)).toEqual({ x: 0.5, y: 0.3 });
+    expect(getFocalPointInCrop({ x: 0.1, y: 0.3 }, crop)).toEqual({ x: 0, y: 0.3 });
+  });
+});
+
+describe('getEditedFilename', () => {
+  it('should swap the extension for the output format', () => {
+    expect(getEditedFilename('team.photo.png', 'image/webp')).toBe('team.photo.webp');
+    expect(getEditedFilename('scan', 'image/jpeg')).toBe('scan.jpg');
+  });
+});
+
+describe('createEdits', () => {
+  it('should keep supported formats and fall back to JPEG', () => {
+    expect(createEdits('image/png').format).toBe('image/png');
+    expect(createEdits('image/gif').format).toBe('image/jpeg');
+  });
+});
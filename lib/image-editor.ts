@@ -0,0 +1,224 @@
+/**
+ * Image Editor
+ *
+ * Helpers for the in-browser image editor. Edits are applied in a fixed
+ * order - rotate and flip, then crop, then resize - and drawn on a canvas, so
+ * nothing is uploaded until the result is saved. Crop rectangles and focal
+ * points are fractions (0-1) of the rotated image so they survive resizing.
+ */
+
+import { FocalPoint } from '@/types';
+
+export type ImageFormat = 'image/jpeg' | 'image/webp' | 'image/png';
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface ImageEdits {
+  rotation: Rotation;
+  flipX: boolean;
+  flipY: boolean;
+  crop: CropRect;
+  /** Output width in pixels; null keeps the cropped size */
+  width: number | null;
+  format: ImageFormat;
+  /** 0-1, ignored for PNG */
+  quality: number;
+  /** Relative to the rotated image, like the crop */
+  focalPoint: FocalPoint | null;
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+/** Width / height; null is a free crop */
+export const ASPECT_RATIOS: { label: string; value: number | null }[] = [
+  { label: 'Free', value: null },
+  { label: '1:1', value: 1 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '9:16', value: 9 / 16 },
+];
+
+export const IMAGE_FORMATS: { value: ImageFormat; label: string; extension: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG', extension: 'jpg' },
+  { value: 'image/webp', label: 'WebP', extension: 'webp' },
+  { value: 'image/png', label: 'PNG', extension: 'png' },
+];
+
+/** Smallest crop side, as a fraction, so a stray click does not crop to nothing */
+const MIN_CROP = 0.02;
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+export function createEdits(mimeType?: string): ImageEdits {
+  const format = IMAGE_FORMATS.find((f) => f.value === mimeType)?.value || 'image/jpeg';
+  return {
+    rotation: 0,
+    flipX: false,
+    flipY: false,
+    crop: FULL_CROP,
+    width: null,
+    format,
+    quality: 0.9,
+    focalPoint: null,
+  };
+}
+
+export function rotate(rotation: Rotation, direction: 1 | -1): Rotation {
+  return ((((rotation + direction * 90) % 360) + 360) % 360) as Rotation;
+}
+
+export function getRotatedSize(size: Size, rotation: Rotation): Size {
+  return rotation % 180 === 0 ? size : { width: size.height, height: size.width };
+}
+
+/**
+ * Largest centred crop with the given aspect ratio.
+ */
+export function fitCropToAspect(ratio: number | null, size: Size): CropRect {
+  if (!ratio) return FULL_CROP;
+  const width = Math.min(1, (size.height * ratio) / size.width);
+  const height = Math.min(1, (size.width / ratio) / size.height);
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+}
+
+/**
+ * Crop between the point where a drag started and where it is now, kept
+ * inside the image and to the aspect ratio when one is set.
+ */
+export function getCropFromPoints(start: FocalPoint, end: FocalPoint, ratio: number | null, size: Size): CropRect {
+  const to = { x: clamp(end.x), y: clamp(end.y) };
+  let width = Math.abs(to.x - start.x);
+  let height = Math.abs(to.y - start.y);
+
+  if (ratio) {
+    // Convert to pixels so the ratio holds on non-square images
+    const pixelWidth = Math.max(width * size.width, height * size.height * ratio);
+    width = pixelWidth / size.width;
+    height = pixelWidth / ratio / size.height;
+    const maxWidth = to.x >= start.x ? 1 - start.x : start.x;
+    const maxHeight = to.y >= start.y ? 1 - start.y : start.y;
+    const scale = Math.min(1, maxWidth / width, maxHeight / height);
+    width *= scale;
+    height *= scale;
+  }
+
+  if (width < MIN_CROP || height < MIN_CROP) return FULL_CROP;
+  return {
+    x: to.x >= start.x ? start.x : start.x - width,
+    y: to.y >= start.y ? start.y : start.y - height,
+    width,
+    height,
+  };
+}
+
+/**
+ * Pixel size of the saved image.
+ */
+export function getOutputSize(edits: ImageEdits, source: Size): Size {
+  const rotated = getRotatedSize(source, edits.rotation);
+  const cropWidth = Math.max(1, Math.round(rotated.width * edits.crop.width));
+  const cropHeight = Math.max(1, Math.round(rotated.height * edits.crop.height));
+  if (!edits.width) return { width: cropWidth, height: cropHeight };
+  return { width: edits.width, height: Math.max(1, Math.round((edits.width * cropHeight) / cropWidth)) };
+}
+
+/**
+ * Focal point relative to the cropped output, which is what gets stored.
+ */
+export function getFocalPointInCrop(point: FocalPoint, crop: CropRect): FocalPoint {
+  const round = (value: number) => Math.round(clamp(value) * 10000) / 10000;
+  return {
+    x: round((point.x - crop.x) / crop.width),
+    y: round((point.y - crop.y) / crop.height),
+  };
+}
+
+export function getEditedFilename(filename: string, format: ImageFormat): string {
+  const extension = IMAGE_FORMATS.find((f) => f.value === format)?.extension || 'jpg';
+  const base = filename.replace(/\.[^./]+$/, '') || 'image';
+  return `${base}.${extension}`;
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Media served from another origin would otherwise taint the canvas
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+/**
+ * Draw the rotated and flipped image, without cropping. Used for the preview
+ * and as the first step of the export.
+ */
+export function drawTransformed(
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  edits: Pick<ImageEdits, 'rotation' | 'flipX' | 'flipY'>
+) {
+  const size = getRotatedSize({ width: image.naturalWidth, height: image.naturalHeight }, edits.rotation);
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  context.translate(size.width / 2, size.height / 2);
+  // Flip after rotating so it follows what the editor shows
+  context.scale(edits.flipX ? -1 : 1, edits.flipY ? -1 : 1);
+  context.rotate((edits.rotation * Math.PI) / 180);
+  context.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+}
+
+/**
+ * Apply all edits and encode the result.
+ */
+export async function exportImage(image: HTMLImageElement, edits: ImageEdits): Promise<Blob> {
+  const rotated = document.createElement('canvas');
+  drawTransformed(rotated, image, edits);
+
+  const output = document.createElement('canvas');
+  const size = getOutputSize(edits, { width: image.naturalWidth, height: image.naturalHeight });
+  output.width = size.width;
+  output.height = size.height;
+  const context = output.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  if (edits.format === 'image/jpeg') {
+    // JPEG has no transparency; avoid a black background
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, size.width, size.height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(
+    rotated,
+    edits.crop.x * rotated.width,
+    edits.crop.y * rotated.height,
+    edits.crop.width * rotated.width,
+    edits.crop.height * rotated.height,
+    0,
+    0,
+    size.width,
+    size.height
+  );
+
+  return new Promise((resolve, reject) => {
+    output.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      edits.format,
+      edits.format === 'image/png' ? undefined : edits.quality
+    );
+  });
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { getFallbackChain, getFallbackLocales, resolveField, resolveFields } from './locale-fallback';
+
+const locales = [
+  { code: 'en', is_default: true },
+  { code: 'fr' },
+  { code: 'fr-CA' },
+  { code: 'es' },
+  { code: 'es-MX', fallback_locales: ['es-419', 'es'] },
+  { code: 'es-419', fallback_locales: [] },
+  { code: 'pt' },
+];
+
+describe('getFallbackLocales', () => {
+  it('should imply the base language when none are configured', () => {
+    expect(getFallbackLocales('fr-CA', locales)).toEqual(['fr']);
+    expect(getFallbackLocales('fr', locales)).toEqual([]);
+    expect(getFallbackLocales('de-AT', locales)).toEqual([]);
+  });
+
+  it('should use configured fallbacks, ignoring unknown codes and the locale itself', () => {
+    expect(getFallbackLocales('es-MX', locales)).toEqual(['es-419', 'es']);
+    expect(getFallbackLocales('es-419', locales)).toEqual([]);
+    expect(getFallbackLocales('pt', [...locales.filter((l) => l.code !== 'pt'), { code: 'pt', fallback_locales: ['pt', 'xx', 'es'] }])).toEqual(['es']);
+  });
+});
+
+describe('getFallbackChain', () => {
+  it('should end every chain with the default locale', () => {
+    expect(getFallbackChain('fr-CA', locales)).toEqual(['fr-CA', 'fr', 'en']);
+    expect(getFallbackChain('es-MX', locales)).toEqual(['es-MX', 'es-419', 'es', 'en']);
+    expect(getFallbackChain('en', locales)).toEqual(['en']);
+  });
+
+  it('should move the default locale to the end and survive cycles', () => {
+    const cyclic = [
+      { code: 'en', is_default: true },
+      { code: 'a', fallback_locales: ['en', 'b'] },
+      { code: 'b', fallback_locales: ['a'] },
+    ];
+    expect(getFallbackChain('a', cyclic)).toEqual(['a', 'b', 'en']);
+    expect(getFallbackChain('b', cyclic)).toEqual(['b', 'a', 'en']);
+  });
+
+  it('should work without a default locale', () => {
+    expect(getFallbackChain('fr-CA', [{ code: 'fr' }, { code: 'fr-CA' }])).toEqual(['fr-CA', 'fr']);
+  });
+});
+
+describe('resolveField', () => {
+  it('should skip empty values along the chain', () => {
+    const data = { 'fr-CA': { title: '', body: '<p></p>' }, fr: { title: 'Bonjour' }, en: { title: 'Hello', body: '<p>Hi</p>' } };
+    expect(resolveField('title', ['fr-CA', 'fr', 'en'], data)).toEqual({ value: 'Bonjour', locale: 'fr' });
+    expect(resolveField('body', ['fr-CA', 'fr', 'en'], data)).toEqual({ value: '<p>Hi</p>', locale: 'en' });
+    expect(resolveField('missing', ['fr-CA', 'fr', 'en'], data)).toBeNull();
+  });
+});
+
+describe('resolveFields', () => {
+  it('should resolve every field and record where it came from', () => {
+    const resolved = resolveFields(['fr-CA', 'fr', 'en'], {
+      'fr-CA': { price_note: 'Taxes en sus' },
+      en: { title: 'Boots', price_note: 'Plus tax', tags: ['winter'] },
+      fr: { title: 'Bottes', tags: [] },
+    });
+    expect(resolved.data).toEqual({ price_note: 'Taxes en sus', title: 'Bottes', tags: ['winter'] });
+    expect(resolved.origins).toEqual({ price_note: 'fr-CA', title: 'fr', tags: 'en' });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Locale Fallback
+ *
+ * Fallback chains let a regional locale borrow from related locales before
+ * the default one, so a partially translated fr-CA site shows fr text where
+ * fr-CA has none, and default content only where neither has a value. A
+ * locale's chain is the locale itself, then its configured fallback_locales
+ * (each expanded with its own chain), then the default locale. Locales with
+ * no configured list fall back to their base language (fr-CA → fr) when that
+ * locale exists.
+ */
+
+import { isEmptyValue } from '@/lib/translation-status';
+
+export interface FallbackLocale {
+  code: string;
+  is_default?: boolean;
+  fallback_locales?: string[] | null;
+}
+
+export interface ResolvedFields {
+  data: Record<string, unknown>;
+  /** Locale code each value in data was taken from */
+  origins: Record<string, string>;
+}
+
+export function getBaseLanguage(code: string): string {
+  return code.split(/[-_]/)[0];
+}
+
+/**
+ * The locales a locale falls back to directly, before expanding their own
+ * fallbacks. Unknown codes and the locale itself are ignored.
+ */
+export function getFallbackLocales(code: string, locales: FallbackLocale[]): string[] {
+  const locale = locales.find((l) => l.code === code);
+  const known = (c: string) => c !== code && locales.some((l) => l.code === c);
+
+  if (locale?.fallback_locales) {
+    return locale.fallback_locales.filter(known);
+  }
+  const base = getBaseLanguage(code);
+  return known(base) ? [base] : [];
+}
+
+/**
+ * Locale codes to read values from, in order. Cycles in the configured
+ * fallbacks are skipped, and the default locale always comes last.
+ */
+export function getFallbackChain(code: string, locales: FallbackLocale[]): string[] {
+  const chain: string[] = [];
+  const visit = (current: string) => {
+    if (chain.includes(current)) return;
+    chain.push(current);
+    getFallbackLocales(current, locales).forEach(visit);
+  };
+  visit(code);
+
+  const defaultLocale = locales.find((l) => l.is_default);
+  if (defaultLocale) {
+    const index = chain.indexOf(defaultLocale.code);
+    if (index > 0) chain.splice(index, 1);
+    if (index !== 0) chain.push(defaultLocale.code);
+  }
+  return chain;
+}
+
+/**
+ * First non-empty value of a field along the chain.
+ */
+export function resolveField(
+  name: string,
+  chain: string[],
+  dataByLocale: Record<string, Record<string, unknown> | undefined>
+): { value: unknown; locale: string } | null {
+  for (const code of chain) {
+    const value = dataByLocale[code]?.[name];
+    if (!isEmptyValue(value)) return { value, locale: code };
+  }
+  return null;
+}
+
+/**
+ * Every field present in any locale of the chain, resolved to its first
+ * non-empty value. Pass the default content under the default locale's code.
+ */
+export function resolveFields(
+  chain: string[],
+  dataByLocale: Record<string, Record<string, unknown> | undefined>
+): ResolvedFields {
+  const names = new Set(chain.flatMap((code) => Object.keys(dataByLocale[code] || {})));
+  const resolved: ResolvedFields = { data: {}, origins: {} };
+  names.forEach((name) => {
+    const match = resolveField(name, chain, dataByLocale);
+    if (match) {
+      resolved.data[name] = match.value;
+      resolved.origins[name] = match.locale;
+    }
+  });
+  return resolved;
+}
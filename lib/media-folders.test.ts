@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addTags,
+  buildFolderTree,
+  canMoveFolder,
+  flattenFolderTree,
+  getFolderPath,
+  getMoveBlocker,
+  getTagSuggestions,
+  normalizeTag,
+} from './media-folders';
+import { MediaFolder } from '@/types';
+
+const folders: MediaFolder[] = [
+  { id: 'photos', name: 'Photos', parent_id: null },
+  { id: 'events', name: 'Events', parent_id: 'photos' },
+  { id: 'archive', name: 'Archive', parent_id: 'photos' },
+  { id: 'docs', name: 'Documents', parent_id: null },
+  { id: '2024', name: '2024', parent_id: 'events' },
+];
+
+describe('folder tree', () => {
+  it('should nest folders under their parents sorted by name', () => {
+    const tree = buildFolderTree(folders);
+
+    expect(tree.map((node) => node.folder.id)).toEqual(['docs', 'photos']);
+    expect(tree[1].children.map((node) => node.folder.id)).toEqual(['archive', 'events']);
+    expect(tree[1].children[1].children[0]).toMatchObject({ depth: 2, folder: { id: '2024' } });
+  });
+
+  it('should show folders with a missing parent at the top level', () => {
+    const tree = buildFolderTree([{ id: 'orphan', name: 'Orphan', parent_id: 'hidden' }]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].depth).toBe(0);
+  });
+
+  it('should flatten the tree in display order', () => {
+    const ids = flattenFolderTree(buildFolderTree(folders)).map((node) => node.folder.id);
+
+    expect(ids).toEqual(['docs', 'photos', 'archive', 'events', '2024']);
+  });
+
+  it('should list ancestors for breadcrumbs', () => {
+    expect(getFolderPath(folders, '2024').map((folder) => folder.name)).toEqual(['Photos', 'Events', '2024']);
+    expect(getFolderPath(folders, null)).toEqual([]);
+  });
+
+  it('should not move a folder into itself or its subfolders', () => {
+    expect(canMoveFolder(folders, 'photos', 'photos')).toBe(false);
+    expect(canMoveFolder(folders, 'photos', '2024')).toBe(false);
+    expect(canMoveFolder(folders, 'events', 'docs')).toBe(true);
+    expect(canMoveFolder(folders, 'events', null)).toBe(true);
+  });
+});
+
+describe('getMoveBlocker', () => {
+  const restricted: MediaFolder[] = [
+    { id: 'locked', name: 'Locked', parent_id: null, access: { can_upload: false, can_delete: true, can_manage: false } },
+    { id: 'legal', name: 'Legal', parent_id: null, access: { can_upload: true, can_delete: false, can_manage: false } },
+    { id: 'open', name: 'Open', parent_id: null },
+  ];
+
+  it('should refuse a target folder that does not allow uploads', () => {
+    expect(getMoveBlocker(restricted, ['open'], 'locked')).toMatchObject({
+      permission: 'can_upload',
+      folder: { id: 'locked' },
+    });
+  });
+
+  it('should refuse media from a folder that does not allow deletes', () => {
+    expect(getMoveBlocker(restricted, [null, 'legal'], 'open')).toMatchObject({
+      permission: 'can_delete',
+      folder: { id: 'legal' },
+    });
+    expect(getMoveBlocker(restricted, [null, 'open'], null)).toBeNull();
+  });
+});
+
+describe('tags', () => {
+  it('should normalise case and whitespace', () => {
+    expect(normalizeTag('  Summer   Campaign ')).toBe('summer campaign');
+  });
+
+  it('should add tags without blanks or duplicates', () => {
+    expect(addTags(['hero'], ['Hero', ' ', 'Banner', 'banner'])).toEqual(['hero', 'banner']);
+  });
+
+  it('should suggest matching tags with prefix matches first', () => {
+    const known = ['background', 'ground', 'grass', 'hero'];
+
+    expect(getTagSuggestions(known, 'gr')).toEqual(['ground', 'grass', 'background']);
+    expect(getTagSuggestions(known, 'gr', ['Ground'])).toEqual(['grass', 'background']);
+    expect(getTagSuggestions(known, 'gr', [], 1)).toEqual(['ground']);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Media Folders
+ *
+ * Helpers for organising the media library: the folder tree built from the
+ * flat folder list the API returns, drag-and-drop payloads and tag handling.
+ */
+
+import { MediaFolder } from '@/types';
+
+export interface FolderNode {
+  folder: MediaFolder;
+  children: FolderNode[];
+  depth: number;
+}
+
+/** dataTransfer type for media dragged onto a folder */
+export const MEDIA_DRAG_TYPE = 'application/x-media-ids';
+
+/** dataTransfer type for the folders the dragged media are moving out of */
+export const MEDIA_SOURCE_DRAG_TYPE = 'application/x-media-source-folders';
+
+/** dataTransfer type for a folder dragged onto another folder */
+export const FOLDER_DRAG_TYPE = 'application/x-media-folder';
+
+export function buildFolderTree(folders: MediaFolder[]): FolderNode[] {
+  const byParent = new Map<string | null, MediaFolder[]>();
+  const ids = new Set(folders.map((folder) => folder.id));
+  folders.forEach((folder) => {
+    // Folders whose parent is missing (e.g. not visible to the user) go to the top
+    const parent = folder.parent_id && ids.has(folder.parent_id) ? folder.parent_id : null;
+    byParent.set(parent, [...(byParent.get(parent) || []), folder]);
+  });
+
+  const build = (parent: string | null, depth: number): FolderNode[] =>
+    (byParent.get(parent) || [])
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((folder) => ({ folder, depth, children: build(folder.id, depth + 1) }));
+
+  return build(null, 0);
+}
+
+/**
+ * Tree in display order, for menus that list every folder.
+ */
+export function flattenFolderTree(nodes: FolderNode[]): FolderNode[] {
+  return nodes.flatMap((node) => [node, ...flattenFolderTree(node.children)]);
+}
+
+/**
+ * Ancestors of a folder followed by the folder itself, for breadcrumbs.
+ */
+export function getFolderPath(folders: MediaFolder[], id: string | null): MediaFolder[] {
+  const path: MediaFolder[] = [];
+  let current = folders.find((folder) => folder.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = folders.find((folder) => folder.id === current?.parent_id);
+  }
+  return path;
+}
+
+/**
+ * A folder cannot move into itself or one of its own subfolders.
+ */
+export function canMoveFolder(folders: MediaFolder[], id: string, targetId: string | null): boolean {
+  if (targetId === null) return true;
+  return !getFolderPath(folders, targetId).some((folder) => folder.id === id);
+}
+
+/**
+ * The folder that stops media moving from sourceFolderIds into targetId:
+ * the target must allow uploads and every source folder must allow deletes.
+ */
+export function getMoveBlocker(
+  folders: MediaFolder[],
+  sourceFolderIds: (string | null | undefined)[],
+  targetId: string | null
+): { folder: MediaFolder; permission: 'can_upload' | 'can_delete' } | null {
+  const target = folders.find((folder) => folder.id === targetId);
+  if (target?.access?.can_upload === false) return { folder: target, permission: 'can_upload' };
+  const source = folders.find(
+    (folder) => sourceFolderIds.includes(folder.id) && folder.access?.can_delete === false
+  );
+  return source ? { folder: source, permission: 'can_delete' } : null;
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Add tags to a list, skipping blanks and case-insensitive duplicates.
+ */
+export function addTags(tags: string[], added: string[]): string[] {
+  const result = [...tags];
+  added.map(normalizeTag).forEach((tag) => {
+    if (tag && !result.some((existing) => normalizeTag(existing) === tag)) result.push(tag);
+  });
+  return result;
+}
+
+export function getTagSuggestions(known: string[], query: string, exclude: string[] = [], limit = 8): string[] {
+  const search = normalizeTag(query);
+  const excluded = exclude.map(normalizeTag);
+  return known
+    .filter((tag) => !excluded.includes(normalizeTag(tag)))
+    .filter((tag) => !search || normalizeTag(tag).includes(search))
+    // Prefix matches first
+    .sort((a, b) => Number(!normalizeTag(a).startsWith(search)) - Number(!normalizeTag(b).startsWith(search)))
+    .slice(0, limit);
+}
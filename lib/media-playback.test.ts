@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { applyVideoSources, formatDuration, isPlayable, isWebVtt } from './media-playback';
+import { Media } from '@/types';
+
+describe('formatDuration', () => {
+  it('should format minutes and seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65.7)).toBe('1:05');
+  });
+
+  it('should include hours for long media', () => {
+    expect(formatDuration(3725)).toBe('1:02:05');
+  });
+
+  it('should treat unknown durations as zero', () => {
+    expect(formatDuration(undefined)).toBe('0:00');
+    expect(formatDuration(Number.NaN)).toBe('0:00');
+  });
+});
+
+describe('isWebVtt', () => {
+  it('should accept WebVTT files by type or extension', () => {
+    expect(isWebVtt(new File([''], 'en.vtt'))).toBe(true);
+    expect(isWebVtt(new File([''], 'captions', { type: 'text/vtt' }))).toBe(true);
+    expect(isWebVtt(new File([''], 'en.srt'))).toBe(false);
+  });
+});
+
+describe('isPlayable', () => {
+  it('should only be true for video and audio', () => {
+    expect(isPlayable({ media_type: 'video' })).toBe(true);
+    expect(isPlayable({ media_type: 'audio' })).toBe(true);
+    expect(isPlayable({ media_type: 'image' })).toBe(false);
+  });
+});
+
+describe('applyVideoSources', () => {
+  const media = {
+    id: 'm1',
+    filename: 'clip.mp4',
+    url: 'https://cdn.example.com/clip.mp4',
+    poster_url: 'https://cdn.example.com/poster.jpg',
+    media_type: 'video',
+  } as Media;
+
+  it('should set the source, poster and caption tracks', () => {
+    const video = document.createElement('video');
+    applyVideoSources(video, media, [
+      { id: 'c1', media_id: 'm1', locale: 'en', label: 'English', kind: 'captions', url: 'https://cdn.example.com/en.vtt' },
+      { id: 'c2', media_id: 'm1', locale: 'fr', label: 'Français', kind: 'subtitles', url: 'https://cdn.example.com/fr.vtt' },
+    ]);
+
+    expect(video.getAttribute('src')).toBe('https://cdn.example.com/clip.mp4');
+    expect(video.getAttribute('poster')).toBe('https://cdn.example.com/poster.jpg');
+    const tracks = video.querySelectorAll('track');
+    expect(tracks).toHaveLength(2);
+    expect(tracks[0].getAttribute('srclang')).toBe('en');
+    expect(tracks[0].default).toBe(true);
+    expect(tracks[1].kind).toBe('subtitles');
+  });
+
+  it('should replace tracks from an earlier render', () => {
+    const video = document.createElement('video');
+    video.appendChild(document.createElement('track'));
+    applyVideoSources(video, { ...media, poster_url: undefined });
+
+    expect(video.querySelectorAll('track')).toHaveLength(0);
+    expect(video.hasAttribute('poster')).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Media Playback
+ *
+ * Helpers for video and audio items: durations, WebVTT caption files and
+ * capturing a video frame to use as its poster.
+ */
+
+import { resolveMediaUrl } from '@/lib/api/client';
+import { Media, MediaCaption } from '@/types';
+
+export function isPlayable(media: Pick<Media, 'media_type'>): boolean {
+  return media.media_type === 'video' || media.media_type === 'audio';
+}
+
+/**
+ * Format seconds as m:ss, or h:mm:ss for an hour or more.
+ */
+export function formatDuration(seconds: number | null | undefined): string {
+  if (seconds == null || !Number.isFinite(seconds) || seconds < 0) return '0:00';
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+export function isWebVtt(file: File): boolean {
+  return file.type === 'text/vtt' || /\.vtt$/i.test(file.name);
+}
+
+/**
+ * Seek a loaded video to time and draw that frame as a JPEG. The video must
+ * be same-origin or served with CORS, or the canvas cannot be exported.
+ */
+export function captureFrame(video: HTMLVideoElement, time: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const draw = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not supported'));
+        return;
+      }
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Failed to capture frame'))),
+        'image/jpeg',
+        0.9
+      );
+    };
+
+    if (Math.abs(video.currentTime - time) < 0.01) {
+      draw();
+      return;
+    }
+    video.addEventListener('seeked', draw, { once: true });
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Point a video element at a media item's current source, poster and
+ * caption tracks. Rich text stores only the media ID, so the URLs are
+ * filled in each time the video is rendered.
+ */
+export function applyVideoSources(video: HTMLVideoElement, media: Media, captions: MediaCaption[] = []): void {
+  // Caption files come from the media proxy, which needs a CORS request
+  video.crossOrigin = 'anonymous';
+  video.src = resolveMediaUrl(media.cdn_url || media.url);
+  if (media.poster_url) {
+    video.poster = resolveMediaUrl(media.poster_url);
+  } else {
+    video.removeAttribute('poster');
+  }
+
+  video.querySelectorAll('track').forEach((track) => track.remove());
+  captions.forEach((caption, index) => {
+    const track = document.createElement('track');
+    track.kind = caption.kind;
+    track.src = resolveMediaUrl(caption.url);
+    track.srclang = caption.locale;
+    track.label = caption.label;
+    track.default = index === 0;
+    video.appendChild(track);
+  });
+}
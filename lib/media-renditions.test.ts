@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getResponsiveImage, getRenditionUrl, getSrcSet, RENDITIONS, supportsRenditions } from './media-renditions';
+import { getApiConfig, getMediaUrl } from '@/lib/api/client';
+
+const proxyUrl = getMediaUrl('photo.jpg') as string;
+
+describe('supportsRenditions', () => {
+  it('should only resize images served by the media proxy', () => {
+    expect(supportsRenditions(proxyUrl)).toBe(true);
+    expect(supportsRenditions('https://example.com/photo.jpg')).toBe(false);
+    expect(supportsRenditions('blob:http://localhost/123')).toBe(false);
+  });
+
+  it('should leave vector and animated images alone', () => {
+    expect(supportsRenditions(getMediaUrl('logo.svg') as string)).toBe(false);
+    expect(supportsRenditions(getMediaUrl('spinner.gif') as string)).toBe(false);
+  });
+});
+
+describe('getRenditionUrl', () => {
+  it('should request a named rendition from the proxy', () => {
+    expect(getRenditionUrl(proxyUrl, 'card')).toBe(`${proxyUrl}?rendition=card`);
+    expect(getRenditionUrl(proxyUrl, 'hero', { width: 1024, format: 'webp' })).toBe(
+      `${proxyUrl}?rendition=hero&w=1024&format=webp`
+    );
+  });
+
+  it('should resolve relative proxy paths', () => {
+    const { BASE_URL } = getApiConfig();
+
+    expect(getRenditionUrl('/api/v1/media/proxy/photo.jpg', 'thumbnail')).toBe(
+      `${BASE_URL}/api/v1/media/proxy/photo.jpg?rendition=thumbnail`
+    );
+  });
+
+  it('should keep existing query parameters', () => {
+    expect(getRenditionUrl(`${proxyUrl}?v=2`, 'card')).toBe(`${proxyUrl}?v=2&rendition=card`);
+  });
+
+  it('should return other URLs unchanged', () => {
+    expect(getRenditionUrl('https://example.com/photo.jpg', 'hero')).toBe('https://example.com/photo.jpg');
+    expect(getRenditionUrl(null, 'hero')).toBe('');
+  });
+});
+
+describe('getSrcSet', () => {
+  it('should list every width of the rendition', () => {
+    const srcSet = getSrcSet(proxyUrl, 'thumbnail', 'avif');
+
+    expect(srcSet).toBe(
+      `${proxyUrl}?rendition=thumbnail&w=160&format=avif 160w, ${proxyUrl}?rendition=thumbnail&w=320&format=avif 320w`
+    );
+  });
+
+  it('should be empty for URLs that cannot be resized', () => {
+    expect(getSrcSet('https://example.com/photo.jpg', 'card')).toBe('');
+  });
+});
+
+describe('getResponsiveImage', () => {
+  it('should offer AVIF and WebP sources before the original format', () => {
+    const image = getResponsiveImage(proxyUrl, 'card');
+
+    expect(image.src).toBe(`${proxyUrl}?rendition=card`);
+    expect(image.sizes).toBe(RENDITIONS.card.sizes);
+    expect(image.srcSet?.split(', ')).toHaveLength(RENDITIONS.card.widths.length);
+    expect(image.sources.map((source) => source.type)).toEqual(['image/avif', 'image/webp']);
+  });
+
+  it('should use the given sizes', () => {
+    expect(getResponsiveImage(proxyUrl, 'card', '200px').sources[0].sizes).toBe('200px');
+  });
+
+  it('should fall back to the plain URL', () => {
+    expect(getResponsiveImage('https://example.com/photo.jpg', 'card')).toEqual({
+      src: 'https://example.com/photo.jpg',
+      sources: [],
+    });
+  });
+});
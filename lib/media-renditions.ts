@@ -0,0 +1,101 @@
+/**
+ * Media Renditions
+ *
+ * Resized, re-encoded copies of images served by the media proxy, and the
+ * srcset/sizes strings that let browsers pick the smallest one that fits.
+ * Only proxy URLs can be transformed; anything else (external URLs, blobs,
+ * vector images) is returned unchanged so these helpers are safe for any image.
+ */
+
+import { resolveMediaUrl } from '@/lib/api/client';
+
+export type RenditionName = 'thumbnail' | 'card' | 'hero';
+
+export type RenditionFormat = 'avif' | 'webp';
+
+export interface RenditionPreset {
+  /** Widths offered in srcset, smallest first */
+  widths: number[];
+  /** sizes attribute for the layout the preset is meant for */
+  sizes: string;
+}
+
+export const RENDITIONS: Record<RenditionName, RenditionPreset> = {
+  thumbnail: { widths: [160, 320], sizes: '160px' },
+  card: { widths: [320, 480, 640, 960], sizes: '(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw' },
+  hero: { widths: [640, 1024, 1600, 2400], sizes: '100vw' },
+};
+
+/** Formats offered ahead of the original, best compression first */
+export const RENDITION_FORMATS: RenditionFormat[] = ['avif', 'webp'];
+
+const PROXY_PATH = '/media/proxy/';
+
+// Vector and animated images lose too much when rasterised or re-encoded
+const UNTRANSFORMED = /\.(svg|gif)(\?|#|$)/i;
+
+export function supportsRenditions(url: string): boolean {
+  return url.includes(PROXY_PATH) && !UNTRANSFORMED.test(url);
+}
+
+/**
+ * URL of a named rendition, optionally at a specific width and format.
+ * Without a width the proxy uses the rendition's default size.
+ */
+export function getRenditionUrl(
+  url: string | null | undefined,
+  rendition: RenditionName,
+  options: { width?: number; format?: RenditionFormat } = {}
+): string {
+  const resolved = resolveMediaUrl(url);
+  if (!supportsRenditions(resolved)) return resolved;
+
+  const params = new URLSearchParams({ rendition });
+  if (options.width) params.set('w', String(options.width));
+  if (options.format) params.set('format', options.format);
+  return `${resolved}${resolved.includes('?') ? '&' : '?'}${params}`;
+}
+
+/**
+ * srcset listing every width of a rendition, or '' when the URL cannot be resized.
+ */
+export function getSrcSet(url: string | null | undefined, rendition: RenditionName, format?: RenditionFormat): string {
+  if (!supportsRenditions(resolveMediaUrl(url))) return '';
+  return RENDITIONS[rendition].widths
+    .map((width) => `${getRenditionUrl(url, rendition, { width, format })} ${width}w`)
+    .join(', ');
+}
+
+export interface ResponsiveImageSource {
+  type: string;
+  srcSet: string;
+  sizes: string;
+}
+
+export interface ResponsiveImageAttributes {
+  src: string;
+  srcSet?: string;
+  sizes?: string;
+  /** <source> elements for a <picture>, best format first; empty when the URL cannot be resized */
+  sources: ResponsiveImageSource[];
+}
+
+export function getResponsiveImage(
+  url: string | null | undefined,
+  rendition: RenditionName,
+  sizes: string = RENDITIONS[rendition].sizes
+): ResponsiveImageAttributes {
+  const srcSet = getSrcSet(url, rendition);
+  if (!srcSet) return { src: resolveMediaUrl(url), sources: [] };
+
+  return {
+    src: getRenditionUrl(url, rendition),
+    srcSet,
+    sizes,
+    sources: RENDITION_FORMATS.map((format) => ({
+      type: `image/${format}`,
+      srcSet: getSrcSet(url, rendition, format),
+      sizes,
+    })),
+  };
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   createPageRequest,
   calculateOffset,
@@ -14,6 +14,7 @@ import {
   fromSearchParams,
   isPagedResponse,
   emptyPagedResponse,
+  fetchAllPages,
   DEFAULT_PAGE_SIZE,
   DEFAULT_PAGE,
   MAX_PAGE_SIZE,
@@ -411,4 +412,45 @@ describe('Pagination Module', () => {
       expect(Array.isArray(empty.items)).toBe(true);
     });
   });
+
+  describe('fetchAllPages', () => {
+    it('should keep loading while the page count says more pages remain', async () => {
+      // The server caps the page size at 2 even though 100 were requested
+      const fetchPage = vi.fn(async (page: number) => ({
+        items: [page * 2 - 1, page * 2].filter((n) => n <= 5),
+        pages: 3,
+      }));
+
+      expect(await fetchAllPages(fetchPage)).toEqual([1, 2, 3, 4, 5]);
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+      expect(fetchPage).toHaveBeenCalledWith(1, MAX_PAGE_SIZE);
+    });
+
+    it('should fall back to the total when there is no page count', async () => {
+      const fetchPage = vi.fn(async (page: number) => ({ items: page === 1 ? ['a', 'b'] : ['c'], total: 3 }));
+
+      expect(await fetchAllPages(fetchPage)).toEqual(['a', 'b', 'c']);
+      expect(fetchPage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop at a short page when the response has no count', async () => {
+      const fetchPage = vi.fn(async () => ({ items: ['a'] }));
+
+      expect(await fetchAllPages(fetchPage, { pageSize: 10 })).toEqual(['a']);
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop at an empty page', async () => {
+      const fetchPage = vi.fn(async () => ({ items: [], pages: 5 }));
+
+      expect(await fetchAllPages(fetchPage)).toEqual([]);
+      expect(fetchPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop early once the caller has what it needs', async () => {
+      const fetchPage = vi.fn(async (page: number) => ({ items: [page], pages: 10 }));
+
+      expect(await fetchAllPages(fetchPage, { until: (items) => items.includes(2) })).toEqual([1, 2]);
+    });
+  });
 });
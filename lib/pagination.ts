@@ -242,6 +242,66 @@ export function getPageNumbers(
   return Array.from({ length: end - start + 1 }, (_, i) => start + i);
 }
 
+// ============================================================================
+// Loading Every Page
+// ============================================================================
+
+/**
+ * One page of a list endpoint, with either name for the page count.
+ */
+export interface ListPage<T> {
+  items: T[];
+  total?: number;
+  pages?: number;
+  total_pages?: number;
+}
+
+export interface FetchAllPagesOptions<T> {
+  /** Items requested per page (default: MAX_PAGE_SIZE) */
+  pageSize?: number;
+  /** Stop early once this returns true for the items loaded so far */
+  until?: (items: T[]) => boolean;
+}
+
+/**
+ * Load every page of a list endpoint, in order.
+ *
+ * The page count (or, failing that, the total) in each response decides when
+ * to stop, so a server that caps the page size below the one requested still
+ * returns every item. Only a response with neither ends at a short page.
+ *
+ * @param fetchPage - Loads one page
+ * @param options - Page size and early stop
+ * @returns All items, in page order
+ *
+ * @example
+ * ```ts
+ * const entries = await fetchAllPages((page, per_page) =>
+ *   contentApi.getContentEntries({ content_type_id, page, per_page })
+ * );
+ * ```
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number, pageSize: number) => Promise<ListPage<T>>,
+  { pageSize = MAX_PAGE_SIZE, until }: FetchAllPagesOptions<T> = {}
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const response = await fetchPage(page, pageSize);
+    items.push(...response.items);
+    if (response.items.length === 0 || until?.(items)) return items;
+
+    const pages = response.pages ?? response.total_pages;
+    if (pages !== undefined) {
+      if (page >= pages) return items;
+    } else if (response.total !== undefined) {
+      if (items.length >= response.total) return items;
+    } else if (response.items.length < pageSize) {
+      return items;
+    }
+  }
+}
+
 // ============================================================================
 // Conversion Utilities (for backward compatibility)
 // ============================================================================
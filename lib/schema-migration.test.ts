@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { buildMigrationReport, convertValue, diffFields, migrateEntryData } from './schema-migration';
+import { ContentTypeField } from '@/types';
+
+const oldFields: ContentTypeField[] = [
+  { name: 'title', type: 'text' },
+  { name: 'price', type: 'text' },
+  { name: 'summary', type: 'textarea' },
+  { name: 'legacy', type: 'text' },
+];
+
+describe('schema-migration', () => {
+  describe('diffFields', () => {
+    it('should detect renamed, retyped and deleted fields', () => {
+      const mappings = diffFields(oldFields, [
+        { originalKey: 'title', name: 'headline', type: 'text' },
+        { originalKey: 'price', name: 'price', type: 'number' },
+        { originalKey: 'summary', name: 'summary', type: 'textarea' },
+        { name: 'notes', type: 'text' },
+      ]);
+
+      expect(mappings).toEqual([
+        { from: 'title', fromType: 'text', to: 'headline', toType: 'text', removed: false },
+        { from: 'price', fromType: 'text', to: 'price', toType: 'number', removed: false },
+        { from: 'legacy', fromType: 'text', to: null, toType: null, removed: true },
+      ]);
+    });
+
+    it('should propose a re-added field with the same key', () => {
+      const mappings = diffFields(oldFields.slice(0, 2), [
+        { originalKey: 'title', name: 'title', type: 'text' },
+        { name: 'price', type: 'number' },
+      ]);
+
+      expect(mappings).toEqual([{ from: 'price', fromType: 'text', to: 'price', toType: 'number', removed: true }]);
+    });
+
+    it('should return nothing when fields are unchanged', () => {
+      expect(diffFields(oldFields, oldFields.map((f) => ({ originalKey: f.name, name: f.name, type: f.type })))).toEqual([]);
+    });
+  });
+
+  describe('convertValue', () => {
+    it('should coerce text to numbers', () => {
+      expect(convertValue('1,299.50', 'text', 'number')).toEqual({ ok: true, value: 1299.5 });
+      expect(convertValue('cheap', 'text', 'number')).toEqual({ ok: false, error: '"cheap" is not a number' });
+    });
+
+    it('should coerce booleans, dates and JSON', () => {
+      expect(convertValue('Yes', 'text', 'boolean')).toEqual({ ok: true, value: true });
+      expect(convertValue('maybe', 'text', 'boolean')).toEqual({ ok: false, error: '"maybe" is not true or false' });
+      expect(convertValue('2025-03-01', 'text', 'date')).toEqual({ ok: true, value: '2025-03-01' });
+      expect(convertValue('{"a":1}', 'textarea', 'json')).toEqual({ ok: true, value: { a: 1 } });
+    });
+
+    it('should stringify values for text fields', () => {
+      expect(convertValue(42, 'number', 'text')).toEqual({ ok: true, value: '42' });
+      expect(convertValue(['id-1'], 'reference', 'text')).toEqual({ ok: false, error: 'Cannot convert reference to text' });
+    });
+
+    it('should keep empty values', () => {
+      expect(convertValue('', 'text', 'number')).toEqual({ ok: true, value: '' });
+    });
+  });
+
+  describe('migrateEntryData', () => {
+    it('should move and convert values', () => {
+      const result = migrateEntryData({ title: 'Hi', price: '10', legacy: 'x', other: 1 }, [
+        { from: 'title', fromType: 'text', to: 'headline', toType: 'text', removed: false },
+        { from: 'price', fromType: 'text', to: 'price', toType: 'number', removed: false },
+        { from: 'legacy', fromType: 'text', to: null, toType: null, removed: true },
+      ]);
+
+      expect(result).toEqual({ data: { headline: 'Hi', price: 10, other: 1 }, changed: true, errors: [] });
+    });
+
+    it('should swap keys without losing data', () => {
+      const result = migrateEntryData({ a: '1', b: '2' }, [
+        { from: 'a', fromType: 'text', to: 'b', toType: 'text', removed: false },
+        { from: 'b', fromType: 'text', to: 'a', toType: 'text', removed: false },
+      ]);
+
+      expect(result.data).toEqual({ a: '2', b: '1' });
+    });
+
+    it('should report values that cannot be converted', () => {
+      const result = migrateEntryData({ price: 'free' }, [
+        { from: 'price', fromType: 'text', to: 'price', toType: 'number', removed: false },
+      ]);
+
+      expect(result.errors).toEqual([{ field: 'price', value: 'free', error: '"free" is not a number' }]);
+    });
+
+    it('should not mark entries without affected fields as changed', () => {
+      expect(migrateEntryData({ other: 1 }, [{ from: 'price', fromType: 'text', to: null, toType: null, removed: true }]).changed).toBe(false);
+    });
+  });
+
+  it('should build a CSV report', () => {
+    expect(
+      buildMigrationReport([{ entry_id: 'e1', slug: 'post', field: 'price', value: 'a, b', error: '"a, b" is not a number' }])
+    ).toBe('entry_id,slug,field,value,error\ne1,post,price,"a, b","""a, b"" is not a number"');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Schema Migration Utilities
+ *
+ * When a content type's fields are renamed, retyped or deleted, existing
+ * entries still store data under the old keys and types. These helpers diff
+ * the old and new fields into mappings and convert entry data to match.
+ */
+
+import { ContentTypeField } from '@/types';
+
+export interface FieldMapping {
+  /** Key the data is stored under in existing entries */
+  from: string;
+  fromType: string;
+  /** Key to move the data to; null drops it */
+  to: string | null;
+  toType: string | null;
+  /** The field was deleted in the builder, so its data needs a new home */
+  removed: boolean;
+}
+
+/** A field as edited in the builder, remembering the key it was loaded with */
+export interface EditedField {
+  originalKey?: string;
+  name: string;
+  type: string;
+}
+
+export type ConversionResult = { ok: true; value: unknown } | { ok: false; error: string };
+
+export interface MigrationFailure {
+  entry_id: string;
+  slug: string;
+  field: string;
+  value: unknown;
+  error: string;
+}
+
+const TEXT_TYPES = ['text', 'textarea', 'richtext', 'email', 'url', 'select', 'image', 'file'];
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false, '1': true, '0': false };
+
+/**
+ * Mappings for every existing field whose data would be orphaned or
+ * mistyped by the new fields. Deleted fields are matched to a newly added
+ * field with the same key when there is one.
+ */
+export function diffFields(oldFields: ContentTypeField[], newFields: EditedField[]): FieldMapping[] {
+  const added = newFields.filter((field) => !field.originalKey || !oldFields.some((old) => old.name === field.originalKey));
+  const mappings: FieldMapping[] = [];
+
+  oldFields.forEach((old) => {
+    const current = newFields.find((field) => field.originalKey === old.name);
+    if (current) {
+      if (current.name !== old.name || current.type !== old.type) {
+        mappings.push({ from: old.name, fromType: old.type, to: current.name, toType: current.type, removed: false });
+      }
+      return;
+    }
+    const replacement = added.find((field) => field.name === old.name);
+    if (replacement && replacement.type === old.type) return;
+    mappings.push({
+      from: old.name,
+      fromType: old.type,
+      to: replacement ? replacement.name : null,
+      toType: replacement ? replacement.type : null,
+      removed: true,
+    });
+  });
+
+  return mappings;
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+/**
+ * Convert a stored value between field types.
+ */
+export function convertValue(value: unknown, fromType: string, toType: string): ConversionResult {
+  if (value === undefined || value === null || value === '' || fromType === toType) {
+    return { ok: true, value };
+  }
+
+  switch (toType) {
+    case 'number': {
+      if (typeof value === 'number') return { ok: true, value };
+      if (typeof value === 'boolean') return { ok: true, value: value ? 1 : 0 };
+      const number = typeof value === 'string' ? Number(value.trim().replace(/,/g, '')) : NaN;
+      return isNaN(number) ? { ok: false, error: `${describe(value)} is not a number` } : { ok: true, value: number };
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return { ok: true, value };
+      const key = String(value).trim().toLowerCase();
+      return key in BOOLEAN_VALUES
+        ? { ok: true, value: BOOLEAN_VALUES[key] }
+        : { ok: false, error: `${describe(value)} is not true or false` };
+    }
+    case 'date':
+    case 'datetime':
+      return typeof value === 'string' && !isNaN(Date.parse(value))
+        ? { ok: true, value }
+        : { ok: false, error: `${describe(value)} is not a valid date` };
+    case 'json':
+      if (typeof value !== 'string') return { ok: true, value };
+      try {
+        return { ok: true, value: JSON.parse(value) };
+      } catch {
+        return { ok: false, error: `${describe(value)} is not valid JSON` };
+      }
+  }
+
+  if (TEXT_TYPES.includes(toType) && (TEXT_TYPES.includes(fromType) || ['number', 'boolean', 'date', 'datetime'].includes(fromType))) {
+    return { ok: true, value: typeof value === 'string' ? value : String(value) };
+  }
+
+  return { ok: false, error: `Cannot convert ${fromType} to ${toType}` };
+}
+
+/**
+ * Apply field mappings to one entry's data. When any value fails to convert
+ * the errors are returned and the data should be left untouched.
+ */
+export function migrateEntryData(
+  data: Record<string, unknown>,
+  mappings: FieldMapping[]
+): { data: Record<string, unknown>; changed: boolean; errors: { field: string; value: unknown; error: string }[] } {
+  const result = { ...data };
+  const errors: { field: string; value: unknown; error: string }[] = [];
+  let changed = false;
+
+  // Remove every source key first so swapped keys do not overwrite each other
+  mappings.forEach((mapping) => {
+    if (mapping.from in result) {
+      delete result[mapping.from];
+      changed = true;
+    }
+  });
+
+  mappings.forEach((mapping) => {
+    const value = data[mapping.from];
+    if (value === undefined || !mapping.to || !mapping.toType) return;
+    const converted = convertValue(value, mapping.fromType, mapping.toType);
+    if (converted.ok) {
+      result[mapping.to] = converted.value;
+    } else {
+      errors.push({ field: mapping.from, value, error: converted.error });
+    }
+  });
+
+  return { data: result, changed, errors };
+}
+
+/**
+ * CSV report of entries that could not be migrated.
+ */
+export function buildMigrationReport(failures: MigrationFailure[]): string {
+  const escape = (value: unknown) => {
+    const text = value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = failures.map((f) => [f.entry_id, f.slug, f.field, f.value, f.error].map(escape).join(','));
+  return ['entry_id,slug,field,value,error', ...rows].join('\n');
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isValidTimezone,
+  getSupportedTimezones,
+  getTimezoneOffset,
+  toZonedInputValue,
+  fromZonedInputValue,
+  formatInTimezone,
+  getZonedDateKey,
+  getTimezoneLabel,
+} from './timezone';
+
+describe('Timezone Utilities', () => {
+  describe('isValidTimezone', () => {
+    it('should accept IANA timezones', () => {
+      expect(isValidTimezone('UTC')).toBe(true);
+      expect(isValidTimezone('America/New_York')).toBe(true);
+    });
+
+    it('should reject empty and unknown values', () => {
+      expect(isValidTimezone('')).toBe(false);
+      expect(isValidTimezone(undefined)).toBe(false);
+      expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('getSupportedTimezones', () => {
+    it('should always include UTC', () => {
+      expect(getSupportedTimezones()).toContain('UTC');
+    });
+  });
+
+  describe('getTimezoneOffset', () => {
+    it('should follow daylight saving time', () => {
+      expect(getTimezoneOffset(new Date('2025-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+      expect(getTimezoneOffset(new Date('2025-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+    });
+
+    it('should handle fractional-hour offsets', () => {
+      expect(getTimezoneOffset(new Date('2025-01-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+    });
+  });
+
+  describe('toZonedInputValue', () => {
+    it('should render wall-clock time in the timezone', () => {
+      expect(toZonedInputValue('2025-03-01T05:00:00Z', 'America/New_York')).toBe('2025-03-01T00:00');
+      expect(toZonedInputValue('2025-03-01T05:00:00Z', 'Asia/Tokyo')).toBe('2025-03-01T14:00');
+    });
+
+    it('should return empty string for missing or invalid input', () => {
+      expect(toZonedInputValue(undefined, 'UTC')).toBe('');
+      expect(toZonedInputValue('not a date', 'UTC')).toBe('');
+    });
+  });
+
+  describe('fromZonedInputValue', () => {
+    it('should convert wall-clock time to UTC', () => {
+      expect(fromZonedInputValue('2025-03-01T00:00', 'America/New_York')).toBe('2025-03-01T05:00:00.000Z');
+      expect(fromZonedInputValue('2025-07-01T00:00', 'America/New_York')).toBe('2025-07-01T04:00:00.000Z');
+      expect(fromZonedInputValue('2025-03-01T14:00', 'Asia/Tokyo')).toBe('2025-03-01T05:00:00.000Z');
+    });
+
+    it('should round-trip with toZonedInputValue', () => {
+      const iso = fromZonedInputValue('2025-11-02T09:30', 'Europe/Paris');
+      expect(toZonedInputValue(iso, 'Europe/Paris')).toBe('2025-11-02T09:30');
+    });
+
+    it('should resolve times in a DST gap to after the gap', () => {
+      // 02:30 does not exist in New York on 2025-03-09
+      const iso = fromZonedInputValue('2025-03-09T02:30', 'America/New_York');
+      expect(toZonedInputValue(iso, 'America/New_York')).toBe('2025-03-09T03:30');
+    });
+
+    it('should return null for empty or malformed input', () => {
+      expect(fromZonedInputValue('', 'UTC')).toBeNull();
+      expect(fromZonedInputValue('2025-03-01', 'UTC')).toBeNull();
+    });
+  });
+
+  describe('formatInTimezone', () => {
+    it('should format in the requested timezone', () => {
+      const formatted = formatInTimezone('2025-03-01T05:00:00Z', 'Asia/Tokyo', {
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      });
+      expect(formatted).toContain('14:00');
+    });
+
+    it('should return empty string for missing input', () => {
+      expect(formatInTimezone(null, 'UTC')).toBe('');
+    });
+  });
+
+  describe('getZonedDateKey', () => {
+    it('should use the calendar day in the timezone', () => {
+      expect(getZonedDateKey('2025-03-01T02:00:00Z', 'America/New_York')).toBe('2025-02-28');
+      expect(getZonedDateKey('2025-03-01T02:00:00Z', 'UTC')).toBe('2025-03-01');
+    });
+  });
+
+  describe('getTimezoneLabel', () => {
+    it('should include the GMT offset', () => {
+      expect(getTimezoneLabel('Asia/Kolkata', new Date('2025-01-15T12:00:00Z'))).toBe(
+        'Asia/Kolkata (GMT+05:30)'
+      );
+      expect(getTimezoneLabel('UTC')).toBe('UTC (GMT+00:00)');
+    });
+  });
+});
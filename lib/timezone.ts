@@ -0,0 +1,182 @@
+/**
+ * Timezone Utilities
+ *
+ * Helpers for presenting and editing instants in the organization's
+ * timezone rather than the browser's. Values are always stored as UTC ISO
+ * strings; `<input type="datetime-local">` values (`YYYY-MM-DDTHH:mm`) are
+ * treated as wall-clock time in the given IANA timezone.
+ *
+ * Built on Intl only, so no timezone database needs to be bundled.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/** Fallback list when Intl.supportedValuesOf is unavailable */
+const COMMON_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Lagos',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+/**
+ * The browser's own timezone, used when the organization has none configured.
+ */
+export function getBrowserTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+  } catch {
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Check whether a string is a timezone Intl understands.
+ */
+export function isValidTimezone(timezone: string | undefined | null): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * All IANA timezones supported by the runtime, always including UTC.
+ */
+export function getSupportedTimezones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = typeof intl.supportedValuesOf === 'function' ? intl.supportedValuesOf('timeZone') : COMMON_TIMEZONES;
+  return zones.includes(DEFAULT_TIMEZONE) ? zones : [DEFAULT_TIMEZONE, ...zones];
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function getWallClock(date: Date, timezone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    // Some runtimes still report midnight as 24 with h23
+    hour: get('hour') % 24,
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes
+ * (e.g. -300 for New York in winter).
+ */
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const wall = getWallClock(date, timezone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Convert a UTC ISO string to a `datetime-local` input value in the timezone.
+ * Returns an empty string for empty or invalid input.
+ */
+export function toZonedInputValue(iso: string | undefined | null, timezone: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const wall = getWallClock(date, timezone);
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}`;
+}
+
+/**
+ * Convert a `datetime-local` input value, read as wall-clock time in the
+ * timezone, to a UTC ISO string. Returns null for empty or invalid input.
+ *
+ * Times that fall in a DST gap resolve to the instant after the gap.
+ */
+export function fromZonedInputValue(value: string | undefined | null, timezone: string): string | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s] = match;
+  const wallAsUtc = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s || 0));
+
+  // Apply the offset, then re-check it at the resulting instant in case we
+  // crossed a DST transition.
+  const firstOffset = getTimezoneOffset(new Date(wallAsUtc), timezone);
+  const first = wallAsUtc - firstOffset * 60000;
+  const secondOffset = getTimezoneOffset(new Date(first), timezone);
+  if (secondOffset === firstOffset) return new Date(first).toISOString();
+
+  const second = wallAsUtc - secondOffset * 60000;
+  // If the corrected instant doesn't carry its own offset the wall time is in a gap
+  const instant = getTimezoneOffset(new Date(second), timezone) === secondOffset ? second : first;
+
+  return new Date(instant).toISOString();
+}
+
+/**
+ * Format a UTC ISO string for display in the timezone.
+ */
+export function formatInTimezone(
+  iso: string | undefined | null,
+  timezone: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString(undefined, { ...options, timeZone: timezone });
+}
+
+/**
+ * Calendar day (`YYYY-MM-DD`) of an instant in the timezone.
+ */
+export function getZonedDateKey(iso: string, timezone: string): string {
+  return toZonedInputValue(iso, timezone).slice(0, 10);
+}
+
+/**
+ * Human readable label such as `America/New_York (GMT-05:00)`.
+ */
+export function getTimezoneLabel(timezone: string, date: Date = new Date()): string {
+  const offset = getTimezoneOffset(date, timezone);
+  const sign = offset < 0 ? '-' : '+';
+  const abs = Math.abs(offset);
+  return `${timezone} (GMT${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)})`;
+}
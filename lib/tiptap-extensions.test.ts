@@ -1,5 +1,7 @@
-import { describe, it, expect } from 'vitest';
-import { Callout, Details } from './tiptap-extensions';
+import { describe, it, expect, vi } from 'vitest';
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { Callout, Details, MediaVideo } from './tiptap-extensions';
 
 describe('tiptap-extensions', () => {
   describe('Callout extension', () => {
@@ -96,5 +98,56 @@ describe('tiptap-extensions', () => {
       expect(Details.config.addAttributes).toBeUndefined();
     });
   });
-});
 
+  describe('MediaVideo extension', () => {
+    const createEditor = (content: string) =>
+      new Editor({ extensions: [StarterKit, MediaVideo], content });
+
+    it('should be an atomic block-level node', () => {
+      expect(MediaVideo.name).toBe('mediaVideo');
+      expect(MediaVideo.config.group).toBe('block');
+      expect(MediaVideo.config.atom).toBe(true);
+    });
+
+    it('should store only the media ID when parsing and rendering', () => {
+      const editor = createEditor(
+        '<video data-media-id="m1" src="/media/proxy/clip.mp4" poster="/media/proxy/poster.jpg"></video>'
+      );
+
+      expect(editor.getJSON().content?.[0]).toEqual({
+        type: 'mediaVideo',
+        attrs: { mediaId: 'm1', title: null },
+      });
+      expect(editor.getHTML()).toContain('<video data-media-id="m1" controls="true" preload="metadata"></video>');
+      editor.destroy();
+    });
+
+    it('should resolve the source and captions when shown in the editor', async () => {
+      const loadMedia = vi.fn().mockResolvedValue({
+        media: { id: 'm1', filename: 'clip.mp4', url: 'https://cdn.example.com/clip.mp4', media_type: 'video' },
+        captions: [
+          { id: 'c1', media_id: 'm1', locale: 'en', label: 'English', kind: 'captions', url: 'https://cdn.example.com/en.vtt' },
+        ],
+      });
+      const editor = new Editor({
+        extensions: [StarterKit, MediaVideo.configure({ loadMedia })],
+        content: '<video data-media-id="m1"></video>',
+      });
+
+      const video = editor.view.dom.querySelector('video') as HTMLVideoElement;
+      await vi.waitFor(() => expect(video.getAttribute('src')).toBe('https://cdn.example.com/clip.mp4'));
+      expect(loadMedia).toHaveBeenCalledWith('m1');
+      expect(video.querySelector('track')?.getAttribute('srclang')).toBe('en');
+      // The resolved URLs stay out of the stored HTML
+      expect(editor.getHTML()).not.toContain('cdn.example.com');
+      editor.destroy();
+    });
+
+    it('should ignore videos that are not from the media library', () => {
+      const editor = createEditor('<video src="https://example.com/clip.mp4"></video>');
+
+      expect(editor.getHTML()).not.toContain('<video');
+      editor.destroy();
+    });
+  });
+});
@@ -1,4 +1,6 @@
 import { Node, mergeAttributes } from '@tiptap/core';
+import { applyVideoSources } from '@/lib/media-playback';
+import { Media, MediaCaption } from '@/types';
 
 // Custom Callout/Alert Block
 export const Callout = Node.create({
@@ -55,3 +57,69 @@ export const Details = Node.create({
     return ['details', mergeAttributes(HTMLAttributes), 0];
   },
 });
+
+export interface MediaVideoOptions {
+  // Looks up the item behind a stored media ID when the video is shown
+  loadMedia: ((mediaId: string) => Promise<{ media: Media; captions: MediaCaption[] }>) | null;
+}
+
+// Video from the media library. Only the media ID is stored; the source,
+// poster and caption tracks are resolved whenever the video is rendered
+export const MediaVideo = Node.create<MediaVideoOptions>({
+  name: 'mediaVideo',
+
+  group: 'block',
+
+  atom: true,
+
+  draggable: true,
+
+  addOptions() {
+    return {
+      loadMedia: null,
+    };
+  },
+
+  addAttributes() {
+    return {
+      mediaId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-media-id'),
+        renderHTML: attributes => ({
+          'data-media-id': attributes.mediaId,
+        }),
+      },
+      title: {
+        default: null,
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'video[data-media-id]',
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['video', mergeAttributes(HTMLAttributes, { controls: 'true', preload: 'metadata' })];
+  },
+
+  addNodeView() {
+    return ({ node }) => {
+      const video = document.createElement('video');
+      video.controls = true;
+      video.preload = 'metadata';
+      video.setAttribute('data-media-id', node.attrs.mediaId);
+      if (node.attrs.title) video.title = node.attrs.title;
+
+      this.options.loadMedia?.(node.attrs.mediaId)
+        .then(({ media, captions }) => applyVideoSources(video, media, captions))
+        .catch(err => console.error('Failed to load video:', err));
+
+      return { dom: video };
+    };
+  },
+});
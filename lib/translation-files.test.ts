@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TranslationDocument,
+  TranslationSource,
+  createTranslationUnits,
+  parseTranslationFile,
+  planTranslationImport,
+  serializePo,
+  serializeXliff,
+  validateTranslation,
+} from './translation-files';
+import { hashSourceValue } from './translation-status';
+import type { Translation } from '@/types';
+
+const fields = [
+  { name: 'title', type: 'text', label: 'Title', localized: true },
+  { name: 'body', type: 'richtext', label: 'Body', help_text: 'Main text', localized: true },
+  { name: 'sku', type: 'text', label: 'SKU' },
+];
+
+function translation(overrides: Partial<Translation> = {}): Translation {
+  return {
+    id: 't1',
+    content_entry_id: 'entry-1',
+    locale_id: 'locale-de',
+    translated_data: {},
+    status: 'completed',
+    is_manual: true,
+    version: 1,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+const source: TranslationSource = {
+  entry: {
+    id: 'entry-1',
+    content_type_id: 'type-1',
+    slug: 'launch',
+    status: 'published',
+    data: { title: 'Hello {name}', body: '<p>Say "hi" & <strong>wave</strong></p>', sku: 'A-1' },
+  },
+  fields,
+  typeName: 'Article',
+};
+
+const document: TranslationDocument = {
+  sourceLocale: 'en',
+  targetLocale: 'de',
+  units: [
+    {
+      entryId: 'entry-1',
+      field: 'title',
+      source: 'Hello {name}',
+      target: 'Hallo {name}',
+      state: 'translated',
+      notes: ['Article "Launch" (launch)', 'Title'],
+    },
+    {
+      entryId: 'entry-1',
+      field: 'body',
+      source: '<p>Say "hi" & <strong>wave</strong>\nTwice</p>',
+      target: '',
+      state: 'initial',
+      notes: ['Body: Main text'],
+    },
+  ],
+};
+
+describe('createTranslationUnits', () => {
+  it('should create a unit per localized text field with context notes', () => {
+    const units = createTranslationUnits([source]);
+
+    expect(units.map((unit) => unit.field)).toEqual(['title', 'body']);
+    expect(units[1]).toMatchObject({
+      entryId: 'entry-1',
+      source: '<p>Say "hi" & <strong>wave</strong></p>',
+      target: '',
+      state: 'initial',
+      notes: ['Article "Hello {name}" (launch)', 'Body: Main text'],
+    });
+  });
+
+  it('should carry existing translations with their state', () => {
+    const units = createTranslationUnits([
+      {
+        ...source,
+        translation: translation({
+          translated_data: { title: 'Hallo {name}', body: '<p>Alt</p>' },
+          field_status: {
+            title: { source_hash: hashSourceValue('Hello {name}'), machine: false, reviewed: true },
+            body: { source_hash: hashSourceValue('<p>Old</p>'), machine: false, reviewed: false },
+          },
+        }),
+      },
+    ]);
+
+    expect(units[0]).toMatchObject({ target: 'Hallo {name}', state: 'reviewed' });
+    expect(units[1]).toMatchObject({ target: '<p>Alt</p>', state: 'initial' });
+  });
+});
+
+describe('XLIFF', () => {
+  it('should write one file per entry with escaped text', () => {
+    const xliff = serializeXliff(document);
+
+    expect(xliff).toContain('<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de">');
+    expect(xliff).toContain('<file id="entry-1">');
+    expect(xliff).toContain('<unit id="title">');
+    expect(xliff).toContain('<source>&lt;p&gt;Say &quot;hi&quot; &amp; &lt;strong&gt;wave&lt;/strong&gt;');
+    expect(xliff).toContain('<note category="context">Body: Main text</note>');
+  });
+
+  it('should read back what it writes', () => {
+    const result = parseTranslationFile(serializeXliff(document));
+
+    expect(result.errors).toEqual([]);
+    expect(result.format).toBe('xliff');
+    expect(result.document).toEqual(document);
+  });
+
+  it('should join split segments and use the least finished state', () => {
+    const result = parseTranslationFile(`<?xml version="1.0"?>
+<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0" version="2.0" srcLang="en" trgLang="de">
+  <file id="entry-1">
+    <unit id="body">
+      <segment state="final"><source>One.</source><target>Eins.</target></segment>
+      <ignorable><source> </source><target> </target></ignorable>
+      <segment state="translated"><source>Two.</source><target>Zwei.</target></segment>
+    </unit>
+  </file>
+</xliff>`);
+
+    expect(result.document?.units[0]).toMatchObject({ source: 'One. Two.', target: 'Eins. Zwei.', state: 'translated' });
+  });
+
+  it('should reject invalid and unsupported files', () => {
+    expect(parseTranslationFile('<xliff version="2.0"').errors).toEqual(['File is not valid XLIFF']);
+    expect(parseTranslationFile('<xliff version="1.2" trgLang="de"/>').errors).toEqual([
+      'Only XLIFF 2.0 files are supported',
+    ]);
+    expect(parseTranslationFile('<xliff version="2.0" srcLang="en"/>').errors[0]).toContain('target language');
+  });
+});
+
+describe('PO', () => {
+  it('should write messages keyed by unit ID', () => {
+    const po = serializePo({ ...document, units: [{ ...document.units[0], state: 'initial' }] });
+
+    expect(po).toContain('"Language: de\\n"');
+    expect(po).toContain('#. Title\n#, fuzzy\nmsgctxt "entry-1:title"\nmsgid "Hello {name}"\nmsgstr "Hallo {name}"');
+  });
+
+  it('should split multi-line text and escape quotes', () => {
+    const po = serializePo(document);
+
+    expect(po).toContain('msgid ""\n"<p>Say \\"hi\\" & <strong>wave</strong>\\n"\n"Twice</p>"');
+  });
+
+  it('should read back what it writes', () => {
+    const result = parseTranslationFile(serializePo(document));
+
+    expect(result.errors).toEqual([]);
+    expect(result.format).toBe('po');
+    expect(result.document).toEqual(document);
+  });
+
+  it('should treat fuzzy messages as unfinished and skip obsolete ones', () => {
+    const result = parseTranslationFile(`msgid ""
+msgstr "Language: fr\\n"
+
+#, fuzzy
+msgctxt "entry-1:title"
+msgid "Hello"
+msgstr "Bonjour"
+
+#~ msgctxt "entry-1:old"
+#~ msgid "Gone"
+#~ msgstr "Parti"
+`);
+
+    expect(result.document?.targetLocale).toBe('fr');
+    expect(result.document?.units).toHaveLength(1);
+    expect(result.document?.units[0].state).toBe('initial');
+  });
+
+  it('should require a language header', () => {
+    expect(parseTranslationFile('msgid "a"\nmsgstr "b"\n').errors[0]).toContain('Language header');
+  });
+});
+
+describe('validateTranslation', () => {
+  it('should accept translations that keep tags and placeholders', () => {
+    expect(validateTranslation('<p>Hi {name}, <br>see %s</p>', '<p>Hallo {name},<br/> siehe %s</p>')).toEqual([]);
+  });
+
+  it('should report dropped and added placeholders', () => {
+    expect(validateTranslation('Hi {{ user }} and {name}', 'Hallo {user} und {name}')).toEqual([
+      'Missing placeholder {{ user }}',
+      'Unexpected placeholder {user}',
+    ]);
+  });
+
+  it('should report dropped tags and broken nesting', () => {
+    expect(validateTranslation('<p><strong>Bold</strong></p>', '<p>Fett</p>')).toEqual([
+      'Missing tag <strong>',
+      'Missing tag </strong>',
+    ]);
+    expect(validateTranslation('<p><em>a</em> <b>b</b></p>', '<p><em>a <b>b</em></b></p>')).toEqual([
+      'Tags are not properly nested',
+    ]);
+  });
+});
+
+describe('planTranslationImport', () => {
+  const saved = translation({ translated_data: { title: 'Hallo {name}' } });
+
+  it('should list changed fields per entry with their issues', () => {
+    const plan = planTranslationImport(
+      [
+        { ...document.units[0], target: 'Servus' },
+        { ...document.units[1], target: '<p>Sag "hallo"</p>', state: 'reviewed' },
+      ],
+      [{ ...source, translation: saved }]
+    );
+
+    expect(plan.entries).toHaveLength(1);
+    expect(plan.entries[0].changes).toEqual([
+      expect.objectContaining({ field: 'title', current: 'Hallo {name}', target: 'Servus', issues: ['Missing placeholder {name}'] }),
+      expect.objectContaining({ field: 'body', label: 'Body', reviewed: true, sourceChanged: true }),
+    ]);
+  });
+
+  it('should skip unfinished, unchanged and unknown units', () => {
+    const plan = planTranslationImport(
+      [
+        document.units[0],
+        document.units[1],
+        { ...document.units[0], field: 'sku', target: 'B-1' },
+        { ...document.units[0], entryId: 'entry-9' },
+      ],
+      [{ ...source, translation: saved }]
+    );
+
+    expect(plan.entries).toEqual([]);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.untranslated).toBe(1);
+    expect(plan.skipped).toEqual(['Hello {name} / sku: not a localized field', 'entry-9:title: the entry no longer exists']);
+  });
+});
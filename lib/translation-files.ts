@@ -0,0 +1,472 @@
+/**
+ * Translation Files
+ *
+ * Exchange of localized text fields with translators' CAT tools as XLIFF 2.0
+ * or, for tools without XLIFF support, gettext PO. Every field becomes one
+ * unit identified by entry ID and field name, so a returned file maps back
+ * to the content it came from however the translator reorders it.
+ *
+ * Rich text travels as HTML inside the unit text. On import, translations
+ * are checked to keep the tags and placeholders of their source.
+ */
+
+import { ContentEntry, ContentTypeField, Translation } from '@/types';
+import { getFieldStatus, getLocalizedFields } from '@/lib/translation-status';
+
+export type TranslationFileFormat = 'xliff' | 'po';
+
+export const TRANSLATION_FILE_FORMATS: Record<
+  TranslationFileFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  xliff: { label: 'XLIFF 2.0', extension: 'xlf', mimeType: 'application/xliff+xml' },
+  po: { label: 'gettext PO', extension: 'po', mimeType: 'text/x-gettext-translation' },
+};
+
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+
+/**
+ * - initial: needs translating; any target is only a suggestion (an outdated
+ *   or machine translation, or a fuzzy PO message)
+ * - translated: done, not yet reviewed
+ * - reviewed: done and reviewed (XLIFF "reviewed" and "final")
+ */
+export type TranslationUnitState = 'initial' | 'translated' | 'reviewed';
+
+export interface TranslationUnit {
+  entryId: string;
+  field: string;
+  source: string;
+  target: string;
+  state: TranslationUnitState;
+  /** Context for the translator */
+  notes: string[];
+}
+
+export interface TranslationDocument {
+  sourceLocale: string;
+  targetLocale: string;
+  units: TranslationUnit[];
+}
+
+/** Entry to export, with its type's fields and current target translation */
+export interface TranslationSource {
+  entry: ContentEntry;
+  fields: ContentTypeField[];
+  typeName?: string;
+  translation?: Translation;
+}
+
+/** Stable unit ID used as PO message context */
+export function getUnitId(unit: Pick<TranslationUnit, 'entryId' | 'field'>): string {
+  return `${unit.entryId}:${unit.field}`;
+}
+
+export function getEntryTitle(entry: ContentEntry): string {
+  const data = entry.data || entry.content_data || {};
+  const title = data.title || data.name;
+  return typeof title === 'string' && title ? title : entry.slug;
+}
+
+/**
+ * One unit per localized field holding text. Existing translations are
+ * included as targets; outdated and machine translations stay "initial" so
+ * the translator confirms them.
+ */
+export function createTranslationUnits(sources: TranslationSource[]): TranslationUnit[] {
+  return sources.flatMap(({ entry, fields, typeName, translation }) => {
+    const data = entry.data || entry.content_data || {};
+    const context = `${typeName ? `${typeName} ` : ''}"${getEntryTitle(entry)}" (${entry.slug})`;
+    return getLocalizedFields(fields)
+      .filter((field) => typeof data[field.name] === 'string' && data[field.name].trim() !== '')
+      .map((field) => {
+        const status = getFieldStatus(field.name, data, translation);
+        const target = status === 'missing' ? '' : String(translation?.translated_data[field.name] ?? '');
+        const state: TranslationUnitState =
+          status === 'reviewed' ? 'reviewed' : status === 'translated' ? 'translated' : 'initial';
+        return {
+          entryId: entry.id,
+          field: field.name,
+          source: data[field.name],
+          target,
+          state,
+          notes: [context, [field.label || field.name, field.help_text].filter(Boolean).join(': ')],
+        };
+      });
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function serializeXliff(document: TranslationDocument): string {
+  const files = new Map<string, TranslationUnit[]>();
+  document.units.forEach((unit) => files.set(unit.entryId, [...(files.get(unit.entryId) || []), unit]));
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="${XLIFF_NAMESPACE}" version="2.0" srcLang="${escapeXml(document.sourceLocale)}" trgLang="${escapeXml(document.targetLocale)}">`,
+  ];
+  files.forEach((units, entryId) => {
+    lines.push(`  <file id="${escapeXml(entryId)}">`);
+    units.forEach((unit) => {
+      lines.push(`    <unit id="${escapeXml(unit.field)}">`);
+      if (unit.notes.length > 0) {
+        lines.push('      <notes>');
+        unit.notes.forEach((note) => lines.push(`        <note category="context">${escapeXml(note)}</note>`));
+        lines.push('      </notes>');
+      }
+      lines.push(`      <segment state="${unit.state}">`);
+      lines.push(`        <source>${escapeXml(unit.source)}</source>`);
+      if (unit.target) lines.push(`        <target>${escapeXml(unit.target)}</target>`);
+      lines.push('      </segment>');
+      lines.push('    </unit>');
+    });
+    lines.push('  </file>');
+  });
+  lines.push('</xliff>');
+  return lines.join('\n') + '\n';
+}
+
+function poString(keyword: string, text: string): string {
+  const escaped = text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\r/g, '\\r');
+  if (!text.includes('\n')) return `${keyword} "${escaped}"`;
+  const lines = escaped.split('\n').map((line, i, all) => (i < all.length - 1 ? `${line}\\n` : line));
+  return [`${keyword} ""`, ...lines.filter((line) => line !== '').map((line) => `"${line}"`)].join('\n');
+}
+
+export function serializePo(document: TranslationDocument): string {
+  const header = [
+    'msgid ""',
+    'msgstr ""',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    `"Language: ${document.targetLocale}\\n"`,
+    `"X-Source-Language: ${document.sourceLocale}\\n"`,
+  ].join('\n');
+  const messages = document.units.map((unit) =>
+    [
+      ...unit.notes.map((note) => `#. ${note.replace(/\n/g, ' ')}`),
+      ...(unit.state === 'initial' && unit.target ? ['#, fuzzy'] : []),
+      poString('msgctxt', getUnitId(unit)),
+      poString('msgid', unit.source),
+      poString('msgstr', unit.target),
+    ].join('\n')
+  );
+  return [header, ...messages].join('\n\n') + '\n';
+}
+
+export function serializeTranslationDocument(document: TranslationDocument, format: TranslationFileFormat): string {
+  return format === 'xliff' ? serializeXliff(document) : serializePo(document);
+}
+
+export interface TranslationFileParseResult {
+  document: TranslationDocument | null;
+  format?: TranslationFileFormat;
+  errors: string[];
+}
+
+const STATE_ORDER: TranslationUnitState[] = ['initial', 'translated', 'reviewed'];
+
+function parseXliff(text: string): TranslationFileParseResult {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  const root = xml.documentElement;
+  if (xml.getElementsByTagName('parsererror').length > 0 || root.localName !== 'xliff') {
+    return { document: null, errors: ['File is not valid XLIFF'] };
+  }
+  if (!root.getAttribute('version')?.startsWith('2.')) {
+    return { document: null, errors: ['Only XLIFF 2.0 files are supported'] };
+  }
+  const targetLocale = root.getAttribute('trgLang');
+  if (!targetLocale) {
+    return { document: null, errors: ['The file does not name a target language (trgLang)'] };
+  }
+
+  const units: TranslationUnit[] = [];
+  Array.from(root.getElementsByTagNameNS('*', 'file')).forEach((file) => {
+    const entryId = file.getAttribute('id') || '';
+    Array.from(file.getElementsByTagNameNS('*', 'unit')).forEach((unit) => {
+      // CAT tools may split a unit into several segments; join them back up
+      const parts = Array.from(unit.children).filter((el) => el.localName === 'segment' || el.localName === 'ignorable');
+      const text = (el: Element, name: string) =>
+        Array.from(el.children).find((child) => child.localName === name)?.textContent ?? '';
+      const states = parts
+        .filter((el) => el.localName === 'segment')
+        .map((el) => {
+          const state = el.getAttribute('state') || 'initial';
+          return state === 'final' ? 'reviewed' : (state as TranslationUnitState);
+        })
+        .filter((state) => STATE_ORDER.includes(state));
+      units.push({
+        entryId,
+        field: unit.getAttribute('id') || '',
+        source: parts.map((el) => text(el, 'source')).join(''),
+        target: parts.map((el) => text(el, 'target')).join(''),
+        // The least finished segment decides for the whole unit
+        state: states.length > 0 ? STATE_ORDER[Math.min(...states.map((state) => STATE_ORDER.indexOf(state)))] : 'initial',
+        notes: Array.from(unit.getElementsByTagNameNS('*', 'note')).map((note) => note.textContent || ''),
+      });
+    });
+  });
+
+  return {
+    document: { sourceLocale: root.getAttribute('srcLang') || '', targetLocale, units },
+    format: 'xliff',
+    errors: [],
+  };
+}
+
+function unescapePo(text: string): string {
+  return text.replace(/\\(.)/g, (_, char: string) => ({ n: '\n', t: '\t', r: '\r' })[char] ?? char);
+}
+
+interface PoMessage {
+  context?: string;
+  id: string;
+  str: string;
+  fuzzy: boolean;
+  notes: string[];
+}
+
+function parsePo(text: string): TranslationFileParseResult {
+  const messages: PoMessage[] = [];
+  let current: PoMessage = { id: '', str: '', fuzzy: false, notes: [] };
+  let keyword: 'context' | 'id' | 'str' | null = null;
+  let started = false;
+  let obsolete = false;
+
+  const flush = () => {
+    if (started && !obsolete) messages.push(current);
+    current = { id: '', str: '', fuzzy: false, notes: [] };
+    keyword = null;
+    started = false;
+    obsolete = false;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '') {
+      flush();
+      continue;
+    }
+    if (line.startsWith('#~')) {
+      obsolete = true;
+      continue;
+    }
+    if (line.startsWith('#')) {
+      // Comments start the next message when they follow a translation
+      if (keyword === 'str') flush();
+      if (line.startsWith('#.')) current.notes.push(line.slice(2).trim());
+      if (line.startsWith('#,') && line.includes('fuzzy')) current.fuzzy = true;
+      continue;
+    }
+    const match = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"$/.exec(line);
+    if (match) {
+      const name = match[1];
+      if ((name === 'msgctxt' || name === 'msgid') && keyword === 'str') flush();
+      started = true;
+      if (name === 'msgctxt') keyword = 'context';
+      else if (name === 'msgid') keyword = 'id';
+      else if (name === 'msgid_plural' || (name.startsWith('msgstr[') && name !== 'msgstr[0]')) {
+        // Plural forms are not used by content fields
+        keyword = null;
+        continue;
+      } else keyword = 'str';
+      current[keyword] = (current[keyword] || '') + unescapePo(match[2]);
+      continue;
+    }
+    const continuation = /^"(.*)"$/.exec(line);
+    if (continuation && keyword) {
+      current[keyword] = (current[keyword] || '') + unescapePo(continuation[1]);
+      continue;
+    }
+    if (!continuation) {
+      return { document: null, errors: [`File is not valid PO: unexpected line "${line.slice(0, 40)}"`] };
+    }
+  }
+  flush();
+
+  const header = messages.find((message) => message.id === '' && message.context === undefined);
+  const headers = Object.fromEntries(
+    (header?.str || '')
+      .split('\n')
+      .map((line) => line.split(/:\s*/))
+      .filter((parts) => parts.length >= 2)
+      .map(([key, ...value]) => [key.toLowerCase(), value.join(':').trim()])
+  );
+  const targetLocale = headers['language'];
+  if (!targetLocale) {
+    return { document: null, errors: ['The file does not name a target language (Language header)'] };
+  }
+
+  const units = messages
+    .filter((message) => message !== header && message.context?.includes(':'))
+    .map((message) => {
+      const separator = message.context!.lastIndexOf(':');
+      return {
+        entryId: message.context!.slice(0, separator),
+        field: message.context!.slice(separator + 1),
+        source: message.id,
+        target: message.str,
+        state: (message.fuzzy || !message.str ? 'initial' : 'translated') as TranslationUnitState,
+        notes: message.notes,
+      };
+    });
+
+  return {
+    document: { sourceLocale: headers['x-source-language'] || '', targetLocale, units },
+    format: 'po',
+    errors: [],
+  };
+}
+
+/**
+ * Parse an XLIFF 2.0 or PO file, told apart by content.
+ */
+export function parseTranslationFile(text: string): TranslationFileParseResult {
+  const content = text.replace(/^\uFEFF/, '').trim();
+  if (!content) return { document: null, errors: ['File is empty'] };
+  return content.startsWith('<') ? parseXliff(content) : parsePo(content);
+}
+
+const PLACEHOLDER = /\{\{\s*[\w.]+\s*\}\}|\{[\w.]+\}|%(?:\d+\$)?[sd]/g;
+const TAG = /<(\/?)([a-zA-Z][\w-]*)\b[^>]*?(\/?)>/g;
+const VOID_TAGS = ['area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'source', 'track', 'wbr'];
+
+function countMatches(items: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  items.forEach((item) => counts.set(item, (counts.get(item) || 0) + 1));
+  return counts;
+}
+
+function compareCounts(source: string[], target: string[], describe: (item: string) => string): string[] {
+  const expected = countMatches(source);
+  const actual = countMatches(target);
+  const issues: string[] = [];
+  expected.forEach((count, item) => {
+    if ((actual.get(item) || 0) < count) issues.push(`Missing ${describe(item)}`);
+  });
+  actual.forEach((count, item) => {
+    if ((expected.get(item) || 0) < count) issues.push(`Unexpected ${describe(item)}`);
+  });
+  return issues;
+}
+
+function getTags(html: string): { name: string; closing: boolean; selfClosing: boolean }[] {
+  return Array.from(html.matchAll(TAG)).map((match) => ({
+    name: match[2].toLowerCase(),
+    closing: match[1] === '/',
+    selfClosing: match[3] === '/' || VOID_TAGS.includes(match[2].toLowerCase()),
+  }));
+}
+
+/**
+ * Problems with a translation compared with its source: placeholders such as
+ * {name}, {{name}} and %s that were dropped or added, HTML tags that were
+ * dropped or added, and tags that are no longer properly nested.
+ */
+export function validateTranslation(source: string, target: string): string[] {
+  const issues = compareCounts(
+    source.match(PLACEHOLDER) || [],
+    target.match(PLACEHOLDER) || [],
+    (placeholder) => `placeholder ${placeholder}`
+  );
+
+  const tagKey = (tag: ReturnType<typeof getTags>[number]) => `<${tag.closing ? '/' : ''}${tag.name}>`;
+  const targetTags = getTags(target);
+  issues.push(...compareCounts(getTags(source).map(tagKey), targetTags.map(tagKey), (tag) => `tag ${tag}`));
+
+  const open: string[] = [];
+  const nested = targetTags.every((tag) => {
+    if (tag.selfClosing) return true;
+    if (!tag.closing) {
+      open.push(tag.name);
+      return true;
+    }
+    return open.pop() === tag.name;
+  });
+  if (!nested || open.length > 0) issues.push('Tags are not properly nested');
+
+  return issues;
+}
+
+export interface FieldImport {
+  field: string;
+  label: string;
+  /** Source text the translation was made from */
+  source: string;
+  current: string;
+  target: string;
+  reviewed: boolean;
+  issues: string[];
+  /** The entry's source text changed after the file was exported */
+  sourceChanged: boolean;
+}
+
+export interface EntryImport {
+  entry: ContentEntry;
+  translation?: Translation;
+  changes: FieldImport[];
+}
+
+export interface TranslationImportPlan {
+  entries: EntryImport[];
+  /** Units that cannot be imported, with the reason */
+  skipped: string[];
+  /** Units without a finished translation */
+  untranslated: number;
+  /** Units whose translation is already saved */
+  unchanged: number;
+}
+
+/**
+ * Match imported units with the entries they came from. Only finished units
+ * that differ from the saved translation become changes.
+ */
+export function planTranslationImport(units: TranslationUnit[], sources: TranslationSource[]): TranslationImportPlan {
+  const plan: TranslationImportPlan = { entries: [], skipped: [], untranslated: 0, unchanged: 0 };
+  const byEntry = new Map<string, EntryImport>();
+
+  units.forEach((unit) => {
+    if (unit.state === 'initial' || unit.target.trim() === '') {
+      plan.untranslated++;
+      return;
+    }
+    const source = sources.find((item) => item.entry.id === unit.entryId);
+    if (!source) {
+      plan.skipped.push(`${getUnitId(unit)}: the entry no longer exists`);
+      return;
+    }
+    const field = getLocalizedFields(source.fields).find((f) => f.name === unit.field);
+    if (!field) {
+      plan.skipped.push(`${getEntryTitle(source.entry)} / ${unit.field}: not a localized field`);
+      return;
+    }
+    const current = source.translation?.translated_data[unit.field];
+    if (current === unit.target) {
+      plan.unchanged++;
+      return;
+    }
+
+    const data = source.entry.data || source.entry.content_data || {};
+    const entryImport = byEntry.get(unit.entryId) || { entry: source.entry, translation: source.translation, changes: [] };
+    entryImport.changes.push({
+      field: unit.field,
+      label: field.label || field.name,
+      source: unit.source,
+      current: typeof current === 'string' ? current : '',
+      target: unit.target,
+      reviewed: unit.state === 'reviewed',
+      issues: validateTranslation(unit.source, unit.target),
+      sourceChanged: data[unit.field] !== unit.source,
+    });
+    byEntry.set(unit.entryId, entryImport);
+  });
+
+  plan.entries = Array.from(byEntry.values());
+  return plan;
+}
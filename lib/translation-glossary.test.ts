@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { checkGlossary, findGlossaryTerms, getMachineGlossary, getTermTarget } from './translation-glossary';
+import type { GlossaryTerm } from '@/types';
+
+function term(overrides: Partial<GlossaryTerm>): GlossaryTerm {
+  return {
+    id: overrides.term || 'term',
+    term: '',
+    do_not_translate: false,
+    translations: {},
+    case_sensitive: false,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const brand = term({ term: 'Acme Pro', do_not_translate: true, case_sensitive: true });
+const checkout = term({ term: 'checkout', translations: { de: 'Kasse', fr: ' ' } });
+const glossary = [brand, checkout];
+
+describe('getTermTarget', () => {
+  it('should keep do-not-translate terms and look up forced translations', () => {
+    expect(getTermTarget(brand, 'de')).toBe('Acme Pro');
+    expect(getTermTarget(checkout, 'de')).toBe('Kasse');
+    expect(getTermTarget(checkout, 'fr')).toBeUndefined();
+  });
+});
+
+describe('findGlossaryTerms', () => {
+  it('should match whole words, honoring case sensitivity', () => {
+    expect(findGlossaryTerms('<p>Go to <b>Checkout</b> with Acme Pro</p>', glossary)).toEqual([brand, checkout]);
+    expect(findGlossaryTerms('acme pro checkouts', glossary)).toEqual([]);
+  });
+});
+
+describe('getMachineGlossary', () => {
+  it('should list terms with a rendering in the locale', () => {
+    expect(getMachineGlossary(glossary, 'de')).toEqual([
+      { source: 'Acme Pro', target: 'Acme Pro' },
+      { source: 'checkout', target: 'Kasse' },
+    ]);
+    expect(getMachineGlossary(glossary, 'fr')).toEqual([{ source: 'Acme Pro', target: 'Acme Pro' }]);
+  });
+});
+
+describe('checkGlossary', () => {
+  const source = 'Buy Acme Pro at checkout';
+
+  it('should accept translations that follow the glossary', () => {
+    expect(checkGlossary(source, 'Kaufe Acme Pro an der Kasse', glossary, 'de')).toEqual([]);
+  });
+
+  it('should flag translated brand terms and other renderings', () => {
+    expect(checkGlossary(source, 'Kaufe Acme Profi beim Bezahlen', glossary, 'de')).toEqual([
+      'Keep "Acme Pro" untranslated',
+      'Translate "checkout" as "Kasse"',
+    ]);
+  });
+
+  it('should ignore terms without a rendering in the locale', () => {
+    expect(checkGlossary(source, 'Achetez Acme Pro au paiement', glossary, 'fr')).toEqual([]);
+  });
+});
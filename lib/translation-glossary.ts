@@ -0,0 +1,61 @@
+/**
+ * Translation Glossary
+ *
+ * Organization terms that must come out the same in every translation. A
+ * do-not-translate term, such as a product line name, stays as written in
+ * every locale; other terms have a required translation per locale. Terms are
+ * passed to machine translation and checked in translations afterwards.
+ */
+
+import { GlossaryTerm } from '@/types';
+import type { MachineGlossaryEntry } from '@/lib/api/translation';
+import { toPlainText } from './translation-memory';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words only, so "Pro" doesn't match inside "Product"
+function containsTerm(text: string, term: string, caseSensitive: boolean): boolean {
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}])`,
+    caseSensitive ? 'u' : 'iu'
+  );
+  return pattern.test(toPlainText(text));
+}
+
+/**
+ * The text a term must be translated as in a locale, if the glossary says.
+ */
+export function getTermTarget(term: GlossaryTerm, localeCode: string): string | undefined {
+  if (term.do_not_translate) return term.term;
+  return term.translations[localeCode]?.trim() || undefined;
+}
+
+/**
+ * Glossary terms that appear in text.
+ */
+export function findGlossaryTerms(text: string, terms: GlossaryTerm[]): GlossaryTerm[] {
+  return terms.filter((term) => term.term.trim() && containsTerm(text, term.term, term.case_sensitive));
+}
+
+/**
+ * Terms with a required rendering in a locale, for the translation service.
+ */
+export function getMachineGlossary(terms: GlossaryTerm[], localeCode: string): MachineGlossaryEntry[] {
+  return terms.flatMap((term) => {
+    const target = getTermTarget(term, localeCode);
+    return target ? [{ source: term.term, target }] : [];
+  });
+}
+
+/**
+ * Glossary terms in source that the translation doesn't render as required.
+ */
+export function checkGlossary(source: string, target: string, terms: GlossaryTerm[], localeCode: string): string[] {
+  return findGlossaryTerms(source, terms).flatMap((term) => {
+    const expected = getTermTarget(term, localeCode);
+    if (!expected || containsTerm(target, expected, term.case_sensitive)) return [];
+    return [term.do_not_translate ? `Keep "${term.term}" untranslated` : `Translate "${term.term}" as "${expected}"`];
+  });
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { findMemoryMatches, getApprovedSegments, getSimilarity, toPlainText } from './translation-memory';
+import { hashSourceValue } from './translation-status';
+import type { TranslationMemorySegment } from '@/types';
+
+function segment(source: string, target: string, updated_at = '2025-01-01T00:00:00Z'): TranslationMemorySegment {
+  return {
+    id: `${source}-${target}`,
+    source_locale: 'en',
+    target_locale: 'de',
+    source,
+    target,
+    created_at: updated_at,
+    updated_at,
+  };
+}
+
+describe('toPlainText', () => {
+  it('should drop markup and collapse whitespace', () => {
+    expect(toPlainText('<p>Add to&nbsp;<strong>cart</strong></p>\n')).toBe('Add to cart');
+  });
+});
+
+describe('getSimilarity', () => {
+  it('should score identical text 100 and near misses lower', () => {
+    expect(getSimilarity('Add to cart', 'Add to cart')).toBe(100);
+    expect(getSimilarity('Add to cart', '<p>add to cart</p>')).toBe(99);
+    expect(getSimilarity('Add the shoes to your cart', 'Add the boots to your cart')).toBe(83);
+    expect(getSimilarity('Add to cart', 'Free shipping')).toBe(0);
+  });
+});
+
+describe('findMemoryMatches', () => {
+  const memory = [
+    segment('Add the shoes to your cart', 'Lege die Schuhe in deinen Warenkorb'),
+    segment('Add the boots to your cart', 'Lege die Stiefel in deinen Warenkorb'),
+    segment('Add the boots to your cart', 'Lege die Stiefel in deinen Warenkorb', '2025-02-01T00:00:00Z'),
+    segment('Free shipping on all orders', 'Kostenloser Versand'),
+  ];
+
+  it('should return similar segments best first, once per target', () => {
+    const matches = findMemoryMatches('Add the boots to your cart', memory);
+
+    expect(matches.map((match) => [match.segment.target, match.score])).toEqual([
+      ['Lege die Stiefel in deinen Warenkorb', 100],
+      ['Lege die Schuhe in deinen Warenkorb', 83],
+    ]);
+  });
+
+  it('should respect the minimum score and limit', () => {
+    expect(findMemoryMatches('Add the boots to your cart', memory, { minScore: 90 })).toHaveLength(1);
+    expect(findMemoryMatches('Add the boots to your cart', memory, { limit: 1 })).toHaveLength(1);
+    expect(findMemoryMatches('', memory)).toEqual([]);
+  });
+});
+
+describe('getApprovedSegments', () => {
+  const fields = [
+    { name: 'title', type: 'text', localized: true },
+    { name: 'body', type: 'richtext', localized: true },
+    { name: 'tags', type: 'json', localized: true },
+    { name: 'sku', type: 'text' },
+  ];
+  const source = { title: 'Boots', body: '<p>Warm boots</p>', tags: ['winter'], sku: 'B-1' };
+  const state = (value: unknown, machine = false, reviewed = false) => ({
+    source_hash: hashSourceValue(value),
+    machine,
+    reviewed,
+  });
+  const context = { source_locale: 'en', target_locale: 'de', content_id: 'entry-1' };
+
+  it('should keep human and reviewed text fields', () => {
+    const segments = getApprovedSegments(
+      fields,
+      source,
+      { title: 'Stiefel', body: '<p>Warme Stiefel</p>', tags: ['Winter'], sku: 'B-1' },
+      {
+        title: state('Boots'),
+        body: state('<p>Warm boots</p>', true, true),
+        tags: state(['winter']),
+        sku: state('B-1'),
+      },
+      context
+    );
+
+    expect(segments).toEqual([
+      { ...context, field: 'title', source: 'Boots', target: 'Stiefel' },
+      { ...context, field: 'body', source: '<p>Warm boots</p>', target: '<p>Warme Stiefel</p>' },
+    ]);
+  });
+
+  it('should skip machine output, empty text and outdated fields', () => {
+    const segments = getApprovedSegments(
+      fields,
+      source,
+      { title: 'Stiefel', body: '<p></p>' },
+      { title: state('Shoes'), body: state('<p>Warm boots</p>') },
+      context
+    );
+    const machine = getApprovedSegments(fields, source, { title: 'Stiefel' }, { title: state('Boots', true) }, context);
+
+    expect(segments).toEqual([]);
+    expect(machine).toEqual([]);
+  });
+});
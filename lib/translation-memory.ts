@@ -0,0 +1,117 @@
+/**
+ * Translation Memory
+ *
+ * Approved translations are remembered as segments - whole field values in a
+ * source and a target locale - and offered again when similar source text
+ * comes up. Similarity is the word-level edit distance between the two texts
+ * with markup removed, as a percentage of the longer text.
+ */
+
+import { ContentTypeField, TranslationFieldState, TranslationMemorySegment } from '@/types';
+import type { TranslationMemoryCreate } from '@/lib/api/translation';
+import { hashSourceValue } from './translation-status';
+
+export interface MemoryMatch {
+  segment: TranslationMemorySegment;
+  /** 100 for identical text, lower the more words differ */
+  score: number;
+}
+
+export interface MemoryMatchOptions {
+  minScore?: number;
+  limit?: number;
+}
+
+const TOKEN = /[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+
+/**
+ * Text without HTML tags and with whitespace collapsed.
+ */
+export function toPlainText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  return toPlainText(text).toLowerCase().match(TOKEN) || [];
+}
+
+function editDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = row;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How similar two texts are, from 0 to 100. Only identical text scores 100;
+ * texts that differ in case or markup alone score 99.
+ */
+export function getSimilarity(a: string, b: string): number {
+  if (a === b) return 100;
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  const longest = Math.max(tokensA.length, tokensB.length);
+  if (longest === 0) return 0;
+  const score = Math.round((1 - editDistance(tokensA, tokensB) / longest) * 100);
+  return Math.min(score, 99);
+}
+
+/**
+ * Remembered segments similar to text, best first. Segments with the same
+ * target are offered once.
+ */
+export function findMemoryMatches(
+  text: string,
+  segments: TranslationMemorySegment[],
+  { minScore = 70, limit = 3 }: MemoryMatchOptions = {}
+): MemoryMatch[] {
+  const length = tokenize(text).length;
+  if (length === 0) return [];
+
+  const best = new Map<string, MemoryMatch>();
+  segments.forEach((segment) => {
+    // Texts of very different lengths can't reach the minimum score
+    const other = tokenize(segment.source).length;
+    if ((Math.min(length, other) / Math.max(length, other)) * 100 < minScore) return;
+    const score = getSimilarity(text, segment.source);
+    if (score < minScore) return;
+    const existing = best.get(segment.target);
+    if (!existing || score > existing.score) best.set(segment.target, { segment, score });
+  });
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score || b.segment.updated_at.localeCompare(a.segment.updated_at))
+    .slice(0, limit);
+}
+
+/**
+ * Segments worth remembering from a saved translation: text fields saved by
+ * a person or reviewed, whose source hasn't changed since.
+ */
+export function getApprovedSegments(
+  fields: ContentTypeField[],
+  source: Record<string, unknown>,
+  translated: Record<string, unknown>,
+  fieldStatus: Record<string, TranslationFieldState>,
+  context: Pick<TranslationMemoryCreate, 'source_locale' | 'target_locale' | 'content_id'>
+): TranslationMemoryCreate[] {
+  return fields.flatMap((field) => {
+    const state = fieldStatus[field.name];
+    const sourceText = source[field.name];
+    const targetText = translated[field.name];
+    if (!field.localized || !state || (state.machine && !state.reviewed)) return [];
+    if (typeof sourceText !== 'string' || typeof targetText !== 'string') return [];
+    if (!toPlainText(sourceText) || !toPlainText(targetText)) return [];
+    if (state.source_hash !== hashSourceValue(sourceText)) return [];
+    return [{ ...context, source: sourceText, target: targetText, field: field.name }];
+  });
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countStatuses,
+  createFieldState,
+  getCompletion,
+  getFieldStatus,
+  getLocalizedFields,
+  getTranslationLocaleCode,
+  hashSourceValue,
+} from './translation-status';
+import type { Locale, Translation } from '@/types';
+
+const source = { title: 'Hello', body: '<p>World</p>' };
+
+function translation(overrides: Partial<Translation> = {}): Translation {
+  return {
+    id: 't1',
+    content_entry_id: 'entry-1',
+    locale_id: 'locale-de',
+    translated_data: {},
+    status: 'completed',
+    is_manual: true,
+    version: 1,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+describe('hashSourceValue', () => {
+  it('should be stable and change with the value', () => {
+    expect(hashSourceValue('Hello')).toBe(hashSourceValue('Hello'));
+    expect(hashSourceValue('Hello')).not.toBe(hashSourceValue('Hello!'));
+    expect(hashSourceValue(undefined)).toBe(hashSourceValue(null));
+    expect(hashSourceValue({ a: 1 })).toMatch(/^[0-9a-f]{8}$/);
+  });
+});
+
+describe('getFieldStatus', () => {
+  it('should report missing when there is no translated value', () => {
+    expect(getFieldStatus('title', source, null)).toBe('missing');
+    expect(getFieldStatus('title', source, translation({ translated_data: { title: '  ' } }))).toBe('missing');
+    expect(getFieldStatus('body', source, translation({ translated_data: { body: '<p></p>' } }))).toBe('missing');
+  });
+
+  it('should report outdated when the source changed since translating', () => {
+    const t = translation({
+      translated_data: { title: 'Hallo' },
+      field_status: { title: { source_hash: hashSourceValue('Hi'), machine: false, reviewed: true } },
+    });
+
+    expect(getFieldStatus('title', source, t)).toBe('outdated');
+  });
+
+  it('should report machine, translated and reviewed fields', () => {
+    const t = translation({
+      translated_data: { title: 'Hallo', body: '<p>Welt</p>' },
+      field_status: {
+        title: createFieldState('title', source, { machine: true }),
+        body: createFieldState('body', source, { reviewed: true }),
+      },
+    });
+
+    expect(getFieldStatus('title', source, t)).toBe('machine');
+    expect(getFieldStatus('body', source, t)).toBe('reviewed');
+    expect(getFieldStatus('body', source, { ...t, field_status: {} })).toBe('translated');
+  });
+
+  it('should fall back to how the whole translation was made', () => {
+    const t = translation({ translated_data: { title: 'Hallo' }, is_manual: false });
+
+    expect(getFieldStatus('title', source, t)).toBe('machine');
+  });
+});
+
+describe('getLocalizedFields', () => {
+  it('should keep only localized fields', () => {
+    const fields = getLocalizedFields([
+      { name: 'title', type: 'text', localized: true },
+      { name: 'sku', type: 'text' },
+    ]);
+
+    expect(fields.map((field) => field.name)).toEqual(['title']);
+  });
+});
+
+describe('getCompletion', () => {
+  it('should count missing and outdated fields as incomplete', () => {
+    const counts = countStatuses(['missing', 'outdated', 'machine', 'reviewed']);
+
+    expect(counts).toEqual({ missing: 1, outdated: 1, machine: 1, translated: 0, reviewed: 1 });
+    expect(getCompletion(counts)).toBe(50);
+    expect(getCompletion(countStatuses([]))).toBe(100);
+  });
+});
+
+describe('getTranslationLocaleCode', () => {
+  it('should use the embedded locale or look it up by id', () => {
+    const locales = [{ id: 'locale-de', code: 'de' }] as Locale[];
+
+    expect(getTranslationLocaleCode(translation(), locales)).toBe('de');
+    expect(getTranslationLocaleCode(translation({ locale: { id: 'x', code: 'fr' } as Locale }), locales)).toBe('fr');
+    expect(getTranslationLocaleCode(translation({ locale_id: 'missing' }), locales)).toBeUndefined();
+  });
+});
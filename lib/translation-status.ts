@@ -0,0 +1,101 @@
+/**
+ * Translation Status
+ *
+ * Per-field state of a translation compared with its source content. A field
+ * is missing until it has a value, outdated once the source value differs
+ * from the one it was translated from, and otherwise machine-translated,
+ * translated or reviewed. Source values are compared by hash, recorded in
+ * Translation.field_status when the field is saved.
+ */
+
+import { ContentTypeField, Locale, Translation, TranslationFieldState } from '@/types';
+
+export type TranslationFieldStatus = 'missing' | 'outdated' | 'machine' | 'translated' | 'reviewed';
+
+/** Labels in order of urgency, most urgent first */
+export const TRANSLATION_STATUS_LABELS: Record<TranslationFieldStatus, string> = {
+  missing: 'Missing',
+  outdated: 'Outdated',
+  machine: 'Machine translated',
+  translated: 'Translated',
+  reviewed: 'Reviewed',
+};
+
+export const TRANSLATION_STATUSES = Object.keys(TRANSLATION_STATUS_LABELS) as TranslationFieldStatus[];
+
+type TranslationLike = Pick<Translation, 'translated_data' | 'field_status' | 'is_manual'>;
+
+export function getLocalizedFields(fields: ContentTypeField[]): ContentTypeField[] {
+  return fields.filter((field) => field.localized);
+}
+
+/**
+ * Short, stable hash of a field value (32-bit FNV-1a over its JSON).
+ */
+export function hashSourceValue(value: unknown): string {
+  const text = JSON.stringify(value ?? null);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.replace(/<[^>]*>/g, '').trim() === '' && !/<img/i.test(value);
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+export function getFieldStatus(
+  name: string,
+  source: Record<string, unknown>,
+  translation: TranslationLike | null | undefined
+): TranslationFieldStatus {
+  if (!translation || isEmptyValue(translation.translated_data?.[name])) return 'missing';
+
+  const state = translation.field_status?.[name];
+  if (state && state.source_hash !== hashSourceValue(source[name])) return 'outdated';
+  // Translations saved before per-field state existed only know how they were made as a whole
+  if (state ? state.machine : !translation.is_manual) return 'machine';
+  return state?.reviewed ? 'reviewed' : 'translated';
+}
+
+/**
+ * State to save for a field translated or reviewed against the current source.
+ */
+export function createFieldState(
+  name: string,
+  source: Record<string, unknown>,
+  options: { machine?: boolean; reviewed?: boolean } = {}
+): TranslationFieldState {
+  return {
+    source_hash: hashSourceValue(source[name]),
+    machine: options.machine ?? false,
+    reviewed: options.reviewed ?? false,
+  };
+}
+
+export type TranslationStatusCounts = Record<TranslationFieldStatus, number>;
+
+export function countStatuses(statuses: TranslationFieldStatus[]): TranslationStatusCounts {
+  const counts = Object.fromEntries(TRANSLATION_STATUSES.map((status) => [status, 0])) as TranslationStatusCounts;
+  statuses.forEach((status) => counts[status]++);
+  return counts;
+}
+
+/**
+ * Share of fields with a current translation, from 0 to 100. Missing and
+ * outdated fields count as incomplete.
+ */
+export function getCompletion(counts: TranslationStatusCounts): number {
+  const total = TRANSLATION_STATUSES.reduce((sum, status) => sum + counts[status], 0);
+  if (total === 0) return 100;
+  return Math.round(((total - counts.missing - counts.outdated) / total) * 100);
+}
+
+export function getTranslationLocaleCode(translation: Translation, locales: Locale[]): string | undefined {
+  return translation.locale?.code || locales.find((locale) => locale.id === translation.locale_id)?.code;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getChunk, getChunkCount, getReceivedBytes, getRetryDelay, isRetryableError, wait } from './upload-queue';
+
+describe('chunk planning', () => {
+  it('should split a file into fixed size chunks', () => {
+    const file = new Blob(['abcdefghij']);
+
+    expect(getChunkCount(file.size, 4)).toBe(3);
+    expect(getChunk(file, 2, 4).size).toBe(2);
+  });
+
+  it('should count an empty file as one chunk', () => {
+    expect(getChunkCount(0, 4)).toBe(1);
+  });
+
+  it('should count bytes of received chunks including a short last chunk', () => {
+    expect(getReceivedBytes(10, [0, 2], 4)).toBe(6);
+  });
+});
+
+describe('retry policy', () => {
+  it('should back off exponentially up to 30 seconds', () => {
+    expect([0, 1, 2, 10].map(getRetryDelay)).toEqual([1000, 2000, 4000, 30000]);
+  });
+
+  it('should retry network errors, rate limiting and server errors only', () => {
+    expect(isRetryableError({ code: 'ERR_NETWORK' })).toBe(true);
+    expect(isRetryableError({ response: { status: 503 } })).toBe(true);
+    expect(isRetryableError({ response: { status: 429 } })).toBe(true);
+    expect(isRetryableError({ response: { status: 413 } })).toBe(false);
+    expect(isRetryableError(new Error('Upload failed'))).toBe(false);
+  });
+});
+
+describe('wait', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject when aborted', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const pending = wait(1000, controller.signal);
+
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
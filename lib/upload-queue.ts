@@ -0,0 +1,73 @@
+/**
+ * Upload Queue
+ *
+ * Helpers for the media upload queue: chunk planning, retry policy and
+ * abortable waits. Files larger than one chunk go through a chunked upload
+ * session so they can be paused, resumed and retried chunk by chunk.
+ */
+
+/** 5 MB - files up to this size are sent in a single request */
+export const CHUNK_SIZE = 5 * 1024 * 1024;
+
+/** Files uploading at the same time */
+export const UPLOAD_CONCURRENCY = 3;
+
+/** Retries per request before a file is marked as failed */
+export const MAX_RETRIES = 3;
+
+export function getChunkCount(fileSize: number, chunkSize = CHUNK_SIZE): number {
+  return Math.max(1, Math.ceil(fileSize / chunkSize));
+}
+
+export function getChunk(file: Blob, index: number, chunkSize = CHUNK_SIZE): Blob {
+  return file.slice(index * chunkSize, Math.min((index + 1) * chunkSize, file.size));
+}
+
+/**
+ * Bytes already on the server for the given received chunks.
+ */
+export function getReceivedBytes(fileSize: number, received: number[], chunkSize = CHUNK_SIZE): number {
+  return received.reduce((sum, index) => sum + Math.max(0, Math.min(chunkSize, fileSize - index * chunkSize)), 0);
+}
+
+/**
+ * Exponential backoff: 1s, 2s, 4s... capped at 30s.
+ */
+export function getRetryDelay(attempt: number): number {
+  return Math.min(1000 * 2 ** attempt, 30000);
+}
+
+/**
+ * Only transient failures are retried: dropped connections, timeouts, rate
+ * limiting and server errors. Validation errors (4xx) fail right away.
+ */
+export function isRetryableError(err: unknown): boolean {
+  const error = err as { code?: string; response?: { status?: number } };
+  if (error.response?.status) {
+    return error.response.status >= 500 || error.response.status === 429;
+  }
+  return error.code === 'ERR_NETWORK' || error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+}
+
+export function isAbortError(err: unknown): boolean {
+  const error = err as { name?: string; code?: string };
+  return error.name === 'AbortError' || error.name === 'CanceledError' || error.code === 'ERR_CANCELED';
+}
+
+/**
+ * Resolve after `ms`, or reject with an AbortError when the signal fires.
+ */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener('abort', abort, { once: true });
+  });
+}
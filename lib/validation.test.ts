@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileSchema,
+  findUniqueConflicts,
+  getValidationRules,
+  guessMimeType,
+  isMimeTypeAllowed,
+  validateRows,
+  validateValidationRules,
+} from './validation';
+import { ContentTypeField } from '@/types';
+
+const fields: ContentTypeField[] = [
+  { name: 'title', type: 'text', label: 'Title', required: true, validation: { minLength: 3, maxLength: 10 } },
+  { name: 'sku', type: 'text', label: 'SKU', unique: true, validation: { pattern: '[A-Z]{3}-\\d+' } },
+  { name: 'price', type: 'number', label: 'Price', validation: { min: 0, max: 100 } },
+  { name: 'email', type: 'email', label: 'Email' },
+  { name: 'cover', type: 'image', label: 'Cover', validation: { allowedMimeTypes: ['image/png', 'image/webp'] } },
+  { name: 'launch', type: 'date', label: 'Launch', validation: { minDate: '2025-01-01', maxDate: '2025-12-31' } },
+];
+
+describe('validation', () => {
+  describe('compileSchema', () => {
+    const schema = compileSchema(fields);
+
+    it('should require required fields', () => {
+      expect(schema.validateField('title', '')).toBe('Title is required');
+      expect(schema.validateField('title', '   ')).toBe('Title is required');
+      expect(schema.validateField('price', '')).toBeNull();
+    });
+
+    it('should check text length', () => {
+      expect(schema.validateField('title', 'ab')).toBe('Title must be at least 3 characters');
+      expect(schema.validateField('title', 'a'.repeat(11))).toBe('Title must be at most 10 characters');
+      expect(schema.validateField('title', 'Hello')).toBeNull();
+    });
+
+    it('should match the whole value against the pattern', () => {
+      expect(schema.validateField('sku', 'ABC-12')).toBeNull();
+      expect(schema.validateField('sku', 'xABC-12')).toBe('SKU is not in the expected format');
+    });
+
+    it('should check number ranges', () => {
+      expect(schema.validateField('price', -1)).toBe('Price must be at least 0');
+      expect(schema.validateField('price', '101')).toBe('Price must be at most 100');
+      expect(schema.validateField('price', 'abc')).toBe('Price must be a number');
+      expect(schema.validateField('price', 50)).toBeNull();
+    });
+
+    it('should check email format', () => {
+      expect(schema.validateField('email', 'nope')).toBe('Email must be a valid email address');
+      expect(schema.validateField('email', 'a@b.co')).toBeNull();
+    });
+
+    it('should check allowed MIME types from the file extension', () => {
+      expect(schema.validateField('cover', '/media/photo.jpg')).toBe('Cover must be a file of type image/png, image/webp');
+      expect(schema.validateField('cover', '/media/photo.png?v=2')).toBeNull();
+      expect(schema.validateField('cover', '/media/12345')).toBeNull();
+    });
+
+    it('should check date ranges', () => {
+      expect(schema.validateField('launch', '2024-12-31')).toBe('Launch must be on or after 2025-01-01');
+      expect(schema.validateField('launch', '2026-01-01')).toBe('Launch must be on or before 2025-12-31');
+      expect(schema.validateField('launch', 'someday')).toBe('Launch must be a valid date');
+      expect(schema.validateField('launch', '2025-06-01')).toBeNull();
+    });
+
+    it('should use the custom error message', () => {
+      const custom = compileSchema([
+        { name: 'code', type: 'text', required: true, validation: { pattern: '\\d+', errorMessage: 'Digits only' } },
+      ]);
+      expect(custom.validateField('code', 'abc')).toBe('Digits only');
+      expect(custom.validateField('code', '')).toBe('Digits only');
+    });
+
+    it('should treat empty rich text as empty', () => {
+      const rich = compileSchema([{ name: 'body', type: 'richtext', label: 'Body', required: true }]);
+      expect(rich.validateField('body', '<p></p>')).toBe('Body is required');
+    });
+
+    it('should validate fields inside blocks', () => {
+      const page = compileSchema([
+        {
+          name: 'sections',
+          type: 'components',
+          blocks: [{ key: 'hero', name: 'Hero', fields: [{ name: 'heading', type: 'text', label: 'Heading', required: true }] }],
+        },
+      ]);
+      expect(page.validateField('sections', [{ id: 'b1', block: 'hero', data: {} }])).toBe(
+        'Block 1 (Hero): Heading is required'
+      );
+    });
+
+    it('should collect errors for all fields', () => {
+      expect(schema.validate({ title: '', price: 500 })).toEqual({
+        title: 'Title is required',
+        price: 'Price must be at most 100',
+      });
+      expect(schema.uniqueFields).toEqual(['sku']);
+    });
+  });
+
+  describe('getValidationRules', () => {
+    it('should ignore empty and malformed rules', () => {
+      expect(getValidationRules({ validation: { minLength: 'x', pattern: ' ', allowedMimeTypes: [] } })).toEqual({});
+    });
+  });
+
+  describe('validateValidationRules', () => {
+    it('should reject invalid patterns and ranges', () => {
+      expect(validateValidationRules({ pattern: '[' })).toBe('Invalid pattern "["');
+      expect(validateValidationRules({ minLength: 5, maxLength: 2 })).toBe('Min length cannot be greater than max length');
+      expect(validateValidationRules({ min: 5, max: 2 })).toBe('Minimum value cannot be greater than maximum value');
+      expect(validateValidationRules({ minDate: 'soon' })).toBe('Invalid date "soon"');
+      expect(validateValidationRules({ minDate: '2025-02-01', maxDate: '2025-01-01' })).toBe(
+        'Earliest date cannot be after latest date'
+      );
+      expect(validateValidationRules({ pattern: '\\d+', min: 1, max: 2 })).toBeNull();
+    });
+  });
+
+  describe('MIME types', () => {
+    it('should support wildcards', () => {
+      expect(isMimeTypeAllowed('image/png', ['image/*'])).toBe(true);
+      expect(isMimeTypeAllowed('application/pdf', ['image/*'])).toBe(false);
+      expect(isMimeTypeAllowed('application/pdf', [])).toBe(true);
+    });
+
+    it('should guess from the file extension', () => {
+      expect(guessMimeType('https://cdn.example.com/a/B.JPG')).toBe('image/jpeg');
+      expect(guessMimeType('/uploads/abc')).toBeUndefined();
+    });
+  });
+
+  describe('findUniqueConflicts', () => {
+    it('should flag values used by other entries, ignoring case', () => {
+      expect(findUniqueConflicts(fields, { sku: 'ABC-1' }, [{ sku: 'abc-1' }])).toEqual({ sku: 'SKU must be unique' });
+      expect(findUniqueConflicts(fields, { sku: 'ABC-1' }, [{ sku: 'ABC-2' }])).toEqual({});
+    });
+  });
+
+  describe('validateRows', () => {
+    it('should report invalid rows and duplicates within the batch', () => {
+      const results = validateRows(
+        fields,
+        [
+          { title: 'First', sku: 'ABC-1' },
+          { title: 'Second', sku: 'ABC-1' },
+          { title: 'OK', sku: 'ABC-3' },
+        ],
+        [{ sku: 'ABC-3' }]
+      );
+
+      expect(results).toEqual([
+        { row: 1, errors: { sku: 'SKU must be unique' } },
+        { row: 2, errors: { title: 'Title must be at least 3 characters', sku: 'SKU must be unique' } },
+      ]);
+    });
+
+    it('should apply visibility and required-when rules per row', () => {
+      const conditional: ContentTypeField[] = [
+        { name: 'on_sale', type: 'boolean', label: 'On Sale' },
+        {
+          name: 'sale_price',
+          type: 'number',
+          label: 'Sale Price',
+          required: true,
+          visibility: { action: 'show', match: 'all', conditions: [{ field: 'on_sale', operator: 'equals', value: 'true' }] },
+        },
+      ];
+
+      expect(validateRows(conditional, [{ on_sale: false }, { on_sale: true }])).toEqual([
+        { row: 1, errors: { sale_price: 'Sale Price is required' } },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Field Validation Engine
+ *
+ * Compiles a content type's fields into validators so the entry editor, the
+ * edit dialog and bulk imports all enforce the same rules. Rules set in the
+ * content type builder are stored on each field's `validation` object.
+ */
+
+import { ContentBlockSchema, ContentTypeField } from '@/types';
+import { getBlocks } from './blocks';
+import { getActiveFields } from './conditions';
+
+export interface FieldValidationRules {
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  /** Regular expression the whole value must match */
+  pattern?: string;
+  /** MIME types accepted by image/file fields; supports wildcards like "image/*" */
+  allowedMimeTypes?: string[];
+  /** Earliest and latest accepted date (YYYY-MM-DD or ISO date-time) */
+  minDate?: string;
+  maxDate?: string;
+  /** Replaces the built-in message for any failed rule */
+  errorMessage?: string;
+}
+
+/** Builder config keys that are saved into a field's `validation` object */
+export const VALIDATION_RULE_KEYS: (keyof FieldValidationRules)[] = [
+  'minLength',
+  'maxLength',
+  'min',
+  'max',
+  'pattern',
+  'allowedMimeTypes',
+  'minDate',
+  'maxDate',
+  'errorMessage',
+];
+
+/** Field name → error message */
+export type ValidationErrors = Record<string, string>;
+
+export interface RowValidationResult {
+  /** Zero-based index of the row in the imported batch */
+  row: number;
+  errors: ValidationErrors;
+}
+
+export interface CompiledSchema {
+  /** Names of fields that must be unique across entries of the content type */
+  uniqueFields: string[];
+  validateField: (name: string, value: unknown) => string | null;
+  validate: (data: Record<string, unknown>) => ValidationErrors;
+}
+
+type Validator = (value: unknown) => string | null;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+  txt: 'text/plain',
+  zip: 'application/zip',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+};
+
+/**
+ * Read the validation rules stored on a field.
+ */
+export function getValidationRules(field: Pick<ContentTypeField, 'validation'>): FieldValidationRules {
+  const validation = field.validation || {};
+  const rules: FieldValidationRules = {};
+  const number = (value: unknown) => (typeof value === 'number' && !isNaN(value) ? value : undefined);
+  const string = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+  rules.minLength = number(validation.minLength);
+  rules.maxLength = number(validation.maxLength);
+  rules.min = number(validation.min);
+  rules.max = number(validation.max);
+  rules.pattern = string(validation.pattern);
+  rules.minDate = string(validation.minDate);
+  rules.maxDate = string(validation.maxDate);
+  rules.errorMessage = string(validation.errorMessage);
+  if (Array.isArray(validation.allowedMimeTypes)) {
+    const types = validation.allowedMimeTypes.filter((t: unknown) => typeof t === 'string' && t.trim());
+    if (types.length > 0) rules.allowedMimeTypes = types;
+  }
+
+  return rules;
+}
+
+/**
+ * Check the rules configured in the builder before the content type is saved.
+ * Returns an error message, or null when valid.
+ */
+export function validateValidationRules(rules: FieldValidationRules): string | null {
+  if (rules.pattern) {
+    try {
+      new RegExp(rules.pattern);
+    } catch {
+      return `Invalid pattern "${rules.pattern}"`;
+    }
+  }
+  if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+    return 'Min length cannot be greater than max length';
+  }
+  if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+    return 'Minimum value cannot be greater than maximum value';
+  }
+  for (const date of [rules.minDate, rules.maxDate]) {
+    if (date && isNaN(Date.parse(date))) {
+      return `Invalid date "${date}"`;
+    }
+  }
+  if (rules.minDate && rules.maxDate && Date.parse(rules.minDate) > Date.parse(rules.maxDate)) {
+    return 'Earliest date cannot be after latest date';
+  }
+  return null;
+}
+
+/**
+ * Whether a MIME type is accepted. An empty allow-list accepts everything.
+ */
+export function isMimeTypeAllowed(mimeType: string | undefined, allowed: string[] | undefined): boolean {
+  if (!allowed || allowed.length === 0) return true;
+  if (!mimeType) return false;
+  const type = mimeType.toLowerCase();
+  return allowed.some((pattern) => {
+    const p = pattern.trim().toLowerCase();
+    return p.endsWith('/*') ? type.startsWith(p.slice(0, -1)) : type === p;
+  });
+}
+
+/**
+ * Best-effort MIME type of a stored media URL, based on its file extension.
+ */
+export function guessMimeType(url: string): string | undefined {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return extension ? EXTENSION_MIME_TYPES[extension] : undefined;
+}
+
+function isEmpty(value: unknown, fieldType: string): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') {
+    const text = fieldType === 'richtext' ? stripTags(value) : value;
+    return text.trim() === '';
+  }
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ');
+}
+
+function compileField(field: ContentTypeField): Validator {
+  const label = field.label || field.name;
+  const fieldType = field.type || 'text';
+  const rules = getValidationRules(field);
+  const fail = (message: string) => rules.errorMessage || message;
+
+  let pattern: RegExp | null = null;
+  if (rules.pattern) {
+    try {
+      pattern = new RegExp(`^(?:${rules.pattern})$`);
+    } catch {
+      pattern = null;
+    }
+  }
+
+  const blockValidators = fieldType === 'components' ? compileBlocks(field.blocks || []) : null;
+
+  return (value) => {
+    if (isEmpty(value, fieldType)) {
+      return field.required && fieldType !== 'boolean' ? fail(`${label} is required`) : null;
+    }
+
+    if (typeof value === 'string') {
+      const length = (fieldType === 'richtext' ? stripTags(value) : value).trim().length;
+      if (rules.minLength !== undefined && length < rules.minLength) {
+        return fail(`${label} must be at least ${rules.minLength} characters`);
+      }
+      if (rules.maxLength !== undefined && length > rules.maxLength) {
+        return fail(`${label} must be at most ${rules.maxLength} characters`);
+      }
+      if (pattern && !pattern.test(value)) {
+        return fail(`${label} is not in the expected format`);
+      }
+    }
+
+    switch (fieldType) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : Number(value);
+        if (isNaN(number)) return fail(`${label} must be a number`);
+        if (rules.min !== undefined && number < rules.min) return fail(`${label} must be at least ${rules.min}`);
+        if (rules.max !== undefined && number > rules.max) return fail(`${label} must be at most ${rules.max}`);
+        break;
+      }
+      case 'email':
+        if (typeof value !== 'string' || !EMAIL_PATTERN.test(value)) {
+          return fail(`${label} must be a valid email address`);
+        }
+        break;
+      case 'url':
+        try {
+          new URL(String(value));
+        } catch {
+          return fail(`${label} must be a valid URL`);
+        }
+        break;
+      case 'image':
+      case 'file': {
+        const mimeType = typeof value === 'string' ? guessMimeType(value) : undefined;
+        // Files without a recognizable extension are checked when picked instead
+        if (mimeType && !isMimeTypeAllowed(mimeType, rules.allowedMimeTypes)) {
+          return fail(`${label} must be a file of type ${rules.allowedMimeTypes?.join(', ')}`);
+        }
+        break;
+      }
+      case 'date':
+      case 'datetime': {
+        const time = Date.parse(String(value));
+        if (isNaN(time)) return fail(`${label} must be a valid date`);
+        if (rules.minDate && time < Date.parse(rules.minDate)) {
+          return fail(`${label} must be on or after ${rules.minDate}`);
+        }
+        if (rules.maxDate && time > Date.parse(rules.maxDate)) {
+          return fail(`${label} must be on or before ${rules.maxDate}`);
+        }
+        break;
+      }
+      case 'components':
+        return blockValidators ? blockValidators(value) : null;
+    }
+
+    return null;
+  };
+}
+
+function compileBlocks(schemas: ContentBlockSchema[]): Validator {
+  const compiled = new Map(schemas.map((schema) => [schema.key, compileSchema(schema.fields)]));
+  return (value) => {
+    const blocks = getBlocks(value);
+    for (let i = 0; i < blocks.length; i++) {
+      const errors = compiled.get(blocks[i].block)?.validate(blocks[i].data) || {};
+      const first = Object.values(errors)[0];
+      if (first) {
+        const name = schemas.find((s) => s.key === blocks[i].block)?.name || blocks[i].block;
+        return `Block ${i + 1} (${name}): ${first}`;
+      }
+    }
+    return null;
+  };
+}
+
+/**
+ * Compile a content type's fields into validators. Compile once per schema and
+ * reuse the result for every keystroke or imported row.
+ */
+export function compileSchema(fields: ContentTypeField[]): CompiledSchema {
+  const validators = new Map(fields.map((field) => [field.name, compileField(field)]));
+
+  const validateField = (name: string, value: unknown) => validators.get(name)?.(value) ?? null;
+
+  return {
+    uniqueFields: fields.filter((field) => field.unique).map((field) => field.name),
+    validateField,
+    validate: (data) => {
+      const errors: ValidationErrors = {};
+      validators.forEach((validator, name) => {
+        const error = validator(data[name]);
+        if (error) errors[name] = error;
+      });
+      return errors;
+    },
+  };
+}
+
+const uniqueKey = (value: unknown) => (typeof value === 'string' ? value.trim().toLowerCase() : JSON.stringify(value));
+
+/**
+ * Unique fields whose value is already used by one of the other entries.
+ */
+export function findUniqueConflicts(
+  fields: ContentTypeField[],
+  data: Record<string, unknown>,
+  others: Record<string, unknown>[]
+): ValidationErrors {
+  const errors: ValidationErrors = {};
+  fields
+    .filter((field) => field.unique)
+    .forEach((field) => {
+      const value = data[field.name];
+      if (isEmpty(value, field.type)) return;
+      if (others.some((other) => !isEmpty(other[field.name], field.type) && uniqueKey(other[field.name]) === uniqueKey(value))) {
+        errors[field.name] = getValidationRules(field).errorMessage || `${field.label || field.name} must be unique`;
+      }
+    });
+  return errors;
+}
+
+/**
+ * Validate a batch of entries before import. Unique fields are checked against
+ * the existing entries and against earlier rows in the same batch, and fields
+ * hidden by their visibility rules are skipped. Only rows with errors are
+ * returned.
+ */
+export function validateRows(
+  fields: ContentTypeField[],
+  rows: Record<string, unknown>[],
+  existing: Record<string, unknown>[] = []
+): RowValidationResult[] {
+  const results: RowValidationResult[] = [];
+
+  rows.forEach((row, index) => {
+    const activeFields = getActiveFields(fields, row);
+    const errors = {
+      ...findUniqueConflicts(activeFields, row, [...existing, ...rows.slice(0, index)]),
+      ...compileSchema(activeFields).validate(row),
+    };
+    if (Object.keys(errors).length > 0) {
+      results.push({ row: index, errors });
+    }
+  });
+
+  return results;
+}
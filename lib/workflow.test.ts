@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDefaultWorkflow,
+  isWorkflowEnabled,
+  getCurrentStage,
+  getAvailableTransitions,
+  validateWorkflow,
+} from './workflow';
+
+describe('Workflow', () => {
+  const workflow = createDefaultWorkflow();
+  const allow = () => true;
+
+  describe('isWorkflowEnabled', () => {
+    it('should require the flag and at least one stage', () => {
+      expect(isWorkflowEnabled(workflow)).toBe(true);
+      expect(isWorkflowEnabled({ enabled: false, stages: workflow.stages })).toBe(false);
+      expect(isWorkflowEnabled({ enabled: true, stages: [] })).toBe(false);
+      expect(isWorkflowEnabled(undefined)).toBe(false);
+    });
+  });
+
+  describe('getCurrentStage', () => {
+    it('should find the stage by key', () => {
+      expect(getCurrentStage(workflow, 'approved').name).toBe('Approved');
+    });
+
+    it('should default to the first stage', () => {
+      expect(getCurrentStage(workflow, undefined).key).toBe('draft');
+      expect(getCurrentStage(workflow, 'removed_stage').key).toBe('draft');
+    });
+  });
+
+  describe('getAvailableTransitions', () => {
+    it('should only advance from the first stage', () => {
+      const options = getAvailableTransitions(workflow, 'draft', allow);
+      expect(options).toHaveLength(1);
+      expect(options[0]).toMatchObject({ kind: 'advance', requiresComment: false, allowed: true });
+      expect(options[0].to.key).toBe('in_review');
+    });
+
+    it('should offer rejection to every earlier stage, nearest first', () => {
+      const options = getAvailableTransitions(workflow, 'approved', allow);
+      expect(options.map((o) => `${o.kind}:${o.to.key}`)).toEqual([
+        'advance:published',
+        'reject:in_review',
+        'reject:draft',
+      ]);
+      expect(options.filter((o) => o.kind === 'reject').every((o) => o.requiresComment)).toBe(true);
+    });
+
+    it('should gate transitions on the target stage permission', () => {
+      const editorOnly = (permission: string) => permission === 'content.update';
+      const [advance, reject] = getAvailableTransitions(workflow, 'in_review', editorOnly);
+      // Moving to Approved requires content.approve, and so does sending back
+      expect(advance.allowed).toBe(false);
+      expect(reject.allowed).toBe(false);
+
+      const fromDraft = getAvailableTransitions(workflow, 'draft', editorOnly);
+      expect(fromDraft[0].allowed).toBe(true);
+    });
+
+    it('should use the current stage permission when rejecting from the final stage', () => {
+      const publisher = (permission: string) => permission === 'content.publish';
+      const options = getAvailableTransitions(workflow, 'published', publisher);
+      expect(options.every((o) => o.kind === 'reject' && o.allowed)).toBe(true);
+    });
+  });
+
+  describe('validateWorkflow', () => {
+    it('should accept disabled or valid workflows', () => {
+      expect(validateWorkflow(undefined)).toBeNull();
+      expect(validateWorkflow({ enabled: false, stages: [] })).toBeNull();
+      expect(validateWorkflow(workflow)).toBeNull();
+    });
+
+    it('should require at least two stages', () => {
+      expect(validateWorkflow({ enabled: true, stages: [workflow.stages[0]] })).toBe(
+        'A workflow needs at least two stages'
+      );
+    });
+
+    it('should reject unnamed and duplicate stages', () => {
+      expect(
+        validateWorkflow({ enabled: true, stages: [workflow.stages[0], { key: '', name: '' }] })
+      ).toBe('Every workflow stage needs a name');
+      expect(
+        validateWorkflow({ enabled: true, stages: [workflow.stages[0], { key: 'draft', name: 'Draft' }] })
+      ).toBe('Duplicate workflow stage "Draft"');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Editorial Workflow Utilities
+ *
+ * Content types can define an ordered list of review stages
+ * (e.g. Draft → In Review → Approved → Published). Entries move one stage
+ * forward at a time, or are sent back to any earlier stage with a comment.
+ * Each stage names the permission required to move an entry into it.
+ */
+
+import { ContentWorkflow, WorkflowStage } from '@/types';
+
+export const WORKFLOW_PERMISSIONS = [
+  { value: 'content.update', label: 'Edit content' },
+  { value: 'content.review', label: 'Review content' },
+  { value: 'content.approve', label: 'Approve content' },
+  { value: 'content.publish', label: 'Publish content' },
+];
+
+export const DEFAULT_WORKFLOW_STAGES: WorkflowStage[] = [
+  { key: 'draft', name: 'Draft', permission: 'content.update' },
+  { key: 'in_review', name: 'In Review', permission: 'content.update' },
+  { key: 'approved', name: 'Approved', permission: 'content.approve' },
+  { key: 'published', name: 'Published', permission: 'content.publish' },
+];
+
+/** Audit log actions recorded for workflow transitions */
+export const WORKFLOW_AUDIT_ACTIONS = [
+  { value: 'workflow.transition', label: 'Workflow: Stage change' },
+  { value: 'workflow.approve', label: 'Workflow: Approve' },
+  { value: 'workflow.reject', label: 'Workflow: Reject' },
+  { value: 'workflow.assign', label: 'Workflow: Assign reviewer' },
+];
+
+export interface WorkflowTransitionOption {
+  to: WorkflowStage;
+  kind: 'advance' | 'reject';
+  /** Rejections must explain what needs to change */
+  requiresComment: boolean;
+  allowed: boolean;
+}
+
+/**
+ * Stable key for a stage name, e.g. "Legal Review" → "legal_review".
+ */
+export function toStageKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+export function createDefaultWorkflow(): ContentWorkflow {
+  return { enabled: true, stages: DEFAULT_WORKFLOW_STAGES.map((stage) => ({ ...stage })) };
+}
+
+export function isWorkflowEnabled(workflow?: ContentWorkflow | null): workflow is ContentWorkflow {
+  return !!workflow?.enabled && workflow.stages.length > 0;
+}
+
+/**
+ * The stage an entry is in. Entries created before the workflow was enabled
+ * have no stage and start at the first one.
+ */
+export function getCurrentStage(workflow: ContentWorkflow, stageKey?: string | null): WorkflowStage {
+  return workflow.stages.find((s) => s.key === stageKey) || workflow.stages[0];
+}
+
+/**
+ * Transitions out of the current stage, flagged with whether the user may
+ * perform them.
+ *
+ * - Advancing requires the permission of the next stage.
+ * - Sending back requires the permission a reviewer would need to advance
+ *   the entry (or the current stage's permission from the final stage).
+ */
+export function getAvailableTransitions(
+  workflow: ContentWorkflow,
+  stageKey: string | null | undefined,
+  hasPermission: (permission: string) => boolean
+): WorkflowTransitionOption[] {
+  const current = getCurrentStage(workflow, stageKey);
+  const index = workflow.stages.indexOf(current);
+  const next = workflow.stages[index + 1];
+  const can = (permission?: string) => hasPermission(permission || 'content.update');
+
+  const options: WorkflowTransitionOption[] = [];
+  if (next) {
+    options.push({ to: next, kind: 'advance', requiresComment: false, allowed: can(next.permission) });
+  }
+
+  const rejectAllowed = can(next ? next.permission : current.permission);
+  workflow.stages
+    .slice(0, index)
+    .reverse()
+    .forEach((stage) => {
+      options.push({ to: stage, kind: 'reject', requiresComment: true, allowed: rejectAllowed });
+    });
+
+  return options;
+}
+
+/**
+ * Check a workflow definition before it is saved.
+ * Returns an error message, or null when valid.
+ */
+export function validateWorkflow(workflow: ContentWorkflow | undefined): string | null {
+  if (!workflow || !workflow.enabled) return null;
+
+  if (workflow.stages.length < 2) {
+    return 'A workflow needs at least two stages';
+  }
+
+  const keys = new Set<string>();
+  for (const stage of workflow.stages) {
+    if (!stage.name.trim() || !stage.key.trim()) {
+      return 'Every workflow stage needs a name';
+    }
+    if (keys.has(stage.key)) {
+      return `Duplicate workflow stage "${stage.name}"`;
+    }
+    keys.add(stage.key);
+  }
+
+  return null;
+}
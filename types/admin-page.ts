@@ -392,6 +392,15 @@ export interface ReferenceDataPageContent extends AdminPageContent {
   };
 }
 
+// Admin interface message catalog, one published entry per UI language
+export interface AdminMessagesContent extends AdminPageContent {
+  page_key: 'admin_messages';
+  /** UI language of the messages, e.g. 'fr' or 'fr-CA' */
+  language: string;
+  /** Messages keyed like the built-in catalogs, e.g. 'nav.orders' */
+  messages: Record<string, string>;
+}
+
 // CMS Content Entry wrapper
 export interface AdminPageEntry {
   id: string;
@@ -414,7 +423,8 @@ export type AdminPageKey =
   | 'admin_analytics'
   | 'admin_reports'
   | 'admin_promotions'
-  | 'admin_reference_data';
+  | 'admin_reference_data'
+  | 'admin_messages';
 
 // Helper to get typed content
 export type AdminPageContentByKey<K extends AdminPageKey> = 
@@ -424,4 +434,5 @@ export type AdminPageContentByKey<K extends AdminPageKey> =
   K extends 'admin_inventory' ? InventoryPageContent :
   K extends 'admin_settings' ? SettingsPageContent :
   K extends 'admin_reference_data' ? ReferenceDataPageContent :
+  K extends 'admin_messages' ? AdminMessagesContent :
   AdminPageContent;
@@ -144,6 +144,7 @@ export interface OrganizationProfile {
   email?: string;
   website?: string;
   logo_url?: string;
+  timezone?: string; // IANA timezone used for scheduling, e.g. "America/New_York"
   owner_id?: string;
   is_active: boolean;
   plan_type: string;
@@ -157,6 +158,7 @@ export interface OrganizationProfileUpdate {
   email?: string;
   website?: string;
   logo_url?: string;
+  timezone?: string;
 }
 
 export interface Locale {
@@ -168,6 +170,8 @@ export interface Locale {
   is_enabled: boolean;
   is_active: boolean;
   auto_translate: boolean;
+  /** Locale codes to read from, in order, before the default locale */
+  fallback_locales?: string[] | null;
   organization_id: string;
   created_at: string;
   updated_at: string;
@@ -251,23 +255,71 @@ export interface AuditLogStats {
 }
 
 // Content Types
+export interface ContentTypeField {
+  name: string;
+  type: string;
+  label?: string;
+  required?: boolean;
+  unique?: boolean;
+  localized?: boolean;
+  default?: any;
+  validation?: Record<string, any>;
+  help_text?: string;
+  options?: (string | { value: string; label?: string })[]; // Select fields: allowed values
+  multiple?: boolean;               // Reference fields: allow linking several entries
+  allowed_content_types?: string[]; // Reference fields: target content type IDs (empty = any)
+  blocks?: ContentBlockSchema[];    // Components fields: block types editors can add
+  visibility?: FieldVisibilityRule; // Show or hide the field based on other fields
+  required_when?: FieldRule;        // Require the field only when the rule matches
+  clear_when_hidden?: boolean;      // Drop the stored value on save while hidden
+}
+
+export type FieldConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface FieldCondition {
+  field: string; // Name of the field whose value is checked
+  operator: FieldConditionOperator;
+  value?: string;
+}
+
+export interface FieldRule {
+  match: 'all' | 'any';
+  conditions: FieldCondition[];
+}
+
+export interface FieldVisibilityRule extends FieldRule {
+  action: 'show' | 'hide';
+}
+
+// Reusable block definition for "components" fields (hero, CTA, ...)
+export interface ContentBlockSchema {
+  key: string;
+  name: string;
+  fields: ContentTypeField[];
+}
+
+// One block in a "components" field value, stored in order
+export interface ContentBlock {
+  id: string;    // Stable ID so blocks keep identity while reordering
+  block: string; // ContentBlockSchema key
+  data: Record<string, unknown>;
+}
+
 export interface ContentType {
   id: string;
   name: string;
   api_id?: string; // API uses api_id not slug (optional for test compat)
   description?: string;
-  fields?: Array<{
-    name: string;
-    type: string;
-    label?: string;
-    required?: boolean;
-    unique?: boolean;
-    localized?: boolean;
-    default?: any;
-    validation?: Record<string, any>;
-    help_text?: string;
-  }>;
+  fields?: ContentTypeField[];
   display_field?: string;
+  workflow?: ContentWorkflow;
   is_active?: boolean;
   entry_count?: number;
   organization_id: string;
@@ -278,11 +330,13 @@ export interface ContentType {
   schema?: Record<string, any>;
 }
 
+export type ContentStatus = "draft" | "scheduled" | "published" | "archived";
+
 export interface ContentEntry {
   id: string;
   content_type_id: string;
   slug: string;
-  status: "draft" | "published" | "archived";
+  status: ContentStatus;
   content_data?: Record<string, any>;  // Legacy field name
   data?: Record<string, any>;          // API returns 'data', not 'content_data'
   version?: number; // Optional for test compat
@@ -290,11 +344,92 @@ export interface ContentEntry {
   author?: User;
   content_type?: ContentType;
   published_at?: string;
+  publish_at?: string | null;   // Scheduled publish time (UTC ISO)
+  unpublish_at?: string | null; // Scheduled unpublish time (UTC ISO)
+  workflow_stage?: string;      // Key of the current WorkflowStage
+  reviewer_id?: string | null;
+  reviewer?: User;
   created_at?: string; // Optional for test compat
   updated_at?: string; // Optional for test compat
 }
 
+// An entry whose reference field points at another entry
+export interface ContentEntryReference {
+  entry_id: string;
+  slug: string;
+  title?: string;
+  status: ContentStatus;
+  content_type_id: string;
+  content_type_name?: string;
+  field: string; // Name of the reference field holding the link
+}
+
+export interface ContentEntrySchedule {
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+}
+
+// Editorial Workflow
+export interface WorkflowStage {
+  key: string;
+  name: string;
+  permission?: string; // Permission required to move an entry into this stage
+}
+
+export interface ContentWorkflow {
+  enabled: boolean;
+  stages: WorkflowStage[]; // Ordered; the last stage publishes the entry
+}
+
+export interface WorkflowTransitionRequest {
+  to_stage: string;
+  comment?: string;
+}
+
+export interface WorkflowHistoryItem {
+  id: string;
+  content_entry_id: string;
+  from_stage?: string;
+  to_stage: string;
+  comment?: string;
+  user_id?: string;
+  user_name?: string;
+  created_at: string;
+}
+
+// Snapshot of a content entry as it was saved at a given version
+export interface ContentEntryVersion {
+  id: string;
+  content_entry_id: string;
+  version: number;
+  slug?: string;
+  status: ContentEntry['status'];
+  data: Record<string, unknown>;
+  author_id?: string;
+  author_name?: string;
+  author?: User;
+  change_summary?: string;
+  created_at: string;
+}
+
+// A named content listing (filters, sort, columns) saved by a user
+export interface SavedContentView {
+  id: string;
+  name: string;
+  query: string; // URL query string of the listing, as produced by serializeView
+  shared: boolean; // Visible to everyone in the organization
+  owner_id: string;
+  owner_name?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // Media Types
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
 export interface Media {
   id: string;
   organization_id?: string; // Optional for test compat
@@ -314,6 +449,18 @@ export interface Media {
   tags?: string[];
   thumbnail_url?: string;
   cdn_url?: string;
+  /** Point of interest for responsive cropping, as fractions of width and height */
+  focal_point?: FocalPoint | null;
+  folder_id?: string | null;
+  /** References from content entries and navigation items; 0 means unused */
+  usage_count?: number;
+  /** Length of video and audio files, in seconds */
+  duration?: number;
+  video_codec?: string;
+  audio_codec?: string;
+  /** Still shown before a video plays, chosen from one of its frames */
+  poster_url?: string | null;
+  captions?: MediaCaption[];
   created_at?: string; // Optional for test compat
   updated_at?: string; // Optional for test compat
   // Legacy aliases for backward compatibility
@@ -323,6 +470,76 @@ export interface Media {
   title?: string;
 }
 
+export interface MediaFolder {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  media_count?: number;
+  /** What the current user may do in the folder, after folder rules */
+  access?: MediaFolderAccess;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface MediaFolderAccess {
+  can_upload: boolean;
+  can_delete: boolean;
+  /** Rename, move, delete the folder and change its rules */
+  can_manage: boolean;
+}
+
+/**
+ * Per-role rule on a folder. Folders without rules inherit from their parent;
+ * top-level folders without rules follow the role's media permissions.
+ */
+export interface MediaFolderRule {
+  role_id: string;
+  role_name?: string;
+  can_upload: boolean;
+  can_delete: boolean;
+}
+
+export interface MediaTag {
+  name: string;
+  count: number;
+}
+
+/** A previous file of a media item, kept when the file is replaced */
+export interface MediaVersion {
+  id: string;
+  media_id: string;
+  version: number;
+  filename: string;
+  mime_type: string;
+  file_size: number;
+  url?: string;
+  created_by_id?: string;
+  created_at: string;
+}
+
+/** A WebVTT track attached to a video or audio item, one per locale and kind */
+export interface MediaCaption {
+  id: string;
+  media_id: string;
+  /** Locale code, e.g. en or fr */
+  locale: string;
+  label: string;
+  kind: 'captions' | 'subtitles';
+  url: string;
+  created_at?: string;
+}
+
+/** A place that references a media item, by ID or by URL */
+export interface MediaUsage {
+  kind: 'content_entry' | 'navigation_item';
+  id: string;
+  title: string;
+  /** Field or property holding the reference, e.g. hero_image or gallery[2] */
+  field?: string;
+  /** Whether the media ID or one of its URLs was stored */
+  reference?: 'id' | 'url';
+}
+
 // Translation Types
 export interface Locale {
   id: string;
@@ -344,11 +561,55 @@ export interface Translation {
   quality_score?: number;
   is_manual: boolean;
   version: number;
+  /** Per-field review state, keyed by field name */
+  field_status?: Record<string, TranslationFieldState>;
   created_at: string;
   updated_at: string;
   locale?: Locale;
 }
 
+/**
+ * How a translated field was produced. source_hash is the hash of the source
+ * value it was translated from, so a changed source marks it outdated.
+ */
+export interface TranslationFieldState {
+  source_hash: string;
+  machine: boolean;
+  reviewed: boolean;
+}
+
+/**
+ * An approved source/target pair kept for reuse. Segments are whole field
+ * values; content_id and field record where it was last saved.
+ */
+export interface TranslationMemorySegment {
+  id: string;
+  source_locale: string;
+  target_locale: string;
+  source: string;
+  target: string;
+  content_id?: string;
+  field?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * An organization glossary term. do_not_translate terms stay as written in
+ * every locale; otherwise translations maps locale codes to the required
+ * translation.
+ */
+export interface GlossaryTerm {
+  id: string;
+  term: string;
+  do_not_translate: boolean;
+  translations: Record<string, string>;
+  case_sensitive: boolean;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // Theme Types
 export interface Theme {
   id: string;